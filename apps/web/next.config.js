@@ -27,7 +27,12 @@ const config = {
   output: process.env.DOCKER_OUTPUT ? 'standalone' : undefined,
   experimental: {
     outputFileTracingRoot: path.join(__dirname, '../../'),
-    serverComponentsExternalPackages: ['@node-rs/bcrypt', '@documenso/pdf-sign', 'playwright'],
+    serverComponentsExternalPackages: [
+      '@node-rs/bcrypt',
+      '@documenso/pdf-sign',
+      'mupdf',
+      'playwright',
+    ],
     serverActions: {
       bodySizeLimit: '50mb',
     },
@@ -75,6 +80,10 @@ const config = {
         source: '/ingest/:path*',
         destination: 'https://eu.posthog.com/:path*',
       },
+      {
+        source: '/scim/v2/:path*',
+        destination: '/api/scim/v2/:path*',
+      },
     ];
   },
   async redirects() {
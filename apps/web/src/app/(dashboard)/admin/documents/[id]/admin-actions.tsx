@@ -54,7 +54,9 @@ export const AdminActions = ({ className, document, recipients }: AdminActionsPr
               variant="outline"
               loading={isResealDocumentLoading}
               disabled={recipients.some(
-                (recipient) => recipient.signingStatus !== SigningStatus.SIGNED,
+                (recipient) =>
+                  recipient.signingStatus !== SigningStatus.SIGNED &&
+                  recipient.signingStatus !== SigningStatus.SKIPPED,
               )}
               onClick={() => resealDocument({ id: document.id })}
             >
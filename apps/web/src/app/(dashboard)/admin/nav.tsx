@@ -6,7 +6,7 @@ import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 
 import { Trans } from '@lingui/macro';
-import { BarChart3, FileStack, Settings, Trophy, Users, Wallet2 } from 'lucide-react';
+import { BarChart3, FileStack, Gauge, Settings, Trophy, Users, Wallet2 } from 'lucide-react';
 
 import { cn } from '@documenso/ui/lib/utils';
 import { Button } from '@documenso/ui/primitives/button';
@@ -94,6 +94,20 @@ export const AdminNav = ({ className, ...props }: AdminNavProps) => {
         </Link>
       </Button>
 
+      <Button
+        variant="ghost"
+        className={cn(
+          'justify-start md:w-full',
+          pathname?.startsWith('/admin/usage') && 'bg-secondary',
+        )}
+        asChild
+      >
+        <Link href="/admin/usage">
+          <Gauge className="mr-2 h-5 w-5" />
+          <Trans>Usage</Trans>
+        </Link>
+      </Button>
+
       <Button
         variant="ghost"
         className={cn(
@@ -0,0 +1,242 @@
+'use client';
+
+import { useEffect, useMemo, useState, useTransition } from 'react';
+
+import { msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+import { Loader } from 'lucide-react';
+import { DateTime } from 'luxon';
+
+import type { TUsage } from '@documenso/ee/server-only/limits/usage';
+import { formatStorage, megabytesToBytes } from '@documenso/ee/server-only/limits/utils';
+import { useDebouncedValue } from '@documenso/lib/client-only/hooks/use-debounced-value';
+import { useUpdateSearchParams } from '@documenso/lib/client-only/hooks/use-update-search-params';
+import type { UsageQuota } from '@documenso/prisma/client';
+import { UsageQuotaEnforcement } from '@documenso/prisma/client';
+import { Badge } from '@documenso/ui/primitives/badge';
+import type { DataTableColumnDef } from '@documenso/ui/primitives/data-table';
+import { DataTable } from '@documenso/ui/primitives/data-table';
+import { DataTablePagination } from '@documenso/ui/primitives/data-table-pagination';
+import { Input } from '@documenso/ui/primitives/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@documenso/ui/primitives/select';
+
+import { UsageQuotaDialog } from './usage-quota-dialog';
+
+type UsageAccount = {
+  id: number;
+  name: string;
+  description: string;
+  userId: number;
+  teamId: number | null;
+  quota: UsageQuota | null;
+  usage: TUsage;
+};
+
+type UsageDataTableProps = {
+  accounts: UsageAccount[];
+  type: 'team' | 'user';
+  /**
+   * The month formatted as `yyyy-MM`.
+   */
+  period: string;
+  totalPages: number;
+  perPage: number;
+  page: number;
+};
+
+const formatUsage = (used: number, limit: number | null | undefined) => {
+  return typeof limit === 'number' ? `${used} / ${limit}` : `${used}`;
+};
+
+export const UsageDataTable = ({
+  accounts,
+  type,
+  period,
+  totalPages,
+  perPage,
+  page,
+}: UsageDataTableProps) => {
+  const { _ } = useLingui();
+
+  const [isPending, startTransition] = useTransition();
+  const updateSearchParams = useUpdateSearchParams();
+  const [searchString, setSearchString] = useState('');
+  const debouncedSearchString = useDebouncedValue(searchString, 1000);
+
+  const periods = useMemo(() => {
+    const currentPeriod = DateTime.utc().startOf('month');
+
+    return Array.from({ length: 12 }, (_value, index) => currentPeriod.minus({ months: index }));
+  }, []);
+
+  const columns = useMemo(() => {
+    return [
+      {
+        header: _(msg`Name`),
+        accessorKey: 'name',
+        cell: ({ row }) => (
+          <div>
+            <p className="font-medium">{row.original.name}</p>
+            <p className="text-muted-foreground text-xs">{row.original.description}</p>
+          </div>
+        ),
+        size: 200,
+      },
+      {
+        header: _(msg`Documents`),
+        cell: ({ row }) => formatUsage(row.original.usage.documents, row.original.quota?.documents),
+      },
+      {
+        header: _(msg`Direct templates`),
+        cell: ({ row }) =>
+          formatUsage(row.original.usage.directTemplates, row.original.quota?.directTemplates),
+      },
+      {
+        header: _(msg`API calls`),
+        cell: ({ row }) => formatUsage(row.original.usage.apiCalls, row.original.quota?.apiCalls),
+      },
+      {
+        header: _(msg`Storage`),
+        cell: ({ row }) => {
+          const { usage, quota } = row.original;
+
+          const storage = formatStorage(usage.storage);
+
+          return typeof quota?.storageMegabytes === 'number'
+            ? `${storage} / ${formatStorage(megabytesToBytes(quota.storageMegabytes))}`
+            : storage;
+        },
+      },
+      {
+        header: _(msg`Quota`),
+        cell: ({ row }) => {
+          const { quota } = row.original;
+
+          if (!quota) {
+            return <span className="text-muted-foreground text-sm">{_(msg`Plan limits`)}</span>;
+          }
+
+          return (
+            <Badge
+              variant={quota.enforcement === UsageQuotaEnforcement.HARD ? 'destructive' : 'warning'}
+            >
+              {quota.enforcement === UsageQuotaEnforcement.HARD ? _(msg`Hard`) : _(msg`Soft`)}
+            </Badge>
+          );
+        },
+      },
+      {
+        header: _(msg`Actions`),
+        cell: ({ row }) => (
+          <UsageQuotaDialog
+            userId={row.original.teamId ? undefined : row.original.userId}
+            teamId={row.original.teamId ?? undefined}
+            accountName={row.original.name}
+            quota={row.original.quota}
+          />
+        ),
+      },
+    ] satisfies DataTableColumnDef<UsageAccount>[];
+  }, [_]);
+
+  useEffect(() => {
+    startTransition(() => {
+      updateSearchParams({
+        search: debouncedSearchString,
+        page: 1,
+        perPage,
+      });
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [debouncedSearchString]);
+
+  const onPaginationChange = (page: number, perPage: number) => {
+    startTransition(() => {
+      updateSearchParams({
+        page,
+        perPage,
+      });
+    });
+  };
+
+  const onTypeChange = (value: string) => {
+    startTransition(() => {
+      updateSearchParams({
+        type: value,
+        page: 1,
+      });
+    });
+  };
+
+  const onPeriodChange = (value: string) => {
+    startTransition(() => {
+      updateSearchParams({
+        period: value,
+        page: 1,
+      });
+    });
+  };
+
+  return (
+    <div className="relative">
+      <div className="my-6 flex flex-col gap-4 sm:flex-row">
+        <Input
+          type="text"
+          placeholder={
+            type === 'team' ? _(msg`Search by name or URL`) : _(msg`Search by name or email`)
+          }
+          value={searchString}
+          onChange={(e) => setSearchString(e.target.value)}
+        />
+
+        <Select value={type} onValueChange={onTypeChange}>
+          <SelectTrigger className="sm:max-w-[10rem]">
+            <SelectValue />
+          </SelectTrigger>
+
+          <SelectContent>
+            <SelectItem value="team">{_(msg`Teams`)}</SelectItem>
+            <SelectItem value="user">{_(msg`Users`)}</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select value={period} onValueChange={onPeriodChange}>
+          <SelectTrigger className="sm:max-w-[12rem]">
+            <SelectValue />
+          </SelectTrigger>
+
+          <SelectContent>
+            {periods.map((month) => (
+              <SelectItem key={month.toFormat('yyyy-MM')} value={month.toFormat('yyyy-MM')}>
+                {month.toFormat('LLLL yyyy')}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <DataTable
+        columns={columns}
+        data={accounts}
+        perPage={perPage}
+        currentPage={page}
+        totalPages={totalPages}
+        onPaginationChange={onPaginationChange}
+      >
+        {(table) => <DataTablePagination additionalInformation="VisibleCount" table={table} />}
+      </DataTable>
+
+      {isPending && (
+        <div className="absolute inset-0 flex items-center justify-center bg-white/50">
+          <Loader className="h-8 w-8 animate-spin text-gray-500" />
+        </div>
+      )}
+    </div>
+  );
+};
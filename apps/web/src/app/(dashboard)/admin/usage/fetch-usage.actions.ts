@@ -0,0 +1,25 @@
+'use server';
+
+import { getRequiredServerComponentSession } from '@documenso/lib/next-auth/get-server-component-session';
+import { isAdmin } from '@documenso/lib/next-auth/guards/is-admin';
+import { findUsage } from '@documenso/lib/server-only/admin/find-usage';
+
+type SearchOptions = {
+  type: 'team' | 'user';
+  search: string;
+  page: number;
+  perPage: number;
+  period: Date;
+};
+
+export async function search({ type, search, page, perPage, period }: SearchOptions) {
+  const { user } = await getRequiredServerComponentSession();
+
+  if (!isAdmin(user)) {
+    throw new Error('Unauthorized');
+  }
+
+  const results = await findUsage({ type, query: search, page, perPage, period });
+
+  return results;
+}
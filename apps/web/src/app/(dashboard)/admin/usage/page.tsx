@@ -0,0 +1,64 @@
+import { Trans } from '@lingui/macro';
+import { DateTime } from 'luxon';
+
+import { getUsagePeriod } from '@documenso/ee/server-only/limits/usage';
+import { setupI18nSSR } from '@documenso/lib/client-only/providers/i18n.server';
+
+import { UsageDataTable } from './data-table-usage';
+import { search } from './fetch-usage.actions';
+
+type AdminUsageProps = {
+  searchParams?: {
+    type?: string;
+    search?: string;
+    page?: number;
+    perPage?: number;
+    period?: string;
+  };
+};
+
+export default async function AdminUsage({ searchParams = {} }: AdminUsageProps) {
+  await setupI18nSSR();
+
+  const type = searchParams.type === 'user' ? 'user' : 'team';
+  const page = Number(searchParams.page) || 1;
+  const perPage = Number(searchParams.perPage) || 10;
+  const searchString = searchParams.search || '';
+
+  const requestedPeriod = DateTime.fromFormat(searchParams.period ?? '', 'yyyy-MM', {
+    zone: 'utc',
+  });
+
+  const period = getUsagePeriod(requestedPeriod.isValid ? requestedPeriod.toJSDate() : undefined);
+
+  const { data, totalPages } = await search({
+    type,
+    search: searchString,
+    page,
+    perPage,
+    period,
+  });
+
+  return (
+    <div>
+      <h2 className="text-4xl font-semibold">
+        <Trans>Usage</Trans>
+      </h2>
+
+      <p className="text-muted-foreground mt-2 text-sm">
+        <Trans>
+          Monitor the usage of teams and personal accounts and configure quotas to limit it.
+        </Trans>
+      </p>
+
+      <UsageDataTable
+        accounts={data}
+        type={type}
+        period={DateTime.fromJSDate(period, { zone: 'utc' }).toFormat('yyyy-MM')}
+        totalPages={totalPages}
+        page={page}
+        perPage={perPage}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,302 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+import { useForm } from 'react-hook-form';
+
+import type { UsageQuota } from '@documenso/prisma/client';
+import { UsageQuotaEnforcement } from '@documenso/prisma/client';
+import { trpc } from '@documenso/trpc/react';
+import type { TUsageQuotaSchema } from '@documenso/trpc/server/admin-router/schema';
+import { ZUsageQuotaSchema } from '@documenso/trpc/server/admin-router/schema';
+import { Button } from '@documenso/ui/primitives/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@documenso/ui/primitives/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@documenso/ui/primitives/form/form';
+import { Input } from '@documenso/ui/primitives/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@documenso/ui/primitives/select';
+import { useToast } from '@documenso/ui/primitives/use-toast';
+
+export type UsageQuotaDialogProps = {
+  userId?: number;
+  teamId?: number;
+  accountName: string;
+  quota: UsageQuota | null;
+};
+
+const QUOTA_LIMIT_FIELDS = [
+  {
+    name: 'documents',
+    label: msg`Documents per month`,
+  },
+  {
+    name: 'recipients',
+    label: msg`Recipients per document`,
+  },
+  {
+    name: 'directTemplates',
+    label: msg`Direct templates`,
+  },
+  {
+    name: 'apiCalls',
+    label: msg`API calls per month`,
+  },
+  {
+    name: 'storageMegabytes',
+    label: msg`Storage (MB)`,
+  },
+] as const;
+
+export const UsageQuotaDialog = ({ userId, teamId, accountName, quota }: UsageQuotaDialogProps) => {
+  const { _ } = useLingui();
+  const { toast } = useToast();
+
+  const router = useRouter();
+
+  const [open, setOpen] = useState(false);
+
+  const form = useForm<TUsageQuotaSchema>({
+    resolver: zodResolver(ZUsageQuotaSchema),
+    defaultValues: {
+      documents: quota?.documents ?? null,
+      recipients: quota?.recipients ?? null,
+      directTemplates: quota?.directTemplates ?? null,
+      apiCalls: quota?.apiCalls ?? null,
+      storageMegabytes: quota?.storageMegabytes ?? null,
+      enforcement: quota?.enforcement ?? UsageQuotaEnforcement.HARD,
+      warningThreshold: quota?.warningThreshold ?? 80,
+    },
+  });
+
+  const { mutateAsync: upsertUsageQuota } = trpc.admin.upsertUsageQuota.useMutation();
+
+  const { mutateAsync: deleteUsageQuota, isPending: isDeletingUsageQuota } =
+    trpc.admin.deleteUsageQuota.useMutation();
+
+  const onFormSubmit = async (data: TUsageQuotaSchema) => {
+    try {
+      await upsertUsageQuota({ userId, teamId, data });
+
+      toast({
+        title: _(msg`Success`),
+        description: _(msg`The quota has been saved.`),
+        duration: 5000,
+      });
+
+      setOpen(false);
+      router.refresh();
+    } catch (err) {
+      toast({
+        title: _(msg`An unknown error occurred`),
+        description: _(
+          msg`We encountered an unknown error while attempting to save this quota. Please try again later.`,
+        ),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const onRemoveQuota = async () => {
+    if (!quota) {
+      return;
+    }
+
+    try {
+      await deleteUsageQuota({ id: quota.id });
+
+      toast({
+        title: _(msg`Success`),
+        description: _(msg`The quota has been removed, the plan limits apply again.`),
+        duration: 5000,
+      });
+
+      setOpen(false);
+      router.refresh();
+    } catch (err) {
+      toast({
+        title: _(msg`An unknown error occurred`),
+        description: _(
+          msg`We encountered an unknown error while attempting to remove this quota. Please try again later.`,
+        ),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      form.reset();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const isSubmitting = form.formState.isSubmitting || isDeletingUsageQuota;
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isSubmitting && setOpen(value)}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Trans>Quota</Trans>
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-w-lg" position="center">
+        <DialogHeader>
+          <DialogTitle>
+            <Trans>Usage quota</Trans>
+          </DialogTitle>
+
+          <DialogDescription>
+            <Trans>
+              Configure the quota for <span className="font-semibold">{accountName}</span>. Leave a
+              limit empty to use the plan limit.
+            </Trans>
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onFormSubmit)}>
+            <fieldset className="flex h-full flex-col space-y-4" disabled={isSubmitting}>
+              <div className="grid grid-cols-2 gap-4">
+                {QUOTA_LIMIT_FIELDS.map(({ name, label }) => (
+                  <FormField
+                    key={name}
+                    control={form.control}
+                    name={name}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{_(label)}</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            className="bg-background"
+                            placeholder={_(msg`Plan limit`)}
+                            {...field}
+                            value={field.value ?? ''}
+                            onChange={(e) =>
+                              field.onChange(e.target.value === '' ? null : Number(e.target.value))
+                            }
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+
+              <FormField
+                control={form.control}
+                name="enforcement"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel required>
+                      <Trans>Enforcement</Trans>
+                    </FormLabel>
+
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="bg-background">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+
+                      <SelectContent>
+                        <SelectItem value={UsageQuotaEnforcement.HARD}>
+                          <Trans>Hard - block usage above the limit</Trans>
+                        </SelectItem>
+                        <SelectItem value={UsageQuotaEnforcement.SOFT}>
+                          <Trans>Soft - only send warnings</Trans>
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="warningThreshold"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel required>
+                      <Trans>Warning threshold (%)</Trans>
+                    </FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={100}
+                        className="bg-background"
+                        {...field}
+                        onChange={(e) => field.onChange(Number(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      <Trans>
+                        The owner is emailed once a month when usage reaches this percentage of a
+                        limit, and again when the limit is reached.
+                      </Trans>
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                {quota && (
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    className="mr-auto"
+                    loading={isDeletingUsageQuota}
+                    onClick={onRemoveQuota}
+                  >
+                    <Trans>Remove quota</Trans>
+                  </Button>
+                )}
+
+                <Button type="button" variant="secondary" onClick={() => setOpen(false)}>
+                  <Trans>Cancel</Trans>
+                </Button>
+
+                <Button type="submit" loading={form.formState.isSubmitting}>
+                  <Trans>Save</Trans>
+                </Button>
+              </DialogFooter>
+            </fieldset>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -39,6 +39,8 @@ export const DocumentPageViewButton = ({ document }: DocumentPageViewButtonProps
   const isRecipient = !!recipient;
   const isPending = document.status === DocumentStatus.PENDING;
   const isComplete = document.status === DocumentStatus.COMPLETED;
+  const isExpired = document.status === DocumentStatus.EXPIRED;
+  const isVoided = document.status === DocumentStatus.VOIDED;
   const isSigned = recipient?.signingStatus === SigningStatus.SIGNED;
   const role = recipient?.role;
 
@@ -77,6 +79,8 @@ export const DocumentPageViewButton = ({ document }: DocumentPageViewButtonProps
     isRecipient,
     isPending,
     isComplete,
+    isExpired,
+    isVoided,
     isSigned,
   })
     .with({ isRecipient: true, isPending: true, isSigned: false }, () => (
@@ -104,18 +108,19 @@ export const DocumentPageViewButton = ({ document }: DocumentPageViewButtonProps
         </Link>
       </Button>
     ))
+    .with({ isExpired: true }, () => null)
+    .with({ isComplete: true }, { isVoided: true }, () => (
+      <Button className="w-full" onClick={onDownloadClick}>
+        <Download className="-ml-1 mr-2 inline h-4 w-4" />
+        <Trans>Download</Trans>
+      </Button>
+    ))
     .with({ isComplete: false }, () => (
       <Button className="w-full" asChild>
         <Link href={`${documentsPath}/${document.id}/edit`}>
-          <Trans>Edit</Trans>
+          {isPending ? <Trans>Correct</Trans> : <Trans>Edit</Trans>}
         </Link>
       </Button>
     ))
-    .with({ isComplete: true }, () => (
-      <Button className="w-full" onClick={onDownloadClick}>
-        <Download className="-ml-1 mr-2 inline h-4 w-4" />
-        <Trans>Download</Trans>
-      </Button>
-    ))
     .otherwise(() => null);
 };
@@ -15,6 +15,7 @@ import {
   ScrollTextIcon,
   Share,
   Trash2,
+  XCircle,
 } from 'lucide-react';
 import { useSession } from 'next-auth/react';
 
@@ -38,6 +39,7 @@ import { DocumentRecipientLinkCopyDialog } from '~/components/document/document-
 import { ResendDocumentActionItem } from '../_action-items/resend-document';
 import { DeleteDocumentDialog } from '../delete-document-dialog';
 import { DuplicateDocumentDialog } from '../duplicate-document-dialog';
+import { VoidDocumentDialog } from '../void-document-dialog';
 
 export type DocumentPageViewDropdownProps = {
   document: Document & {
@@ -55,6 +57,7 @@ export const DocumentPageViewDropdown = ({ document, team }: DocumentPageViewDro
 
   const [isDeleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [isDuplicateDialogOpen, setDuplicateDialogOpen] = useState(false);
+  const [isVoidDialogOpen, setVoidDialogOpen] = useState(false);
 
   if (!session) {
     return null;
@@ -67,6 +70,8 @@ export const DocumentPageViewDropdown = ({ document, team }: DocumentPageViewDro
   const isPending = document.status === DocumentStatus.PENDING;
   const isDeleted = document.deletedAt !== null;
   const isComplete = document.status === DocumentStatus.COMPLETED;
+  const isExpired = document.status === DocumentStatus.EXPIRED;
+  const isVoided = document.status === DocumentStatus.VOIDED;
   const isCurrentTeamDocument = team && document.team?.url === team.url;
   const canManageDocument = Boolean(isOwner || isCurrentTeamDocument);
 
@@ -101,7 +106,9 @@ export const DocumentPageViewDropdown = ({ document, team }: DocumentPageViewDro
     }
   };
 
-  const nonSignedRecipients = document.recipients.filter((item) => item.signingStatus !== 'SIGNED');
+  const nonSignedRecipients = document.recipients.filter(
+    (item) => item.signingStatus !== 'SIGNED' && item.signingStatus !== 'SKIPPED',
+  );
 
   return (
     <DropdownMenu>
@@ -114,16 +121,16 @@ export const DocumentPageViewDropdown = ({ document, team }: DocumentPageViewDro
           <Trans>Action</Trans>
         </DropdownMenuLabel>
 
-        {(isOwner || isCurrentTeamDocument) && !isComplete && (
+        {(isOwner || isCurrentTeamDocument) && !isComplete && !isExpired && !isVoided && (
           <DropdownMenuItem asChild>
             <Link href={`${documentsPath}/${document.id}/edit`}>
               <Edit className="mr-2 h-4 w-4" />
-              <Trans>Edit</Trans>
+              {isPending ? <Trans>Correct</Trans> : <Trans>Edit</Trans>}
             </Link>
           </DropdownMenuItem>
         )}
 
-        {isComplete && (
+        {(isComplete || isVoided) && (
           <DropdownMenuItem onClick={onDownloadClick}>
             <Download className="mr-2 h-4 w-4" />
             <Trans>Download</Trans>
@@ -142,6 +149,16 @@ export const DocumentPageViewDropdown = ({ document, team }: DocumentPageViewDro
           <Trans>Duplicate</Trans>
         </DropdownMenuItem>
 
+        {canManageDocument && (
+          <DropdownMenuItem
+            onClick={() => setVoidDialogOpen(true)}
+            disabled={!isPending || isDeleted}
+          >
+            <XCircle className="mr-2 h-4 w-4" />
+            <Trans>Void</Trans>
+          </DropdownMenuItem>
+        )}
+
         <DropdownMenuItem
           onClick={() => setDeleteDialogOpen(true)}
           disabled={Boolean(!canManageDocument && team?.teamEmail) || isDeleted}
@@ -198,6 +215,15 @@ export const DocumentPageViewDropdown = ({ document, team }: DocumentPageViewDro
         onOpenChange={setDeleteDialogOpen}
       />
 
+      {canManageDocument && (
+        <VoidDocumentDialog
+          id={document.id}
+          documentTitle={document.title}
+          open={isVoidDialogOpen}
+          onOpenChange={setVoidDialogOpen}
+        />
+      )}
+
       {isDuplicateDialogOpen && (
         <DuplicateDocumentDialog
           id={document.id}
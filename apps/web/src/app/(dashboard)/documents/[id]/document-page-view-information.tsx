@@ -8,6 +8,7 @@ import { DateTime } from 'luxon';
 
 import { useIsMounted } from '@documenso/lib/client-only/hooks/use-is-mounted';
 import type { Document, Recipient, User } from '@documenso/prisma/client';
+import { DocumentStatus } from '@documenso/prisma/client';
 
 export type DocumentPageViewInformationProps = {
   userId: number;
@@ -26,7 +27,7 @@ export const DocumentPageViewInformation = ({
   const { _, i18n } = useLingui();
 
   const documentInformation = useMemo(() => {
-    return [
+    const information = [
       {
         description: msg`Uploaded by`,
         value:
@@ -45,6 +46,26 @@ export const DocumentPageViewInformation = ({
           .toRelative(),
       },
     ];
+
+    if (document.expiresAt) {
+      information.push({
+        description: document.status === DocumentStatus.EXPIRED ? msg`Expired` : msg`Expires`,
+        value: DateTime.fromJSDate(document.expiresAt)
+          .setLocale(i18n.locales?.[0] || i18n.locale)
+          .toFormat('MMMM d, yyyy'),
+      });
+    }
+
+    if (document.voidedAt) {
+      information.push({
+        description: msg`Voided`,
+        value: DateTime.fromJSDate(document.voidedAt)
+          .setLocale(i18n.locales?.[0] || i18n.locale)
+          .toFormat('MMMM d, yyyy'),
+      });
+    }
+
+    return information;
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isMounted, document, userId]);
 
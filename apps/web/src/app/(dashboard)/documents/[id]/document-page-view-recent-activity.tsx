@@ -131,11 +131,15 @@ export const DocumentPageViewRecentActivity = ({
                         <CheckIcon className="h-3 w-3" aria-hidden="true" />
                       </div>
                     ))
-                    .with(DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_RECIPIENT_REJECTED, () => (
-                      <div className="bg-widget rounded-full border border-gray-300 p-1 dark:border-neutral-600">
-                        <AlertTriangle className="h-3 w-3" aria-hidden="true" />
-                      </div>
-                    ))
+                    .with(
+                      DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_RECIPIENT_REJECTED,
+                      DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_ACCESS_AUTH_FAILED,
+                      () => (
+                        <div className="bg-widget rounded-full border border-gray-300 p-1 dark:border-neutral-600">
+                          <AlertTriangle className="h-3 w-3" aria-hidden="true" />
+                        </div>
+                      ),
+                    )
                     .with(DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_OPENED, () => (
                       <div className="bg-widget rounded-full border border-gray-300 p-1 dark:border-neutral-600">
                         <MailOpen className="h-3 w-3" aria-hidden="true" />
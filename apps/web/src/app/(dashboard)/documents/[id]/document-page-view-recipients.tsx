@@ -12,6 +12,7 @@ import {
   MailOpenIcon,
   PenIcon,
   PlusIcon,
+  SkipForwardIcon,
   UserIcon,
 } from 'lucide-react';
 import { match } from 'ts-pattern';
@@ -139,6 +140,14 @@ export const DocumentPageViewRecipients = ({
                   </Badge>
                 )}
 
+              {document.status !== DocumentStatus.DRAFT &&
+                recipient.signingStatus === SigningStatus.SKIPPED && (
+                  <Badge variant="neutral">
+                    <SkipForwardIcon className="mr-1 h-3 w-3" />
+                    <Trans>Skipped</Trans>
+                  </Badge>
+                )}
+
               {document.status !== DocumentStatus.DRAFT &&
                 recipient.signingStatus === SigningStatus.REJECTED && (
                   <PopoverHover
@@ -0,0 +1,266 @@
+'use client';
+
+import { useState } from 'react';
+
+import { Plural, Trans } from '@lingui/macro';
+import { Loader } from 'lucide-react';
+import { match } from 'ts-pattern';
+
+import type { PdfDiffPageStatus, PdfDiffTextChange } from '@documenso/lib/server-only/pdf/diff-pdf';
+import { trpc } from '@documenso/trpc/react';
+import { cn } from '@documenso/ui/lib/utils';
+import { Badge } from '@documenso/ui/primitives/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@documenso/ui/primitives/dialog';
+import { Label } from '@documenso/ui/primitives/label';
+import { Switch } from '@documenso/ui/primitives/switch';
+
+const PAGE_IMAGE_WIDTH = 800;
+
+type CompareVersion = {
+  id: number;
+  versionNumber: number;
+};
+
+export type DocumentPageViewVersionCompareDialogProps = {
+  documentId: number;
+  fromVersion: CompareVersion;
+  toVersion: CompareVersion;
+  open: boolean;
+  onOpenChange: (_open: boolean) => void;
+};
+
+export const DocumentPageViewVersionCompareDialog = ({
+  documentId,
+  fromVersion,
+  toVersion,
+  open,
+  onOpenChange,
+}: DocumentPageViewVersionCompareDialogProps) => {
+  const [showUnchangedPages, setShowUnchangedPages] = useState(false);
+
+  const { data, isLoading, isLoadingError } =
+    trpc.document.versions.compareDocumentVersions.useQuery(
+      {
+        documentId,
+        fromVersionId: fromVersion.id,
+        toVersionId: toVersion.id,
+      },
+      {
+        enabled: open,
+      },
+    );
+
+  const pages = (data?.diff.pages ?? []).filter(
+    (page) => showUnchangedPages || page.status !== 'unchanged',
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>
+            <Trans>
+              Compare version {fromVersion.versionNumber} with version {toVersion.versionNumber}
+            </Trans>
+          </DialogTitle>
+
+          {data && (
+            <DialogDescription>
+              {data.isDifferent ? (
+                <>
+                  <Plural
+                    value={data.diff.changedPages}
+                    one="# page changed"
+                    other="# pages changed"
+                  />
+                  {', '}
+                  <Plural value={data.diff.addedPages} one="# page added" other="# pages added" />
+                  {', '}
+                  <Plural
+                    value={data.diff.removedPages}
+                    one="# page removed"
+                    other="# pages removed"
+                  />
+                </>
+              ) : (
+                <Trans>These versions are identical</Trans>
+              )}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {isLoading && (
+          <div className="flex h-full items-center justify-center py-16">
+            <Loader className="text-muted-foreground h-6 w-6 animate-spin" />
+          </div>
+        )}
+
+        {isLoadingError && (
+          <p className="text-foreground/80 py-16 text-center text-sm">
+            <Trans>Unable to compare these versions</Trans>
+          </p>
+        )}
+
+        {data && (
+          <>
+            <div className="flex items-center gap-x-2">
+              <Switch
+                id="show-unchanged-pages"
+                checked={showUnchangedPages}
+                onCheckedChange={setShowUnchangedPages}
+              />
+
+              <Label htmlFor="show-unchanged-pages">
+                <Trans>Show unchanged pages</Trans>
+              </Label>
+            </div>
+
+            <div className="max-h-[70vh] space-y-8 overflow-y-auto">
+              <div className="bg-background sticky top-0 z-10 grid grid-cols-2 gap-x-4 py-2 text-sm font-medium">
+                <p>
+                  <Trans>Version {fromVersion.versionNumber}</Trans>
+                </p>
+                <p>
+                  <Trans>Version {toVersion.versionNumber}</Trans>
+                </p>
+              </div>
+
+              {pages.length === 0 && (
+                <p className="text-muted-foreground py-8 text-center text-sm">
+                  <Trans>No pages have changed</Trans>
+                </p>
+              )}
+
+              {pages.map((page) => (
+                <div
+                  key={`${page.fromPageNumber}-${page.toPageNumber}`}
+                  className="grid grid-cols-2 gap-x-4"
+                >
+                  <VersionComparePage
+                    documentId={documentId}
+                    versionId={fromVersion.id}
+                    pageNumber={page.fromPageNumber}
+                    changes={page.changes.filter((change) => change.type === 'removed')}
+                    status={page.status}
+                  />
+
+                  <VersionComparePage
+                    documentId={documentId}
+                    versionId={toVersion.id}
+                    pageNumber={page.toPageNumber}
+                    changes={page.changes.filter((change) => change.type === 'added')}
+                    status={page.status}
+                  />
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+type VersionComparePageProps = {
+  documentId: number;
+  versionId: number;
+  pageNumber: number | null;
+  changes: PdfDiffTextChange[];
+  status: PdfDiffPageStatus;
+};
+
+const VersionComparePage = ({
+  documentId,
+  versionId,
+  pageNumber,
+  changes,
+  status,
+}: VersionComparePageProps) => {
+  const { data: pageImage, isLoading } = trpc.document.versions.renderDocumentVersionPage.useQuery(
+    {
+      documentId,
+      versionId,
+      pageNumber: pageNumber ?? 1,
+      width: PAGE_IMAGE_WIDTH,
+    },
+    {
+      enabled: pageNumber !== null,
+    },
+  );
+
+  if (pageNumber === null) {
+    return (
+      <div className="border-border text-muted-foreground flex min-h-[12rem] items-center justify-center rounded border border-dashed text-sm">
+        {status === 'added' ? <Trans>Page not in this version</Trans> : null}
+        {status === 'removed' ? <Trans>Page removed in this version</Trans> : null}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-2 flex items-center gap-x-2">
+        <p className="text-muted-foreground text-xs">
+          <Trans>Page {pageNumber}</Trans>
+        </p>
+
+        {match(status)
+          .with('changed', () => (
+            <Badge variant="warning" size="small">
+              <Trans>Changed</Trans>
+            </Badge>
+          ))
+          .with('added', () => (
+            <Badge variant="default" size="small">
+              <Trans>Added</Trans>
+            </Badge>
+          ))
+          .with('removed', () => (
+            <Badge variant="destructive" size="small">
+              <Trans>Removed</Trans>
+            </Badge>
+          ))
+          .with('unchanged', () => null)
+          .exhaustive()}
+      </div>
+
+      <div
+        className={cn('border-border relative overflow-hidden rounded border', {
+          'ring-2 ring-green-500/60': status === 'added',
+          'ring-2 ring-red-500/60': status === 'removed',
+        })}
+      >
+        {isLoading || !pageImage ? (
+          <div className="flex aspect-[1/1.414] items-center justify-center">
+            <Loader className="text-muted-foreground h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <img src={pageImage} alt="" className="w-full" />
+        )}
+
+        {changes.map((change, index) => (
+          <div
+            key={index}
+            title={change.text}
+            className={cn('absolute rounded-sm', {
+              'bg-green-500/30': change.type === 'added',
+              'bg-red-500/30': change.type === 'removed',
+            })}
+            style={{
+              left: `${change.rect.x}%`,
+              top: `${change.rect.y}%`,
+              width: `${change.rect.width}%`,
+              height: `${change.rect.height}%`,
+            }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
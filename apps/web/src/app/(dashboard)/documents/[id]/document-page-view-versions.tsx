@@ -0,0 +1,347 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+import { DownloadIcon, HistoryIcon, Loader } from 'lucide-react';
+import { DateTime } from 'luxon';
+
+import { downloadFile } from '@documenso/lib/client-only/download-file';
+import { getFile } from '@documenso/lib/universal/upload/get-file';
+import { trpc } from '@documenso/trpc/react';
+import { AnimateGenericFadeInOut } from '@documenso/ui/components/animate/animate-generic-fade-in-out';
+import { Badge } from '@documenso/ui/primitives/badge';
+import { Button } from '@documenso/ui/primitives/button';
+import { Checkbox } from '@documenso/ui/primitives/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@documenso/ui/primitives/dialog';
+import { useToast } from '@documenso/ui/primitives/use-toast';
+
+import { DocumentPageViewVersionCompareDialog } from './document-page-view-version-compare-dialog';
+
+export type DocumentPageViewVersionsProps = {
+  documentId: number;
+  documentTitle: string;
+  userId: number;
+  canRestore: boolean;
+};
+
+export const DocumentPageViewVersions = ({
+  documentId,
+  documentTitle,
+  userId,
+  canRestore,
+}: DocumentPageViewVersionsProps) => {
+  const router = useRouter();
+
+  const { _ } = useLingui();
+  const { toast } = useToast();
+
+  const utils = trpc.useUtils();
+
+  const [versionToRestore, setVersionToRestore] = useState<{
+    id: number;
+    versionNumber: number;
+  } | null>(null);
+
+  const [selectedVersionIds, setSelectedVersionIds] = useState<number[]>([]);
+  const [isCompareDialogOpen, setIsCompareDialogOpen] = useState(false);
+
+  const {
+    data: versions,
+    isLoading,
+    isLoadingError,
+    refetch,
+  } = trpc.document.versions.findDocumentVersions.useQuery({
+    documentId,
+  });
+
+  const { mutateAsync: createDocumentVersion, isPending: isCreatingVersion } =
+    trpc.document.versions.createDocumentVersion.useMutation({
+      onSuccess: async () => {
+        await utils.document.versions.findDocumentVersions.invalidate({ documentId });
+      },
+    });
+
+  const { mutateAsync: restoreDocumentVersion, isPending: isRestoringVersion } =
+    trpc.document.versions.restoreDocumentVersion.useMutation({
+      onSuccess: async () => {
+        await utils.document.versions.findDocumentVersions.invalidate({ documentId });
+
+        router.refresh();
+      },
+    });
+
+  // Compare the older selected version against the newer one.
+  const versionsToCompare = (versions ?? [])
+    .filter((version) => selectedVersionIds.includes(version.id))
+    .sort((a, b) => a.versionNumber - b.versionNumber);
+
+  const onToggleVersionSelected = (versionId: number, isSelected: boolean) => {
+    setSelectedVersionIds((current) =>
+      isSelected
+        ? [...current.filter((id) => id !== versionId), versionId].slice(-2)
+        : current.filter((id) => id !== versionId),
+    );
+  };
+
+  const onCreateVersion = async () => {
+    try {
+      await createDocumentVersion({ documentId });
+
+      toast({
+        title: _(msg`Version saved`),
+        description: _(msg`The current document has been saved as a new version.`),
+      });
+    } catch {
+      toast({
+        title: _(msg`Something went wrong`),
+        description: _(
+          msg`A version could not be saved. The current document may already match an existing version.`,
+        ),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const onDownloadVersion = async (versionId: number, versionNumber: number) => {
+    try {
+      const version = await utils.document.versions.getDocumentVersion.fetch({
+        documentId,
+        versionId,
+      });
+
+      const bytes = await getFile(version.documentData);
+
+      const baseTitle = documentTitle.replace(/\.pdf$/, '');
+
+      downloadFile({
+        filename: `${baseTitle}_v${versionNumber}.pdf`,
+        data: new Blob([bytes], { type: 'application/pdf' }),
+      });
+    } catch {
+      toast({
+        title: _(msg`Something went wrong`),
+        description: _(msg`This version could not be downloaded at this time. Please try again.`),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const onRestoreVersion = async () => {
+    if (!versionToRestore) {
+      return;
+    }
+
+    try {
+      await restoreDocumentVersion({ documentId, versionId: versionToRestore.id });
+
+      toast({
+        title: _(msg`Version restored`),
+        description: _(
+          msg`The document has been restored to version ${versionToRestore.versionNumber}.`,
+        ),
+      });
+
+      setVersionToRestore(null);
+    } catch {
+      toast({
+        title: _(msg`Something went wrong`),
+        description: _(msg`This version could not be restored at this time. Please try again.`),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <section className="dark:bg-background border-border bg-widget flex flex-col rounded-xl border">
+      <div className="flex flex-row items-center justify-between border-b px-4 py-3">
+        <h1 className="text-foreground font-medium">
+          <Trans>Versions</Trans>
+        </h1>
+
+        <div className="flex items-center gap-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={versionsToCompare.length !== 2}
+            title={_(msg`Select two versions to compare`)}
+            onClick={() => setIsCompareDialogOpen(true)}
+          >
+            <Trans>Compare</Trans>
+          </Button>
+
+          <Button
+            variant="outline"
+            size="sm"
+            loading={isCreatingVersion}
+            onClick={async () => onCreateVersion()}
+          >
+            <Trans>Save version</Trans>
+          </Button>
+        </div>
+      </div>
+
+      {isLoading && (
+        <div className="flex h-full items-center justify-center py-16">
+          <Loader className="text-muted-foreground h-6 w-6 animate-spin" />
+        </div>
+      )}
+
+      {isLoadingError && (
+        <div className="flex h-full flex-col items-center justify-center py-16">
+          <p className="text-foreground/80 text-sm">
+            <Trans>Unable to load document versions</Trans>
+          </p>
+          <button
+            onClick={async () => refetch()}
+            className="text-foreground/70 hover:text-muted-foreground mt-2 text-sm"
+          >
+            <Trans>Click here to retry</Trans>
+          </button>
+        </div>
+      )}
+
+      <AnimateGenericFadeInOut>
+        {versions && (
+          <ul className="divide-y">
+            {versions.length === 0 && (
+              <li className="flex items-center justify-center py-4">
+                <p className="text-muted-foreground/70 text-sm">
+                  <Trans>No versions yet</Trans>
+                </p>
+              </li>
+            )}
+
+            {versions.map((version) => (
+              <li key={version.id} className="flex items-center gap-x-4 px-4 py-3">
+                <Checkbox
+                  aria-label={_(msg`Select version ${version.versionNumber} to compare`)}
+                  checked={selectedVersionIds.includes(version.id)}
+                  onCheckedChange={(checked) =>
+                    onToggleVersionSelected(version.id, checked === true)
+                  }
+                />
+
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-x-2">
+                    <p className="text-foreground text-sm font-medium">
+                      <Trans>Version {version.versionNumber}</Trans>
+                    </p>
+
+                    {version.isCurrent && (
+                      <Badge variant="neutral" size="small">
+                        <Trans>Current</Trans>
+                      </Badge>
+                    )}
+                  </div>
+
+                  {version.reason && (
+                    <p className="text-muted-foreground truncate text-xs" title={version.reason}>
+                      {version.reason}
+                    </p>
+                  )}
+
+                  <p className="text-muted-foreground/70 text-xs">
+                    {version.createdByUser?.id === userId
+                      ? _(msg`You`)
+                      : (version.createdByUser?.name ??
+                        version.createdByUser?.email ??
+                        _(msg`System`))}
+                    {' · '}
+                    {DateTime.fromJSDate(version.createdAt).toRelative({ style: 'short' })}
+                  </p>
+                </div>
+
+                <div className="flex flex-shrink-0 items-center gap-x-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title={_(msg`Download`)}
+                    onClick={async () => onDownloadVersion(version.id, version.versionNumber)}
+                  >
+                    <DownloadIcon className="h-4 w-4" />
+                  </Button>
+
+                  {canRestore && !version.isCurrent && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title={_(msg`Restore`)}
+                      onClick={() =>
+                        setVersionToRestore({
+                          id: version.id,
+                          versionNumber: version.versionNumber,
+                        })
+                      }
+                    >
+                      <HistoryIcon className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </AnimateGenericFadeInOut>
+
+      {versionsToCompare.length === 2 && (
+        <DocumentPageViewVersionCompareDialog
+          documentId={documentId}
+          fromVersion={versionsToCompare[0]}
+          toVersion={versionsToCompare[1]}
+          open={isCompareDialogOpen}
+          onOpenChange={setIsCompareDialogOpen}
+        />
+      )}
+
+      <Dialog
+        open={versionToRestore !== null}
+        onOpenChange={(value) => !isRestoringVersion && !value && setVersionToRestore(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              <Trans>Restore version {versionToRestore?.versionNumber}?</Trans>
+            </DialogTitle>
+
+            <DialogDescription>
+              <Trans>
+                The document will be replaced with the content of this version. The current content
+                will be saved as a new version first, so this can be undone.
+              </Trans>
+            </DialogDescription>
+          </DialogHeader>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="secondary"
+              disabled={isRestoringVersion}
+              onClick={() => setVersionToRestore(null)}
+            >
+              <Trans>Cancel</Trans>
+            </Button>
+
+            <Button
+              type="button"
+              loading={isRestoringVersion}
+              onClick={async () => onRestoreVersion()}
+            >
+              <Trans>Restore</Trans>
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </section>
+  );
+};
@@ -14,7 +14,11 @@ import { getFieldsForDocument } from '@documenso/lib/server-only/field/get-field
 import { getRecipientsForDocument } from '@documenso/lib/server-only/recipient/get-recipients-for-document';
 import { DocumentVisibility } from '@documenso/lib/types/document-visibility';
 import { symmetricDecrypt } from '@documenso/lib/universal/crypto';
-import { formatDocumentsPath } from '@documenso/lib/utils/teams';
+import {
+  formatDocumentsPath,
+  getTeamMemberDocumentVisibilityRole,
+} from '@documenso/lib/utils/teams';
+import type { TeamMemberWithPermissions } from '@documenso/lib/utils/teams';
 import { DocumentStatus } from '@documenso/prisma/client';
 import type { Team, TeamEmail } from '@documenso/prisma/client';
 import { TeamMemberRole } from '@documenso/prisma/client';
@@ -22,6 +26,7 @@ import { Badge } from '@documenso/ui/primitives/badge';
 import { Button } from '@documenso/ui/primitives/button';
 import { Card, CardContent } from '@documenso/ui/primitives/card';
 import { LazyPDFViewer } from '@documenso/ui/primitives/lazy-pdf-viewer';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@documenso/ui/primitives/tabs';
 
 import { StackAvatarsWithTooltip } from '~/components/(dashboard)/avatar/stack-avatars-with-tooltip';
 import { DocumentHistorySheet } from '~/components/document/document-history-sheet';
@@ -37,12 +42,13 @@ import { DocumentPageViewDropdown } from './document-page-view-dropdown';
 import { DocumentPageViewInformation } from './document-page-view-information';
 import { DocumentPageViewRecentActivity } from './document-page-view-recent-activity';
 import { DocumentPageViewRecipients } from './document-page-view-recipients';
+import { DocumentPageViewVersions } from './document-page-view-versions';
 
 export type DocumentPageViewProps = {
   params: {
     id: string;
   };
-  team?: Team & { teamEmail: TeamEmail | null } & { currentTeamMember: { role: TeamMemberRole } };
+  team?: Team & { teamEmail: TeamEmail | null } & { currentTeamMember: TeamMemberWithPermissions };
 };
 
 export const DocumentPageView = async ({ params, team }: DocumentPageViewProps) => {
@@ -70,7 +76,8 @@ export const DocumentPageView = async ({ params, team }: DocumentPageViewProps)
   }
 
   const documentVisibility = document?.visibility;
-  const currentTeamMemberRole = team?.currentTeamMember?.role;
+  const currentTeamMemberRole =
+    team?.currentTeamMember && getTeamMemberDocumentVisibilityRole(team.currentTeamMember);
   const isRecipient = document?.recipients.find((recipient) => recipient.email === user.email);
   let canAccessDocument = true;
 
@@ -212,57 +219,85 @@ export const DocumentPageView = async ({ params, team }: DocumentPageViewProps)
         )}
 
         <div className="col-span-12 lg:col-span-6 xl:col-span-5">
-          <div className="space-y-6">
-            <section className="border-border bg-widget flex flex-col rounded-xl border pb-4 pt-6">
-              <div className="flex flex-row items-center justify-between px-4">
-                <h3 className="text-foreground text-2xl font-semibold">
-                  {_(FRIENDLY_STATUS_MAP[document.status].labelExtended)}
-                </h3>
-
-                <DocumentPageViewDropdown document={documentWithRecipients} team={team} />
-              </div>
-
-              <p className="text-muted-foreground mt-2 px-4 text-sm">
-                {match(document.status)
-                  .with(DocumentStatus.COMPLETED, () => (
-                    <Trans>This document has been signed by all recipients</Trans>
-                  ))
-                  .with(DocumentStatus.DRAFT, () => (
-                    <Trans>This document is currently a draft and has not been sent</Trans>
-                  ))
-                  .with(DocumentStatus.PENDING, () => {
-                    const pendingRecipients = recipients.filter(
-                      (recipient) => recipient.signingStatus === 'NOT_SIGNED',
-                    );
-
-                    return (
-                      <Plural
-                        value={pendingRecipients.length}
-                        one="Waiting on 1 recipient"
-                        other="Waiting on # recipients"
-                      />
-                    );
-                  })
-                  .exhaustive()}
-              </p>
-
-              <div className="mt-4 border-t px-4 pt-4">
-                <DocumentPageViewButton document={documentWithRecipients} team={team} />
-              </div>
-            </section>
-
-            {/* Document information section. */}
-            <DocumentPageViewInformation document={documentWithRecipients} userId={user.id} />
-
-            {/* Recipients section. */}
-            <DocumentPageViewRecipients
-              document={documentWithRecipients}
-              documentRootPath={documentRootPath}
-            />
-
-            {/* Recent activity section. */}
-            <DocumentPageViewRecentActivity documentId={document.id} userId={user.id} />
-          </div>
+          <Tabs defaultValue="overview">
+            <TabsList className="mb-6 grid w-full grid-cols-2">
+              <TabsTrigger value="overview">
+                <Trans>Overview</Trans>
+              </TabsTrigger>
+              <TabsTrigger value="history">
+                <Trans>History</Trans>
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="overview" className="mt-0 space-y-6">
+              <section className="border-border bg-widget flex flex-col rounded-xl border pb-4 pt-6">
+                <div className="flex flex-row items-center justify-between px-4">
+                  <h3 className="text-foreground text-2xl font-semibold">
+                    {_(FRIENDLY_STATUS_MAP[document.status].labelExtended)}
+                  </h3>
+
+                  <DocumentPageViewDropdown document={documentWithRecipients} team={team} />
+                </div>
+
+                <p className="text-muted-foreground mt-2 px-4 text-sm">
+                  {match(document.status)
+                    .with(DocumentStatus.COMPLETED, () => (
+                      <Trans>This document has been signed by all recipients</Trans>
+                    ))
+                    .with(DocumentStatus.DRAFT, () => (
+                      <Trans>This document is currently a draft and has not been sent</Trans>
+                    ))
+                    .with(DocumentStatus.EXPIRED, () => (
+                      <Trans>This document expired before it was signed by all recipients</Trans>
+                    ))
+                    .with(DocumentStatus.VOIDED, () => {
+                      const voidReason = document.voidReason;
+
+                      return <Trans>This document was voided with the reason: {voidReason}</Trans>;
+                    })
+                    .with(DocumentStatus.PENDING, () => {
+                      const pendingRecipients = recipients.filter(
+                        (recipient) => recipient.signingStatus === 'NOT_SIGNED',
+                      );
+
+                      return (
+                        <Plural
+                          value={pendingRecipients.length}
+                          one="Waiting on 1 recipient"
+                          other="Waiting on # recipients"
+                        />
+                      );
+                    })
+                    .exhaustive()}
+                </p>
+
+                <div className="mt-4 border-t px-4 pt-4">
+                  <DocumentPageViewButton document={documentWithRecipients} team={team} />
+                </div>
+              </section>
+
+              {/* Document information section. */}
+              <DocumentPageViewInformation document={documentWithRecipients} userId={user.id} />
+
+              {/* Recipients section. */}
+              <DocumentPageViewRecipients
+                document={documentWithRecipients}
+                documentRootPath={documentRootPath}
+              />
+
+              {/* Recent activity section. */}
+              <DocumentPageViewRecentActivity documentId={document.id} userId={user.id} />
+            </TabsContent>
+
+            <TabsContent value="history" className="mt-0">
+              <DocumentPageViewVersions
+                documentId={document.id}
+                documentTitle={document.title}
+                userId={user.id}
+                canRestore={document.status === DocumentStatus.DRAFT && !document.deletedAt}
+              />
+            </TabsContent>
+          </Tabs>
         </div>
       </div>
     </div>
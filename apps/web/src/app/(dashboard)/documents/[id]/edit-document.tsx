@@ -4,18 +4,30 @@ import { useEffect, useState } from 'react';
 
 import { useRouter, useSearchParams } from 'next/navigation';
 
-import { msg } from '@lingui/macro';
+import { Trans, msg } from '@lingui/macro';
 import { useLingui } from '@lingui/react';
+import { DateTime } from 'luxon';
 
+import { useDocumentLock } from '@documenso/lib/client-only/hooks/use-document-lock';
 import { isValidLanguageCode } from '@documenso/lib/constants/i18n';
 import {
   DO_NOT_INVALIDATE_QUERY_ON_MUTATION,
   SKIP_QUERY_BATCH_META,
 } from '@documenso/lib/constants/trpc';
 import type { TDocument } from '@documenso/lib/types/document';
-import { DocumentDistributionMethod, DocumentStatus } from '@documenso/prisma/client';
+import {
+  DEFAULT_DOCUMENT_SIGNING_ROUTING,
+  type TDocumentSigningRouting,
+  extractDocumentSigningRouting,
+} from '@documenso/lib/types/document-signing-routing';
+import {
+  DocumentDistributionMethod,
+  DocumentSigningOrder,
+  DocumentStatus,
+} from '@documenso/prisma/client';
 import { trpc } from '@documenso/trpc/react';
 import { cn } from '@documenso/ui/lib/utils';
+import { Alert, AlertDescription } from '@documenso/ui/primitives/alert';
 import { Card, CardContent } from '@documenso/ui/primitives/card';
 import { AddFieldsFormPartial } from '@documenso/ui/primitives/document-flow/add-fields';
 import type { TAddFieldsFormSchema } from '@documenso/ui/primitives/document-flow/add-fields.types';
@@ -58,6 +70,10 @@ export const EditDocumentForm = ({
 
   const [isDocumentPdfLoaded, setIsDocumentPdfLoaded] = useState(false);
 
+  const { isLockedByOtherUser, lockedByUser } = useDocumentLock({
+    documentId: initialDocument.id,
+  });
+
   const utils = trpc.useUtils();
 
   const { data: document, refetch: refetchDocument } =
@@ -215,21 +231,44 @@ export const EditDocumentForm = ({
 
   const onAddSignersFormSubmit = async (data: TAddSignersFormSchema) => {
     try {
-      await Promise.all([
-        setSigningOrderForDocument({
-          documentId: document.id,
-          signingOrder: data.signingOrder,
-        }),
+      const { recipients: updatedRecipients } = await setRecipients({
+        documentId: document.id,
+        recipients: data.signers.map((signer) => ({
+          ...signer,
+          // Explicitly set to null to indicate we want to remove auth if required.
+          accessAuth: signer.accessAuth || null,
+          actionAuth: signer.actionAuth || null,
+          accessCode: signer.accessCode || undefined,
+          smsVerificationPhone: signer.smsVerificationPhone || undefined,
+        })),
+      });
 
-        setRecipients({
-          documentId: document.id,
-          recipients: data.signers.map((signer) => ({
-            ...signer,
-            // Explicitly set to null to indicate we want to remove auth if required.
-            actionAuth: signer.actionAuth || null,
-          })),
+      // Routing rules reference recipients by ID, which new recipients only have once created.
+      const signingRouting: TDocumentSigningRouting = {
+        groups: data.signers.flatMap((signer) =>
+          signer.signingOrder && signer.signingGroupCompletion
+            ? [{ signingOrder: signer.signingOrder, completion: signer.signingGroupCompletion }]
+            : [],
+        ),
+        rules: data.signers.flatMap((signer) => {
+          const recipient = updatedRecipients.find(
+            (recipient) => recipient.email.toLowerCase() === signer.email.toLowerCase(),
+          );
+
+          return recipient && signer.skipRule
+            ? [{ recipientId: recipient.id, ...signer.skipRule }]
+            : [];
         }),
-      ]);
+      };
+
+      await setSigningOrderForDocument({
+        documentId: document.id,
+        signingOrder: data.signingOrder,
+        signingRouting:
+          data.signingOrder === DocumentSigningOrder.SEQUENTIAL
+            ? signingRouting
+            : DEFAULT_DOCUMENT_SIGNING_ROUTING,
+      });
 
       // Router refresh is here to clear the router cache for when navigating to /documents.
       router.refresh();
@@ -285,25 +324,49 @@ export const EditDocumentForm = ({
   };
 
   const onAddSubjectFormSubmit = async (data: TAddSubjectFormSchema) => {
-    const { subject, message, distributionMethod, emailSettings } = data.meta;
+    const { subject, message, distributionMethod, emailSettings, reminderSettings } = data.meta;
+
+    const currentExpiresAt = document.expiresAt
+      ? DateTime.fromJSDate(document.expiresAt).toFormat('yyyy-MM-dd')
+      : '';
+
+    // Only update the expiry when it has been changed so an existing expiry time is kept.
+    const expiresAt =
+      data.expiresAt === currentExpiresAt
+        ? undefined
+        : data.expiresAt
+          ? DateTime.fromISO(data.expiresAt).endOf('day').toJSDate()
+          : null;
 
     try {
       await sendDocument({
         documentId: document.id,
+        expiresAt,
         meta: {
           subject,
           message,
           distributionMethod,
           emailSettings,
+          reminderSettings,
         },
       });
 
       if (distributionMethod === DocumentDistributionMethod.EMAIL) {
-        toast({
-          title: _(msg`Document sent`),
-          description: _(msg`Your document has been sent successfully.`),
-          duration: 5000,
-        });
+        toast(
+          document.status === DocumentStatus.PENDING
+            ? {
+                title: _(msg`Document corrected`),
+                description: _(
+                  msg`Your changes have been saved and any new recipients have been notified.`,
+                ),
+                duration: 5000,
+              }
+            : {
+                title: _(msg`Document sent`),
+                description: _(msg`Your document has been sent successfully.`),
+                duration: 5000,
+              },
+        );
 
         router.push(documentRootPath);
         return;
@@ -349,6 +412,38 @@ export const EditDocumentForm = ({
 
   return (
     <div className={cn('grid w-full grid-cols-12 gap-8', className)}>
+      {isLockedByOtherUser && (
+        <Alert variant="warning" className="col-span-12">
+          <AlertDescription>
+            {lockedByUser ? (
+              <Trans>
+                This document is currently being edited by{' '}
+                <strong>{lockedByUser.name || lockedByUser.email}</strong>. Your changes will not be
+                saved until they are done.
+              </Trans>
+            ) : (
+              <Trans>
+                This document is currently being edited by another user. Your changes will not be
+                saved until they are done.
+              </Trans>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {document.status === DocumentStatus.PENDING && (
+        <Alert variant="secondary" className="col-span-12">
+          <AlertDescription>
+            <Trans>
+              This document has already been sent. You can correct the recipients who have not
+              signed yet and their fields without restarting the signing process. Signatures that
+              have already been captured are kept, and recipients whose email is changed receive a
+              new signing link.
+            </Trans>
+          </AlertDescription>
+        </Alert>
+      )}
+
       <Card
         className="relative col-span-12 rounded-xl before:rounded-xl lg:col-span-6 xl:col-span-7"
         gradient
@@ -391,6 +486,7 @@ export const EditDocumentForm = ({
               documentFlow={documentFlow.signers}
               recipients={recipients}
               signingOrder={document.documentMeta?.signingOrder}
+              signingRouting={extractDocumentSigningRouting(document.documentMeta)}
               fields={fields}
               isDocumentEnterprise={isDocumentEnterprise}
               onSubmit={onAddSignersFormSubmit}
@@ -11,7 +11,11 @@ import { getRequiredServerComponentSession } from '@documenso/lib/next-auth/get-
 import { getDocumentWithDetailsById } from '@documenso/lib/server-only/document/get-document-with-details-by-id';
 import { DocumentVisibility } from '@documenso/lib/types/document-visibility';
 import { symmetricDecrypt } from '@documenso/lib/universal/crypto';
-import { formatDocumentsPath } from '@documenso/lib/utils/teams';
+import {
+  formatDocumentsPath,
+  getTeamMemberDocumentVisibilityRole,
+} from '@documenso/lib/utils/teams';
+import type { TeamMemberWithPermissions } from '@documenso/lib/utils/teams';
 import type { Team } from '@documenso/prisma/client';
 import { TeamMemberRole } from '@documenso/prisma/client';
 import { DocumentStatus as InternalDocumentStatus } from '@documenso/prisma/client';
@@ -24,7 +28,7 @@ export type DocumentEditPageViewProps = {
   params: {
     id: string;
   };
-  team?: Team & { currentTeamMember: { role: TeamMemberRole } };
+  team?: Team & { currentTeamMember: TeamMemberWithPermissions };
 };
 
 export const DocumentEditPageView = async ({ params, team }: DocumentEditPageViewProps) => {
@@ -51,7 +55,8 @@ export const DocumentEditPageView = async ({ params, team }: DocumentEditPageVie
   }
 
   const documentVisibility = document?.visibility;
-  const currentTeamMemberRole = team?.currentTeamMember?.role;
+  const currentTeamMemberRole =
+    team?.currentTeamMember && getTeamMemberDocumentVisibilityRole(team.currentTeamMember);
   const isRecipient = document?.recipients.find((recipient) => recipient.email === user.email);
   let canAccessDocument = true;
 
@@ -74,7 +79,11 @@ export const DocumentEditPageView = async ({ params, team }: DocumentEditPageVie
     redirect(documentRootPath);
   }
 
-  if (document.status === InternalDocumentStatus.COMPLETED) {
+  if (
+    document.status === InternalDocumentStatus.COMPLETED ||
+    document.status === InternalDocumentStatus.EXPIRED ||
+    document.status === InternalDocumentStatus.VOIDED
+  ) {
     redirect(`${documentRootPath}/${documentId}`);
   }
 
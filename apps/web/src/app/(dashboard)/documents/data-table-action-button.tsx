@@ -41,6 +41,7 @@ export const DataTableActionButton = ({ row, team }: DataTableActionButtonProps)
   const isDraft = row.status === DocumentStatus.DRAFT;
   const isPending = row.status === DocumentStatus.PENDING;
   const isComplete = row.status === DocumentStatus.COMPLETED;
+  const isVoided = row.status === DocumentStatus.VOIDED;
   const isSigned = recipient?.signingStatus === SigningStatus.SIGNED;
   const role = recipient?.role;
   const isCurrentTeamDocument = team && row.team?.url === team.url;
@@ -91,6 +92,7 @@ export const DataTableActionButton = ({ row, team }: DataTableActionButtonProps)
     isDraft,
     isPending,
     isComplete,
+    isVoided,
     isSigned,
     isCurrentTeamDocument,
   })
@@ -136,7 +138,7 @@ export const DataTableActionButton = ({ row, team }: DataTableActionButtonProps)
         <Trans>View</Trans>
       </Button>
     ))
-    .with({ isComplete: true }, () => (
+    .with({ isComplete: true }, { isVoided: true }, () => (
       <Button className="w-32" onClick={onDownloadClick}>
         <Download className="-ml-1 mr-2 inline h-4 w-4" />
         <Trans>Download</Trans>
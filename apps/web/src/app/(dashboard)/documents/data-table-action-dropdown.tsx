@@ -18,6 +18,7 @@ import {
   Pencil,
   Share,
   Trash2,
+  XCircle,
 } from 'lucide-react';
 import { useSession } from 'next-auth/react';
 
@@ -42,6 +43,7 @@ import { ResendDocumentActionItem } from './_action-items/resend-document';
 import { DeleteDocumentDialog } from './delete-document-dialog';
 import { DuplicateDocumentDialog } from './duplicate-document-dialog';
 import { MoveDocumentDialog } from './move-document-dialog';
+import { VoidDocumentDialog } from './void-document-dialog';
 
 export type DataTableActionDropdownProps = {
   row: Document & {
@@ -60,6 +62,7 @@ export const DataTableActionDropdown = ({ row, team }: DataTableActionDropdownPr
   const [isDeleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [isDuplicateDialogOpen, setDuplicateDialogOpen] = useState(false);
   const [isMoveDialogOpen, setMoveDialogOpen] = useState(false);
+  const [isVoidDialogOpen, setVoidDialogOpen] = useState(false);
 
   if (!session) {
     return null;
@@ -72,6 +75,8 @@ export const DataTableActionDropdown = ({ row, team }: DataTableActionDropdownPr
   const isDraft = row.status === DocumentStatus.DRAFT;
   const isPending = row.status === DocumentStatus.PENDING;
   const isComplete = row.status === DocumentStatus.COMPLETED;
+  const isExpired = row.status === DocumentStatus.EXPIRED;
+  const isVoided = row.status === DocumentStatus.VOIDED;
   // const isSigned = recipient?.signingStatus === SigningStatus.SIGNED;
   const isCurrentTeamDocument = team && row.team?.url === team.url;
   const canManageDocument = Boolean(isOwner || isCurrentTeamDocument);
@@ -104,7 +109,9 @@ export const DataTableActionDropdown = ({ row, team }: DataTableActionDropdownPr
     }
   };
 
-  const nonSignedRecipients = row.recipients.filter((item) => item.signingStatus !== 'SIGNED');
+  const nonSignedRecipients = row.recipients.filter(
+    (item) => item.signingStatus !== 'SIGNED' && item.signingStatus !== 'SKIPPED',
+  );
 
   return (
     <DropdownMenu>
@@ -118,7 +125,7 @@ export const DataTableActionDropdown = ({ row, team }: DataTableActionDropdownPr
         </DropdownMenuLabel>
 
         {!isDraft && recipient && recipient?.role !== RecipientRole.CC && (
-          <DropdownMenuItem disabled={!recipient || isComplete} asChild>
+          <DropdownMenuItem disabled={!recipient || !isPending} asChild>
             <Link href={`/sign/${recipient?.token}`}>
               {recipient?.role === RecipientRole.VIEWER && (
                 <>
@@ -144,14 +151,17 @@ export const DataTableActionDropdown = ({ row, team }: DataTableActionDropdownPr
           </DropdownMenuItem>
         )}
 
-        <DropdownMenuItem disabled={!canManageDocument || isComplete} asChild>
+        <DropdownMenuItem
+          disabled={!canManageDocument || isComplete || isExpired || isVoided}
+          asChild
+        >
           <Link href={`${documentsPath}/${row.id}/edit`}>
             <Edit className="mr-2 h-4 w-4" />
-            <Trans>Edit</Trans>
+            {isPending ? <Trans>Correct</Trans> : <Trans>Edit</Trans>}
           </Link>
         </DropdownMenuItem>
 
-        <DropdownMenuItem disabled={!isComplete} onClick={onDownloadClick}>
+        <DropdownMenuItem disabled={!isComplete && !isVoided} onClick={onDownloadClick}>
           <Download className="mr-2 h-4 w-4" />
           <Trans>Download</Trans>
         </DropdownMenuItem>
@@ -169,11 +179,12 @@ export const DataTableActionDropdown = ({ row, team }: DataTableActionDropdownPr
           </DropdownMenuItem>
         )}
 
-        {/* No point displaying this if there's no functionality. */}
-        {/* <DropdownMenuItem disabled>
-          <XCircle className="mr-2 h-4 w-4" />
-          Void
-        </DropdownMenuItem> */}
+        {canManageDocument && (
+          <DropdownMenuItem disabled={!isPending} onClick={() => setVoidDialogOpen(true)}>
+            <XCircle className="mr-2 h-4 w-4" />
+            <Trans>Void</Trans>
+          </DropdownMenuItem>
+        )}
 
         <DropdownMenuItem
           onClick={() => setDeleteDialogOpen(true)}
@@ -227,6 +238,15 @@ export const DataTableActionDropdown = ({ row, team }: DataTableActionDropdownPr
         canManageDocument={canManageDocument}
       />
 
+      {canManageDocument && (
+        <VoidDocumentDialog
+          id={row.id}
+          documentTitle={row.title}
+          open={isVoidDialogOpen}
+          onOpenChange={setVoidDialogOpen}
+        />
+      )}
+
       <MoveDocumentDialog
         documentId={row.id}
         open={isMoveDialogOpen}
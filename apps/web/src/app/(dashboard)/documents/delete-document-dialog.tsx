@@ -167,6 +167,22 @@ export const DeleteDocumentDialog = ({
                   </ul>
                 </AlertDescription>
               ))
+              .with(DocumentStatus.EXPIRED, DocumentStatus.VOIDED, () => (
+                <AlertDescription>
+                  <p>
+                    <Trans>By deleting this document, the following will occur:</Trans>
+                  </p>
+
+                  <ul className="mt-0.5 list-inside list-disc">
+                    <li>
+                      <Trans>The document will be hidden from your account</Trans>
+                    </li>
+                    <li>
+                      <Trans>The document history will be kept for your records</Trans>
+                    </li>
+                  </ul>
+                </AlertDescription>
+              ))
               .exhaustive()}
           </Alert>
         ) : (
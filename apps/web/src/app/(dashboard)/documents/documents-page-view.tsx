@@ -1,6 +1,6 @@
 import Link from 'next/link';
 
-import { Trans } from '@lingui/macro';
+import { Plural, Trans } from '@lingui/macro';
 
 import { NEXT_PUBLIC_WEBAPP_URL } from '@documenso/lib/constants/app';
 import { getRequiredServerComponentSession } from '@documenso/lib/next-auth/get-server-component-session';
@@ -8,12 +8,19 @@ import { findDocuments } from '@documenso/lib/server-only/document/find-document
 import type { PeriodSelectorValue } from '@documenso/lib/server-only/document/find-documents';
 import type { GetStatsInput } from '@documenso/lib/server-only/document/get-stats';
 import { getStats } from '@documenso/lib/server-only/document/get-stats';
+import { findPendingIdVerifications } from '@documenso/lib/server-only/recipient/find-pending-id-verifications';
 import { parseToIntegerArray } from '@documenso/lib/utils/params';
-import { formatDocumentsPath } from '@documenso/lib/utils/teams';
-import type { Team, TeamEmail, TeamMemberRole } from '@documenso/prisma/client';
+import {
+  formatDocumentsPath,
+  getTeamMemberDocumentVisibilityRole,
+} from '@documenso/lib/utils/teams';
+import type { TeamMemberWithPermissions } from '@documenso/lib/utils/teams';
+import type { Team, TeamEmail } from '@documenso/prisma/client';
 import { isExtendedDocumentStatus } from '@documenso/prisma/guards/is-extended-document-status';
 import { ExtendedDocumentStatus } from '@documenso/prisma/types/extended-document-status';
+import { Alert, AlertDescription } from '@documenso/ui/primitives/alert';
 import { Avatar, AvatarFallback, AvatarImage } from '@documenso/ui/primitives/avatar';
+import { Button } from '@documenso/ui/primitives/button';
 import { Tabs, TabsList, TabsTrigger } from '@documenso/ui/primitives/tabs';
 
 import { DocumentSearch } from '~/components/(dashboard)/document-search/document-search';
@@ -35,7 +42,9 @@ export interface DocumentsPageViewProps {
     senderIds?: string;
     search?: string;
   };
-  team?: Team & { teamEmail?: TeamEmail | null } & { currentTeamMember?: { role: TeamMemberRole } };
+  team?: Team & { teamEmail?: TeamEmail | null } & {
+    currentTeamMember?: TeamMemberWithPermissions;
+  };
 }
 
 export const DocumentsPageView = async ({ searchParams = {}, team }: DocumentsPageViewProps) => {
@@ -50,7 +59,8 @@ export const DocumentsPageView = async ({ searchParams = {}, team }: DocumentsPa
   const currentTeam = team
     ? { id: team.id, url: team.url, teamEmail: team.teamEmail?.email }
     : undefined;
-  const currentTeamMemberRole = team?.currentTeamMember?.role;
+  const currentTeamMemberRole =
+    team?.currentTeamMember && getTeamMemberDocumentVisibilityRole(team.currentTeamMember);
 
   const getStatOptions: GetStatsInput = {
     user,
@@ -69,7 +79,10 @@ export const DocumentsPageView = async ({ searchParams = {}, team }: DocumentsPa
     };
   }
 
-  const stats = await getStats(getStatOptions);
+  const [stats, pendingIdVerifications] = await Promise.all([
+    getStats(getStatOptions),
+    findPendingIdVerifications({ userId: user.id, teamId: team?.id }),
+  ]);
 
   const results = await findDocuments({
     userId: user.id,
@@ -127,6 +140,8 @@ export const DocumentsPageView = async ({ searchParams = {}, team }: DocumentsPa
                 ExtendedDocumentStatus.INBOX,
                 ExtendedDocumentStatus.PENDING,
                 ExtendedDocumentStatus.COMPLETED,
+                ExtendedDocumentStatus.EXPIRED,
+                ExtendedDocumentStatus.VOIDED,
                 ExtendedDocumentStatus.DRAFT,
                 ExtendedDocumentStatus.ALL,
               ].map((value) => (
@@ -159,6 +174,24 @@ export const DocumentsPageView = async ({ searchParams = {}, team }: DocumentsPa
         </div>
       </div>
 
+      {pendingIdVerifications.length > 0 && (
+        <Alert className="mt-8 flex items-center justify-between gap-4" variant="warning">
+          <AlertDescription>
+            <Plural
+              value={pendingIdVerifications.length}
+              one="# recipient is waiting for you to review their identity document."
+              other="# recipients are waiting for you to review their identity documents."
+            />
+          </AlertDescription>
+
+          <Button asChild variant="outline" size="sm">
+            <Link href={`${formatDocumentsPath(team?.url)}/id-verifications`}>
+              <Trans>Review</Trans>
+            </Link>
+          </Button>
+        </Alert>
+      )}
+
       <div className="mt-8">
         {results.count > 0 && (
           <DocumentsDataTable
@@ -1,6 +1,6 @@
 import { msg } from '@lingui/macro';
 import { useLingui } from '@lingui/react';
-import { Bird, CheckCircle2 } from 'lucide-react';
+import { Ban, Bird, CheckCircle2, TimerOff } from 'lucide-react';
 import { match } from 'ts-pattern';
 
 import { ExtendedDocumentStatus } from '@documenso/prisma/types/extended-document-status';
@@ -20,6 +20,16 @@ export const EmptyDocumentState = ({ status }: EmptyDocumentProps) => {
       message: msg`There are no completed documents yet. Documents that you have created or received will appear here once completed.`,
       icon: CheckCircle2,
     }))
+    .with(ExtendedDocumentStatus.EXPIRED, () => ({
+      title: msg`No expired documents`,
+      message: msg`There are no expired documents. Documents that are not completed before their expiry date will appear here.`,
+      icon: TimerOff,
+    }))
+    .with(ExtendedDocumentStatus.VOIDED, () => ({
+      title: msg`No voided documents`,
+      message: msg`There are no voided documents. Pending documents that you void will appear here.`,
+      icon: Ban,
+    }))
     .with(ExtendedDocumentStatus.DRAFT, () => ({
       title: msg`No active drafts`,
       message: msg`There are no active drafts at the current moment. You can upload a document to start drafting.`,
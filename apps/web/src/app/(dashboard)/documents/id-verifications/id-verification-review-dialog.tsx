@@ -0,0 +1,196 @@
+'use client';
+
+import { useState } from 'react';
+
+import { Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+import { Loader } from 'lucide-react';
+
+import { AppError } from '@documenso/lib/errors/app-error';
+import { IdVerificationStatus } from '@documenso/lib/types/id-verification';
+import type { Recipient } from '@documenso/prisma/client';
+import { trpc } from '@documenso/trpc/react';
+import { Button } from '@documenso/ui/primitives/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@documenso/ui/primitives/dialog';
+import { Label } from '@documenso/ui/primitives/label';
+import { Textarea } from '@documenso/ui/primitives/textarea';
+import { useToast } from '@documenso/ui/primitives/use-toast';
+
+export type IdVerificationReviewDialogProps = {
+  recipient: Pick<Recipient, 'id' | 'name' | 'email'>;
+  children: React.ReactNode;
+};
+
+export const IdVerificationReviewDialog = ({
+  recipient,
+  children,
+}: IdVerificationReviewDialogProps) => {
+  const { _ } = useLingui();
+  const { toast } = useToast();
+
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState('');
+
+  const utils = trpc.useUtils();
+
+  const { data: images, isLoading } = trpc.recipient.getIdVerificationImages.useQuery(
+    {
+      recipientId: recipient.id,
+    },
+    {
+      enabled: open,
+    },
+  );
+
+  const { mutateAsync: reviewIdVerification, isPending } =
+    trpc.recipient.reviewIdVerification.useMutation({
+      onSuccess: async () => {
+        await utils.recipient.findPendingIdVerifications.invalidate();
+      },
+    });
+
+  const onReview = async (status: 'verified' | 'rejected') => {
+    try {
+      await reviewIdVerification({
+        recipientId: recipient.id,
+        status,
+        reason: status === IdVerificationStatus.rejected ? reason : undefined,
+      });
+
+      toast({
+        title:
+          status === IdVerificationStatus.verified
+            ? _(msg`Identity verified`)
+            : _(msg`Identity document rejected`),
+        description:
+          status === IdVerificationStatus.verified
+            ? _(msg`The recipient can now sign the document.`)
+            : _(msg`The recipient can upload a new document to try again.`),
+        duration: 5000,
+      });
+
+      setOpen(false);
+    } catch (err) {
+      const error = AppError.parseError(err);
+
+      toast({
+        title: _(msg`Something went wrong`),
+        description:
+          error.userMessage ??
+          _(msg`We were unable to review this verification. Please try again later.`),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const onOpenChange = (value: boolean) => {
+    if (isPending) {
+      return;
+    }
+
+    if (!value) {
+      setReason('');
+    }
+
+    setOpen(value);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            <Trans>Review identity document</Trans>
+          </DialogTitle>
+
+          <DialogDescription>
+            <Trans>
+              Check that the document belongs to {recipient.name || recipient.email} before allowing
+              them to sign.
+            </Trans>
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && (
+          <div className="flex h-48 items-center justify-center">
+            <Loader className="text-muted-foreground h-6 w-6 animate-spin" />
+          </div>
+        )}
+
+        {images && (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <p className="text-muted-foreground mb-2 text-xs">
+                <Trans>Front</Trans>
+              </p>
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={images.frontImage}
+                alt={_(msg`Front of identity document`)}
+                className="border-border w-full rounded-lg border object-contain"
+              />
+            </div>
+
+            {images.backImage && (
+              <div>
+                <p className="text-muted-foreground mb-2 text-xs">
+                  <Trans>Back</Trans>
+                </p>
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={images.backImage}
+                  alt={_(msg`Back of identity document`)}
+                  className="border-border w-full rounded-lg border object-contain"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="id-verification-rejection-reason">
+            <Trans>Reason for rejection</Trans>
+          </Label>
+
+          <Textarea
+            id="id-verification-rejection-reason"
+            value={reason}
+            maxLength={500}
+            placeholder={_(msg`Only required when rejecting, the recipient will see this`)}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="destructive"
+            disabled={!reason.trim() || isPending}
+            onClick={() => void onReview(IdVerificationStatus.rejected)}
+          >
+            <Trans>Reject</Trans>
+          </Button>
+
+          <Button
+            type="button"
+            disabled={!images || isPending}
+            loading={isPending}
+            onClick={() => void onReview(IdVerificationStatus.verified)}
+          >
+            <Trans>Approve</Trans>
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,113 @@
+'use client';
+
+import Link from 'next/link';
+
+import { Trans } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+import { Loader } from 'lucide-react';
+import { DateTime } from 'luxon';
+import { match } from 'ts-pattern';
+
+import { IdVerificationDocumentType } from '@documenso/lib/types/id-verification';
+import { formatDocumentsPath } from '@documenso/lib/utils/teams';
+import { trpc } from '@documenso/trpc/react';
+import { Button } from '@documenso/ui/primitives/button';
+
+import { IdVerificationReviewDialog } from './id-verification-review-dialog';
+
+export type IdVerificationsPageViewProps = {
+  teamUrl?: string;
+};
+
+export const IdVerificationsPageView = ({ teamUrl }: IdVerificationsPageViewProps) => {
+  const { i18n } = useLingui();
+
+  const { data: verifications, isLoading } = trpc.recipient.findPendingIdVerifications.useQuery();
+
+  const documentsPath = formatDocumentsPath(teamUrl);
+
+  return (
+    <div className="mx-auto w-full max-w-screen-xl px-4 md:px-8">
+      <h1 className="text-4xl font-semibold">
+        <Trans>ID Verifications</Trans>
+      </h1>
+
+      <p className="text-muted-foreground mt-2 text-sm">
+        <Trans>
+          Recipients who must verify their identity can't sign until their identity document has
+          been approved.
+        </Trans>
+      </p>
+
+      {isLoading && (
+        <div className="mt-8 flex items-center justify-center">
+          <Loader className="h-8 w-8 animate-spin text-gray-500" />
+        </div>
+      )}
+
+      {verifications && verifications.length === 0 && (
+        <p className="text-muted-foreground mt-8 text-sm italic">
+          <Trans>There are no identity documents waiting to be reviewed.</Trans>
+        </p>
+      )}
+
+      {verifications && verifications.length > 0 && (
+        <div className="mt-8 flex max-w-3xl flex-col gap-y-4">
+          {verifications.map((verification) => (
+            <div key={verification.id} className="border-border rounded-lg border p-4">
+              <div className="flex flex-col gap-x-4 sm:flex-row sm:items-center sm:justify-between">
+                <div>
+                  <h5 className="text-sm font-medium">
+                    {verification.name
+                      ? `${verification.name} (${verification.email})`
+                      : verification.email}
+                  </h5>
+
+                  <p className="text-muted-foreground mt-1 text-xs">
+                    <Link
+                      href={`${documentsPath}/${verification.document.id}`}
+                      className="hover:underline"
+                    >
+                      {verification.document.title}
+                    </Link>
+                  </p>
+
+                  <p className="text-muted-foreground mt-2 text-xs">
+                    {match(verification.documentType)
+                      .with(IdVerificationDocumentType.passport, () => <Trans>Passport</Trans>)
+                      .with(IdVerificationDocumentType.driver_license, () => (
+                        <Trans>Driver's license</Trans>
+                      ))
+                      .with(IdVerificationDocumentType.national_id, () => (
+                        <Trans>National ID card</Trans>
+                      ))
+                      .otherwise(() => (
+                        <Trans>Identity document</Trans>
+                      ))}
+
+                    {verification.submittedAt && (
+                      <>
+                        {' · '}
+                        <Trans>
+                          Submitted on {i18n.date(verification.submittedAt, DateTime.DATETIME_MED)}
+                        </Trans>
+                      </>
+                    )}
+                  </p>
+                </div>
+
+                <div className="mt-4 flex-shrink-0 sm:mt-0">
+                  <IdVerificationReviewDialog recipient={verification}>
+                    <Button variant="outline">
+                      <Trans>Review</Trans>
+                    </Button>
+                  </IdVerificationReviewDialog>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,15 @@
+import type { Metadata } from 'next';
+
+import { setupI18nSSR } from '@documenso/lib/client-only/providers/i18n.server';
+
+import { IdVerificationsPageView } from './id-verifications-page-view';
+
+export const metadata: Metadata = {
+  title: 'ID Verifications',
+};
+
+export default async function IdVerificationsPage() {
+  await setupI18nSSR();
+
+  return <IdVerificationsPageView />;
+}
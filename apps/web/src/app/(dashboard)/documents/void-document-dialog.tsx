@@ -0,0 +1,191 @@
+import { useEffect } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+
+import { trpc as trpcReact } from '@documenso/trpc/react';
+import { Alert, AlertDescription } from '@documenso/ui/primitives/alert';
+import { Button } from '@documenso/ui/primitives/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@documenso/ui/primitives/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@documenso/ui/primitives/form/form';
+import { Textarea } from '@documenso/ui/primitives/textarea';
+import { useToast } from '@documenso/ui/primitives/use-toast';
+
+const ZVoidDocumentFormSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(1, msg`Please provide a reason`)
+    .max(500, msg`Reason must be less than 500 characters`),
+});
+
+type TVoidDocumentFormSchema = z.infer<typeof ZVoidDocumentFormSchema>;
+
+type VoidDocumentDialogProps = {
+  id: number;
+  open: boolean;
+  onOpenChange: (_open: boolean) => void;
+  documentTitle: string;
+};
+
+export const VoidDocumentDialog = ({
+  id,
+  open,
+  onOpenChange,
+  documentTitle,
+}: VoidDocumentDialogProps) => {
+  const router = useRouter();
+
+  const { toast } = useToast();
+  const { _ } = useLingui();
+
+  const form = useForm<TVoidDocumentFormSchema>({
+    resolver: zodResolver(ZVoidDocumentFormSchema),
+    defaultValues: {
+      reason: '',
+    },
+  });
+
+  const { mutateAsync: voidDocument } = trpcReact.document.voidDocument.useMutation({
+    onSuccess: () => {
+      router.refresh();
+
+      toast({
+        title: _(msg`Document voided`),
+        description: _(msg`"${documentTitle}" has been successfully voided`),
+        duration: 5000,
+      });
+
+      onOpenChange(false);
+    },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset();
+    }
+  }, [open, form]);
+
+  const onVoid = async ({ reason }: TVoidDocumentFormSchema) => {
+    try {
+      await voidDocument({ documentId: id, reason });
+    } catch {
+      toast({
+        title: _(msg`Something went wrong`),
+        description: _(msg`This document could not be voided at this time. Please try again.`),
+        variant: 'destructive',
+        duration: 7500,
+      });
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => !form.formState.isSubmitting && onOpenChange(value)}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            <Trans>Void document</Trans>
+          </DialogTitle>
+
+          <DialogDescription>
+            <Trans>
+              You are about to void <strong>"{documentTitle}"</strong>
+            </Trans>
+          </DialogDescription>
+        </DialogHeader>
+
+        <Alert variant="warning" className="-mt-1">
+          <AlertDescription>
+            <p>
+              <Trans>
+                Please note that this action is <strong>irreversible</strong>.
+              </Trans>
+            </p>
+
+            <p className="mt-1">
+              <Trans>Once confirmed, the following will occur:</Trans>
+            </p>
+
+            <ul className="mt-0.5 list-inside list-disc">
+              <li>
+                <Trans>Document signing process will be cancelled</Trans>
+              </li>
+              <li>
+                <Trans>All signing links will stop working</Trans>
+              </li>
+              <li>
+                <Trans>Any download of the document will be marked as void</Trans>
+              </li>
+              <li>
+                <Trans>All recipients will be notified</Trans>
+              </li>
+              <li>
+                <Trans>The document and its audit log will be kept for your records</Trans>
+              </li>
+            </ul>
+          </AlertDescription>
+        </Alert>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onVoid)}>
+            <fieldset className="space-y-4" disabled={form.formState.isSubmitting}>
+              <FormField
+                control={form.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel required>
+                      <Trans>Reason</Trans>
+                    </FormLabel>
+
+                    <FormControl>
+                      <Textarea
+                        {...field}
+                        rows={4}
+                        placeholder={_(msg`Please provide a reason for voiding this document`)}
+                      />
+                    </FormControl>
+
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="secondary" onClick={() => onOpenChange(false)}>
+                  <Trans>Cancel</Trans>
+                </Button>
+
+                <Button type="submit" variant="destructive" loading={form.formState.isSubmitting}>
+                  <Trans>Void</Trans>
+                </Button>
+              </DialogFooter>
+            </fieldset>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
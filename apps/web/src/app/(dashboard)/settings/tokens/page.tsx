@@ -2,6 +2,7 @@ import { Trans } from '@lingui/macro';
 import { DateTime } from 'luxon';
 
 import { setupI18nSSR } from '@documenso/lib/client-only/providers/i18n.server';
+import { API_TOKEN_SCOPE_MAP } from '@documenso/lib/constants/api-token-scopes';
 import { getRequiredServerComponentSession } from '@documenso/lib/next-auth/get-server-component-session';
 import { getUserTokens } from '@documenso/lib/server-only/public-api/get-all-user-tokens';
 import { Button } from '@documenso/ui/primitives/button';
@@ -75,6 +76,10 @@ export default async function ApiTokensPage() {
                       <Trans>Token doesn't have an expiration date</Trans>
                     </p>
                   )}
+
+                  <p className="text-muted-foreground mt-1 font-mono text-xs">
+                    {token.scopes.map((scope) => API_TOKEN_SCOPE_MAP[scope].value).join(', ')}
+                  </p>
                 </div>
 
                 <div>
@@ -0,0 +1,14 @@
+import React from 'react';
+
+import { setupI18nSSR } from '@documenso/lib/client-only/providers/i18n.server';
+
+import type { TemplateFormsPageViewProps } from './template-forms-page-view';
+import { TemplateFormsPageView } from './template-forms-page-view';
+
+type TemplateFormsPageProps = Pick<TemplateFormsPageViewProps, 'params'>;
+
+export default async function TemplateFormsPage({ params }: TemplateFormsPageProps) {
+  await setupI18nSSR();
+
+  return <TemplateFormsPageView params={params} />;
+}
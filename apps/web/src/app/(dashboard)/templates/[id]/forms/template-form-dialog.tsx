@@ -0,0 +1,508 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+import type * as DialogPrimitive from '@radix-ui/react-dialog';
+import { PlusIcon, Trash2Icon } from 'lucide-react';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { z } from 'zod';
+
+import {
+  DYNAMIC_FORM_FIELD_TYPE_MAP,
+  DYNAMIC_FORM_SUPPORTED_FIELD_TYPES,
+} from '@documenso/lib/constants/dynamic-forms';
+import { AppError } from '@documenso/lib/errors/app-error';
+import { FormFieldType } from '@documenso/prisma/client';
+import { trpc } from '@documenso/trpc/react';
+import {
+  ZDynamicFormDataSchema,
+  ZDynamicFormFieldSchema,
+} from '@documenso/trpc/server/dynamic-form-router/schema';
+import { Button } from '@documenso/ui/primitives/button';
+import { Checkbox } from '@documenso/ui/primitives/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@documenso/ui/primitives/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@documenso/ui/primitives/form/form';
+import { Input } from '@documenso/ui/primitives/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@documenso/ui/primitives/select';
+import { Textarea } from '@documenso/ui/primitives/textarea';
+import { useToast } from '@documenso/ui/primitives/use-toast';
+
+export type TemplateFormDialogForm = {
+  id: number;
+  title: string;
+  description: string | null;
+  customSlug: string | null;
+  redirectUrl: string | null;
+  fields: {
+    id: number;
+    type: FormFieldType;
+    label: string;
+    placeholder: string | null;
+    helpText: string | null;
+    isRequired: boolean;
+    defaultValue: string | null;
+    options: string[];
+    formValueKey: string | null;
+  }[];
+};
+
+const parseOptions = (options: string) =>
+  options
+    .split(',')
+    .map((option) => option.trim())
+    .filter((option) => option.length > 0);
+
+// Options are edited as a single comma separated string.
+const ZTemplateFormFieldSchema = ZDynamicFormFieldSchema.innerType()
+  .extend({
+    options: z.string(),
+  })
+  .refine(
+    (field) =>
+      (field.type !== FormFieldType.SELECT && field.type !== FormFieldType.RADIO) ||
+      parseOptions(field.options).length > 0,
+    {
+      message: 'Select and radio fields require at least one option',
+      path: ['options'],
+    },
+  );
+
+const ZTemplateFormSchema = ZDynamicFormDataSchema.omit({ fields: true, expiresAt: true }).extend({
+  fields: z.array(ZTemplateFormFieldSchema),
+});
+
+type TTemplateFormSchema = z.infer<typeof ZTemplateFormSchema>;
+
+const createDefaultValues = (form?: TemplateFormDialogForm): TTemplateFormSchema => ({
+  title: form?.title ?? '',
+  description: form?.description ?? '',
+  customSlug: form?.customSlug ?? '',
+  redirectUrl: form?.redirectUrl ?? '',
+  // File upload fields can not be created from the dialog, so they are never part of a form.
+  fields: (form?.fields ?? []).flatMap(({ type, ...field }) =>
+    type === FormFieldType.FILE_UPLOAD
+      ? []
+      : [
+          {
+            ...field,
+            type,
+            options: field.options.join(', '),
+          },
+        ],
+  ),
+});
+
+export type TemplateFormDialogProps = {
+  templateId: number;
+
+  /**
+   * The form to edit, a new form is created when omitted.
+   */
+  form?: TemplateFormDialogForm;
+  trigger?: React.ReactNode;
+} & Omit<DialogPrimitive.DialogProps, 'children'>;
+
+export const TemplateFormDialog = ({
+  templateId,
+  form: existingForm,
+  trigger,
+  open: controlledOpen,
+  onOpenChange,
+  ...props
+}: TemplateFormDialogProps) => {
+  const { _ } = useLingui();
+  const { toast } = useToast();
+
+  const utils = trpc.useUtils();
+
+  const [uncontrolledOpen, setUncontrolledOpen] = useState(false);
+
+  const open = controlledOpen ?? uncontrolledOpen;
+
+  const setOpen = (value: boolean) => {
+    setUncontrolledOpen(value);
+    onOpenChange?.(value);
+  };
+
+  const form = useForm<TTemplateFormSchema>({
+    resolver: zodResolver(ZTemplateFormSchema),
+    defaultValues: createDefaultValues(existingForm),
+  });
+
+  const {
+    append: appendField,
+    fields: formFields,
+    remove: removeField,
+  } = useFieldArray({
+    control: form.control,
+    name: 'fields',
+    // Prevent react-hook-form from overwriting the database IDs of existing fields.
+    keyName: 'key',
+  });
+
+  const { mutateAsync: createDynamicForm } = trpc.dynamicForm.createDynamicForm.useMutation();
+  const { mutateAsync: updateDynamicForm } = trpc.dynamicForm.updateDynamicForm.useMutation();
+
+  const onAddField = () => {
+    appendField({
+      type: FormFieldType.TEXT,
+      label: '',
+      placeholder: '',
+      helpText: '',
+      isRequired: false,
+      defaultValue: '',
+      options: '',
+      formValueKey: '',
+    });
+  };
+
+  const onFormSubmit = async ({ fields, ...data }: TTemplateFormSchema) => {
+    const payload = {
+      ...data,
+      fields: fields.map((field) => ({
+        ...field,
+        options: parseOptions(field.options),
+      })),
+    };
+
+    try {
+      if (existingForm) {
+        await updateDynamicForm({ formId: existingForm.id, data: payload });
+      } else {
+        await createDynamicForm({ templateId, data: payload });
+      }
+
+      await utils.dynamicForm.findDynamicForms.invalidate({ templateId });
+
+      toast({
+        title: existingForm ? _(msg`Form updated`) : _(msg`Form created`),
+        description: existingForm
+          ? _(msg`The form has been updated successfully.`)
+          : _(msg`The form has been created. Publish it to make it available.`),
+      });
+
+      setOpen(false);
+    } catch (err) {
+      const error = AppError.parseError(err);
+
+      toast({
+        title: _(msg`Something went wrong`),
+        description: error.message || _(msg`The form could not be saved. Please try again.`),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (!open) {
+      form.reset(createDefaultValues(existingForm));
+    }
+  }, [open, form, existingForm]);
+
+  return (
+    <Dialog
+      {...props}
+      open={open}
+      onOpenChange={(value) => !form.formState.isSubmitting && setOpen(value)}
+    >
+      {trigger && (
+        <DialogTrigger onClick={(e) => e.stopPropagation()} asChild>
+          {trigger}
+        </DialogTrigger>
+      )}
+
+      <DialogContent className="max-w-2xl" position="center">
+        <DialogHeader>
+          <DialogTitle>
+            {existingForm ? <Trans>Edit form</Trans> : <Trans>Create form</Trans>}
+          </DialogTitle>
+
+          <DialogDescription>
+            <Trans>
+              Submitters always provide their name and email. Add fields to collect anything else,
+              and map them to a PDF form field of the template to prefill the document.
+            </Trans>
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onFormSubmit)}>
+            <fieldset
+              className="flex h-full flex-col space-y-4"
+              disabled={form.formState.isSubmitting}
+            >
+              <div className="custom-scrollbar -m-1 max-h-[60vh] space-y-4 overflow-y-auto p-1">
+                <FormField
+                  control={form.control}
+                  name="title"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel required>
+                        <Trans>Title</Trans>
+                      </FormLabel>
+                      <FormControl>
+                        <Input className="bg-background" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        <Trans>Description</Trans>
+                      </FormLabel>
+                      <FormControl>
+                        <Textarea className="bg-background" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex flex-col gap-4 md:flex-row">
+                  <FormField
+                    control={form.control}
+                    name="customSlug"
+                    render={({ field }) => (
+                      <FormItem className="flex-1">
+                        <FormLabel required>
+                          <Trans>URL</Trans>
+                        </FormLabel>
+                        <FormControl>
+                          <Input className="bg-background" {...field} />
+                        </FormControl>
+                        <FormDescription>
+                          <Trans>Lowercase letters, numbers and dashes only.</Trans>
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="redirectUrl"
+                    render={({ field }) => (
+                      <FormItem className="flex-1">
+                        <FormLabel>
+                          <Trans>Redirect URL</Trans>
+                        </FormLabel>
+                        <FormControl>
+                          <Input className="bg-background" {...field} value={field.value ?? ''} />
+                        </FormControl>
+                        <FormDescription>
+                          <Trans>Where to send the submitter once the document is signed.</Trans>
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="space-y-4">
+                  <p className="text-foreground text-sm font-medium">
+                    <Trans>Fields</Trans>
+                  </p>
+
+                  {formFields.length === 0 && (
+                    <p className="text-muted-foreground text-sm">
+                      <Trans>This form has no additional fields.</Trans>
+                    </p>
+                  )}
+
+                  {formFields.map((formField, index) => (
+                    <div key={formField.key} className="space-y-3 rounded-lg border p-3">
+                      <div className="flex flex-row gap-x-3">
+                        <FormField
+                          control={form.control}
+                          name={`fields.${index}.label`}
+                          render={({ field }) => (
+                            <FormItem className="flex-1">
+                              <FormLabel required>
+                                <Trans>Label</Trans>
+                              </FormLabel>
+                              <FormControl>
+                                <Input className="bg-background" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name={`fields.${index}.type`}
+                          render={({ field }) => (
+                            <FormItem className="w-40">
+                              <FormLabel required>
+                                <Trans>Type</Trans>
+                              </FormLabel>
+                              <FormControl>
+                                <Select {...field} onValueChange={field.onChange}>
+                                  <SelectTrigger className="bg-background">
+                                    <SelectValue />
+                                  </SelectTrigger>
+
+                                  <SelectContent position="popper">
+                                    {DYNAMIC_FORM_SUPPORTED_FIELD_TYPES.map((type) => (
+                                      <SelectItem key={type} value={type}>
+                                        {_(DYNAMIC_FORM_FIELD_TYPE_MAP[type])}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          className="mt-8 px-2"
+                          title={_(msg`Remove field`)}
+                          onClick={() => removeField(index)}
+                        >
+                          <Trash2Icon className="h-4 w-4" />
+                        </Button>
+                      </div>
+
+                      {(form.watch(`fields.${index}.type`) === FormFieldType.SELECT ||
+                        form.watch(`fields.${index}.type`) === FormFieldType.RADIO) && (
+                        <FormField
+                          control={form.control}
+                          name={`fields.${index}.options`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel required>
+                                <Trans>Options</Trans>
+                              </FormLabel>
+                              <FormControl>
+                                <Input
+                                  className="bg-background"
+                                  placeholder={_(msg`Option one, Option two`)}
+                                  {...field}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
+
+                      <div className="flex flex-row gap-x-3">
+                        <FormField
+                          control={form.control}
+                          name={`fields.${index}.placeholder`}
+                          render={({ field }) => (
+                            <FormItem className="flex-1">
+                              <FormLabel>
+                                <Trans>Placeholder</Trans>
+                              </FormLabel>
+                              <FormControl>
+                                <Input
+                                  className="bg-background"
+                                  {...field}
+                                  value={field.value ?? ''}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name={`fields.${index}.formValueKey`}
+                          render={({ field }) => (
+                            <FormItem className="flex-1">
+                              <FormLabel>
+                                <Trans>PDF form field</Trans>
+                              </FormLabel>
+                              <FormControl>
+                                <Input
+                                  className="bg-background"
+                                  {...field}
+                                  value={field.value ?? ''}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+
+                      <FormField
+                        control={form.control}
+                        name={`fields.${index}.isRequired`}
+                        render={({ field }) => (
+                          <FormItem className="flex flex-row items-center space-x-2 space-y-0">
+                            <FormControl>
+                              <Checkbox
+                                checked={field.value}
+                                onCheckedChange={(checked) => field.onChange(checked === true)}
+                              />
+                            </FormControl>
+                            <FormLabel>
+                              <Trans>Required</Trans>
+                            </FormLabel>
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                  ))}
+
+                  <Button type="button" variant="outline" size="sm" onClick={onAddField}>
+                    <PlusIcon className="mr-2 h-4 w-4" />
+                    <Trans>Add field</Trans>
+                  </Button>
+                </div>
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="secondary" onClick={() => setOpen(false)}>
+                  <Trans>Cancel</Trans>
+                </Button>
+
+                <Button type="submit" loading={form.formState.isSubmitting}>
+                  {existingForm ? <Trans>Save</Trans> : <Trans>Create</Trans>}
+                </Button>
+              </DialogFooter>
+            </fieldset>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
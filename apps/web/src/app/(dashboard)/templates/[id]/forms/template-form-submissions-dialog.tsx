@@ -0,0 +1,120 @@
+'use client';
+
+import { useState } from 'react';
+
+import Link from 'next/link';
+
+import { Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+import { InboxIcon, Loader } from 'lucide-react';
+import { DateTime } from 'luxon';
+
+import { formatDocumentsPath } from '@documenso/lib/utils/teams';
+import { trpc } from '@documenso/trpc/react';
+import { Button } from '@documenso/ui/primitives/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@documenso/ui/primitives/dialog';
+
+import { useOptionalCurrentTeam } from '~/providers/team';
+
+export type TemplateFormSubmissionsDialogProps = {
+  formId: number;
+};
+
+export const TemplateFormSubmissionsDialog = ({ formId }: TemplateFormSubmissionsDialogProps) => {
+  const { _ } = useLingui();
+
+  const team = useOptionalCurrentTeam();
+
+  const [open, setOpen] = useState(false);
+
+  const { data: submissions, isLoading } = trpc.dynamicForm.findDynamicFormSubmissions.useQuery(
+    {
+      formId,
+    },
+    {
+      enabled: open,
+    },
+  );
+
+  const documentRootPath = formatDocumentsPath(team?.url);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title={_(msg`Submissions`)}>
+          <InboxIcon className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            <Trans>Submissions</Trans>
+          </DialogTitle>
+
+          <DialogDescription>
+            <Trans>Every submission of this form and the document it created.</Trans>
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && (
+          <div className="flex items-center justify-center py-16">
+            <Loader className="text-muted-foreground h-6 w-6 animate-spin" />
+          </div>
+        )}
+
+        {submissions && (
+          <ul className="custom-scrollbar max-h-[60vh] divide-y overflow-y-auto">
+            {submissions.length === 0 && (
+              <li className="py-8 text-center">
+                <p className="text-muted-foreground/70 text-sm">
+                  <Trans>No submissions yet</Trans>
+                </p>
+              </li>
+            )}
+
+            {submissions.map((submission) => (
+              <li key={submission.id} className="space-y-1 py-3">
+                <div className="flex items-center justify-between gap-x-4">
+                  <p className="text-foreground truncate text-sm font-medium">
+                    {submission.submitterName
+                      ? `${submission.submitterName} (${submission.submitterEmail})`
+                      : submission.submitterEmail}
+                  </p>
+
+                  <p className="text-muted-foreground flex-shrink-0 text-xs">
+                    {DateTime.fromJSDate(submission.submittedAt).toRelative({ style: 'short' })}
+                  </p>
+                </div>
+
+                {submission.fieldSubmissions.map((fieldSubmission) => (
+                  <p key={fieldSubmission.id} className="text-muted-foreground text-xs">
+                    {fieldSubmission.field.label}
+                    {': '}
+                    {fieldSubmission.value}
+                  </p>
+                ))}
+
+                {submission.document && (
+                  <Link
+                    href={`${documentRootPath}/${submission.document.id}`}
+                    className="text-documenso-700 text-xs hover:underline"
+                  >
+                    {submission.document.title}
+                  </Link>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,292 @@
+'use client';
+
+import { useState } from 'react';
+
+import { Plural, Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+import { CopyIcon, Loader, PencilIcon, Trash2Icon } from 'lucide-react';
+
+import { useCopyToClipboard } from '@documenso/lib/client-only/hooks/use-copy-to-clipboard';
+import { formatDynamicFormPath } from '@documenso/lib/utils/dynamic-forms';
+import { trpc } from '@documenso/trpc/react';
+import { AnimateGenericFadeInOut } from '@documenso/ui/components/animate/animate-generic-fade-in-out';
+import { Badge } from '@documenso/ui/primitives/badge';
+import { Button } from '@documenso/ui/primitives/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@documenso/ui/primitives/dialog';
+import { Switch } from '@documenso/ui/primitives/switch';
+import { useToast } from '@documenso/ui/primitives/use-toast';
+
+import type { TemplateFormDialogForm } from './template-form-dialog';
+import { TemplateFormDialog } from './template-form-dialog';
+import { TemplateFormSubmissionsDialog } from './template-form-submissions-dialog';
+
+export type TemplateFormsListProps = {
+  templateId: number;
+
+  /**
+   * The team URL or the user profile URL the forms are hosted under, if one exists.
+   */
+  formRootUrl: string | null;
+};
+
+export const TemplateFormsList = ({ templateId, formRootUrl }: TemplateFormsListProps) => {
+  const { _ } = useLingui();
+  const { toast } = useToast();
+
+  const [, copy] = useCopyToClipboard();
+
+  const utils = trpc.useUtils();
+
+  const [formToEdit, setFormToEdit] = useState<TemplateFormDialogForm | null>(null);
+  const [formToDelete, setFormToDelete] = useState<{ id: number; title: string } | null>(null);
+
+  const {
+    data: forms,
+    isLoading,
+    isLoadingError,
+    refetch,
+  } = trpc.dynamicForm.findDynamicForms.useQuery({
+    templateId,
+  });
+
+  const { mutateAsync: setDynamicFormPublished } =
+    trpc.dynamicForm.setDynamicFormPublished.useMutation({
+      onSuccess: async () => {
+        await utils.dynamicForm.findDynamicForms.invalidate({ templateId });
+      },
+    });
+
+  const { mutateAsync: deleteDynamicForm, isPending: isDeletingForm } =
+    trpc.dynamicForm.deleteDynamicForm.useMutation({
+      onSuccess: async () => {
+        await utils.dynamicForm.findDynamicForms.invalidate({ templateId });
+      },
+    });
+
+  const onCopyFormUrl = async (slug: string) => {
+    if (!formRootUrl) {
+      return;
+    }
+
+    await copy(formatDynamicFormPath(formRootUrl, slug));
+
+    toast({
+      title: _(msg`Copied to clipboard`),
+      description: _(msg`The form link has been copied to your clipboard.`),
+    });
+  };
+
+  const onTogglePublished = async (formId: number, isPublished: boolean) => {
+    try {
+      await setDynamicFormPublished({ formId, isPublished });
+    } catch {
+      toast({
+        title: _(msg`Something went wrong`),
+        description: _(msg`The form could not be updated at this time. Please try again.`),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const onDeleteForm = async () => {
+    if (!formToDelete) {
+      return;
+    }
+
+    try {
+      await deleteDynamicForm({ formId: formToDelete.id });
+
+      toast({
+        title: _(msg`Form deleted`),
+        description: _(msg`The form and its submissions have been deleted.`),
+      });
+
+      setFormToDelete(null);
+    } catch {
+      toast({
+        title: _(msg`Something went wrong`),
+        description: _(msg`The form could not be deleted at this time. Please try again.`),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <section className="dark:bg-background border-border bg-widget flex flex-col rounded-xl border">
+      <div className="flex flex-row items-center justify-between border-b px-4 py-3">
+        <h2 className="text-foreground font-medium">
+          <Trans>Forms</Trans>
+        </h2>
+
+        <TemplateFormDialog
+          templateId={templateId}
+          trigger={
+            <Button size="sm">
+              <Trans>Create form</Trans>
+            </Button>
+          }
+        />
+      </div>
+
+      {isLoading && (
+        <div className="flex h-full items-center justify-center py-16">
+          <Loader className="text-muted-foreground h-6 w-6 animate-spin" />
+        </div>
+      )}
+
+      {isLoadingError && (
+        <div className="flex h-full flex-col items-center justify-center py-16">
+          <p className="text-foreground/80 text-sm">
+            <Trans>Unable to load forms</Trans>
+          </p>
+          <button
+            onClick={async () => refetch()}
+            className="text-foreground/70 hover:text-muted-foreground mt-2 text-sm"
+          >
+            <Trans>Click here to retry</Trans>
+          </button>
+        </div>
+      )}
+
+      <AnimateGenericFadeInOut>
+        {forms && (
+          <ul className="divide-y">
+            {forms.length === 0 && (
+              <li className="flex items-center justify-center py-8">
+                <p className="text-muted-foreground/70 text-sm">
+                  <Trans>No forms yet</Trans>
+                </p>
+              </li>
+            )}
+
+            {forms.map((form) => (
+              <li key={form.id} className="flex items-center gap-x-4 px-4 py-3">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-x-2">
+                    <p className="text-foreground truncate text-sm font-medium">{form.title}</p>
+
+                    {form.isPublished ? (
+                      <Badge variant="default" size="small">
+                        <Trans>Published</Trans>
+                      </Badge>
+                    ) : (
+                      <Badge variant="neutral" size="small">
+                        <Trans>Draft</Trans>
+                      </Badge>
+                    )}
+                  </div>
+
+                  {formRootUrl && form.customSlug && (
+                    <button
+                      type="button"
+                      className="text-muted-foreground hover:text-foreground flex max-w-full items-center gap-x-1 truncate text-xs"
+                      onClick={async () => onCopyFormUrl(form.customSlug ?? '')}
+                    >
+                      {formatDynamicFormPath(formRootUrl, form.customSlug)}
+                      <CopyIcon className="h-3 w-3 flex-shrink-0" />
+                    </button>
+                  )}
+
+                  <p className="text-muted-foreground/70 text-xs">
+                    <Plural value={form.fields.length} one="# field" other="# fields" />
+                    {' · '}
+                    <Plural
+                      value={form._count.submissions}
+                      one="# submission"
+                      other="# submissions"
+                    />
+                  </p>
+                </div>
+
+                <div className="flex flex-shrink-0 items-center gap-x-2">
+                  <Switch
+                    aria-label={_(msg`Published`)}
+                    checked={form.isPublished}
+                    disabled={!formRootUrl}
+                    onCheckedChange={async (checked) => onTogglePublished(form.id, checked)}
+                  />
+
+                  <TemplateFormSubmissionsDialog formId={form.id} />
+
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title={_(msg`Edit`)}
+                    onClick={() => setFormToEdit(form)}
+                  >
+                    <PencilIcon className="h-4 w-4" />
+                  </Button>
+
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title={_(msg`Delete`)}
+                    onClick={() => setFormToDelete({ id: form.id, title: form.title })}
+                  >
+                    <Trash2Icon className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </AnimateGenericFadeInOut>
+
+      {formToEdit && (
+        <TemplateFormDialog
+          templateId={templateId}
+          form={formToEdit}
+          open={true}
+          onOpenChange={(value) => !value && setFormToEdit(null)}
+        />
+      )}
+
+      <Dialog
+        open={formToDelete !== null}
+        onOpenChange={(value) => !isDeletingForm && !value && setFormToDelete(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              <Trans>Delete "{formToDelete?.title}"?</Trans>
+            </DialogTitle>
+
+            <DialogDescription>
+              <Trans>
+                The form link will stop working and all of its submissions will be deleted.
+                Documents created from submissions are not affected.
+              </Trans>
+            </DialogDescription>
+          </DialogHeader>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="secondary"
+              disabled={isDeletingForm}
+              onClick={() => setFormToDelete(null)}
+            >
+              <Trans>Cancel</Trans>
+            </Button>
+
+            <Button
+              type="button"
+              variant="destructive"
+              loading={isDeletingForm}
+              onClick={async () => onDeleteForm()}
+            >
+              <Trans>Delete</Trans>
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </section>
+  );
+};
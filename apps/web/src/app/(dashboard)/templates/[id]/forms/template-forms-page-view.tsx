@@ -0,0 +1,111 @@
+import React from 'react';
+
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+
+import { Trans } from '@lingui/macro';
+import { ChevronLeft } from 'lucide-react';
+
+import { getRequiredServerComponentSession } from '@documenso/lib/next-auth/get-server-component-session';
+import { getTemplateById } from '@documenso/lib/server-only/template/get-template-by-id';
+import { formatTemplatesPath } from '@documenso/lib/utils/teams';
+import type { Team } from '@documenso/prisma/client';
+import { RecipientRole } from '@documenso/prisma/client';
+import { Alert, AlertDescription, AlertTitle } from '@documenso/ui/primitives/alert';
+
+import { TemplateFormsList } from './template-forms-list';
+
+export type TemplateFormsPageViewProps = {
+  params: {
+    id: string;
+  };
+  team?: Team;
+};
+
+export const TemplateFormsPageView = async ({ params, team }: TemplateFormsPageViewProps) => {
+  const { id } = params;
+
+  const templateId = Number(id);
+  const templateRootPath = formatTemplatesPath(team?.url);
+
+  if (!templateId || Number.isNaN(templateId)) {
+    redirect(templateRootPath);
+  }
+
+  const { user } = await getRequiredServerComponentSession();
+
+  const template = await getTemplateById({
+    id: templateId,
+    userId: user.id,
+    teamId: team?.id,
+  }).catch(() => null);
+
+  if (!template || (template.teamId && !team?.url)) {
+    redirect(templateRootPath);
+  }
+
+  // Team forms are hosted under the team URL, personal forms under the public profile URL.
+  const formRootUrl = team ? team.url : user.url;
+
+  const hasSigner = template.recipients.some(
+    (recipient) => recipient.role === RecipientRole.SIGNER,
+  );
+
+  return (
+    <div className="mx-auto -mt-4 w-full max-w-screen-xl px-4 md:px-8">
+      <Link
+        href={`${templateRootPath}/${templateId}`}
+        className="flex items-center text-[#7AC455] hover:opacity-80"
+      >
+        <ChevronLeft className="mr-2 inline-block h-5 w-5" />
+        <Trans>Template</Trans>
+      </Link>
+
+      <h1
+        className="mt-4 block max-w-[20rem] truncate text-2xl font-semibold md:max-w-[30rem] md:text-3xl"
+        title={template.title}
+      >
+        <Trans>Forms for {template.title}</Trans>
+      </h1>
+
+      <p className="text-muted-foreground mt-2 text-sm">
+        <Trans>
+          Anyone with the link to a published form can fill it in. Each submission creates a new
+          document from this template with the submitter as the signer.
+        </Trans>
+      </p>
+
+      {!hasSigner && (
+        <Alert variant="warning" className="mt-6">
+          <AlertTitle>
+            <Trans>This template has no signers</Trans>
+          </AlertTitle>
+          <AlertDescription>
+            <Trans>
+              Add at least one signer to the template, the first signer is replaced by the person
+              submitting the form.
+            </Trans>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {!formRootUrl && (
+        <Alert variant="warning" className="mt-6">
+          <AlertTitle>
+            <Trans>Public profile URL required</Trans>
+          </AlertTitle>
+          <AlertDescription>
+            <Trans>
+              Personal forms are hosted under your public profile URL. Set one up in your profile
+              settings before publishing a form.
+            </Trans>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="mt-8">
+        <TemplateFormsList templateId={template.id} formRootUrl={formRootUrl} />
+      </div>
+    </div>
+  );
+};
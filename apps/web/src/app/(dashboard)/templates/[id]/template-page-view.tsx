@@ -2,7 +2,7 @@ import Link from 'next/link';
 import { redirect } from 'next/navigation';
 
 import { Trans } from '@lingui/macro';
-import { ChevronLeft, LucideEdit } from 'lucide-react';
+import { ChevronLeft, LucideEdit, LucideFileInput } from 'lucide-react';
 
 import { getRequiredServerComponentSession } from '@documenso/lib/next-auth/get-server-component-session';
 import { getTemplateById } from '@documenso/lib/server-only/template/get-template-by-id';
@@ -114,6 +114,13 @@ export const TemplatePageView = async ({ params, team }: TemplatePageViewProps)
 
           <TemplateBulkSendDialog templateId={template.id} recipients={template.recipients} />
 
+          <Button variant="outline" className="w-full" asChild>
+            <Link href={`${templateRootPath}/${template.id}/forms`}>
+              <LucideFileInput className="mr-1.5 h-3.5 w-3.5" />
+              <Trans>Forms</Trans>
+            </Link>
+          </Button>
+
           <Button className="w-full" asChild>
             <Link href={`${templateRootPath}/${template.id}/edit`}>
               <LucideEdit className="mr-1.5 h-3.5 w-3.5" />
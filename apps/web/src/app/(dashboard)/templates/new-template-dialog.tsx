@@ -51,10 +51,11 @@ export const NewTemplateDialog = ({ templateRootPath }: NewTemplateDialogProps)
     setIsUploadingFile(true);
 
     try {
-      const { type, data } = await putPdfFile(file);
+      const { type, data, size } = await putPdfFile(file);
       const { id: templateDocumentDataId } = await createDocumentData({
         type,
         data,
+        size: size ?? undefined,
       });
 
       const { id } = await createTemplate({
@@ -119,6 +119,9 @@ export default async function SigningCertificate({ searchParams }: SigningCertif
       .with('ACCOUNT', () => _(msg`Account Re-Authentication`))
       .with('TWO_FACTOR_AUTH', () => _(msg`Two-Factor Re-Authentication`))
       .with('PASSKEY', () => _(msg`Passkey Re-Authentication`))
+      .with('SMS_OTP', () => _(msg`SMS Code Re-Authentication`))
+      .with('EMAIL_OTP', () => _(msg`Email Code Re-Authentication`))
+      .with('ID_VERIFICATION', () => _(msg`ID Document Verification`))
       .with('EXPLICIT_NONE', () => _(msg`Email`))
       .with(null, () => null)
       .exhaustive();
@@ -126,6 +129,8 @@ export default async function SigningCertificate({ searchParams }: SigningCertif
     if (!authLevel) {
       authLevel = match(extractedAuthMethods.derivedRecipientAccessAuth)
         .with('ACCOUNT', () => _(msg`Account Authentication`))
+        .with('EMAIL_OTP', () => _(msg`Email Code Authentication`))
+        .with('ACCESS_CODE', () => _(msg`Access Code Authentication`))
         .with(null, () => _(msg`Email`))
         .exhaustive();
     }
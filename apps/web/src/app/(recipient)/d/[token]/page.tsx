@@ -7,7 +7,7 @@ import { match } from 'ts-pattern';
 import { setupI18nSSR } from '@documenso/lib/client-only/providers/i18n.server';
 import { getServerComponentSession } from '@documenso/lib/next-auth/get-server-component-session';
 import { getTemplateByDirectLinkToken } from '@documenso/lib/server-only/template/get-template-by-direct-link-token';
-import { DocumentAccessAuth } from '@documenso/lib/types/document-auth';
+import { DocumentAccessAuth, RecipientAccessAuth } from '@documenso/lib/types/document-auth';
 import { extractDocumentAuthMethods } from '@documenso/lib/utils/document-auth';
 
 import { DocumentAuthProvider } from '~/app/(signing)/sign/[token]/document-auth-provider';
@@ -56,6 +56,10 @@ export default async function TemplatesDirectPage({ params }: TemplatesDirectPag
   // Ensure typesafety when we add more options.
   const isAccessAuthValid = match(derivedRecipientAccessAuth)
     .with(DocumentAccessAuth.ACCOUNT, () => user !== null)
+    // Direct link recipients provide their own email, so there is no address to verify yet.
+    .with(DocumentAccessAuth.EMAIL_OTP, () => true)
+    // Access codes are only set on individual recipients, never on the template.
+    .with(RecipientAccessAuth.ACCESS_CODE, () => true)
     .with(null, () => true)
     .exhaustive();
 
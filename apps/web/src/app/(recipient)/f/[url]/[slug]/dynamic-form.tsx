@@ -0,0 +1,301 @@
+'use client';
+
+import { useMemo } from 'react';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+
+import { AppError } from '@documenso/lib/errors/app-error';
+import type { FormField as DynamicFormField } from '@documenso/prisma/client';
+import { FormFieldType } from '@documenso/prisma/client';
+import { trpc } from '@documenso/trpc/react';
+import { ZSubmitDynamicFormMutationSchema } from '@documenso/trpc/server/dynamic-form-router/schema';
+import { Button } from '@documenso/ui/primitives/button';
+import { Card, CardContent } from '@documenso/ui/primitives/card';
+import { Checkbox } from '@documenso/ui/primitives/checkbox';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@documenso/ui/primitives/form/form';
+import { Input } from '@documenso/ui/primitives/input';
+import { Label } from '@documenso/ui/primitives/label';
+import { RadioGroup, RadioGroupItem } from '@documenso/ui/primitives/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@documenso/ui/primitives/select';
+import { useToast } from '@documenso/ui/primitives/use-toast';
+
+type PublicDynamicFormField = Omit<DynamicFormField, 'options'> & {
+  options: string[];
+};
+
+const ZDynamicFormPageSchema = ZSubmitDynamicFormMutationSchema.pick({
+  submitterName: true,
+  submitterEmail: true,
+}).extend({
+  values: z.record(z.string(), z.string()),
+});
+
+type TDynamicFormPageSchema = z.infer<typeof ZDynamicFormPageSchema>;
+
+const INPUT_TYPE_MAP: Partial<Record<FormFieldType, string>> = {
+  [FormFieldType.NUMBER]: 'number',
+  [FormFieldType.EMAIL]: 'email',
+  [FormFieldType.PHONE]: 'tel',
+  [FormFieldType.DATE]: 'date',
+};
+
+// Field IDs are prefixed since react-hook-form treats numeric path segments as array indexes.
+const toFieldName = (fieldId: number) => `field_${fieldId}`;
+
+export type DynamicFormPageViewProps = {
+  url: string;
+  slug: string;
+  fields: PublicDynamicFormField[];
+  defaultName: string;
+  defaultEmail: string;
+};
+
+export const DynamicFormPageView = ({
+  url,
+  slug,
+  fields,
+  defaultName,
+  defaultEmail,
+}: DynamicFormPageViewProps) => {
+  const { _ } = useLingui();
+  const { toast } = useToast();
+
+  const schema = useMemo(
+    () =>
+      ZDynamicFormPageSchema.superRefine(({ values }, ctx) => {
+        for (const field of fields) {
+          const name = toFieldName(field.id);
+          const value = values[name] ?? '';
+
+          const isMissing = field.type === FormFieldType.CHECKBOX ? value !== 'true' : value === '';
+
+          if (field.isRequired && isMissing) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: 'This field is required',
+              path: ['values', name],
+            });
+          }
+
+          if (
+            field.type === FormFieldType.EMAIL &&
+            value !== '' &&
+            !z.string().email().safeParse(value).success
+          ) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: 'Please enter a valid email address',
+              path: ['values', name],
+            });
+          }
+        }
+      }),
+    [fields],
+  );
+
+  const form = useForm<TDynamicFormPageSchema>({
+    resolver: zodResolver(schema),
+    defaultValues: {
+      submitterName: defaultName,
+      submitterEmail: defaultEmail,
+      values: Object.fromEntries(
+        fields.map((field) => [toFieldName(field.id), field.defaultValue ?? '']),
+      ),
+    },
+  });
+
+  const { mutateAsync: submitDynamicForm } = trpc.dynamicForm.submitDynamicForm.useMutation();
+
+  const onFormSubmit = async ({
+    submitterName,
+    submitterEmail,
+    values,
+  }: TDynamicFormPageSchema) => {
+    try {
+      const { redirectUrl } = await submitDynamicForm({
+        url,
+        slug,
+        submitterName,
+        submitterEmail,
+        values: Object.fromEntries(
+          fields.map((field) => [field.id.toString(), values[toFieldName(field.id)] ?? '']),
+        ),
+      });
+
+      toast({
+        title: _(msg`Form submitted`),
+        description: _(msg`A document has been sent to your email address to sign.`),
+      });
+
+      if (redirectUrl) {
+        window.location.href = redirectUrl;
+      }
+    } catch (err) {
+      const error = AppError.parseError(err);
+
+      toast({
+        title: _(msg`Something went wrong`),
+        description:
+          error.message || _(msg`We were unable to submit this form. Please try again later.`),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card className="mt-8" gradient>
+      <CardContent className="p-6">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onFormSubmit)}>
+            <fieldset className="flex flex-col space-y-4" disabled={form.formState.isSubmitting}>
+              <FormField
+                control={form.control}
+                name="submitterName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel required>
+                      <Trans>Full Name</Trans>
+                    </FormLabel>
+                    <FormControl>
+                      <Input className="bg-background" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="submitterEmail"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel required>
+                      <Trans>Email</Trans>
+                    </FormLabel>
+                    <FormControl>
+                      <Input type="email" className="bg-background" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {fields.map((dynamicField) => (
+                <FormField
+                  key={dynamicField.id}
+                  control={form.control}
+                  name={`values.${toFieldName(dynamicField.id)}`}
+                  render={({ field }) => (
+                    <FormItem>
+                      {dynamicField.type === FormFieldType.CHECKBOX ? (
+                        <div className="flex flex-row items-center space-x-2">
+                          <FormControl>
+                            <Checkbox
+                              checked={field.value === 'true'}
+                              onCheckedChange={(checked) =>
+                                field.onChange(checked === true ? 'true' : 'false')
+                              }
+                            />
+                          </FormControl>
+                          <FormLabel required={dynamicField.isRequired}>
+                            {dynamicField.label}
+                          </FormLabel>
+                        </div>
+                      ) : (
+                        <FormLabel required={dynamicField.isRequired}>
+                          {dynamicField.label}
+                        </FormLabel>
+                      )}
+
+                      {dynamicField.type === FormFieldType.SELECT && (
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger className="bg-background">
+                              <SelectValue placeholder={dynamicField.placeholder ?? undefined} />
+                            </SelectTrigger>
+                          </FormControl>
+
+                          <SelectContent position="popper">
+                            {dynamicField.options.map((option) => (
+                              <SelectItem key={option} value={option}>
+                                {option}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+
+                      {dynamicField.type === FormFieldType.RADIO && (
+                        <FormControl>
+                          <RadioGroup value={field.value} onValueChange={field.onChange}>
+                            {dynamicField.options.map((option, index) => (
+                              <div key={option} className="flex items-center space-x-2">
+                                <RadioGroupItem
+                                  id={`${toFieldName(dynamicField.id)}-${index}`}
+                                  value={option}
+                                />
+                                <Label htmlFor={`${toFieldName(dynamicField.id)}-${index}`}>
+                                  {option}
+                                </Label>
+                              </div>
+                            ))}
+                          </RadioGroup>
+                        </FormControl>
+                      )}
+
+                      {dynamicField.type !== FormFieldType.CHECKBOX &&
+                        dynamicField.type !== FormFieldType.SELECT &&
+                        dynamicField.type !== FormFieldType.RADIO && (
+                          <FormControl>
+                            <Input
+                              type={INPUT_TYPE_MAP[dynamicField.type] ?? 'text'}
+                              className="bg-background"
+                              placeholder={dynamicField.placeholder ?? undefined}
+                              {...field}
+                            />
+                          </FormControl>
+                        )}
+
+                      {dynamicField.helpText && (
+                        <FormDescription>{dynamicField.helpText}</FormDescription>
+                      )}
+
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+
+              <Button
+                type="submit"
+                size="lg"
+                className="w-full"
+                loading={form.formState.isSubmitting}
+              >
+                <Trans>Submit and sign</Trans>
+              </Button>
+            </fieldset>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+};
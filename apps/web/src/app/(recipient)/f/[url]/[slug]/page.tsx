@@ -0,0 +1,48 @@
+import { notFound } from 'next/navigation';
+
+import { DynamicFormService } from '@documenso/ee/server-only/forms/dynamic-form-service';
+import { setupI18nSSR } from '@documenso/lib/client-only/providers/i18n.server';
+import { getServerComponentSession } from '@documenso/lib/next-auth/get-server-component-session';
+
+import { DynamicFormPageView } from './dynamic-form';
+
+export type DynamicFormPageProps = {
+  params: {
+    url: string;
+    slug: string;
+  };
+};
+
+const dynamicFormService = new DynamicFormService();
+
+export default async function DynamicFormPage({ params }: DynamicFormPageProps) {
+  await setupI18nSSR();
+
+  const { url, slug } = params;
+
+  const { user } = await getServerComponentSession();
+
+  const form = await dynamicFormService.getPublicForm({ url, slug }).catch(() => null);
+
+  if (!form) {
+    notFound();
+  }
+
+  return (
+    <div className="mx-auto -mt-4 w-full max-w-2xl px-4 md:px-8">
+      <h1 className="mt-4 block text-2xl font-semibold md:text-3xl">{form.title}</h1>
+
+      {form.description && (
+        <p className="text-muted-foreground mt-2.5 whitespace-pre-wrap">{form.description}</p>
+      )}
+
+      <DynamicFormPageView
+        url={url}
+        slug={slug}
+        fields={form.fields}
+        defaultName={user?.name ?? ''}
+        defaultEmail={user?.email ?? ''}
+      />
+    </div>
+  );
+}
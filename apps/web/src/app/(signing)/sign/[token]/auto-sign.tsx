@@ -41,12 +41,14 @@ const AUTO_SIGNABLE_FIELD_TYPES: string[] = [
 
 // The action auth types that are not allowed to be auto signed
 //
-// Reasoning: If the action auth is a passkey or 2FA, it's likely that the owner of the document
+// Reasoning: If the action auth is a passkey, 2FA or SMS code, it's likely that the owner of the document
 // intends on having the user manually sign due to the additional security measures employed for
 // other field types.
 const NON_AUTO_SIGNABLE_ACTION_AUTH_TYPES: string[] = [
   DocumentAuth.PASSKEY,
   DocumentAuth.TWO_FACTOR_AUTH,
+  DocumentAuth.SMS_OTP,
+  DocumentAuth.EMAIL_OTP,
 ];
 
 // The threshold for the number of fields that could be autosigned before displaying the dialog
@@ -121,9 +123,17 @@ export const AutoSign = ({ recipient, fields }: AutoSignProps) => {
           .with(DocumentAuth.EXPLICIT_NONE, () => ({
             type: DocumentAuth.EXPLICIT_NONE,
           }))
+          .with(DocumentAuth.ID_VERIFICATION, () => ({
+            type: DocumentAuth.ID_VERIFICATION,
+          }))
           .with(null, () => undefined)
           .with(
-            P.union(DocumentAuth.PASSKEY, DocumentAuth.TWO_FACTOR_AUTH),
+            P.union(
+              DocumentAuth.PASSKEY,
+              DocumentAuth.TWO_FACTOR_AUTH,
+              DocumentAuth.SMS_OTP,
+              DocumentAuth.EMAIL_OTP,
+            ),
             // This is a bit dirty, but the sentinel value used here is incredibly short-lived.
             () => 'NOT_SUPPORTED' as const,
           )
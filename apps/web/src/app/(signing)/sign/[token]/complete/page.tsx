@@ -1,5 +1,5 @@
 import Link from 'next/link';
-import { notFound } from 'next/navigation';
+import { notFound, redirect } from 'next/navigation';
 
 import { Trans, msg } from '@lingui/macro';
 import { useLingui } from '@lingui/react';
@@ -16,7 +16,10 @@ import { isRecipientAuthorized } from '@documenso/lib/server-only/document/is-re
 import { getFieldsForToken } from '@documenso/lib/server-only/field/get-fields-for-token';
 import { getRecipientByToken } from '@documenso/lib/server-only/recipient/get-recipient-by-token';
 import { getRecipientSignatures } from '@documenso/lib/server-only/recipient/get-recipient-signatures';
+import { getRecipientAccessAuthOptions } from '@documenso/lib/server-only/recipient/recipient-access-auth-cookie';
 import { getUserByEmail } from '@documenso/lib/server-only/user/get-user-by-email';
+import { DocumentAuth } from '@documenso/lib/types/document-auth';
+import { extractDocumentAuthMethods } from '@documenso/lib/utils/document-auth';
 import { DocumentStatus, FieldType, RecipientRole } from '@documenso/prisma/client';
 import { DocumentDownloadButton } from '@documenso/ui/components/document/document-download-button';
 import { DocumentShareButton } from '@documenso/ui/components/document/document-share-button';
@@ -24,7 +27,9 @@ import { SigningCard3D } from '@documenso/ui/components/signing-card';
 import { cn } from '@documenso/ui/lib/utils';
 import { Badge } from '@documenso/ui/primitives/badge';
 
+import { SigningAccessCodeAuthPageView } from '../signing-access-code-auth-page';
 import { SigningAuthPageView } from '../signing-auth-page';
+import { SigningEmailAccessAuthPageView } from '../signing-email-access-auth-page';
 import { ClaimAccount } from './claim-account';
 import { DocumentPreviewButton } from './document-preview-button';
 import { PollUntilDocumentCompleted } from './poll-until-document-completed';
@@ -59,6 +64,10 @@ export default async function CompletedSigningPage({
     return notFound();
   }
 
+  if (document.status === DocumentStatus.VOIDED) {
+    return redirect(`/sign/${token}/voided`);
+  }
+
   const { documentData } = document;
 
   const [fields, recipient] = await Promise.all([
@@ -70,13 +79,33 @@ export default async function CompletedSigningPage({
     return notFound();
   }
 
+  const { derivedRecipientAccessAuth } = extractDocumentAuthMethods({
+    documentAuth: document.authOptions,
+    recipientAuth: recipient.authOptions,
+  });
+
   const isDocumentAccessValid = await isRecipientAuthorized({
     type: 'ACCESS',
     documentAuthOptions: document.authOptions,
     recipient,
     userId: user?.id,
+    authOptions: getRecipientAccessAuthOptions(recipient.id, derivedRecipientAccessAuth),
   });
 
+  if (!isDocumentAccessValid && derivedRecipientAccessAuth === DocumentAuth.EMAIL_OTP) {
+    return (
+      <SigningEmailAccessAuthPageView
+        token={token}
+        documentId={document.id}
+        email={recipient.email}
+      />
+    );
+  }
+
+  if (!isDocumentAccessValid && derivedRecipientAccessAuth === DocumentAuth.ACCESS_CODE) {
+    return <SigningAccessCodeAuthPageView token={token} email={recipient.email} />;
+  }
+
   if (!isDocumentAccessValid) {
     return <SigningAuthPageView email={recipient.email} />;
   }
@@ -17,7 +17,9 @@ import {
 
 import { DocumentActionAuth2FA } from './document-action-auth-2fa';
 import { DocumentActionAuthAccount } from './document-action-auth-account';
+import { DocumentActionAuthEmail } from './document-action-auth-email';
 import { DocumentActionAuthPasskey } from './document-action-auth-passkey';
+import { DocumentActionAuthSms } from './document-action-auth-sms';
 import { useRequiredDocumentAuthContext } from './document-auth-provider';
 
 export type DocumentActionAuthDialogProps = {
@@ -64,9 +66,23 @@ export const DocumentActionAuthDialog = ({
         </DialogHeader>
 
         {match({ documentAuthType, user })
+          .with({ documentAuthType: DocumentAuth.SMS_OTP }, () => (
+            <DocumentActionAuthSms
+              open={open}
+              onOpenChange={onOpenChange}
+              onReauthFormSubmit={onReauthFormSubmit}
+            />
+          ))
+          .with({ documentAuthType: DocumentAuth.EMAIL_OTP }, () => (
+            <DocumentActionAuthEmail
+              open={open}
+              onOpenChange={onOpenChange}
+              onReauthFormSubmit={onReauthFormSubmit}
+            />
+          ))
           .with(
             { documentAuthType: DocumentAuth.ACCOUNT },
-            { user: P.when((user) => !user || user.email !== recipient.email) }, // Assume all current auth methods requires them to be logged in.
+            { user: P.when((user) => !user || user.email !== recipient.email) }, // Assume all other auth methods require them to be logged in.
             () => <DocumentActionAuthAccount onOpenChange={onOpenChange} />,
           )
           .with({ documentAuthType: DocumentAuth.PASSKEY }, () => (
@@ -83,6 +99,7 @@ export const DocumentActionAuthDialog = ({
               onReauthFormSubmit={onReauthFormSubmit}
             />
           ))
+          .with({ documentAuthType: DocumentAuth.ID_VERIFICATION }, () => null)
           .with({ documentAuthType: DocumentAuth.EXPLICIT_NONE }, () => null)
           .exhaustive()}
       </DialogContent>
@@ -0,0 +1,197 @@
+import { useEffect, useState } from 'react';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Trans } from '@lingui/macro';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+
+import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
+import { DocumentAuth, type TRecipientActionAuth } from '@documenso/lib/types/document-auth';
+import { trpc } from '@documenso/trpc/react';
+import { Alert, AlertDescription, AlertTitle } from '@documenso/ui/primitives/alert';
+import { Button } from '@documenso/ui/primitives/button';
+import { DialogFooter } from '@documenso/ui/primitives/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@documenso/ui/primitives/form/form';
+import { PinInput, PinInputGroup, PinInputSlot } from '@documenso/ui/primitives/pin-input';
+
+import { useRequiredDocumentAuthContext } from './document-auth-provider';
+
+export type DocumentActionAuthEmailProps = {
+  open: boolean;
+  onOpenChange: (value: boolean) => void;
+  onReauthFormSubmit: (values?: TRecipientActionAuth) => Promise<void> | void;
+};
+
+const ZEmailAuthFormSchema = z.object({
+  code: z.string().length(6, { message: 'Code must be 6 characters long' }),
+});
+
+type TEmailAuthFormSchema = z.infer<typeof ZEmailAuthFormSchema>;
+
+export const DocumentActionAuthEmail = ({
+  onReauthFormSubmit,
+  open,
+  onOpenChange,
+}: DocumentActionAuthEmailProps) => {
+  const { recipient, isCurrentlyAuthenticating, setIsCurrentlyAuthenticating } =
+    useRequiredDocumentAuthContext();
+
+  const form = useForm<TEmailAuthFormSchema>({
+    resolver: zodResolver(ZEmailAuthFormSchema),
+    defaultValues: {
+      code: '',
+    },
+  });
+
+  const [isCodeSent, setIsCodeSent] = useState(false);
+  const [formErrorCode, setFormErrorCode] = useState<string | null>(null);
+
+  const { mutateAsync: sendEmailVerificationCode, isPending: isSendingEmailVerificationCode } =
+    trpc.recipient.sendEmailVerificationCode.useMutation();
+
+  const onSendCode = async () => {
+    try {
+      setFormErrorCode(null);
+
+      if (recipient.documentId === null) {
+        throw new AppError(AppErrorCode.NOT_FOUND);
+      }
+
+      await sendEmailVerificationCode({
+        token: recipient.token,
+        documentId: recipient.documentId,
+      });
+
+      setIsCodeSent(true);
+    } catch (err) {
+      const error = AppError.parseError(err);
+      setFormErrorCode(error.code);
+    }
+  };
+
+  const onFormSubmit = async ({ code }: TEmailAuthFormSchema) => {
+    try {
+      setIsCurrentlyAuthenticating(true);
+
+      await onReauthFormSubmit({
+        type: DocumentAuth.EMAIL_OTP,
+        code,
+      });
+
+      setIsCurrentlyAuthenticating(false);
+
+      onOpenChange(false);
+    } catch (err) {
+      setIsCurrentlyAuthenticating(false);
+
+      const error = AppError.parseError(err);
+      setFormErrorCode(error.code);
+    }
+  };
+
+  useEffect(() => {
+    form.reset({
+      code: '',
+    });
+
+    setFormErrorCode(null);
+
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onFormSubmit)}>
+        <fieldset disabled={isCurrentlyAuthenticating}>
+          <div className="space-y-4">
+            <p className="text-muted-foreground text-sm">
+              {isCodeSent ? (
+                <Trans>
+                  We've sent a verification code to <strong>{recipient.email}</strong>.
+                </Trans>
+              ) : (
+                <Trans>
+                  We'll send a verification code to <strong>{recipient.email}</strong>. The code can
+                  be used to sign all your fields until you stop signing for an hour.
+                </Trans>
+              )}
+            </p>
+
+            <FormField
+              control={form.control}
+              name="code"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel required>
+                    <Trans>Verification code</Trans>
+                  </FormLabel>
+
+                  <FormControl>
+                    <PinInput {...field} value={field.value ?? ''} maxLength={6}>
+                      {Array(6)
+                        .fill(null)
+                        .map((_, i) => (
+                          <PinInputGroup key={i}>
+                            <PinInputSlot index={i} />
+                          </PinInputGroup>
+                        ))}
+                    </PinInput>
+                  </FormControl>
+
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {formErrorCode && (
+              <Alert variant="destructive">
+                {formErrorCode === AppErrorCode.TOO_MANY_REQUESTS ? (
+                  <AlertDescription>
+                    <Trans>Please wait a moment before requesting another code.</Trans>
+                  </AlertDescription>
+                ) : (
+                  <>
+                    <AlertTitle>
+                      <Trans>Unauthorized</Trans>
+                    </AlertTitle>
+                    <AlertDescription>
+                      <Trans>
+                        We were unable to verify your details. Please try again or contact support
+                      </Trans>
+                    </AlertDescription>
+                  </>
+                )}
+              </Alert>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="secondary" onClick={() => onOpenChange(false)}>
+                <Trans>Cancel</Trans>
+              </Button>
+
+              <Button
+                type="button"
+                variant="outline"
+                loading={isSendingEmailVerificationCode}
+                onClick={onSendCode}
+              >
+                {isCodeSent ? <Trans>Resend code</Trans> : <Trans>Send code</Trans>}
+              </Button>
+
+              <Button type="submit" loading={isCurrentlyAuthenticating}>
+                <Trans>Sign</Trans>
+              </Button>
+            </DialogFooter>
+          </div>
+        </fieldset>
+      </form>
+    </Form>
+  );
+};
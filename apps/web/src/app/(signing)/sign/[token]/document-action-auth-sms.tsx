@@ -0,0 +1,197 @@
+import { useEffect, useState } from 'react';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Trans } from '@lingui/macro';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+
+import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
+import { DocumentAuth, type TRecipientActionAuth } from '@documenso/lib/types/document-auth';
+import { trpc } from '@documenso/trpc/react';
+import { Alert, AlertDescription, AlertTitle } from '@documenso/ui/primitives/alert';
+import { Button } from '@documenso/ui/primitives/button';
+import { DialogFooter } from '@documenso/ui/primitives/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@documenso/ui/primitives/form/form';
+import { PinInput, PinInputGroup, PinInputSlot } from '@documenso/ui/primitives/pin-input';
+
+import { useRequiredDocumentAuthContext } from './document-auth-provider';
+
+export type DocumentActionAuthSmsProps = {
+  open: boolean;
+  onOpenChange: (value: boolean) => void;
+  onReauthFormSubmit: (values?: TRecipientActionAuth) => Promise<void> | void;
+};
+
+const ZSmsAuthFormSchema = z.object({
+  code: z.string().length(6, { message: 'Code must be 6 characters long' }),
+});
+
+type TSmsAuthFormSchema = z.infer<typeof ZSmsAuthFormSchema>;
+
+export const DocumentActionAuthSms = ({
+  onReauthFormSubmit,
+  open,
+  onOpenChange,
+}: DocumentActionAuthSmsProps) => {
+  const { recipient, isCurrentlyAuthenticating, setIsCurrentlyAuthenticating } =
+    useRequiredDocumentAuthContext();
+
+  const form = useForm<TSmsAuthFormSchema>({
+    resolver: zodResolver(ZSmsAuthFormSchema),
+    defaultValues: {
+      code: '',
+    },
+  });
+
+  const [phoneNumberHint, setPhoneNumberHint] = useState<string | null>(null);
+  const [formErrorCode, setFormErrorCode] = useState<string | null>(null);
+
+  const { mutateAsync: sendSigningSmsVerificationCode, isPending: isSendingSmsVerificationCode } =
+    trpc.recipient.sendSigningSmsVerificationCode.useMutation();
+
+  const onSendCode = async () => {
+    try {
+      setFormErrorCode(null);
+
+      if (recipient.documentId === null) {
+        throw new AppError(AppErrorCode.NOT_FOUND);
+      }
+
+      const result = await sendSigningSmsVerificationCode({
+        token: recipient.token,
+        documentId: recipient.documentId,
+      });
+
+      setPhoneNumberHint(result.phoneNumberHint);
+    } catch (err) {
+      const error = AppError.parseError(err);
+      setFormErrorCode(error.code);
+    }
+  };
+
+  const onFormSubmit = async ({ code }: TSmsAuthFormSchema) => {
+    try {
+      setIsCurrentlyAuthenticating(true);
+
+      await onReauthFormSubmit({
+        type: DocumentAuth.SMS_OTP,
+        code,
+      });
+
+      setIsCurrentlyAuthenticating(false);
+
+      onOpenChange(false);
+    } catch (err) {
+      setIsCurrentlyAuthenticating(false);
+
+      const error = AppError.parseError(err);
+      setFormErrorCode(error.code);
+    }
+  };
+
+  useEffect(() => {
+    form.reset({
+      code: '',
+    });
+
+    setFormErrorCode(null);
+
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onFormSubmit)}>
+        <fieldset disabled={isCurrentlyAuthenticating}>
+          <div className="space-y-4">
+            <p className="text-muted-foreground text-sm">
+              {phoneNumberHint ? (
+                <Trans>
+                  We've sent a verification code to your phone number ending in {phoneNumberHint}.
+                </Trans>
+              ) : (
+                <Trans>
+                  We'll send a verification code to the phone number provided by the sender. The
+                  code can be used to sign all your fields until you stop signing for an hour.
+                </Trans>
+              )}
+            </p>
+
+            <FormField
+              control={form.control}
+              name="code"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel required>
+                    <Trans>Verification code</Trans>
+                  </FormLabel>
+
+                  <FormControl>
+                    <PinInput {...field} value={field.value ?? ''} maxLength={6}>
+                      {Array(6)
+                        .fill(null)
+                        .map((_, i) => (
+                          <PinInputGroup key={i}>
+                            <PinInputSlot index={i} />
+                          </PinInputGroup>
+                        ))}
+                    </PinInput>
+                  </FormControl>
+
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {formErrorCode && (
+              <Alert variant="destructive">
+                {formErrorCode === AppErrorCode.TOO_MANY_REQUESTS ? (
+                  <AlertDescription>
+                    <Trans>Please wait a moment before requesting another code.</Trans>
+                  </AlertDescription>
+                ) : (
+                  <>
+                    <AlertTitle>
+                      <Trans>Unauthorized</Trans>
+                    </AlertTitle>
+                    <AlertDescription>
+                      <Trans>
+                        We were unable to verify your details. Please try again or contact support
+                      </Trans>
+                    </AlertDescription>
+                  </>
+                )}
+              </Alert>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="secondary" onClick={() => onOpenChange(false)}>
+                <Trans>Cancel</Trans>
+              </Button>
+
+              <Button
+                type="button"
+                variant="outline"
+                loading={isSendingSmsVerificationCode}
+                onClick={onSendCode}
+              >
+                {phoneNumberHint ? <Trans>Resend code</Trans> : <Trans>Send code</Trans>}
+              </Button>
+
+              <Button type="submit" loading={isCurrentlyAuthenticating}>
+                <Trans>Sign</Trans>
+              </Button>
+            </DialogFooter>
+          </div>
+        </fieldset>
+      </form>
+    </Form>
+  );
+};
@@ -141,7 +141,18 @@ export const DocumentAuthProvider = ({
     .with(DocumentAuth.EXPLICIT_NONE, () => ({
       type: DocumentAuth.EXPLICIT_NONE,
     }))
-    .with(DocumentAuth.PASSKEY, DocumentAuth.TWO_FACTOR_AUTH, null, () => null)
+    // Recipients can only reach the fields once their identity has been verified.
+    .with(DocumentAuth.ID_VERIFICATION, () => ({
+      type: DocumentAuth.ID_VERIFICATION,
+    }))
+    .with(
+      DocumentAuth.PASSKEY,
+      DocumentAuth.TWO_FACTOR_AUTH,
+      DocumentAuth.SMS_OTP,
+      DocumentAuth.EMAIL_OTP,
+      null,
+      () => null,
+    )
     .exhaustive();
 
   const executeActionAuthProcedure = async (options: ExecuteActionAuthProcedureOptions) => {
@@ -174,10 +185,14 @@ export const DocumentAuthProvider = ({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [passkeyData.passkeys]);
 
-  // Assume that a user must be logged in for any auth requirements.
+  // Assume that a user must be logged in for any auth requirements other than one-time codes
+  // and identity documents.
   const isAuthRedirectRequired = Boolean(
     derivedRecipientActionAuth &&
       derivedRecipientActionAuth !== DocumentAuth.EXPLICIT_NONE &&
+      derivedRecipientActionAuth !== DocumentAuth.SMS_OTP &&
+      derivedRecipientActionAuth !== DocumentAuth.EMAIL_OTP &&
+      derivedRecipientActionAuth !== DocumentAuth.ID_VERIFICATION &&
       user?.email !== recipient.email,
   );
 
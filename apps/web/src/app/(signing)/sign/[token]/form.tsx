@@ -36,6 +36,13 @@ export type SigningFormProps = {
   document: DocumentAndSender;
   recipient: Recipient;
   fields: Field[];
+
+  /**
+   * All the fields of the document, used to evaluate conditional logic.
+   *
+   * Defaults to the provided fields.
+   */
+  documentFields?: Field[];
   redirectUrl?: string | null;
   isRecipientsTurn: boolean;
   allRecipients?: RecipientWithFields[];
@@ -46,6 +53,7 @@ export const SigningForm = ({
   document,
   recipient,
   fields,
+  documentFields = fields,
   redirectUrl,
   isRecipientsTurn,
   allRecipients = [],
@@ -83,8 +91,8 @@ export const SigningForm = ({
   const isSubmitting = formState.isSubmitting || formState.isSubmitSuccessful;
 
   const fieldsRequiringValidation = useMemo(
-    () => fields.filter(isFieldUnsignedAndRequired),
-    [fields],
+    () => fields.filter((field) => isFieldUnsignedAndRequired(field, documentFields)),
+    [fields, documentFields],
   );
 
   const hasSignatureField = fields.some((field) => field.type === FieldType.SIGNATURE);
@@ -211,6 +219,7 @@ export const SigningForm = ({
                     onSignatureComplete={handleSubmit(onFormSubmit)}
                     documentTitle={document.title}
                     fields={fields}
+                    documentFields={documentFields}
                     fieldsValidated={fieldsValidated}
                     role={recipient.role}
                     disabled={!isRecipientsTurn}
@@ -386,6 +395,7 @@ export const SigningForm = ({
                       onSignatureComplete={handleSubmit(onFormSubmit)}
                       documentTitle={document.title}
                       fields={fields}
+                      documentFields={documentFields}
                       fieldsValidated={fieldsValidated}
                       role={recipient.role}
                       disabled={!isRecipientsTurn}
@@ -0,0 +1,69 @@
+'use client';
+
+import { useMemo } from 'react';
+
+import { Trans } from '@lingui/macro';
+import { Calculator } from 'lucide-react';
+
+import { ZFormulaFieldMeta } from '@documenso/lib/types/field-meta';
+import { computeFormulaFieldValue } from '@documenso/lib/utils/field-formula';
+import type { Field } from '@documenso/prisma/client';
+import { FieldRootContainer } from '@documenso/ui/components/field/field';
+import { cn } from '@documenso/ui/lib/utils';
+
+export type FormulaFieldProps = {
+  field: Field;
+  documentFields: Field[];
+  dateFormat?: string | null;
+  timezone?: string | null;
+};
+
+/**
+ * A read only preview of a formula field, the final value is calculated when the document is sealed.
+ */
+export const FormulaField = ({
+  field,
+  documentFields,
+  dateFormat,
+  timezone,
+}: FormulaFieldProps) => {
+  const parsedFieldMeta = ZFormulaFieldMeta.safeParse(field.fieldMeta);
+  const fieldMeta = parsedFieldMeta.success ? parsedFieldMeta.data : null;
+
+  const value = useMemo(
+    () => computeFormulaFieldValue(field, documentFields, { dateFormat, timezone }),
+    [field, documentFields, dateFormat, timezone],
+  );
+
+  return (
+    <div className="[container-type:size]">
+      <FieldRootContainer field={field}>
+        {value === null ? (
+          <p className="text-muted-foreground flex flex-col items-center justify-center duration-200">
+            <span className="flex items-center justify-center gap-x-1">
+              <Calculator className="h-[clamp(0.625rem,20cqw,0.925rem)] w-[clamp(0.625rem,20cqw,0.925rem)]" />{' '}
+              <span className="text-[clamp(0.425rem,25cqw,0.825rem)]">
+                {fieldMeta?.label || <Trans>Formula</Trans>}
+              </span>
+            </span>
+          </p>
+        ) : (
+          <div className="flex h-full w-full items-center">
+            <p
+              className={cn(
+                'text-muted-foreground dark:text-background/80 w-full text-[clamp(0.425rem,25cqw,0.825rem)] duration-200',
+                {
+                  'text-left': fieldMeta?.textAlign === 'left',
+                  'text-center': !fieldMeta?.textAlign || fieldMeta?.textAlign === 'center',
+                  'text-right': fieldMeta?.textAlign === 'right',
+                },
+              )}
+            >
+              {value}
+            </p>
+          </div>
+        )}
+      </FieldRootContainer>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import { headers } from 'next/headers';
 import { notFound, redirect } from 'next/navigation';
 
+import { IDVerificationService } from '@documenso/ee/server-only/verification/id-verification';
 import { setupI18nSSR } from '@documenso/lib/client-only/providers/i18n.server';
 import { DOCUMENSO_ENCRYPTION_KEY } from '@documenso/lib/constants/crypto';
 import { getServerComponentSession } from '@documenso/lib/next-auth/get-server-component-session';
@@ -13,7 +14,10 @@ import { getIsRecipientsTurnToSign } from '@documenso/lib/server-only/recipient/
 import { getRecipientByToken } from '@documenso/lib/server-only/recipient/get-recipient-by-token';
 import { getRecipientSignatures } from '@documenso/lib/server-only/recipient/get-recipient-signatures';
 import { getRecipientsForAssistant } from '@documenso/lib/server-only/recipient/get-recipients-for-assistant';
+import { getRecipientAccessAuthOptions } from '@documenso/lib/server-only/recipient/recipient-access-auth-cookie';
 import { getUserByEmail } from '@documenso/lib/server-only/user/get-user-by-email';
+import { DocumentAuth } from '@documenso/lib/types/document-auth';
+import { IdVerificationStatus } from '@documenso/lib/types/id-verification';
 import { symmetricDecrypt } from '@documenso/lib/universal/crypto';
 import { extractNextHeaderRequestMetadata } from '@documenso/lib/universal/extract-request-metadata';
 import { extractDocumentAuthMethods } from '@documenso/lib/utils/document-auth';
@@ -22,7 +26,10 @@ import { DocumentStatus, RecipientRole, SigningStatus } from '@documenso/prisma/
 import { DocumentAuthProvider } from './document-auth-provider';
 import { NoLongerAvailable } from './no-longer-available';
 import { SigningProvider } from './provider';
+import { SigningAccessCodeAuthPageView } from './signing-access-code-auth-page';
 import { SigningAuthPageView } from './signing-auth-page';
+import { SigningEmailAccessAuthPageView } from './signing-email-access-auth-page';
+import { SigningIdVerificationPageView } from './signing-id-verification-page';
 import { SigningPageView } from './signing-page-view';
 
 export type SigningPageProps = {
@@ -64,6 +71,14 @@ export default async function SigningPage({ params: { token } }: SigningPageProp
     return notFound();
   }
 
+  if (document.status === DocumentStatus.EXPIRED) {
+    return redirect(`/sign/${token}/expired`);
+  }
+
+  if (document.status === DocumentStatus.VOIDED) {
+    return redirect(`/sign/${token}/voided`);
+  }
+
   const recipientWithFields = { ...recipient, fields };
 
   const isRecipientsTurn = await getIsRecipientsTurnToSign({ token });
@@ -79,7 +94,7 @@ export default async function SigningPage({ params: { token } }: SigningPageProp
         })
       : [];
 
-  const { derivedRecipientAccessAuth } = extractDocumentAuthMethods({
+  const { derivedRecipientAccessAuth, derivedRecipientActionAuth } = extractDocumentAuthMethods({
     documentAuth: document.authOptions,
     recipientAuth: recipient.authOptions,
   });
@@ -89,10 +104,26 @@ export default async function SigningPage({ params: { token } }: SigningPageProp
     documentAuthOptions: document.authOptions,
     recipient,
     userId: user?.id,
+    authOptions: getRecipientAccessAuthOptions(recipient.id, derivedRecipientAccessAuth),
+    requestMetadata,
   });
 
   let recipientHasAccount: boolean | null = null;
 
+  if (!isDocumentAccessValid && derivedRecipientAccessAuth === DocumentAuth.EMAIL_OTP) {
+    return (
+      <SigningEmailAccessAuthPageView
+        token={token}
+        documentId={document.id}
+        email={recipient.email}
+      />
+    );
+  }
+
+  if (!isDocumentAccessValid && derivedRecipientAccessAuth === DocumentAuth.ACCESS_CODE) {
+    return <SigningAccessCodeAuthPageView token={token} email={recipient.email} />;
+  }
+
   if (!isDocumentAccessValid) {
     recipientHasAccount = await getUserByEmail({ email: recipient?.email })
       .then((user) => !!user)
@@ -122,6 +153,24 @@ export default async function SigningPage({ params: { token } }: SigningPageProp
       : redirect(`/sign/${token}/complete`);
   }
 
+  if (derivedRecipientActionAuth === DocumentAuth.ID_VERIFICATION) {
+    const idVerification = await new IDVerificationService()
+      .checkVerificationStatus(recipient.id)
+      .catch(() => null);
+
+    if (idVerification?.status !== IdVerificationStatus.verified) {
+      return (
+        <SigningIdVerificationPageView
+          token={token}
+          documentId={document.id}
+          email={recipient.email}
+          status={idVerification?.status ?? null}
+          rejectionReason={idVerification?.reason}
+        />
+      );
+    }
+  }
+
   if (documentMeta?.password) {
     const key = DOCUMENSO_ENCRYPTION_KEY;
 
@@ -10,13 +10,18 @@ import { getDocumentAndSenderByToken } from '@documenso/lib/server-only/document
 import { isRecipientAuthorized } from '@documenso/lib/server-only/document/is-recipient-authorized';
 import { getFieldsForToken } from '@documenso/lib/server-only/field/get-fields-for-token';
 import { getRecipientByToken } from '@documenso/lib/server-only/recipient/get-recipient-by-token';
+import { getRecipientAccessAuthOptions } from '@documenso/lib/server-only/recipient/recipient-access-auth-cookie';
+import { DocumentAuth } from '@documenso/lib/types/document-auth';
+import { extractDocumentAuthMethods } from '@documenso/lib/utils/document-auth';
 import { FieldType } from '@documenso/prisma/client';
 import { Badge } from '@documenso/ui/primitives/badge';
 import { Button } from '@documenso/ui/primitives/button';
 
 import { truncateTitle } from '~/helpers/truncate-title';
 
+import { SigningAccessCodeAuthPageView } from '../signing-access-code-auth-page';
 import { SigningAuthPageView } from '../signing-auth-page';
+import { SigningEmailAccessAuthPageView } from '../signing-email-access-auth-page';
 
 export type RejectedSigningPageProps = {
   params: {
@@ -53,13 +58,33 @@ export default async function RejectedSigningPage({ params: { token } }: Rejecte
     return notFound();
   }
 
+  const { derivedRecipientAccessAuth } = extractDocumentAuthMethods({
+    documentAuth: document.authOptions,
+    recipientAuth: recipient.authOptions,
+  });
+
   const isDocumentAccessValid = await isRecipientAuthorized({
     type: 'ACCESS',
     documentAuthOptions: document.authOptions,
     recipient,
     userId: user?.id,
+    authOptions: getRecipientAccessAuthOptions(recipient.id, derivedRecipientAccessAuth),
   });
 
+  if (!isDocumentAccessValid && derivedRecipientAccessAuth === DocumentAuth.EMAIL_OTP) {
+    return (
+      <SigningEmailAccessAuthPageView
+        token={token}
+        documentId={document.id}
+        email={recipient.email}
+      />
+    );
+  }
+
+  if (!isDocumentAccessValid && derivedRecipientAccessAuth === DocumentAuth.ACCESS_CODE) {
+    return <SigningAccessCodeAuthPageView token={token} email={recipient.email} />;
+  }
+
   if (!isDocumentAccessValid) {
     return <SigningAuthPageView email={recipient.email} />;
   }
@@ -20,6 +20,7 @@ export type SignDialogProps = {
   isSubmitting: boolean;
   documentTitle: string;
   fields: Field[];
+  documentFields?: Field[];
   fieldsValidated: () => void | Promise<void>;
   onSignatureComplete: () => void | Promise<void>;
   role: RecipientRole;
@@ -30,6 +31,7 @@ export const SignDialog = ({
   isSubmitting,
   documentTitle,
   fields,
+  documentFields = fields,
   fieldsValidated,
   onSignatureComplete,
   role,
@@ -37,7 +39,10 @@ export const SignDialog = ({
 }: SignDialogProps) => {
   const [showDialog, setShowDialog] = useState(false);
 
-  const isComplete = useMemo(() => !fieldsContainUnsignedRequiredField(fields), [fields]);
+  const isComplete = useMemo(
+    () => !fieldsContainUnsignedRequiredField(fields, documentFields),
+    [fields, documentFields],
+  );
 
   const handleOpenChange = (open: boolean) => {
     if (isSubmitting || !isComplete) {
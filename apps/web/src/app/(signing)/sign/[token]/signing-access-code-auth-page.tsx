@@ -0,0 +1,136 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+
+import { DocumentAuth } from '@documenso/lib/types/document-auth';
+import { Alert, AlertDescription } from '@documenso/ui/primitives/alert';
+import { Button } from '@documenso/ui/primitives/button';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@documenso/ui/primitives/form/form';
+import { Input } from '@documenso/ui/primitives/input';
+
+import { verifyAccessAuth } from './verify-access-auth.action';
+
+export type SigningAccessCodeAuthPageViewProps = {
+  token: string;
+  email: string;
+};
+
+const ZAccessCodeAuthFormSchema = z.object({
+  code: z.string().trim().min(1, { message: 'Access code is required' }),
+});
+
+type TAccessCodeAuthFormSchema = z.infer<typeof ZAccessCodeAuthFormSchema>;
+
+export const SigningAccessCodeAuthPageView = ({
+  token,
+  email,
+}: SigningAccessCodeAuthPageViewProps) => {
+  const { _ } = useLingui();
+
+  const router = useRouter();
+
+  const [hasFailed, setHasFailed] = useState(false);
+
+  const form = useForm<TAccessCodeAuthFormSchema>({
+    resolver: zodResolver(ZAccessCodeAuthFormSchema),
+    defaultValues: {
+      code: '',
+    },
+  });
+
+  const onFormSubmit = async ({ code }: TAccessCodeAuthFormSchema) => {
+    setHasFailed(false);
+
+    const { success } = await verifyAccessAuth({
+      token,
+      accessAuth: {
+        type: DocumentAuth.ACCESS_CODE,
+        code,
+      },
+    });
+
+    if (!success) {
+      setHasFailed(true);
+      form.reset({ code: '' });
+      return;
+    }
+
+    router.refresh();
+  };
+
+  return (
+    <div className="mx-auto flex h-[70vh] w-full max-w-md flex-col items-center justify-center">
+      <div className="w-full">
+        <h1 className="text-3xl font-semibold">
+          <Trans>Access code required</Trans>
+        </h1>
+
+        <p className="text-muted-foreground mt-2 text-sm">
+          <Trans>
+            The sender has protected this document for <strong>{email}</strong> with an access code.
+            Enter the code they shared with you to continue.
+          </Trans>
+        </p>
+
+        <Form {...form}>
+          <form className="mt-4" onSubmit={form.handleSubmit(onFormSubmit)}>
+            <fieldset className="space-y-4" disabled={form.formState.isSubmitting}>
+              <FormField
+                control={form.control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel required>
+                      <Trans>Access code</Trans>
+                    </FormLabel>
+
+                    <FormControl>
+                      <Input
+                        type="password"
+                        autoComplete="off"
+                        placeholder={_(msg`Enter your access code`)}
+                        {...field}
+                      />
+                    </FormControl>
+
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {hasFailed && (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    <Trans>
+                      The access code is incorrect. Access is temporarily locked after too many
+                      failed attempts.
+                    </Trans>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <Button type="submit" className="w-full" loading={form.formState.isSubmitting}>
+                <Trans>Continue</Trans>
+              </Button>
+            </fieldset>
+          </form>
+        </Form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Trans } from '@lingui/macro';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+
+import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
+import { DocumentAuth } from '@documenso/lib/types/document-auth';
+import { trpc } from '@documenso/trpc/react';
+import { Alert, AlertDescription } from '@documenso/ui/primitives/alert';
+import { Button } from '@documenso/ui/primitives/button';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@documenso/ui/primitives/form/form';
+import { PinInput, PinInputGroup, PinInputSlot } from '@documenso/ui/primitives/pin-input';
+
+import { verifyAccessAuth } from './verify-access-auth.action';
+
+export type SigningEmailAccessAuthPageViewProps = {
+  token: string;
+  documentId: number;
+  email: string;
+};
+
+const ZEmailAccessAuthFormSchema = z.object({
+  code: z.string().length(6, { message: 'Code must be 6 characters long' }),
+});
+
+type TEmailAccessAuthFormSchema = z.infer<typeof ZEmailAccessAuthFormSchema>;
+
+export const SigningEmailAccessAuthPageView = ({
+  token,
+  documentId,
+  email,
+}: SigningEmailAccessAuthPageViewProps) => {
+  const router = useRouter();
+
+  const [isCodeSent, setIsCodeSent] = useState(false);
+  const [formErrorCode, setFormErrorCode] = useState<string | null>(null);
+
+  const form = useForm<TEmailAccessAuthFormSchema>({
+    resolver: zodResolver(ZEmailAccessAuthFormSchema),
+    defaultValues: {
+      code: '',
+    },
+  });
+
+  const { mutateAsync: sendEmailVerificationCode, isPending: isSendingEmailVerificationCode } =
+    trpc.recipient.sendEmailVerificationCode.useMutation();
+
+  const onSendCode = async () => {
+    try {
+      setFormErrorCode(null);
+
+      await sendEmailVerificationCode({
+        token,
+        documentId,
+      });
+
+      setIsCodeSent(true);
+    } catch (err) {
+      const error = AppError.parseError(err);
+      setFormErrorCode(error.code);
+    }
+  };
+
+  const onFormSubmit = async ({ code }: TEmailAccessAuthFormSchema) => {
+    setFormErrorCode(null);
+
+    const { success } = await verifyAccessAuth({
+      token,
+      accessAuth: {
+        type: DocumentAuth.EMAIL_OTP,
+        code,
+      },
+    });
+
+    if (!success) {
+      setFormErrorCode(AppErrorCode.UNAUTHORIZED);
+      return;
+    }
+
+    router.refresh();
+  };
+
+  return (
+    <div className="mx-auto flex h-[70vh] w-full max-w-md flex-col items-center justify-center">
+      <div className="w-full">
+        <h1 className="text-3xl font-semibold">
+          <Trans>Verify your email</Trans>
+        </h1>
+
+        <p className="text-muted-foreground mt-2 text-sm">
+          {isCodeSent ? (
+            <Trans>
+              We've sent a verification code to <strong>{email}</strong>. Enter it below to view
+              this document.
+            </Trans>
+          ) : (
+            <Trans>
+              To view this document we need to send a verification code to <strong>{email}</strong>.
+            </Trans>
+          )}
+        </p>
+
+        <Form {...form}>
+          <form className="mt-4" onSubmit={form.handleSubmit(onFormSubmit)}>
+            <fieldset className="space-y-4" disabled={form.formState.isSubmitting}>
+              {isCodeSent && (
+                <FormField
+                  control={form.control}
+                  name="code"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel required>
+                        <Trans>Verification code</Trans>
+                      </FormLabel>
+
+                      <FormControl>
+                        <PinInput {...field} value={field.value ?? ''} maxLength={6}>
+                          {Array(6)
+                            .fill(null)
+                            .map((_, i) => (
+                              <PinInputGroup key={i}>
+                                <PinInputSlot index={i} />
+                              </PinInputGroup>
+                            ))}
+                        </PinInput>
+                      </FormControl>
+
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {formErrorCode && (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    {formErrorCode === AppErrorCode.TOO_MANY_REQUESTS ? (
+                      <Trans>Please wait a moment before requesting another code.</Trans>
+                    ) : (
+                      <Trans>
+                        We were unable to verify your details. Please try again or contact support
+                      </Trans>
+                    )}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="flex flex-col gap-2">
+                {isCodeSent && (
+                  <Button type="submit" loading={form.formState.isSubmitting}>
+                    <Trans>Continue</Trans>
+                  </Button>
+                )}
+
+                <Button
+                  type="button"
+                  variant={isCodeSent ? 'outline' : 'default'}
+                  loading={isSendingEmailVerificationCode}
+                  onClick={onSendCode}
+                >
+                  {isCodeSent ? <Trans>Resend code</Trans> : <Trans>Send code</Trans>}
+                </Button>
+              </div>
+            </fieldset>
+          </form>
+        </Form>
+      </div>
+    </div>
+  );
+};
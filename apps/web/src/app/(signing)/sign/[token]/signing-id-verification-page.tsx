@@ -0,0 +1,281 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+
+import { AppError } from '@documenso/lib/errors/app-error';
+import {
+  IdVerificationDocumentType,
+  IdVerificationStatus,
+  ZIdVerificationDocumentTypeSchema,
+} from '@documenso/lib/types/id-verification';
+import type { TIdVerificationStatus } from '@documenso/lib/types/id-verification';
+import { base64 } from '@documenso/lib/universal/base64';
+import { trpc } from '@documenso/trpc/react';
+import { Alert, AlertDescription, AlertTitle } from '@documenso/ui/primitives/alert';
+import { Button } from '@documenso/ui/primitives/button';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@documenso/ui/primitives/form/form';
+import { Input } from '@documenso/ui/primitives/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@documenso/ui/primitives/select';
+
+const MAXIMUM_ID_IMAGE_SIZE = 5 * 1024 * 1024; // 5MB
+
+const ZIdImageFileSchema = z
+  .instanceof(File, { message: 'Please select an image' })
+  .refine((file) => file.size <= MAXIMUM_ID_IMAGE_SIZE, {
+    message: 'Images must be smaller than 5MB',
+  });
+
+const ZIdVerificationFormSchema = z
+  .object({
+    documentType: ZIdVerificationDocumentTypeSchema,
+    frontImage: ZIdImageFileSchema,
+    backImage: ZIdImageFileSchema.optional(),
+  })
+  .refine(
+    ({ documentType, backImage }) =>
+      documentType === IdVerificationDocumentType.passport || backImage !== undefined,
+    {
+      message: 'Please select an image of the back of your document',
+      path: ['backImage'],
+    },
+  );
+
+type TIdVerificationFormSchema = z.infer<typeof ZIdVerificationFormSchema>;
+
+const readFileAsBase64 = async (file: File) => {
+  const buffer = await file.arrayBuffer();
+
+  return base64.encode(new Uint8Array(buffer));
+};
+
+export type SigningIdVerificationPageViewProps = {
+  token: string;
+  documentId: number;
+  email: string;
+  status: TIdVerificationStatus | null;
+  rejectionReason?: string | null;
+};
+
+export const SigningIdVerificationPageView = ({
+  token,
+  documentId,
+  email,
+  status,
+  rejectionReason,
+}: SigningIdVerificationPageViewProps) => {
+  const { _ } = useLingui();
+
+  const router = useRouter();
+
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const { mutateAsync: submitIdVerification } = trpc.recipient.submitIdVerification.useMutation();
+
+  const form = useForm<TIdVerificationFormSchema>({
+    resolver: zodResolver(ZIdVerificationFormSchema),
+    defaultValues: {
+      documentType: IdVerificationDocumentType.passport,
+    },
+  });
+
+  const documentType = form.watch('documentType');
+
+  const onFormSubmit = async ({
+    documentType,
+    frontImage,
+    backImage,
+  }: TIdVerificationFormSchema) => {
+    try {
+      setFormError(null);
+
+      await submitIdVerification({
+        token,
+        documentId,
+        documentType,
+        frontImage: await readFileAsBase64(frontImage),
+        backImage:
+          backImage && documentType !== IdVerificationDocumentType.passport
+            ? await readFileAsBase64(backImage)
+            : undefined,
+      });
+
+      router.refresh();
+    } catch (err) {
+      const error = AppError.parseError(err);
+
+      setFormError(
+        error.userMessage ?? _(msg`We were unable to submit your document. Please try again.`),
+      );
+    }
+  };
+
+  if (status === IdVerificationStatus.pending) {
+    return (
+      <div className="mx-auto flex h-[70vh] w-full max-w-md flex-col items-center justify-center">
+        <div className="w-full">
+          <h1 className="text-3xl font-semibold">
+            <Trans>Verification in progress</Trans>
+          </h1>
+
+          <p className="text-muted-foreground mt-2 text-sm">
+            <Trans>
+              Your identity document has been submitted and is waiting to be reviewed by the sender.
+              You will be able to sign the document once <strong>{email}</strong> has been verified.
+            </Trans>
+          </p>
+
+          <Button className="mt-4 w-full" variant="outline" onClick={() => router.refresh()}>
+            <Trans>Check again</Trans>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto flex min-h-[70vh] w-full max-w-md flex-col items-center justify-center">
+      <div className="w-full">
+        <h1 className="text-3xl font-semibold">
+          <Trans>Verify your identity</Trans>
+        </h1>
+
+        <p className="text-muted-foreground mt-2 text-sm">
+          <Trans>
+            The sender requires <strong>{email}</strong> to verify their identity before signing.
+            Upload a clear photo of your identity document to continue.
+          </Trans>
+        </p>
+
+        {status === IdVerificationStatus.rejected && (
+          <Alert variant="destructive" className="mt-4">
+            <AlertTitle>
+              <Trans>Your previous document was rejected</Trans>
+            </AlertTitle>
+            <AlertDescription>
+              {rejectionReason || <Trans>Please upload a new document to try again.</Trans>}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Form {...form}>
+          <form className="mt-4" onSubmit={form.handleSubmit(onFormSubmit)}>
+            <fieldset className="space-y-4" disabled={form.formState.isSubmitting}>
+              <FormField
+                control={form.control}
+                name="documentType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel required>
+                      <Trans>Document type</Trans>
+                    </FormLabel>
+
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+
+                      <SelectContent>
+                        <SelectItem value={IdVerificationDocumentType.passport}>
+                          <Trans>Passport</Trans>
+                        </SelectItem>
+                        <SelectItem value={IdVerificationDocumentType.driver_license}>
+                          <Trans>Driver's license</Trans>
+                        </SelectItem>
+                        <SelectItem value={IdVerificationDocumentType.national_id}>
+                          <Trans>National ID card</Trans>
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="frontImage"
+                render={({ field: { onChange, value: _value, ...field } }) => (
+                  <FormItem>
+                    <FormLabel required>
+                      <Trans>Front of document</Trans>
+                    </FormLabel>
+
+                    <FormControl>
+                      <Input
+                        type="file"
+                        accept="image/jpeg,image/png,image/webp"
+                        onChange={(e) => onChange(e.target.files?.[0])}
+                        {...field}
+                      />
+                    </FormControl>
+
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {documentType !== IdVerificationDocumentType.passport && (
+                <FormField
+                  control={form.control}
+                  name="backImage"
+                  render={({ field: { onChange, value: _value, ...field } }) => (
+                    <FormItem>
+                      <FormLabel required>
+                        <Trans>Back of document</Trans>
+                      </FormLabel>
+
+                      <FormControl>
+                        <Input
+                          type="file"
+                          accept="image/jpeg,image/png,image/webp"
+                          onChange={(e) => onChange(e.target.files?.[0])}
+                          {...field}
+                        />
+                      </FormControl>
+
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {formError && (
+                <Alert variant="destructive">
+                  <AlertDescription>{formError}</AlertDescription>
+                </Alert>
+              )}
+
+              <Button type="submit" className="w-full" loading={form.formState.isSubmitting}>
+                <Trans>Submit for verification</Trans>
+              </Button>
+            </fieldset>
+          </form>
+        </Form>
+      </div>
+    </div>
+  );
+};
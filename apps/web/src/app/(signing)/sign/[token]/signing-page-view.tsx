@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 
 import { Trans } from '@lingui/macro';
 import { match } from 'ts-pattern';
@@ -17,6 +17,7 @@ import {
   ZTextFieldMeta,
 } from '@documenso/lib/types/field-meta';
 import type { CompletedField } from '@documenso/lib/types/fields';
+import { isFieldVisible } from '@documenso/lib/utils/field-conditions';
 import type { Field } from '@documenso/prisma/client';
 import { FieldType, RecipientRole } from '@documenso/prisma/client';
 import type { FieldWithSignatureAndFieldMeta } from '@documenso/prisma/types/field-with-signature-and-fieldmeta';
@@ -33,6 +34,7 @@ import { DateField } from './date-field';
 import { DropdownField } from './dropdown-field';
 import { EmailField } from './email-field';
 import { SigningForm } from './form';
+import { FormulaField } from './formula-field';
 import { InitialsField } from './initials-field';
 import { NameField } from './name-field';
 import { NumberField } from './number-field';
@@ -63,6 +65,19 @@ export const SigningPageView = ({
 
   const [selectedSignerId, setSelectedSignerId] = useState<number | null>(allRecipients?.[0]?.id);
 
+  // Conditional logic can depend on fields that have already been completed by other recipients.
+  const documentFields = useMemo(() => [...fields, ...completedFields], [fields, completedFields]);
+
+  const visibleFields = useMemo(
+    () => fields.filter((field) => isFieldVisible(field, documentFields)),
+    [fields, documentFields],
+  );
+
+  const visibleCompletedFields = useMemo(
+    () => completedFields.filter((field) => isFieldVisible(field, documentFields)),
+    [completedFields, documentFields],
+  );
+
   const shouldUseTeamDetails =
     document.teamId && document.team?.teamGlobalSettings?.includeSenderDetails === false;
 
@@ -155,7 +170,8 @@ export const SigningPageView = ({
             <SigningForm
               document={document}
               recipient={recipient}
-              fields={fields}
+              fields={visibleFields}
+              documentFields={documentFields}
               redirectUrl={documentMeta?.redirectUrl}
               isRecipientsTurn={isRecipientsTurn}
               allRecipients={allRecipients}
@@ -164,14 +180,14 @@ export const SigningPageView = ({
           </div>
         </div>
 
-        <DocumentReadOnlyFields fields={completedFields} />
+        <DocumentReadOnlyFields fields={visibleCompletedFields} />
 
         {recipient.role !== RecipientRole.ASSISTANT && (
-          <AutoSign recipient={recipient} fields={fields} />
+          <AutoSign recipient={recipient} fields={visibleFields} />
         )}
 
         <ElementVisible target={PDF_VIEWER_PAGE_SELECTOR}>
-          {fields
+          {visibleFields
             .filter(
               (field) =>
                 recipient.role !== RecipientRole.ASSISTANT ||
@@ -232,6 +248,15 @@ export const SigningPageView = ({
                   };
                   return <DropdownField key={field.id} field={fieldWithMeta} />;
                 })
+                .with(FieldType.FORMULA, () => (
+                  <FormulaField
+                    key={field.id}
+                    field={field}
+                    documentFields={documentFields}
+                    dateFormat={documentMeta?.dateFormat}
+                    timezone={documentMeta?.timezone}
+                  />
+                ))
                 .otherwise(() => null),
             )}
         </ElementVisible>
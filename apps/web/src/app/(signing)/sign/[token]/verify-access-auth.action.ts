@@ -0,0 +1,58 @@
+'use server';
+
+import { headers } from 'next/headers';
+
+import {
+  getRateLimitRecipientTokenKey,
+  signingRateLimiter,
+} from '@documenso/ee/server-only/middleware/rate-limiter';
+import { getDocumentAndRecipientByToken } from '@documenso/lib/server-only/document/get-document-by-token';
+import { isRecipientAuthorized } from '@documenso/lib/server-only/document/is-recipient-authorized';
+import { setRecipientAccessAuthCookie } from '@documenso/lib/server-only/recipient/recipient-access-auth-cookie';
+import type { TRecipientAccessAuth } from '@documenso/lib/types/document-auth';
+import { ZRecipientAccessAuthSchema } from '@documenso/lib/types/document-auth';
+import { extractNextHeaderRequestMetadata } from '@documenso/lib/universal/extract-request-metadata';
+
+export type VerifyAccessAuthOptions = {
+  token: string;
+  accessAuth: TRecipientAccessAuth;
+};
+
+export const verifyAccessAuth = async ({ token, accessAuth }: VerifyAccessAuthOptions) => {
+  const parsedAccessAuth = ZRecipientAccessAuthSchema.parse(accessAuth);
+
+  const { isLimited } = await signingRateLimiter.check(getRateLimitRecipientTokenKey(token));
+
+  if (isLimited) {
+    return { success: false };
+  }
+
+  const document = await getDocumentAndRecipientByToken({
+    token,
+    requireAccessAuth: false,
+  }).catch(() => null);
+
+  const recipient = document?.recipients[0];
+
+  if (!document || !recipient) {
+    return { success: false };
+  }
+
+  const requestMetadata = extractNextHeaderRequestMetadata(Object.fromEntries(headers().entries()));
+
+  const isAccessValid = await isRecipientAuthorized({
+    type: 'ACCESS',
+    documentAuthOptions: document.authOptions,
+    recipient,
+    authOptions: parsedAccessAuth,
+    requestMetadata,
+  });
+
+  if (!isAccessValid) {
+    return { success: false };
+  }
+
+  setRecipientAccessAuthCookie(recipient.id, parsedAccessAuth);
+
+  return { success: true };
+};
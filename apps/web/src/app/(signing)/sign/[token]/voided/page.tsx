@@ -0,0 +1,137 @@
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+
+import { Trans } from '@lingui/macro';
+import { XCircle } from 'lucide-react';
+
+import { setupI18nSSR } from '@documenso/lib/client-only/providers/i18n.server';
+import { getServerComponentSession } from '@documenso/lib/next-auth/get-server-component-session';
+import { getDocumentAndSenderByToken } from '@documenso/lib/server-only/document/get-document-by-token';
+import { isRecipientAuthorized } from '@documenso/lib/server-only/document/is-recipient-authorized';
+import { getRecipientByToken } from '@documenso/lib/server-only/recipient/get-recipient-by-token';
+import { getRecipientAccessAuthOptions } from '@documenso/lib/server-only/recipient/recipient-access-auth-cookie';
+import { DocumentAuth } from '@documenso/lib/types/document-auth';
+import { extractDocumentAuthMethods } from '@documenso/lib/utils/document-auth';
+import { DocumentStatus } from '@documenso/prisma/client';
+import { Badge } from '@documenso/ui/primitives/badge';
+import { Button } from '@documenso/ui/primitives/button';
+
+import { truncateTitle } from '~/helpers/truncate-title';
+
+import { SigningAccessCodeAuthPageView } from '../signing-access-code-auth-page';
+import { SigningAuthPageView } from '../signing-auth-page';
+import { SigningEmailAccessAuthPageView } from '../signing-email-access-auth-page';
+
+export type VoidedSigningPageProps = {
+  params: {
+    token?: string;
+  };
+};
+
+export default async function VoidedSigningPage({ params: { token } }: VoidedSigningPageProps) {
+  await setupI18nSSR();
+
+  if (!token) {
+    return notFound();
+  }
+
+  const { user } = await getServerComponentSession();
+
+  const [document, recipient] = await Promise.all([
+    getDocumentAndSenderByToken({
+      token,
+      requireAccessAuth: false,
+    }).catch(() => null),
+    getRecipientByToken({ token }).catch(() => null),
+  ]);
+
+  if (!document || !recipient) {
+    return notFound();
+  }
+
+  if (document.status !== DocumentStatus.VOIDED) {
+    return redirect(`/sign/${token}`);
+  }
+
+  const truncatedTitle = truncateTitle(document.title);
+
+  const senderName = document.user.name || document.user.email;
+
+  const voidReason = document.voidReason;
+
+  const { derivedRecipientAccessAuth } = extractDocumentAuthMethods({
+    documentAuth: document.authOptions,
+    recipientAuth: recipient.authOptions,
+  });
+
+  const isDocumentAccessValid = await isRecipientAuthorized({
+    type: 'ACCESS',
+    documentAuthOptions: document.authOptions,
+    recipient,
+    userId: user?.id,
+    authOptions: getRecipientAccessAuthOptions(recipient.id, derivedRecipientAccessAuth),
+  });
+
+  if (!isDocumentAccessValid && derivedRecipientAccessAuth === DocumentAuth.EMAIL_OTP) {
+    return (
+      <SigningEmailAccessAuthPageView
+        token={token}
+        documentId={document.id}
+        email={recipient.email}
+      />
+    );
+  }
+
+  if (!isDocumentAccessValid && derivedRecipientAccessAuth === DocumentAuth.ACCESS_CODE) {
+    return <SigningAccessCodeAuthPageView token={token} email={recipient.email} />;
+  }
+
+  if (!isDocumentAccessValid) {
+    return <SigningAuthPageView email={recipient.email} />;
+  }
+
+  return (
+    <div className="flex flex-col items-center pt-24 lg:pt-36 xl:pt-44">
+      <Badge variant="neutral" size="default" className="mb-6 rounded-xl border bg-transparent">
+        {truncatedTitle}
+      </Badge>
+
+      <div className="flex flex-col items-center">
+        <div className="flex items-center gap-x-4">
+          <XCircle className="text-destructive h-10 w-10" />
+
+          <h2 className="max-w-[35ch] text-center text-2xl font-semibold leading-normal md:text-3xl lg:text-4xl">
+            <Trans>Document Voided</Trans>
+          </h2>
+        </div>
+
+        <div className="text-destructive mt-4 flex items-center text-center text-sm">
+          <Trans>This document can no longer be signed</Trans>
+        </div>
+
+        <p className="text-muted-foreground mt-6 max-w-[60ch] text-center text-sm">
+          <Trans>
+            {senderName} has voided this document. Any signatures that have already been added are
+            no longer valid.
+          </Trans>
+        </p>
+
+        {voidReason && (
+          <p className="text-muted-foreground mt-2 max-w-[60ch] text-center text-sm">
+            <Trans>Reason: {voidReason}</Trans>
+          </p>
+        )}
+
+        <p className="text-muted-foreground mt-2 max-w-[60ch] text-center text-sm">
+          <Trans>No further action is required from you at this time.</Trans>
+        </p>
+
+        {user && (
+          <Button className="mt-6" asChild>
+            <Link href={`/`}>Return Home</Link>
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
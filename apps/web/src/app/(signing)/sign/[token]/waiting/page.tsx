@@ -11,7 +11,7 @@ import { getRecipientByToken } from '@documenso/lib/server-only/recipient/get-re
 import { getTeamById } from '@documenso/lib/server-only/team/get-team';
 import { formatDocumentsPath } from '@documenso/lib/utils/teams';
 import type { Team } from '@documenso/prisma/client';
-import { DocumentStatus } from '@documenso/prisma/client';
+import { DocumentStatus, SigningStatus } from '@documenso/prisma/client';
 import { Button } from '@documenso/ui/primitives/button';
 
 type WaitingForTurnToSignPageProps = {
@@ -42,6 +42,10 @@ export default async function WaitingForTurnToSignPage({
     return redirect(`/sign/${token}/complete`);
   }
 
+  if (document.status === DocumentStatus.VOIDED) {
+    return redirect(`/sign/${token}/voided`);
+  }
+
   let isOwnerOrTeamMember = false;
 
   let team: Team | null = null;
@@ -66,20 +70,36 @@ export default async function WaitingForTurnToSignPage({
   return (
     <div className="relative flex flex-col items-center justify-center px-4 py-12 sm:px-6 lg:px-8">
       <div className="w-full max-w-md text-center">
-        <h2 className="tracking-tigh text-3xl font-bold">
-          <Trans>Waiting for Your Turn</Trans>
-        </h2>
-
-        <p className="text-muted-foreground mt-2 text-sm">
-          <Trans>
-            It's currently not your turn to sign. You will receive an email with instructions once
-            it's your turn to sign the document.
-          </Trans>
-        </p>
-
-        <p className="text-muted-foreground mt-4 text-sm">
-          <Trans>Please check your email for updates.</Trans>
-        </p>
+        {recipient.signingStatus === SigningStatus.SKIPPED ? (
+          <>
+            <h2 className="tracking-tigh text-3xl font-bold">
+              <Trans>No Action Required</Trans>
+            </h2>
+
+            <p className="text-muted-foreground mt-2 text-sm">
+              <Trans>
+                Your signature is no longer required for this document based on its signing order.
+              </Trans>
+            </p>
+          </>
+        ) : (
+          <>
+            <h2 className="tracking-tigh text-3xl font-bold">
+              <Trans>Waiting for Your Turn</Trans>
+            </h2>
+
+            <p className="text-muted-foreground mt-2 text-sm">
+              <Trans>
+                It's currently not your turn to sign. You will receive an email with instructions
+                once it's your turn to sign the document.
+              </Trans>
+            </p>
+
+            <p className="text-muted-foreground mt-4 text-sm">
+              <Trans>Please check your email for updates.</Trans>
+            </p>
+          </>
+        )}
 
         <div className="mt-4">
           {isOwnerOrTeamMember ? (
@@ -0,0 +1,23 @@
+import { setupI18nSSR } from '@documenso/lib/client-only/providers/i18n.server';
+import { getRequiredServerComponentSession } from '@documenso/lib/next-auth/get-server-component-session';
+import { getTeamByUrl } from '@documenso/lib/server-only/team/get-team';
+
+import { IdVerificationsPageView } from '~/app/(dashboard)/documents/id-verifications/id-verifications-page-view';
+
+export type TeamsIdVerificationsPageProps = {
+  params: {
+    teamUrl: string;
+  };
+};
+
+export default async function TeamsIdVerificationsPage({ params }: TeamsIdVerificationsPageProps) {
+  await setupI18nSSR();
+
+  const { teamUrl } = params;
+
+  const { user } = await getRequiredServerComponentSession();
+
+  const team = await getTeamByUrl({ userId: user.id, teamUrl });
+
+  return <IdVerificationsPageView teamUrl={team.url} />;
+}
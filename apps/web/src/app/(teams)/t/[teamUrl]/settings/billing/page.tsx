@@ -8,7 +8,8 @@ import { setupI18nSSR } from '@documenso/lib/client-only/providers/i18n.server';
 import { getRequiredServerComponentSession } from '@documenso/lib/next-auth/get-server-component-session';
 import { stripe } from '@documenso/lib/server-only/stripe';
 import { getTeamByUrl } from '@documenso/lib/server-only/team/get-team';
-import { canExecuteTeamAction } from '@documenso/lib/utils/teams';
+import { canExecuteTeamAction, hasTeamPermission } from '@documenso/lib/utils/teams';
+import { TeamPermission } from '@documenso/prisma/client';
 import { Card, CardContent } from '@documenso/ui/primitives/card';
 
 import { SettingsHeader } from '~/components/(dashboard)/settings/layout/header';
@@ -32,6 +33,16 @@ export default async function TeamsSettingBillingPage({ params }: TeamsSettingsB
 
   const canManageBilling = canExecuteTeamAction('MANAGE_BILLING', team.currentTeamMember.role);
 
+  if (!hasTeamPermission(team.currentTeamMember, TeamPermission.VIEW_BILLING)) {
+    return (
+      <SettingsHeader
+        title={_(msg`Billing`)}
+        subtitle={_(msg`You do not have the required permissions to view this page.`)}
+        hideDivider
+      />
+    );
+  }
+
   let teamSubscription: Stripe.Subscription | null = null;
 
   if (team.subscription) {
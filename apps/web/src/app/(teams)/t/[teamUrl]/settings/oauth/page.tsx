@@ -0,0 +1,127 @@
+'use client';
+
+import { Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+import { Loader } from 'lucide-react';
+import { DateTime } from 'luxon';
+
+import { API_TOKEN_SCOPE_MAP } from '@documenso/lib/constants/api-token-scopes';
+import { NEXT_PUBLIC_WEBAPP_URL } from '@documenso/lib/constants/app';
+import { hasTeamPermission } from '@documenso/lib/utils/teams';
+import { TeamPermission } from '@documenso/prisma/client';
+import { trpc } from '@documenso/trpc/react';
+import { CopyTextButton } from '@documenso/ui/components/common/copy-text-button';
+
+import { SettingsHeader } from '~/components/(dashboard)/settings/layout/header';
+import { CreateTeamOAuthClientDialog } from '~/components/(teams)/dialogs/create-team-oauth-client-dialog';
+import { DeleteTeamOAuthClientDialog } from '~/components/(teams)/dialogs/delete-team-oauth-client-dialog';
+import { useCurrentTeam } from '~/providers/team';
+
+export default function TeamsSettingsOAuthPage() {
+  const { _, i18n } = useLingui();
+
+  const team = useCurrentTeam();
+
+  const canManageApiTokens =
+    !!team.currentTeamMember &&
+    hasTeamPermission(team.currentTeamMember, TeamPermission.MANAGE_API_TOKENS);
+
+  const { data: clients, isLoading } = trpc.oauth.getTeamOAuthClients.useQuery(
+    {
+      teamId: team.id,
+    },
+    {
+      enabled: canManageApiTokens,
+    },
+  );
+
+  if (!canManageApiTokens) {
+    return (
+      <SettingsHeader
+        title={_(msg`OAuth Applications`)}
+        subtitle={_(msg`You do not have the required permissions to view this page.`)}
+        hideDivider
+      />
+    );
+  }
+
+  const endpoints = [
+    { label: msg`Authorization URL`, value: `${NEXT_PUBLIC_WEBAPP_URL()}/oauth/authorize` },
+    { label: msg`Token URL`, value: `${NEXT_PUBLIC_WEBAPP_URL()}/api/oauth/token` },
+  ];
+
+  return (
+    <div>
+      <SettingsHeader
+        title={_(msg`OAuth Applications`)}
+        subtitle={_(
+          msg`Register applications which act on behalf of team members using the authorization code flow with PKCE.`,
+        )}
+      >
+        <CreateTeamOAuthClientDialog teamId={team.id} />
+      </SettingsHeader>
+
+      <dl className="mb-8 max-w-xl space-y-3 text-sm">
+        {endpoints.map(({ label, value }) => (
+          <div key={value}>
+            <dt className="font-medium">{_(label)}</dt>
+            <dd className="text-muted-foreground mt-1 flex items-center justify-between gap-x-2">
+              <code className="bg-muted break-all rounded px-2 py-1 text-xs">{value}</code>
+              <CopyTextButton value={value} />
+            </dd>
+          </div>
+        ))}
+      </dl>
+
+      {isLoading && (
+        <div className="absolute inset-0 flex items-center justify-center bg-white/50">
+          <Loader className="h-8 w-8 animate-spin text-gray-500" />
+        </div>
+      )}
+
+      {clients && clients.length === 0 && (
+        <div className="mb-4">
+          <p className="text-muted-foreground mt-2 text-sm italic">
+            <Trans>Your applications will be shown here once you register them.</Trans>
+          </p>
+        </div>
+      )}
+
+      {clients && clients.length > 0 && (
+        <div className="flex max-w-xl flex-col gap-y-4">
+          {clients.map((client) => (
+            <div key={client.id} className="border-border rounded-lg border p-4">
+              <div className="flex flex-col gap-x-4 sm:flex-row sm:items-center sm:justify-between">
+                <div className="min-w-0">
+                  <h5 className="text-base">{client.name}</h5>
+
+                  <div className="mt-1 truncate font-mono text-xs">{client.clientId}</div>
+
+                  <p className="text-muted-foreground mt-2 break-all text-xs">
+                    {client.redirectUris.join(', ')}
+                  </p>
+
+                  <p className="text-muted-foreground mt-1 font-mono text-xs">
+                    {client.scopes.map((scope) => API_TOKEN_SCOPE_MAP[scope].value).join(', ')}
+                  </p>
+
+                  <p className="text-muted-foreground mt-2 text-xs">
+                    <Trans>Created on {i18n.date(client.createdAt, DateTime.DATETIME_FULL)}</Trans>
+                  </p>
+                </div>
+
+                <div className="mt-4 flex-shrink-0 sm:mt-0">
+                  <DeleteTeamOAuthClientDialog
+                    teamId={team.id}
+                    clientId={client.id}
+                    clientName={client.name}
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
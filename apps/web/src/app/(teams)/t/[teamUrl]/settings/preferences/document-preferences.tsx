@@ -12,9 +12,14 @@ import {
   SUPPORTED_LANGUAGE_CODES,
   isValidLanguageCode,
 } from '@documenso/lib/constants/i18n';
+import {
+  ZDocumentReminderSettingsSchema,
+  parseDocumentReminderSettings,
+} from '@documenso/lib/types/document-reminders';
 import type { Team, TeamGlobalSettings } from '@documenso/prisma/client';
 import { DocumentVisibility } from '@documenso/prisma/client';
 import { trpc } from '@documenso/trpc/react';
+import { DocumentReminderSettings } from '@documenso/ui/components/document/document-reminder-settings';
 import { Alert } from '@documenso/ui/primitives/alert';
 import { Button } from '@documenso/ui/primitives/button';
 import {
@@ -24,7 +29,9 @@ import {
   FormField,
   FormItem,
   FormLabel,
+  FormMessage,
 } from '@documenso/ui/primitives/form/form';
+import { Input } from '@documenso/ui/primitives/input';
 import {
   Select,
   SelectContent,
@@ -41,6 +48,8 @@ const ZTeamDocumentPreferencesFormSchema = z.object({
   includeSenderDetails: z.boolean(),
   typedSignatureEnabled: z.boolean(),
   includeSigningCertificate: z.boolean(),
+  reminderSettings: ZDocumentReminderSettingsSchema,
+  documentExpiryDays: z.number().int().min(1).max(365).nullable(),
 });
 
 type TTeamDocumentPreferencesFormSchema = z.infer<typeof ZTeamDocumentPreferencesFormSchema>;
@@ -72,6 +81,8 @@ export const TeamDocumentPreferencesForm = ({
       includeSenderDetails: settings?.includeSenderDetails ?? false,
       typedSignatureEnabled: settings?.typedSignatureEnabled ?? true,
       includeSigningCertificate: settings?.includeSigningCertificate ?? true,
+      reminderSettings: parseDocumentReminderSettings(settings?.reminderSettings),
+      documentExpiryDays: settings?.documentExpiryDays ?? null,
     },
     resolver: zodResolver(ZTeamDocumentPreferencesFormSchema),
   });
@@ -86,6 +97,8 @@ export const TeamDocumentPreferencesForm = ({
         includeSenderDetails,
         includeSigningCertificate,
         typedSignatureEnabled,
+        reminderSettings,
+        documentExpiryDays,
       } = data;
 
       await updateTeamDocumentPreferences({
@@ -96,6 +109,8 @@ export const TeamDocumentPreferencesForm = ({
           includeSenderDetails,
           typedSignatureEnabled,
           includeSigningCertificate,
+          reminderSettings,
+          documentExpiryDays,
         },
       });
 
@@ -300,6 +315,71 @@ export const TeamDocumentPreferencesForm = ({
             )}
           />
 
+          <FormField
+            control={form.control}
+            name="reminderSettings"
+            render={({ field }) => (
+              <FormItem className="flex-1">
+                <FormLabel>
+                  <Trans>Default Signing Reminders</Trans>
+                </FormLabel>
+
+                <FormControl>
+                  <DocumentReminderSettings
+                    value={field.value}
+                    disabled={field.disabled}
+                    onChange={field.onChange}
+                  />
+                </FormControl>
+
+                <FormDescription>
+                  <Trans>
+                    Controls the reminders that are sent to recipients who have not signed yet. New
+                    documents and templates use these settings unless they are changed while
+                    configuring the document.
+                  </Trans>
+                </FormDescription>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="documentExpiryDays"
+            render={({ field }) => (
+              <FormItem className="flex-1">
+                <FormLabel>
+                  <Trans>Default Document Expiry (days)</Trans>
+                </FormLabel>
+
+                <FormControl>
+                  <Input
+                    type="number"
+                    className="bg-background max-w-[12rem]"
+                    min={1}
+                    max={365}
+                    placeholder={_(msg`Never`)}
+                    {...field}
+                    value={field.value ?? ''}
+                    onChange={(e) =>
+                      field.onChange(e.target.value === '' ? null : Number(e.target.value))
+                    }
+                  />
+                </FormControl>
+
+                <FormDescription>
+                  <Trans>
+                    Documents sent without an expiry date expire this many days after they are sent.
+                    Recipients can no longer sign a document once it has expired. Leave empty for
+                    documents to never expire.
+                  </Trans>
+                </FormDescription>
+
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
           <div className="flex flex-row justify-end space-x-4">
             <Button type="submit" loading={form.formState.isSubmitting}>
               <Trans>Save</Trans>
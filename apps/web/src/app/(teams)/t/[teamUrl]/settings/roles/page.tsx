@@ -0,0 +1,127 @@
+'use client';
+
+import { Plural, Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+import { Loader } from 'lucide-react';
+
+import { TEAM_PERMISSION_MAP } from '@documenso/lib/constants/teams';
+import { canExecuteTeamAction } from '@documenso/lib/utils/teams';
+import { trpc } from '@documenso/trpc/react';
+import { Badge } from '@documenso/ui/primitives/badge';
+import { Button } from '@documenso/ui/primitives/button';
+
+import { SettingsHeader } from '~/components/(dashboard)/settings/layout/header';
+import { DeleteTeamRoleDialog } from '~/components/(teams)/dialogs/delete-team-role-dialog';
+import { TeamRoleDialog } from '~/components/(teams)/dialogs/team-role-dialog';
+import { useCurrentTeam } from '~/providers/team';
+
+export default function TeamsSettingsRolesPage() {
+  const { _ } = useLingui();
+
+  const team = useCurrentTeam();
+
+  const canManageTeamRoles =
+    !!team.currentTeamMember &&
+    canExecuteTeamAction('MANAGE_TEAM_ROLES', team.currentTeamMember.role);
+
+  const { data: teamRoles, isLoading } = trpc.team.getTeamRoles.useQuery(
+    {
+      teamId: team.id,
+    },
+    {
+      enabled: canManageTeamRoles,
+    },
+  );
+
+  if (!canManageTeamRoles) {
+    return (
+      <SettingsHeader
+        title={_(msg`Roles`)}
+        subtitle={_(msg`You do not have the required permissions to view this page.`)}
+        hideDivider
+      />
+    );
+  }
+
+  return (
+    <div>
+      <SettingsHeader
+        title={_(msg`Roles`)}
+        subtitle={_(
+          msg`Create custom roles to control exactly what team members are allowed to do.`,
+        )}
+      >
+        <TeamRoleDialog teamId={team.id} />
+      </SettingsHeader>
+
+      {isLoading && (
+        <div className="absolute inset-0 flex items-center justify-center bg-white/50">
+          <Loader className="h-8 w-8 animate-spin text-gray-500" />
+        </div>
+      )}
+
+      {teamRoles && teamRoles.length === 0 && (
+        <div className="mb-4">
+          <p className="text-muted-foreground mt-2 text-sm italic">
+            <Trans>
+              You have no custom roles yet. Members use the default permissions of their role until
+              you assign them a custom role.
+            </Trans>
+          </p>
+        </div>
+      )}
+
+      {teamRoles && teamRoles.length > 0 && (
+        <div className="mt-4 flex max-w-xl flex-col gap-y-4">
+          {teamRoles.map((teamRole) => (
+            <div key={teamRole.id} className="border-border rounded-lg border p-4">
+              <div className="flex flex-col gap-x-4 sm:flex-row sm:items-center sm:justify-between">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <h5 className="text-sm font-medium">{teamRole.name}</h5>
+
+                    <Badge variant="neutral" size="small">
+                      <Plural value={teamRole._count.members} one="# member" other="# members" />
+                    </Badge>
+                  </div>
+
+                  {teamRole.description && (
+                    <p className="text-muted-foreground mt-1 text-xs">{teamRole.description}</p>
+                  )}
+
+                  <p className="text-muted-foreground mt-2 text-xs">
+                    {teamRole.permissions.length > 0 ? (
+                      teamRole.permissions
+                        .map((permission) => _(TEAM_PERMISSION_MAP[permission].label))
+                        .join(', ')
+                    ) : (
+                      <Trans>No permissions</Trans>
+                    )}
+                  </p>
+                </div>
+
+                <div className="mt-4 flex flex-shrink-0 gap-4 sm:mt-0">
+                  <TeamRoleDialog
+                    teamId={team.id}
+                    teamRole={teamRole}
+                    trigger={
+                      <Button variant="outline">
+                        <Trans>Edit</Trans>
+                      </Button>
+                    }
+                  />
+
+                  <DeleteTeamRoleDialog
+                    teamId={team.id}
+                    roleId={teamRole.id}
+                    roleName={teamRole.name}
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
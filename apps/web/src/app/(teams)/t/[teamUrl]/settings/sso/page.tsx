@@ -0,0 +1,148 @@
+'use client';
+
+import { Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+import { Loader } from 'lucide-react';
+
+import { NEXT_PUBLIC_WEBAPP_URL } from '@documenso/lib/constants/app';
+import { canExecuteTeamAction } from '@documenso/lib/utils/teams';
+import { trpc } from '@documenso/trpc/react';
+import { CopyTextButton } from '@documenso/ui/components/common/copy-text-button';
+
+import { SettingsHeader } from '~/components/(dashboard)/settings/layout/header';
+import { TeamSsoConnectionForm } from '~/components/(teams)/forms/team-sso-connection-form';
+import { TeamSsoDomains } from '~/components/(teams)/settings/team-sso-domains';
+import { useCurrentTeam } from '~/providers/team';
+
+export default function TeamsSettingsSsoPage() {
+  const { _ } = useLingui();
+
+  const team = useCurrentTeam();
+
+  const scimBaseUrl = `${NEXT_PUBLIC_WEBAPP_URL()}/scim/v2`;
+
+  const canManageTeamSso =
+    !!team.currentTeamMember &&
+    canExecuteTeamAction('MANAGE_TEAM_SSO', team.currentTeamMember.role);
+
+  const { data, isLoading } = trpc.sso.getTeamSsoConnection.useQuery(
+    {
+      teamId: team.id,
+    },
+    {
+      enabled: canManageTeamSso,
+    },
+  );
+
+  if (!canManageTeamSso) {
+    return (
+      <SettingsHeader
+        title={_(msg`Single Sign-On`)}
+        subtitle={_(msg`You do not have the required permissions to view this page.`)}
+        hideDivider
+      />
+    );
+  }
+
+  return (
+    <div>
+      <SettingsHeader
+        title={_(msg`Single Sign-On`)}
+        subtitle={_(msg`Let your team sign in through your SAML identity provider.`)}
+      />
+
+      {isLoading && (
+        <div className="absolute inset-0 flex items-center justify-center bg-white/50">
+          <Loader className="h-8 w-8 animate-spin text-gray-500" />
+        </div>
+      )}
+
+      {data && (
+        <div className="flex max-w-xl flex-col gap-y-8">
+          <section>
+            <h3 className="font-medium">
+              <Trans>Service provider details</Trans>
+            </h3>
+
+            <p className="text-muted-foreground mt-1 text-sm">
+              <Trans>Provide these details to your identity provider when creating the app.</Trans>
+            </p>
+
+            <dl className="mt-4 space-y-3 text-sm">
+              {[
+                { label: msg`Entity ID / Metadata URL`, value: data.serviceProvider.entityId },
+                {
+                  label: msg`Assertion consumer service (ACS) URL`,
+                  value: data.serviceProvider.acsUrl,
+                },
+              ].map(({ label, value }) => (
+                <div key={value}>
+                  <dt className="font-medium">{_(label)}</dt>
+                  <dd className="text-muted-foreground mt-1 flex items-center justify-between gap-x-2">
+                    <code className="bg-muted break-all rounded px-2 py-1 text-xs">{value}</code>
+                    <CopyTextButton value={value} />
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </section>
+
+          <section>
+            <h3 className="font-medium">
+              <Trans>Domains</Trans>
+            </h3>
+
+            <p className="text-muted-foreground mb-4 mt-1 text-sm">
+              <Trans>
+                Only users with an email on a verified domain can sign in with your identity
+                provider.
+              </Trans>
+            </p>
+
+            <TeamSsoDomains teamId={team.id} domains={data.domains} />
+          </section>
+
+          <section>
+            <h3 className="font-medium">
+              <Trans>Identity provider</Trans>
+            </h3>
+
+            <p className="text-muted-foreground mb-4 mt-1 text-sm">
+              <Trans>
+                Users signing in for the first time are created automatically and added to the team
+                as members.
+              </Trans>
+            </p>
+
+            <TeamSsoConnectionForm
+              key={data.connection?.updatedAt.toISOString() ?? 'new'}
+              teamId={team.id}
+              connection={data.connection}
+              hasVerifiedDomains={data.domains.some((domain) => domain.verifiedAt !== null)}
+            />
+          </section>
+
+          <section>
+            <h3 className="font-medium">
+              <Trans>User provisioning (SCIM)</Trans>
+            </h3>
+
+            <p className="text-muted-foreground mt-1 text-sm">
+              <Trans>
+                Connect your identity provider to the SCIM endpoint below using a team API token
+                with the team:read and team:write scopes to automatically add, update and deactivate
+                members on your verified domains. Groups named Admin, Manager and Member are mapped
+                to the matching team roles.
+              </Trans>
+            </p>
+
+            <div className="text-muted-foreground mt-4 flex items-center justify-between gap-x-2 text-sm">
+              <code className="bg-muted break-all rounded px-2 py-1 text-xs">{scimBaseUrl}</code>
+              <CopyTextButton value={scimBaseUrl} />
+            </div>
+          </section>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { DateTime } from 'luxon';
 import { match } from 'ts-pattern';
 
 import { setupI18nSSR } from '@documenso/lib/client-only/providers/i18n.server';
+import { API_TOKEN_SCOPE_MAP } from '@documenso/lib/constants/api-token-scopes';
 import { NEXT_PUBLIC_WEBAPP_URL } from '@documenso/lib/constants/app';
 import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
 import { getRequiredServerComponentSession } from '@documenso/lib/next-auth/get-server-component-session';
@@ -108,6 +109,10 @@ export default async function ApiTokensPage({ params }: ApiTokensPageProps) {
                       <Trans>Token doesn't have an expiration date</Trans>
                     </p>
                   )}
+
+                  <p className="text-muted-foreground mt-1 font-mono text-xs">
+                    {token.scopes.map((scope) => API_TOKEN_SCOPE_MAP[scope].value).join(', ')}
+                  </p>
                 </div>
 
                 <div>
@@ -6,11 +6,13 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { Trans, msg } from '@lingui/macro';
 import { useLingui } from '@lingui/react';
 import { Loader } from 'lucide-react';
+import { DateTime } from 'luxon';
 import { useForm } from 'react-hook-form';
 import type { z } from 'zod';
 
 import { trpc } from '@documenso/trpc/react';
 import { ZEditWebhookMutationSchema } from '@documenso/trpc/server/webhook-router/schema';
+import { Alert, AlertDescription, AlertTitle } from '@documenso/ui/primitives/alert';
 import { Button } from '@documenso/ui/primitives/button';
 import {
   Form,
@@ -28,6 +30,7 @@ import { useToast } from '@documenso/ui/primitives/use-toast';
 
 import { SettingsHeader } from '~/components/(dashboard)/settings/layout/header';
 import { TriggerMultiSelectCombobox } from '~/components/(dashboard)/settings/webhooks/trigger-multiselect-combobox';
+import { WebhookCallsDataTable } from '~/components/(dashboard)/settings/webhooks/webhook-calls-data-table';
 import { useCurrentTeam } from '~/providers/team';
 
 const ZEditWebhookFormSchema = ZEditWebhookMutationSchema.omit({ id: true });
@@ -41,7 +44,7 @@ export type WebhookPageOptions = {
 };
 
 export default function WebhookPage({ params }: WebhookPageOptions) {
-  const { _ } = useLingui();
+  const { _, i18n } = useLingui();
   const { toast } = useToast();
 
   const router = useRouter();
@@ -107,6 +110,22 @@ export default function WebhookPage({ params }: WebhookPageOptions) {
         </div>
       )}
 
+      {webhook?.disabledAt && !webhook.enabled && (
+        <Alert className="mb-6 max-w-xl" variant="warning">
+          <AlertTitle>
+            <Trans>This webhook has been disabled</Trans>
+          </AlertTitle>
+
+          <AlertDescription>
+            <Trans>
+              It was disabled automatically on{' '}
+              {i18n.date(webhook.disabledAt, DateTime.DATETIME_FULL)} after failing repeatedly.
+              Enable it again once the endpoint is working to resume deliveries.
+            </Trans>
+          </AlertDescription>
+        </Alert>
+      )}
+
       <Form {...form}>
         <form onSubmit={form.handleSubmit(onSubmit)}>
           <fieldset
@@ -213,6 +232,21 @@ export default function WebhookPage({ params }: WebhookPageOptions) {
           </fieldset>
         </form>
       </Form>
+
+      <div className="mt-12">
+        <h3 className="text-lg font-medium">
+          <Trans>Call history</Trans>
+        </h3>
+
+        <p className="text-muted-foreground mb-4 mt-1 text-sm">
+          <Trans>
+            Every call sent to your endpoint, retries included. Open a call to inspect its payload
+            and response, or to resend it.
+          </Trans>
+        </p>
+
+        <WebhookCallsDataTable webhookId={params.id} teamId={team.id} />
+      </div>
     </div>
   );
 }
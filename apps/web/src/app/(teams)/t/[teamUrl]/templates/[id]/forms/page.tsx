@@ -0,0 +1,24 @@
+import { setupI18nSSR } from '@documenso/lib/client-only/providers/i18n.server';
+import { getRequiredServerComponentSession } from '@documenso/lib/next-auth/get-server-component-session';
+import { getTeamByUrl } from '@documenso/lib/server-only/team/get-team';
+
+import type { TemplateFormsPageViewProps } from '~/app/(dashboard)/templates/[id]/forms/template-forms-page-view';
+import { TemplateFormsPageView } from '~/app/(dashboard)/templates/[id]/forms/template-forms-page-view';
+
+export type TeamsTemplateFormsPageProps = {
+  params: TemplateFormsPageViewProps['params'] & {
+    teamUrl: string;
+  };
+};
+
+export default async function TeamsTemplateFormsPage({ params }: TeamsTemplateFormsPageProps) {
+  await setupI18nSSR();
+
+  const { teamUrl } = params;
+
+  const { user } = await getRequiredServerComponentSession();
+
+  const team = await getTeamByUrl({ userId: user.id, teamUrl });
+
+  return <TemplateFormsPageView params={params} team={team} />;
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import { useState } from 'react';
+
+import { Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+
+import { API_TOKEN_SCOPE_MAP } from '@documenso/lib/constants/api-token-scopes';
+import { AppError } from '@documenso/lib/errors/app-error';
+import type { ApiTokenScope } from '@documenso/prisma/client';
+import { trpc } from '@documenso/trpc/react';
+import type { TAuthorizeOAuthClientMutationSchema } from '@documenso/trpc/server/oauth-router/schema';
+import { Button } from '@documenso/ui/primitives/button';
+import { useToast } from '@documenso/ui/primitives/use-toast';
+
+export type OAuthAuthorizeFormProps = {
+  clientName: string;
+  teamName: string;
+  userEmail: string;
+  scopes: ApiTokenScope[];
+  request: TAuthorizeOAuthClientMutationSchema;
+};
+
+export const OAuthAuthorizeForm = ({
+  clientName,
+  teamName,
+  userEmail,
+  scopes,
+  request,
+}: OAuthAuthorizeFormProps) => {
+  const { _ } = useLingui();
+  const { toast } = useToast();
+
+  const [isRedirecting, setIsRedirecting] = useState(false);
+
+  const { mutateAsync: authorizeOAuthClient, isPending } =
+    trpc.oauth.authorizeOAuthClient.useMutation();
+
+  const onAuthorize = async () => {
+    try {
+      const { redirectUrl } = await authorizeOAuthClient(request);
+
+      setIsRedirecting(true);
+
+      window.location.href = redirectUrl;
+    } catch (err) {
+      const error = AppError.parseError(err);
+
+      toast({
+        title: _(msg`Unable to authorize the application`),
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const onDeny = () => {
+    // The redirect URI has already been validated against the registered URIs by the page.
+    const url = new URL(request.redirectUri);
+
+    url.searchParams.set('error', 'access_denied');
+
+    if (request.state) {
+      url.searchParams.set('state', request.state);
+    }
+
+    setIsRedirecting(true);
+
+    window.location.href = url.toString();
+  };
+
+  return (
+    <div>
+      <h1 className="text-2xl font-semibold">
+        <Trans>Authorize {clientName}</Trans>
+      </h1>
+
+      <p className="text-muted-foreground mt-2 text-sm">
+        <Trans>
+          {clientName} is requesting access to the {teamName} team on behalf of {userEmail}.
+        </Trans>
+      </p>
+
+      <hr className="-mx-6 my-4" />
+
+      <p className="text-sm font-medium">
+        <Trans>The application will be able to:</Trans>
+      </p>
+
+      <ul className="mt-3 space-y-3">
+        {scopes.map((scope) => (
+          <li key={scope} className="text-sm">
+            <span className="font-mono font-medium">{API_TOKEN_SCOPE_MAP[scope].value}</span>
+            <span className="text-muted-foreground block text-xs">
+              {_(API_TOKEN_SCOPE_MAP[scope].description)}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      <div className="mt-6 flex justify-end gap-x-4">
+        <Button variant="secondary" disabled={isPending || isRedirecting} onClick={onDeny}>
+          <Trans>Deny</Trans>
+        </Button>
+
+        <Button
+          loading={isPending || isRedirecting}
+          disabled={isPending || isRedirecting}
+          onClick={onAuthorize}
+        >
+          <Trans>Authorize</Trans>
+        </Button>
+      </div>
+    </div>
+  );
+};
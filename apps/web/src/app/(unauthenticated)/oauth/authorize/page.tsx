@@ -0,0 +1,146 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+
+import { Trans } from '@lingui/macro';
+
+import { setupI18nSSR } from '@documenso/lib/client-only/providers/i18n.server';
+import {
+  IS_GOOGLE_SSO_ENABLED,
+  IS_OIDC_SSO_ENABLED,
+  OIDC_PROVIDER_LABEL,
+} from '@documenso/lib/constants/auth';
+import { AppError } from '@documenso/lib/errors/app-error';
+import { getServerComponentSession } from '@documenso/lib/next-auth/get-server-component-session';
+import { getOAuthAuthorizationRequest } from '@documenso/lib/server-only/oauth/get-oauth-authorization-request';
+import { prisma } from '@documenso/prisma';
+import { Button } from '@documenso/ui/primitives/button';
+
+import { SignInForm } from '~/components/forms/signin';
+
+import { OAuthAuthorizeForm } from './authorize-form';
+
+export const metadata: Metadata = {
+  title: 'Authorize application',
+};
+
+type OAuthAuthorizePageProps = {
+  searchParams: Record<string, string | string[] | undefined>;
+};
+
+export default async function OAuthAuthorizePage({ searchParams }: OAuthAuthorizePageProps) {
+  await setupI18nSSR();
+
+  const params = Object.fromEntries(
+    Object.entries(searchParams).flatMap(([key, value]) =>
+      typeof value === 'string' ? [[key, value]] : [],
+    ),
+  );
+
+  const request = {
+    clientId: params.client_id ?? '',
+    redirectUri: params.redirect_uri ?? '',
+    responseType: params.response_type ?? '',
+    scope: params.scope ?? '',
+    state: params.state,
+    codeChallenge: params.code_challenge,
+    codeChallengeMethod: params.code_challenge_method,
+  };
+
+  const { user } = await getServerComponentSession();
+
+  if (!user) {
+    return (
+      <div className="w-screen max-w-lg px-4">
+        <div className="border-border dark:bg-background z-10 rounded-xl border bg-neutral-100 p-6">
+          <h1 className="text-2xl font-semibold">
+            <Trans>Sign in to continue</Trans>
+          </h1>
+
+          <p className="text-muted-foreground mt-2 text-sm">
+            <Trans>An application is requesting access to your account.</Trans>
+          </p>
+
+          <hr className="-mx-6 my-4" />
+
+          <SignInForm
+            isGoogleSSOEnabled={IS_GOOGLE_SSO_ENABLED}
+            isOIDCSSOEnabled={IS_OIDC_SSO_ENABLED}
+            oidcProviderLabel={OIDC_PROVIDER_LABEL}
+            returnTo={`/oauth/authorize?${new URLSearchParams(params).toString()}`}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  let authorizationRequest: Awaited<ReturnType<typeof getOAuthAuthorizationRequest>>;
+
+  try {
+    authorizationRequest = await getOAuthAuthorizationRequest(request);
+  } catch (err) {
+    const error = AppError.parseError(err);
+
+    return (
+      <div className="w-screen max-w-lg px-4">
+        <h1 className="text-4xl font-semibold">
+          <Trans>Invalid request</Trans>
+        </h1>
+
+        <p className="text-muted-foreground mb-4 mt-2 text-sm">{error.message}</p>
+
+        <Button asChild>
+          <Link href="/">
+            <Trans>Return</Trans>
+          </Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const { client, scopes } = authorizationRequest;
+
+  const teamMember = await prisma.teamMember.findUnique({
+    where: {
+      userId_teamId: {
+        userId: user.id,
+        teamId: client.team.id,
+      },
+    },
+  });
+
+  if (!teamMember) {
+    return (
+      <div className="w-screen max-w-lg px-4">
+        <h1 className="text-4xl font-semibold">
+          <Trans>Access denied</Trans>
+        </h1>
+
+        <p className="text-muted-foreground mb-4 mt-2 text-sm">
+          <Trans>
+            {client.name} can only be authorized by members of the {client.team.name} team.
+          </Trans>
+        </p>
+
+        <Button asChild>
+          <Link href="/">
+            <Trans>Return</Trans>
+          </Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-screen max-w-lg px-4">
+      <div className="border-border dark:bg-background z-10 rounded-xl border bg-neutral-100 p-6">
+        <OAuthAuthorizeForm
+          clientName={client.name}
+          teamName={client.team.name}
+          userEmail={user.email}
+          scopes={scopes}
+          request={request}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+'use client';
+
+import { useEffect } from 'react';
+
+import { Trans } from '@lingui/macro';
+import { Loader } from 'lucide-react';
+import { signIn } from 'next-auth/react';
+
+export type SsoCompletePageClientProps = {
+  signInData: string;
+  callbackUrl?: string;
+};
+
+export const SsoCompletePageClient = ({ signInData, callbackUrl }: SsoCompletePageClientProps) => {
+  useEffect(() => {
+    void signIn('manual', {
+      credential: signInData,
+      callbackUrl: callbackUrl ?? '/documents',
+    });
+  }, [signInData, callbackUrl]);
+
+  return (
+    <div className="w-screen max-w-lg px-4">
+      <div className="flex w-full items-center">
+        <Loader className="text-muted-foreground mr-4 h-8 w-8 animate-spin" />
+
+        <h2 className="text-2xl font-bold">
+          <Trans>Signing you in...</Trans>
+        </h2>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import Link from 'next/link';
+
+import { Trans } from '@lingui/macro';
+import { XCircle } from 'lucide-react';
+
+import { setupI18nSSR } from '@documenso/lib/client-only/providers/i18n.server';
+import { prisma } from '@documenso/prisma';
+import { Button } from '@documenso/ui/primitives/button';
+
+import { SsoCompletePageClient } from './client';
+
+export type SsoCompletePageProps = {
+  searchParams: {
+    token?: string;
+    callbackUrl?: string;
+  };
+};
+
+export default async function SsoCompletePage({ searchParams }: SsoCompletePageProps) {
+  await setupI18nSSR();
+
+  const { token, callbackUrl } = searchParams;
+
+  // Tokens are single use, they are deleted as soon as they are consumed.
+  const signInToken = token
+    ? await prisma.anonymousVerificationToken
+        .delete({
+          where: {
+            id: token,
+          },
+        })
+        .catch(() => null)
+    : null;
+
+  if (!signInToken || signInToken.expiresAt < new Date()) {
+    return (
+      <div className="w-screen max-w-lg px-4">
+        <div className="flex w-full items-start">
+          <div className="mr-4 mt-1 hidden md:block">
+            <XCircle className="text-destructive h-10 w-10" strokeWidth={2} />
+          </div>
+
+          <div>
+            <h2 className="text-2xl font-bold md:text-4xl">
+              <Trans>Sign in link expired</Trans>
+            </h2>
+
+            <p className="text-muted-foreground mt-4">
+              <Trans>
+                This sign in link has already been used or has expired. Please sign in with your
+                identity provider again.
+              </Trans>
+            </p>
+
+            <Button className="mt-4" asChild>
+              <Link href="/signin">
+                <Trans>Back to sign in</Trans>
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const isRelativeCallbackUrl = callbackUrl?.startsWith('/') && !callbackUrl.startsWith('//');
+
+  return (
+    <SsoCompletePageClient
+      signInData={signInToken.token}
+      callbackUrl={isRelativeCallbackUrl ? callbackUrl : undefined}
+    />
+  );
+}
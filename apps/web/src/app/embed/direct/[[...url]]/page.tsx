@@ -9,7 +9,7 @@ import { IS_BILLING_ENABLED } from '@documenso/lib/constants/app';
 import { getServerComponentSession } from '@documenso/lib/next-auth/get-server-component-session';
 import { getTeamById } from '@documenso/lib/server-only/team/get-team';
 import { getTemplateByDirectLinkToken } from '@documenso/lib/server-only/template/get-template-by-direct-link-token';
-import { DocumentAccessAuth } from '@documenso/lib/types/document-auth';
+import { DocumentAccessAuth, RecipientAccessAuth } from '@documenso/lib/types/document-auth';
 import { extractDocumentAuthMethods } from '@documenso/lib/utils/document-auth';
 
 import { DocumentAuthProvider } from '~/app/(signing)/sign/[token]/document-auth-provider';
@@ -70,6 +70,10 @@ export default async function EmbedDirectTemplatePage({ params }: EmbedDirectTem
 
   const isAccessAuthValid = match(derivedRecipientAccessAuth)
     .with(DocumentAccessAuth.ACCOUNT, () => user !== null)
+    // Direct link recipients provide their own email, so there is no address to verify yet.
+    .with(DocumentAccessAuth.EMAIL_OTP, () => true)
+    // Access codes are only set on individual recipients, never on the template.
+    .with(RecipientAccessAuth.ACCESS_CODE, () => true)
     .with(null, () => true)
     .exhaustive();
 
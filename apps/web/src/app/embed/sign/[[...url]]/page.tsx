@@ -5,23 +5,32 @@ import { match } from 'ts-pattern';
 import { isCommunityPlan as isUserCommunityPlan } from '@documenso/ee/server-only/util/is-community-plan';
 import { isUserEnterprise } from '@documenso/ee/server-only/util/is-document-enterprise';
 import { isDocumentPlatform } from '@documenso/ee/server-only/util/is-document-platform';
+import { IDVerificationService } from '@documenso/ee/server-only/verification/id-verification';
 import { IS_BILLING_ENABLED } from '@documenso/lib/constants/app';
 import { getServerComponentSession } from '@documenso/lib/next-auth/get-server-component-session';
 import { getDocumentAndSenderByToken } from '@documenso/lib/server-only/document/get-document-by-token';
+import { isRecipientAuthorized } from '@documenso/lib/server-only/document/is-recipient-authorized';
 import { getFieldsForToken } from '@documenso/lib/server-only/field/get-fields-for-token';
 import { getIsRecipientsTurnToSign } from '@documenso/lib/server-only/recipient/get-is-recipient-turn';
 import { getRecipientByToken } from '@documenso/lib/server-only/recipient/get-recipient-by-token';
 import { getRecipientsForAssistant } from '@documenso/lib/server-only/recipient/get-recipients-for-assistant';
+import { getRecipientAccessAuthOptions } from '@documenso/lib/server-only/recipient/recipient-access-auth-cookie';
 import { getTeamById } from '@documenso/lib/server-only/team/get-team';
-import { DocumentAccessAuth } from '@documenso/lib/types/document-auth';
+import { RecipientAccessAuth, RecipientActionAuth } from '@documenso/lib/types/document-auth';
+import { IdVerificationStatus } from '@documenso/lib/types/id-verification';
 import { extractDocumentAuthMethods } from '@documenso/lib/utils/document-auth';
 import { DocumentStatus, RecipientRole } from '@documenso/prisma/client';
 
 import { DocumentAuthProvider } from '~/app/(signing)/sign/[token]/document-auth-provider';
 import { SigningProvider } from '~/app/(signing)/sign/[token]/provider';
+import { SigningAccessCodeAuthPageView } from '~/app/(signing)/sign/[token]/signing-access-code-auth-page';
+import { SigningEmailAccessAuthPageView } from '~/app/(signing)/sign/[token]/signing-email-access-auth-page';
+import { SigningIdVerificationPageView } from '~/app/(signing)/sign/[token]/signing-id-verification-page';
 
 import { EmbedAuthenticateView } from '../../authenticate';
+import { EmbedDocumentExpired } from '../../expired';
 import { EmbedPaywall } from '../../paywall';
+import { EmbedDocumentVoided } from '../../voided';
 import { EmbedWaitingForTurn } from '../../waiting-for-turn';
 import { EmbedSignDocumentClientPage } from './client';
 
@@ -75,15 +84,38 @@ export default async function EmbedSignDocumentPage({ params }: EmbedSignDocumen
     }),
   ]);
 
-  const { derivedRecipientAccessAuth } = extractDocumentAuthMethods({
+  const { derivedRecipientAccessAuth, derivedRecipientActionAuth } = extractDocumentAuthMethods({
     documentAuth: document.authOptions,
+    recipientAuth: recipient.authOptions,
   });
 
-  const isAccessAuthValid = match(derivedRecipientAccessAuth)
-    .with(DocumentAccessAuth.ACCOUNT, () => user !== null)
+  const isAccessAuthValid = await match(derivedRecipientAccessAuth)
+    .with(RecipientAccessAuth.ACCOUNT, () => user !== null)
+    .with(RecipientAccessAuth.EMAIL_OTP, RecipientAccessAuth.ACCESS_CODE, async (accessAuth) =>
+      isRecipientAuthorized({
+        type: 'ACCESS',
+        documentAuthOptions: document.authOptions,
+        recipient,
+        authOptions: getRecipientAccessAuthOptions(recipient.id, accessAuth),
+      }),
+    )
     .with(null, () => true)
     .exhaustive();
 
+  if (!isAccessAuthValid && derivedRecipientAccessAuth === RecipientAccessAuth.EMAIL_OTP) {
+    return (
+      <SigningEmailAccessAuthPageView
+        token={token}
+        documentId={document.id}
+        email={recipient.email}
+      />
+    );
+  }
+
+  if (!isAccessAuthValid && derivedRecipientAccessAuth === RecipientAccessAuth.ACCESS_CODE) {
+    return <SigningAccessCodeAuthPageView token={token} email={recipient.email} />;
+  }
+
   if (!isAccessAuthValid) {
     return (
       <EmbedAuthenticateView
@@ -93,12 +125,41 @@ export default async function EmbedSignDocumentPage({ params }: EmbedSignDocumen
     );
   }
 
+  if (document.status === DocumentStatus.EXPIRED) {
+    return <EmbedDocumentExpired />;
+  }
+
+  if (document.status === DocumentStatus.VOIDED) {
+    return <EmbedDocumentVoided />;
+  }
+
   const isRecipientsTurnToSign = await getIsRecipientsTurnToSign({ token });
 
   if (!isRecipientsTurnToSign) {
     return <EmbedWaitingForTurn />;
   }
 
+  if (
+    derivedRecipientActionAuth === RecipientActionAuth.ID_VERIFICATION &&
+    document.status !== DocumentStatus.COMPLETED
+  ) {
+    const idVerification = await new IDVerificationService()
+      .checkVerificationStatus(recipient.id)
+      .catch(() => null);
+
+    if (idVerification?.status !== IdVerificationStatus.verified) {
+      return (
+        <SigningIdVerificationPageView
+          token={token}
+          documentId={document.id}
+          email={recipient.email}
+          status={idVerification?.status ?? null}
+          rejectionReason={idVerification?.reason}
+        />
+      );
+    }
+  }
+
   const allRecipients =
     recipient.role === RecipientRole.ASSISTANT
       ? await getRecipientsForAssistant({
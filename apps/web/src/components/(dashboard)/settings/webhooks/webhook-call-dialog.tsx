@@ -0,0 +1,186 @@
+'use client';
+
+import { useState } from 'react';
+
+import { Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+import { Loader } from 'lucide-react';
+import { DateTime } from 'luxon';
+
+import { toFriendlyWebhookEventName } from '@documenso/lib/universal/webhook/to-friendly-webhook-event-name';
+import { WebhookCallStatus } from '@documenso/prisma/client';
+import { trpc } from '@documenso/trpc/react';
+import { Badge } from '@documenso/ui/primitives/badge';
+import { Button } from '@documenso/ui/primitives/button';
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@documenso/ui/primitives/dialog';
+import { useToast } from '@documenso/ui/primitives/use-toast';
+
+export type WebhookCallDialogProps = {
+  webhookCallId: string;
+  teamId?: number;
+  trigger: React.ReactNode;
+};
+
+const formatJson = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+};
+
+export const WebhookCallDialog = ({ webhookCallId, teamId, trigger }: WebhookCallDialogProps) => {
+  const { _, i18n } = useLingui();
+  const { toast } = useToast();
+
+  const [open, setOpen] = useState(false);
+
+  const utils = trpc.useUtils();
+
+  const { data: webhookCall, isLoading } = trpc.webhook.getWebhookCallById.useQuery(
+    {
+      id: webhookCallId,
+      teamId,
+    },
+    {
+      enabled: open,
+    },
+  );
+
+  const { mutateAsync: resendWebhookCall, isPending: isResending } =
+    trpc.webhook.resendWebhookCall.useMutation();
+
+  const onResend = async () => {
+    try {
+      const result = await resendWebhookCall({ id: webhookCallId, teamId });
+
+      await utils.webhook.findWebhookCalls.invalidate();
+
+      if (result.status === WebhookCallStatus.SUCCESS) {
+        toast({
+          title: _(msg`Webhook resent`),
+          description: _(msg`The endpoint responded with status ${result.responseCode}.`),
+          duration: 5000,
+        });
+      } else {
+        toast({
+          title: _(msg`Webhook delivery failed`),
+          description: _(msg`The webhook was resent but the endpoint did not accept it.`),
+          variant: 'destructive',
+        });
+      }
+
+      setOpen(false);
+    } catch (err) {
+      toast({
+        title: _(msg`Something went wrong`),
+        description: _(msg`We were unable to resend this webhook. Please try again later.`),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isResending && setOpen(value)}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+
+      <DialogContent className="max-w-2xl" position="center">
+        <DialogHeader>
+          <DialogTitle>
+            <Trans>Webhook call</Trans>
+          </DialogTitle>
+
+          <DialogDescription>
+            <Trans>The request that was sent to your endpoint and the response it returned.</Trans>
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && (
+          <div className="flex items-center justify-center py-12">
+            <Loader className="text-muted-foreground h-6 w-6 animate-spin" />
+          </div>
+        )}
+
+        {webhookCall && (
+          <div className="flex min-w-0 flex-col gap-y-4 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-mono text-xs">
+                {toFriendlyWebhookEventName(webhookCall.event)}
+              </span>
+
+              <Badge
+                variant={
+                  webhookCall.status === WebhookCallStatus.SUCCESS ? 'default' : 'destructive'
+                }
+                size="small"
+              >
+                {webhookCall.responseCode || _(msg`No response`)}
+              </Badge>
+
+              <span className="text-muted-foreground text-xs">
+                {i18n.date(webhookCall.createdAt, DateTime.DATETIME_FULL)}
+              </span>
+            </div>
+
+            <p className="text-muted-foreground truncate text-xs" title={webhookCall.url}>
+              POST {webhookCall.url}
+            </p>
+
+            <div>
+              <h4 className="mb-1 font-medium">
+                <Trans>Request body</Trans>
+              </h4>
+
+              <pre className="bg-muted max-h-64 overflow-auto rounded-md p-3 text-xs">
+                {formatJson(webhookCall.requestBody)}
+              </pre>
+            </div>
+
+            {formatJson(webhookCall.responseHeaders) && (
+              <div>
+                <h4 className="mb-1 font-medium">
+                  <Trans>Response headers</Trans>
+                </h4>
+
+                <pre className="bg-muted max-h-40 overflow-auto rounded-md p-3 text-xs">
+                  {formatJson(webhookCall.responseHeaders)}
+                </pre>
+              </div>
+            )}
+
+            <div>
+              <h4 className="mb-1 font-medium">
+                <Trans>Response body</Trans>
+              </h4>
+
+              <pre className="bg-muted max-h-40 overflow-auto rounded-md p-3 text-xs">
+                {formatJson(webhookCall.responseBody) || _(msg`Empty response`)}
+              </pre>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="secondary" disabled={isResending}>
+              <Trans>Close</Trans>
+            </Button>
+          </DialogClose>
+
+          <Button type="button" loading={isResending} disabled={!webhookCall} onClick={onResend}>
+            <Trans>Resend</Trans>
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
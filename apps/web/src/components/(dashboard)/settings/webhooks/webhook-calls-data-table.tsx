@@ -0,0 +1,257 @@
+'use client';
+
+import { useMemo } from 'react';
+
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+
+import { Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+import { DateTime } from 'luxon';
+import { z } from 'zod';
+
+import { useUpdateSearchParams } from '@documenso/lib/client-only/hooks/use-update-search-params';
+import { WEBHOOK_MAXIMUM_ATTEMPTS } from '@documenso/lib/constants/webhooks';
+import { ZUrlSearchParamsSchema } from '@documenso/lib/types/search-params';
+import { toFriendlyWebhookEventName } from '@documenso/lib/universal/webhook/to-friendly-webhook-event-name';
+import { WebhookCallStatus, WebhookTriggerEvents } from '@documenso/prisma/client';
+import { trpc } from '@documenso/trpc/react';
+import { Badge } from '@documenso/ui/primitives/badge';
+import { Button } from '@documenso/ui/primitives/button';
+import type { DataTableColumnDef } from '@documenso/ui/primitives/data-table';
+import { DataTable } from '@documenso/ui/primitives/data-table';
+import { DataTablePagination } from '@documenso/ui/primitives/data-table-pagination';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@documenso/ui/primitives/select';
+import { Skeleton } from '@documenso/ui/primitives/skeleton';
+import { TableCell } from '@documenso/ui/primitives/table';
+
+import { WebhookCallDialog } from './webhook-call-dialog';
+
+const ZWebhookCallsSearchParamsSchema = ZUrlSearchParamsSchema.extend({
+  event: z
+    .nativeEnum(WebhookTriggerEvents)
+    .optional()
+    .catch(() => undefined),
+  status: z
+    .nativeEnum(WebhookCallStatus)
+    .optional()
+    .catch(() => undefined),
+});
+
+const ALL_FILTER_VALUE = 'ALL';
+
+export type WebhookCallsDataTableProps = {
+  webhookId: string;
+  teamId?: number;
+};
+
+export const WebhookCallsDataTable = ({ webhookId, teamId }: WebhookCallsDataTableProps) => {
+  const { _, i18n } = useLingui();
+
+  const pathname = usePathname();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const updateSearchParams = useUpdateSearchParams();
+
+  const parsedSearchParams = ZWebhookCallsSearchParamsSchema.parse(
+    Object.fromEntries(searchParams ?? []),
+  );
+
+  const { data, isLoading, isLoadingError } = trpc.webhook.findWebhookCalls.useQuery(
+    {
+      id: webhookId,
+      teamId,
+      event: parsedSearchParams.event,
+      status: parsedSearchParams.status,
+      page: parsedSearchParams.page,
+      perPage: parsedSearchParams.perPage,
+    },
+    {
+      placeholderData: (previousData) => previousData,
+    },
+  );
+
+  const onPaginationChange = (page: number, perPage: number) => {
+    updateSearchParams({
+      page,
+      perPage,
+    });
+  };
+
+  const onFilterChange = (key: 'event' | 'status', value: string) => {
+    updateSearchParams({
+      [key]: value === ALL_FILTER_VALUE ? undefined : value,
+      page: 1,
+    });
+  };
+
+  const results = data ?? {
+    data: [],
+    perPage: 10,
+    currentPage: 1,
+    totalPages: 1,
+  };
+
+  const columns = useMemo(() => {
+    return [
+      {
+        header: _(msg`Event`),
+        accessorKey: 'event',
+        cell: ({ row }) => (
+          <span className="font-mono text-xs">
+            {toFriendlyWebhookEventName(row.original.event)}
+          </span>
+        ),
+      },
+      {
+        header: _(msg`Status`),
+        accessorKey: 'status',
+        cell: ({ row }) =>
+          row.original.status === WebhookCallStatus.SUCCESS ? (
+            <Badge variant="default" size="small">
+              <Trans>Delivered</Trans>
+            </Badge>
+          ) : (
+            <Badge variant="destructive" size="small">
+              <Trans>Failed</Trans>
+            </Badge>
+          ),
+      },
+      {
+        header: _(msg`Response`),
+        accessorKey: 'responseCode',
+        cell: ({ row }) => row.original.responseCode || _(msg`No response`),
+      },
+      {
+        header: _(msg`Attempt`),
+        accessorKey: 'attempt',
+        cell: ({ row }) => (
+          <Trans>
+            {row.original.attempt} of {WEBHOOK_MAXIMUM_ATTEMPTS}
+          </Trans>
+        ),
+      },
+      {
+        header: _(msg`Next retry`),
+        accessorKey: 'nextRetryAt',
+        cell: ({ row }) =>
+          row.original.nextRetryAt
+            ? DateTime.fromJSDate(row.original.nextRetryAt).toRelative()
+            : _(msg`None`),
+      },
+      {
+        header: _(msg`Sent`),
+        accessorKey: 'createdAt',
+        cell: ({ row }) => i18n.date(row.original.createdAt, DateTime.DATETIME_SHORT),
+      },
+      {
+        id: 'actions',
+        cell: ({ row }) => (
+          <div className="flex justify-end">
+            <WebhookCallDialog
+              webhookCallId={row.original.id}
+              teamId={teamId}
+              trigger={
+                <Button variant="outline" size="sm">
+                  <Trans>View</Trans>
+                </Button>
+              }
+            />
+          </div>
+        ),
+      },
+    ] satisfies DataTableColumnDef<(typeof results)['data'][number]>[];
+  }, [_, i18n, teamId]);
+
+  return (
+    <div>
+      <div className="mb-4 flex flex-col gap-4 sm:flex-row">
+        <Select
+          value={parsedSearchParams.event ?? ALL_FILTER_VALUE}
+          onValueChange={(value) => onFilterChange('event', value)}
+        >
+          <SelectTrigger className="sm:max-w-[14rem]">
+            <SelectValue />
+          </SelectTrigger>
+
+          <SelectContent>
+            <SelectItem value={ALL_FILTER_VALUE}>{_(msg`All events`)}</SelectItem>
+
+            {Object.values(WebhookTriggerEvents).map((event) => (
+              <SelectItem key={event} value={event}>
+                {toFriendlyWebhookEventName(event)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={parsedSearchParams.status ?? ALL_FILTER_VALUE}
+          onValueChange={(value) => onFilterChange('status', value)}
+        >
+          <SelectTrigger className="sm:max-w-[10rem]">
+            <SelectValue />
+          </SelectTrigger>
+
+          <SelectContent>
+            <SelectItem value={ALL_FILTER_VALUE}>{_(msg`All statuses`)}</SelectItem>
+            <SelectItem value={WebhookCallStatus.SUCCESS}>{_(msg`Delivered`)}</SelectItem>
+            <SelectItem value={WebhookCallStatus.FAILED}>{_(msg`Failed`)}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <DataTable
+        columns={columns}
+        data={results.data}
+        perPage={results.perPage}
+        currentPage={results.currentPage}
+        totalPages={results.totalPages}
+        onPaginationChange={onPaginationChange}
+        hasFilters={
+          parsedSearchParams.event !== undefined || parsedSearchParams.status !== undefined
+        }
+        onClearFilters={() => router.push(pathname ?? '/')}
+        error={{
+          enable: isLoadingError,
+        }}
+        skeleton={{
+          enable: isLoading,
+          rows: 3,
+          component: (
+            <>
+              <TableCell>
+                <Skeleton className="h-4 w-24 rounded-full" />
+              </TableCell>
+              <TableCell>
+                <Skeleton className="h-4 w-16 rounded-full" />
+              </TableCell>
+              <TableCell>
+                <Skeleton className="h-4 w-8 rounded-full" />
+              </TableCell>
+              <TableCell>
+                <Skeleton className="h-4 w-12 rounded-full" />
+              </TableCell>
+              <TableCell>
+                <Skeleton className="h-4 w-16 rounded-full" />
+              </TableCell>
+              <TableCell>
+                <Skeleton className="h-4 w-20 rounded-full" />
+              </TableCell>
+              <TableCell>
+                <Skeleton className="h-8 w-16 rounded" />
+              </TableCell>
+            </>
+          ),
+        }}
+      >
+        {(table) => <DataTablePagination table={table} />}
+      </DataTable>
+    </div>
+  );
+};
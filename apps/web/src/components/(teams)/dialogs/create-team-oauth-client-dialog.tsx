@@ -0,0 +1,294 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+import type * as DialogPrimitive from '@radix-ui/react-dialog';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+
+import { API_TOKEN_SCOPE_MAP } from '@documenso/lib/constants/api-token-scopes';
+import { ApiTokenScope } from '@documenso/prisma/client';
+import { trpc } from '@documenso/trpc/react';
+import { ZCreateOAuthClientMutationSchema } from '@documenso/trpc/server/oauth-router/schema';
+import { CopyTextButton } from '@documenso/ui/components/common/copy-text-button';
+import { Button } from '@documenso/ui/primitives/button';
+import { Checkbox } from '@documenso/ui/primitives/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@documenso/ui/primitives/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@documenso/ui/primitives/form/form';
+import { Input } from '@documenso/ui/primitives/input';
+import { Textarea } from '@documenso/ui/primitives/textarea';
+import { useToast } from '@documenso/ui/primitives/use-toast';
+
+const parseRedirectUris = (value: string) =>
+  value
+    .split('\n')
+    .map((uri) => uri.trim())
+    .filter((uri) => uri.length > 0);
+
+const ZCreateOAuthClientFormSchema = ZCreateOAuthClientMutationSchema.pick({
+  name: true,
+  scopes: true,
+}).extend({
+  redirectUris: z
+    .string()
+    .refine((value) => parseRedirectUris(value).length > 0, {
+      message: 'At least one redirect URI is required',
+    })
+    .refine(
+      (value) => parseRedirectUris(value).every((uri) => z.string().url().safeParse(uri).success),
+      {
+        message: 'Please enter one valid URL per line',
+      },
+    ),
+});
+
+type TCreateOAuthClientFormSchema = z.infer<typeof ZCreateOAuthClientFormSchema>;
+
+type CreatedOAuthClient = {
+  clientId: string;
+  clientSecret: string;
+};
+
+export type CreateTeamOAuthClientDialogProps = {
+  teamId: number;
+  trigger?: React.ReactNode;
+} & Omit<DialogPrimitive.DialogProps, 'children'>;
+
+export const CreateTeamOAuthClientDialog = ({
+  teamId,
+  trigger,
+  ...props
+}: CreateTeamOAuthClientDialogProps) => {
+  const { _ } = useLingui();
+  const { toast } = useToast();
+
+  const [open, setOpen] = useState(false);
+  const [createdClient, setCreatedClient] = useState<CreatedOAuthClient | null>(null);
+
+  const form = useForm<TCreateOAuthClientFormSchema>({
+    resolver: zodResolver(ZCreateOAuthClientFormSchema),
+    defaultValues: {
+      name: '',
+      redirectUris: '',
+      scopes: [ApiTokenScope.DOCUMENTS_READ],
+    },
+  });
+
+  const { mutateAsync: createOAuthClient } = trpc.oauth.createOAuthClient.useMutation();
+
+  const onFormSubmit = async ({ name, redirectUris, scopes }: TCreateOAuthClientFormSchema) => {
+    try {
+      const client = await createOAuthClient({
+        teamId,
+        name,
+        redirectUris: parseRedirectUris(redirectUris),
+        scopes,
+      });
+
+      setCreatedClient(client);
+    } catch {
+      toast({
+        title: _(msg`An unknown error occurred`),
+        description: _(
+          msg`We encountered an unknown error while attempting to create this application. Please try again later.`,
+        ),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      form.reset();
+      setCreatedClient(null);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  return (
+    <Dialog
+      {...props}
+      open={open}
+      onOpenChange={(value) => !form.formState.isSubmitting && setOpen(value)}
+    >
+      <DialogTrigger onClick={(e) => e.stopPropagation()} asChild>
+        {trigger ?? (
+          <Button className="flex-shrink-0">
+            <Trans>Register application</Trans>
+          </Button>
+        )}
+      </DialogTrigger>
+
+      <DialogContent className="max-w-lg" position="center">
+        <DialogHeader>
+          <DialogTitle>
+            <Trans>Register application</Trans>
+          </DialogTitle>
+
+          <DialogDescription>
+            <Trans>
+              Applications can request access to act on behalf of team members using OAuth 2.0.
+            </Trans>
+          </DialogDescription>
+        </DialogHeader>
+
+        {createdClient ? (
+          <div className="space-y-4">
+            <p className="text-muted-foreground text-sm">
+              <Trans>
+                Your application was registered successfully! Make sure to copy the client secret
+                because you won't be able to see it again.
+              </Trans>
+            </p>
+
+            <dl className="space-y-3 text-sm">
+              {[
+                { label: msg`Client ID`, value: createdClient.clientId },
+                { label: msg`Client secret`, value: createdClient.clientSecret },
+              ].map(({ label, value }) => (
+                <div key={value}>
+                  <dt className="font-medium">{_(label)}</dt>
+                  <dd className="text-muted-foreground mt-1 flex items-center justify-between gap-x-2">
+                    <code className="bg-muted break-all rounded px-2 py-1 text-xs">{value}</code>
+                    <CopyTextButton value={value} />
+                  </dd>
+                </div>
+              ))}
+            </dl>
+
+            <DialogFooter>
+              <Button type="button" onClick={() => setOpen(false)}>
+                <Trans>Done</Trans>
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onFormSubmit)}>
+              <fieldset
+                className="flex h-full flex-col space-y-4"
+                disabled={form.formState.isSubmitting}
+              >
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel required>
+                        <Trans>Name</Trans>
+                      </FormLabel>
+                      <FormControl>
+                        <Input className="bg-background" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        <Trans>Shown to team members when they are asked to grant access.</Trans>
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="redirectUris"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel required>
+                        <Trans>Redirect URIs</Trans>
+                      </FormLabel>
+                      <FormControl>
+                        <Textarea
+                          className="bg-background font-mono text-xs"
+                          placeholder="https://example.com/oauth/callback"
+                          rows={3}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        <Trans>One URL per line, it must exactly match the requested URL.</Trans>
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="scopes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        <Trans>Allowed scopes</Trans>
+                      </FormLabel>
+
+                      <div className="space-y-3">
+                        {Object.values(ApiTokenScope).map((scope) => (
+                          <div key={scope} className="flex items-start gap-x-2">
+                            <FormControl>
+                              <Checkbox
+                                id={`oauth-client-scope-${scope}`}
+                                className="mt-0.5"
+                                checked={field.value.includes(scope)}
+                                onCheckedChange={(checked) =>
+                                  field.onChange(
+                                    checked
+                                      ? [...field.value, scope]
+                                      : field.value.filter((value) => value !== scope),
+                                  )
+                                }
+                              />
+                            </FormControl>
+
+                            <label htmlFor={`oauth-client-scope-${scope}`} className="text-sm">
+                              <span className="font-mono font-medium">
+                                {API_TOKEN_SCOPE_MAP[scope].value}
+                              </span>
+                              <span className="text-muted-foreground block text-xs">
+                                {_(API_TOKEN_SCOPE_MAP[scope].description)}
+                              </span>
+                            </label>
+                          </div>
+                        ))}
+                      </div>
+
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <DialogFooter>
+                  <Button type="button" variant="secondary" onClick={() => setOpen(false)}>
+                    <Trans>Cancel</Trans>
+                  </Button>
+
+                  <Button type="submit" loading={form.formState.isSubmitting}>
+                    <Trans>Register</Trans>
+                  </Button>
+                </DialogFooter>
+              </fieldset>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,272 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+import type * as DialogPrimitive from '@radix-ui/react-dialog';
+import { useForm } from 'react-hook-form';
+import type { z } from 'zod';
+
+import { TEAM_PERMISSION_MAP, TEAM_ROLE_PRESETS } from '@documenso/lib/constants/teams';
+import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
+import type { TeamRole } from '@documenso/prisma/client';
+import { TeamPermission } from '@documenso/prisma/client';
+import { trpc } from '@documenso/trpc/react';
+import { ZCreateTeamRoleMutationSchema } from '@documenso/trpc/server/team-router/schema';
+import { Button } from '@documenso/ui/primitives/button';
+import { Checkbox } from '@documenso/ui/primitives/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@documenso/ui/primitives/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@documenso/ui/primitives/form/form';
+import { Input } from '@documenso/ui/primitives/input';
+import { useToast } from '@documenso/ui/primitives/use-toast';
+
+const ZTeamRoleFormSchema = ZCreateTeamRoleMutationSchema.shape.data;
+
+type TTeamRoleFormSchema = z.infer<typeof ZTeamRoleFormSchema>;
+
+export type TeamRoleDialogProps = {
+  teamId: number;
+  /**
+   * The role to edit, a new role will be created when omitted.
+   */
+  teamRole?: Pick<TeamRole, 'id' | 'name' | 'description' | 'permissions'>;
+  trigger?: React.ReactNode;
+} & Omit<DialogPrimitive.DialogProps, 'children'>;
+
+export const TeamRoleDialog = ({ teamId, teamRole, trigger, ...props }: TeamRoleDialogProps) => {
+  const { _ } = useLingui();
+  const { toast } = useToast();
+
+  const [open, setOpen] = useState(false);
+
+  const form = useForm<TTeamRoleFormSchema>({
+    resolver: zodResolver(ZTeamRoleFormSchema),
+    defaultValues: {
+      name: teamRole?.name ?? '',
+      description: teamRole?.description ?? '',
+      permissions: teamRole?.permissions ?? [],
+    },
+  });
+
+  const { mutateAsync: createTeamRole } = trpc.team.createTeamRole.useMutation();
+  const { mutateAsync: updateTeamRole } = trpc.team.updateTeamRole.useMutation();
+
+  const onFormSubmit = async (data: TTeamRoleFormSchema) => {
+    try {
+      if (teamRole) {
+        await updateTeamRole({ teamId, roleId: teamRole.id, data });
+      } else {
+        await createTeamRole({ teamId, data });
+      }
+
+      toast({
+        title: _(msg`Success`),
+        description: teamRole
+          ? _(msg`The role has been updated.`)
+          : _(msg`The role has been created.`),
+        duration: 5000,
+      });
+
+      setOpen(false);
+    } catch (err) {
+      const error = AppError.parseError(err);
+
+      if (error.code === AppErrorCode.ALREADY_EXISTS) {
+        form.setError('name', {
+          type: 'manual',
+          message: _(msg`A role with this name already exists.`),
+        });
+
+        return;
+      }
+
+      toast({
+        title: _(msg`An unknown error occurred`),
+        description: _(
+          msg`We encountered an unknown error while attempting to save this role. Please try again later.`,
+        ),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      form.reset();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  return (
+    <Dialog
+      {...props}
+      open={open}
+      onOpenChange={(value) => !form.formState.isSubmitting && setOpen(value)}
+    >
+      <DialogTrigger onClick={(e) => e.stopPropagation()} asChild>
+        {trigger ?? (
+          <Button className="flex-shrink-0">
+            <Trans>Create role</Trans>
+          </Button>
+        )}
+      </DialogTrigger>
+
+      <DialogContent className="max-w-lg" position="center">
+        <DialogHeader>
+          <DialogTitle>
+            {teamRole ? <Trans>Update role</Trans> : <Trans>Create role</Trans>}
+          </DialogTitle>
+
+          <DialogDescription>
+            <Trans>Choose the permissions granted to members assigned to this role.</Trans>
+          </DialogDescription>
+        </DialogHeader>
+
+        {!teamRole && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-muted-foreground text-sm">
+              <Trans>Start from a preset:</Trans>
+            </span>
+
+            {TEAM_ROLE_PRESETS.map((preset) => (
+              <Button
+                key={preset.name.id}
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() =>
+                  form.reset({
+                    name: _(preset.name),
+                    description: _(preset.description),
+                    permissions: preset.permissions,
+                  })
+                }
+              >
+                {_(preset.name)}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onFormSubmit)}>
+            <fieldset
+              className="flex h-full flex-col space-y-4"
+              disabled={form.formState.isSubmitting}
+            >
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel required>
+                      <Trans>Name</Trans>
+                    </FormLabel>
+                    <FormControl>
+                      <Input className="bg-background" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      <Trans>Description</Trans>
+                    </FormLabel>
+                    <FormControl>
+                      <Input className="bg-background" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="permissions"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      <Trans>Permissions</Trans>
+                    </FormLabel>
+
+                    <div className="space-y-3">
+                      {Object.values(TeamPermission).map((permission) => (
+                        <div key={permission} className="flex items-start gap-x-2">
+                          <FormControl>
+                            <Checkbox
+                              id={`team-role-permission-${permission}`}
+                              className="mt-0.5"
+                              checked={field.value.includes(permission)}
+                              onCheckedChange={(checked) =>
+                                field.onChange(
+                                  checked
+                                    ? [...field.value, permission]
+                                    : field.value.filter((value) => value !== permission),
+                                )
+                              }
+                            />
+                          </FormControl>
+
+                          <label htmlFor={`team-role-permission-${permission}`} className="text-sm">
+                            <span className="font-medium">
+                              {_(TEAM_PERMISSION_MAP[permission].label)}
+                            </span>
+                            <span className="text-muted-foreground block text-xs">
+                              {_(TEAM_PERMISSION_MAP[permission].description)}
+                            </span>
+                          </label>
+                        </div>
+                      ))}
+                    </div>
+
+                    <FormDescription>
+                      <Trans>
+                        Members assigned to this role only receive the permissions selected above.
+                      </Trans>
+                    </FormDescription>
+
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="secondary" onClick={() => setOpen(false)}>
+                  <Trans>Cancel</Trans>
+                </Button>
+
+                <Button type="submit" loading={form.formState.isSubmitting}>
+                  {teamRole ? <Trans>Update</Trans> : <Trans>Create</Trans>}
+                </Button>
+              </DialogFooter>
+            </fieldset>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -10,6 +10,7 @@ import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 
 import { TEAM_MEMBER_ROLE_HIERARCHY, TEAM_MEMBER_ROLE_MAP } from '@documenso/lib/constants/teams';
+import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
 import { isTeamRoleWithinUserHierarchy } from '@documenso/lib/utils/teams';
 import { TeamMemberRole } from '@documenso/prisma/client';
 import { trpc } from '@documenso/trpc/react';
@@ -26,6 +27,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -47,10 +49,14 @@ export type UpdateTeamMemberDialogProps = {
   teamMemberId: number;
   teamMemberName: string;
   teamMemberRole: TeamMemberRole;
+  teamMemberCustomRoleId?: number | null;
 } & Omit<DialogPrimitive.DialogProps, 'children'>;
 
+const NO_CUSTOM_ROLE_VALUE = 'none';
+
 const ZUpdateTeamMemberFormSchema = z.object({
   role: z.nativeEnum(TeamMemberRole),
+  customRoleId: z.string(),
 });
 
 type ZUpdateTeamMemberSchema = z.infer<typeof ZUpdateTeamMemberFormSchema>;
@@ -62,6 +68,7 @@ export const UpdateTeamMemberDialog = ({
   teamMemberId,
   teamMemberName,
   teamMemberRole,
+  teamMemberCustomRoleId,
   ...props
 }: UpdateTeamMemberDialogProps) => {
   const [open, setOpen] = useState(false);
@@ -73,18 +80,22 @@ export const UpdateTeamMemberDialog = ({
     resolver: zodResolver(ZUpdateTeamMemberFormSchema),
     defaultValues: {
       role: teamMemberRole,
+      customRoleId: teamMemberCustomRoleId ? String(teamMemberCustomRoleId) : NO_CUSTOM_ROLE_VALUE,
     },
   });
 
+  const { data: teamRoles } = trpc.team.getTeamRoles.useQuery({ teamId }, { enabled: open });
+
   const { mutateAsync: updateTeamMember } = trpc.team.updateTeamMember.useMutation();
 
-  const onFormSubmit = async ({ role }: ZUpdateTeamMemberSchema) => {
+  const onFormSubmit = async ({ role, customRoleId }: ZUpdateTeamMemberSchema) => {
     try {
       await updateTeamMember({
         teamId,
         teamMemberId,
         data: {
           role,
+          customRoleId: customRoleId === NO_CUSTOM_ROLE_VALUE ? null : Number(customRoleId),
         },
       });
 
@@ -95,12 +106,17 @@ export const UpdateTeamMemberDialog = ({
       });
 
       setOpen(false);
-    } catch {
+    } catch (err) {
+      const error = AppError.parseError(err);
+
       toast({
         title: _(msg`An unknown error occurred`),
-        description: _(
-          msg`We encountered an unknown error while attempting to update this team member. Please try again later.`,
-        ),
+        description:
+          error.code === AppErrorCode.UNAUTHORIZED
+            ? _(msg`You cannot assign a role with permissions you do not have.`)
+            : _(
+                msg`We encountered an unknown error while attempting to update this team member. Please try again later.`,
+              ),
         variant: 'destructive',
       });
     }
@@ -182,6 +198,45 @@ export const UpdateTeamMemberDialog = ({
                 )}
               />
 
+              {teamRoles && teamRoles.length > 0 && (
+                <FormField
+                  control={form.control}
+                  name="customRoleId"
+                  render={({ field }) => (
+                    <FormItem className="mt-4 w-full">
+                      <FormLabel>
+                        <Trans>Permissions</Trans>
+                      </FormLabel>
+                      <FormControl>
+                        <Select {...field} onValueChange={field.onChange}>
+                          <SelectTrigger className="text-muted-foreground">
+                            <SelectValue />
+                          </SelectTrigger>
+
+                          <SelectContent className="w-full" position="popper">
+                            <SelectItem value={NO_CUSTOM_ROLE_VALUE}>
+                              <Trans>Default for role</Trans>
+                            </SelectItem>
+
+                            {teamRoles.map((teamRole) => (
+                              <SelectItem key={teamRole.id} value={String(teamRole.id)}>
+                                {teamRole.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormControl>
+                      <FormDescription>
+                        <Trans>
+                          A custom role replaces the default permissions of the member's role.
+                        </Trans>
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
               <DialogFooter className="mt-4">
                 <Button type="button" variant="secondary" onClick={() => setOpen(false)}>
                   <Trans>Cancel</Trans>
@@ -0,0 +1,297 @@
+'use client';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+import { useForm } from 'react-hook-form';
+import type { z } from 'zod';
+
+import { AppError } from '@documenso/lib/errors/app-error';
+import type { TeamSsoConnection } from '@documenso/prisma/client';
+import { trpc } from '@documenso/trpc/react';
+import { ZUpsertTeamSsoConnectionMutationSchema } from '@documenso/trpc/server/sso-router/schema';
+import { Button } from '@documenso/ui/primitives/button';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@documenso/ui/primitives/form/form';
+import { Input } from '@documenso/ui/primitives/input';
+import { Switch } from '@documenso/ui/primitives/switch';
+import { Textarea } from '@documenso/ui/primitives/textarea';
+import { useToast } from '@documenso/ui/primitives/use-toast';
+
+const ZTeamSsoConnectionFormSchema = ZUpsertTeamSsoConnectionMutationSchema.shape.data;
+
+type TTeamSsoConnectionFormSchema = z.infer<typeof ZTeamSsoConnectionFormSchema>;
+
+export type TeamSsoConnectionFormProps = {
+  teamId: number;
+  connection: TeamSsoConnection | null;
+  hasVerifiedDomains: boolean;
+};
+
+export const TeamSsoConnectionForm = ({
+  teamId,
+  connection,
+  hasVerifiedDomains,
+}: TeamSsoConnectionFormProps) => {
+  const { _ } = useLingui();
+  const { toast } = useToast();
+
+  const form = useForm<TTeamSsoConnectionFormSchema>({
+    resolver: zodResolver(ZTeamSsoConnectionFormSchema),
+    defaultValues: {
+      enabled: connection?.enabled ?? false,
+      forceSso: connection?.forceSso ?? false,
+      emailAttribute: connection?.emailAttribute ?? 'email',
+      nameAttribute: connection?.nameAttribute ?? 'name',
+      idpMetadataXml: connection?.idpMetadataXml ?? '',
+      idpEntityId: connection?.idpEntityId ?? '',
+      idpSsoUrl: connection?.idpSsoUrl ?? '',
+      idpCertificate: connection?.idpCertificate ?? '',
+    },
+  });
+
+  const { mutateAsync: upsertTeamSsoConnection } = trpc.sso.upsertTeamSsoConnection.useMutation();
+
+  const isEnabled = form.watch('enabled');
+
+  const onMetadataFileChange = async (file?: File) => {
+    if (!file) {
+      return;
+    }
+
+    form.setValue('idpMetadataXml', await file.text(), { shouldDirty: true });
+  };
+
+  const onFormSubmit = async (data: TTeamSsoConnectionFormSchema) => {
+    try {
+      const updatedConnection = await upsertTeamSsoConnection({ teamId, data });
+
+      toast({
+        title: _(msg`Success`),
+        description: _(msg`Your single sign-on settings have been saved.`),
+        duration: 5000,
+      });
+
+      form.reset({
+        ...data,
+        forceSso: updatedConnection.forceSso,
+        idpEntityId: updatedConnection.idpEntityId,
+        idpSsoUrl: updatedConnection.idpSsoUrl,
+        idpCertificate: updatedConnection.idpCertificate,
+      });
+    } catch (err) {
+      const error = AppError.parseError(err);
+
+      toast({
+        title: _(msg`Unable to save settings`),
+        description:
+          error.userMessage ??
+          _(
+            msg`We encountered an unknown error while attempting to save your single sign-on settings. Please try again later.`,
+          ),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onFormSubmit)}>
+        <fieldset className="flex h-full flex-col gap-y-4" disabled={form.formState.isSubmitting}>
+          <FormField
+            control={form.control}
+            name="idpMetadataXml"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>
+                  <Trans>Identity provider metadata</Trans>
+                </FormLabel>
+
+                <Input
+                  type="file"
+                  accept=".xml,application/xml,text/xml"
+                  onChange={(e) => void onMetadataFileChange(e.target.files?.[0])}
+                />
+
+                <FormControl>
+                  <Textarea
+                    className="bg-background h-32 font-mono text-xs"
+                    placeholder="<EntityDescriptor ...>"
+                    {...field}
+                    value={field.value ?? ''}
+                  />
+                </FormControl>
+
+                <FormDescription>
+                  <Trans>
+                    Upload or paste the SAML metadata from your identity provider, or leave this
+                    empty and fill in the details below.
+                  </Trans>
+                </FormDescription>
+
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="idpEntityId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>
+                  <Trans>Identity provider entity ID</Trans>
+                </FormLabel>
+                <FormControl>
+                  <Input className="bg-background" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="idpSsoUrl"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>
+                  <Trans>Single sign-on URL</Trans>
+                </FormLabel>
+                <FormControl>
+                  <Input className="bg-background" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="idpCertificate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>
+                  <Trans>Signing certificate</Trans>
+                </FormLabel>
+                <FormControl>
+                  <Textarea
+                    className="bg-background h-24 font-mono text-xs"
+                    placeholder="-----BEGIN CERTIFICATE-----"
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="emailAttribute"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel required>
+                    <Trans>Email attribute</Trans>
+                  </FormLabel>
+                  <FormControl>
+                    <Input className="bg-background" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="nameAttribute"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel required>
+                    <Trans>Name attribute</Trans>
+                  </FormLabel>
+                  <FormControl>
+                    <Input className="bg-background" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={form.control}
+            name="enabled"
+            render={({ field }) => (
+              <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                <div className="space-y-0.5">
+                  <FormLabel>
+                    <Trans>Enable single sign-on</Trans>
+                  </FormLabel>
+                  <FormDescription>
+                    <Trans>
+                      Allow members with an email on a verified domain to sign in with your identity
+                      provider.
+                    </Trans>
+                  </FormDescription>
+                </div>
+                <FormControl>
+                  <Switch checked={field.value} onCheckedChange={field.onChange} />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="forceSso"
+            render={({ field }) => (
+              <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                <div className="space-y-0.5">
+                  <FormLabel>
+                    <Trans>Require single sign-on</Trans>
+                  </FormLabel>
+                  <FormDescription>
+                    {hasVerifiedDomains ? (
+                      <Trans>
+                        Everyone with an email on a verified domain must sign in with your identity
+                        provider. Passwords and other sign in methods will be disabled.
+                      </Trans>
+                    ) : (
+                      <Trans>Verify at least one domain to require single sign-on.</Trans>
+                    )}
+                  </FormDescription>
+                </div>
+                <FormControl>
+                  <Switch
+                    checked={field.value}
+                    disabled={!isEnabled || !hasVerifiedDomains}
+                    onCheckedChange={field.onChange}
+                  />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+
+          <div className="flex flex-row justify-end space-x-4">
+            <Button
+              type="submit"
+              disabled={!form.formState.isDirty}
+              loading={form.formState.isSubmitting}
+            >
+              <Trans>Save</Trans>
+            </Button>
+          </div>
+        </fieldset>
+      </form>
+    </Form>
+  );
+};
@@ -6,13 +6,28 @@ import Link from 'next/link';
 import { useParams, usePathname } from 'next/navigation';
 
 import { Trans } from '@lingui/macro';
-import { Braces, CreditCard, Globe2Icon, Key, Settings2, User, Webhook } from 'lucide-react';
+import {
+  AppWindow,
+  Braces,
+  CreditCard,
+  Globe2Icon,
+  Key,
+  KeySquare,
+  Settings2,
+  ShieldCheck,
+  User,
+  Webhook,
+} from 'lucide-react';
 
 import { useFeatureFlags } from '@documenso/lib/client-only/providers/feature-flag';
 import { IS_BILLING_ENABLED } from '@documenso/lib/constants/app';
+import { canExecuteTeamAction, hasTeamPermission } from '@documenso/lib/utils/teams';
+import { TeamPermission } from '@documenso/prisma/client';
 import { cn } from '@documenso/ui/lib/utils';
 import { Button } from '@documenso/ui/primitives/button';
 
+import { useCurrentTeam } from '~/providers/team';
+
 export type MobileNavProps = HTMLAttributes<HTMLDivElement>;
 
 export const MobileNav = ({ className, ...props }: MobileNavProps) => {
@@ -21,6 +36,8 @@ export const MobileNav = ({ className, ...props }: MobileNavProps) => {
 
   const { getFlag } = useFeatureFlags();
 
+  const { currentTeamMember } = useCurrentTeam();
+
   const isPublicProfileEnabled = getFlag('app_public_profile');
 
   const teamUrl = typeof params?.teamUrl === 'string' ? params?.teamUrl : '';
@@ -30,8 +47,26 @@ export const MobileNav = ({ className, ...props }: MobileNavProps) => {
   const publicProfilePath = `/t/${teamUrl}/settings/public-profile`;
   const membersPath = `/t/${teamUrl}/settings/members`;
   const tokensPath = `/t/${teamUrl}/settings/tokens`;
+  const oauthPath = `/t/${teamUrl}/settings/oauth`;
   const webhooksPath = `/t/${teamUrl}/settings/webhooks`;
   const billingPath = `/t/${teamUrl}/settings/billing`;
+  const rolesPath = `/t/${teamUrl}/settings/roles`;
+  const ssoPath = `/t/${teamUrl}/settings/sso`;
+
+  const canManageTeamRoles =
+    !!currentTeamMember && canExecuteTeamAction('MANAGE_TEAM_ROLES', currentTeamMember.role);
+
+  const canManageTeamSso =
+    !!currentTeamMember && canExecuteTeamAction('MANAGE_TEAM_SSO', currentTeamMember.role);
+
+  const canManageApiTokens =
+    !!currentTeamMember && hasTeamPermission(currentTeamMember, TeamPermission.MANAGE_API_TOKENS);
+
+  const canManageWebhooks =
+    !!currentTeamMember && hasTeamPermission(currentTeamMember, TeamPermission.MANAGE_WEBHOOKS);
+
+  const canViewBilling =
+    !!currentTeamMember && hasTeamPermission(currentTeamMember, TeamPermission.VIEW_BILLING);
 
   return (
     <div
@@ -96,30 +131,79 @@ export const MobileNav = ({ className, ...props }: MobileNavProps) => {
         </Button>
       </Link>
 
-      <Link href={tokensPath}>
-        <Button
-          variant="ghost"
-          className={cn('w-full justify-start', pathname?.startsWith(tokensPath) && 'bg-secondary')}
-        >
-          <Braces className="mr-2 h-5 w-5" />
-          <Trans>API Tokens</Trans>
-        </Button>
-      </Link>
+      {canManageTeamRoles && (
+        <Link href={rolesPath}>
+          <Button
+            variant="ghost"
+            className={cn(
+              'w-full justify-start',
+              pathname?.startsWith(rolesPath) && 'bg-secondary',
+            )}
+          >
+            <ShieldCheck className="mr-2 h-5 w-5" />
+            <Trans>Roles</Trans>
+          </Button>
+        </Link>
+      )}
 
-      <Link href={webhooksPath}>
-        <Button
-          variant="ghost"
-          className={cn(
-            'w-full justify-start',
-            pathname?.startsWith(webhooksPath) && 'bg-secondary',
-          )}
-        >
-          <Webhook className="mr-2 h-5 w-5" />
-          <Trans>Webhooks</Trans>
-        </Button>
-      </Link>
+      {canManageTeamSso && (
+        <Link href={ssoPath}>
+          <Button
+            variant="ghost"
+            className={cn('w-full justify-start', pathname?.startsWith(ssoPath) && 'bg-secondary')}
+          >
+            <KeySquare className="mr-2 h-5 w-5" />
+            <Trans>Single Sign-On</Trans>
+          </Button>
+        </Link>
+      )}
+
+      {canManageApiTokens && (
+        <Link href={tokensPath}>
+          <Button
+            variant="ghost"
+            className={cn(
+              'w-full justify-start',
+              pathname?.startsWith(tokensPath) && 'bg-secondary',
+            )}
+          >
+            <Braces className="mr-2 h-5 w-5" />
+            <Trans>API Tokens</Trans>
+          </Button>
+        </Link>
+      )}
+
+      {canManageApiTokens && (
+        <Link href={oauthPath}>
+          <Button
+            variant="ghost"
+            className={cn(
+              'w-full justify-start',
+              pathname?.startsWith(oauthPath) && 'bg-secondary',
+            )}
+          >
+            <AppWindow className="mr-2 h-5 w-5" />
+            <Trans>OAuth Applications</Trans>
+          </Button>
+        </Link>
+      )}
+
+      {canManageWebhooks && (
+        <Link href={webhooksPath}>
+          <Button
+            variant="ghost"
+            className={cn(
+              'w-full justify-start',
+              pathname?.startsWith(webhooksPath) && 'bg-secondary',
+            )}
+          >
+            <Webhook className="mr-2 h-5 w-5" />
+            <Trans>Webhooks</Trans>
+          </Button>
+        </Link>
+      )}
 
-      {IS_BILLING_ENABLED() && (
+      {IS_BILLING_ENABLED() && canViewBilling && (
         <Link href={billingPath}>
           <Button
             variant="ghost"
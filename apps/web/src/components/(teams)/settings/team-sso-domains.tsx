@@ -0,0 +1,204 @@
+'use client';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+import { useForm } from 'react-hook-form';
+import type { z } from 'zod';
+
+import { AppError } from '@documenso/lib/errors/app-error';
+import type { TeamSsoDomain } from '@documenso/prisma/client';
+import { trpc } from '@documenso/trpc/react';
+import { ZCreateTeamSsoDomainMutationSchema } from '@documenso/trpc/server/sso-router/schema';
+import { CopyTextButton } from '@documenso/ui/components/common/copy-text-button';
+import { Badge } from '@documenso/ui/primitives/badge';
+import { Button } from '@documenso/ui/primitives/button';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormMessage,
+} from '@documenso/ui/primitives/form/form';
+import { Input } from '@documenso/ui/primitives/input';
+import { useToast } from '@documenso/ui/primitives/use-toast';
+
+const ZAddTeamSsoDomainFormSchema = ZCreateTeamSsoDomainMutationSchema.pick({ domain: true });
+
+type TAddTeamSsoDomainFormSchema = z.infer<typeof ZAddTeamSsoDomainFormSchema>;
+
+export type TeamSsoDomainsProps = {
+  teamId: number;
+  domains: (Pick<TeamSsoDomain, 'id' | 'domain' | 'verifiedAt'> & {
+    verificationRecord: {
+      name: string;
+      value: string;
+    };
+  })[];
+};
+
+export const TeamSsoDomains = ({ teamId, domains }: TeamSsoDomainsProps) => {
+  const { _ } = useLingui();
+  const { toast } = useToast();
+
+  const form = useForm<TAddTeamSsoDomainFormSchema>({
+    resolver: zodResolver(ZAddTeamSsoDomainFormSchema),
+    defaultValues: {
+      domain: '',
+    },
+  });
+
+  const { mutateAsync: createTeamSsoDomain } = trpc.sso.createTeamSsoDomain.useMutation();
+
+  const { mutate: verifyTeamSsoDomain, isPending: isVerifyingDomain } =
+    trpc.sso.verifyTeamSsoDomain.useMutation({
+      onSuccess: () => {
+        toast({
+          title: _(msg`Domain verified`),
+          description: _(msg`Your domain has been successfully verified.`),
+          duration: 5000,
+        });
+      },
+      onError: (err) => {
+        const error = AppError.parseError(err);
+
+        toast({
+          title: _(msg`Unable to verify domain`),
+          description:
+            error.userMessage ??
+            _(msg`We encountered an unknown error while attempting to verify this domain.`),
+          variant: 'destructive',
+        });
+      },
+    });
+
+  const { mutate: deleteTeamSsoDomain, isPending: isDeletingDomain } =
+    trpc.sso.deleteTeamSsoDomain.useMutation({
+      onError: () => {
+        toast({
+          title: _(msg`An unknown error occurred`),
+          description: _(
+            msg`We encountered an unknown error while attempting to remove this domain. Please try again later.`,
+          ),
+          variant: 'destructive',
+        });
+      },
+    });
+
+  const onFormSubmit = async ({ domain }: TAddTeamSsoDomainFormSchema) => {
+    try {
+      await createTeamSsoDomain({ teamId, domain });
+
+      form.reset();
+    } catch (err) {
+      const error = AppError.parseError(err);
+
+      form.setError('domain', {
+        type: 'manual',
+        message: error.userMessage ?? _(msg`We were unable to add this domain.`),
+      });
+    }
+  };
+
+  return (
+    <div>
+      <Form {...form}>
+        <form
+          className="flex flex-row items-start gap-x-4"
+          onSubmit={form.handleSubmit(onFormSubmit)}
+        >
+          <FormField
+            control={form.control}
+            name="domain"
+            render={({ field }) => (
+              <FormItem className="flex-1">
+                <FormControl>
+                  <Input className="bg-background" placeholder="example.com" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <Button type="submit" loading={form.formState.isSubmitting}>
+            <Trans>Add domain</Trans>
+          </Button>
+        </form>
+      </Form>
+
+      {domains.length === 0 && (
+        <p className="text-muted-foreground mt-4 text-sm italic">
+          <Trans>You have not added any domains yet.</Trans>
+        </p>
+      )}
+
+      <div className="mt-4 flex flex-col gap-y-4">
+        {domains.map((domain) => (
+          <div key={domain.id} className="border-border rounded-lg border p-4">
+            <div className="flex flex-row items-center justify-between gap-x-4">
+              <div className="flex items-center gap-2">
+                <h5 className="text-sm font-medium">{domain.domain}</h5>
+
+                {domain.verifiedAt ? (
+                  <Badge variant="default" size="small">
+                    <Trans>Verified</Trans>
+                  </Badge>
+                ) : (
+                  <Badge variant="warning" size="small">
+                    <Trans>Pending verification</Trans>
+                  </Badge>
+                )}
+              </div>
+
+              <div className="flex flex-shrink-0 gap-2">
+                {!domain.verifiedAt && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    loading={isVerifyingDomain}
+                    onClick={() => verifyTeamSsoDomain({ teamId, domainId: domain.id })}
+                  >
+                    <Trans>Verify</Trans>
+                  </Button>
+                )}
+
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  disabled={isDeletingDomain}
+                  onClick={() => deleteTeamSsoDomain({ teamId, domainId: domain.id })}
+                >
+                  <Trans>Remove</Trans>
+                </Button>
+              </div>
+            </div>
+
+            {!domain.verifiedAt && (
+              <div className="text-muted-foreground mt-4 space-y-2 text-xs">
+                <p>
+                  <Trans>
+                    Add the following TXT record to your DNS settings to verify this domain.
+                  </Trans>
+                </p>
+
+                <div className="flex items-center justify-between gap-x-2">
+                  <code className="bg-muted break-all rounded px-2 py-1">
+                    {domain.verificationRecord.name}
+                  </code>
+                  <CopyTextButton value={domain.verificationRecord.name} />
+                </div>
+
+                <div className="flex items-center justify-between gap-x-2">
+                  <code className="bg-muted break-all rounded px-2 py-1">
+                    {domain.verificationRecord.value}
+                  </code>
+                  <CopyTextButton value={domain.verificationRecord.value} />
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -105,7 +105,9 @@ export const TeamMembersDataTable = ({
         cell: ({ row }) =>
           teamOwnerUserId === row.original.userId
             ? _(msg`Owner`)
-            : _(TEAM_MEMBER_ROLE_MAP[row.original.role]),
+            : row.original.customRole
+              ? `${_(TEAM_MEMBER_ROLE_MAP[row.original.role])} (${row.original.customRole.name})`
+              : _(TEAM_MEMBER_ROLE_MAP[row.original.role]),
       },
       {
         header: _(msg`Member Since`),
@@ -131,6 +133,7 @@ export const TeamMembersDataTable = ({
                 teamMemberId={row.original.id}
                 teamMemberName={row.original.user.name ?? ''}
                 teamMemberRole={row.original.role}
+                teamMemberCustomRoleId={row.original.customRoleId}
                 trigger={
                   <DropdownMenuItem
                     disabled={
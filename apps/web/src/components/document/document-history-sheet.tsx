@@ -168,10 +168,19 @@ export const DocumentHistorySheet = ({
                     { type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_COMPLETED },
                     { type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_DELETED },
                     { type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_OPENED },
+                    { type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_ACCESS_AUTH_FAILED },
                     { type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_RECIPIENT_COMPLETED },
+                    { type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_RECIPIENT_ID_VERIFICATION_UPDATED },
                     { type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_RECIPIENT_REJECTED },
                     { type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_SENT },
                     { type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_MOVED_TO_TEAM },
+                    { type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_VERSION_RESTORED },
+                    { type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_VERSION_DELETED },
+                    { type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_EXPIRED },
+                    { type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_LOCKED },
+                    { type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_UNLOCKED },
+                    { type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_FORCE_UNLOCKED },
+                    { type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_LOCK_EXPIRED },
                     () => null,
                   )
                   .with(
@@ -271,6 +280,33 @@ export const DocumentHistorySheet = ({
                       />
                     );
                   })
+                  .with(
+                    { type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_RECIPIENT_SKIPPED },
+                    ({ data }) => (
+                      <DocumentHistorySheetChanges
+                        values={[
+                          {
+                            key: 'Email',
+                            value: data.recipientEmail,
+                          },
+                          {
+                            key: 'Reason',
+                            value: formatGenericText(data.reason),
+                          },
+                        ]}
+                      />
+                    ),
+                  )
+                  .with({ type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_VOIDED }, ({ data }) => (
+                    <DocumentHistorySheetChanges
+                      values={[
+                        {
+                          key: 'Reason',
+                          value: data.reason,
+                        },
+                      ]}
+                    />
+                  ))
                   .with({ type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_TITLE_UPDATED }, ({ data }) => (
                     <DocumentHistorySheetChanges
                       values={[
@@ -302,6 +338,24 @@ export const DocumentHistorySheet = ({
                       />
                     ),
                   )
+                  .with({ type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_EXPIRY_UPDATED }, ({ data }) => (
+                    <DocumentHistorySheetChanges
+                      values={[
+                        {
+                          key: 'Old',
+                          value: data.from
+                            ? DateTime.fromISO(data.from).toLocaleString(DateTime.DATETIME_MED)
+                            : 'None',
+                        },
+                        {
+                          key: 'New',
+                          value: data.to
+                            ? DateTime.fromISO(data.to).toLocaleString(DateTime.DATETIME_MED)
+                            : 'None',
+                        },
+                      ]}
+                    />
+                  ))
                   .with({ type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_FIELD_INSERTED }, ({ data }) => (
                     <DocumentHistorySheetChanges
                       values={[
@@ -363,6 +417,22 @@ export const DocumentHistorySheet = ({
                       ]}
                     />
                   ))
+                  .with({ type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_VERSION_CREATED }, ({ data }) => {
+                    if (!data.reason) {
+                      return null;
+                    }
+
+                    return (
+                      <DocumentHistorySheetChanges
+                        values={[
+                          {
+                            key: 'Reason',
+                            value: data.reason,
+                          },
+                        ]}
+                      />
+                    );
+                  })
                   .exhaustive()}
 
                 {isUserDetailsVisible && (
@@ -138,6 +138,7 @@ export const DocumentReadOnlyFields = ({
                           FieldType.RADIO,
                           FieldType.CHECKBOX,
                           FieldType.DROPDOWN,
+                          FieldType.FORMULA,
                         ),
                       },
                       () => field.customText,
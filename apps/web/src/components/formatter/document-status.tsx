@@ -3,7 +3,7 @@ import type { HTMLAttributes } from 'react';
 import type { MessageDescriptor } from '@lingui/core';
 import { msg } from '@lingui/macro';
 import { useLingui } from '@lingui/react';
-import { CheckCircle2, Clock, File } from 'lucide-react';
+import { Ban, CheckCircle2, Clock, File, TimerOff } from 'lucide-react';
 import type { LucideIcon } from 'lucide-react/dist/lucide-react';
 
 import type { ExtendedDocumentStatus } from '@documenso/prisma/types/extended-document-status';
@@ -30,6 +30,18 @@ export const FRIENDLY_STATUS_MAP: Record<ExtendedDocumentStatus, FriendlyStatus>
     icon: CheckCircle2,
     color: 'text-green-500 dark:text-green-300',
   },
+  EXPIRED: {
+    label: msg`Expired`,
+    labelExtended: msg`Document expired`,
+    icon: TimerOff,
+    color: 'text-red-500 dark:text-red-300',
+  },
+  VOIDED: {
+    label: msg`Voided`,
+    labelExtended: msg`Document voided`,
+    icon: Ban,
+    color: 'text-red-500 dark:text-red-300',
+  },
   DRAFT: {
     label: msg`Draft`,
     labelExtended: msg`Document draft`,
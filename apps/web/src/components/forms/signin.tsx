@@ -3,13 +3,13 @@
 import { useEffect, useMemo, useState } from 'react';
 
 import Link from 'next/link';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Trans, msg } from '@lingui/macro';
 import { useLingui } from '@lingui/react';
 import { browserSupportsWebAuthn, startAuthentication } from '@simplewebauthn/browser';
-import { KeyRoundIcon } from 'lucide-react';
+import { Building2Icon, KeyRoundIcon } from 'lucide-react';
 import { signIn } from 'next-auth/react';
 import { useForm } from 'react-hook-form';
 import { FaIdCardClip } from 'react-icons/fa6';
@@ -54,6 +54,10 @@ const ERROR_MESSAGES: Partial<Record<keyof typeof ErrorCode, string>> = {
   [ErrorCode.UNVERIFIED_EMAIL]:
     'This account has not been verified. Please verify your account before signing in.',
   [ErrorCode.ACCOUNT_DISABLED]: 'This account has been disabled. Please contact support.',
+  [ErrorCode.SSO_REQUIRED]:
+    'Your organisation requires you to sign in with single sign-on. Please use the single sign-on option.',
+  [ErrorCode.SSO_SIGN_IN_FAILED]:
+    'We were unable to sign you in with your identity provider. Please try again or contact your administrator.',
 };
 
 const TwoFactorEnabledErrorCode = ErrorCode.TWO_FACTOR_MISSING_CREDENTIALS;
@@ -91,6 +95,7 @@ export const SignInForm = ({
   const { getFlag } = useFeatureFlags();
 
   const router = useRouter();
+  const searchParams = useSearchParams();
 
   const [isTwoFactorAuthenticationDialogOpen, setIsTwoFactorAuthenticationDialogOpen] =
     useState(false);
@@ -100,6 +105,7 @@ export const SignInForm = ({
   >('totp');
 
   const [isPasskeyLoading, setIsPasskeyLoading] = useState(false);
+  const [isSsoLoading, setIsSsoLoading] = useState(false);
 
   const isPasskeyEnabled = getFlag('app_passkey');
 
@@ -122,6 +128,8 @@ export const SignInForm = ({
   const { mutateAsync: createPasskeySigninOptions } =
     trpc.auth.createPasskeySigninOptions.useMutation();
 
+  const { mutateAsync: getSsoSignInUrl } = trpc.sso.getSsoSignInUrl.useMutation();
+
   const form = useForm<TSignInFormSchema>({
     values: {
       email: initialEmail ?? '',
@@ -212,6 +220,49 @@ export const SignInForm = ({
     }
   };
 
+  const onSignInWithSSOClick = async () => {
+    const isEmailValid = await form.trigger('email');
+
+    if (!isEmailValid) {
+      return;
+    }
+
+    try {
+      setIsSsoLoading(true);
+
+      const { pathname, search } = new URL(callbackUrl);
+
+      const { url } = await getSsoSignInUrl({
+        email: form.getValues('email'),
+        callbackUrl: `${pathname}${search}`,
+      });
+
+      if (!url) {
+        setIsSsoLoading(false);
+
+        toast({
+          title: _(msg`Single sign-on unavailable`),
+          description: _(msg`Single sign-on has not been set up for this email domain.`),
+          variant: 'destructive',
+        });
+
+        return;
+      }
+
+      window.location.href = url;
+    } catch (err) {
+      setIsSsoLoading(false);
+
+      toast({
+        title: _(msg`An unknown error occurred`),
+        description: _(
+          msg`We encountered an unknown error while attempting to sign you In. Please try again later.`,
+        ),
+        variant: 'destructive',
+      });
+    }
+  };
+
   const onFormSubmit = async ({ email, password, totpCode, backupCode }: TSignInFormSchema) => {
     try {
       const credentials: Record<string, string> = {
@@ -241,6 +292,17 @@ export const SignInForm = ({
 
         const errorMessage = ERROR_MESSAGES[result.error];
 
+        if (result.error === ErrorCode.SSO_REQUIRED) {
+          toast({
+            title: _(msg`Single sign-on required`),
+            description: errorMessage,
+          });
+
+          await onSignInWithSSOClick();
+
+          return;
+        }
+
         if (result.error === ErrorCode.UNVERIFIED_EMAIL) {
           router.push(`/unverified-account`);
 
@@ -320,6 +382,18 @@ export const SignInForm = ({
     }
   }, [form]);
 
+  useEffect(() => {
+    const error = searchParams?.get('error');
+
+    if (isErrorCode(error) && ERROR_MESSAGES[error]) {
+      toast({
+        title: _(msg`Unable to sign in`),
+        description: ERROR_MESSAGES[error],
+        variant: 'destructive',
+      });
+    }
+  }, [searchParams, toast, _]);
+
   return (
     <Form {...form}>
       <form
@@ -328,7 +402,7 @@ export const SignInForm = ({
       >
         <fieldset
           className="flex w-full flex-col gap-y-4"
-          disabled={isSubmitting || isPasskeyLoading}
+          disabled={isSubmitting || isPasskeyLoading || isSsoLoading}
         >
           <FormField
             control={form.control}
@@ -384,15 +458,13 @@ export const SignInForm = ({
             {isSubmitting ? <Trans>Signing in...</Trans> : <Trans>Sign In</Trans>}
           </Button>
 
-          {(isGoogleSSOEnabled || isPasskeyEnabled || isOIDCSSOEnabled) && (
-            <div className="relative flex items-center justify-center gap-x-4 py-2 text-xs uppercase">
-              <div className="bg-border h-px flex-1" />
-              <span className="text-muted-foreground bg-transparent">
-                <Trans>Or continue with</Trans>
-              </span>
-              <div className="bg-border h-px flex-1" />
-            </div>
-          )}
+          <div className="relative flex items-center justify-center gap-x-4 py-2 text-xs uppercase">
+            <div className="bg-border h-px flex-1" />
+            <span className="text-muted-foreground bg-transparent">
+              <Trans>Or continue with</Trans>
+            </span>
+            <div className="bg-border h-px flex-1" />
+          </div>
 
           {isGoogleSSOEnabled && (
             <Button
@@ -422,6 +494,19 @@ export const SignInForm = ({
             </Button>
           )}
 
+          <Button
+            type="button"
+            size="lg"
+            variant="outline"
+            className="bg-background text-muted-foreground border"
+            disabled={isSubmitting}
+            loading={isSsoLoading}
+            onClick={onSignInWithSSOClick}
+          >
+            {!isSsoLoading && <Building2Icon className="-ml-1 mr-1 h-5 w-5" />}
+            <Trans>Single sign-on</Trans>
+          </Button>
+
           {isPasskeyEnabled && (
             <Button
               type="button"
@@ -13,14 +13,17 @@ import { match } from 'ts-pattern';
 import { z } from 'zod';
 
 import { useCopyToClipboard } from '@documenso/lib/client-only/hooks/use-copy-to-clipboard';
+import { API_TOKEN_SCOPE_MAP } from '@documenso/lib/constants/api-token-scopes';
 import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
 import type { ApiToken } from '@documenso/prisma/client';
+import { ApiTokenScope } from '@documenso/prisma/client';
 import { trpc } from '@documenso/trpc/react';
 import type { TCreateTokenMutationSchema } from '@documenso/trpc/server/api-token-router/schema';
 import { ZCreateTokenMutationSchema } from '@documenso/trpc/server/api-token-router/schema';
 import { cn } from '@documenso/ui/lib/utils';
 import { Button } from '@documenso/ui/primitives/button';
 import { Card, CardContent } from '@documenso/ui/primitives/card';
+import { Checkbox } from '@documenso/ui/primitives/checkbox';
 import {
   Form,
   FormControl,
@@ -91,6 +94,7 @@ export const ApiTokenForm = ({ className, teamId, tokens }: ApiTokenFormProps) =
       tokenName: '',
       expirationDate: '',
       enabled: false,
+      scopes: [ApiTokenScope.DOCUMENTS_READ],
     },
   });
 
@@ -115,12 +119,13 @@ export const ApiTokenForm = ({ className, teamId, tokens }: ApiTokenFormProps) =
     }
   };
 
-  const onSubmit = async ({ tokenName, expirationDate }: TCreateTokenMutationSchema) => {
+  const onSubmit = async ({ tokenName, expirationDate, scopes }: TCreateTokenMutationSchema) => {
     try {
       await createTokenMutation({
         teamId,
         tokenName,
         expirationDate: noExpirationDate ? null : expirationDate,
+        scopes,
       });
 
       toast({
@@ -138,6 +143,7 @@ export const ApiTokenForm = ({ className, teamId, tokens }: ApiTokenFormProps) =
       const errorMessage = match(error.code)
         .with(
           AppErrorCode.UNAUTHORIZED,
+          AppErrorCode.FORBIDDEN,
           () => msg`You do not have permission to create a token for this team`,
         )
         .otherwise(() => msg`Something went wrong. Please try again later.`);
@@ -241,6 +247,57 @@ export const ApiTokenForm = ({ className, teamId, tokens }: ApiTokenFormProps) =
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="scopes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-muted-foreground">
+                    <Trans>Scopes</Trans>
+                  </FormLabel>
+
+                  <div className="space-y-3">
+                    {Object.values(ApiTokenScope).map((scope) => (
+                      <div key={scope} className="flex items-start gap-x-2">
+                        <FormControl>
+                          <Checkbox
+                            id={`api-token-scope-${scope}`}
+                            className="mt-0.5"
+                            checked={field.value.includes(scope)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked
+                                  ? [...field.value, scope]
+                                  : field.value.filter((value) => value !== scope),
+                              )
+                            }
+                          />
+                        </FormControl>
+
+                        <label htmlFor={`api-token-scope-${scope}`} className="text-sm">
+                          <span className="font-mono font-medium">
+                            {API_TOKEN_SCOPE_MAP[scope].value}
+                          </span>
+                          <span className="text-muted-foreground block text-xs">
+                            {_(API_TOKEN_SCOPE_MAP[scope].description)}
+                          </span>
+                        </label>
+                      </div>
+                    ))}
+                  </div>
+
+                  <FormDescription className="text-xs italic">
+                    <Trans>
+                      Only grant the scopes your integration needs. Requests outside of these scopes
+                      will be rejected.
+                    </Trans>
+                  </FormDescription>
+
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <Button
               type="submit"
               className="hidden md:inline-flex"
@@ -2,6 +2,11 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 
 import NextAuth from 'next-auth';
 
+import {
+  authRateLimiter,
+  getRateLimitIpKey,
+  withRateLimit,
+} from '@documenso/ee/server-only/middleware/rate-limiter';
 import { getStripeCustomerByUser } from '@documenso/ee/server-only/stripe/get-customer';
 import { IS_BILLING_ENABLED } from '@documenso/lib/constants/app';
 import { NEXT_AUTH_OPTIONS } from '@documenso/lib/next-auth/auth-options';
@@ -10,7 +15,7 @@ import { slugify } from '@documenso/lib/utils/slugify';
 import { prisma } from '@documenso/prisma';
 import { UserSecurityAuditLogType } from '@documenso/prisma/client';
 
-export default async function auth(req: NextApiRequest, res: NextApiResponse) {
+async function auth(req: NextApiRequest, res: NextApiResponse) {
   const { ipAddress, userAgent } = extractNextApiRequestMetadata(req);
 
   return await NextAuth(req, res, {
@@ -108,3 +113,10 @@ export default async function auth(req: NextApiRequest, res: NextApiResponse) {
     },
   });
 }
+
+// Only sign in attempts are rate limited, session lookups are `GET` requests.
+export default withRateLimit(auth, {
+  limiter: authRateLimiter,
+  keyGenerator: getRateLimitIpKey,
+  methods: ['POST'],
+});
@@ -0,0 +1,12 @@
+import {
+  getRateLimitIpKey,
+  oauthTokenRateLimiter,
+  withRateLimit,
+} from '@documenso/ee/server-only/middleware/rate-limiter';
+import { oauthTokenHandler } from '@documenso/lib/server-only/oauth/token-handler';
+
+export default withRateLimit(oauthTokenHandler, {
+  limiter: oauthTokenRateLimiter,
+  methods: ['POST'],
+  keyGenerator: getRateLimitIpKey,
+});
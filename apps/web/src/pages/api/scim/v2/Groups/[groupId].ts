@@ -0,0 +1,52 @@
+import {
+  createScimHandler,
+  getScimQueryParam,
+  getScimRequestBody,
+  sendScimResponse,
+} from '@documenso/ee/server-only/scim/handler';
+import { ZScimGroupSchema, ZScimPatchRequestSchema } from '@documenso/ee/server-only/scim/schema';
+import {
+  deleteScimGroup,
+  getScimGroup,
+  patchScimGroup,
+  replaceScimGroup,
+} from '@documenso/ee/server-only/scim/scim-groups';
+
+export default createScimHandler({
+  GET: async ({ teamId, req, res }) => {
+    const group = await getScimGroup({
+      teamId,
+      id: getScimQueryParam(req, 'groupId') ?? '',
+    });
+
+    sendScimResponse(res, 200, group);
+  },
+  PUT: async ({ teamId, req, res }) => {
+    const group = await replaceScimGroup({
+      teamId,
+      id: getScimQueryParam(req, 'groupId') ?? '',
+      data: ZScimGroupSchema.parse(getScimRequestBody(req)),
+    });
+
+    sendScimResponse(res, 200, group);
+  },
+  PATCH: async ({ teamId, req, res }) => {
+    const { Operations } = ZScimPatchRequestSchema.parse(getScimRequestBody(req));
+
+    const group = await patchScimGroup({
+      teamId,
+      id: getScimQueryParam(req, 'groupId') ?? '',
+      operations: Operations,
+    });
+
+    sendScimResponse(res, 200, group);
+  },
+  DELETE: async ({ teamId, req, res }) => {
+    await deleteScimGroup({
+      teamId,
+      id: getScimQueryParam(req, 'groupId') ?? '',
+    });
+
+    sendScimResponse(res, 204);
+  },
+});
@@ -0,0 +1,28 @@
+import {
+  createScimHandler,
+  getScimQueryParam,
+  getScimRequestBody,
+  sendScimListResponse,
+  sendScimResponse,
+} from '@documenso/ee/server-only/scim/handler';
+import { ZScimGroupSchema } from '@documenso/ee/server-only/scim/schema';
+import { createScimGroup, listScimGroups } from '@documenso/ee/server-only/scim/scim-groups';
+
+export default createScimHandler({
+  GET: async ({ teamId, req, res }) => {
+    const result = await listScimGroups({
+      teamId,
+      filter: getScimQueryParam(req, 'filter'),
+    });
+
+    sendScimListResponse(res, result);
+  },
+  POST: async ({ teamId, req, res }) => {
+    const group = await createScimGroup({
+      teamId,
+      data: ZScimGroupSchema.parse(getScimRequestBody(req)),
+    });
+
+    sendScimResponse(res, 201, group);
+  },
+});
@@ -0,0 +1,27 @@
+import {
+  SCIM_MAX_RESULTS,
+  SCIM_SERVICE_PROVIDER_CONFIG_SCHEMA,
+} from '@documenso/ee/server-only/scim/constants';
+import { createScimHandler, sendScimResponse } from '@documenso/ee/server-only/scim/handler';
+
+export default createScimHandler({
+  GET: ({ res }) => {
+    sendScimResponse(res, 200, {
+      schemas: [SCIM_SERVICE_PROVIDER_CONFIG_SCHEMA],
+      patch: { supported: true },
+      bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+      filter: { supported: true, maxResults: SCIM_MAX_RESULTS },
+      changePassword: { supported: false },
+      sort: { supported: false },
+      etag: { supported: false },
+      authenticationSchemes: [
+        {
+          type: 'oauthbearertoken',
+          name: 'Team API token',
+          description: 'Authenticate using a team API token as a bearer token.',
+          primary: true,
+        },
+      ],
+    });
+  },
+});
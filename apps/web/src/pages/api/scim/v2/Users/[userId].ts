@@ -0,0 +1,52 @@
+import {
+  createScimHandler,
+  getScimQueryParam,
+  getScimRequestBody,
+  sendScimResponse,
+} from '@documenso/ee/server-only/scim/handler';
+import { ZScimPatchRequestSchema, ZScimUserSchema } from '@documenso/ee/server-only/scim/schema';
+import {
+  deleteScimUser,
+  getScimUser,
+  patchScimUser,
+  replaceScimUser,
+} from '@documenso/ee/server-only/scim/scim-users';
+
+export default createScimHandler({
+  GET: async ({ teamId, req, res }) => {
+    const user = await getScimUser({
+      teamId,
+      id: getScimQueryParam(req, 'userId') ?? '',
+    });
+
+    sendScimResponse(res, 200, user);
+  },
+  PUT: async ({ teamId, req, res }) => {
+    const user = await replaceScimUser({
+      teamId,
+      id: getScimQueryParam(req, 'userId') ?? '',
+      data: ZScimUserSchema.parse(getScimRequestBody(req)),
+    });
+
+    sendScimResponse(res, 200, user);
+  },
+  PATCH: async ({ teamId, req, res }) => {
+    const { Operations } = ZScimPatchRequestSchema.parse(getScimRequestBody(req));
+
+    const user = await patchScimUser({
+      teamId,
+      id: getScimQueryParam(req, 'userId') ?? '',
+      operations: Operations,
+    });
+
+    sendScimResponse(res, 200, user);
+  },
+  DELETE: async ({ teamId, req, res }) => {
+    await deleteScimUser({
+      teamId,
+      id: getScimQueryParam(req, 'userId') ?? '',
+    });
+
+    sendScimResponse(res, 204);
+  },
+});
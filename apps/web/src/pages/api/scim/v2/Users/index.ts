@@ -0,0 +1,33 @@
+import {
+  createScimHandler,
+  getScimQueryParam,
+  getScimRequestBody,
+  sendScimListResponse,
+  sendScimResponse,
+} from '@documenso/ee/server-only/scim/handler';
+import { ZScimUserSchema } from '@documenso/ee/server-only/scim/schema';
+import { createScimUser, listScimUsers } from '@documenso/ee/server-only/scim/scim-users';
+
+export default createScimHandler({
+  GET: async ({ teamId, req, res }) => {
+    const startIndex = getScimQueryParam(req, 'startIndex');
+    const count = getScimQueryParam(req, 'count');
+
+    const result = await listScimUsers({
+      teamId,
+      filter: getScimQueryParam(req, 'filter'),
+      startIndex: startIndex ? Number(startIndex) || 1 : undefined,
+      count: count ? Number(count) || 0 : undefined,
+    });
+
+    sendScimListResponse(res, result);
+  },
+  POST: async ({ teamId, req, res }) => {
+    const user = await createScimUser({
+      teamId,
+      data: ZScimUserSchema.parse(getScimRequestBody(req)),
+    });
+
+    sendScimResponse(res, 201, user);
+  },
+});
@@ -0,0 +1,67 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { DateTime } from 'luxon';
+
+import { completeSamlSignIn } from '@documenso/ee/server-only/sso/complete-saml-sign-in';
+import { ErrorCode } from '@documenso/lib/next-auth/error-codes';
+import { encryptSecondaryData } from '@documenso/lib/server-only/crypto/encrypt';
+import { prisma } from '@documenso/prisma';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      status: 'error',
+      message: 'Method not allowed',
+    });
+  }
+
+  const teamId = Number(req.query['teamId']);
+  const { SAMLResponse, RelayState } = req.body ?? {};
+
+  if (teamId === 0 || Number.isNaN(teamId) || typeof SAMLResponse !== 'string') {
+    return res.status(400).json({
+      status: 'error',
+      message: 'Invalid request',
+    });
+  }
+
+  try {
+    const user = await completeSamlSignIn({
+      teamId,
+      samlResponse: SAMLResponse,
+    });
+
+    const expiresAt = DateTime.now().plus({ minutes: 5 });
+
+    // The credential is handed over to the `manual` provider through a single use token
+    // so it never ends up in the URL.
+    const { id } = await prisma.anonymousVerificationToken.create({
+      data: {
+        token: encryptSecondaryData({
+          data: JSON.stringify({
+            userId: user.id,
+            email: user.email,
+          }),
+          expiresAt: expiresAt.toMillis(),
+        }),
+        expiresAt: expiresAt.toJSDate(),
+      },
+    });
+
+    const searchParams = new URLSearchParams({ token: id });
+
+    if (
+      typeof RelayState === 'string' &&
+      RelayState.startsWith('/') &&
+      !RelayState.startsWith('//')
+    ) {
+      searchParams.set('callbackUrl', RelayState);
+    }
+
+    return res.redirect(303, `/sso/complete?${searchParams.toString()}`);
+  } catch (err) {
+    console.error(err);
+
+    return res.redirect(303, `/signin?error=${ErrorCode.SSO_SIGN_IN_FAILED}`);
+  }
+}
@@ -0,0 +1,46 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { createSamlClient } from '@documenso/ee/server-only/sso/saml';
+import { prisma } from '@documenso/prisma';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const teamId = Number(req.query['teamId']);
+
+  if (teamId === 0 || Number.isNaN(teamId)) {
+    return res.status(400).json({
+      status: 'error',
+      message: 'Invalid team ID',
+    });
+  }
+
+  const connection = await prisma.teamSsoConnection.findFirst({
+    where: {
+      teamId,
+      enabled: true,
+    },
+  });
+
+  if (!connection) {
+    return res.status(404).json({
+      status: 'error',
+      message: 'Not found',
+    });
+  }
+
+  const callbackUrl = req.query['callbackUrl'];
+
+  // The relay state is returned to us by the identity provider, only allow relative
+  // paths so it can't be used as an open redirect.
+  const relayState =
+    typeof callbackUrl === 'string' && callbackUrl.startsWith('/') && !callbackUrl.startsWith('//')
+      ? callbackUrl
+      : '';
+
+  const url = await createSamlClient(connection).getAuthorizeUrlAsync(
+    relayState,
+    req.headers.host,
+    {},
+  );
+
+  return res.redirect(302, url);
+}
@@ -0,0 +1,18 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { getSamlServiceProviderMetadata } from '@documenso/ee/server-only/sso/saml';
+
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const teamId = Number(req.query['teamId']);
+
+  if (teamId === 0 || Number.isNaN(teamId)) {
+    return res.status(400).json({
+      status: 'error',
+      message: 'Invalid team ID',
+    });
+  }
+
+  res.setHeader('Content-Type', 'application/xml');
+
+  return res.status(200).send(getSamlServiceProviderMetadata(teamId));
+}
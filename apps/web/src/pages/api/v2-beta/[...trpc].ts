@@ -1,5 +1,10 @@
 import { createOpenApiNextHandler } from 'trpc-to-openapi';
 
+import {
+  apiRateLimiter,
+  getRateLimitApiTokenKey,
+  withRateLimit,
+} from '@documenso/ee/server-only/middleware/rate-limiter';
 import {
   AppError,
   AppErrorCode,
@@ -11,7 +16,7 @@ import { appRouter } from '@documenso/trpc/server/router';
 
 const logger = buildLogger();
 
-export default createOpenApiNextHandler<typeof appRouter>({
+const openApiHandler = createOpenApiNextHandler<typeof appRouter>({
   router: appRouter,
   createContext: async ({ req, res }) => createTrpcContext({ req, res, requestSource: 'apiV2' }),
   onError: ({ error, path }) => {
@@ -57,4 +62,9 @@ export default createOpenApiNextHandler<typeof appRouter>({
   },
 });
 
+export default withRateLimit(openApiHandler, {
+  limiter: apiRateLimiter,
+  keyGenerator: getRateLimitApiTokenKey,
+});
+
 const errorCodesToAlertOn = [AppErrorCode.UNKNOWN_ERROR, 'INTERNAL_SERVER_ERROR'];
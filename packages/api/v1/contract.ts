@@ -6,9 +6,11 @@ import {
   ZCreateDocumentFromTemplateMutationSchema,
   ZCreateDocumentMutationResponseSchema,
   ZCreateDocumentMutationSchema,
+  ZCreateDocumentVersionMutationSchema,
   ZCreateFieldMutationSchema,
   ZCreateRecipientMutationSchema,
   ZDeleteDocumentMutationSchema,
+  ZDeleteDocumentVersionMutationSchema,
   ZDeleteFieldMutationSchema,
   ZDeleteRecipientMutationSchema,
   ZDownloadDocumentSuccessfulSchema,
@@ -20,12 +22,16 @@ import {
   ZInviteTeamMemberMutationSchema,
   ZNoBodyMutationSchema,
   ZResendDocumentForSigningMutationSchema,
+  ZRestoreDocumentVersionMutationSchema,
   ZSendDocumentForSigningMutationSchema,
   ZSuccessfulDeleteTemplateResponseSchema,
   ZSuccessfulDocumentResponseSchema,
+  ZSuccessfulDocumentVersionResponseSchema,
   ZSuccessfulFieldCreationResponseSchema,
   ZSuccessfulFieldResponseSchema,
   ZSuccessfulGetDocumentResponseSchema,
+  ZSuccessfulGetDocumentVersionResponseSchema,
+  ZSuccessfulGetDocumentVersionsResponseSchema,
   ZSuccessfulGetTemplateResponseSchema,
   ZSuccessfulGetTemplatesResponseSchema,
   ZSuccessfulInviteTeamMemberResponseSchema,
@@ -199,6 +205,74 @@ export const ApiContractV1 = c.router(
       summary: 'Delete a document',
     },
 
+    getDocumentVersions: {
+      method: 'GET',
+      path: '/api/v1/documents/:id/versions',
+      responses: {
+        200: ZSuccessfulGetDocumentVersionsResponseSchema,
+        400: ZUnsuccessfulResponseSchema,
+        401: ZUnsuccessfulResponseSchema,
+        404: ZUnsuccessfulResponseSchema,
+        500: ZUnsuccessfulResponseSchema,
+      },
+      summary: 'Get all versions of a document',
+    },
+
+    getDocumentVersion: {
+      method: 'GET',
+      path: '/api/v1/documents/:id/versions/:versionId',
+      responses: {
+        200: ZSuccessfulGetDocumentVersionResponseSchema,
+        400: ZUnsuccessfulResponseSchema,
+        401: ZUnsuccessfulResponseSchema,
+        404: ZUnsuccessfulResponseSchema,
+        500: ZUnsuccessfulResponseSchema,
+      },
+      summary: 'Get a single version of a document',
+    },
+
+    createDocumentVersion: {
+      method: 'POST',
+      path: '/api/v1/documents/:id/versions',
+      body: ZCreateDocumentVersionMutationSchema,
+      responses: {
+        200: ZSuccessfulDocumentVersionResponseSchema,
+        400: ZUnsuccessfulResponseSchema,
+        401: ZUnsuccessfulResponseSchema,
+        404: ZUnsuccessfulResponseSchema,
+        500: ZUnsuccessfulResponseSchema,
+      },
+      summary: 'Create a version from the current content of a document',
+    },
+
+    restoreDocumentVersion: {
+      method: 'POST',
+      path: '/api/v1/documents/:id/versions/:versionId/restore',
+      body: ZRestoreDocumentVersionMutationSchema,
+      responses: {
+        200: ZSuccessfulDocumentVersionResponseSchema,
+        400: ZUnsuccessfulResponseSchema,
+        401: ZUnsuccessfulResponseSchema,
+        404: ZUnsuccessfulResponseSchema,
+        500: ZUnsuccessfulResponseSchema,
+      },
+      summary: 'Restore a draft document to a previous version',
+    },
+
+    deleteDocumentVersion: {
+      method: 'DELETE',
+      path: '/api/v1/documents/:id/versions/:versionId',
+      body: ZDeleteDocumentVersionMutationSchema,
+      responses: {
+        200: ZSuccessfulDocumentVersionResponseSchema,
+        400: ZUnsuccessfulResponseSchema,
+        401: ZUnsuccessfulResponseSchema,
+        404: ZUnsuccessfulResponseSchema,
+        500: ZUnsuccessfulResponseSchema,
+      },
+      summary: 'Delete a version of a document',
+    },
+
     createRecipient: {
       method: 'POST',
       path: '/api/v1/documents/:id/recipients',
@@ -1,6 +1,7 @@
 import { createNextRoute } from '@ts-rest/next';
 import { match } from 'ts-pattern';
 
+import { DocumentVersionService } from '@documenso/ee/server-only/document/document-version-service';
 import { getServerLimits } from '@documenso/ee/server-only/limits/server';
 import { NEXT_PUBLIC_WEBAPP_URL } from '@documenso/lib/constants/app';
 import { DATE_FORMATS, DEFAULT_DOCUMENT_DATE_FORMAT } from '@documenso/lib/constants/date-formats';
@@ -38,6 +39,7 @@ import {
   ZCheckboxFieldMeta,
   ZDropdownFieldMeta,
   ZFieldMetaSchema,
+  ZFormulaFieldMeta,
   ZNumberFieldMeta,
   ZRadioFieldMeta,
   ZTextFieldMeta,
@@ -61,6 +63,9 @@ import {
 
 import { ApiContractV1 } from './contract';
 import { authenticatedMiddleware } from './middleware/authenticated';
+import { API_V1_ROUTE_SCOPES } from './scopes';
+
+const documentVersionService = new DocumentVersionService();
 
 export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
   getDocuments: authenticatedMiddleware(async (args, user, team) => {
@@ -81,7 +86,7 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
         totalPages,
       },
     };
-  }),
+  }, API_V1_ROUTE_SCOPES.getDocuments),
 
   getDocument: authenticatedMiddleware(async (args, user, team) => {
     const { id: documentId } = args.params;
@@ -143,7 +148,7 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
         },
       };
     }
-  }),
+  }, API_V1_ROUTE_SCOPES.getDocument),
 
   downloadSignedDocument: authenticatedMiddleware(async (args, user, team) => {
     const { id: documentId } = args.params;
@@ -205,7 +210,7 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
         },
       };
     }
-  }),
+  }, API_V1_ROUTE_SCOPES.downloadSignedDocument),
 
   deleteDocument: authenticatedMiddleware(async (args, user, team, { metadata }) => {
     const { id: documentId } = args.params;
@@ -245,7 +250,120 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
         },
       };
     }
-  }),
+  }, API_V1_ROUTE_SCOPES.deleteDocument),
+
+  getDocumentVersions: authenticatedMiddleware(async (args, user, team) => {
+    const { id: documentId } = args.params;
+
+    try {
+      const versions = await documentVersionService.findDocumentVersions({
+        documentId: Number(documentId),
+        userId: user.id,
+        teamId: team?.id,
+      });
+
+      return {
+        status: 200,
+        body: {
+          versions,
+        },
+      };
+    } catch (err) {
+      return AppError.toRestAPIError(err);
+    }
+  }, API_V1_ROUTE_SCOPES.getDocumentVersions),
+
+  getDocumentVersion: authenticatedMiddleware(async (args, user, team) => {
+    const { id: documentId, versionId } = args.params;
+
+    try {
+      const { documentData, ...version } = await documentVersionService.getDocumentVersion({
+        documentId: Number(documentId),
+        userId: user.id,
+        teamId: team?.id,
+        versionId: Number(versionId),
+      });
+
+      const downloadUrl =
+        documentData.type === DocumentDataType.S3_PATH
+          ? (await getPresignGetUrl(documentData.data)).url
+          : null;
+
+      return {
+        status: 200,
+        body: {
+          ...version,
+          downloadUrl,
+        },
+      };
+    } catch (err) {
+      return AppError.toRestAPIError(err);
+    }
+  }, API_V1_ROUTE_SCOPES.getDocumentVersion),
+
+  createDocumentVersion: authenticatedMiddleware(async (args, user, team, { metadata }) => {
+    const { id: documentId } = args.params;
+    const { reason } = args.body;
+
+    try {
+      const version = await documentVersionService.createDocumentVersion({
+        documentId: Number(documentId),
+        userId: user.id,
+        teamId: team?.id,
+        reason,
+        requestMetadata: metadata,
+      });
+
+      return {
+        status: 200,
+        body: version,
+      };
+    } catch (err) {
+      return AppError.toRestAPIError(err);
+    }
+  }, API_V1_ROUTE_SCOPES.createDocumentVersion),
+
+  restoreDocumentVersion: authenticatedMiddleware(async (args, user, team, { metadata }) => {
+    const { id: documentId, versionId } = args.params;
+
+    try {
+      const version = await documentVersionService.restoreDocumentVersion({
+        documentId: Number(documentId),
+        userId: user.id,
+        teamId: team?.id,
+        versionId: Number(versionId),
+        requestMetadata: metadata,
+      });
+
+      return {
+        status: 200,
+        body: version,
+      };
+    } catch (err) {
+      return AppError.toRestAPIError(err);
+    }
+  }, API_V1_ROUTE_SCOPES.restoreDocumentVersion),
+
+  deleteDocumentVersion: authenticatedMiddleware(async (args, user, team, { metadata }) => {
+    const { id: documentId, versionId } = args.params;
+
+    try {
+      const version = await documentVersionService.deleteDocumentVersion({
+        documentId: Number(documentId),
+        userId: user.id,
+        teamId: team?.id,
+        versionId: Number(versionId),
+        requestMetadata: metadata,
+      });
+
+      return {
+        status: 200,
+        body: version,
+      };
+    } catch (err) {
+      return AppError.toRestAPIError(err);
+    }
+  }, API_V1_ROUTE_SCOPES.deleteDocumentVersion),
 
   createDocument: authenticatedMiddleware(async (args, user, team, { metadata }) => {
     const { body } = args;
@@ -271,6 +389,16 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
         };
       }
 
+      // The file is uploaded directly to S3 afterwards so its size is not known yet.
+      if (remaining.storage <= 0) {
+        return {
+          status: 400,
+          body: {
+            message: 'You have reached your storage limit',
+          },
+        };
+      }
+
       const dateFormat = body.meta.dateFormat
         ? DATE_FORMATS.find((format) => format.value === body.meta.dateFormat)
         : DATE_FORMATS.find((format) => format.value === DEFAULT_DOCUMENT_DATE_FORMAT);
@@ -332,6 +460,7 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
         typedSignatureEnabled: body.meta.typedSignatureEnabled,
         distributionMethod: body.meta.distributionMethod,
         emailSettings: body.meta.emailSettings,
+        reminderSettings: body.meta.reminderSettings,
         requestMetadata: metadata,
       });
 
@@ -380,7 +509,7 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
         },
       };
     }
-  }),
+  }, API_V1_ROUTE_SCOPES.createDocument),
 
   deleteTemplate: authenticatedMiddleware(async (args, user, team) => {
     const { id: templateId } = args.params;
@@ -404,7 +533,7 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
         },
       };
     }
-  }),
+  }, API_V1_ROUTE_SCOPES.deleteTemplate),
 
   getTemplate: authenticatedMiddleware(async (args, user, team) => {
     const { id: templateId } = args.params;
@@ -430,7 +559,7 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
     } catch (err) {
       return AppError.toRestAPIError(err);
     }
-  }),
+  }, API_V1_ROUTE_SCOPES.getTemplate),
 
   getTemplates: authenticatedMiddleware(async (args, user, team) => {
     const page = Number(args.query.page) || 1;
@@ -461,7 +590,7 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
     } catch (err) {
       return AppError.toRestAPIError(err);
     }
-  }),
+  }, API_V1_ROUTE_SCOPES.getTemplates),
 
   createDocumentFromTemplate: authenticatedMiddleware(async (args, user, team, { metadata }) => {
     const { body, params } = args;
@@ -491,6 +620,13 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
     let documentDataId = document.documentDataId;
 
     if (body.formValues) {
+      await documentVersionService.snapshotDocumentVersion({
+        documentId: document.id,
+        userId: user.id,
+        reason: 'Before inserting form values',
+        requestMetadata: metadata,
+      });
+
       const pdf = await getFile(document.documentData);
 
       const prefilled = await insertFormValuesInPdf({
@@ -498,11 +634,14 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
         formValues: body.formValues,
       });
 
-      const newDocumentData = await putPdfFile({
-        name: fileName,
-        type: 'application/pdf',
-        arrayBuffer: async () => Promise.resolve(prefilled),
-      });
+      const newDocumentData = await putPdfFile(
+        {
+          name: fileName,
+          type: 'application/pdf',
+          arrayBuffer: async () => Promise.resolve(prefilled),
+        },
+        { userId: user.id, teamId: team?.id },
+      );
 
       documentDataId = newDocumentData.id;
     }
@@ -523,6 +662,15 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
       },
     });
 
+    if (body.formValues) {
+      await documentVersionService.snapshotDocumentVersion({
+        documentId: document.id,
+        userId: user.id,
+        reason: 'Form values inserted',
+        requestMetadata: metadata,
+      });
+    }
+
     if (body.meta) {
       await upsertDocumentMeta({
         documentId: document.id,
@@ -559,7 +707,7 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
         })),
       },
     };
-  }),
+  }, API_V1_ROUTE_SCOPES.createDocumentFromTemplate),
 
   generateDocumentFromTemplate: authenticatedMiddleware(async (args, user, team, { metadata }) => {
     const { body, params } = args;
@@ -599,6 +747,13 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
     if (body.formValues) {
       const fileName = document.title.endsWith('.pdf') ? document.title : `${document.title}.pdf`;
 
+      await documentVersionService.snapshotDocumentVersion({
+        documentId: document.id,
+        userId: user.id,
+        reason: 'Before inserting form values',
+        requestMetadata: metadata,
+      });
+
       const pdf = await getFile(document.documentData);
 
       const prefilled = await insertFormValuesInPdf({
@@ -606,11 +761,14 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
         formValues: body.formValues,
       });
 
-      const newDocumentData = await putPdfFile({
-        name: fileName,
-        type: 'application/pdf',
-        arrayBuffer: async () => Promise.resolve(prefilled),
-      });
+      const newDocumentData = await putPdfFile(
+        {
+          name: fileName,
+          type: 'application/pdf',
+          arrayBuffer: async () => Promise.resolve(prefilled),
+        },
+        { userId: user.id, teamId: team?.id },
+      );
 
       await updateDocument({
         documentId: document.id,
@@ -625,6 +783,13 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
           },
         },
       });
+
+      await documentVersionService.snapshotDocumentVersion({
+        documentId: document.id,
+        userId: user.id,
+        reason: 'Form values inserted',
+        requestMetadata: metadata,
+      });
     }
 
     if (body.authOptions) {
@@ -652,7 +817,7 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
         })),
       },
     };
-  }),
+  }, API_V1_ROUTE_SCOPES.generateDocumentFromTemplate),
 
   sendDocument: authenticatedMiddleware(async (args, user, team, { metadata }) => {
     const { id: documentId } = args.params;
@@ -727,7 +892,7 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
         },
       };
     }
-  }),
+  }, API_V1_ROUTE_SCOPES.sendDocument),
 
   resendDocument: authenticatedMiddleware(async (args, user, team, { metadata }) => {
     const { id: documentId } = args.params;
@@ -756,7 +921,7 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
         },
       };
     }
-  }),
+  }, API_V1_ROUTE_SCOPES.resendDocument),
 
   createRecipient: authenticatedMiddleware(async (args, user, team, { metadata }) => {
     const { id: documentId } = args.params;
@@ -847,7 +1012,7 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
         },
       };
     }
-  }),
+  }, API_V1_ROUTE_SCOPES.createRecipient),
 
   updateRecipient: authenticatedMiddleware(async (args, user, team) => {
     const { id: documentId, recipientId } = args.params;
@@ -907,7 +1072,7 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
         signingUrl: `${NEXT_PUBLIC_WEBAPP_URL()}/sign/${updatedRecipient.token}`,
       },
     };
-  }),
+  }, API_V1_ROUTE_SCOPES.updateRecipient),
 
   deleteRecipient: authenticatedMiddleware(async (args, user, team) => {
     const { id: documentId, recipientId } = args.params;
@@ -961,7 +1126,7 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
         signingUrl: '',
       },
     };
-  }),
+  }, API_V1_ROUTE_SCOPES.deleteRecipient),
 
   createField: authenticatedMiddleware(async (args, user, team) => {
     const { id: documentId } = args.params;
@@ -1031,9 +1196,14 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
               throw new Error('Recipient has already signed the document');
             }
 
-            const advancedField = ['NUMBER', 'RADIO', 'CHECKBOX', 'DROPDOWN', 'TEXT'].includes(
-              type,
-            );
+            const advancedField = [
+              'NUMBER',
+              'RADIO',
+              'CHECKBOX',
+              'DROPDOWN',
+              'TEXT',
+              'FORMULA',
+            ].includes(type);
 
             if (advancedField && !fieldMeta) {
               throw new Error(
@@ -1051,6 +1221,7 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
               .with('DROPDOWN', () => ZDropdownFieldMeta.safeParse(fieldMeta))
               .with('NUMBER', () => ZNumberFieldMeta.safeParse(fieldMeta))
               .with('TEXT', () => ZTextFieldMeta.safeParse(fieldMeta))
+              .with('FORMULA', () => ZFormulaFieldMeta.safeParse(fieldMeta))
               .with('SIGNATURE', 'INITIALS', 'DATE', 'EMAIL', 'NAME', () => ({
                 success: true,
                 data: undefined,
@@ -1132,7 +1303,7 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
     } catch (err) {
       return AppError.toRestAPIError(err);
     }
-  }),
+  }, API_V1_ROUTE_SCOPES.createField),
 
   updateField: authenticatedMiddleware(async (args, user, team) => {
     const { id: documentId, fieldId } = args.params;
@@ -1223,7 +1394,7 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
         documentId: Number(documentId),
       },
     };
-  }),
+  }, API_V1_ROUTE_SCOPES.updateField),
 
   deleteField: authenticatedMiddleware(async (args, user, team) => {
     const { id: documentId, fieldId } = args.params;
@@ -1319,7 +1490,7 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
         documentId: Number(documentId),
       },
     };
-  }),
+  }, API_V1_ROUTE_SCOPES.deleteField),
 
   findTeamMembers: authenticatedMiddleware(async (args, user, team) => {
     const { id: teamId } = args.params;
@@ -1368,7 +1539,7 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
         })),
       },
     };
-  }),
+  }, API_V1_ROUTE_SCOPES.findTeamMembers),
 
   inviteTeamMember: authenticatedMiddleware(async (args, user, team) => {
     const { id: teamId } = args.params;
@@ -1436,7 +1607,7 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
         message: 'An invite has been sent to the member',
       },
     };
-  }),
+  }, API_V1_ROUTE_SCOPES.inviteTeamMember),
 
   updateTeamMember: authenticatedMiddleware(async (args, user, team) => {
     const { id: teamId, memberId } = args.params;
@@ -1504,7 +1675,7 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
         role: updatedMember.role,
       },
     };
-  }),
+  }, API_V1_ROUTE_SCOPES.updateTeamMember),
 
   removeTeamMember: authenticatedMiddleware(async (args, user, team) => {
     const { id: teamId, memberId } = args.params;
@@ -1585,7 +1756,7 @@ export const ApiContractV1Implementation = createNextRoute(ApiContractV1, {
         role: member.role,
       },
     };
-  }),
+  }, API_V1_ROUTE_SCOPES.removeTeamMember),
 });
 
 const updateDocument = async ({
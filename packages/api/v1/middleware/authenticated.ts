@@ -1,10 +1,12 @@
 import type { NextApiRequest } from 'next';
 
+import { meterApiCall } from '@documenso/ee/server-only/limits/record-usage';
 import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
-import { getApiTokenByToken } from '@documenso/lib/server-only/public-api/get-api-token-by-token';
+import { assertApiTokenScopes } from '@documenso/lib/server-only/public-api/assert-api-token-scopes';
+import { getApiCredentialsByToken } from '@documenso/lib/server-only/public-api/get-api-credentials-by-token';
 import type { ApiRequestMetadata } from '@documenso/lib/universal/extract-request-metadata';
 import { extractNextApiRequestMetadata } from '@documenso/lib/universal/extract-request-metadata';
-import type { Team, User } from '@documenso/prisma/client';
+import type { ApiTokenScope, Team, User } from '@documenso/prisma/client';
 
 export const authenticatedMiddleware = <
   T extends {
@@ -21,6 +23,7 @@ export const authenticatedMiddleware = <
     team: Team | null | undefined,
     options: { metadata: ApiRequestMetadata },
   ) => Promise<R>,
+  scopes: ApiTokenScope[],
 ) => {
   return async (args: T) => {
     try {
@@ -35,7 +38,7 @@ export const authenticatedMiddleware = <
         });
       }
 
-      const apiToken = await getApiTokenByToken({ token });
+      const apiToken = await getApiCredentialsByToken({ token });
 
       if (apiToken.user.disabled) {
         throw new AppError(AppErrorCode.UNAUTHORIZED, {
@@ -43,21 +46,51 @@ export const authenticatedMiddleware = <
         });
       }
 
+      assertApiTokenScopes({ apiToken, scopes });
+
+      await meterApiCall({ userId: apiToken.user.id, teamId: apiToken.teamId });
+
       const metadata: ApiRequestMetadata = {
         requestMetadata: extractNextApiRequestMetadata(args.req),
         source: 'apiV1',
         auth: 'api',
-        auditUser: {
-          id: apiToken.team ? null : apiToken.user.id,
-          email: apiToken.team ? null : apiToken.user.email,
-          name: apiToken.team?.name ?? apiToken.user.name,
-        },
+        // OAuth access tokens act on behalf of the user rather than the team.
+        auditUser:
+          apiToken.team && apiToken.type === 'apiToken'
+            ? {
+                id: null,
+                email: null,
+                name: apiToken.team.name,
+              }
+            : {
+                id: apiToken.user.id,
+                email: apiToken.user.email,
+                name: apiToken.user.name,
+              },
       };
 
       return await handler(args, apiToken.user, apiToken.team, { metadata });
     } catch (err) {
       console.log({ err: err });
 
+      if (err instanceof AppError && err.code === AppErrorCode.TOO_MANY_REQUESTS) {
+        return {
+          status: 429,
+          body: {
+            message: err.message,
+          },
+        } as const;
+      }
+
+      if (err instanceof AppError && err.statusCode === 403) {
+        return {
+          status: 403,
+          body: {
+            message: err.message,
+          },
+        } as const;
+      }
+
       let message = 'Unauthorized';
 
       if (err instanceof AppError) {
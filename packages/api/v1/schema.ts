@@ -11,6 +11,7 @@ import {
   ZRecipientActionAuthTypesSchema,
 } from '@documenso/lib/types/document-auth';
 import { ZDocumentEmailSettingsSchema } from '@documenso/lib/types/document-email';
+import { ZDocumentReminderSettingsSchema } from '@documenso/lib/types/document-reminders';
 import { ZFieldMetaSchema } from '@documenso/lib/types/field-meta';
 import {
   DocumentDataType,
@@ -54,6 +55,9 @@ export const ZSuccessfulDocumentResponseSchema = z.object({
   createdAt: z.date(),
   updatedAt: z.date(),
   completedAt: z.date().nullable(),
+  expiresAt: z.date().nullish(),
+  voidedAt: z.date().nullish(),
+  voidReason: z.string().nullish(),
 });
 
 export const ZSuccessfulGetDocumentResponseSchema = ZSuccessfulDocumentResponseSchema.extend({
@@ -159,6 +163,7 @@ export const ZCreateDocumentMutationSchema = z.object({
       typedSignatureEnabled: z.boolean().optional().default(true),
       distributionMethod: z.nativeEnum(DocumentDistributionMethod).optional(),
       emailSettings: ZDocumentEmailSettingsSchema.optional(),
+      reminderSettings: ZDocumentReminderSettingsSchema.optional(),
     })
     .partial()
     .optional()
@@ -289,6 +294,7 @@ export const ZGenerateDocumentFromTemplateMutationSchema = z.object({
       distributionMethod: z.nativeEnum(DocumentDistributionMethod),
       typedSignatureEnabled: z.boolean(),
       emailSettings: ZDocumentEmailSettingsSchema,
+      reminderSettings: ZDocumentReminderSettingsSchema,
     })
     .partial()
     .optional(),
@@ -457,6 +463,62 @@ export const ZSuccessfulSigningResponseSchema = z
 
 export type TSuccessfulSigningResponseSchema = z.infer<typeof ZSuccessfulSigningResponseSchema>;
 
+/**
+ * Document versions
+ */
+export const ZDocumentVersionSchema = z.object({
+  id: z.number(),
+  documentId: z.number(),
+  documentDataId: z.string(),
+  versionNumber: z.number(),
+  reason: z.string().nullable(),
+  hash: z.string(),
+  createdAt: z.date(),
+  createdByUser: z
+    .object({
+      id: z.number(),
+      name: z.string().nullable(),
+      email: z.string(),
+    })
+    .nullable(),
+});
+
+export const ZSuccessfulGetDocumentVersionsResponseSchema = z.object({
+  versions: ZDocumentVersionSchema.extend({
+    isCurrent: z.boolean(),
+  }).array(),
+});
+
+export type TSuccessfulGetDocumentVersionsResponseSchema = z.infer<
+  typeof ZSuccessfulGetDocumentVersionsResponseSchema
+>;
+
+export const ZSuccessfulGetDocumentVersionResponseSchema = ZDocumentVersionSchema.extend({
+  isCurrent: z.boolean(),
+  downloadUrl: z.string().nullable().openapi({
+    description:
+      'A presigned URL to download the PDF of this version. Only available when the storage transport is S3.',
+  }),
+});
+
+export type TSuccessfulGetDocumentVersionResponseSchema = z.infer<
+  typeof ZSuccessfulGetDocumentVersionResponseSchema
+>;
+
+export const ZCreateDocumentVersionMutationSchema = z.object({
+  reason: z.string().trim().max(255).optional(),
+});
+
+export type TCreateDocumentVersionMutationSchema = z.infer<
+  typeof ZCreateDocumentVersionMutationSchema
+>;
+
+export const ZSuccessfulDocumentVersionResponseSchema = ZDocumentVersionSchema;
+
+export const ZRestoreDocumentVersionMutationSchema = null;
+
+export const ZDeleteDocumentVersionMutationSchema = null;
+
 /**
  * General
  */
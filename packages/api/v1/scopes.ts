@@ -0,0 +1,36 @@
+import { ApiTokenScope } from '@documenso/prisma/client';
+
+import type { ApiContractV1 } from './contract';
+
+/**
+ * The scopes an API token must have been granted to access each route.
+ */
+export const API_V1_ROUTE_SCOPES: Record<keyof typeof ApiContractV1, ApiTokenScope[]> = {
+  getDocuments: [ApiTokenScope.DOCUMENTS_READ],
+  getDocument: [ApiTokenScope.DOCUMENTS_READ],
+  downloadSignedDocument: [ApiTokenScope.DOCUMENTS_READ],
+  deleteDocument: [ApiTokenScope.DOCUMENTS_WRITE],
+  getDocumentVersions: [ApiTokenScope.DOCUMENTS_READ],
+  getDocumentVersion: [ApiTokenScope.DOCUMENTS_READ],
+  createDocumentVersion: [ApiTokenScope.DOCUMENTS_WRITE],
+  restoreDocumentVersion: [ApiTokenScope.DOCUMENTS_WRITE],
+  deleteDocumentVersion: [ApiTokenScope.DOCUMENTS_WRITE],
+  createDocument: [ApiTokenScope.DOCUMENTS_WRITE],
+  deleteTemplate: [ApiTokenScope.TEMPLATES_WRITE],
+  getTemplate: [ApiTokenScope.TEMPLATES_READ],
+  getTemplates: [ApiTokenScope.TEMPLATES_READ],
+  createDocumentFromTemplate: [ApiTokenScope.TEMPLATES_READ, ApiTokenScope.DOCUMENTS_WRITE],
+  generateDocumentFromTemplate: [ApiTokenScope.TEMPLATES_READ, ApiTokenScope.DOCUMENTS_WRITE],
+  sendDocument: [ApiTokenScope.DOCUMENTS_WRITE],
+  resendDocument: [ApiTokenScope.DOCUMENTS_WRITE],
+  createRecipient: [ApiTokenScope.RECIPIENTS_WRITE],
+  updateRecipient: [ApiTokenScope.RECIPIENTS_WRITE],
+  deleteRecipient: [ApiTokenScope.RECIPIENTS_WRITE],
+  createField: [ApiTokenScope.DOCUMENTS_WRITE],
+  updateField: [ApiTokenScope.DOCUMENTS_WRITE],
+  deleteField: [ApiTokenScope.DOCUMENTS_WRITE],
+  findTeamMembers: [ApiTokenScope.TEAM_READ],
+  inviteTeamMember: [ApiTokenScope.TEAM_WRITE],
+  updateTeamMember: [ApiTokenScope.TEAM_WRITE],
+  removeTeamMember: [ApiTokenScope.TEAM_WRITE],
+};
@@ -0,0 +1,210 @@
+import { type APIRequestContext, expect, test } from '@playwright/test';
+import crypto from 'crypto';
+
+import { WEBAPP_BASE_URL } from '@documenso/lib/constants/app';
+import {
+  OAUTH_ACCESS_TOKEN_PREFIX,
+  OAUTH_REFRESH_TOKEN_PREFIX,
+} from '@documenso/lib/constants/oauth';
+import { createOAuthAuthorizationCode } from '@documenso/lib/server-only/oauth/create-oauth-authorization-code';
+import { createOAuthClient } from '@documenso/lib/server-only/oauth/create-oauth-client';
+import { prisma } from '@documenso/prisma';
+import { ApiTokenScope } from '@documenso/prisma/client';
+import { seedTeam } from '@documenso/prisma/seed/teams';
+
+import { apiSignin } from '../fixtures/authentication';
+
+test.describe.configure({ mode: 'parallel' });
+
+const REDIRECT_URI = `${WEBAPP_BASE_URL}/oauth/callback`;
+
+const createCodeChallenge = () => {
+  const codeVerifier = crypto.randomBytes(32).toString('base64url');
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+  return { codeVerifier, codeChallenge };
+};
+
+const seedOAuthClient = async () => {
+  const team = await seedTeam();
+
+  const { clientId, clientSecret } = await createOAuthClient({
+    userId: team.ownerUserId,
+    teamId: team.id,
+    name: 'Test Application',
+    redirectUris: [REDIRECT_URI],
+    scopes: [ApiTokenScope.DOCUMENTS_READ],
+  });
+
+  return { team, clientId, clientSecret };
+};
+
+const requestToken = async (request: APIRequestContext, form: Record<string, string>) => {
+  return await request.post(`${WEBAPP_BASE_URL}/api/oauth/token`, { form });
+};
+
+test('[OAUTH]: should exchange an authorization code for tokens using PKCE', async ({ page }) => {
+  const { team, clientId, clientSecret } = await seedOAuthClient();
+  const { codeVerifier, codeChallenge } = createCodeChallenge();
+
+  const params = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: REDIRECT_URI,
+    response_type: 'code',
+    scope: 'documents:read',
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+    state: 'test-state',
+  });
+
+  await apiSignin({
+    page,
+    email: team.owner.email,
+    redirectPath: `/oauth/authorize?${params.toString()}`,
+  });
+
+  await expect(page.getByRole('heading', { name: 'Authorize Test Application' })).toBeVisible();
+  await page.getByRole('button', { name: 'Authorize' }).click();
+
+  await page.waitForURL((url) => url.pathname === '/oauth/callback');
+
+  const callbackUrl = new URL(page.url());
+
+  expect(callbackUrl.searchParams.get('state')).toBe('test-state');
+
+  const code = callbackUrl.searchParams.get('code') ?? '';
+
+  const { request } = page.context();
+
+  const tokenResponse = await requestToken(request, {
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: REDIRECT_URI,
+    code_verifier: codeVerifier,
+    client_id: clientId,
+    client_secret: clientSecret,
+  });
+
+  expect(tokenResponse.status()).toBe(200);
+
+  const token = await tokenResponse.json();
+
+  expect(token.token_type).toBe('Bearer');
+  expect(token.scope).toBe('documents:read');
+  expect(token.access_token).toMatch(new RegExp(`^${OAUTH_ACCESS_TOKEN_PREFIX}`));
+  expect(token.refresh_token).toMatch(new RegExp(`^${OAUTH_REFRESH_TOKEN_PREFIX}`));
+
+  const documentsResponse = await request.get(`${WEBAPP_BASE_URL}/api/v1/documents`, {
+    headers: {
+      Authorization: `Bearer ${token.access_token}`,
+    },
+  });
+
+  expect(documentsResponse.status()).toBe(200);
+
+  // Authorization codes can only be exchanged once.
+  const replayResponse = await requestToken(request, {
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: REDIRECT_URI,
+    code_verifier: codeVerifier,
+    client_id: clientId,
+    client_secret: clientSecret,
+  });
+
+  expect(replayResponse.status()).toBe(400);
+  expect((await replayResponse.json()).error).toBe('invalid_grant');
+
+  const refreshResponse = await requestToken(request, {
+    grant_type: 'refresh_token',
+    refresh_token: token.refresh_token,
+    client_id: clientId,
+    client_secret: clientSecret,
+  });
+
+  expect(refreshResponse.status()).toBe(200);
+
+  const refreshedToken = await refreshResponse.json();
+
+  expect(refreshedToken.access_token).not.toBe(token.access_token);
+
+  // Refresh tokens are rotated on every use.
+  const reusedRefreshResponse = await requestToken(request, {
+    grant_type: 'refresh_token',
+    refresh_token: token.refresh_token,
+    client_id: clientId,
+    client_secret: clientSecret,
+  });
+
+  expect(reusedRefreshResponse.status()).toBe(400);
+});
+
+test('[OAUTH]: should reject a code verifier that does not match the code challenge', async ({
+  request,
+}) => {
+  const { team, clientId, clientSecret } = await seedOAuthClient();
+  const { codeChallenge } = createCodeChallenge();
+
+  const redirectUrl = await createOAuthAuthorizationCode({
+    userId: team.ownerUserId,
+    clientId,
+    redirectUri: REDIRECT_URI,
+    responseType: 'code',
+    scope: 'documents:read',
+    codeChallenge,
+    codeChallengeMethod: 'S256',
+  });
+
+  const code = new URL(redirectUrl).searchParams.get('code') ?? '';
+
+  const response = await requestToken(request, {
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: REDIRECT_URI,
+    code_verifier: createCodeChallenge().codeVerifier,
+    client_id: clientId,
+    client_secret: clientSecret,
+  });
+
+  expect(response.status()).toBe(400);
+  expect((await response.json()).error).toBe('invalid_grant');
+
+  const tokens = await prisma.oAuthToken.count({
+    where: {
+      client: {
+        clientId,
+      },
+    },
+  });
+
+  expect(tokens).toBe(0);
+});
+
+test('[OAUTH]: should reject a token request with invalid client credentials', async ({
+  request,
+}) => {
+  const { team, clientId } = await seedOAuthClient();
+  const { codeVerifier, codeChallenge } = createCodeChallenge();
+
+  const redirectUrl = await createOAuthAuthorizationCode({
+    userId: team.ownerUserId,
+    clientId,
+    redirectUri: REDIRECT_URI,
+    responseType: 'code',
+    scope: 'documents:read',
+    codeChallenge,
+    codeChallengeMethod: 'S256',
+  });
+
+  const response = await requestToken(request, {
+    grant_type: 'authorization_code',
+    code: new URL(redirectUrl).searchParams.get('code') ?? '',
+    redirect_uri: REDIRECT_URI,
+    code_verifier: codeVerifier,
+    client_id: clientId,
+    client_secret: 'invalid-secret',
+  });
+
+  expect(response.status()).toBe(401);
+  expect((await response.json()).error).toBe('invalid_client');
+});
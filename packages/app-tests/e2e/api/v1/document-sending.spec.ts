@@ -1,8 +1,10 @@
 import { expect, test } from '@playwright/test';
 
+import { ALL_API_TOKEN_SCOPES } from '@documenso/lib/constants/api-token-scopes';
 import { WEBAPP_BASE_URL } from '@documenso/lib/constants/app';
 import { createApiToken } from '@documenso/lib/server-only/public-api/create-api-token';
 import { prisma } from '@documenso/prisma';
+import { ApiTokenScope } from '@documenso/prisma/client';
 import { seedPendingDocumentWithFullFields } from '@documenso/prisma/seed/documents';
 import { seedUser } from '@documenso/prisma/seed/users';
 
@@ -19,6 +21,7 @@ test.describe('Document API', () => {
       userId: user.id,
       tokenName: 'test',
       expiresIn: null,
+      scopes: ALL_API_TOKEN_SCOPES,
     });
 
     // Test with sendCompletionEmails: false
@@ -108,6 +111,7 @@ test.describe('Document API', () => {
       userId: user.id,
       tokenName: 'test',
       expiresIn: null,
+      scopes: ALL_API_TOKEN_SCOPES,
     });
 
     const response = await request.post(`${WEBAPP_BASE_URL}/api/v1/documents/${document.id}/send`, {
@@ -134,4 +138,40 @@ test.describe('Document API', () => {
       ownerDocumentCompleted: false,
     });
   });
+
+  test('sendDocument: should reject tokens without the documents:write scope', async ({
+    request,
+  }) => {
+    const user = await seedUser();
+
+    const { document } = await seedPendingDocumentWithFullFields({
+      owner: user,
+      recipients: ['signer@example.com'],
+    });
+
+    const { token } = await createApiToken({
+      userId: user.id,
+      tokenName: 'test',
+      expiresIn: null,
+      scopes: [ApiTokenScope.DOCUMENTS_READ],
+    });
+
+    const response = await request.post(`${WEBAPP_BASE_URL}/api/v1/documents/${document.id}/send`, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      data: {},
+    });
+
+    expect(response.status()).toBe(403);
+
+    const readResponse = await request.get(`${WEBAPP_BASE_URL}/api/v1/documents/${document.id}`, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    });
+
+    expect(readResponse.status()).toBe(200);
+  });
 });
@@ -7,6 +7,7 @@ import {
   ZSuccessfulUpdateTeamMemberResponseSchema,
   ZUnsuccessfulResponseSchema,
 } from '@documenso/api/v1/schema';
+import { ALL_API_TOKEN_SCOPES } from '@documenso/lib/constants/api-token-scopes';
 import { WEBAPP_BASE_URL } from '@documenso/lib/constants/app';
 import { createApiToken } from '@documenso/lib/server-only/public-api/create-api-token';
 import { prisma } from '@documenso/prisma';
@@ -30,6 +31,7 @@ test.describe('Team API', () => {
       teamId: team.id,
       tokenName: 'test',
       expiresIn: null,
+      scopes: ALL_API_TOKEN_SCOPES,
     });
 
     const response = await request.get(`${WEBAPP_BASE_URL}/api/v1/team/${team.id}/members`, {
@@ -69,6 +71,7 @@ test.describe('Team API', () => {
       teamId: team.id,
       tokenName: 'test',
       expiresIn: null,
+      scopes: ALL_API_TOKEN_SCOPES,
     });
 
     const newUser = await seedUser();
@@ -118,6 +121,7 @@ test.describe('Team API', () => {
       teamId: team.id,
       tokenName: 'test',
       expiresIn: null,
+      scopes: ALL_API_TOKEN_SCOPES,
     });
 
     const member = team.members.find((member) => member.role === TeamMemberRole.MEMBER)!;
@@ -163,6 +167,7 @@ test.describe('Team API', () => {
       teamId: team.id,
       tokenName: 'test',
       expiresIn: null,
+      scopes: ALL_API_TOKEN_SCOPES,
     });
 
     const member = team.members.find((member) => member.role === TeamMemberRole.MEMBER)!;
@@ -213,6 +218,7 @@ test.describe('Team API', () => {
       teamId: team.id,
       tokenName: 'test',
       expiresIn: null,
+      scopes: ALL_API_TOKEN_SCOPES,
     });
 
     const ownerMember = team.members.find((member) => member.userId === team.owner.id)!;
@@ -258,6 +264,7 @@ test.describe('Team API', () => {
       teamId: team.id,
       tokenName: 'test',
       expiresIn: null,
+      scopes: ALL_API_TOKEN_SCOPES,
     });
 
     const response = await request.delete(
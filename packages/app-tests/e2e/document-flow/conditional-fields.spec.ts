@@ -0,0 +1,164 @@
+import { type Page, expect, test } from '@playwright/test';
+
+import type { TFieldMetaSchema } from '@documenso/lib/types/field-meta';
+import { prisma } from '@documenso/prisma';
+import type { Recipient } from '@documenso/prisma/client';
+import { DocumentStatus, FieldType, Prisma } from '@documenso/prisma/client';
+import { seedPendingDocumentWithFullFields } from '@documenso/prisma/seed/documents';
+import { seedUser } from '@documenso/prisma/seed/users';
+
+test.describe.configure({ mode: 'parallel' });
+
+const createTextField = async (
+  recipient: Recipient,
+  options: {
+    positionY: number;
+    inserted: boolean;
+    customText: string;
+    fieldMeta: TFieldMetaSchema;
+  },
+) => {
+  return await prisma.field.create({
+    data: {
+      documentId: recipient.documentId,
+      recipientId: recipient.id,
+      type: FieldType.TEXT,
+      page: 1,
+      positionX: new Prisma.Decimal(5),
+      positionY: new Prisma.Decimal(options.positionY),
+      width: new Prisma.Decimal(5),
+      height: new Prisma.Decimal(5),
+      inserted: options.inserted,
+      customText: options.customText,
+      fieldMeta: options.fieldMeta,
+    },
+  });
+};
+
+/**
+ * Seed a document with a required field that is only shown when the recipient has a company.
+ */
+const seedConditionalDocument = async (hasCompany: string) => {
+  const user = await seedUser();
+
+  const { document, recipients } = await seedPendingDocumentWithFullFields({
+    owner: user,
+    recipients: ['signer@documenso.com'],
+    fields: [FieldType.SIGNATURE],
+  });
+
+  const [recipient] = recipients;
+
+  await createTextField(recipient, {
+    positionY: 20,
+    inserted: true,
+    customText: hasCompany,
+    fieldMeta: {
+      type: 'text',
+      label: 'Has Company',
+    },
+  });
+
+  const companyField = await createTextField(recipient, {
+    positionY: 30,
+    inserted: false,
+    customText: '',
+    fieldMeta: {
+      type: 'text',
+      label: 'Company',
+      required: true,
+      conditionalLogic: {
+        action: 'show',
+        match: 'all',
+        conditions: [{ fieldLabel: 'Has Company', operator: 'equals', value: 'Yes' }],
+      },
+    },
+  });
+
+  return { document, recipient, companyField };
+};
+
+const signSignatureField = async (page: Page, recipient: Recipient) => {
+  const signatureField = await prisma.field.findFirstOrThrow({
+    where: {
+      recipientId: recipient.id,
+      type: FieldType.SIGNATURE,
+    },
+  });
+
+  const canvas = page.locator('canvas');
+  const box = await canvas.boundingBox();
+
+  if (box) {
+    await page.mouse.move(box.x + 40, box.y + 40);
+    await page.mouse.down();
+    await page.mouse.move(box.x + box.width - 2, box.y + box.height - 2);
+    await page.mouse.up();
+  }
+
+  await page.locator(`#field-${signatureField.id}`).getByRole('button').click();
+
+  await expect(page.locator(`#field-${signatureField.id}`)).toHaveAttribute(
+    'data-inserted',
+    'true',
+  );
+};
+
+test('[DOCUMENT_FLOW]: should complete and seal a document with a hidden required field', async ({
+  page,
+}) => {
+  const { document, recipient, companyField } = await seedConditionalDocument('No');
+
+  await page.goto(`/sign/${recipient.token}`);
+
+  // The condition is not met, so the required field is not shown to the recipient.
+  await expect(page.locator(`#field-${companyField.id}`)).toHaveCount(0);
+
+  await signSignatureField(page, recipient);
+
+  await page.getByRole('button', { name: 'Complete' }).click();
+  await page.getByRole('button', { name: 'Sign' }).click();
+  await page.waitForURL(`/sign/${recipient.token}/complete`);
+
+  await expect(async () => {
+    const completedDocument = await prisma.document.findUniqueOrThrow({
+      where: {
+        id: document.id,
+      },
+    });
+
+    expect(completedDocument.status).toBe(DocumentStatus.COMPLETED);
+  }).toPass();
+
+  const unchangedCompanyField = await prisma.field.findUniqueOrThrow({
+    where: {
+      id: companyField.id,
+    },
+  });
+
+  expect(unchangedCompanyField.inserted).toBe(false);
+});
+
+test('[DOCUMENT_FLOW]: should require a conditional field when its condition is met', async ({
+  page,
+}) => {
+  const { document, recipient, companyField } = await seedConditionalDocument('Yes');
+
+  await page.goto(`/sign/${recipient.token}`);
+
+  await expect(page.locator(`#field-${companyField.id}`)).toBeVisible();
+
+  await signSignatureField(page, recipient);
+
+  // The recipient is pointed to the required field instead of being able to complete.
+  await expect(page.getByRole('button', { name: 'Next field' })).toBeVisible();
+  await expect(page.getByRole('button', { name: 'Complete' })).not.toBeVisible();
+
+  const pendingDocument = await prisma.document.findUniqueOrThrow({
+    where: {
+      id: document.id,
+    },
+  });
+
+  expect(pendingDocument.status).toBe(DocumentStatus.PENDING);
+});
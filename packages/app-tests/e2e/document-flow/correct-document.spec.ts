@@ -0,0 +1,180 @@
+import { type Page, expect, test } from '@playwright/test';
+
+import { prisma } from '@documenso/prisma';
+import { DocumentStatus, FieldType, SigningStatus } from '@documenso/prisma/client';
+import { seedPendingDocumentWithFullFields } from '@documenso/prisma/seed/documents';
+import { seedUser } from '@documenso/prisma/seed/users';
+
+import { apiSignin } from '../fixtures/authentication';
+
+test.describe.configure({ mode: 'parallel' });
+
+const seedPartiallySignedDocument = async () => {
+  const user = await seedUser();
+
+  const { document, recipients } = await seedPendingDocumentWithFullFields({
+    owner: user,
+    recipients: ['signed@documenso.com', 'pending@documenso.com'],
+    recipientsCreateOptions: [
+      {
+        signingStatus: SigningStatus.SIGNED,
+      },
+    ],
+    fields: [FieldType.SIGNATURE],
+  });
+
+  const signedRecipient = recipients.find(
+    (recipient) => recipient.email === 'signed@documenso.com',
+  );
+  const pendingRecipient = recipients.find(
+    (recipient) => recipient.email === 'pending@documenso.com',
+  );
+
+  if (!signedRecipient || !pendingRecipient) {
+    throw new Error('Recipients not found');
+  }
+
+  const [signedField] = signedRecipient.fields;
+
+  await prisma.field.update({
+    where: {
+      id: signedField.id,
+    },
+    data: {
+      inserted: true,
+      signature: {
+        create: {
+          recipientId: signedRecipient.id,
+          typedSignature: 'Signed Recipient',
+        },
+      },
+    },
+  });
+
+  return { user, document, signedRecipient, pendingRecipient };
+};
+
+const goToSignersStep = async (page: Page) => {
+  await expect(page.getByText('This document has already been sent.')).toBeVisible();
+
+  await expect(page.getByRole('heading', { name: 'General' })).toBeVisible();
+  await page.getByRole('button', { name: 'Continue' }).click();
+
+  await expect(page.getByRole('heading', { name: 'Add Signers' })).toBeVisible();
+};
+
+const resendCorrectedDocument = async (page: Page) => {
+  await page.getByRole('button', { name: 'Continue' }).click();
+  await expect(page.getByRole('heading', { name: 'Add Fields' })).toBeVisible();
+
+  await page.getByRole('button', { name: 'Continue' }).click();
+  await expect(page.getByRole('heading', { name: 'Distribute Document' })).toBeVisible();
+
+  await page.waitForTimeout(2500);
+  await page.getByRole('button', { name: 'Resend' }).click();
+
+  await page.waitForURL('/documents');
+};
+
+test('[DOCUMENT_FLOW]: should correct the email of a pending recipient', async ({ page }) => {
+  const { user, document, pendingRecipient } = await seedPartiallySignedDocument();
+
+  await apiSignin({
+    page,
+    email: user.email,
+    redirectPath: `/documents/${document.id}/edit`,
+  });
+
+  await goToSignersStep(page);
+
+  await page.getByPlaceholder('Email').nth(1).fill('corrected@documenso.com');
+
+  await resendCorrectedDocument(page);
+
+  const correctedRecipient = await prisma.recipient.findUniqueOrThrow({
+    where: {
+      id: pendingRecipient.id,
+    },
+  });
+
+  expect(correctedRecipient.email).toBe('corrected@documenso.com');
+  expect(correctedRecipient.signingStatus).toBe(SigningStatus.NOT_SIGNED);
+
+  // The signing link sent to the previous email no longer works.
+  expect(correctedRecipient.token).not.toBe(pendingRecipient.token);
+
+  const correctedDocument = await prisma.document.findUniqueOrThrow({
+    where: {
+      id: document.id,
+    },
+  });
+
+  expect(correctedDocument.status).toBe(DocumentStatus.PENDING);
+});
+
+test('[DOCUMENT_FLOW]: should keep captured signatures when correcting a document', async ({
+  page,
+}) => {
+  const { user, document, signedRecipient } = await seedPartiallySignedDocument();
+
+  await apiSignin({
+    page,
+    email: user.email,
+    redirectPath: `/documents/${document.id}/edit`,
+  });
+
+  await goToSignersStep(page);
+
+  await page.getByPlaceholder('Name').nth(1).fill('Corrected Recipient');
+
+  await resendCorrectedDocument(page);
+
+  const unchangedRecipient = await prisma.recipient.findUniqueOrThrow({
+    where: {
+      id: signedRecipient.id,
+    },
+    include: {
+      fields: {
+        include: {
+          signature: true,
+        },
+      },
+    },
+  });
+
+  expect(unchangedRecipient.signingStatus).toBe(SigningStatus.SIGNED);
+  expect(unchangedRecipient.token).toBe(signedRecipient.token);
+
+  const [signedField] = unchangedRecipient.fields;
+
+  expect(signedField.inserted).toBe(true);
+  expect(signedField.signature?.typedSignature).toBe('Signed Recipient');
+});
+
+test('[DOCUMENT_FLOW]: should not allow removing a recipient who has signed', async ({ page }) => {
+  const { user, document, signedRecipient } = await seedPartiallySignedDocument();
+
+  await apiSignin({
+    page,
+    email: user.email,
+    redirectPath: `/documents/${document.id}/edit`,
+  });
+
+  await goToSignersStep(page);
+
+  await expect(page.getByPlaceholder('Email').first()).toBeDisabled();
+  await expect(page.locator('button:has(.lucide-trash)').first()).toBeDisabled();
+
+  // The recipient who has not signed can still be removed.
+  await expect(page.locator('button:has(.lucide-trash)').nth(1)).toBeEnabled();
+
+  await resendCorrectedDocument(page);
+
+  const unchangedRecipient = await prisma.recipient.findUniqueOrThrow({
+    where: {
+      id: signedRecipient.id,
+    },
+  });
+
+  expect(unchangedRecipient.signingStatus).toBe(SigningStatus.SIGNED);
+});
@@ -0,0 +1,224 @@
+import { type Page, expect, test } from '@playwright/test';
+
+import type {
+  TDocumentSigningRouting,
+  TSigningRoutingGroup,
+  TSigningRoutingRule,
+} from '@documenso/lib/types/document-signing-routing';
+import { prisma } from '@documenso/prisma';
+import type { Field, Recipient } from '@documenso/prisma/client';
+import {
+  DocumentSigningOrder,
+  DocumentStatus,
+  FieldType,
+  Prisma,
+  SigningStatus,
+} from '@documenso/prisma/client';
+import { seedPendingDocumentWithFullFields } from '@documenso/prisma/seed/documents';
+import { seedUser } from '@documenso/prisma/seed/users';
+
+test.describe.configure({ mode: 'parallel' });
+
+type SeedRoutedDocumentOptions = {
+  groups?: TSigningRoutingGroup[];
+
+  /**
+   * A rule to skip the second recipient.
+   */
+  secondRecipientRule?: Omit<TSigningRoutingRule, 'recipientId'>;
+};
+
+const seedRoutedDocument = async ({
+  groups = [],
+  secondRecipientRule,
+}: SeedRoutedDocumentOptions) => {
+  const user = await seedUser();
+
+  const { document, recipients } = await seedPendingDocumentWithFullFields({
+    owner: user,
+    recipients: ['first@documenso.com', 'second@documenso.com', 'third@documenso.com'],
+    recipientsCreateOptions: groups.length
+      ? [{ signingOrder: 1 }, { signingOrder: 1 }, { signingOrder: 2 }]
+      : [{ signingOrder: 1 }, { signingOrder: 2 }, { signingOrder: 3 }],
+    fields: [FieldType.SIGNATURE],
+  });
+
+  const findRecipient = (email: string) => {
+    const recipient = recipients.find((recipient) => recipient.email === email);
+
+    if (!recipient) {
+      throw new Error(`Recipient ${email} not found`);
+    }
+
+    return recipient;
+  };
+
+  const first = findRecipient('first@documenso.com');
+  const second = findRecipient('second@documenso.com');
+  const third = findRecipient('third@documenso.com');
+
+  const signingRouting: TDocumentSigningRouting = {
+    groups,
+    rules: secondRecipientRule ? [{ ...secondRecipientRule, recipientId: second.id }] : [],
+  };
+
+  await prisma.documentMeta.upsert({
+    where: {
+      documentId: document.id,
+    },
+    create: {
+      documentId: document.id,
+      signingOrder: DocumentSigningOrder.SEQUENTIAL,
+      signingRouting,
+    },
+    update: {
+      signingOrder: DocumentSigningOrder.SEQUENTIAL,
+      signingRouting,
+    },
+  });
+
+  return { document, first, second, third };
+};
+
+/**
+ * Seed the amount routing rules depend on, as already entered by the recipient.
+ */
+const seedAmountField = async (recipient: Recipient, amount: string) => {
+  await prisma.field.create({
+    data: {
+      documentId: recipient.documentId,
+      recipientId: recipient.id,
+      type: FieldType.TEXT,
+      page: 1,
+      positionX: new Prisma.Decimal(5),
+      positionY: new Prisma.Decimal(20),
+      width: new Prisma.Decimal(5),
+      height: new Prisma.Decimal(5),
+      inserted: true,
+      customText: amount,
+      fieldMeta: {
+        type: 'text',
+        label: 'Amount',
+      },
+    },
+  });
+};
+
+const signDocument = async (page: Page, recipient: Recipient & { fields: Field[] }) => {
+  await page.goto(`/sign/${recipient.token}`);
+
+  const canvas = page.locator('canvas');
+  const box = await canvas.boundingBox();
+
+  if (box) {
+    await page.mouse.move(box.x + 40, box.y + 40);
+    await page.mouse.down();
+    await page.mouse.move(box.x + box.width - 2, box.y + box.height - 2);
+    await page.mouse.up();
+  }
+
+  for (const field of recipient.fields) {
+    await page.locator(`#field-${field.id}`).getByRole('button').click();
+
+    await expect(page.locator(`#field-${field.id}`)).toHaveAttribute('data-inserted', 'true');
+  }
+
+  await page.getByRole('button', { name: 'Complete' }).click();
+  await page.getByRole('button', { name: 'Sign' }).click();
+  await page.waitForURL(`/sign/${recipient.token}/complete`);
+};
+
+const getSigningStatus = async (recipientId: number) => {
+  const recipient = await prisma.recipient.findUniqueOrThrow({
+    where: {
+      id: recipientId,
+    },
+  });
+
+  return recipient.signingStatus;
+};
+
+test('[DOCUMENT_FLOW]: should only require one recipient of an any-one signing group', async ({
+  page,
+}) => {
+  const { document, first, second, third } = await seedRoutedDocument({
+    groups: [{ signingOrder: 1, completion: 'any' }],
+  });
+
+  // The next group has to wait until the first group has completed the document.
+  await page.goto(`/sign/${third.token}`);
+  await page.waitForURL(`/sign/${third.token}/waiting`);
+
+  await signDocument(page, first);
+
+  await expect(async () => {
+    expect(await getSigningStatus(second.id)).toBe(SigningStatus.SKIPPED);
+  }).toPass();
+
+  // The skipped recipient can no longer sign the document.
+  await page.goto(`/sign/${second.token}`);
+  await page.waitForURL(`/sign/${second.token}/waiting`);
+
+  await signDocument(page, third);
+
+  await expect(async () => {
+    const completedDocument = await prisma.document.findUniqueOrThrow({
+      where: {
+        id: document.id,
+      },
+    });
+
+    expect(completedDocument.status).toBe(DocumentStatus.COMPLETED);
+  }).toPass();
+
+  const skippedAuditLog = await prisma.documentAuditLog.findFirst({
+    where: {
+      documentId: document.id,
+      type: 'DOCUMENT_RECIPIENT_SKIPPED',
+    },
+  });
+
+  expect(skippedAuditLog).not.toBeNull();
+});
+
+test('[DOCUMENT_FLOW]: should skip a recipient when a routing rule is met', async ({ page }) => {
+  const { first, second, third } = await seedRoutedDocument({
+    secondRecipientRule: { fieldLabel: 'Amount', operator: 'lessThan', value: 1000 },
+  });
+
+  await seedAmountField(first, '500');
+
+  await signDocument(page, first);
+
+  await expect(async () => {
+    expect(await getSigningStatus(second.id)).toBe(SigningStatus.SKIPPED);
+  }).toPass();
+
+  expect(await getSigningStatus(third.id)).toBe(SigningStatus.NOT_SIGNED);
+
+  // The recipient after the skipped recipient is asked to sign straight away.
+  await page.goto(`/sign/${third.token}`);
+  await expect(page.getByRole('button', { name: 'Complete' })).toBeVisible();
+});
+
+test('[DOCUMENT_FLOW]: should not skip a recipient when a routing rule is not met', async ({
+  page,
+}) => {
+  const { first, second, third } = await seedRoutedDocument({
+    secondRecipientRule: { fieldLabel: 'Amount', operator: 'lessThan', value: 1000 },
+  });
+
+  await seedAmountField(first, '5000');
+
+  await signDocument(page, first);
+
+  await expect(async () => {
+    expect(await getSigningStatus(first.id)).toBe(SigningStatus.SIGNED);
+  }).toPass();
+
+  expect(await getSigningStatus(second.id)).toBe(SigningStatus.NOT_SIGNED);
+
+  // The last recipient still has to wait for the second recipient.
+  await page.goto(`/sign/${third.token}`);
+  await page.waitForURL(`/sign/${third.token}/waiting`);
+});
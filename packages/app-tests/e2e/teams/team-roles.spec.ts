@@ -0,0 +1,118 @@
+import { expect, test } from '@playwright/test';
+
+import { WEBAPP_BASE_URL } from '@documenso/lib/constants/app';
+import { TEAM_ROLE_PRESETS } from '@documenso/lib/constants/teams';
+import { prisma } from '@documenso/prisma';
+import { TeamMemberRole } from '@documenso/prisma/client';
+import { seedBlankDocument } from '@documenso/prisma/seed/documents';
+import { seedTeam, seedTeamMember } from '@documenso/prisma/seed/teams';
+
+import { apiSignin } from '../fixtures/authentication';
+
+test.describe.configure({ mode: 'parallel' });
+
+const seedTeamAuditor = async () => {
+  const team = await seedTeam();
+
+  const [auditorPreset] = TEAM_ROLE_PRESETS;
+
+  const auditorRole = await prisma.teamRole.create({
+    data: {
+      teamId: team.id,
+      name: 'Auditor',
+      permissions: auditorPreset.permissions,
+    },
+  });
+
+  const auditor = await seedTeamMember({
+    teamId: team.id,
+    role: TeamMemberRole.MEMBER,
+  });
+
+  await prisma.teamMember.update({
+    where: {
+      userId_teamId: {
+        userId: auditor.id,
+        teamId: team.id,
+      },
+    },
+    data: {
+      customRoleId: auditorRole.id,
+    },
+  });
+
+  const document = await seedBlankDocument(team.owner, {
+    createDocumentOptions: {
+      teamId: team.id,
+    },
+  });
+
+  return { team, auditor, document };
+};
+
+test('[TEAMS]: auditor can view but not delete team documents', async ({ page }) => {
+  const { team, auditor, document } = await seedTeamAuditor();
+
+  await apiSignin({
+    page,
+    email: auditor.email,
+    redirectPath: `/t/${team.url}/documents/${document.id}`,
+  });
+
+  await expect(page.getByRole('heading', { name: document.title })).toBeVisible();
+
+  const { request } = page.context();
+
+  const response = await request.post(`${WEBAPP_BASE_URL}/api/v2-beta/document/delete`, {
+    headers: {
+      'x-team-id': team.id.toString(),
+    },
+    data: {
+      documentId: document.id,
+    },
+  });
+
+  expect(response.status()).toBe(403);
+
+  const existingDocument = await prisma.document.findUnique({
+    where: {
+      id: document.id,
+    },
+  });
+
+  expect(existingDocument?.deletedAt).toBeNull();
+});
+
+test('[TEAMS]: auditor cannot update team documents', async ({ page }) => {
+  const { team, auditor, document } = await seedTeamAuditor();
+
+  await apiSignin({
+    page,
+    email: auditor.email,
+    redirectPath: `/t/${team.url}/documents`,
+  });
+
+  const { request } = page.context();
+
+  const response = await request.post(`${WEBAPP_BASE_URL}/api/v2-beta/document/update`, {
+    headers: {
+      'x-team-id': team.id.toString(),
+    },
+    data: {
+      documentId: document.id,
+      data: {
+        title: 'Updated by an auditor',
+      },
+    },
+  });
+
+  expect(response.status()).toBe(403);
+
+  const unchangedDocument = await prisma.document.findUniqueOrThrow({
+    where: {
+      id: document.id,
+    },
+  });
+
+  expect(unchangedDocument.title).toBe(document.title);
+});
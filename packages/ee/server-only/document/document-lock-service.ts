@@ -1,15 +1,27 @@
-import { prisma } from '@documenso/prisma';
 import { TRPCError } from '@trpc/server';
 
+import { DOCUMENT_AUDIT_LOG_TYPE } from '@documenso/lib/types/document-audit-logs';
+import type { ApiRequestMetadata } from '@documenso/lib/universal/extract-request-metadata';
+import { createDocumentAuditLogData } from '@documenso/lib/utils/document-audit-logs';
+import { prisma } from '@documenso/prisma';
+
 /**
  * Service for managing document locking to prevent concurrent modifications.
  */
 export class DocumentLockService {
   /**
-   * Lock a document for signing or editing.
+   * Lock a document for editing.
+   *
+   * Only the document owner and members of the document's team can hold a lock, recipients
+   * of the document cannot lock it. The lock is acquired atomically so two editors racing
+   * for the same document cannot both succeed.
    */
-  async lockDocument(documentId: number, userId: number, lockDurationMinutes = 15) {
-    // Check if the document exists and the user has access to it
+  async lockDocument(
+    documentId: number,
+    userId: number,
+    lockDurationMinutes = 15,
+    metadata?: ApiRequestMetadata,
+  ) {
     const document = await prisma.document.findFirst({
       where: {
         id: documentId,
@@ -24,167 +36,147 @@ export class DocumentLockService {
               },
             },
           },
-          {
-            recipients: {
-              some: {
-                email: {
-                  equals: await this.getUserEmail(userId),
-                },
-              },
-            },
-          },
         ],
       },
+      select: { id: true },
     });
-    
+
     if (!document) {
       throw new TRPCError({
         code: 'NOT_FOUND',
         message: 'Document not found or you do not have permission to lock it',
       });
     }
-    
-    // Check if the document is already locked by someone else
-    if (document.isLocked && document.lockedByUserId !== userId && document.lockExpiresAt && document.lockExpiresAt > new Date()) {
-      throw new TRPCError({
-        code: 'CONFLICT',
-        message: 'Document is already locked by another user',
-      });
-    }
-    
-    // Calculate lock expiry time
-    const lockExpiry = new Date();
+
+    const now = new Date();
+
+    const lockExpiry = new Date(now);
     lockExpiry.setMinutes(lockExpiry.getMinutes() + lockDurationMinutes);
-    
-    // Lock the document
-    const updatedDocument = await prisma.document.update({
-      where: { id: documentId },
+
+    // Only take the lock when it is free, expired or already held by this user.
+    const { count } = await prisma.document.updateMany({
+      where: {
+        id: documentId,
+        OR: [
+          { isLocked: false },
+          { lockExpiresAt: null },
+          { lockExpiresAt: { lte: now } },
+          { lockedByUserId: userId },
+        ],
+      },
       data: {
         isLocked: true,
         lockedByUserId: userId,
         lockExpiresAt: lockExpiry,
       },
     });
-    
-    // Log the lock action
+
+    if (count === 0) {
+      throw new TRPCError({
+        code: 'CONFLICT',
+        message: 'Document is already locked by another user',
+      });
+    }
+
     await prisma.documentAuditLog.create({
-      data: {
+      data: createDocumentAuditLogData({
+        type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_LOCKED,
         documentId,
-        userId,
-        type: 'DOCUMENT_LOCKED',
-        data: JSON.stringify({
+        user: await this.getAuditUser(userId),
+        metadata,
+        data: {
           expiresAt: lockExpiry.toISOString(),
-        }),
-      },
+        },
+      }),
     });
-    
-    return updatedDocument;
+
+    return { lockExpiresAt: lockExpiry };
   }
-  
+
   /**
    * Extend the lock on a document.
+   *
+   * Editors extend their lock on a heartbeat, so unlike taking or releasing a lock this is
+   * not recorded in the audit log.
    */
   async extendLock(documentId: number, userId: number, lockDurationMinutes = 15) {
-    // Check if the document is locked by the user
-    const document = await prisma.document.findFirst({
+    const lockExpiry = new Date();
+    lockExpiry.setMinutes(lockExpiry.getMinutes() + lockDurationMinutes);
+
+    const { count } = await prisma.document.updateMany({
       where: {
         id: documentId,
         isLocked: true,
         lockedByUserId: userId,
       },
+      data: {
+        lockExpiresAt: lockExpiry,
+      },
     });
-    
-    if (!document) {
+
+    if (count === 0) {
       throw new TRPCError({
         code: 'NOT_FOUND',
         message: 'Document not found or not locked by you',
       });
     }
-    
-    // Calculate new lock expiry time
-    const lockExpiry = new Date();
-    lockExpiry.setMinutes(lockExpiry.getMinutes() + lockDurationMinutes);
-    
-    // Extend the lock
-    const updatedDocument = await prisma.document.update({
-      where: { id: documentId },
-      data: {
-        lockExpiresAt: lockExpiry,
-      },
-    });
-    
-    // Log the lock extension
-    await prisma.documentAuditLog.create({
-      data: {
-        documentId,
-        userId,
-        type: 'DOCUMENT_LOCK_EXTENDED',
-        data: JSON.stringify({
-          expiresAt: lockExpiry.toISOString(),
-        }),
-      },
-    });
-    
-    return updatedDocument;
+
+    return { lockExpiresAt: lockExpiry };
   }
-  
+
   /**
    * Unlock a document.
    */
-  async unlockDocument(documentId: number, userId: number) {
-    // Check if the document is locked by the user
-    const document = await prisma.document.findFirst({
+  async unlockDocument(documentId: number, userId: number, metadata?: ApiRequestMetadata) {
+    const { count } = await prisma.document.updateMany({
       where: {
         id: documentId,
         isLocked: true,
         lockedByUserId: userId,
       },
-    });
-    
-    if (!document) {
-      throw new TRPCError({
-        code: 'NOT_FOUND',
-        message: 'Document not found or not locked by you',
-      });
-    }
-    
-    // Unlock the document
-    const updatedDocument = await prisma.document.update({
-      where: { id: documentId },
       data: {
         isLocked: false,
         lockedByUserId: null,
         lockExpiresAt: null,
       },
     });
-    
-    // Log the unlock action
+
+    if (count === 0) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'Document not found or not locked by you',
+      });
+    }
+
     await prisma.documentAuditLog.create({
-      data: {
+      data: createDocumentAuditLogData({
+        type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_UNLOCKED,
         documentId,
-        userId,
-        type: 'DOCUMENT_UNLOCKED',
-      },
+        user: await this.getAuditUser(userId),
+        metadata,
+        data: {},
+      }),
     });
-    
-    return updatedDocument;
   }
-  
+
   /**
    * Force unlock a document (admin only).
    */
-  async forceUnlockDocument(documentId: number, adminUserId: number) {
+  async forceUnlockDocument(
+    documentId: number,
+    adminUserId: number,
+    metadata?: ApiRequestMetadata,
+  ) {
     // Check if the user is an admin
     const isAdmin = await this.isUserAdmin(adminUserId);
-    
+
     if (!isAdmin) {
       throw new TRPCError({
         code: 'FORBIDDEN',
         message: 'Only administrators can force unlock documents',
       });
     }
-    
-    // Force unlock the document
+
     const updatedDocument = await prisma.document.update({
       where: { id: documentId },
       data: {
@@ -193,25 +185,26 @@ export class DocumentLockService {
         lockExpiresAt: null,
       },
     });
-    
-    // Log the force unlock action
+
     await prisma.documentAuditLog.create({
-      data: {
+      data: createDocumentAuditLogData({
+        type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_FORCE_UNLOCKED,
         documentId,
-        userId: adminUserId,
-        type: 'DOCUMENT_FORCE_UNLOCKED',
-      },
+        user: await this.getAuditUser(adminUserId),
+        metadata,
+        data: {},
+      }),
     });
-    
+
     return updatedDocument;
   }
-  
+
   /**
    * Clean up expired locks.
    */
   async cleanupExpiredLocks() {
     const now = new Date();
-    
+
     // Find all documents with expired locks
     const expiredLocks = await prisma.document.findMany({
       where: {
@@ -220,41 +213,57 @@ export class DocumentLockService {
           lt: now,
         },
       },
+      select: { id: true },
     });
-    
+
     if (expiredLocks.length === 0) {
       return { success: true, count: 0 };
     }
-    
-    // Unlock all documents with expired locks
-    await prisma.document.updateMany({
-      where: {
-        id: {
-          in: expiredLocks.map((doc) => doc.id),
-        },
-      },
-      data: {
-        isLocked: false,
-        lockedByUserId: null,
-        lockExpiresAt: null,
-      },
-    });
-    
-    // Log the cleanup action for each document
-    await Promise.all(
-      expiredLocks.map((doc) =>
-        prisma.documentAuditLog.create({
+
+    let count = 0;
+
+    // Unlock each document on its own so any that were re-locked in the meantime are skipped
+    // and not recorded as expired.
+    for (const { id } of expiredLocks) {
+      const isUnlocked = await prisma.$transaction(async (tx) => {
+        const { count: unlockedCount } = await tx.document.updateMany({
+          where: {
+            id,
+            isLocked: true,
+            lockExpiresAt: {
+              lt: now,
+            },
+          },
           data: {
-            documentId: doc.id,
-            type: 'DOCUMENT_LOCK_EXPIRED',
+            isLocked: false,
+            lockedByUserId: null,
+            lockExpiresAt: null,
           },
-        })
-      )
-    );
-    
-    return { success: true, count: expiredLocks.length };
+        });
+
+        if (unlockedCount === 0) {
+          return false;
+        }
+
+        await tx.documentAuditLog.create({
+          data: createDocumentAuditLogData({
+            type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_LOCK_EXPIRED,
+            documentId: id,
+            data: {},
+          }),
+        });
+
+        return true;
+      });
+
+      if (isUnlocked) {
+        count++;
+      }
+    }
+
+    return { success: true, count };
   }
-  
+
   /**
    * Check if a document is locked.
    */
@@ -263,30 +272,124 @@ export class DocumentLockService {
       where: { id: documentId },
       select: { isLocked: true, lockExpiresAt: true },
     });
-    
+
     if (!document) {
       throw new TRPCError({
         code: 'NOT_FOUND',
         message: 'Document not found',
       });
     }
-    
+
     // Document is considered locked if isLocked is true and lockExpiresAt is in the future
-    return document.isLocked && document.lockExpiresAt ? document.lockExpiresAt > new Date() : false;
+    return document.isLocked && document.lockExpiresAt
+      ? document.lockExpiresAt > new Date()
+      : false;
   }
-  
+
   /**
-   * Get user email by ID.
+   * Get the current lock state of a document, including who holds it.
    */
-  private async getUserEmail(userId: number): Promise<string> {
-    const user = await prisma.user.findUnique({
+  async getDocumentLock(documentId: number) {
+    const document = await prisma.document.findUnique({
+      where: { id: documentId },
+      select: { isLocked: true, lockedByUserId: true, lockExpiresAt: true },
+    });
+
+    if (!document) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'Document not found',
+      });
+    }
+
+    const isLocked = this.isLockActive(document);
+
+    const lockedByUser =
+      isLocked && document.lockedByUserId
+        ? await prisma.user.findUnique({
+            where: { id: document.lockedByUserId },
+            select: { id: true, name: true, email: true },
+          })
+        : null;
+
+    return {
+      isLocked,
+      lockedByUser,
+      lockExpiresAt: isLocked ? document.lockExpiresAt : null,
+    };
+  }
+
+  /**
+   * Ensure that a document is not locked by a user other than the provided one.
+   *
+   * Throws a CONFLICT error when another user currently holds an unexpired lock.
+   */
+  async assertDocumentNotLockedByOtherUser(documentId: number, userId: number) {
+    const document = await prisma.document.findUnique({
+      where: { id: documentId },
+      select: { isLocked: true, lockedByUserId: true, lockExpiresAt: true },
+    });
+
+    // Let the underlying procedure handle missing documents.
+    if (!document) {
+      return;
+    }
+
+    if (this.isLockActive(document) && document.lockedByUserId !== userId) {
+      throw new TRPCError({
+        code: 'CONFLICT',
+        message: 'Document is currently being edited by another user',
+      });
+    }
+  }
+
+  /**
+   * Ensure that the document a field belongs to is not locked by another user.
+   */
+  async assertFieldNotLockedByOtherUser(fieldId: number, userId: number) {
+    const field = await prisma.field.findUnique({
+      where: { id: fieldId },
+      select: { documentId: true },
+    });
+
+    if (field?.documentId) {
+      await this.assertDocumentNotLockedByOtherUser(field.documentId, userId);
+    }
+  }
+
+  /**
+   * Ensure that the document a recipient belongs to is not locked by another user.
+   */
+  async assertRecipientNotLockedByOtherUser(recipientId: number, userId: number) {
+    const recipient = await prisma.recipient.findUnique({
+      where: { id: recipientId },
+      select: { documentId: true },
+    });
+
+    if (recipient?.documentId) {
+      await this.assertDocumentNotLockedByOtherUser(recipient.documentId, userId);
+    }
+  }
+
+  /**
+   * Whether a lock is set and has not yet expired.
+   */
+  private isLockActive(document: { isLocked: boolean; lockExpiresAt: Date | null }) {
+    return (
+      document.isLocked && document.lockExpiresAt !== null && document.lockExpiresAt > new Date()
+    );
+  }
+
+  /**
+   * Get the user details recorded against lock audit log entries.
+   */
+  private async getAuditUser(userId: number) {
+    return await prisma.user.findUnique({
       where: { id: userId },
-      select: { email: true },
+      select: { id: true, email: true, name: true },
     });
-    
-    return user?.email || '';
   }
-  
+
   /**
    * Check if a user is an admin.
    */
@@ -295,7 +398,7 @@ export class DocumentLockService {
       where: { id: userId },
       select: { roles: true },
     });
-    
+
     return user?.roles.includes('ADMIN') || false;
   }
 }
@@ -1,451 +1,563 @@
-import { prisma } from '@documenso/prisma';
-import { TRPCError } from '@trpc/server';
-import { PDFDocument } from 'pdf-lib';
 import { createHash } from 'crypto';
 
+import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
+import { getDocumentWhereInput } from '@documenso/lib/server-only/document/get-document-by-id';
+import { diffPdf } from '@documenso/lib/server-only/pdf/diff-pdf';
+import { renderPdfPage } from '@documenso/lib/server-only/pdf/render-pdf-page';
+import { assertTeamPermission } from '@documenso/lib/server-only/team/assert-team-permission';
+import { DOCUMENT_AUDIT_LOG_TYPE } from '@documenso/lib/types/document-audit-logs';
+import type { ApiRequestMetadata } from '@documenso/lib/universal/extract-request-metadata';
+import { getFile } from '@documenso/lib/universal/upload/get-file';
+import { createDocumentAuditLogData } from '@documenso/lib/utils/document-audit-logs';
+import { prisma } from '@documenso/prisma';
+import { DocumentStatus, Prisma, TeamPermission } from '@documenso/prisma/client';
+
+/**
+ * How many times a version is created again after another version took its version number.
+ */
+const MAXIMUM_CREATE_VERSION_ATTEMPTS = 3;
+
+export type DocumentVersionAccessOptions = {
+  documentId: number;
+  userId: number;
+  teamId?: number;
+};
+
+export type CreateDocumentVersionOptions = DocumentVersionAccessOptions & {
+  reason?: string | null;
+  requestMetadata?: ApiRequestMetadata;
+};
+
+export type SnapshotDocumentVersionOptions = {
+  documentId: number;
+  userId?: number | null;
+  reason: string;
+  requestMetadata?: ApiRequestMetadata;
+};
+
+export type DocumentVersionOptions = DocumentVersionAccessOptions & {
+  versionId: number;
+  requestMetadata?: ApiRequestMetadata;
+};
+
+export type CompareDocumentVersionsOptions = DocumentVersionAccessOptions & {
+  fromVersionId: number;
+  toVersionId: number;
+};
+
+export type RenderDocumentVersionPageOptions = DocumentVersionAccessOptions & {
+  versionId: number;
+  pageNumber: number;
+  width: number;
+};
+
+const versionSelect = {
+  id: true,
+  documentId: true,
+  documentDataId: true,
+  versionNumber: true,
+  reason: true,
+  hash: true,
+  createdAt: true,
+  createdByUser: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+} as const;
+
+type CreateVersionOptions = {
+  documentId: number;
+  documentDataId: string;
+  userId: number | null;
+  reason: string | null;
+  hash: string;
+  requestMetadata?: ApiRequestMetadata;
+};
+
 /**
  * Service for managing document versions.
+ *
+ * A version points at the `DocumentData` the document used at the time it was taken. Since sealing
+ * rewrites `data` in place, the content of a version is always read from `initialData`.
  */
 export class DocumentVersionService {
   /**
-   * Create a new version of a document.
+   * Manually create a new version of a document from its current content.
    */
-  async createDocumentVersion(documentId: number, userId: number, reason: string) {
-    // Check if the document exists and the user has access to it
-    const document = await prisma.document.findFirst({
-      where: {
-        id: documentId,
-        OR: [
-          { userId },
-          {
-            team: {
-              members: {
-                some: {
-                  userId,
-                  role: {
-                    in: ['ADMIN', 'OWNER'],
-                  },
-                },
-              },
-            },
-          },
-        ],
-      },
-      include: {
-        documentData: true,
-      },
-    });
-    
-    if (!document || !document.documentData) {
-      throw new TRPCError({
-        code: 'NOT_FOUND',
-        message: 'Document not found or you do not have permission to create a version',
-      });
-    }
-    
-    // Calculate document hash
-    const documentHash = this.calculateDocumentHash(document.documentData.data);
-    
-    // Check if a version with this hash already exists
+  async createDocumentVersion({
+    documentId,
+    userId,
+    teamId,
+    reason,
+    requestMetadata,
+  }: CreateDocumentVersionOptions) {
+    const document = await this.getManageableDocument({ documentId, userId, teamId });
+
+    const hash = this.calculateDocumentHash(document.documentData.initialData);
+
     const existingVersion = await prisma.documentVersion.findFirst({
       where: {
         documentId,
-        hash: documentHash,
+        hash,
       },
     });
-    
+
     if (existingVersion) {
-      throw new TRPCError({
-        code: 'CONFLICT',
-        message: 'A version with identical content already exists',
+      throw new AppError(AppErrorCode.ALREADY_EXISTS, {
+        message: `Version ${existingVersion.versionNumber} already has identical content`,
       });
     }
-    
-    // Create the document version
-    const version = await prisma.documentVersion.create({
-      data: {
-        documentId,
-        createdByUserId: userId,
-        documentDataId: document.documentData.id,
-        versionNumber: await this.getNextVersionNumber(documentId),
-        reason,
-        hash: documentHash,
+
+    return await this.createVersion({
+      documentId,
+      documentDataId: document.documentData.id,
+      userId,
+      reason: reason ?? null,
+      hash,
+      requestMetadata,
+    });
+  }
+
+  /**
+   * Automatically snapshot the current content of a document.
+   *
+   * This is called from internal flows which have already verified access to the document, so no
+   * access checks are performed. Nothing is created when the latest version already holds identical
+   * content.
+   */
+  async snapshotDocumentVersion({
+    documentId,
+    userId,
+    reason,
+    requestMetadata,
+  }: SnapshotDocumentVersionOptions) {
+    const document = await prisma.document.findFirstOrThrow({
+      where: {
+        id: documentId,
+      },
+      include: {
+        documentData: true,
       },
     });
-    
-    // Log the version creation
-    await prisma.documentAuditLog.create({
-      data: {
+
+    const hash = this.calculateDocumentHash(document.documentData.initialData);
+
+    const latestVersion = await prisma.documentVersion.findFirst({
+      where: {
         documentId,
-        userId,
-        type: 'DOCUMENT_VERSION_CREATED',
-        data: JSON.stringify({
-          versionId: version.id,
-          versionNumber: version.versionNumber,
-          reason,
-        }),
+      },
+      orderBy: {
+        versionNumber: 'desc',
       },
     });
-    
-    return version;
+
+    if (latestVersion?.hash === hash) {
+      return latestVersion;
+    }
+
+    return await this.createVersion({
+      documentId,
+      documentDataId: document.documentData.id,
+      userId: userId ?? null,
+      reason,
+      hash,
+      requestMetadata,
+    });
   }
-  
+
   /**
-   * Get all versions of a document.
+   * Find all versions of a document, newest first.
    */
-  async getDocumentVersions(documentId: number, userId: number) {
-    // Check if the document exists and the user has access to it
-    const document = await prisma.document.findFirst({
+  async findDocumentVersions({ documentId, userId, teamId }: DocumentVersionAccessOptions) {
+    const document = await this.getAccessibleDocument({ documentId, userId, teamId });
+
+    const versions = await prisma.documentVersion.findMany({
       where: {
-        id: documentId,
-        OR: [
-          { userId },
-          {
-            team: {
-              members: {
-                some: {
-                  userId,
-                },
-              },
-            },
-          },
-        ],
+        documentId,
       },
-    });
-    
-    if (!document) {
-      throw new TRPCError({
-        code: 'NOT_FOUND',
-        message: 'Document not found or you do not have permission to view versions',
-      });
-    }
-    
-    // Get all versions of the document
-    return prisma.documentVersion.findMany({
-      where: { documentId },
-      include: {
-        createdByUser: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
-        },
+      select: versionSelect,
+      orderBy: {
+        versionNumber: 'desc',
       },
-      orderBy: { versionNumber: 'desc' },
     });
+
+    return versions.map((version) => ({
+      ...version,
+      isCurrent: version.documentDataId === document.documentDataId,
+    }));
   }
-  
+
   /**
-   * Get a specific version of a document.
+   * Get a specific version of a document, including its content.
    */
-  async getDocumentVersion(versionId: number, userId: number) {
-    // Get the version with document info
-    const version = await prisma.documentVersion.findUnique({
-      where: { id: versionId },
-      include: {
-        document: true,
-        documentData: true,
-        createdByUser: {
+  async getDocumentVersion({ documentId, userId, teamId, versionId }: DocumentVersionOptions) {
+    const document = await this.getAccessibleDocument({ documentId, userId, teamId });
+
+    const version = await prisma.documentVersion.findFirst({
+      where: {
+        id: versionId,
+        documentId,
+      },
+      select: {
+        ...versionSelect,
+        documentData: {
           select: {
-            id: true,
-            name: true,
-            email: true,
+            type: true,
+            initialData: true,
           },
         },
       },
     });
-    
+
     if (!version) {
-      throw new TRPCError({
-        code: 'NOT_FOUND',
+      throw new AppError(AppErrorCode.NOT_FOUND, {
         message: 'Document version not found',
       });
     }
-    
-    // Check if the user has access to the document
-    const hasAccess = await this.userHasAccessToDocument(version.documentId, userId);
-    
-    if (!hasAccess) {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You do not have permission to view this document version',
-      });
-    }
-    
-    return version;
+
+    const { documentData, ...rest } = version;
+
+    return {
+      ...rest,
+      isCurrent: version.documentDataId === document.documentDataId,
+      documentData: {
+        type: documentData.type,
+        data: documentData.initialData,
+      },
+    };
   }
-  
+
   /**
-   * Restore a document to a specific version.
+   * Restore a draft document to a specific version.
+   *
+   * The current content is snapshotted first so the restore itself can be undone.
    */
-  async restoreDocumentVersion(versionId: number, userId: number) {
-    // Get the version with document info
-    const version = await prisma.documentVersion.findUnique({
-      where: { id: versionId },
-      include: {
-        document: true,
-        documentData: true,
-      },
-    });
-    
-    if (!version || !version.documentData) {
-      throw new TRPCError({
-        code: 'NOT_FOUND',
-        message: 'Document version not found',
+  async restoreDocumentVersion({
+    documentId,
+    userId,
+    teamId,
+    versionId,
+    requestMetadata,
+  }: DocumentVersionOptions) {
+    const document = await this.getManageableDocument({ documentId, userId, teamId });
+
+    if (document.status !== DocumentStatus.DRAFT) {
+      throw new AppError(AppErrorCode.INVALID_REQUEST, {
+        message: 'Only draft documents can be restored to a previous version',
       });
     }
-    
-    // Check if the user has permission to modify the document
-    const hasPermission = await this.userCanModifyDocument(version.documentId, userId);
-    
-    if (!hasPermission) {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You do not have permission to restore this document version',
-      });
+
+    const version = await this.findVersion({ documentId, versionId });
+
+    if (version.documentDataId === document.documentDataId) {
+      return version;
     }
-    
-    // Create a new document data entry with the version's data
-    const newDocumentData = await prisma.documentData.create({
-      data: {
-        type: 'PDF',
-        data: version.documentData.data,
-      },
-    });
-    
-    // Update the document to use the new document data
-    const updatedDocument = await prisma.document.update({
-      where: { id: version.documentId },
-      data: {
-        documentDataId: newDocumentData.id,
-      },
+
+    await this.snapshotDocumentVersion({
+      documentId,
+      userId,
+      reason: `Before restoring version ${version.versionNumber}`,
+      requestMetadata,
     });
-    
-    // Log the version restoration
-    await prisma.documentAuditLog.create({
-      data: {
-        documentId: version.documentId,
-        userId,
-        type: 'DOCUMENT_VERSION_RESTORED',
-        data: JSON.stringify({
-          versionId,
-          versionNumber: version.versionNumber,
+
+    await prisma.$transaction(async (tx) => {
+      await tx.document.update({
+        where: {
+          id: documentId,
+        },
+        data: {
+          documentDataId: version.documentDataId,
+        },
+      });
+
+      await tx.documentAuditLog.create({
+        data: createDocumentAuditLogData({
+          type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_VERSION_RESTORED,
+          documentId,
+          metadata: requestMetadata,
+          data: {
+            versionId: version.id,
+            versionNumber: version.versionNumber,
+          },
         }),
-      },
+      });
     });
-    
-    return updatedDocument;
+
+    return version;
   }
-  
+
   /**
-   * Compare two document versions.
+   * Compare two versions of the same document page by page.
+   *
+   * See `diffPdf` for how pages and text runs are matched.
    */
-  async compareDocumentVersions(versionId1: number, versionId2: number, userId: number) {
-    // Get both versions
-    const version1 = await prisma.documentVersion.findUnique({
-      where: { id: versionId1 },
-      include: {
-        documentData: true,
+  async compareDocumentVersions({
+    documentId,
+    userId,
+    teamId,
+    fromVersionId,
+    toVersionId,
+  }: CompareDocumentVersionsOptions) {
+    await this.getAccessibleDocument({ documentId, userId, teamId });
+
+    const versions = await prisma.documentVersion.findMany({
+      where: {
+        id: {
+          in: [fromVersionId, toVersionId],
+        },
+        documentId,
       },
-    });
-    
-    const version2 = await prisma.documentVersion.findUnique({
-      where: { id: versionId2 },
-      include: {
-        documentData: true,
+      select: {
+        ...versionSelect,
+        documentData: {
+          select: {
+            type: true,
+            initialData: true,
+          },
+        },
       },
     });
-    
-    if (!version1 || !version2 || !version1.documentData || !version2.documentData) {
-      throw new TRPCError({
-        code: 'NOT_FOUND',
+
+    const fromVersion = versions.find((version) => version.id === fromVersionId);
+    const toVersion = versions.find((version) => version.id === toVersionId);
+
+    if (!fromVersion || !toVersion) {
+      throw new AppError(AppErrorCode.NOT_FOUND, {
         message: 'One or both document versions not found',
       });
     }
-    
-    // Check if the user has access to the document
-    const hasAccess = await this.userHasAccessToDocument(version1.documentId, userId);
-    
-    if (!hasAccess) {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You do not have permission to compare these document versions',
-      });
-    }
-    
-    // Check if the versions belong to the same document
-    if (version1.documentId !== version2.documentId) {
-      throw new TRPCError({
-        code: 'BAD_REQUEST',
-        message: 'Cannot compare versions from different documents',
-      });
-    }
-    
-    // In a real implementation, you would perform a detailed comparison of the PDF content
-    // For now, we'll just return a simple comparison based on metadata
+
+    const [fromPdf, toPdf] = await Promise.all([
+      getFile({ type: fromVersion.documentData.type, data: fromVersion.documentData.initialData }),
+      getFile({ type: toVersion.documentData.type, data: toVersion.documentData.initialData }),
+    ]);
+
+    const diff = await diffPdf({ from: fromPdf, to: toPdf });
+
+    const { documentData: _fromDocumentData, ...from } = fromVersion;
+    const { documentData: _toDocumentData, ...to } = toVersion;
+
     return {
-      version1: {
-        id: version1.id,
-        versionNumber: version1.versionNumber,
-        createdAt: version1.createdAt,
-        reason: version1.reason,
-        hash: version1.hash,
-      },
-      version2: {
-        id: version2.id,
-        versionNumber: version2.versionNumber,
-        createdAt: version2.createdAt,
-        reason: version2.reason,
-        hash: version2.hash,
-      },
-      isDifferent: version1.hash !== version2.hash,
-      // In a real implementation, you would include more detailed differences
+      fromVersion: from,
+      toVersion: to,
+      isDifferent: fromVersion.hash !== toVersion.hash,
+      diff,
     };
   }
-  
+
   /**
-   * Delete a document version.
+   * Render a single page of a document version as a PNG data URL.
    */
-  async deleteDocumentVersion(versionId: number, userId: number) {
-    // Get the version
-    const version = await prisma.documentVersion.findUnique({
-      where: { id: versionId },
-      include: {
-        document: true,
-      },
+  async renderDocumentVersionPage({
+    documentId,
+    userId,
+    teamId,
+    versionId,
+    pageNumber,
+    width,
+  }: RenderDocumentVersionPageOptions) {
+    const { documentData } = await this.getDocumentVersion({
+      documentId,
+      userId,
+      teamId,
+      versionId,
     });
-    
-    if (!version) {
-      throw new TRPCError({
-        code: 'NOT_FOUND',
-        message: 'Document version not found',
+
+    const png = await renderPdfPage({
+      pdf: await getFile(documentData),
+      pageNumber,
+      width,
+    });
+
+    if (!png) {
+      throw new AppError(AppErrorCode.NOT_FOUND, {
+        message: 'Page not found',
       });
     }
-    
-    // Check if the user has permission to modify the document
-    const hasPermission = await this.userCanModifyDocument(version.documentId, userId);
-    
-    if (!hasPermission) {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You do not have permission to delete this document version',
+
+    return `data:image/png;base64,${Buffer.from(png).toString('base64')}`;
+  }
+
+  /**
+   * Delete a version of a document.
+   *
+   * The version the document currently points to cannot be deleted.
+   */
+  async deleteDocumentVersion({
+    documentId,
+    userId,
+    teamId,
+    versionId,
+    requestMetadata,
+  }: DocumentVersionOptions) {
+    const document = await this.getManageableDocument({ documentId, userId, teamId });
+
+    const version = await this.findVersion({ documentId, versionId });
+
+    if (version.documentDataId === document.documentDataId) {
+      throw new AppError(AppErrorCode.INVALID_REQUEST, {
+        message: 'The current version of a document cannot be deleted',
       });
     }
-    
-    // Delete the version
-    await prisma.documentVersion.delete({
-      where: { id: versionId },
-    });
-    
-    // Log the version deletion
-    await prisma.documentAuditLog.create({
-      data: {
-        documentId: version.documentId,
-        userId,
-        type: 'DOCUMENT_VERSION_DELETED',
-        data: JSON.stringify({
-          versionId,
-          versionNumber: version.versionNumber,
+
+    await prisma.$transaction(async (tx) => {
+      await tx.documentVersion.delete({
+        where: {
+          id: version.id,
+        },
+      });
+
+      await tx.documentAuditLog.create({
+        data: createDocumentAuditLogData({
+          type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_VERSION_DELETED,
+          documentId,
+          metadata: requestMetadata,
+          data: {
+            versionId: version.id,
+            versionNumber: version.versionNumber,
+          },
         }),
-      },
+      });
     });
-    
-    return { success: true };
+
+    return version;
   }
-  
+
   /**
-   * Get the next version number for a document.
+   * Create the next version of a document.
+   *
+   * Versions created at the same time can read the same latest version number, the version
+   * that loses the race fails on the unique version number and is created again.
    */
-  private async getNextVersionNumber(documentId: number): Promise<number> {
-    // Get the highest version number for the document
-    const highestVersion = await prisma.documentVersion.findFirst({
-      where: { documentId },
-      orderBy: { versionNumber: 'desc' },
-      select: { versionNumber: true },
-    });
-    
-    return (highestVersion?.versionNumber || 0) + 1;
+  private async createVersion(options: CreateVersionOptions) {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.createNextVersion(options);
+      } catch (err) {
+        const isVersionNumberTaken =
+          err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002';
+
+        if (!isVersionNumberTaken || attempt >= MAXIMUM_CREATE_VERSION_ATTEMPTS) {
+          throw err;
+        }
+      }
+    }
   }
-  
-  /**
-   * Calculate a hash for a document.
-   */
-  private calculateDocumentHash(documentData: string): string {
-    return createHash('sha256').update(documentData).digest('hex');
+
+  private async createNextVersion({
+    documentId,
+    documentDataId,
+    userId,
+    reason,
+    hash,
+    requestMetadata,
+  }: CreateVersionOptions) {
+    return await prisma.$transaction(async (tx) => {
+      const latestVersion = await tx.documentVersion.findFirst({
+        where: {
+          documentId,
+        },
+        orderBy: {
+          versionNumber: 'desc',
+        },
+        select: {
+          versionNumber: true,
+        },
+      });
+
+      const version = await tx.documentVersion.create({
+        data: {
+          documentId,
+          documentDataId,
+          createdByUserId: userId,
+          versionNumber: (latestVersion?.versionNumber ?? 0) + 1,
+          reason,
+          hash,
+        },
+        select: versionSelect,
+      });
+
+      await tx.documentAuditLog.create({
+        data: createDocumentAuditLogData({
+          type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_VERSION_CREATED,
+          documentId,
+          metadata: requestMetadata,
+          data: {
+            versionId: version.id,
+            versionNumber: version.versionNumber,
+            reason,
+          },
+        }),
+      });
+
+      return version;
+    });
   }
-  
-  /**
-   * Check if a user has access to a document.
-   */
-  private async userHasAccessToDocument(documentId: number, userId: number): Promise<boolean> {
-    const document = await prisma.document.findFirst({
+
+  private async findVersion({ documentId, versionId }: { documentId: number; versionId: number }) {
+    const version = await prisma.documentVersion.findFirst({
       where: {
-        id: documentId,
-        OR: [
-          { userId },
-          {
-            team: {
-              members: {
-                some: {
-                  userId,
-                },
-              },
-            },
-          },
-          {
-            recipients: {
-              some: {
-                email: {
-                  equals: await this.getUserEmail(userId),
-                },
-              },
-            },
-          },
-        ],
+        id: versionId,
+        documentId,
       },
+      select: versionSelect,
     });
-    
-    return !!document;
+
+    if (!version) {
+      throw new AppError(AppErrorCode.NOT_FOUND, {
+        message: 'Document version not found',
+      });
+    }
+
+    return version;
   }
-  
+
   /**
-   * Check if a user can modify a document.
+   * Get a document the user can access and is allowed to modify within their team.
    */
-  private async userCanModifyDocument(documentId: number, userId: number): Promise<boolean> {
+  private async getManageableDocument({
+    documentId,
+    userId,
+    teamId,
+  }: DocumentVersionAccessOptions) {
+    if (teamId) {
+      await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_DOCUMENTS });
+    }
+
+    return await this.getAccessibleDocument({ documentId, userId, teamId });
+  }
+
+  private async getAccessibleDocument({
+    documentId,
+    userId,
+    teamId,
+  }: DocumentVersionAccessOptions) {
+    const documentWhereInput = await getDocumentWhereInput({
+      documentId,
+      userId,
+      teamId,
+    });
+
     const document = await prisma.document.findFirst({
-      where: {
-        id: documentId,
-        OR: [
-          { userId },
-          {
-            team: {
-              members: {
-                some: {
-                  userId,
-                  role: {
-                    in: ['ADMIN', 'OWNER'],
-                  },
-                },
-              },
-            },
-          },
-        ],
+      where: documentWhereInput,
+      include: {
+        documentData: true,
       },
     });
-    
-    return !!document;
+
+    if (!document) {
+      throw new AppError(AppErrorCode.NOT_FOUND, {
+        message: 'Document not found',
+      });
+    }
+
+    return document;
   }
-  
-  /**
-   * Get user email by ID.
-   */
-  private async getUserEmail(userId: number): Promise<string> {
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { email: true },
-    });
-    
-    return user?.email || '';
+
+  private calculateDocumentHash(documentData: string) {
+    return createHash('sha256').update(documentData).digest('hex');
   }
 }
@@ -1,500 +1,676 @@
-import { prisma } from '@documenso/prisma';
-import { FormFieldType } from '@documenso/prisma/client';
-import { TRPCError } from '@trpc/server';
+import { DateTime } from 'luxon';
 import { z } from 'zod';
 
-// Define schema for form field creation
-const FormFieldSchema = z.object({
-  type: z.nativeEnum(FormFieldType),
-  label: z.string().min(1),
-  placeholder: z.string().optional(),
-  helpText: z.string().optional(),
-  isRequired: z.boolean().default(false),
-  defaultValue: z.string().optional(),
-  validationRules: z.string().optional(), // JSON string
-  options: z.string().optional(), // JSON string for select/radio options
-  order: z.number().default(0),
-});
-
-type FormFieldInput = z.infer<typeof FormFieldSchema>;
-
-// Define schema for form creation
-const DynamicFormSchema = z.object({
-  title: z.string().min(1),
-  description: z.string().optional(),
-  templateId: z.number().optional(),
-  accessControl: z.string().optional(), // JSON string
-  expiresAt: z.date().optional(),
-  customSlug: z.string().optional(),
-  redirectUrl: z.string().optional(),
-  fields: z.array(FormFieldSchema),
-});
-
-type DynamicFormInput = z.infer<typeof DynamicFormSchema>;
+import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
+import { sendDocument } from '@documenso/lib/server-only/document/send-document';
+import { createDocumentFromTemplate } from '@documenso/lib/server-only/template/create-document-from-template';
+import type { ApiRequestMetadata } from '@documenso/lib/universal/extract-request-metadata';
+import { prisma } from '@documenso/prisma';
+import type { FormField, Prisma } from '@documenso/prisma/client';
+import { FormFieldType, RecipientRole } from '@documenso/prisma/client';
+
+export type DynamicFormAccessOptions = {
+  userId: number;
+  teamId?: number;
+};
+
+export type DynamicFormFieldInput = {
+  /**
+   * The ID of an existing field, omitted for new fields.
+   */
+  id?: number;
+  type: FormFieldType;
+  label: string;
+  placeholder?: string | null;
+  helpText?: string | null;
+  isRequired: boolean;
+  defaultValue?: string | null;
+  options?: string[];
+
+  /**
+   * The name of the template PDF form field the submitted value is inserted into.
+   */
+  formValueKey?: string | null;
+};
+
+export type DynamicFormInput = {
+  title: string;
+  description?: string | null;
+  customSlug: string;
+  redirectUrl?: string | null;
+  expiresAt?: Date | null;
+  fields: DynamicFormFieldInput[];
+};
+
+export type CreateDynamicFormOptions = DynamicFormAccessOptions & {
+  templateId: number;
+  data: DynamicFormInput;
+};
+
+export type FindDynamicFormsOptions = DynamicFormAccessOptions & {
+  templateId: number;
+};
+
+export type DynamicFormOptions = DynamicFormAccessOptions & {
+  formId: number;
+};
+
+export type UpdateDynamicFormOptions = DynamicFormOptions & {
+  data: DynamicFormInput;
+};
+
+export type SetDynamicFormPublishedOptions = DynamicFormOptions & {
+  isPublished: boolean;
+};
+
+export type GetPublicDynamicFormOptions = {
+  /**
+   * The team URL, or the profile URL of the user for personal forms.
+   */
+  url: string;
+  slug: string;
+};
+
+export type SubmitDynamicFormOptions = GetPublicDynamicFormOptions & {
+  submitterName: string;
+  submitterEmail: string;
+
+  /**
+   * The submitted values keyed by form field ID.
+   */
+  values: Record<string, string>;
+  requestMetadata: ApiRequestMetadata;
+};
+
+export type DynamicFormField = Omit<FormField, 'options'> & {
+  options: string[];
+};
+
+const ZFormFieldOptionsSchema = z.array(z.string());
+
+const fieldOrderBy = {
+  order: 'asc',
+} as const;
 
 /**
- * Service for managing dynamic forms (PowerForms equivalent).
+ * Service for managing dynamic forms (PowerForms).
+ *
+ * A form is attached to a template and hosted publicly at `/f/<url>/<slug>`, where `url` is the team
+ * URL or, for personal forms, the profile URL of the owner. Each submission creates and sends a new
+ * document from the template with the submitter as the first signer.
  */
 export class DynamicFormService {
   /**
-   * Create a new dynamic form.
+   * Create a new form for a template.
    */
-  async createForm(userId: number, teamId: number | null, data: DynamicFormInput) {
-    // Validate the form data
-    const validatedData = DynamicFormSchema.parse(data);
-    
-    // Create the form
+  async createForm({ userId, teamId, templateId, data }: CreateDynamicFormOptions) {
+    await this.getAccessibleTemplate({ templateId, userId, teamId });
+
+    await this.assertSlugAvailable({ userId, teamId, slug: data.customSlug });
+
     const form = await prisma.dynamicForm.create({
       data: {
-        title: validatedData.title,
-        description: validatedData.description,
+        title: data.title,
+        description: data.description,
+        customSlug: data.customSlug,
+        redirectUrl: data.redirectUrl || null,
+        expiresAt: data.expiresAt,
         userId,
         teamId,
-        templateId: validatedData.templateId,
-        accessControl: validatedData.accessControl,
-        expiresAt: validatedData.expiresAt,
-        customSlug: validatedData.customSlug,
-        redirectUrl: validatedData.redirectUrl,
+        templateId,
+        fields: {
+          create: data.fields.map((field, index) => this.mapFieldInput(field, index)),
+        },
+      },
+      include: {
+        fields: {
+          orderBy: fieldOrderBy,
+        },
       },
     });
-    
-    // Create the form fields
-    const fields = await Promise.all(
-      validatedData.fields.map(async (field) => {
-        return prisma.formField.create({
-          data: {
-            formId: form.id,
-            type: field.type,
-            label: field.label,
-            placeholder: field.placeholder,
-            helpText: field.helpText,
-            isRequired: field.isRequired,
-            defaultValue: field.defaultValue,
-            validationRules: field.validationRules,
-            options: field.options,
-            order: field.order,
-          },
-        });
-      })
-    );
-    
-    return { form, fields };
+
+    return this.mapForm(form);
   }
-  
+
   /**
-   * Get a form by ID.
+   * Find the forms attached to a template.
    */
-  async getFormById(formId: number) {
-    const form = await prisma.dynamicForm.findUnique({
-      where: { id: formId },
+  async findForms({ userId, teamId, templateId }: FindDynamicFormsOptions) {
+    await this.getAccessibleTemplate({ templateId, userId, teamId });
+
+    const forms = await prisma.dynamicForm.findMany({
+      where: {
+        templateId,
+        ...this.getFormWhereInput({ userId, teamId }),
+      },
       include: {
         fields: {
-          orderBy: { order: 'asc' },
+          orderBy: fieldOrderBy,
         },
-        user: {
+        _count: {
           select: {
-            id: true,
-            name: true,
-            email: true,
+            submissions: true,
           },
         },
-        team: {
-          select: {
-            id: true,
-            name: true,
-          },
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+
+    return forms.map((form) => this.mapForm(form));
+  }
+
+  async getForm({ formId, userId, teamId }: DynamicFormOptions) {
+    const form = await prisma.dynamicForm.findFirst({
+      where: {
+        id: formId,
+        ...this.getFormWhereInput({ userId, teamId }),
+      },
+      include: {
+        fields: {
+          orderBy: fieldOrderBy,
         },
-        template: true,
       },
     });
-    
+
     if (!form) {
-      throw new TRPCError({
-        code: 'NOT_FOUND',
+      throw new AppError(AppErrorCode.NOT_FOUND, {
         message: 'Form not found',
       });
     }
-    
-    return form;
+
+    return this.mapForm(form);
   }
-  
+
   /**
-   * Get forms by user ID.
+   * Update a form and its fields.
+   *
+   * Fields are matched on their ID. Fields which are no longer present are removed together with
+   * their submitted values.
    */
-  async getFormsByUserId(userId: number) {
-    return prisma.dynamicForm.findMany({
-      where: { userId },
-      include: {
-        fields: {
-          orderBy: { order: 'asc' },
+  async updateForm({ formId, userId, teamId, data }: UpdateDynamicFormOptions) {
+    const form = await this.getForm({ formId, userId, teamId });
+
+    if (data.customSlug !== form.customSlug) {
+      await this.assertSlugAvailable({ userId, teamId, slug: data.customSlug });
+    }
+
+    const existingFieldIds = new Set(form.fields.map((field) => field.id));
+
+    const fieldsToUpdate = data.fields.filter(
+      (field) => field.id !== undefined && existingFieldIds.has(field.id),
+    );
+
+    return await prisma.$transaction(async (tx) => {
+      await tx.formField.deleteMany({
+        where: {
+          formId,
+          id: {
+            notIn: fieldsToUpdate.map((field) => field.id ?? -1),
+          },
         },
-        _count: {
-          select: {
-            submissions: true,
+      });
+
+      for (const [index, field] of data.fields.entries()) {
+        if (field.id !== undefined && existingFieldIds.has(field.id)) {
+          await tx.formField.update({
+            where: {
+              id: field.id,
+            },
+            data: this.mapFieldInput(field, index),
+          });
+        } else {
+          await tx.formField.create({
+            data: {
+              formId,
+              ...this.mapFieldInput(field, index),
+            },
+          });
+        }
+      }
+
+      const updatedForm = await tx.dynamicForm.update({
+        where: {
+          id: formId,
+        },
+        data: {
+          title: data.title,
+          description: data.description,
+          customSlug: data.customSlug,
+          redirectUrl: data.redirectUrl || null,
+          expiresAt: data.expiresAt,
+        },
+        include: {
+          fields: {
+            orderBy: fieldOrderBy,
           },
         },
+      });
+
+      return this.mapForm(updatedForm);
+    });
+  }
+
+  async setFormPublished({ formId, userId, teamId, isPublished }: SetDynamicFormPublishedOptions) {
+    const form = await this.getForm({ formId, userId, teamId });
+
+    if (isPublished && !form.templateId) {
+      throw new AppError(AppErrorCode.INVALID_REQUEST, {
+        message: 'A form must be attached to a template before it can be published',
+      });
+    }
+
+    return await prisma.dynamicForm.update({
+      where: {
+        id: formId,
+      },
+      data: {
+        isPublished,
       },
-      orderBy: { createdAt: 'desc' },
     });
   }
-  
-  /**
-   * Get forms by team ID.
-   */
-  async getFormsByTeamId(teamId: number) {
-    return prisma.dynamicForm.findMany({
-      where: { teamId },
+
+  async deleteForm({ formId, userId, teamId }: DynamicFormOptions) {
+    await this.getForm({ formId, userId, teamId });
+
+    await prisma.dynamicForm.delete({
+      where: {
+        id: formId,
+      },
+    });
+  }
+
+  async findFormSubmissions({ formId, userId, teamId }: DynamicFormOptions) {
+    await this.getForm({ formId, userId, teamId });
+
+    return await prisma.formSubmission.findMany({
+      where: {
+        formId,
+      },
       include: {
-        fields: {
-          orderBy: { order: 'asc' },
-        },
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
+        fieldSubmissions: {
+          include: {
+            field: {
+              select: {
+                label: true,
+              },
+            },
+          },
+          orderBy: {
+            field: {
+              order: 'asc',
+            },
           },
         },
-        _count: {
+        document: {
           select: {
-            submissions: true,
+            id: true,
+            title: true,
+            status: true,
           },
         },
       },
-      orderBy: { createdAt: 'desc' },
+      orderBy: {
+        submittedAt: 'desc',
+      },
     });
   }
-  
+
   /**
-   * Update a form.
+   * Get a published form by its public URL.
    */
-  async updateForm(formId: number, userId: number, data: Partial<DynamicFormInput>) {
-    // Check if the form exists and belongs to the user
-    const form = await prisma.dynamicForm.findFirst({
+  async getPublicForm({ url, slug }: GetPublicDynamicFormOptions) {
+    const forms = await prisma.dynamicForm.findMany({
       where: {
-        id: formId,
+        customSlug: slug,
+        isPublished: true,
+        templateId: {
+          not: null,
+        },
         OR: [
-          { userId },
           {
             team: {
-              members: {
-                some: {
-                  userId,
-                  role: {
-                    in: ['ADMIN', 'OWNER'],
-                  },
-                },
-              },
+              url,
+            },
+          },
+          {
+            teamId: null,
+            user: {
+              url,
             },
           },
         ],
       },
+      include: {
+        fields: {
+          orderBy: fieldOrderBy,
+        },
+      },
     });
-    
+
+    // Team and user URLs do not share a namespace, so refuse to guess which form was meant.
+    if (forms.length > 1) {
+      throw new AppError(AppErrorCode.INVALID_REQUEST, {
+        message: 'Form URL is ambiguous',
+      });
+    }
+
+    const form = forms.at(0);
+
     if (!form) {
-      throw new TRPCError({
-        code: 'NOT_FOUND',
-        message: 'Form not found or you do not have permission to update it',
+      throw new AppError(AppErrorCode.NOT_FOUND, {
+        message: 'Form not found',
       });
     }
-    
-    // Update the form
-    const updatedForm = await prisma.dynamicForm.update({
-      where: { id: formId },
-      data: {
-        title: data.title,
-        description: data.description,
-        templateId: data.templateId,
-        accessControl: data.accessControl,
-        expiresAt: data.expiresAt,
-        customSlug: data.customSlug,
-        redirectUrl: data.redirectUrl,
-      },
-    });
-    
-    // Update fields if provided
-    if (data.fields) {
-      // Delete existing fields
-      await prisma.formField.deleteMany({
-        where: { formId },
+
+    if (form.expiresAt && form.expiresAt < new Date()) {
+      throw new AppError(AppErrorCode.EXPIRED_CODE, {
+        message: 'Form has expired',
       });
-      
-      // Create new fields
-      const fields = await Promise.all(
-        data.fields.map(async (field) => {
-          return prisma.formField.create({
-            data: {
-              formId,
-              type: field.type,
-              label: field.label,
-              placeholder: field.placeholder,
-              helpText: field.helpText,
-              isRequired: field.isRequired,
-              defaultValue: field.defaultValue,
-              validationRules: field.validationRules,
-              options: field.options,
-              order: field.order,
-            },
-          });
-        })
-      );
-      
-      return { form: updatedForm, fields };
     }
-    
-    return { form: updatedForm };
+
+    return this.mapForm(form);
   }
-  
+
   /**
-   * Delete a form.
+   * Submit a published form.
+   *
+   * A document is created from the linked template with the submitter replacing the first signer,
+   * the mapped values are set as the document form values and the document is sent. The signing
+   * link is only ever delivered to the submitter by email, which confirms they own the address.
    */
-  async deleteForm(formId: number, userId: number) {
-    // Check if the form exists and belongs to the user
-    const form = await prisma.dynamicForm.findFirst({
-      where: {
-        id: formId,
-        OR: [
-          { userId },
-          {
-            team: {
-              members: {
-                some: {
-                  userId,
-                  role: {
-                    in: ['ADMIN', 'OWNER'],
-                  },
-                },
-              },
-            },
-          },
-        ],
-      },
-    });
-    
-    if (!form) {
-      throw new TRPCError({
-        code: 'NOT_FOUND',
-        message: 'Form not found or you do not have permission to delete it',
+  async submitForm({
+    url,
+    slug,
+    submitterName,
+    submitterEmail,
+    values,
+    requestMetadata,
+  }: SubmitDynamicFormOptions) {
+    const form = await this.getPublicForm({ url, slug });
+
+    if (!form.templateId) {
+      throw new AppError(AppErrorCode.NOT_FOUND, {
+        message: 'Form not found',
       });
     }
-    
-    // Delete the form (cascades to fields and submissions)
-    await prisma.dynamicForm.delete({
-      where: { id: formId },
-    });
-    
-    return { success: true };
-  }
-  
-  /**
-   * Submit a form and create a document.
-   */
-  async submitForm(formId: number, data: Record<string, string>, ip?: string) {
-    // Get the form with fields
-    const form = await prisma.dynamicForm.findUnique({
-      where: { id: formId },
+
+    const fieldValues = form.fields.map((field) => ({
+      field,
+      value: this.parseFieldValue(field, values[field.id.toString()]),
+    }));
+
+    const template = await prisma.template.findFirstOrThrow({
+      where: {
+        id: form.templateId,
+      },
       include: {
-        fields: true,
-        template: {
-          include: {
-            documentData: true,
-          },
+        recipients: {
+          orderBy: [{ signingOrder: { sort: 'asc', nulls: 'last' } }, { id: 'asc' }],
         },
       },
     });
-    
-    if (!form) {
-      throw new TRPCError({
-        code: 'NOT_FOUND',
-        message: 'Form not found',
-      });
-    }
-    
-    // Check if form is published
-    if (!form.isPublished) {
-      throw new TRPCError({
-        code: 'BAD_REQUEST',
-        message: 'Form is not published',
-      });
-    }
-    
-    // Check if form has expired
-    if (form.expiresAt && form.expiresAt < new Date()) {
-      throw new TRPCError({
-        code: 'BAD_REQUEST',
-        message: 'Form has expired',
+
+    const submitterRecipient = template.recipients.find(
+      (recipient) => recipient.role === RecipientRole.SIGNER,
+    );
+
+    if (!submitterRecipient) {
+      throw new AppError(AppErrorCode.INVALID_REQUEST, {
+        message: 'The template for this form does not have a signer',
       });
     }
-    
-    // Validate required fields
-    const requiredFields = form.fields.filter((field) => field.isRequired);
-    for (const field of requiredFields) {
-      if (!data[field.id.toString()]) {
-        throw new TRPCError({
-          code: 'BAD_REQUEST',
-          message: `Field "${field.label}" is required`,
-        });
+
+    const formValues: Record<string, string | number | boolean> = {};
+
+    for (const { field, value } of fieldValues) {
+      if (field.formValueKey && value !== null) {
+        formValues[field.formValueKey] = value;
       }
     }
-    
-    // Extract submitter information
-    const emailField = form.fields.find((field) => field.type === FormFieldType.EMAIL);
-    const nameField = form.fields.find((field) => field.label.toLowerCase().includes('name'));
-    
-    const submitterEmail = emailField ? data[emailField.id.toString()] : '';
-    const submitterName = nameField ? data[nameField.id.toString()] : '';
-    
-    if (!submitterEmail) {
-      throw new TRPCError({
-        code: 'BAD_REQUEST',
-        message: 'Email is required',
-      });
-    }
-    
-    // Create a document from the template if available
-    let documentId: number | undefined;
-    
-    if (form.template && form.templateId) {
-      // Logic to create a document from the template
-      // This would typically call an existing service to create a document from a template
-      // For now, we'll just create a placeholder
-      const document = await prisma.document.create({
+
+    const document = await createDocumentFromTemplate({
+      templateId: template.id,
+      userId: form.userId,
+      teamId: form.teamId ?? undefined,
+      recipients: [
+        {
+          id: submitterRecipient.id,
+          name: submitterName,
+          email: submitterEmail,
+        },
+      ],
+      override: {
+        title: `${template.title} - ${submitterName}`,
+        redirectUrl: form.redirectUrl ?? undefined,
+      },
+      requestMetadata,
+    });
+
+    if (Object.keys(formValues).length > 0) {
+      await prisma.document.update({
+        where: {
+          id: document.id,
+        },
         data: {
-          title: `${form.title} Submission - ${submitterName || submitterEmail}`,
-          userId: form.userId,
-          teamId: form.teamId,
-          status: 'DRAFT',
-          documentDataId: form.template.documentData?.id || '',
-          source: 'UPLOAD',
+          formValues,
         },
       });
-      
-      documentId = document.id;
     }
-    
-    // Create the submission
-    const submission = await prisma.formSubmission.create({
+
+    await prisma.formSubmission.create({
       data: {
-        formId,
-        documentId,
+        formId: form.id,
+        documentId: document.id,
         submitterEmail,
-        submitterName: submitterName || null,
-        submitterIp: ip || null,
+        submitterName,
+        submitterIp: requestMetadata.requestMetadata.ipAddress,
+        fieldSubmissions: {
+          create: fieldValues
+            .filter(({ value }) => value !== null)
+            .map(({ field, value }) => ({
+              fieldId: field.id,
+              value: String(value),
+            })),
+        },
       },
     });
-    
-    // Create field submissions
-    const fieldSubmissions = await Promise.all(
-      Object.entries(data).map(async ([fieldId, value]) => {
-        return prisma.formFieldSubmission.create({
-          data: {
-            submissionId: submission.id,
-            fieldId: parseInt(fieldId),
-            value,
-          },
-        });
-      })
-    );
-    
+
+    await sendDocument({
+      documentId: document.id,
+      userId: form.userId,
+      teamId: form.teamId ?? undefined,
+      sendEmail: true,
+      requestMetadata,
+    });
+
     return {
-      submission,
-      fieldSubmissions,
-      documentId,
+      documentId: document.id,
       redirectUrl: form.redirectUrl,
     };
   }
-  
+
   /**
-   * Get form submissions.
+   * Validate a submitted value against its field and convert it to the type inserted into the PDF.
+   *
+   * Returns `null` when an optional field was left empty.
    */
-  async getFormSubmissions(formId: number, userId: number) {
-    // Check if the form exists and belongs to the user
-    const form = await prisma.dynamicForm.findFirst({
+  private parseFieldValue(field: DynamicFormField, rawValue: string | undefined) {
+    const value = (rawValue ?? field.defaultValue ?? '').trim();
+
+    if (field.type === FormFieldType.CHECKBOX) {
+      if (field.isRequired && value !== 'true') {
+        throw new AppError(AppErrorCode.INVALID_BODY, {
+          message: `Field "${field.label}" must be checked`,
+        });
+      }
+
+      return value === 'true';
+    }
+
+    if (value === '') {
+      if (field.isRequired) {
+        throw new AppError(AppErrorCode.INVALID_BODY, {
+          message: `Field "${field.label}" is required`,
+        });
+      }
+
+      return null;
+    }
+
+    const invalidValueError = new AppError(AppErrorCode.INVALID_BODY, {
+      message: `Field "${field.label}" has an invalid value`,
+    });
+
+    switch (field.type) {
+      case FormFieldType.NUMBER: {
+        const number = Number(value);
+
+        if (Number.isNaN(number)) {
+          throw invalidValueError;
+        }
+
+        return number;
+      }
+
+      case FormFieldType.EMAIL:
+        if (!z.string().email().safeParse(value).success) {
+          throw invalidValueError;
+        }
+
+        return value;
+
+      case FormFieldType.DATE:
+        if (!DateTime.fromISO(value).isValid) {
+          throw invalidValueError;
+        }
+
+        return value;
+
+      case FormFieldType.SELECT:
+      case FormFieldType.RADIO:
+        if (!field.options.includes(value)) {
+          throw invalidValueError;
+        }
+
+        return value;
+
+      case FormFieldType.FILE_UPLOAD:
+        throw new AppError(AppErrorCode.INVALID_BODY, {
+          message: 'File uploads are not supported',
+        });
+
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * Options are stored as a JSON string, parse them so callers always receive a list.
+   */
+  private mapForm<T extends { fields: FormField[] }>(
+    form: T,
+  ): Omit<T, 'fields'> & { fields: DynamicFormField[] } {
+    return {
+      ...form,
+      fields: form.fields.map(
+        (field): DynamicFormField => ({
+          ...field,
+          options: this.parseFieldOptions(field.options),
+        }),
+      ),
+    };
+  }
+
+  private parseFieldOptions(options: string | null) {
+    if (!options) {
+      return [];
+    }
+
+    try {
+      const result = ZFormFieldOptionsSchema.safeParse(JSON.parse(options));
+
+      return result.success ? result.data : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private mapFieldInput(field: DynamicFormFieldInput, order: number) {
+    return {
+      type: field.type,
+      label: field.label,
+      placeholder: field.placeholder,
+      helpText: field.helpText,
+      isRequired: field.isRequired,
+      defaultValue: field.defaultValue,
+      options: field.options ? JSON.stringify(field.options) : null,
+      formValueKey: field.formValueKey || null,
+      order,
+    };
+  }
+
+  private async assertSlugAvailable({
+    userId,
+    teamId,
+    slug,
+  }: DynamicFormAccessOptions & { slug: string }) {
+    const existingForm = await prisma.dynamicForm.findFirst({
       where: {
-        id: formId,
-        OR: [
-          { userId },
-          {
-            team: {
-              members: {
-                some: {
-                  userId,
-                  role: {
-                    in: ['ADMIN', 'OWNER', 'MEMBER'],
-                  },
-                },
-              },
-            },
-          },
-        ],
+        customSlug: slug,
+        ...(teamId ? { teamId } : { userId, teamId: null }),
       },
     });
-    
-    if (!form) {
-      throw new TRPCError({
-        code: 'NOT_FOUND',
-        message: 'Form not found or you do not have permission to view submissions',
+
+    if (existingForm) {
+      throw new AppError(AppErrorCode.ALREADY_EXISTS, {
+        message: `A form with the URL "${slug}" already exists`,
       });
     }
-    
-    // Get submissions with field values
-    return prisma.formSubmission.findMany({
-      where: { formId },
-      include: {
-        fieldSubmissions: {
-          include: {
-            field: true,
-          },
-        },
-        document: {
-          select: {
-            id: true,
-            title: true,
-            status: true,
-          },
-        },
+  }
+
+  private async getAccessibleTemplate({
+    templateId,
+    userId,
+    teamId,
+  }: DynamicFormAccessOptions & { templateId: number }) {
+    const template = await prisma.template.findFirst({
+      where: {
+        id: templateId,
+        ...this.getFormWhereInput({ userId, teamId }),
       },
-      orderBy: { submittedAt: 'desc' },
     });
+
+    if (!template) {
+      throw new AppError(AppErrorCode.NOT_FOUND, {
+        message: 'Template not found',
+      });
+    }
+
+    return template;
   }
-  
+
   /**
-   * Publish or unpublish a form.
+   * Forms and templates share the same ownership rules, so this is used for both.
    */
-  async togglePublishForm(formId: number, userId: number, isPublished: boolean) {
-    // Check if the form exists and belongs to the user
-    const form = await prisma.dynamicForm.findFirst({
-      where: {
-        id: formId,
-        OR: [
-          { userId },
-          {
+  private getFormWhereInput({ userId, teamId }: DynamicFormAccessOptions) {
+    return (
+      teamId
+        ? {
             team: {
+              id: teamId,
               members: {
                 some: {
                   userId,
-                  role: {
-                    in: ['ADMIN', 'OWNER'],
-                  },
                 },
               },
             },
-          },
-        ],
-      },
-    });
-    
-    if (!form) {
-      throw new TRPCError({
-        code: 'NOT_FOUND',
-        message: 'Form not found or you do not have permission to publish/unpublish it',
-      });
-    }
-    
-    // Update the form
-    return prisma.dynamicForm.update({
-      where: { id: formId },
-      data: { isPublished },
-    });
+          }
+        : {
+            userId,
+            teamId: null,
+          }
+    ) satisfies Prisma.DynamicFormWhereInput & Prisma.TemplateWhereInput;
   }
 }
@@ -4,16 +4,22 @@ export const FREE_PLAN_LIMITS: TLimitsSchema = {
   documents: 5,
   recipients: 10,
   directTemplates: 3,
+  apiCalls: Infinity,
+  storage: Infinity,
 };
 
 export const TEAM_PLAN_LIMITS: TLimitsSchema = {
   documents: Infinity,
   recipients: Infinity,
   directTemplates: Infinity,
+  apiCalls: Infinity,
+  storage: Infinity,
 };
 
 export const SELFHOSTED_PLAN_LIMITS: TLimitsSchema = {
   documents: Infinity,
   recipients: Infinity,
   directTemplates: Infinity,
+  apiCalls: Infinity,
+  storage: Infinity,
 };
@@ -0,0 +1,109 @@
+import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
+import { prisma } from '@documenso/prisma';
+import { UsageMetric, UsageQuotaEnforcement } from '@documenso/prisma/client';
+
+import type { UsageOwnerOptions } from './usage';
+import { getUsage, getUsageOwnerWhereInput, getUsagePeriod } from './usage';
+import { getUsageQuota } from './usage-quota';
+import { checkUsageQuotaWarnings } from './usage-quota-warnings';
+import { megabytesToBytes } from './utils';
+
+export type RecordUsageOptions = UsageOwnerOptions & {
+  metric: UsageMetric;
+  quantity?: number;
+};
+
+/**
+ * Increment the metered usage of a team or personal account for the current month.
+ */
+export const recordUsage = async ({ userId, teamId, metric, quantity = 1 }: RecordUsageOptions) => {
+  const period = getUsagePeriod();
+
+  if (teamId) {
+    return await prisma.usageRecord.upsert({
+      where: {
+        teamId_metric_period: { teamId, metric, period },
+      },
+      create: { teamId, metric, period, quantity },
+      update: {
+        quantity: {
+          increment: quantity,
+        },
+      },
+    });
+  }
+
+  return await prisma.usageRecord.upsert({
+    where: {
+      userId_metric_period: { userId, metric, period },
+    },
+    create: { userId, metric, period, quantity },
+    update: {
+      quantity: {
+        increment: quantity,
+      },
+    },
+  });
+};
+
+/**
+ * Meter an API call, rejecting it when a hard API call quota has been reached.
+ */
+export const meterApiCall = async (owner: UsageOwnerOptions) => {
+  const quota = await getUsageQuota(owner);
+
+  if (quota && quota.apiCalls !== null && quota.enforcement === UsageQuotaEnforcement.HARD) {
+    const record = await prisma.usageRecord.findFirst({
+      where: {
+        ...getUsageOwnerWhereInput(owner),
+        metric: UsageMetric.API_CALLS,
+        period: getUsagePeriod(),
+      },
+    });
+
+    if ((record?.quantity ?? 0) >= quota.apiCalls) {
+      throw new AppError(AppErrorCode.TOO_MANY_REQUESTS, {
+        message: 'You have reached your API call limit for this month',
+      });
+    }
+  }
+
+  await recordUsage({ ...owner, metric: UsageMetric.API_CALLS });
+
+  if (quota) {
+    await checkUsageQuotaWarnings(owner);
+  }
+};
+
+export type AssertStorageQuotaOptions = UsageOwnerOptions & {
+  /**
+   * The size of the incoming file in bytes.
+   */
+  size: number;
+};
+
+/**
+ * Reject an upload when storing it would exceed a hard storage quota.
+ */
+export const assertStorageQuota = async ({ size, ...owner }: AssertStorageQuotaOptions) => {
+  const quota = await getUsageQuota(owner);
+
+  if (
+    !quota ||
+    quota.storageMegabytes === null ||
+    quota.enforcement !== UsageQuotaEnforcement.HARD
+  ) {
+    return;
+  }
+
+  const { storage } = await getUsage(owner);
+
+  const remaining = megabytesToBytes(quota.storageMegabytes) - storage;
+
+  if (remaining <= 0 || size > remaining) {
+    throw new AppError(AppErrorCode.LIMIT_EXCEEDED, {
+      message: 'You have reached your storage limit.',
+      statusCode: 400,
+    });
+  }
+};
@@ -14,6 +14,17 @@ export const ZLimitsSchema = z.object({
     .preprocess((v) => (v === null ? Infinity : Number(v)), z.number())
     .optional()
     .default(0),
+  apiCalls: z
+    .preprocess((v) => (v === null ? Infinity : Number(v)), z.number())
+    .optional()
+    .default(Infinity),
+  /**
+   * Storage in bytes.
+   */
+  storage: z
+    .preprocess((v) => (v === null ? Infinity : Number(v)), z.number())
+    .optional()
+    .default(Infinity),
 });
 
 export type TLimitsSchema = z.infer<typeof ZLimitsSchema>;
@@ -9,6 +9,8 @@ import { FREE_PLAN_LIMITS, SELFHOSTED_PLAN_LIMITS, TEAM_PLAN_LIMITS } from './co
 import { ERROR_CODES } from './errors';
 import type { TLimitsResponseSchema } from './schema';
 import { ZLimitsSchema } from './schema';
+import { getUsage } from './usage';
+import { applyUsageQuota, getUsageQuota } from './usage-quota';
 
 export type GetServerLimitsOptions = {
   email?: string | null;
@@ -20,17 +22,66 @@ export const getServerLimits = async ({
   teamId,
 }: GetServerLimitsOptions): Promise<TLimitsResponseSchema> => {
   if (!IS_BILLING_ENABLED()) {
-    return {
+    const limits = {
       quota: SELFHOSTED_PLAN_LIMITS,
       remaining: SELFHOSTED_PLAN_LIMITS,
     };
+
+    return email ? handleUsageQuota({ email, teamId, limits }) : limits;
   }
 
   if (!email) {
     throw new Error(ERROR_CODES.UNAUTHORIZED);
   }
 
-  return teamId ? handleTeamLimits({ email, teamId }) : handleUserLimits({ email });
+  const limits = teamId
+    ? await handleTeamLimits({ email, teamId })
+    : await handleUserLimits({ email });
+
+  return handleUsageQuota({ email, teamId, limits });
+};
+
+type HandleUsageQuotaOptions = {
+  email: string;
+  teamId?: number | null;
+  limits: TLimitsResponseSchema;
+};
+
+/**
+ * Apply the admin configured quota of the team or personal account on top of the plan limits.
+ */
+const handleUsageQuota = async ({ email, teamId, limits }: HandleUsageQuotaOptions) => {
+  const user = await prisma.user.findFirst({
+    where: {
+      email,
+      teamMembers: teamId
+        ? {
+            some: {
+              teamId,
+            },
+          }
+        : undefined,
+    },
+    select: {
+      id: true,
+    },
+  });
+
+  if (!user) {
+    return limits;
+  }
+
+  const owner = { userId: user.id, teamId };
+
+  const quota = await getUsageQuota(owner);
+
+  if (!quota) {
+    return limits;
+  }
+
+  const usage = await getUsage(owner);
+
+  return applyUsageQuota({ limits, quota, usage });
 };
 
 type HandleUserLimitsOptions = {
@@ -150,11 +201,15 @@ const handleTeamLimits = async ({ email, teamId }: HandleTeamLimitsOptions) => {
         documents: 0,
         recipients: 0,
         directTemplates: 0,
+        apiCalls: 0,
+        storage: 0,
       },
       remaining: {
         documents: 0,
         recipients: 0,
         directTemplates: 0,
+        apiCalls: 0,
+        storage: 0,
       },
     };
   }
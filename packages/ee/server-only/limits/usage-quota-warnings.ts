@@ -0,0 +1,158 @@
+import { createElement } from 'react';
+
+import { msg } from '@lingui/macro';
+
+import { mailer } from '@documenso/email/mailer';
+import { UsageQuotaWarningEmailTemplate } from '@documenso/email/templates/usage-quota-warning';
+import { getI18nInstance } from '@documenso/lib/client-only/providers/i18n.server';
+import { WEBAPP_BASE_URL } from '@documenso/lib/constants/app';
+import { FROM_ADDRESS, FROM_NAME } from '@documenso/lib/constants/email';
+import { jobs } from '@documenso/lib/jobs/client';
+import { renderEmailWithI18N } from '@documenso/lib/utils/render-email-with-i18n';
+import { teamGlobalSettingsToBranding } from '@documenso/lib/utils/team-global-settings-to-branding';
+import { prisma } from '@documenso/prisma';
+import { UsageMetric, UsageQuotaEnforcement } from '@documenso/prisma/client';
+
+import type { UsageOwnerOptions } from './usage';
+import { getUsage, getUsagePeriod } from './usage';
+import { USAGE_METRIC_LIMIT_KEYS, getUsageQuota, getUsageQuotaLimits } from './usage-quota';
+import { formatStorage } from './utils';
+
+/**
+ * Check the usage of a team or personal account against its quota and send a
+ * warning email the first time a threshold is crossed within a month.
+ */
+export const checkUsageQuotaWarnings = async (owner: UsageOwnerOptions) => {
+  const quota = await getUsageQuota(owner);
+
+  if (!quota) {
+    return;
+  }
+
+  const usage = await getUsage(owner);
+  const limits = getUsageQuotaLimits(quota);
+  const period = getUsagePeriod();
+
+  for (const metric of Object.values(UsageMetric)) {
+    const key = USAGE_METRIC_LIMIT_KEYS[metric];
+    const limit = limits[key];
+
+    if (limit === undefined || limit <= 0) {
+      continue;
+    }
+
+    const percentage = (usage[key] / limit) * 100;
+
+    let threshold: number | null = null;
+
+    if (percentage >= 100) {
+      threshold = 100;
+    } else if (percentage >= quota.warningThreshold) {
+      threshold = quota.warningThreshold;
+    }
+
+    if (threshold === null) {
+      continue;
+    }
+
+    const { count } = await prisma.usageQuotaWarning.createMany({
+      data: [{ quotaId: quota.id, metric, period, threshold }],
+      skipDuplicates: true,
+    });
+
+    // The warning has already been sent this month.
+    if (count === 0) {
+      continue;
+    }
+
+    await jobs.triggerJob({
+      name: 'send.usage-quota-warning.email',
+      payload: {
+        quotaId: quota.id,
+        metric,
+        usage: usage[key],
+        limit,
+      },
+    });
+  }
+};
+
+export type SendUsageQuotaWarningEmailOptions = {
+  quotaId: number;
+  metric: UsageMetric;
+  usage: number;
+  limit: number;
+};
+
+export const sendUsageQuotaWarningEmail = async ({
+  quotaId,
+  metric,
+  usage,
+  limit,
+}: SendUsageQuotaWarningEmailOptions) => {
+  const quota = await prisma.usageQuota.findFirstOrThrow({
+    where: {
+      id: quotaId,
+    },
+    include: {
+      user: true,
+      team: {
+        include: {
+          owner: true,
+          teamGlobalSettings: true,
+        },
+      },
+    },
+  });
+
+  const { team, user } = quota;
+
+  const recipient = team ? team.owner.email : user?.email;
+
+  if (!recipient) {
+    return;
+  }
+
+  const accountName = team ? team.name : (user?.name ?? user?.email ?? '');
+
+  const formatValue = (value: number) =>
+    metric === UsageMetric.STORAGE ? formatStorage(value) : value.toLocaleString();
+
+  const isExceeded = usage >= limit;
+
+  const template = createElement(UsageQuotaWarningEmailTemplate, {
+    assetBaseUrl: WEBAPP_BASE_URL,
+    accountName,
+    metric,
+    usage: formatValue(usage),
+    limit: formatValue(limit),
+    isExceeded,
+    isHardLimit: quota.enforcement === UsageQuotaEnforcement.HARD,
+  });
+
+  const branding = team?.teamGlobalSettings
+    ? teamGlobalSettingsToBranding(team.teamGlobalSettings)
+    : undefined;
+
+  const lang = team?.teamGlobalSettings?.documentLanguage;
+
+  const [html, text] = await Promise.all([
+    renderEmailWithI18N(template, { lang, branding }),
+    renderEmailWithI18N(template, { lang, branding, plainText: true }),
+  ]);
+
+  const i18n = await getI18nInstance(lang);
+
+  await mailer.sendMail({
+    to: recipient,
+    from: {
+      name: FROM_NAME,
+      address: FROM_ADDRESS,
+    },
+    subject: isExceeded
+      ? i18n._(msg`${accountName} has reached its usage limit`)
+      : i18n._(msg`${accountName} is approaching its usage limit`),
+    html,
+    text,
+  });
+};
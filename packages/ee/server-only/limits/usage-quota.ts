@@ -0,0 +1,135 @@
+import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
+import { prisma } from '@documenso/prisma';
+import type { UsageQuota } from '@documenso/prisma/client';
+import { UsageMetric, UsageQuotaEnforcement } from '@documenso/prisma/client';
+
+import type { TLimitsResponseSchema, TLimitsSchema } from './schema';
+import type { TUsage, UsageOwnerOptions } from './usage';
+import { megabytesToBytes } from './utils';
+
+export const USAGE_METRIC_LIMIT_KEYS = {
+  [UsageMetric.DOCUMENTS]: 'documents',
+  [UsageMetric.DIRECT_TEMPLATES]: 'directTemplates',
+  [UsageMetric.API_CALLS]: 'apiCalls',
+  [UsageMetric.STORAGE]: 'storage',
+} as const satisfies Record<UsageMetric, keyof TUsage>;
+
+/**
+ * Get the admin configured quota of a team or personal account.
+ */
+export const getUsageQuota = async ({ userId, teamId }: UsageOwnerOptions) => {
+  return await prisma.usageQuota.findFirst({
+    where: teamId ? { teamId } : { userId },
+  });
+};
+
+/**
+ * Convert the quota to limits, only the limits that have been configured are returned.
+ */
+export const getUsageQuotaLimits = (quota: UsageQuota): Partial<TLimitsSchema> => {
+  return {
+    documents: quota.documents ?? undefined,
+    recipients: quota.recipients ?? undefined,
+    directTemplates: quota.directTemplates ?? undefined,
+    apiCalls: quota.apiCalls ?? undefined,
+    storage: quota.storageMegabytes !== null ? megabytesToBytes(quota.storageMegabytes) : undefined,
+  };
+};
+
+export type ApplyUsageQuotaOptions = {
+  limits: TLimitsResponseSchema;
+  quota: UsageQuota;
+  usage: TUsage;
+};
+
+/**
+ * Override the plan limits with the admin configured quota.
+ *
+ * Soft quotas never reduce what is remaining since they only trigger warnings.
+ */
+export const applyUsageQuota = ({
+  limits,
+  quota,
+  usage,
+}: ApplyUsageQuotaOptions): TLimitsResponseSchema => {
+  const { quota: planQuota, remaining } = structuredClone(limits);
+
+  const quotaLimits = getUsageQuotaLimits(quota);
+
+  const keys = ['documents', 'recipients', 'directTemplates', 'apiCalls', 'storage'] as const;
+
+  for (const key of keys) {
+    const limit = quotaLimits[key];
+
+    if (limit === undefined) {
+      continue;
+    }
+
+    planQuota[key] = limit;
+
+    if (quota.enforcement === UsageQuotaEnforcement.HARD) {
+      // Recipients are limited per document rather than being accumulated.
+      const used = key === 'recipients' ? 0 : usage[key];
+
+      remaining[key] = Math.max(limit - used, 0);
+    }
+  }
+
+  return {
+    quota: planQuota,
+    remaining,
+  };
+};
+
+export type UpsertUsageQuotaOptions = {
+  userId?: number;
+  teamId?: number;
+  data: Pick<
+    UsageQuota,
+    | 'documents'
+    | 'recipients'
+    | 'directTemplates'
+    | 'apiCalls'
+    | 'storageMegabytes'
+    | 'enforcement'
+    | 'warningThreshold'
+  >;
+};
+
+export const upsertUsageQuota = async ({ userId, teamId, data }: UpsertUsageQuotaOptions) => {
+  if (userId && teamId) {
+    throw new AppError(AppErrorCode.INVALID_REQUEST, {
+      message: 'A quota must belong to either a user or a team',
+    });
+  }
+
+  if (teamId) {
+    return await prisma.usageQuota.upsert({
+      where: { teamId },
+      create: { teamId, ...data },
+      update: data,
+    });
+  }
+
+  if (!userId) {
+    throw new AppError(AppErrorCode.INVALID_REQUEST, {
+      message: 'A quota must belong to either a user or a team',
+    });
+  }
+
+  return await prisma.usageQuota.upsert({
+    where: { userId },
+    create: { userId, ...data },
+    update: data,
+  });
+};
+
+export type DeleteUsageQuotaOptions = {
+  id: number;
+};
+
+export const deleteUsageQuota = async ({ id }: DeleteUsageQuotaOptions) => {
+  await prisma.usageQuota.delete({
+    where: { id },
+  });
+};
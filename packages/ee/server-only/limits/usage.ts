@@ -0,0 +1,109 @@
+import { DateTime } from 'luxon';
+
+import { prisma } from '@documenso/prisma';
+import { DocumentSource, UsageMetric } from '@documenso/prisma/client';
+
+export type UsageOwnerOptions = {
+  userId: number;
+  teamId?: number | null;
+};
+
+export type TUsage = {
+  documents: number;
+  directTemplates: number;
+  apiCalls: number;
+  /**
+   * Storage in bytes.
+   */
+  storage: number;
+};
+
+/**
+ * Usage is metered per calendar month in UTC.
+ */
+export const getUsagePeriod = (date: Date = new Date()) => {
+  return DateTime.fromJSDate(date).toUTC().startOf('month').toJSDate();
+};
+
+/**
+ * Usage belongs to the team when a team is provided, otherwise to the personal
+ * account of the user.
+ */
+export const getUsageOwnerWhereInput = ({ userId, teamId }: UsageOwnerOptions) => {
+  return teamId ? { teamId } : { userId, teamId: null };
+};
+
+export type GetUsageOptions = UsageOwnerOptions & {
+  /**
+   * The start of the month to get the usage for, defaults to the current month.
+   */
+  period?: Date;
+};
+
+/**
+ * Get the usage of a team or personal account.
+ *
+ * Documents and API calls are counted for the given month, direct templates
+ * and storage are the current totals.
+ */
+export const getUsage = async ({ period, ...owner }: GetUsageOptions): Promise<TUsage> => {
+  const periodStart = getUsagePeriod(period);
+  const periodEnd = DateTime.fromJSDate(periodStart).toUTC().plus({ months: 1 }).toJSDate();
+
+  const ownerWhereInput = getUsageOwnerWhereInput(owner);
+
+  const [documents, directTemplates, apiCalls, storage] = await Promise.all([
+    prisma.document.count({
+      where: {
+        ...ownerWhereInput,
+        createdAt: {
+          gte: periodStart,
+          lt: periodEnd,
+        },
+        source: {
+          not: DocumentSource.TEMPLATE_DIRECT_LINK,
+        },
+      },
+    }),
+    prisma.template.count({
+      where: {
+        ...ownerWhereInput,
+        directLink: {
+          isNot: null,
+        },
+      },
+    }),
+    prisma.usageRecord.findFirst({
+      where: {
+        ...ownerWhereInput,
+        metric: UsageMetric.API_CALLS,
+        period: periodStart,
+      },
+    }),
+    prisma.documentData.aggregate({
+      _sum: {
+        size: true,
+      },
+      where: {
+        OR: [
+          {
+            document: {
+              ...ownerWhereInput,
+              deletedAt: null,
+            },
+          },
+          {
+            template: ownerWhereInput,
+          },
+        ],
+      },
+    }),
+  ]);
+
+  return {
+    documents,
+    directTemplates,
+    apiCalls: apiCalls?.quantity ?? 0,
+    storage: storage._sum.size ?? 0,
+  };
+};
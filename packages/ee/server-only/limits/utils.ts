@@ -0,0 +1,14 @@
+const BYTES_PER_MEGABYTE = 1024 * 1024;
+
+export const megabytesToBytes = (megabytes: number) => megabytes * BYTES_PER_MEGABYTE;
+
+/**
+ * Format a storage value in bytes as megabytes for display.
+ */
+export const formatStorage = (bytes: number) => {
+  if (bytes === Infinity) {
+    return '∞';
+  }
+
+  return `${(bytes / BYTES_PER_MEGABYTE).toFixed(1)} MB`;
+};
@@ -1,112 +1,293 @@
+import type { NextApiHandler, NextApiRequest, NextApiResponse } from 'next';
+
 import { TRPCError } from '@trpc/server';
-import { Redis } from 'ioredis';
-import { NextRequest, NextResponse } from 'next/server';
+import { createHash } from 'crypto';
 
-// Redis client for storing rate limit data
-const redis = new Redis(process.env.REDIS_URL || 'redis://localhost:6379');
+import { isRedisConfigured, redis } from '@documenso/lib/server-only/redis';
 
-interface RateLimitOptions {
+export type RateLimitOptions = {
+  /**
+   * Namespace of the limiter, keeps the counters of different limiters apart.
+   */
+  name: string;
   windowMs: number;
   max: number;
-  keyGenerator?: (req: NextRequest) => string;
-  handler?: (req: NextRequest, res: NextResponse) => void;
-  skipSuccessfulRequests?: boolean;
-  skipFailedRequests?: boolean;
-}
+};
+
+export type RateLimitResult = {
+  isLimited: boolean;
+  limit: number;
+  remaining: number;
+  /**
+   * Seconds until the current window resets.
+   */
+  reset: number;
+};
+
+export type RateLimiter = {
+  check: (key: string) => Promise<RateLimitResult>;
+};
+
+const MAXIMUM_MEMORY_WINDOWS = 10_000;
 
 /**
- * Create a rate limiter middleware for API routes
+ * Fallback store for when Redis is not configured or unavailable, only limits
+ * requests handled by the current instance.
  */
-export function createRateLimiter({
-  windowMs = 15 * 60 * 1000, // 15 minutes
-  max = 100, // limit each IP to 100 requests per windowMs
-  keyGenerator = (req) => req.ip || 'unknown',
-  handler,
-  skipSuccessfulRequests = false,
-  skipFailedRequests = false,
-}: RateLimitOptions) {
-  return async function rateLimiterMiddleware(
-    req: NextRequest,
-    res: NextResponse,
-    next: () => Promise<void>
-  ) {
-    const key = `rate-limit:${keyGenerator(req)}`;
-    
-    try {
-      // Get current count
-      const currentCount = await redis.get(key);
-      const count = currentCount ? parseInt(currentCount, 10) : 0;
-      
-      // Check if over limit
-      if (count >= max) {
-        if (handler) {
-          return handler(req, res);
-        }
-        
-        throw new TRPCError({
-          code: 'TOO_MANY_REQUESTS',
-          message: 'Too many requests, please try again later.',
-        });
-      }
-      
-      // Increment count
-      await redis.incr(key);
-      
-      // Set expiry if this is the first request in the window
-      if (count === 0) {
-        await redis.expire(key, Math.floor(windowMs / 1000));
-      }
-      
-      // Continue to the next middleware or route handler
-      await next();
-      
-      // Optionally decrement the counter if the request was successful
-      if (skipSuccessfulRequests && res.status >= 200 && res.status < 300) {
-        await redis.decr(key);
+const memoryWindows = new Map<string, { count: number; expiresAt: number }>();
+
+const incrementMemoryWindow = (windowKey: string, expiresAt: number) => {
+  const now = Date.now();
+
+  if (memoryWindows.size >= MAXIMUM_MEMORY_WINDOWS) {
+    for (const [key, window] of memoryWindows) {
+      if (window.expiresAt <= now) {
+        memoryWindows.delete(key);
       }
-    } catch (error) {
-      // Optionally decrement the counter if the request failed
-      if (skipFailedRequests && error instanceof Error) {
-        await redis.decr(key);
+    }
+  }
+
+  const window = memoryWindows.get(windowKey) ?? { count: 0, expiresAt };
+
+  window.count += 1;
+
+  memoryWindows.set(windowKey, window);
+
+  return window.count;
+};
+
+const incrementRedisWindow = async (windowKey: string, windowMs: number) => {
+  const count = await redis.incr(windowKey);
+
+  if (count === 1) {
+    await redis.pexpire(windowKey, windowMs);
+  }
+
+  return count;
+};
+
+/**
+ * Create a fixed window rate limiter backed by Redis with an in-memory fallback.
+ */
+export const createRateLimiter = ({ name, windowMs, max }: RateLimitOptions): RateLimiter => {
+  return {
+    check: async (key: string) => {
+      const now = Date.now();
+
+      const windowStart = Math.floor(now / windowMs) * windowMs;
+      const windowEnd = windowStart + windowMs;
+
+      const windowKey = `rate-limit:${name}:${key}:${windowStart}`;
+
+      let count: number;
+
+      if (isRedisConfigured()) {
+        count = await incrementRedisWindow(windowKey, windowMs).catch((err) => {
+          console.error(err);
+
+          return incrementMemoryWindow(windowKey, windowEnd);
+        });
+      } else {
+        count = incrementMemoryWindow(windowKey, windowEnd);
       }
-      
-      throw error;
+
+      return {
+        isLimited: count > max,
+        limit: max,
+        remaining: Math.max(max - count, 0),
+        reset: Math.ceil((windowEnd - now) / 1000),
+      };
+    },
+  };
+};
+
+/**
+ * Get the standard `RateLimit-*` headers, along with `Retry-After` when the request is limited.
+ */
+export const getRateLimitHeaders = (result: RateLimitResult): Record<string, string> => {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.reset),
+  };
+
+  if (result.isLimited) {
+    headers['Retry-After'] = String(result.reset);
+  }
+
+  return headers;
+};
+
+const setRateLimitHeaders = (res: NextApiResponse, result: RateLimitResult) => {
+  for (const [header, value] of Object.entries(getRateLimitHeaders(result))) {
+    res.setHeader(header, value);
+  }
+};
+
+const hashRateLimitKey = (value: string) => createHash('sha256').update(value).digest('hex');
+
+/**
+ * The number of reverse proxies in front of the app which append to the `X-Forwarded-For` header.
+ */
+const getTrustedProxyCount = () => {
+  const count = Number(process.env.NEXT_PRIVATE_TRUSTED_PROXY_COUNT);
+
+  return Number.isInteger(count) && count > 0 ? count : 0;
+};
+
+/**
+ * Key requests by the IP address of the client.
+ *
+ * Only the entries of `X-Forwarded-For` appended by our trusted proxies are used, counting from the
+ * right, since anything to the left of them can be spoofed by the client.
+ */
+export const getRateLimitIpKey = (req: NextApiRequest) => {
+  const trustedProxyCount = getTrustedProxyCount();
+
+  let ipAddress = req.socket.remoteAddress;
+
+  if (trustedProxyCount > 0) {
+    const forwardedFor = req.headers['x-forwarded-for'];
+
+    const forwardedIpAddresses = (Array.isArray(forwardedFor) ? forwardedFor : [forwardedFor ?? ''])
+      .flatMap((value) => value.split(','))
+      .map((value) => value.trim())
+      .filter((value) => value.length > 0);
+
+    ipAddress =
+      forwardedIpAddresses[Math.max(forwardedIpAddresses.length - trustedProxyCount, 0)] ??
+      ipAddress;
+  }
+
+  return `ip:${ipAddress || 'unknown'}`;
+};
+
+/**
+ * Key requests by their API token when provided, falling back to the IP address.
+ *
+ * Tokens are hashed so they are never stored in plain text.
+ */
+export const getRateLimitApiTokenKey = (req: NextApiRequest) => {
+  const { authorization } = req.headers;
+
+  // Support for both "Authorization: Bearer api_xxx" and "Authorization: api_xxx"
+  const [token] = (authorization || '').split('Bearer ').filter((s) => s.length > 0);
+
+  return token ? `token:${hashRateLimitKey(token)}` : getRateLimitIpKey(req);
+};
+
+export const getRateLimitRecipientTokenKey = (token: string) => {
+  return `recipient:${hashRateLimitKey(token)}`;
+};
+
+export type WithRateLimitOptions = {
+  limiter: RateLimiter;
+  keyGenerator: (req: NextApiRequest) => string;
+  /**
+   * Only rate limit requests using one of these methods, defaults to all methods.
+   */
+  methods?: string[];
+};
+
+/**
+ * Rate limit a Next.js API route.
+ */
+export const withRateLimit = (
+  handler: NextApiHandler,
+  { limiter, keyGenerator, methods }: WithRateLimitOptions,
+): NextApiHandler => {
+  return async (req, res) => {
+    if (methods && !methods.includes(req.method ?? '')) {
+      return await handler(req, res);
     }
+
+    const result = await limiter.check(keyGenerator(req));
+
+    setRateLimitHeaders(res, result);
+
+    if (result.isLimited) {
+      return res.status(429).json({
+        message: 'Too many requests, please try again later.',
+      });
+    }
+
+    return await handler(req, res);
   };
-}
+};
+
+export type CreateTRPCRateLimiterOptions<TContext> = {
+  limiter: RateLimiter;
+  keyGenerator: (options: { ctx: TContext; input: unknown }) => string;
+};
 
 /**
- * Create a rate limiter for TRPC procedures
+ * Create a rate limiter for TRPC procedures, throws when the request is limited.
  */
-export function createTRPCRateLimiter({
-  windowMs = 15 * 60 * 1000, // 15 minutes
-  max = 100, // limit each IP to 100 requests per windowMs
-}: {
-  windowMs?: number;
-  max?: number;
-}) {
-  return async function rateLimiterMiddleware(ctx: any) {
-    const ip = ctx.req?.ip || ctx.req?.headers?.['x-forwarded-for'] || 'unknown';
-    const key = `rate-limit:trpc:${ip}`;
-    
-    // Get current count
-    const currentCount = await redis.get(key);
-    const count = currentCount ? parseInt(currentCount, 10) : 0;
-    
-    // Check if over limit
-    if (count >= max) {
+export const createTRPCRateLimiter = <
+  TContext extends { req: NextApiRequest; res?: NextApiResponse },
+>({
+  limiter,
+  keyGenerator,
+}: CreateTRPCRateLimiterOptions<TContext>) => {
+  return async ({ ctx, getRawInput }: { ctx: TContext; getRawInput: () => Promise<unknown> }) => {
+    const input = await getRawInput().catch(() => undefined);
+
+    const result = await limiter.check(keyGenerator({ ctx, input }));
+
+    if (ctx.res) {
+      setRateLimitHeaders(ctx.res, result);
+    }
+
+    if (result.isLimited) {
       throw new TRPCError({
         code: 'TOO_MANY_REQUESTS',
         message: 'Too many requests, please try again later.',
       });
     }
-    
-    // Increment count
-    await redis.incr(key);
-    
-    // Set expiry if this is the first request in the window
-    if (count === 0) {
-      await redis.expire(key, Math.floor(windowMs / 1000));
-    }
   };
-}
+};
+
+/**
+ * Public API requests, keyed by API token.
+ */
+export const apiRateLimiter = createRateLimiter({
+  name: 'api',
+  windowMs: 60 * 1000,
+  max: 100,
+});
+
+/**
+ * Sign in, sign up and password reset requests, keyed by IP address.
+ */
+export const authRateLimiter = createRateLimiter({
+  name: 'auth',
+  windowMs: 60 * 1000,
+  max: 30,
+});
+
+/**
+ * Token based signing requests, keyed by recipient token.
+ */
+export const signingRateLimiter = createRateLimiter({
+  name: 'signing',
+  windowMs: 60 * 1000,
+  max: 120,
+});
+
+/**
+ * Anonymous public form submissions, keyed by IP address.
+ */
+export const formSubmissionRateLimiter = createRateLimiter({
+  name: 'form-submission',
+  windowMs: 60 * 60 * 1000,
+  max: 10,
+});
+
+/**
+ * OAuth token exchanges and refreshes, keyed by IP address.
+ */
+export const oauthTokenRateLimiter = createRateLimiter({
+  name: 'oauth-token',
+  windowMs: 60 * 1000,
+  max: 30,
+});
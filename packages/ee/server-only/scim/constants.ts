@@ -0,0 +1,25 @@
+import { TeamMemberRole } from '@documenso/prisma/client';
+
+export const SCIM_USER_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:User';
+export const SCIM_GROUP_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:Group';
+export const SCIM_LIST_RESPONSE_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:ListResponse';
+export const SCIM_PATCH_OP_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:PatchOp';
+export const SCIM_ERROR_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:Error';
+export const SCIM_SERVICE_PROVIDER_CONFIG_SCHEMA =
+  'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig';
+
+export const SCIM_CONTENT_TYPE = 'application/scim+json';
+
+/**
+ * The maximum number of resources returned in a single list response.
+ */
+export const SCIM_MAX_RESULTS = 100;
+
+/**
+ * SCIM groups map directly onto team member roles, the group ID is the role.
+ */
+export const SCIM_GROUP_DISPLAY_NAMES: Record<TeamMemberRole, string> = {
+  [TeamMemberRole.ADMIN]: 'Admin',
+  [TeamMemberRole.MANAGER]: 'Manager',
+  [TeamMemberRole.MEMBER]: 'Member',
+};
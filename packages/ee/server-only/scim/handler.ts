@@ -0,0 +1,141 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { match } from 'ts-pattern';
+import { ZodError } from 'zod';
+
+import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
+import { getMissingApiTokenScopes } from '@documenso/lib/server-only/public-api/assert-api-token-scopes';
+import { getApiTokenByToken } from '@documenso/lib/server-only/public-api/get-api-token-by-token';
+import { ApiTokenScope } from '@documenso/prisma/client';
+
+import { SCIM_CONTENT_TYPE, SCIM_ERROR_SCHEMA, SCIM_LIST_RESPONSE_SCHEMA } from './constants';
+
+type ScimMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export type ScimRequestContext = {
+  teamId: number;
+  req: NextApiRequest;
+  res: NextApiResponse;
+};
+
+export type ScimMethodHandler = (context: ScimRequestContext) => Promise<void> | void;
+
+export const sendScimResponse = (res: NextApiResponse, status: number, body?: unknown) => {
+  res.setHeader('Content-Type', SCIM_CONTENT_TYPE);
+
+  if (body === undefined) {
+    return res.status(status).end();
+  }
+
+  return res.status(status).send(JSON.stringify(body));
+};
+
+export const sendScimListResponse = (
+  res: NextApiResponse,
+  {
+    totalResults,
+    startIndex,
+    resources,
+  }: { totalResults: number; startIndex: number; resources: unknown[] },
+) => {
+  return sendScimResponse(res, 200, {
+    schemas: [SCIM_LIST_RESPONSE_SCHEMA],
+    totalResults,
+    startIndex,
+    itemsPerPage: resources.length,
+    Resources: resources,
+  });
+};
+
+const sendScimError = (res: NextApiResponse, status: number, detail: string, scimType?: string) => {
+  return sendScimResponse(res, status, {
+    schemas: [SCIM_ERROR_SCHEMA],
+    status: String(status),
+    detail,
+    ...(scimType && { scimType }),
+  });
+};
+
+export const getScimQueryParam = (req: NextApiRequest, name: string) => {
+  const value = req.query[name];
+
+  return typeof value === 'string' ? value : undefined;
+};
+
+/**
+ * Next only parses `application/json` bodies, SCIM clients usually send
+ * `application/scim+json` which arrives as a string.
+ */
+export const getScimRequestBody = (req: NextApiRequest): unknown => {
+  if (typeof req.body !== 'string') {
+    return req.body;
+  }
+
+  try {
+    return JSON.parse(req.body);
+  } catch {
+    throw new AppError(AppErrorCode.INVALID_BODY, {
+      message: 'Request body must be valid JSON',
+    });
+  }
+};
+
+/**
+ * Create a pages API handler for a SCIM resource.
+ *
+ * Requests are authenticated with a team API token and the team it belongs to
+ * is the tenant being provisioned.
+ */
+export const createScimHandler = (handlers: Partial<Record<ScimMethod, ScimMethodHandler>>) => {
+  return async (req: NextApiRequest, res: NextApiResponse) => {
+    const methodHandler = Object.entries(handlers).find(([method]) => method === req.method)?.[1];
+
+    if (!methodHandler) {
+      return sendScimError(res, 405, 'Method not allowed');
+    }
+
+    const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+
+    const apiToken =
+      scheme?.toLowerCase() === 'bearer' && token
+        ? await getApiTokenByToken({ token }).catch(() => null)
+        : null;
+
+    if (!apiToken?.teamId) {
+      return sendScimError(res, 401, 'A valid team API token is required');
+    }
+
+    const missingScopes = getMissingApiTokenScopes({
+      apiToken,
+      scopes: [ApiTokenScope.TEAM_READ, ApiTokenScope.TEAM_WRITE],
+    });
+
+    if (missingScopes.length > 0) {
+      return sendScimError(res, 403, 'The API token requires the team:read and team:write scopes');
+    }
+
+    try {
+      await methodHandler({ teamId: apiToken.teamId, req, res });
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return sendScimError(res, 400, err.message, 'invalidValue');
+      }
+
+      const error = AppError.parseError(err);
+
+      const [status, scimType] = match(error.code)
+        .with(AppErrorCode.NOT_FOUND, () => [404, undefined] as const)
+        .with(AppErrorCode.ALREADY_EXISTS, () => [409, 'uniqueness'] as const)
+        .with(AppErrorCode.INVALID_BODY, () => [400, 'invalidValue'] as const)
+        .with(AppErrorCode.INVALID_REQUEST, () => [400, undefined] as const)
+        .with(AppErrorCode.UNAUTHORIZED, () => [403, undefined] as const)
+        .otherwise(() => [500, undefined] as const);
+
+      if (status === 500) {
+        console.error(err);
+      }
+
+      return sendScimError(res, status, error.message || 'An unknown error occurred', scimType);
+    }
+  };
+};
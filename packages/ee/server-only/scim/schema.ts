@@ -0,0 +1,44 @@
+import { z } from 'zod';
+
+export const ZScimUserSchema = z.object({
+  userName: z.string().trim().email(),
+  externalId: z.string().optional(),
+  active: z.boolean().optional(),
+  displayName: z.string().optional(),
+  name: z
+    .object({
+      formatted: z.string().optional(),
+      givenName: z.string().optional(),
+      familyName: z.string().optional(),
+    })
+    .optional(),
+});
+
+export type TScimUserSchema = z.infer<typeof ZScimUserSchema>;
+
+export const ZScimPatchOperationSchema = z.object({
+  // Some identity providers send capitalised operations, e.g. `Replace`.
+  op: z
+    .string()
+    .transform((op) => op.toLowerCase())
+    .pipe(z.enum(['add', 'remove', 'replace'])),
+  path: z.string().optional(),
+  value: z.unknown().optional(),
+});
+
+export type TScimPatchOperationSchema = z.infer<typeof ZScimPatchOperationSchema>;
+
+export const ZScimPatchRequestSchema = z.object({
+  Operations: z.array(ZScimPatchOperationSchema),
+});
+
+export const ZScimGroupMemberSchema = z.object({
+  value: z.string(),
+});
+
+export const ZScimGroupSchema = z.object({
+  displayName: z.string().trim(),
+  members: z.array(ZScimGroupMemberSchema).optional(),
+});
+
+export type TScimGroupSchema = z.infer<typeof ZScimGroupSchema>;
@@ -0,0 +1,292 @@
+import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
+import { prisma } from '@documenso/prisma';
+import { TeamMemberRole } from '@documenso/prisma/client';
+
+import { SCIM_GROUP_DISPLAY_NAMES, SCIM_GROUP_SCHEMA } from './constants';
+import type { TScimGroupSchema, TScimPatchOperationSchema } from './schema';
+import type { ScimTeam } from './scim-team';
+import { getScimResourceLocation, getScimTeam, getScimTeamMemberWhereInput } from './scim-team';
+
+const GROUP_FILTER_REGEX = /^displayName\s+eq\s+"([^"]*)"$/i;
+const GROUP_MEMBER_PATH_REGEX = /^members\[value\s+eq\s+"([^"]*)"\]$/i;
+
+const getScimGroupRole = (id: string) => {
+  const role = Object.values(TeamMemberRole).find((value) => value === id);
+
+  if (!role) {
+    throw new AppError(AppErrorCode.NOT_FOUND, {
+      message: `Group ${id} not found`,
+    });
+  }
+
+  return role;
+};
+
+/**
+ * Resolve the role a group represents from its display name, e.g. `Admin` or `ADMIN`.
+ */
+const getScimGroupRoleByDisplayName = (displayName: string) => {
+  return Object.values(TeamMemberRole).find(
+    (role) =>
+      role === displayName.toUpperCase() ||
+      SCIM_GROUP_DISPLAY_NAMES[role].toLowerCase() === displayName.toLowerCase(),
+  );
+};
+
+const toScimGroup = async (team: ScimTeam, role: TeamMemberRole) => {
+  const members = await prisma.teamMember.findMany({
+    where: {
+      ...getScimTeamMemberWhereInput(team),
+      role,
+    },
+    include: {
+      user: true,
+    },
+    orderBy: {
+      id: 'asc',
+    },
+  });
+
+  return {
+    schemas: [SCIM_GROUP_SCHEMA],
+    id: role,
+    displayName: SCIM_GROUP_DISPLAY_NAMES[role],
+    members: members.map(({ user }) => ({
+      value: String(user.id),
+      display: user.email,
+      $ref: getScimResourceLocation('Users', String(user.id)),
+    })),
+    meta: {
+      resourceType: 'Group',
+      location: getScimResourceLocation('Groups', role),
+    },
+  };
+};
+
+/**
+ * Move the provided users into the role of a group.
+ *
+ * The team owner is always an admin so is left untouched.
+ */
+const setScimGroupMembers = async (team: ScimTeam, role: TeamMemberRole, userIds: string[]) => {
+  const members = await prisma.teamMember.findMany({
+    where: {
+      ...getScimTeamMemberWhereInput(team),
+      userId: {
+        in: userIds.map(Number).filter((userId) => !Number.isNaN(userId)),
+      },
+    },
+  });
+
+  if (members.length !== new Set(userIds).size) {
+    throw new AppError(AppErrorCode.NOT_FOUND, {
+      message: 'One or more group members could not be found',
+    });
+  }
+
+  await prisma.teamMember.updateMany({
+    where: {
+      id: {
+        in: members.map((member) => member.id),
+      },
+      userId: {
+        not: team.ownerUserId,
+      },
+    },
+    data: {
+      role,
+    },
+  });
+};
+
+/**
+ * Remove users from a group, which moves them back to the default member role.
+ */
+const removeScimGroupMembers = async (team: ScimTeam, role: TeamMemberRole, userIds?: string[]) => {
+  await prisma.teamMember.updateMany({
+    where: {
+      ...getScimTeamMemberWhereInput(team),
+      role,
+      userId: {
+        not: team.ownerUserId,
+        ...(userIds && {
+          in: userIds.map(Number).filter((userId) => !Number.isNaN(userId)),
+        }),
+      },
+    },
+    data: {
+      role: TeamMemberRole.MEMBER,
+    },
+  });
+};
+
+const getMemberValues = (value: unknown) => {
+  const members = Array.isArray(value) ? value : [];
+
+  return members.flatMap((member) =>
+    typeof member === 'object' && member !== null && 'value' in member
+      ? [String(member.value)]
+      : [],
+  );
+};
+
+export type ListScimGroupsOptions = {
+  teamId: number;
+  filter?: string;
+};
+
+export const listScimGroups = async ({ teamId, filter }: ListScimGroupsOptions) => {
+  const team = await getScimTeam(teamId);
+
+  let roles = Object.values(TeamMemberRole);
+
+  if (filter) {
+    const match = filter.trim().match(GROUP_FILTER_REGEX);
+
+    if (!match) {
+      throw new AppError(AppErrorCode.INVALID_REQUEST, {
+        message: `Unsupported filter: ${filter}`,
+      });
+    }
+
+    const role = getScimGroupRoleByDisplayName(match[1]);
+
+    roles = role ? [role] : [];
+  }
+
+  const resources = await Promise.all(roles.map(async (role) => toScimGroup(team, role)));
+
+  return {
+    totalResults: resources.length,
+    startIndex: 1,
+    resources,
+  };
+};
+
+export type GetScimGroupOptions = {
+  teamId: number;
+  id: string;
+};
+
+export const getScimGroup = async ({ teamId, id }: GetScimGroupOptions) => {
+  const role = getScimGroupRole(id);
+
+  const team = await getScimTeam(teamId);
+
+  return await toScimGroup(team, role);
+};
+
+export type CreateScimGroupOptions = {
+  teamId: number;
+  data: TScimGroupSchema;
+};
+
+/**
+ * Groups can't be created since they map onto the fixed team member roles, pushing
+ * a group with the display name of a role links it to that role instead.
+ */
+export const createScimGroup = async ({ teamId, data }: CreateScimGroupOptions) => {
+  const role = getScimGroupRoleByDisplayName(data.displayName);
+
+  if (!role) {
+    throw new AppError(AppErrorCode.INVALID_BODY, {
+      message: `Group display name must be one of ${Object.values(SCIM_GROUP_DISPLAY_NAMES).join(', ')}`,
+    });
+  }
+
+  const team = await getScimTeam(teamId);
+
+  if (data.members) {
+    await setScimGroupMembers(
+      team,
+      role,
+      data.members.map((member) => member.value),
+    );
+  }
+
+  return await toScimGroup(team, role);
+};
+
+export type ReplaceScimGroupOptions = {
+  teamId: number;
+  id: string;
+  data: TScimGroupSchema;
+};
+
+export const replaceScimGroup = async ({ teamId, id, data }: ReplaceScimGroupOptions) => {
+  const role = getScimGroupRole(id);
+
+  const team = await getScimTeam(teamId);
+
+  const userIds = (data.members ?? []).map((member) => member.value);
+
+  await removeScimGroupMembers(team, role);
+  await setScimGroupMembers(team, role, userIds);
+
+  return await toScimGroup(team, role);
+};
+
+export type PatchScimGroupOptions = {
+  teamId: number;
+  id: string;
+  operations: TScimPatchOperationSchema[];
+};
+
+export const patchScimGroup = async ({ teamId, id, operations }: PatchScimGroupOptions) => {
+  const role = getScimGroupRole(id);
+
+  const team = await getScimTeam(teamId);
+
+  for (const { op, path, value } of operations) {
+    const memberPathMatch = path?.match(GROUP_MEMBER_PATH_REGEX);
+
+    if (op === 'remove' && memberPathMatch) {
+      await removeScimGroupMembers(team, role, [memberPathMatch[1]]);
+      continue;
+    }
+
+    // Renaming a group has no effect since the name is derived from the role.
+    if (path !== undefined && path !== 'members') {
+      continue;
+    }
+
+    const userIds = getMemberValues(
+      path === undefined && typeof value === 'object' && value !== null && 'members' in value
+        ? value.members
+        : value,
+    );
+
+    // Removing the `members` attribute without a value empties the group.
+    if (op === 'remove') {
+      if (path === 'members') {
+        await removeScimGroupMembers(team, role, value === undefined ? undefined : userIds);
+      }
+
+      continue;
+    }
+
+    if (op === 'replace') {
+      await removeScimGroupMembers(team, role);
+    }
+
+    await setScimGroupMembers(team, role, userIds);
+  }
+
+  return await toScimGroup(team, role);
+};
+
+export type DeleteScimGroupOptions = {
+  teamId: number;
+  id: string;
+};
+
+/**
+ * Unlink a group, every member it contained is moved back to the default member role.
+ */
+export const deleteScimGroup = async ({ teamId, id }: DeleteScimGroupOptions) => {
+  const role = getScimGroupRole(id);
+
+  const team = await getScimTeam(teamId);
+
+  await removeScimGroupMembers(team, role);
+};
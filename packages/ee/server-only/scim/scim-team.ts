@@ -0,0 +1,53 @@
+import { NEXT_PUBLIC_WEBAPP_URL } from '@documenso/lib/constants/app';
+import { prisma } from '@documenso/prisma';
+import type { TeamMember, User } from '@documenso/prisma/client';
+import { Prisma } from '@documenso/prisma/client';
+
+export type ScimTeam = Awaited<ReturnType<typeof getScimTeam>>;
+
+export type ScimTeamMember = TeamMember & { user: User };
+
+export const getScimTeam = async (teamId: number) => {
+  const team = await prisma.team.findFirstOrThrow({
+    where: {
+      id: teamId,
+    },
+    include: {
+      subscription: true,
+      ssoDomains: {
+        where: {
+          verifiedAt: {
+            not: null,
+          },
+        },
+      },
+    },
+  });
+
+  return {
+    ...team,
+    verifiedDomains: team.ssoDomains.map((ssoDomain) => ssoDomain.domain),
+  };
+};
+
+/**
+ * SCIM can only manage members whose email belongs to a domain the team has
+ * verified, since deprovisioning disables the user's account entirely.
+ */
+export const getScimTeamMemberWhereInput = (team: ScimTeam) => {
+  return {
+    teamId: team.id,
+    user: {
+      OR: team.verifiedDomains.map((domain) => ({
+        email: {
+          endsWith: `@${domain}`,
+          mode: Prisma.QueryMode.insensitive,
+        },
+      })),
+    },
+  } satisfies Prisma.TeamMemberWhereInput;
+};
+
+export const getScimResourceLocation = (resourceType: 'Users' | 'Groups', id: string) => {
+  return `${NEXT_PUBLIC_WEBAPP_URL()}/scim/v2/${resourceType}/${id}`;
+};
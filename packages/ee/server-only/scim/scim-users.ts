@@ -0,0 +1,393 @@
+import { IS_BILLING_ENABLED } from '@documenso/lib/constants/app';
+import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
+import { deleteTeamMembers } from '@documenso/lib/server-only/team/delete-team-members';
+import { disableUser } from '@documenso/lib/server-only/user/disable-user';
+import { enableUser } from '@documenso/lib/server-only/user/enable-user';
+import { prisma } from '@documenso/prisma';
+import { Prisma, TeamMemberRole } from '@documenso/prisma/client';
+
+import { getEmailDomain } from '../sso/domain-verification';
+import { updateSubscriptionItemQuantity } from '../stripe/update-subscription-item-quantity';
+import { SCIM_GROUP_DISPLAY_NAMES, SCIM_MAX_RESULTS, SCIM_USER_SCHEMA } from './constants';
+import type { TScimPatchOperationSchema, TScimUserSchema } from './schema';
+import type { ScimTeam, ScimTeamMember } from './scim-team';
+import { getScimResourceLocation, getScimTeam, getScimTeamMemberWhereInput } from './scim-team';
+
+const USER_FILTER_REGEX = /^(userName|emails(?:\.value)?)\s+eq\s+"([^"]*)"$/i;
+
+export const toScimUser = ({ user, ...member }: ScimTeamMember) => {
+  return {
+    schemas: [SCIM_USER_SCHEMA],
+    id: String(user.id),
+    userName: user.email,
+    displayName: user.name ?? user.email,
+    name: {
+      formatted: user.name ?? '',
+    },
+    emails: [
+      {
+        value: user.email,
+        type: 'work',
+        primary: true,
+      },
+    ],
+    active: !user.disabled,
+    groups: [
+      {
+        value: member.role,
+        display: SCIM_GROUP_DISPLAY_NAMES[member.role],
+      },
+    ],
+    meta: {
+      resourceType: 'User',
+      created: member.createdAt.toISOString(),
+      lastModified: user.updatedAt.toISOString(),
+      location: getScimResourceLocation('Users', String(user.id)),
+    },
+  };
+};
+
+const getScimUserName = (data: Pick<TScimUserSchema, 'displayName' | 'name'>) => {
+  if (data.name?.formatted) {
+    return data.name.formatted;
+  }
+
+  const name = [data.name?.givenName, data.name?.familyName].filter(Boolean).join(' ');
+
+  return name || data.displayName || undefined;
+};
+
+const parseScimBoolean = (value: unknown) => {
+  // Azure AD sends booleans as strings, e.g. `"False"`.
+  if (typeof value === 'string') {
+    return value.toLowerCase() === 'true';
+  }
+
+  return Boolean(value);
+};
+
+const findScimTeamMember = async (team: ScimTeam, id: string) => {
+  const userId = Number(id);
+
+  const member = Number.isNaN(userId)
+    ? null
+    : await prisma.teamMember.findFirst({
+        where: {
+          ...getScimTeamMemberWhereInput(team),
+          userId,
+        },
+        include: {
+          user: true,
+        },
+      });
+
+  if (!member) {
+    throw new AppError(AppErrorCode.NOT_FOUND, {
+      message: `User ${id} not found`,
+    });
+  }
+
+  return member;
+};
+
+/**
+ * Apply the active state of a SCIM user to the Documenso account.
+ *
+ * Deactivated users are disabled entirely so they lose access immediately.
+ */
+const setScimUserActive = async (team: ScimTeam, member: ScimTeamMember, active: boolean) => {
+  if (active === !member.user.disabled) {
+    return;
+  }
+
+  if (member.userId === team.ownerUserId) {
+    throw new AppError(AppErrorCode.INVALID_REQUEST, {
+      message: 'The team owner cannot be deactivated',
+    });
+  }
+
+  if (active) {
+    await enableUser({ id: member.userId });
+  } else {
+    await disableUser({ id: member.userId });
+  }
+};
+
+const updateScimTeamMember = async (
+  team: ScimTeam,
+  member: ScimTeamMember,
+  data: Pick<TScimUserSchema, 'active' | 'displayName' | 'name'>,
+) => {
+  const name = getScimUserName(data);
+
+  if (name !== undefined) {
+    await prisma.user.update({
+      where: {
+        id: member.userId,
+      },
+      data: {
+        name,
+      },
+    });
+  }
+
+  if (data.active !== undefined) {
+    await setScimUserActive(team, member, data.active);
+  }
+};
+
+export type ListScimUsersOptions = {
+  teamId: number;
+  filter?: string;
+  startIndex?: number;
+  count?: number;
+};
+
+export const listScimUsers = async ({
+  teamId,
+  filter,
+  startIndex = 1,
+  count = SCIM_MAX_RESULTS,
+}: ListScimUsersOptions) => {
+  const team = await getScimTeam(teamId);
+
+  let email: string | undefined;
+
+  if (filter) {
+    const match = filter.trim().match(USER_FILTER_REGEX);
+
+    if (!match) {
+      throw new AppError(AppErrorCode.INVALID_REQUEST, {
+        message: `Unsupported filter: ${filter}`,
+      });
+    }
+
+    email = match[2];
+  }
+
+  const teamMemberWhereInput = getScimTeamMemberWhereInput(team);
+
+  const where = {
+    ...teamMemberWhereInput,
+    user: {
+      ...teamMemberWhereInput.user,
+      ...(email !== undefined && {
+        email: {
+          equals: email,
+          mode: Prisma.QueryMode.insensitive,
+        },
+      }),
+    },
+  } satisfies Prisma.TeamMemberWhereInput;
+
+  const [members, totalResults] = await Promise.all([
+    prisma.teamMember.findMany({
+      where,
+      include: {
+        user: true,
+      },
+      orderBy: {
+        id: 'asc',
+      },
+      skip: Math.max(startIndex - 1, 0),
+      take: Math.min(Math.max(count, 0), SCIM_MAX_RESULTS),
+    }),
+    prisma.teamMember.count({ where }),
+  ]);
+
+  return {
+    totalResults,
+    startIndex,
+    resources: members.map(toScimUser),
+  };
+};
+
+export type GetScimUserOptions = {
+  teamId: number;
+  id: string;
+};
+
+export const getScimUser = async ({ teamId, id }: GetScimUserOptions) => {
+  const team = await getScimTeam(teamId);
+
+  const member = await findScimTeamMember(team, id);
+
+  return toScimUser(member);
+};
+
+export type CreateScimUserOptions = {
+  teamId: number;
+  data: TScimUserSchema;
+};
+
+/**
+ * Provision a user into the team, creating their account when they don't have one yet.
+ */
+export const createScimUser = async ({ teamId, data }: CreateScimUserOptions) => {
+  const team = await getScimTeam(teamId);
+
+  const email = data.userName.toLowerCase();
+
+  if (!team.verifiedDomains.includes(getEmailDomain(email))) {
+    throw new AppError(AppErrorCode.INVALID_BODY, {
+      message: 'The userName must be an email on one of the verified domains of the team',
+    });
+  }
+
+  const member = await prisma.$transaction(async (tx) => {
+    let user = await tx.user.findFirst({
+      where: {
+        email: {
+          equals: email,
+          mode: 'insensitive',
+        },
+      },
+    });
+
+    if (!user) {
+      user = await tx.user.create({
+        data: {
+          email,
+          name: getScimUserName(data),
+          emailVerified: new Date(),
+        },
+      });
+    }
+
+    const existingMember = await tx.teamMember.findFirst({
+      where: {
+        teamId,
+        userId: user.id,
+      },
+    });
+
+    if (existingMember) {
+      throw new AppError(AppErrorCode.ALREADY_EXISTS, {
+        message: `User ${email} is already a member of the team`,
+      });
+    }
+
+    return await tx.teamMember.create({
+      data: {
+        teamId,
+        userId: user.id,
+        role: TeamMemberRole.MEMBER,
+      },
+      include: {
+        user: true,
+      },
+    });
+  });
+
+  // The seats are only updated in Stripe once the member has been committed.
+  if (IS_BILLING_ENABLED() && team.subscription) {
+    const numberOfSeats = await prisma.teamMember.count({
+      where: {
+        teamId,
+      },
+    });
+
+    await updateSubscriptionItemQuantity({
+      priceId: team.subscription.priceId,
+      subscriptionId: team.subscription.planId,
+      quantity: numberOfSeats,
+    });
+  }
+
+  // Users which were previously deprovisioned are reactivated unless told otherwise.
+  await setScimUserActive(team, member, data.active ?? true);
+
+  return await getScimUser({ teamId, id: String(member.userId) });
+};
+
+export type ReplaceScimUserOptions = {
+  teamId: number;
+  id: string;
+  data: TScimUserSchema;
+};
+
+export const replaceScimUser = async ({ teamId, id, data }: ReplaceScimUserOptions) => {
+  const team = await getScimTeam(teamId);
+
+  const member = await findScimTeamMember(team, id);
+
+  await updateScimTeamMember(team, member, data);
+
+  return await getScimUser({ teamId, id });
+};
+
+export type PatchScimUserOptions = {
+  teamId: number;
+  id: string;
+  operations: TScimPatchOperationSchema[];
+};
+
+export const patchScimUser = async ({ teamId, id, operations }: PatchScimUserOptions) => {
+  const data: Pick<TScimUserSchema, 'active' | 'displayName' | 'name'> = {};
+
+  for (const { op, path, value } of operations) {
+    if (op === 'remove') {
+      continue;
+    }
+
+    // Operations without a path carry a partial resource as their value.
+    const attributes: Record<string, unknown> =
+      path === undefined
+        ? typeof value === 'object' && value !== null
+          ? Object.fromEntries(Object.entries(value))
+          : {}
+        : { [path]: value };
+
+    for (const [attribute, attributeValue] of Object.entries(attributes)) {
+      if (attribute === 'active') {
+        data.active = parseScimBoolean(attributeValue);
+      }
+
+      if (attribute === 'displayName' && typeof attributeValue === 'string') {
+        data.displayName = attributeValue;
+      }
+
+      if (attribute === 'name.formatted' && typeof attributeValue === 'string') {
+        data.name = { ...data.name, formatted: attributeValue };
+      }
+
+      if (attribute === 'name.givenName' && typeof attributeValue === 'string') {
+        data.name = { ...data.name, givenName: attributeValue };
+      }
+
+      if (attribute === 'name.familyName' && typeof attributeValue === 'string') {
+        data.name = { ...data.name, familyName: attributeValue };
+      }
+    }
+  }
+
+  const team = await getScimTeam(teamId);
+
+  const member = await findScimTeamMember(team, id);
+
+  await updateScimTeamMember(team, member, data);
+
+  return await getScimUser({ teamId, id });
+};
+
+export type DeleteScimUserOptions = {
+  teamId: number;
+  id: string;
+};
+
+/**
+ * Deprovision a user, removing them from the team and disabling their account.
+ */
+export const deleteScimUser = async ({ teamId, id }: DeleteScimUserOptions) => {
+  const team = await getScimTeam(teamId);
+
+  const member = await findScimTeamMember(team, id);
+
+  await setScimUserActive(team, member, false);
+
+  await deleteTeamMembers({
+    userId: team.ownerUserId,
+    teamId,
+    teamMemberIds: [member.id],
+  });
+};
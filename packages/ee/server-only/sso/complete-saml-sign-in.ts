@@ -0,0 +1,173 @@
+import type { Profile } from '@node-saml/node-saml';
+
+import { IS_BILLING_ENABLED } from '@documenso/lib/constants/app';
+import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
+import { prisma } from '@documenso/prisma';
+import { IdentityProvider, TeamMemberRole } from '@documenso/prisma/client';
+
+import { updateSubscriptionItemQuantity } from '../stripe/update-subscription-item-quantity';
+import { getEmailDomain } from './domain-verification';
+import { createSamlClient } from './saml';
+
+export type CompleteSamlSignInOptions = {
+  teamId: number;
+  samlResponse: string;
+};
+
+const getProfileAttribute = (profile: Profile, attribute: string) => {
+  const value = profile[attribute];
+
+  if (Array.isArray(value)) {
+    return typeof value[0] === 'string' ? value[0] : null;
+  }
+
+  return typeof value === 'string' ? value : null;
+};
+
+/**
+ * Validate a SAML response posted to the assertion consumer service and return
+ * the user it belongs to.
+ *
+ * Users are created on their first sign in and added to the team as members.
+ */
+export const completeSamlSignIn = async ({ teamId, samlResponse }: CompleteSamlSignInOptions) => {
+  const connection = await prisma.teamSsoConnection.findFirst({
+    where: {
+      teamId,
+      enabled: true,
+    },
+    include: {
+      team: {
+        include: {
+          subscription: true,
+          ssoDomains: {
+            where: {
+              verifiedAt: {
+                not: null,
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!connection) {
+    throw new AppError(AppErrorCode.NOT_FOUND, {
+      message: 'SSO connection not found',
+    });
+  }
+
+  const { profile } = await createSamlClient(connection)
+    .validatePostResponseAsync({ SAMLResponse: samlResponse })
+    .catch((err) => {
+      throw new AppError(AppErrorCode.UNAUTHORIZED, {
+        message: err instanceof Error ? err.message : 'Invalid SAML response',
+      });
+    });
+
+  if (!profile) {
+    throw new AppError(AppErrorCode.UNAUTHORIZED, {
+      message: 'SAML response did not contain a profile',
+    });
+  }
+
+  const email = (
+    getProfileAttribute(profile, connection.emailAttribute) ??
+    profile.email ??
+    profile.nameID
+  )
+    .trim()
+    .toLowerCase();
+
+  const name =
+    getProfileAttribute(profile, connection.nameAttribute) ?? getProfileAttribute(profile, 'name');
+
+  // Only trust the identity provider for the domains the team has proven it owns,
+  // otherwise a team could sign in as any user.
+  const isVerifiedDomain = connection.team.ssoDomains.some(
+    (ssoDomain) => ssoDomain.domain === getEmailDomain(email),
+  );
+
+  if (!isVerifiedDomain) {
+    throw new AppError(AppErrorCode.UNAUTHORIZED, {
+      message: `The email domain of ${email} has not been verified by the team`,
+    });
+  }
+
+  const { user, isNewMember } = await prisma.$transaction(async (tx) => {
+    let user = await tx.user.findFirst({
+      where: {
+        email: {
+          equals: email,
+          mode: 'insensitive',
+        },
+      },
+    });
+
+    if (user?.disabled) {
+      throw new AppError(AppErrorCode.UNAUTHORIZED, {
+        message: 'User account has been disabled',
+      });
+    }
+
+    if (!user) {
+      user = await tx.user.create({
+        data: {
+          email,
+          name,
+          emailVerified: new Date(),
+          identityProvider: IdentityProvider.SAML,
+        },
+      });
+    } else if (!user.emailVerified) {
+      user = await tx.user.update({
+        where: {
+          id: user.id,
+        },
+        data: {
+          emailVerified: new Date(),
+        },
+      });
+    }
+
+    const existingMember = await tx.teamMember.findFirst({
+      where: {
+        teamId,
+        userId: user.id,
+      },
+    });
+
+    if (!existingMember) {
+      await tx.teamMember.create({
+        data: {
+          teamId,
+          userId: user.id,
+          role: TeamMemberRole.MEMBER,
+        },
+      });
+    }
+
+    return { user, isNewMember: !existingMember };
+  });
+
+  const { subscription } = connection.team;
+
+  // The seats are only updated in Stripe once the member has been committed, so a failed
+  // sign in can't leave the team billed for a member it doesn't have.
+  if (isNewMember && IS_BILLING_ENABLED() && subscription) {
+    const numberOfSeats = await prisma.teamMember.count({
+      where: {
+        teamId,
+      },
+    });
+
+    await updateSubscriptionItemQuantity({
+      priceId: subscription.priceId,
+      subscriptionId: subscription.planId,
+      quantity: numberOfSeats,
+    });
+  }
+
+  return user;
+};
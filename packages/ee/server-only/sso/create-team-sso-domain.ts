@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+
+import { TEAM_MEMBER_ROLE_PERMISSIONS_MAP } from '@documenso/lib/constants/teams';
+import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
+import { prisma } from '@documenso/prisma';
+import { Prisma } from '@documenso/prisma/client';
+
+export type CreateTeamSsoDomainOptions = {
+  userId: number;
+  teamId: number;
+  domain: string;
+};
+
+export const createTeamSsoDomain = async ({
+  userId,
+  teamId,
+  domain,
+}: CreateTeamSsoDomainOptions) => {
+  await prisma.team.findFirstOrThrow({
+    where: {
+      id: teamId,
+      members: {
+        some: {
+          userId,
+          role: {
+            in: TEAM_MEMBER_ROLE_PERMISSIONS_MAP['MANAGE_TEAM_SSO'],
+          },
+        },
+      },
+    },
+  });
+
+  try {
+    return await prisma.teamSsoDomain.create({
+      data: {
+        teamId,
+        domain: domain.trim().toLowerCase(),
+        verificationToken: crypto.randomBytes(20).toString('hex'),
+      },
+    });
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+      throw new AppError(AppErrorCode.ALREADY_EXISTS, {
+        message: 'This domain has already been added.',
+        userMessage: 'This domain has already been added.',
+      });
+    }
+
+    throw err;
+  }
+};
@@ -0,0 +1,55 @@
+import { TEAM_MEMBER_ROLE_PERMISSIONS_MAP } from '@documenso/lib/constants/teams';
+import { prisma } from '@documenso/prisma';
+
+export type DeleteTeamSsoDomainOptions = {
+  userId: number;
+  teamId: number;
+  domainId: string;
+};
+
+export const deleteTeamSsoDomain = async ({
+  userId,
+  teamId,
+  domainId,
+}: DeleteTeamSsoDomainOptions) => {
+  await prisma.$transaction(async (tx) => {
+    await tx.teamSsoDomain.delete({
+      where: {
+        id: domainId,
+        team: {
+          id: teamId,
+          members: {
+            some: {
+              userId,
+              role: {
+                in: TEAM_MEMBER_ROLE_PERMISSIONS_MAP['MANAGE_TEAM_SSO'],
+              },
+            },
+          },
+        },
+      },
+    });
+
+    const verifiedDomainCount = await tx.teamSsoDomain.count({
+      where: {
+        teamId,
+        verifiedAt: {
+          not: null,
+        },
+      },
+    });
+
+    // Forcing SSO without any verified domains has no effect, so turn it off to
+    // keep the settings honest.
+    if (verifiedDomainCount === 0) {
+      await tx.teamSsoConnection.updateMany({
+        where: {
+          teamId,
+        },
+        data: {
+          forceSso: false,
+        },
+      });
+    }
+  });
+};
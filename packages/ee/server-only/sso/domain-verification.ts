@@ -0,0 +1,27 @@
+import { resolveTxt } from 'node:dns/promises';
+
+const DOMAIN_VERIFICATION_RECORD_PREFIX = '_documenso';
+const DOMAIN_VERIFICATION_VALUE_PREFIX = 'documenso-domain-verification=';
+
+/**
+ * The TXT record a team needs to publish to prove ownership of a domain.
+ */
+export const getDomainVerificationRecord = (domain: string, verificationToken: string) => {
+  return {
+    name: `${DOMAIN_VERIFICATION_RECORD_PREFIX}.${domain}`,
+    value: `${DOMAIN_VERIFICATION_VALUE_PREFIX}${verificationToken}`,
+  };
+};
+
+export const hasDomainVerificationRecord = async (domain: string, verificationToken: string) => {
+  const { name, value } = getDomainVerificationRecord(domain, verificationToken);
+
+  const records = await resolveTxt(name).catch(() => []);
+
+  // Long TXT records are split into multiple chunks which need to be joined back together.
+  return records.some((chunks) => chunks.join('') === value);
+};
+
+export const getEmailDomain = (email: string) => {
+  return email.split('@').pop()?.trim().toLowerCase() ?? '';
+};
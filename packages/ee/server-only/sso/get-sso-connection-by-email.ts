@@ -0,0 +1,35 @@
+import { prisma } from '@documenso/prisma';
+
+import { getEmailDomain } from './domain-verification';
+
+export type GetSsoConnectionByEmailOptions = {
+  email: string;
+};
+
+/**
+ * Find the enabled SSO connection of the team which has verified the domain of
+ * the provided email, if any.
+ */
+export const getSsoConnectionByEmail = async ({ email }: GetSsoConnectionByEmailOptions) => {
+  const domain = getEmailDomain(email);
+
+  if (!domain) {
+    return null;
+  }
+
+  return await prisma.teamSsoConnection.findFirst({
+    where: {
+      enabled: true,
+      team: {
+        ssoDomains: {
+          some: {
+            domain,
+            verifiedAt: {
+              not: null,
+            },
+          },
+        },
+      },
+    },
+  });
+};
@@ -0,0 +1,39 @@
+import { TEAM_MEMBER_ROLE_PERMISSIONS_MAP } from '@documenso/lib/constants/teams';
+import { prisma } from '@documenso/prisma';
+
+import { getSamlServiceProviderUrls } from './saml';
+
+export type GetTeamSsoConnectionOptions = {
+  userId: number;
+  teamId: number;
+};
+
+export const getTeamSsoConnection = async ({ userId, teamId }: GetTeamSsoConnectionOptions) => {
+  const team = await prisma.team.findFirstOrThrow({
+    where: {
+      id: teamId,
+      members: {
+        some: {
+          userId,
+          role: {
+            in: TEAM_MEMBER_ROLE_PERMISSIONS_MAP['MANAGE_TEAM_SSO'],
+          },
+        },
+      },
+    },
+    include: {
+      ssoConnection: true,
+      ssoDomains: {
+        orderBy: {
+          createdAt: 'asc',
+        },
+      },
+    },
+  });
+
+  return {
+    connection: team.ssoConnection,
+    domains: team.ssoDomains,
+    serviceProvider: getSamlServiceProviderUrls(team.id),
+  };
+};
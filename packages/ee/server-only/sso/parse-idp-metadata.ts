@@ -0,0 +1,120 @@
+import { XMLParser } from 'fast-xml-parser';
+
+import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
+
+const HTTP_REDIRECT_BINDING = 'urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect';
+
+export type IdpMetadata = {
+  entityId: string;
+  ssoUrl: string;
+  certificate: string;
+};
+
+type XmlNode = Record<string, unknown>;
+
+const isXmlNode = (value: unknown): value is XmlNode => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const toNodeArray = (value: unknown): XmlNode[] => {
+  const values = Array.isArray(value) ? value : [value];
+
+  return values.filter(isXmlNode);
+};
+
+const getText = (value: unknown): string | null => {
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  if (isXmlNode(value) && typeof value['#text'] === 'string') {
+    return value['#text'];
+  }
+
+  return null;
+};
+
+const invalidMetadata = (message: string) => {
+  return new AppError(AppErrorCode.INVALID_BODY, {
+    message,
+    userMessage: 'The uploaded metadata is not a valid SAML identity provider metadata file.',
+  });
+};
+
+/**
+ * Extract the entity ID, single sign-on URL and signing certificate from an
+ * identity provider's SAML metadata document.
+ */
+export const parseIdpMetadata = (xml: string): IdpMetadata => {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '',
+    removeNSPrefix: true,
+  });
+
+  let document: unknown;
+
+  try {
+    document = parser.parse(xml);
+  } catch {
+    throw invalidMetadata('Failed to parse metadata XML');
+  }
+
+  if (!isXmlNode(document)) {
+    throw invalidMetadata('Failed to parse metadata XML');
+  }
+
+  // Metadata can either be a single entity or an aggregate containing several.
+  const entitiesDescriptor = isXmlNode(document.EntitiesDescriptor)
+    ? document.EntitiesDescriptor.EntityDescriptor
+    : undefined;
+
+  const entityDescriptor = toNodeArray(entitiesDescriptor ?? document.EntityDescriptor).find(
+    (entity) => isXmlNode(entity.IDPSSODescriptor),
+  );
+
+  if (!entityDescriptor || typeof entityDescriptor.entityID !== 'string') {
+    throw invalidMetadata('Metadata does not contain an identity provider entity');
+  }
+
+  const idpDescriptor = toNodeArray(entityDescriptor.IDPSSODescriptor)[0];
+
+  const singleSignOnServices = toNodeArray(idpDescriptor.SingleSignOnService);
+
+  const singleSignOnService =
+    singleSignOnServices.find((service) => service.Binding === HTTP_REDIRECT_BINDING) ??
+    singleSignOnServices[0];
+
+  if (typeof singleSignOnService?.Location !== 'string') {
+    throw invalidMetadata('Metadata does not contain a single sign-on service');
+  }
+
+  const keyDescriptor = toNodeArray(idpDescriptor.KeyDescriptor).find(
+    (descriptor) => descriptor.use === undefined || descriptor.use === 'signing',
+  );
+
+  const keyInfo = toNodeArray(keyDescriptor?.KeyInfo)[0];
+  const x509Data = toNodeArray(keyInfo?.X509Data)[0];
+  const certificate = getText(x509Data?.X509Certificate);
+
+  if (!certificate) {
+    throw invalidMetadata('Metadata does not contain a signing certificate');
+  }
+
+  return {
+    entityId: entityDescriptor.entityID,
+    ssoUrl: singleSignOnService.Location,
+    certificate: normalizeCertificate(certificate),
+  };
+};
+
+/**
+ * Strip PEM armour and whitespace so certificates can be compared and stored
+ * consistently regardless of how they were provided.
+ */
+export const normalizeCertificate = (certificate: string) => {
+  return certificate
+    .replace(/-----BEGIN CERTIFICATE-----/g, '')
+    .replace(/-----END CERTIFICATE-----/g, '')
+    .replace(/\s+/g, '');
+};
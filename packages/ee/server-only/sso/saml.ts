@@ -0,0 +1,60 @@
+import { SAML } from '@node-saml/node-saml';
+
+import { NEXT_PUBLIC_WEBAPP_URL } from '@documenso/lib/constants/app';
+import type { TeamSsoConnection } from '@documenso/prisma/client';
+
+const SAML_NAME_ID_FORMAT = 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress';
+
+export type SamlConnection = Pick<
+  TeamSsoConnection,
+  'teamId' | 'idpEntityId' | 'idpSsoUrl' | 'idpCertificate'
+>;
+
+/**
+ * The service provider URLs for a team, these are what team admins provide
+ * to their identity provider.
+ *
+ * They are keyed by team so they can be configured before the connection exists.
+ */
+export const getSamlServiceProviderUrls = (teamId: number) => {
+  const baseUrl = `${NEXT_PUBLIC_WEBAPP_URL()}/api/sso/saml/${teamId}`;
+
+  return {
+    entityId: `${baseUrl}/metadata`,
+    acsUrl: `${baseUrl}/acs`,
+    loginUrl: `${baseUrl}/login`,
+  };
+};
+
+/**
+ * The SAML metadata describing Documenso as a service provider for a team.
+ */
+export const getSamlServiceProviderMetadata = (teamId: number) => {
+  const { entityId, acsUrl } = getSamlServiceProviderUrls(teamId);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<md:EntityDescriptor xmlns:md="urn:oasis:names:tc:SAML:2.0:metadata" entityID="${entityId}">`,
+    '  <md:SPSSODescriptor AuthnRequestsSigned="false" WantAssertionsSigned="true" protocolSupportEnumeration="urn:oasis:names:tc:SAML:2.0:protocol">',
+    `    <md:NameIDFormat>${SAML_NAME_ID_FORMAT}</md:NameIDFormat>`,
+    `    <md:AssertionConsumerService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST" Location="${acsUrl}" index="1"/>`,
+    '  </md:SPSSODescriptor>',
+    '</md:EntityDescriptor>',
+  ].join('\n');
+};
+
+export const createSamlClient = (connection: SamlConnection) => {
+  const { entityId, acsUrl } = getSamlServiceProviderUrls(connection.teamId);
+
+  return new SAML({
+    issuer: entityId,
+    audience: entityId,
+    callbackUrl: acsUrl,
+    entryPoint: connection.idpSsoUrl,
+    idpIssuer: connection.idpEntityId,
+    idpCert: connection.idpCertificate,
+    identifierFormat: SAML_NAME_ID_FORMAT,
+    wantAssertionsSigned: true,
+    wantAuthnResponseSigned: false,
+  });
+};
@@ -0,0 +1,100 @@
+import { TEAM_MEMBER_ROLE_PERMISSIONS_MAP } from '@documenso/lib/constants/teams';
+import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
+import { prisma } from '@documenso/prisma';
+
+import { normalizeCertificate, parseIdpMetadata } from './parse-idp-metadata';
+
+export type UpsertTeamSsoConnectionOptions = {
+  userId: number;
+  teamId: number;
+  data: {
+    enabled: boolean;
+    forceSso: boolean;
+    emailAttribute: string;
+    nameAttribute: string;
+    /**
+     * The identity provider metadata XML, takes precedence over the manually
+     * provided identity provider details when present.
+     */
+    idpMetadataXml?: string | null;
+    idpEntityId?: string;
+    idpSsoUrl?: string;
+    idpCertificate?: string;
+  };
+};
+
+export const upsertTeamSsoConnection = async ({
+  userId,
+  teamId,
+  data,
+}: UpsertTeamSsoConnectionOptions) => {
+  await prisma.team.findFirstOrThrow({
+    where: {
+      id: teamId,
+      members: {
+        some: {
+          userId,
+          role: {
+            in: TEAM_MEMBER_ROLE_PERMISSIONS_MAP['MANAGE_TEAM_SSO'],
+          },
+        },
+      },
+    },
+  });
+
+  const idp = data.idpMetadataXml
+    ? parseIdpMetadata(data.idpMetadataXml)
+    : {
+        entityId: data.idpEntityId,
+        ssoUrl: data.idpSsoUrl,
+        certificate: data.idpCertificate ? normalizeCertificate(data.idpCertificate) : undefined,
+      };
+
+  if (!idp.entityId || !idp.ssoUrl || !idp.certificate) {
+    throw new AppError(AppErrorCode.INVALID_BODY, {
+      message: 'Missing identity provider details',
+      userMessage:
+        'Upload your identity provider metadata or provide the entity ID, SSO URL and certificate.',
+    });
+  }
+
+  if (data.forceSso) {
+    const verifiedDomainCount = await prisma.teamSsoDomain.count({
+      where: {
+        teamId,
+        verifiedAt: {
+          not: null,
+        },
+      },
+    });
+
+    if (verifiedDomainCount === 0) {
+      throw new AppError(AppErrorCode.INVALID_REQUEST, {
+        message: 'Cannot force SSO without a verified domain',
+        userMessage: 'Verify at least one domain before requiring SSO.',
+      });
+    }
+  }
+
+  const connectionData = {
+    enabled: data.enabled,
+    forceSso: data.enabled && data.forceSso,
+    emailAttribute: data.emailAttribute,
+    nameAttribute: data.nameAttribute,
+    idpEntityId: idp.entityId,
+    idpSsoUrl: idp.ssoUrl,
+    idpCertificate: idp.certificate,
+    idpMetadataXml: data.idpMetadataXml || null,
+  };
+
+  return await prisma.teamSsoConnection.upsert({
+    where: {
+      teamId,
+    },
+    create: {
+      teamId,
+      ...connectionData,
+    },
+    update: connectionData,
+  });
+};
@@ -0,0 +1,95 @@
+import { TEAM_MEMBER_ROLE_PERMISSIONS_MAP } from '@documenso/lib/constants/teams';
+import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
+import { prisma } from '@documenso/prisma';
+import { Prisma } from '@documenso/prisma/client';
+
+import { hasDomainVerificationRecord } from './domain-verification';
+
+export type VerifyTeamSsoDomainOptions = {
+  userId: number;
+  teamId: number;
+  domainId: string;
+};
+
+export const verifyTeamSsoDomain = async ({
+  userId,
+  teamId,
+  domainId,
+}: VerifyTeamSsoDomainOptions) => {
+  const ssoDomain = await prisma.teamSsoDomain.findFirstOrThrow({
+    where: {
+      id: domainId,
+      team: {
+        id: teamId,
+        members: {
+          some: {
+            userId,
+            role: {
+              in: TEAM_MEMBER_ROLE_PERMISSIONS_MAP['MANAGE_TEAM_SSO'],
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (ssoDomain.verifiedAt) {
+    return ssoDomain;
+  }
+
+  // A domain can only be claimed by a single team, otherwise it would be ambiguous
+  // which identity provider users of that domain should be sent to.
+  const claimedDomain = await prisma.teamSsoDomain.findFirst({
+    where: {
+      domain: ssoDomain.domain,
+      teamId: {
+        not: teamId,
+      },
+      verifiedAt: {
+        not: null,
+      },
+    },
+  });
+
+  if (claimedDomain) {
+    throw new AppError(AppErrorCode.ALREADY_EXISTS, {
+      message: 'Domain has already been verified by another team',
+      userMessage: 'This domain has already been verified by another team.',
+    });
+  }
+
+  const isVerified = await hasDomainVerificationRecord(
+    ssoDomain.domain,
+    ssoDomain.verificationToken,
+  );
+
+  if (!isVerified) {
+    throw new AppError(AppErrorCode.INVALID_REQUEST, {
+      message: 'Domain verification record not found',
+      userMessage:
+        'We could not find the verification record for this domain. DNS changes can take some time to propagate, please try again later.',
+    });
+  }
+
+  // The check above is only a fast path, the partial unique index on verified domains
+  // guarantees two teams cannot verify the same domain concurrently.
+  try {
+    return await prisma.teamSsoDomain.update({
+      where: {
+        id: ssoDomain.id,
+      },
+      data: {
+        verifiedAt: new Date(),
+      },
+    });
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+      throw new AppError(AppErrorCode.ALREADY_EXISTS, {
+        message: 'Domain has already been verified by another team',
+        userMessage: 'This domain has already been verified by another team.',
+      });
+    }
+
+    throw err;
+  }
+};
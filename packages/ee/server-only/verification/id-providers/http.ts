@@ -0,0 +1,60 @@
+import { z } from 'zod';
+
+import type { VerifyIdDocumentOptions, VerifyIdDocumentResult } from './types';
+
+const ZHttpVerifyIdDocumentResponseSchema = z.object({
+  status: z.enum(['verified', 'rejected', 'review']),
+  reason: z.string().optional(),
+  reference: z.string().optional(),
+});
+
+/**
+ * Verifies an identity document by posting it to a generic HTTP endpoint, useful for
+ * verification vendors we don't support natively or for proxying through an internal
+ * service.
+ *
+ * The endpoint receives a JSON body of `{ documentType, frontImage, backImage, recipient }`
+ * where images are `{ mimeType, data }` with base64 data, and must respond with
+ * `{ status: 'verified' | 'rejected' | 'review', reason?, reference? }`.
+ */
+export const verifyIdDocumentWithHttp = async ({
+  documentType,
+  frontImage,
+  backImage,
+  recipient,
+}: VerifyIdDocumentOptions): Promise<VerifyIdDocumentResult> => {
+  const url = process.env.NEXT_PRIVATE_ID_VERIFICATION_HTTP_URL;
+  const apiKey = process.env.NEXT_PRIVATE_ID_VERIFICATION_HTTP_API_KEY;
+
+  if (!url) {
+    throw new Error('HTTP ID verification provider requires NEXT_PRIVATE_ID_VERIFICATION_HTTP_URL');
+  }
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      documentType,
+      frontImage: {
+        mimeType: frontImage.mimeType,
+        data: frontImage.data.toString('base64'),
+      },
+      backImage: backImage
+        ? {
+            mimeType: backImage.mimeType,
+            data: backImage.data.toString('base64'),
+          }
+        : undefined,
+      recipient,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to verify ID document with HTTP provider: ${response.status}`);
+  }
+
+  return ZHttpVerifyIdDocumentResponseSchema.parse(await response.json());
+};
@@ -0,0 +1,16 @@
+import { match } from 'ts-pattern';
+
+import { verifyIdDocumentWithHttp } from './http';
+import { verifyIdDocumentWithLocal } from './local';
+import type { VerifyIdDocumentOptions } from './types';
+
+export const verifyIdDocument = async (options: VerifyIdDocumentOptions) => {
+  const provider = process.env.NEXT_PRIVATE_ID_VERIFICATION_PROVIDER || 'local';
+
+  return await match(provider)
+    .with('http', async () => verifyIdDocumentWithHttp(options))
+    .with('local', async () => verifyIdDocumentWithLocal(options))
+    .otherwise(() => {
+      throw new Error(`Unsupported ID verification provider: ${provider}`);
+    });
+};
@@ -0,0 +1,29 @@
+import type { VerifyIdDocumentOptions, VerifyIdDocumentResult } from './types';
+
+/**
+ * A deterministic provider for development and tests that decides the outcome from
+ * the recipient's email address instead of the document.
+ *
+ * - `+id-verified` in the email verifies the document.
+ * - `+id-rejected` in the email rejects the document.
+ * - Anything else is sent to the sender for manual review.
+ */
+export const verifyIdDocumentWithLocal = async ({
+  recipient,
+}: VerifyIdDocumentOptions): Promise<VerifyIdDocumentResult> => {
+  const email = recipient.email.toLowerCase();
+
+  if (email.includes('+id-verified')) {
+    return Promise.resolve({ status: 'verified', reference: 'local' });
+  }
+
+  if (email.includes('+id-rejected')) {
+    return Promise.resolve({
+      status: 'rejected',
+      reason: 'The document could not be verified',
+      reference: 'local',
+    });
+  }
+
+  return Promise.resolve({ status: 'review', reference: 'local' });
+};
@@ -0,0 +1,32 @@
+import type { TIdVerificationDocumentType } from '@documenso/lib/types/id-verification';
+
+export type IdDocumentImage = {
+  mimeType: string;
+  data: Buffer;
+};
+
+export type VerifyIdDocumentOptions = {
+  documentType: TIdVerificationDocumentType;
+  frontImage: IdDocumentImage;
+  backImage?: IdDocumentImage;
+
+  /**
+   * The details the sender provided for the recipient, to match against the document.
+   */
+  recipient: {
+    name: string;
+    email: string;
+  };
+};
+
+/**
+ * The outcome of an identity document check.
+ *
+ * `review` means the provider could not decide and the sender must review the
+ * document manually.
+ */
+export type VerifyIdDocumentResult = {
+  status: 'verified' | 'rejected' | 'review';
+  reason?: string;
+  reference?: string;
+};
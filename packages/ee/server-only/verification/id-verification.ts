@@ -1,106 +1,266 @@
+import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
+import { DOCUMENT_AUDIT_LOG_TYPE } from '@documenso/lib/types/document-audit-logs';
+import type { TIdVerificationDocumentType } from '@documenso/lib/types/id-verification';
+import {
+  IdVerificationStatus,
+  ZIdVerificationStatusSchema,
+} from '@documenso/lib/types/id-verification';
+import type { RequestMetadata } from '@documenso/lib/universal/extract-request-metadata';
+import { putFile } from '@documenso/lib/universal/upload/put-file';
+import { createDocumentAuditLogData } from '@documenso/lib/utils/document-audit-logs';
+import { getIdImageMimeType } from '@documenso/lib/utils/id-verification';
 import { prisma } from '@documenso/prisma';
-import { TRPCError } from '@trpc/server';
+import type { Recipient } from '@documenso/prisma/client';
+
+import { verifyIdDocument } from './id-providers';
+import type { IdDocumentImage } from './id-providers/types';
 
 interface VerifyIDOptions {
   recipientId: number;
-  idType: 'passport' | 'driver_license' | 'national_id';
-  idImageFront: string; // Base64 encoded image
-  idImageBack?: string; // Base64 encoded image, optional for some ID types
+  idType: TIdVerificationDocumentType;
+  idImageFront: string; // Base64 encoded image or data URL
+  idImageBack?: string; // Base64 encoded image or data URL, optional for some ID types
+  requestMetadata?: RequestMetadata;
 }
 
+interface ReviewVerificationOptions {
+  recipientId: number;
+  status: 'verified' | 'rejected';
+  reason?: string;
+  user: {
+    id: number;
+    name: string | null;
+    email: string;
+  };
+  requestMetadata?: RequestMetadata;
+}
+
+const MAXIMUM_ID_IMAGE_SIZE = 5 * 1024 * 1024; // 5MB
+
+const decodeIdImage = (image: string): IdDocumentImage => {
+  const data = Buffer.from(image.replace(/^data:[^;]+;base64,/, ''), 'base64');
+
+  if (data.length === 0 || data.length > MAXIMUM_ID_IMAGE_SIZE) {
+    throw new AppError(AppErrorCode.INVALID_BODY, {
+      message: 'ID images must be smaller than 5MB',
+      userMessage: 'Images must be smaller than 5MB.',
+    });
+  }
+
+  const mimeType = getIdImageMimeType(new Uint8Array(data));
+
+  if (!mimeType) {
+    throw new AppError(AppErrorCode.INVALID_BODY, {
+      message: 'ID images must be a JPEG, PNG or WebP image',
+      userMessage: 'Images must be a JPEG, PNG or WebP file.',
+    });
+  }
+
+  return { mimeType, data };
+};
+
+const storeIdImage = async (
+  recipientId: number,
+  side: 'front' | 'back',
+  image: IdDocumentImage,
+) => {
+  return await putFile({
+    name: `id-verification-${recipientId}-${side}.${image.mimeType.split('/')[1]}`,
+    type: image.mimeType,
+    arrayBuffer: async () => Promise.resolve(new Uint8Array(image.data).buffer),
+  });
+};
+
+const createIdVerificationAuditLogData = (
+  recipient: Recipient & { documentId: number },
+  options: {
+    documentType: string;
+    status: string;
+    reason?: string;
+    user: { name: string | null; email: string };
+    requestMetadata?: RequestMetadata;
+  },
+) => {
+  return createDocumentAuditLogData({
+    type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_RECIPIENT_ID_VERIFICATION_UPDATED,
+    documentId: recipient.documentId,
+    user: options.user,
+    requestMetadata: options.requestMetadata,
+    data: {
+      recipientEmail: recipient.email,
+      recipientId: recipient.id,
+      recipientName: recipient.name,
+      recipientRole: recipient.role,
+      documentType: options.documentType,
+      status: options.status,
+      reason: options.reason,
+    },
+  });
+};
+
 /**
  * Service for verifying government IDs.
- * In production, this would integrate with services like Jumio, Onfido, or IDology.
+ *
+ * Documents are checked by the provider configured by `NEXT_PRIVATE_ID_VERIFICATION_PROVIDER`.
+ * When the provider can't decide, the verification stays `pending` until the sender
+ * reviews it manually.
  */
 export class IDVerificationService {
   /**
    * Verify a government ID for a recipient.
    */
-  async verifyID({ recipientId, idType, idImageFront, idImageBack }: VerifyIDOptions) {
-    // Check if recipient exists
+  async verifyID({
+    recipientId,
+    idType,
+    idImageFront,
+    idImageBack,
+    requestMetadata,
+  }: VerifyIDOptions) {
     const recipient = await prisma.recipient.findUnique({
       where: { id: recipientId },
       include: { verification: true },
     });
 
-    if (!recipient) {
-      throw new TRPCError({
-        code: 'NOT_FOUND',
+    if (!recipient?.documentId) {
+      throw new AppError(AppErrorCode.NOT_FOUND, {
         message: 'Recipient not found',
       });
     }
 
-    // Store verification details and set status to pending
-    await prisma.signerVerification.upsert({
-      where: { recipientId },
-      create: {
-        recipientId,
-        idVerificationEnabled: true,
-        idVerificationType: idType,
-        idVerificationStatus: 'pending',
-      },
-      update: {
-        idVerificationEnabled: true,
-        idVerificationType: idType,
-        idVerificationStatus: 'pending',
-      },
-    });
+    const { documentId } = recipient;
 
-    // In a real implementation, this would send the ID images to a verification service
-    // For demo purposes, we'll simulate a successful verification after a delay
-    
-    // For production, uncomment and configure:
-    /*
-    const verificationService = new VerificationServiceClient({
-      apiKey: process.env.ID_VERIFICATION_API_KEY,
-    });
-    
-    const result = await verificationService.verify({
-      idType,
-      frontImage: idImageFront,
-      backImage: idImageBack,
-      userData: {
+    if (recipient.verification?.idVerificationStatus === IdVerificationStatus.verified) {
+      throw new AppError(AppErrorCode.INVALID_REQUEST, {
+        message: 'Recipient has already been verified',
+      });
+    }
+
+    const frontImage = decodeIdImage(idImageFront);
+    const backImage = idImageBack ? decodeIdImage(idImageBack) : undefined;
+
+    const result = await verifyIdDocument({
+      documentType: idType,
+      frontImage,
+      backImage,
+      recipient: {
         name: recipient.name,
         email: recipient.email,
       },
     });
-    
-    const verificationStatus = result.verified ? 'verified' : 'rejected';
-    */
-    
-    // Simulate verification process (in real implementation, this would be handled by a webhook)
-    setTimeout(async () => {
-      await prisma.signerVerification.update({
+
+    const storedFrontImage = await storeIdImage(recipientId, 'front', frontImage);
+    const storedBackImage = backImage
+      ? await storeIdImage(recipientId, 'back', backImage)
+      : undefined;
+
+    const status = result.status === 'review' ? IdVerificationStatus.pending : result.status;
+
+    const isReviewed = status !== IdVerificationStatus.pending;
+
+    const verificationData = {
+      idVerificationEnabled: true,
+      idVerificationType: idType,
+      idVerificationStatus: status,
+      idVerificationImageType: storedFrontImage.type,
+      idVerificationFrontImage: storedFrontImage.data,
+      idVerificationBackImage: storedBackImage?.data ?? null,
+      idVerificationProviderReference: result.reference ?? null,
+      idVerificationRejectionReason:
+        status === IdVerificationStatus.rejected ? (result.reason ?? null) : null,
+      idVerificationSubmittedAt: new Date(),
+      idVerificationReviewedAt: isReviewed ? new Date() : null,
+    };
+
+    await prisma.$transaction(async (tx) => {
+      await tx.signerVerification.upsert({
         where: { recipientId },
-        data: {
-          idVerificationStatus: 'verified',
+        create: {
+          recipientId,
+          ...verificationData,
         },
+        update: verificationData,
       });
-      
-      // Log the verification for audit purposes
-      await prisma.userSecurityAuditLog.create({
-        data: {
-          userId: recipient.documentId ? 
-            (await prisma.document.findUnique({ where: { id: recipient.documentId } }))?.userId || 0 :
-            0,
-          type: 'ID_VERIFICATION',
-          data: {
-            recipientId,
-            idType,
-            verificationStatus: 'verified',
-            timestamp: new Date().toISOString(),
+
+      await tx.documentAuditLog.create({
+        data: createIdVerificationAuditLogData(
+          { ...recipient, documentId },
+          {
+            documentType: idType,
+            status,
+            reason: verificationData.idVerificationRejectionReason ?? undefined,
+            user: {
+              name: recipient.name,
+              email: recipient.email,
+            },
+            requestMetadata,
           },
-        },
+        ),
       });
-    }, 5000); // Simulate 5-second verification process
+    });
 
-    return { 
-      success: true, 
-      status: 'pending',
-      message: 'ID verification submitted and is being processed' 
+    return {
+      success: true,
+      status,
+      reason: verificationData.idVerificationRejectionReason,
     };
   }
 
+  /**
+   * Manually approve or reject a pending verification on behalf of the sender.
+   */
+  async reviewVerification({
+    recipientId,
+    status,
+    reason,
+    user,
+    requestMetadata,
+  }: ReviewVerificationOptions) {
+    const recipient = await prisma.recipient.findUnique({
+      where: { id: recipientId },
+      include: { verification: true },
+    });
+
+    if (!recipient?.documentId) {
+      throw new AppError(AppErrorCode.NOT_FOUND, {
+        message: 'Recipient not found',
+      });
+    }
+
+    const { documentId, verification } = recipient;
+
+    if (verification?.idVerificationStatus !== IdVerificationStatus.pending) {
+      throw new AppError(AppErrorCode.INVALID_REQUEST, {
+        message: 'There is no pending verification to review for this recipient',
+      });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.signerVerification.update({
+        where: { recipientId },
+        data: {
+          idVerificationStatus: status,
+          idVerificationRejectionReason: status === IdVerificationStatus.rejected ? reason : null,
+          idVerificationReviewedAt: new Date(),
+        },
+      });
+
+      await tx.documentAuditLog.create({
+        data: createIdVerificationAuditLogData(
+          { ...recipient, documentId },
+          {
+            documentType: verification.idVerificationType ?? '',
+            status,
+            reason: status === IdVerificationStatus.rejected ? reason : undefined,
+            user,
+            requestMetadata,
+          },
+        ),
+      });
+    });
+
+    return { success: true, status };
+  }
+
   /**
    * Check the status of an ID verification.
    */
@@ -110,16 +270,18 @@ export class IDVerificationService {
     });
 
     if (!verification) {
-      throw new TRPCError({
-        code: 'NOT_FOUND',
+      throw new AppError(AppErrorCode.NOT_FOUND, {
         message: 'No verification found for this recipient',
       });
     }
 
+    const status = ZIdVerificationStatusSchema.safeParse(verification.idVerificationStatus);
+
     return {
       success: true,
-      status: verification.idVerificationStatus,
+      status: status.success ? status.data : null,
       type: verification.idVerificationType,
+      reason: verification.idVerificationRejectionReason,
     };
   }
 }
@@ -0,0 +1,32 @@
+export type SendSmsWithHttpOptions = {
+  to: string;
+  body: string;
+};
+
+/**
+ * Sends an SMS by posting it to a generic HTTP endpoint, useful for gateways we don't
+ * support natively or for proxying through an internal service.
+ *
+ * The endpoint receives a JSON body of `{ to, body }`.
+ */
+export const sendSmsWithHttp = async ({ to, body }: SendSmsWithHttpOptions) => {
+  const url = process.env.NEXT_PRIVATE_SMS_HTTP_URL;
+  const apiKey = process.env.NEXT_PRIVATE_SMS_HTTP_API_KEY;
+
+  if (!url) {
+    throw new Error('HTTP SMS provider requires NEXT_PRIVATE_SMS_HTTP_URL');
+  }
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify({ to, body }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to send SMS with HTTP provider: ${response.status}`);
+  }
+};
@@ -0,0 +1,27 @@
+import { match } from 'ts-pattern';
+
+import { sendSmsWithHttp } from './http';
+import { sendSmsWithLocal } from './local';
+import { sendSmsWithTwilio } from './twilio';
+import { sendSmsWithVonage } from './vonage';
+
+export type SendSmsOptions = {
+  /**
+   * The phone number to send the message to in E.164 format.
+   */
+  to: string;
+  body: string;
+};
+
+export const sendSms = async ({ to, body }: SendSmsOptions) => {
+  const provider = process.env.NEXT_PRIVATE_SMS_PROVIDER || 'local';
+
+  return await match(provider)
+    .with('twilio', async () => sendSmsWithTwilio({ to, body }))
+    .with('vonage', async () => sendSmsWithVonage({ to, body }))
+    .with('http', async () => sendSmsWithHttp({ to, body }))
+    .with('local', async () => sendSmsWithLocal({ to, body }))
+    .otherwise(() => {
+      throw new Error(`Unsupported SMS provider: ${provider}`);
+    });
+};
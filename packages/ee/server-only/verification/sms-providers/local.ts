@@ -0,0 +1,27 @@
+import fs from 'node:fs/promises';
+
+export type SendSmsWithLocalOptions = {
+  to: string;
+  body: string;
+};
+
+/**
+ * Writes the SMS to a file, or the console when no file is configured, instead of sending it.
+ *
+ * Intended for development and tests where the messages need to be read back.
+ */
+export const sendSmsWithLocal = async ({ to, body }: SendSmsWithLocalOptions) => {
+  const filePath = process.env.NEXT_PRIVATE_SMS_LOCAL_FILE_PATH;
+
+  if (!filePath) {
+    console.log(`[SMS] To: ${to} - ${body}`);
+    return;
+  }
+
+  // One JSON message per line so the file can be appended to and tailed.
+  await fs.appendFile(
+    filePath,
+    JSON.stringify({ to, body, sentAt: new Date().toISOString() }) + '\n',
+    'utf-8',
+  );
+};
@@ -0,0 +1,41 @@
+export type SendSmsWithTwilioOptions = {
+  to: string;
+  body: string;
+};
+
+/**
+ * Sends an SMS using the Twilio Messages API.
+ *
+ * @see https://www.twilio.com/docs/messaging/api/message-resource#create-a-message-resource
+ */
+export const sendSmsWithTwilio = async ({ to, body }: SendSmsWithTwilioOptions) => {
+  const accountSid = process.env.NEXT_PRIVATE_SMS_TWILIO_ACCOUNT_SID;
+  const authToken = process.env.NEXT_PRIVATE_SMS_TWILIO_AUTH_TOKEN;
+  const from = process.env.NEXT_PRIVATE_SMS_TWILIO_FROM_NUMBER;
+
+  if (!accountSid || !authToken || !from) {
+    throw new Error(
+      'Twilio SMS provider requires NEXT_PRIVATE_SMS_TWILIO_ACCOUNT_SID, NEXT_PRIVATE_SMS_TWILIO_AUTH_TOKEN and NEXT_PRIVATE_SMS_TWILIO_FROM_NUMBER',
+    );
+  }
+
+  const response = await fetch(
+    `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
+    {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        To: to,
+        From: from,
+        Body: body,
+      }),
+    },
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to send SMS with Twilio: ${response.status} ${await response.text()}`);
+  }
+};
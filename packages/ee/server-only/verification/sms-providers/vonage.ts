@@ -0,0 +1,60 @@
+import { z } from 'zod';
+
+export type SendSmsWithVonageOptions = {
+  to: string;
+  body: string;
+};
+
+const ZVonageResponseSchema = z.object({
+  messages: z.array(
+    z.object({
+      status: z.string(),
+      'error-text': z.string().optional(),
+    }),
+  ),
+});
+
+/**
+ * Sends an SMS using the Vonage SMS API.
+ *
+ * @see https://developer.vonage.com/en/api/sms
+ */
+export const sendSmsWithVonage = async ({ to, body }: SendSmsWithVonageOptions) => {
+  const apiKey = process.env.NEXT_PRIVATE_SMS_VONAGE_API_KEY;
+  const apiSecret = process.env.NEXT_PRIVATE_SMS_VONAGE_API_SECRET;
+  const from = process.env.NEXT_PRIVATE_SMS_VONAGE_FROM;
+
+  if (!apiKey || !apiSecret || !from) {
+    throw new Error(
+      'Vonage SMS provider requires NEXT_PRIVATE_SMS_VONAGE_API_KEY, NEXT_PRIVATE_SMS_VONAGE_API_SECRET and NEXT_PRIVATE_SMS_VONAGE_FROM',
+    );
+  }
+
+  const response = await fetch('https://rest.nexmo.com/sms/json', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      api_key: apiKey,
+      api_secret: apiSecret,
+      from,
+      // Vonage expects the number without the leading plus.
+      to: to.replace(/^\+/, ''),
+      text: body,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to send SMS with Vonage: ${response.status} ${await response.text()}`);
+  }
+
+  // Vonage responds with a 200 even when the message was rejected.
+  const { messages } = ZVonageResponseSchema.parse(await response.json());
+
+  const failedMessage = messages.find((message) => message.status !== '0');
+
+  if (failedMessage) {
+    throw new Error(`Failed to send SMS with Vonage: ${failedMessage['error-text']}`);
+  }
+};
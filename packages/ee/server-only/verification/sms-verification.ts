@@ -1,9 +1,18 @@
+import crypto from 'node:crypto';
+
+import {
+  MAXIMUM_VERIFICATION_CODE_ATTEMPTS,
+  VERIFICATION_CODE_EXPIRY_MINUTES,
+  VERIFICATION_CODE_SESSION_DURATION,
+} from '@documenso/lib/constants/document-auth';
+import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
+import { hashString } from '@documenso/lib/server-only/auth/hash';
 import { prisma } from '@documenso/prisma';
-import { TRPCError } from '@trpc/server';
+
+import { sendSms } from './sms-providers';
 
 interface SendSMSVerificationOptions {
   recipientId: number;
-  phoneNumber: string;
 }
 
 interface VerifySMSCodeOptions {
@@ -13,105 +22,152 @@ interface VerifySMSCodeOptions {
 
 /**
  * Service for SMS verification of signers.
- * This would typically integrate with a service like Twilio.
+ *
+ * Codes are sent to the phone number stored on the recipient's `SignerVerification` using
+ * the provider configured by `NEXT_PRIVATE_SMS_PROVIDER`.
  */
 export class SMSVerificationService {
-  private readonly VERIFICATION_CODE_EXPIRY = 10 * 60 * 1000; // 10 minutes
+  private readonly VERIFICATION_CODE_RESEND_INTERVAL = 30 * 1000; // 30 seconds
 
   /**
    * Send a verification code to the recipient's phone number.
    */
-  async sendVerificationCode({ recipientId, phoneNumber }: SendSMSVerificationOptions) {
-    // Check if recipient exists
-    const recipient = await prisma.recipient.findUnique({
-      where: { id: recipientId },
-      include: { verification: true },
+  async sendVerificationCode({ recipientId }: SendSMSVerificationOptions) {
+    const verification = await prisma.signerVerification.findUnique({
+      where: { recipientId },
     });
 
-    if (!recipient) {
-      throw new TRPCError({
-        code: 'NOT_FOUND',
-        message: 'Recipient not found',
+    if (!verification?.smsVerificationEnabled || !verification.smsVerificationPhone) {
+      throw new AppError(AppErrorCode.NOT_SETUP, {
+        message: 'SMS verification is not configured for this recipient',
       });
     }
 
-    // Generate a random 6-digit code
-    const verificationCode = Math.floor(100000 + Math.random() * 900000).toString();
-    const expiresAt = new Date(Date.now() + this.VERIFICATION_CODE_EXPIRY);
+    if (
+      verification.smsVerificationCodeSentAt &&
+      verification.smsVerificationCodeSentAt.getTime() + this.VERIFICATION_CODE_RESEND_INTERVAL >
+        Date.now()
+    ) {
+      throw new AppError(AppErrorCode.TOO_MANY_REQUESTS, {
+        message: 'A verification code was sent recently',
+        userMessage: 'Please wait a moment before requesting another code.',
+      });
+    }
 
-    // Store verification details
-    await prisma.signerVerification.upsert({
+    // Incorrect attempts carry over to resent codes until the previous code expires, otherwise
+    // requesting a new code would allow unlimited guesses.
+    const isCodeWindowOpen =
+      verification.smsVerificationCodeExpiresAt !== null &&
+      verification.smsVerificationCodeExpiresAt > new Date();
+
+    if (
+      isCodeWindowOpen &&
+      verification.smsVerificationAttempts >= MAXIMUM_VERIFICATION_CODE_ATTEMPTS
+    ) {
+      throw new AppError(AppErrorCode.TOO_MANY_REQUESTS, {
+        message: 'Too many verification attempts',
+        userMessage: 'Too many incorrect codes were entered, please try again later.',
+      });
+    }
+
+    const verificationCode = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+
+    await prisma.signerVerification.update({
       where: { recipientId },
-      create: {
-        recipientId,
-        smsVerificationEnabled: true,
-        smsVerificationPhone: phoneNumber,
-      },
-      update: {
-        smsVerificationEnabled: true,
-        smsVerificationPhone: phoneNumber,
+      data: {
+        smsVerificationCode: hashString(verificationCode),
+        smsVerificationCodeSentAt: new Date(),
+        smsVerificationCodeExpiresAt: new Date(
+          Date.now() + VERIFICATION_CODE_EXPIRY_MINUTES * 60 * 1000,
+        ),
+        smsVerificationAttempts: isCodeWindowOpen ? undefined : 0,
       },
     });
 
-    // Store the verification code (in a real implementation, this would be hashed)
-    await prisma.$executeRaw`
-      INSERT INTO "VerificationCode" ("recipientId", "code", "expiresAt")
-      VALUES (${recipientId}, ${verificationCode}, ${expiresAt})
-      ON CONFLICT ("recipientId") DO UPDATE
-      SET "code" = ${verificationCode}, "expiresAt" = ${expiresAt}
-    `;
-
-    // In a real implementation, this would send an SMS via Twilio or similar
-    console.log(`Sending verification code ${verificationCode} to ${phoneNumber}`);
-
-    // For production, uncomment and configure:
-    /*
-    const twilio = new Twilio(process.env.TWILIO_ACCOUNT_SID, process.env.TWILIO_AUTH_TOKEN);
-    await twilio.messages.create({
-      body: `Your Documenso verification code is: ${verificationCode}`,
-      to: phoneNumber,
-      from: process.env.TWILIO_PHONE_NUMBER,
+    await sendSms({
+      to: verification.smsVerificationPhone,
+      body: `Your Documenso verification code is: ${verificationCode}. It expires in ${VERIFICATION_CODE_EXPIRY_MINUTES} minutes.`,
     });
-    */
 
-    return { success: true };
+    return {
+      success: true,
+      // Only the last digits are returned so the signer knows which phone to check.
+      phoneNumberHint: verification.smsVerificationPhone.slice(-4),
+    };
   }
 
   /**
    * Verify a code sent to the recipient.
+   *
+   * A verified code is kept alive for a sliding session so a signer isn't texted a new code
+   * for every field they sign.
    */
   async verifyCode({ recipientId, code }: VerifySMSCodeOptions) {
-    // Get the stored verification code
-    const [storedCode] = await prisma.$queryRaw<
-      { code: string; expiresAt: Date }[]
-    >`SELECT "code", "expiresAt" FROM "VerificationCode" WHERE "recipientId" = ${recipientId}`;
-
-    if (!storedCode) {
-      throw new TRPCError({
-        code: 'NOT_FOUND',
+    const verification = await prisma.signerVerification.findUnique({
+      where: { recipientId },
+    });
+
+    if (!verification?.smsVerificationCode || !verification.smsVerificationCodeExpiresAt) {
+      throw new AppError(AppErrorCode.NOT_FOUND, {
         message: 'No verification code found',
       });
     }
 
-    // Check if the code has expired
-    if (storedCode.expiresAt < new Date()) {
-      throw new TRPCError({
-        code: 'BAD_REQUEST',
+    if (verification.smsVerificationCodeExpiresAt < new Date()) {
+      throw new AppError(AppErrorCode.EXPIRED_CODE, {
         message: 'Verification code has expired',
       });
     }
 
-    // Check if the code matches
-    if (storedCode.code !== code) {
-      throw new TRPCError({
-        code: 'BAD_REQUEST',
+    // The attempt is counted before the code is compared so parallel guesses can't exceed the
+    // maximum number of attempts. Counting it locks the verification until the transaction
+    // ends, so a correct code gives its attempt back before the next one is counted.
+    const isValid = await prisma.$transaction(async (tx) => {
+      const countedVerification = await tx.signerVerification
+        .update({
+          where: {
+            recipientId,
+            smsVerificationAttempts: {
+              lt: MAXIMUM_VERIFICATION_CODE_ATTEMPTS,
+            },
+          },
+          data: {
+            smsVerificationAttempts: {
+              increment: 1,
+            },
+          },
+        })
+        .catch(() => null);
+
+      if (!countedVerification) {
+        throw new AppError(AppErrorCode.TOO_MANY_REQUESTS, {
+          message: 'Too many verification attempts',
+        });
+      }
+
+      if (countedVerification.smsVerificationCode !== hashString(code)) {
+        return false;
+      }
+
+      await tx.signerVerification.update({
+        where: { recipientId },
+        data: {
+          smsVerificationAttempts: {
+            decrement: 1,
+          },
+          smsVerificationCodeExpiresAt: new Date(Date.now() + VERIFICATION_CODE_SESSION_DURATION),
+        },
+      });
+
+      return true;
+    });
+
+    if (!isValid) {
+      throw new AppError(AppErrorCode.UNAUTHORIZED, {
         message: 'Invalid verification code',
       });
     }
 
-    // Mark the verification as complete
-    await prisma.$executeRaw`DELETE FROM "VerificationCode" WHERE "recipientId" = ${recipientId}`;
-
     return { success: true, verified: true };
   }
 }
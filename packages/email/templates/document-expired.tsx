@@ -0,0 +1,120 @@
+import { Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+
+import {
+  Body,
+  Button,
+  Container,
+  Head,
+  Hr,
+  Html,
+  Img,
+  Preview,
+  Section,
+  Text,
+} from '../components';
+import { useBranding } from '../providers/branding';
+import { TemplateDocumentImage } from '../template-components/template-document-image';
+import { TemplateFooter } from '../template-components/template-footer';
+
+export type DocumentExpiredEmailTemplateProps = {
+  senderName?: string;
+  documentName?: string;
+  assetBaseUrl?: string;
+  /**
+   * A link to the document for its owner, recipients are not sent a link.
+   */
+  documentLink?: string;
+};
+
+export const DocumentExpiredEmailTemplate = ({
+  senderName = 'Lucas Smith',
+  documentName = 'Open Source Pledge.pdf',
+  assetBaseUrl = 'http://localhost:3002',
+  documentLink,
+}: DocumentExpiredEmailTemplateProps) => {
+  const { _ } = useLingui();
+  const branding = useBranding();
+
+  const previewText = documentLink
+    ? msg`Your document ${documentName} has expired before it was completed`
+    : msg`${senderName} sent you ${documentName}, it has expired and can no longer be signed`;
+
+  const getAssetUrl = (path: string) => {
+    return new URL(path, assetBaseUrl).toString();
+  };
+
+  return (
+    <Html>
+      <Head />
+      <Preview>{_(previewText)}</Preview>
+
+      <Body className="mx-auto my-auto bg-white font-sans">
+        <Section>
+          <Container className="mx-auto mb-2 mt-8 max-w-xl rounded-lg border border-solid border-slate-200 p-4 backdrop-blur-sm">
+            <Section>
+              {branding.brandingEnabled && branding.brandingLogo ? (
+                <Img src={branding.brandingLogo} alt="Branding Logo" className="mb-4 h-6" />
+              ) : (
+                <Img
+                  src={getAssetUrl('/static/logo.png')}
+                  alt="Documenso Logo"
+                  className="mb-4 h-6"
+                />
+              )}
+
+              <TemplateDocumentImage className="mt-6" assetBaseUrl={assetBaseUrl} />
+
+              <Section>
+                <Text className="text-primary mx-auto mb-0 max-w-[80%] text-center text-lg font-semibold">
+                  <Trans>
+                    The document has expired
+                    <br />"{documentName}"
+                  </Trans>
+                </Text>
+
+                {documentLink ? (
+                  <>
+                    <Text className="my-1 text-center text-base text-slate-400">
+                      <Trans>
+                        Not all recipients completed the document before its expiry date. It can no
+                        longer be signed.
+                      </Trans>
+                    </Text>
+
+                    <Section className="mb-6 mt-8 text-center">
+                      <Button
+                        className="bg-documenso-500 inline-flex items-center justify-center rounded-lg px-6 py-3 text-center text-sm font-medium text-black no-underline"
+                        href={documentLink}
+                      >
+                        <Trans>View Document</Trans>
+                      </Button>
+                    </Section>
+                  </>
+                ) : (
+                  <>
+                    <Text className="my-1 text-center text-base text-slate-400">
+                      <Trans>You don't need to sign it anymore.</Trans>
+                    </Text>
+
+                    <Text className="my-1 text-center text-base text-slate-400">
+                      <Trans>Please contact {senderName} if you still need to sign it.</Trans>
+                    </Text>
+                  </>
+                )}
+              </Section>
+            </Section>
+          </Container>
+
+          <Hr className="mx-auto mt-12 max-w-xl" />
+
+          <Container className="mx-auto max-w-xl">
+            <TemplateFooter />
+          </Container>
+        </Section>
+      </Body>
+    </Html>
+  );
+};
+
+export default DocumentExpiredEmailTemplate;
@@ -0,0 +1,124 @@
+import { Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+import { match } from 'ts-pattern';
+
+import { RECIPIENT_ROLES_DESCRIPTION } from '@documenso/lib/constants/recipient-roles';
+import { RecipientRole } from '@documenso/prisma/client';
+
+import {
+  Body,
+  Button,
+  Container,
+  Head,
+  Hr,
+  Html,
+  Img,
+  Preview,
+  Section,
+  Text,
+} from '../components';
+import { useBranding } from '../providers/branding';
+import { TemplateDocumentImage } from '../template-components/template-document-image';
+import { TemplateFooter } from '../template-components/template-footer';
+
+export type DocumentReminderEmailTemplateProps = {
+  senderName?: string;
+  documentName?: string;
+  signDocumentLink?: string;
+  assetBaseUrl?: string;
+  role: RecipientRole;
+  customBody?: string;
+};
+
+export const DocumentReminderEmailTemplate = ({
+  senderName = 'Lucas Smith',
+  documentName = 'Open Source Pledge.pdf',
+  signDocumentLink = 'https://documenso.com',
+  assetBaseUrl = 'http://localhost:3002',
+  role = RecipientRole.SIGNER,
+  customBody,
+}: DocumentReminderEmailTemplateProps) => {
+  const { _ } = useLingui();
+  const branding = useBranding();
+
+  const action = _(RECIPIENT_ROLES_DESCRIPTION[role].actionVerb).toLowerCase();
+
+  const previewText = msg`Reminder: ${senderName} is waiting for you to ${action} ${documentName}`;
+
+  const getAssetUrl = (path: string) => {
+    return new URL(path, assetBaseUrl).toString();
+  };
+
+  return (
+    <Html>
+      <Head />
+      <Preview>{_(previewText)}</Preview>
+
+      <Body className="mx-auto my-auto bg-white font-sans">
+        <Section>
+          <Container className="mx-auto mb-2 mt-8 max-w-xl rounded-lg border border-solid border-slate-200 p-4 backdrop-blur-sm">
+            <Section>
+              {branding.brandingEnabled && branding.brandingLogo ? (
+                <Img src={branding.brandingLogo} alt="Branding Logo" className="mb-4 h-6" />
+              ) : (
+                <Img
+                  src={getAssetUrl('/static/logo.png')}
+                  alt="Documenso Logo"
+                  className="mb-4 h-6"
+                />
+              )}
+
+              <TemplateDocumentImage className="mt-6" assetBaseUrl={assetBaseUrl} />
+
+              <Section>
+                <Text className="text-primary mx-auto mb-0 max-w-[80%] text-center text-lg font-semibold">
+                  <Trans>
+                    Reminder: {senderName} is waiting for you to {action}
+                    <br />"{documentName}"
+                  </Trans>
+                </Text>
+
+                <Text className="my-1 text-center text-base text-slate-400">
+                  <Trans>You have not completed this document yet.</Trans>
+                </Text>
+
+                <Section className="mb-6 mt-8 text-center">
+                  <Button
+                    className="bg-documenso-500 inline-flex items-center justify-center rounded-lg px-6 py-3 text-center text-sm font-medium text-black no-underline"
+                    href={signDocumentLink}
+                  >
+                    {match(role)
+                      .with(RecipientRole.SIGNER, () => <Trans>Sign Document</Trans>)
+                      .with(RecipientRole.VIEWER, () => <Trans>View Document</Trans>)
+                      .with(RecipientRole.APPROVER, () => <Trans>Approve Document</Trans>)
+                      .with(RecipientRole.CC, () => '')
+                      .with(RecipientRole.ASSISTANT, () => <Trans>Assist Document</Trans>)
+                      .exhaustive()}
+                  </Button>
+                </Section>
+              </Section>
+            </Section>
+          </Container>
+
+          {customBody && (
+            <Container className="mx-auto mt-12 max-w-xl">
+              <Section>
+                <Text className="mt-2 text-base text-slate-400">
+                  <pre className="font-sans text-base text-slate-400">{customBody}</pre>
+                </Text>
+              </Section>
+            </Container>
+          )}
+
+          <Hr className="mx-auto mt-12 max-w-xl" />
+
+          <Container className="mx-auto max-w-xl">
+            <TemplateFooter />
+          </Container>
+        </Section>
+      </Body>
+    </Html>
+  );
+};
+
+export default DocumentReminderEmailTemplate;
@@ -0,0 +1,85 @@
+import { Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+
+import { Body, Container, Head, Hr, Html, Img, Preview, Section, Text } from '../components';
+import { useBranding } from '../providers/branding';
+import TemplateDocumentImage from '../template-components/template-document-image';
+import { TemplateFooter } from '../template-components/template-footer';
+
+export type RecipientVerificationCodeTemplateProps = {
+  documentName?: string;
+  verificationCode?: string;
+  expiresInMinutes?: number;
+  assetBaseUrl?: string;
+};
+
+export const RecipientVerificationCodeTemplate = ({
+  documentName = 'Open Source Pledge.pdf',
+  verificationCode = '123456',
+  expiresInMinutes = 10,
+  assetBaseUrl = 'http://localhost:3002',
+}: RecipientVerificationCodeTemplateProps) => {
+  const { _ } = useLingui();
+  const branding = useBranding();
+
+  const previewText = msg`Your verification code for ${documentName}`;
+
+  const getAssetUrl = (path: string) => {
+    return new URL(path, assetBaseUrl).toString();
+  };
+
+  return (
+    <Html>
+      <Head />
+      <Preview>{_(previewText)}</Preview>
+
+      <Body className="mx-auto my-auto bg-white font-sans">
+        <Section>
+          <Container className="mx-auto mb-2 mt-8 max-w-xl rounded-lg border border-solid border-slate-200 p-4 backdrop-blur-sm">
+            <Section>
+              {branding.brandingEnabled && branding.brandingLogo ? (
+                <Img src={branding.brandingLogo} alt="Branding Logo" className="mb-4 h-6" />
+              ) : (
+                <Img
+                  src={getAssetUrl('/static/logo.png')}
+                  alt="Documenso Logo"
+                  className="mb-4 h-6"
+                />
+              )}
+
+              <TemplateDocumentImage className="mt-6" assetBaseUrl={assetBaseUrl} />
+
+              <Section>
+                <Text className="text-primary mx-auto mb-0 max-w-[80%] text-center text-lg font-semibold">
+                  <Trans>
+                    Your verification code for
+                    <br />"{documentName}"
+                  </Trans>
+                </Text>
+
+                <Text className="text-primary my-6 text-center text-3xl font-semibold tracking-[0.5em]">
+                  {verificationCode}
+                </Text>
+
+                <Text className="my-1 text-center text-base text-slate-400">
+                  <Trans>
+                    This code expires in {expiresInMinutes} minutes. If you didn't request it, you
+                    can safely ignore this email.
+                  </Trans>
+                </Text>
+              </Section>
+            </Section>
+          </Container>
+
+          <Hr className="mx-auto mt-12 max-w-xl" />
+
+          <Container className="mx-auto max-w-xl">
+            <TemplateFooter />
+          </Container>
+        </Section>
+      </Body>
+    </Html>
+  );
+};
+
+export default RecipientVerificationCodeTemplate;
@@ -0,0 +1,109 @@
+import { Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+
+import { Body, Container, Head, Hr, Html, Img, Preview, Section, Text } from '../components';
+import { useBranding } from '../providers/branding';
+import { TemplateFooter } from '../template-components/template-footer';
+import TemplateImage from '../template-components/template-image';
+
+export type UsageQuotaWarningEmailProps = {
+  assetBaseUrl: string;
+  accountName: string;
+  metric: 'DOCUMENTS' | 'DIRECT_TEMPLATES' | 'API_CALLS' | 'STORAGE';
+  usage: string;
+  limit: string;
+  isExceeded: boolean;
+  isHardLimit: boolean;
+};
+
+const METRIC_LABELS = {
+  DOCUMENTS: msg`documents this month`,
+  DIRECT_TEMPLATES: msg`direct templates`,
+  API_CALLS: msg`API calls this month`,
+  STORAGE: msg`storage`,
+};
+
+export const UsageQuotaWarningEmailTemplate = ({
+  assetBaseUrl = 'http://localhost:3002',
+  accountName = 'Team Name',
+  metric = 'DOCUMENTS',
+  usage = '80',
+  limit = '100',
+  isExceeded = false,
+  isHardLimit = true,
+}: UsageQuotaWarningEmailProps) => {
+  const { _ } = useLingui();
+  const branding = useBranding();
+
+  const metricLabel = _(METRIC_LABELS[metric]);
+
+  const previewText = isExceeded
+    ? msg`${accountName} has reached its usage limit`
+    : msg`${accountName} is approaching its usage limit`;
+
+  return (
+    <Html>
+      <Head />
+      <Preview>{_(previewText)}</Preview>
+
+      <Body className="mx-auto my-auto font-sans">
+        <Section className="bg-white text-slate-500">
+          <Container className="mx-auto mb-2 mt-8 max-w-xl rounded-lg border border-solid border-slate-200 p-2 backdrop-blur-sm">
+            {branding.brandingEnabled && branding.brandingLogo ? (
+              <Img src={branding.brandingLogo} alt="Branding Logo" className="mb-4 h-6 p-2" />
+            ) : (
+              <TemplateImage
+                assetBaseUrl={assetBaseUrl}
+                className="mb-4 h-6 p-2"
+                staticAsset="logo.png"
+              />
+            )}
+
+            <Section className="p-2 text-slate-500">
+              <Text className="text-center text-lg font-medium text-black">
+                {isExceeded ? (
+                  <Trans>{accountName} has reached its usage limit</Trans>
+                ) : (
+                  <Trans>{accountName} is approaching its usage limit</Trans>
+                )}
+              </Text>
+
+              <Text className="my-1 text-center text-base">
+                <Trans>
+                  {usage} of {limit} {metricLabel} have been used.
+                </Trans>
+              </Text>
+
+              <Text className="my-1 text-center text-base">
+                {isExceeded && isHardLimit && (
+                  <Trans>
+                    Further usage is blocked until the limit resets or an administrator raises it.
+                  </Trans>
+                )}
+
+                {isExceeded && !isHardLimit && (
+                  <Trans>
+                    Usage above the limit is still allowed but will be reported to your
+                    administrator.
+                  </Trans>
+                )}
+
+                {!isExceeded && (
+                  <Trans>Contact your administrator if you expect to need a higher limit.</Trans>
+                )}
+              </Text>
+            </Section>
+          </Container>
+
+          <Hr className="mx-auto mt-12 max-w-xl" />
+
+          <Container className="mx-auto max-w-xl">
+            <TemplateFooter isDocument={false} />
+          </Container>
+        </Section>
+      </Body>
+    </Html>
+  );
+};
+
+export default UsageQuotaWarningEmailTemplate;
@@ -0,0 +1,98 @@
+import { Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+
+import {
+  Body,
+  Button,
+  Container,
+  Head,
+  Hr,
+  Html,
+  Img,
+  Preview,
+  Section,
+  Text,
+} from '../components';
+import { useBranding } from '../providers/branding';
+import { TemplateFooter } from '../template-components/template-footer';
+import TemplateImage from '../template-components/template-image';
+
+export type WebhookDisabledEmailProps = {
+  assetBaseUrl: string;
+  webhookUrl: string;
+  webhookSettingsUrl: string;
+  consecutiveFailures: number;
+};
+
+export const WebhookDisabledEmailTemplate = ({
+  assetBaseUrl = 'http://localhost:3002',
+  webhookUrl = 'https://example.com/webhook',
+  webhookSettingsUrl = 'http://localhost:3000/settings/webhooks',
+  consecutiveFailures = 20,
+}: WebhookDisabledEmailProps) => {
+  const { _ } = useLingui();
+  const branding = useBranding();
+
+  const previewText = msg`Your webhook has been disabled`;
+
+  return (
+    <Html>
+      <Head />
+      <Preview>{_(previewText)}</Preview>
+
+      <Body className="mx-auto my-auto font-sans">
+        <Section className="bg-white text-slate-500">
+          <Container className="mx-auto mb-2 mt-8 max-w-xl rounded-lg border border-solid border-slate-200 p-2 backdrop-blur-sm">
+            {branding.brandingEnabled && branding.brandingLogo ? (
+              <Img src={branding.brandingLogo} alt="Branding Logo" className="mb-4 h-6 p-2" />
+            ) : (
+              <TemplateImage
+                assetBaseUrl={assetBaseUrl}
+                className="mb-4 h-6 p-2"
+                staticAsset="logo.png"
+              />
+            )}
+
+            <Section className="p-2 text-slate-500">
+              <Text className="text-center text-lg font-medium text-black">
+                <Trans>Your webhook has been disabled</Trans>
+              </Text>
+
+              <Text className="my-1 text-center text-base">
+                <Trans>
+                  We stopped sending events to{' '}
+                  <span className="font-semibold text-slate-900">{webhookUrl}</span> after{' '}
+                  {consecutiveFailures} failed deliveries in a row.
+                </Trans>
+              </Text>
+
+              <Text className="my-1 text-center text-base">
+                <Trans>
+                  Check that the endpoint is reachable and responds with a successful status code,
+                  then enable the webhook again to resume deliveries.
+                </Trans>
+              </Text>
+
+              <Section className="mb-6 mt-6 text-center">
+                <Button
+                  className="bg-documenso-500 inline-flex items-center justify-center rounded-lg px-6 py-3 text-center text-sm font-medium text-black no-underline"
+                  href={webhookSettingsUrl}
+                >
+                  <Trans>View webhook</Trans>
+                </Button>
+              </Section>
+            </Section>
+          </Container>
+
+          <Hr className="mx-auto mt-12 max-w-xl" />
+
+          <Container className="mx-auto max-w-xl">
+            <TemplateFooter isDocument={false} />
+          </Container>
+        </Section>
+      </Body>
+    </Html>
+  );
+};
+
+export default WebhookDisabledEmailTemplate;
@@ -0,0 +1,33 @@
+import type { TFormulaFieldMeta as FormulaFieldMeta } from '../types/field-meta';
+
+export const validateFormulaField = (fieldMeta: FormulaFieldMeta): string[] => {
+  const errors = [];
+
+  const { operation, operands, amount, fontSize } = fieldMeta;
+
+  if (!operands || operands.length === 0) {
+    errors.push('A formula must reference at least one field');
+  }
+
+  if (operands && operands.some((operand) => operand.trim().length < 1)) {
+    errors.push('Referenced field labels cannot be empty');
+  }
+
+  if (operation === 'addDays' && operands && operands.length > 1) {
+    errors.push('A date formula must reference exactly one date field');
+  }
+
+  if ((operation === 'percentage' || operation === 'addDays') && amount === undefined) {
+    errors.push('An amount is required for percentage and date formulas');
+  }
+
+  if (amount !== undefined && Number.isNaN(amount)) {
+    errors.push('Amount must be a valid number');
+  }
+
+  if (fontSize && (fontSize < 8 || fontSize > 96)) {
+    errors.push('Font size must be between 8 and 96.');
+  }
+
+  return errors;
+};
@@ -0,0 +1,81 @@
+import { useEffect, useRef, useState } from 'react';
+
+import { DOCUMENT_LOCK_HEARTBEAT_INTERVAL } from '@documenso/lib/constants/document';
+import { trpc } from '@documenso/trpc/react';
+
+export type UseDocumentLockOptions = {
+  documentId: number;
+};
+
+/**
+ * Acquire an editor lock on a document while the component is mounted.
+ *
+ * The lock is extended on an interval and released when the component unmounts. When
+ * another user holds the lock, acquisition is retried on each heartbeat until it frees up.
+ */
+export function useDocumentLock({ documentId }: UseDocumentLockOptions) {
+  const hasLockRef = useRef(false);
+
+  const [isLockedByOtherUser, setIsLockedByOtherUser] = useState(false);
+
+  const { data: documentLock, refetch: refetchDocumentLock } =
+    trpc.documentLock.getDocumentLock.useQuery(
+      {
+        documentId,
+      },
+      {
+        enabled: isLockedByOtherUser,
+      },
+    );
+
+  const { mutateAsync: lockDocument } = trpc.documentLock.lockDocument.useMutation();
+  const { mutateAsync: extendLock } = trpc.documentLock.extendLock.useMutation();
+  const { mutateAsync: unlockDocument } = trpc.documentLock.unlockDocument.useMutation();
+
+  useEffect(() => {
+    const acquireLock = async () => {
+      try {
+        await lockDocument({ documentId });
+
+        hasLockRef.current = true;
+        setIsLockedByOtherUser(false);
+      } catch (err) {
+        hasLockRef.current = false;
+        setIsLockedByOtherUser(true);
+
+        void refetchDocumentLock();
+      }
+    };
+
+    const onHeartbeat = async () => {
+      if (!hasLockRef.current) {
+        await acquireLock();
+        return;
+      }
+
+      // Re-acquire the lock if it was lost, for example if it expired while the device slept.
+      await extendLock({ documentId }).catch(async () => acquireLock());
+    };
+
+    void acquireLock();
+
+    const interval = setInterval(() => void onHeartbeat(), DOCUMENT_LOCK_HEARTBEAT_INTERVAL);
+
+    return () => {
+      clearInterval(interval);
+
+      if (hasLockRef.current) {
+        hasLockRef.current = false;
+
+        void unlockDocument({ documentId }).catch(() => null);
+      }
+    };
+
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [documentId]);
+
+  return {
+    isLockedByOtherUser,
+    lockedByUser: isLockedByOtherUser ? (documentLock?.lockedByUser ?? null) : null,
+  };
+}
@@ -19,7 +19,12 @@ export const getRecipientType = (
   recipient: Recipient,
   distributionMethod: DocumentDistributionMethod = DocumentDistributionMethod.EMAIL,
 ) => {
-  if (recipient.role === RecipientRole.CC || recipient.signingStatus === SigningStatus.SIGNED) {
+  // Recipients skipped by the signing routing no longer have anything to do.
+  if (
+    recipient.role === RecipientRole.CC ||
+    recipient.signingStatus === SigningStatus.SIGNED ||
+    recipient.signingStatus === SigningStatus.SKIPPED
+  ) {
     return RecipientStatusType.COMPLETED;
   }
 
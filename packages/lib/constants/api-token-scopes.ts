@@ -0,0 +1,44 @@
+import type { MessageDescriptor } from '@lingui/core';
+import { msg } from '@lingui/macro';
+
+import { ApiTokenScope } from '@documenso/prisma/client';
+
+export const API_TOKEN_SCOPE_MAP: Record<
+  keyof typeof ApiTokenScope,
+  { value: string; description: MessageDescriptor }
+> = {
+  DOCUMENTS_READ: {
+    value: 'documents:read',
+    description: msg`View and download documents`,
+  },
+  DOCUMENTS_WRITE: {
+    value: 'documents:write',
+    description: msg`Create, update, send and delete documents`,
+  },
+  TEMPLATES_READ: {
+    value: 'templates:read',
+    description: msg`View templates`,
+  },
+  TEMPLATES_WRITE: {
+    value: 'templates:write',
+    description: msg`Create, update and delete templates`,
+  },
+  RECIPIENTS_WRITE: {
+    value: 'recipients:write',
+    description: msg`Add, update and remove document recipients`,
+  },
+  WEBHOOKS_MANAGE: {
+    value: 'webhooks:manage',
+    description: msg`Subscribe and unsubscribe webhooks`,
+  },
+  TEAM_READ: {
+    value: 'team:read',
+    description: msg`View team members`,
+  },
+  TEAM_WRITE: {
+    value: 'team:write',
+    description: msg`Invite, update and remove team members`,
+  },
+};
+
+export const ALL_API_TOKEN_SCOPES = Object.values(ApiTokenScope);
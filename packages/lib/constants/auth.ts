@@ -6,6 +6,7 @@ export const IDENTITY_PROVIDER_NAME: { [key in IdentityProvider]: string } = {
   [IdentityProvider.DOCUMENSO]: 'Documenso',
   [IdentityProvider.GOOGLE]: 'Google',
   [IdentityProvider.OIDC]: 'OIDC',
+  [IdentityProvider.SAML]: 'SAML',
 };
 
 export const IS_GOOGLE_SSO_ENABLED = Boolean(
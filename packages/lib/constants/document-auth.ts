@@ -19,8 +19,39 @@ export const DOCUMENT_AUTH_TYPES: Record<string, DocumentAuthTypeData> = {
     key: DocumentAuth.TWO_FACTOR_AUTH,
     value: 'Require 2FA',
   },
+  [DocumentAuth.SMS_OTP]: {
+    key: DocumentAuth.SMS_OTP,
+    value: 'Require SMS code',
+  },
+  [DocumentAuth.EMAIL_OTP]: {
+    key: DocumentAuth.EMAIL_OTP,
+    value: 'Require email code',
+  },
+  [DocumentAuth.ACCESS_CODE]: {
+    key: DocumentAuth.ACCESS_CODE,
+    value: 'Require access code',
+  },
+  [DocumentAuth.ID_VERIFICATION]: {
+    key: DocumentAuth.ID_VERIFICATION,
+    value: 'Require ID verification',
+  },
   [DocumentAuth.EXPLICIT_NONE]: {
     key: DocumentAuth.EXPLICIT_NONE,
     value: 'None (Overrides global settings)',
   },
 } satisfies Record<TDocumentAuth, DocumentAuthTypeData>;
+
+/**
+ * How long a one-time code sent to a recipient by SMS or email can be entered for.
+ *
+ * Once entered, a code stays valid for `VERIFICATION_CODE_SESSION_DURATION` after it was last
+ * used so the recipient isn't sent a new code for every page load or field they sign.
+ */
+export const VERIFICATION_CODE_EXPIRY_MINUTES = 10;
+
+export const VERIFICATION_CODE_SESSION_DURATION = 60 * 60 * 1000; // 1 hour
+
+/**
+ * The maximum number of incorrect one-time codes a recipient can enter while a code is valid.
+ */
+export const MAXIMUM_VERIFICATION_CODE_ATTEMPTS = 5;
@@ -3,6 +3,8 @@ import { msg } from '@lingui/macro';
 
 import { DocumentDistributionMethod, DocumentStatus } from '@documenso/prisma/client';
 
+import { ONE_MINUTE } from './time';
+
 export const DOCUMENT_STATUS: {
   [status in DocumentStatus]: { description: MessageDescriptor };
 } = {
@@ -15,6 +17,12 @@ export const DOCUMENT_STATUS: {
   [DocumentStatus.PENDING]: {
     description: msg`Pending`,
   },
+  [DocumentStatus.EXPIRED]: {
+    description: msg`Expired`,
+  },
+  [DocumentStatus.VOIDED]: {
+    description: msg`Voided`,
+  },
 };
 
 type DocumentDistributionMethodTypeData = {
@@ -32,3 +40,13 @@ export const DOCUMENT_DISTRIBUTION_METHODS: Record<string, DocumentDistributionM
     description: msg`None`,
   },
 } satisfies Record<DocumentDistributionMethod, DocumentDistributionMethodTypeData>;
+
+/**
+ * How long an editor lock on a document lasts before it expires if not extended.
+ */
+export const DOCUMENT_LOCK_DURATION_MINUTES = 5;
+
+/**
+ * How often the document editor extends its lock while open.
+ */
+export const DOCUMENT_LOCK_HEARTBEAT_INTERVAL = ONE_MINUTE;
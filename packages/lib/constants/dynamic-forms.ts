@@ -0,0 +1,30 @@
+import type { MessageDescriptor } from '@lingui/core';
+import { msg } from '@lingui/macro';
+
+import { FormFieldType } from '@documenso/prisma/client';
+
+export const DYNAMIC_FORM_FIELD_TYPE_MAP: Record<keyof typeof FormFieldType, MessageDescriptor> = {
+  TEXT: msg`Text`,
+  NUMBER: msg`Number`,
+  EMAIL: msg`Email`,
+  PHONE: msg`Phone`,
+  DATE: msg`Date`,
+  CHECKBOX: msg`Checkbox`,
+  SELECT: msg`Select`,
+  RADIO: msg`Radio`,
+  FILE_UPLOAD: msg`File upload`,
+};
+
+/**
+ * The field types which can be added to a form in the builder.
+ */
+export const DYNAMIC_FORM_SUPPORTED_FIELD_TYPES = [
+  FormFieldType.TEXT,
+  FormFieldType.NUMBER,
+  FormFieldType.EMAIL,
+  FormFieldType.PHONE,
+  FormFieldType.DATE,
+  FormFieldType.CHECKBOX,
+  FormFieldType.SELECT,
+  FormFieldType.RADIO,
+] satisfies FormFieldType[];
@@ -0,0 +1,15 @@
+import { ONE_DAY, ONE_HOUR, ONE_MINUTE } from './time';
+
+export const OAUTH_CLIENT_ID_PREFIX = 'oauth_client_';
+export const OAUTH_CLIENT_SECRET_PREFIX = 'oauth_secret_';
+export const OAUTH_ACCESS_TOKEN_PREFIX = 'oauth_at_';
+export const OAUTH_REFRESH_TOKEN_PREFIX = 'oauth_rt_';
+
+export const OAUTH_AUTHORIZATION_CODE_EXPIRY = 10 * ONE_MINUTE;
+export const OAUTH_ACCESS_TOKEN_EXPIRY = ONE_HOUR;
+export const OAUTH_REFRESH_TOKEN_EXPIRY = 30 * ONE_DAY;
+
+/**
+ * Only the `S256` PKCE code challenge method is supported.
+ */
+export const OAUTH_CODE_CHALLENGE_METHOD = 'S256';
@@ -0,0 +1,16 @@
+import type { MessageDescriptor } from '@lingui/core';
+import { msg } from '@lingui/macro';
+
+import type { TSigningRoutingRuleOperator } from '../types/document-signing-routing';
+
+export const SIGNING_ROUTING_RULE_OPERATOR_LABELS: Record<
+  TSigningRoutingRuleOperator,
+  MessageDescriptor
+> = {
+  equals: msg`is equal to`,
+  notEquals: msg`is not equal to`,
+  lessThan: msg`is less than`,
+  lessThanOrEquals: msg`is at most`,
+  greaterThan: msg`is greater than`,
+  greaterThanOrEquals: msg`is at least`,
+};
@@ -1,7 +1,7 @@
 import type { MessageDescriptor } from '@lingui/core';
 import { msg } from '@lingui/macro';
 
-import { TeamMemberRole } from '@documenso/prisma/client';
+import { TeamMemberRole, TeamPermission } from '@documenso/prisma/client';
 
 export const TEAM_URL_ROOT_REGEX = new RegExp('^/t/[^/]+$');
 export const TEAM_URL_REGEX = new RegExp('^/t/[^/]+');
@@ -20,9 +20,83 @@ export const TEAM_MEMBER_ROLE_PERMISSIONS_MAP = {
    */
   MANAGE_TEAM: [TeamMemberRole.ADMIN, TeamMemberRole.MANAGER],
   MANAGE_BILLING: [TeamMemberRole.ADMIN],
+  MANAGE_TEAM_ROLES: [TeamMemberRole.ADMIN],
+  MANAGE_TEAM_SSO: [TeamMemberRole.ADMIN],
   DELETE_TEAM_TRANSFER_REQUEST: [TeamMemberRole.ADMIN],
 } satisfies Record<string, TeamMemberRole[]>;
 
+export const TEAM_PERMISSION_MAP: Record<
+  keyof typeof TeamPermission,
+  { label: MessageDescriptor; description: MessageDescriptor }
+> = {
+  SEND_DOCUMENTS: {
+    label: msg`Send documents`,
+    description: msg`Create, send and resend documents on behalf of the team`,
+  },
+  MANAGE_DOCUMENTS: {
+    label: msg`Manage documents`,
+    description: msg`Edit, duplicate, move, delete and restore versions of team documents`,
+  },
+  MANAGE_TEMPLATES: {
+    label: msg`Manage templates`,
+    description: msg`Create, edit, duplicate and delete team templates`,
+  },
+  VIEW_ALL_DOCUMENTS: {
+    label: msg`View all documents`,
+    description: msg`View every team document regardless of its visibility`,
+  },
+  MANAGE_WEBHOOKS: {
+    label: msg`Manage webhooks`,
+    description: msg`Create, edit and delete team webhooks`,
+  },
+  MANAGE_API_TOKENS: {
+    label: msg`Manage API tokens`,
+    description: msg`Create and delete team API tokens`,
+  },
+  VIEW_BILLING: {
+    label: msg`View billing`,
+    description: msg`View the team's subscription and invoices`,
+  },
+};
+
+/**
+ * The permissions granted to a team member when they have not been assigned a custom role.
+ *
+ * A custom role replaces these permissions entirely, however the member's base role is still
+ * used for the role hierarchy and the `TEAM_MEMBER_ROLE_PERMISSIONS_MAP` actions, which
+ * includes access to the team settings.
+ */
+export const TEAM_MEMBER_ROLE_DEFAULT_PERMISSIONS = {
+  [TeamMemberRole.ADMIN]: Object.values(TeamPermission),
+  [TeamMemberRole.MANAGER]: [
+    TeamPermission.SEND_DOCUMENTS,
+    TeamPermission.MANAGE_DOCUMENTS,
+    TeamPermission.MANAGE_TEMPLATES,
+    TeamPermission.MANAGE_WEBHOOKS,
+    TeamPermission.VIEW_BILLING,
+  ],
+  [TeamMemberRole.MEMBER]: [
+    TeamPermission.SEND_DOCUMENTS,
+    TeamPermission.MANAGE_DOCUMENTS,
+    TeamPermission.MANAGE_TEMPLATES,
+  ],
+} satisfies Record<TeamMemberRole, TeamPermission[]>;
+
+/**
+ * Suggested custom roles that can be used as a starting point in the role editor.
+ */
+export const TEAM_ROLE_PRESETS: {
+  name: MessageDescriptor;
+  description: MessageDescriptor;
+  permissions: TeamPermission[];
+}[] = [
+  {
+    name: msg`Auditor`,
+    description: msg`Read-only access to every team document`,
+    permissions: [TeamPermission.VIEW_ALL_DOCUMENTS],
+  },
+];
+
 /**
  * A hierarchy of team member roles to determine which role has higher permission than another.
  */
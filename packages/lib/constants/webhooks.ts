@@ -0,0 +1,26 @@
+import { ONE_MINUTE } from './time';
+
+/**
+ * The total number of times a delivery is attempted, including the initial attempt.
+ */
+export const WEBHOOK_MAXIMUM_ATTEMPTS = 6;
+
+/**
+ * The delay before the first retry, multiplied by four for every following retry.
+ */
+export const WEBHOOK_RETRY_BASE_DELAY = ONE_MINUTE;
+
+/**
+ * Webhooks are disabled after this many events in a row failed to be delivered, once all of their
+ * retries have been attempted.
+ */
+export const WEBHOOK_MAXIMUM_CONSECUTIVE_FAILURES = 20;
+
+/**
+ * Get the delay before retrying a call that failed on the given attempt.
+ *
+ * With the defaults the retries are sent after 1, 4, 16, 64 and 256 minutes.
+ */
+export const getWebhookRetryDelay = (attempt: number) => {
+  return WEBHOOK_RETRY_BASE_DELAY * 4 ** (attempt - 1);
+};
@@ -7,6 +7,7 @@ import { z } from 'zod';
 export enum AppErrorCode {
   'ALREADY_EXISTS' = 'ALREADY_EXISTS',
   'EXPIRED_CODE' = 'EXPIRED_CODE',
+  'FORBIDDEN' = 'FORBIDDEN',
   'INVALID_BODY' = 'INVALID_BODY',
   'INVALID_REQUEST' = 'INVALID_REQUEST',
   'LIMIT_EXCEEDED' = 'LIMIT_EXCEEDED',
@@ -25,6 +26,7 @@ export const genericErrorCodeToTrpcErrorCodeMap: Record<string, { code: string;
   {
     [AppErrorCode.ALREADY_EXISTS]: { code: 'BAD_REQUEST', status: 400 },
     [AppErrorCode.EXPIRED_CODE]: { code: 'BAD_REQUEST', status: 400 },
+    [AppErrorCode.FORBIDDEN]: { code: 'FORBIDDEN', status: 403 },
     [AppErrorCode.INVALID_BODY]: { code: 'BAD_REQUEST', status: 400 },
     [AppErrorCode.INVALID_REQUEST]: { code: 'BAD_REQUEST', status: 400 },
     [AppErrorCode.NOT_FOUND]: { code: 'NOT_FOUND', status: 404 },
@@ -211,8 +213,13 @@ export class AppError extends Error {
     const error = AppError.parseError(err);
 
     const status = match(error.code)
-      .with(AppErrorCode.INVALID_BODY, AppErrorCode.INVALID_REQUEST, () => 400 as const)
-      .with(AppErrorCode.UNAUTHORIZED, () => 401 as const)
+      .with(
+        AppErrorCode.ALREADY_EXISTS,
+        AppErrorCode.INVALID_BODY,
+        AppErrorCode.INVALID_REQUEST,
+        () => 400 as const,
+      )
+      .with(AppErrorCode.UNAUTHORIZED, AppErrorCode.FORBIDDEN, () => 401 as const)
       .with(AppErrorCode.NOT_FOUND, () => 404 as const)
       .otherwise(() => 500 as const);
 
@@ -1,13 +1,21 @@
 import { JobClient } from './client/client';
 import { SEND_CONFIRMATION_EMAIL_JOB_DEFINITION } from './definitions/emails/send-confirmation-email';
+import { SEND_DOCUMENT_EXPIRED_EMAILS_JOB_DEFINITION } from './definitions/emails/send-document-expired-emails';
+import { SEND_DOCUMENT_REMINDER_EMAIL_JOB_DEFINITION } from './definitions/emails/send-document-reminder-email';
 import { SEND_RECIPIENT_SIGNED_EMAIL_JOB_DEFINITION } from './definitions/emails/send-recipient-signed-email';
 import { SEND_SIGNING_REJECTION_EMAILS_JOB_DEFINITION } from './definitions/emails/send-rejection-emails';
 import { SEND_SIGNING_EMAIL_JOB_DEFINITION } from './definitions/emails/send-signing-email';
 import { SEND_TEAM_DELETED_EMAIL_JOB_DEFINITION } from './definitions/emails/send-team-deleted-email';
 import { SEND_TEAM_MEMBER_JOINED_EMAIL_JOB_DEFINITION } from './definitions/emails/send-team-member-joined-email';
 import { SEND_TEAM_MEMBER_LEFT_EMAIL_JOB_DEFINITION } from './definitions/emails/send-team-member-left-email';
+import { SEND_USAGE_QUOTA_WARNING_EMAIL_JOB_DEFINITION } from './definitions/emails/send-usage-quota-warning-email';
+import { SEND_WEBHOOK_DISABLED_EMAIL_JOB_DEFINITION } from './definitions/emails/send-webhook-disabled-email';
 import { BULK_SEND_TEMPLATE_JOB_DEFINITION } from './definitions/internal/bulk-send-template';
+import { EXPIRE_DOCUMENTS_JOB_DEFINITION } from './definitions/internal/expire-documents';
+import { RETRY_WEBHOOK_CALL_JOB_DEFINITION } from './definitions/internal/retry-webhook-call';
+import { RETRY_WEBHOOK_CALLS_JOB_DEFINITION } from './definitions/internal/retry-webhook-calls';
 import { SEAL_DOCUMENT_JOB_DEFINITION } from './definitions/internal/seal-document';
+import { SEND_DOCUMENT_REMINDERS_JOB_DEFINITION } from './definitions/internal/send-document-reminders';
 
 /**
  * The `as const` assertion is load bearing as it provides the correct level of type inference for
@@ -23,6 +31,14 @@ export const jobsClient = new JobClient([
   SEND_SIGNING_REJECTION_EMAILS_JOB_DEFINITION,
   SEND_RECIPIENT_SIGNED_EMAIL_JOB_DEFINITION,
   BULK_SEND_TEMPLATE_JOB_DEFINITION,
+  SEND_USAGE_QUOTA_WARNING_EMAIL_JOB_DEFINITION,
+  RETRY_WEBHOOK_CALL_JOB_DEFINITION,
+  RETRY_WEBHOOK_CALLS_JOB_DEFINITION,
+  SEND_WEBHOOK_DISABLED_EMAIL_JOB_DEFINITION,
+  SEND_DOCUMENT_REMINDERS_JOB_DEFINITION,
+  SEND_DOCUMENT_REMINDER_EMAIL_JOB_DEFINITION,
+  EXPIRE_DOCUMENTS_JOB_DEFINITION,
+  SEND_DOCUMENT_EXPIRED_EMAILS_JOB_DEFINITION,
 ] as const);
 
 export const jobs = jobsClient;
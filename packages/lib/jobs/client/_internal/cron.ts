@@ -0,0 +1,58 @@
+const CRON_FIELD_RANGES = [
+  [0, 59], // Minute
+  [0, 23], // Hour
+  [1, 31], // Day of month
+  [1, 12], // Month
+  [0, 6], // Day of week
+] as const;
+
+const matchesCronField = (field: string, value: number, [min, max]: readonly [number, number]) => {
+  return field.split(',').some((part) => {
+    const [range, step] = part.split('/');
+
+    const stepValue = step ? Number(step) : 1;
+
+    let start = min;
+    let end = max;
+
+    if (range !== '*') {
+      const [rangeStart, rangeEnd] = range.split('-');
+
+      start = Number(rangeStart);
+      end = rangeEnd !== undefined ? Number(rangeEnd) : step ? max : start;
+    }
+
+    if ([start, end, stepValue].some((n) => Number.isNaN(n)) || stepValue < 1) {
+      throw new Error(`Invalid cron field: ${field}`);
+    }
+
+    return value >= start && value <= end && (value - start) % stepValue === 0;
+  });
+};
+
+/**
+ * Whether a five field cron expression (minute, hour, day of month, month, day of week) matches
+ * the given date in UTC.
+ *
+ * Supports `*`, ranges (`1-5`), lists (`1,15`) and steps (`*\/15`), which is all the local job
+ * provider needs. Named months and days are not supported.
+ */
+export const matchesCronExpression = (expression: string, date: Date) => {
+  const fields = expression.trim().split(/\s+/);
+
+  if (fields.length !== CRON_FIELD_RANGES.length) {
+    throw new Error(`Invalid cron expression: ${expression}`);
+  }
+
+  const values = [
+    date.getUTCMinutes(),
+    date.getUTCHours(),
+    date.getUTCDate(),
+    date.getUTCMonth() + 1,
+    date.getUTCDay(),
+  ];
+
+  return fields.every((field, index) =>
+    matchesCronField(field, values[index], CRON_FIELD_RANGES[index]),
+  );
+};
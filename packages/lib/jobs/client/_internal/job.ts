@@ -35,6 +35,12 @@ export type JobDefinition<Name extends string = string, Schema = any> = {
   trigger: {
     name: Name;
     schema?: z.ZodType<Schema>;
+    /**
+     * A cron expression to additionally run the job on a recurring schedule, e.g. `0 * * * *`.
+     *
+     * Scheduled runs receive an empty payload so the schema must accept `{}`.
+     */
+    cron?: string;
   };
   handler: (options: { payload: Schema; io: JobRunIO }) => Promise<Json | void>;
 };
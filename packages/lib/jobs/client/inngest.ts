@@ -43,9 +43,9 @@ export class InngestJobProvider extends BaseJobProvider {
         id: job.id,
         name: job.name,
       },
-      {
-        event: job.trigger.name,
-      },
+      job.trigger.cron
+        ? [{ event: job.trigger.name }, { cron: job.trigger.cron }]
+        : { event: job.trigger.name },
       async (ctx) => {
         const io = this.convertInngestIoToJobRunIo(ctx);
 
@@ -53,6 +53,11 @@ export class InngestJobProvider extends BaseJobProvider {
         // eslint-disable-next-line @typescript-eslint/consistent-type-assertions, @typescript-eslint/no-explicit-any
         let payload = ctx.event.data as any;
 
+        // Scheduled runs are triggered with the cron timer event so they start with an empty payload.
+        if (ctx.event.name === 'inngest/scheduled.timer') {
+          payload = {};
+        }
+
         if (job.trigger.schema) {
           payload = job.trigger.schema.parse(payload);
         }
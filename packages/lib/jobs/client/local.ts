@@ -9,6 +9,7 @@ import { BackgroundJobStatus, Prisma } from '@documenso/prisma/client';
 import { NEXT_PRIVATE_INTERNAL_WEBAPP_URL } from '../../constants/app';
 import { sign } from '../../server-only/crypto/sign';
 import { verify } from '../../server-only/crypto/verify';
+import { matchesCronExpression } from './_internal/cron';
 import {
   type JobDefinition,
   type JobRunIO,
@@ -23,6 +24,8 @@ export class LocalJobProvider extends BaseJobProvider {
 
   private _jobDefinitions: Record<string, JobDefinition> = {};
 
+  private _scheduler: NodeJS.Timeout | null = null;
+
   private constructor() {
     super();
   }
@@ -40,6 +43,10 @@ export class LocalJobProvider extends BaseJobProvider {
       ...definition,
       enabled: definition.enabled ?? true,
     };
+
+    if (definition.trigger.cron) {
+      this.startScheduler();
+    }
   }
 
   public async triggerJob(options: SimpleTriggerJobOptions) {
@@ -61,6 +68,21 @@ export class LocalJobProvider extends BaseJobProvider {
           },
         });
 
+        const delay = options.timestamp ? options.timestamp - Date.now() : 0;
+
+        // Scheduled jobs are held in memory by the current instance until they are due.
+        if (delay > 0) {
+          setTimeout(() => {
+            void this.submitJobToEndpoint({
+              jobId: pendingJob.id,
+              jobDefinitionId: pendingJob.jobId,
+              data: options,
+            });
+          }, delay);
+
+          return;
+        }
+
         await this.submitJobToEndpoint({
           jobId: pendingJob.id,
           jobDefinitionId: pendingJob.jobId,
@@ -213,6 +235,86 @@ export class LocalJobProvider extends BaseJobProvider {
     };
   }
 
+  /**
+   * Checks every minute for scheduled jobs that are due and triggers them.
+   *
+   * Every running instance has its own scheduler, see `triggerScheduledJob` for how a scheduled job
+   * is only run once per period.
+   */
+  private startScheduler() {
+    // Nothing should be scheduled while the app is being built.
+    if (this._scheduler || process.env.NEXT_PHASE === 'phase-production-build') {
+      return;
+    }
+
+    const tick = () => {
+      const now = new Date();
+
+      Object.values(this._jobDefinitions)
+        .filter((job) => job.enabled && job.trigger.cron)
+        .filter((job) => matchesCronExpression(job.trigger.cron ?? '', now))
+        .forEach((job) => {
+          void this.triggerScheduledJob(job, now).catch((err) => {
+            console.error(`[JOBS]: Failed to trigger scheduled job ${job.id}`, err);
+          });
+        });
+    };
+
+    // Align the first tick with the start of the next minute so cron expressions match reliably.
+    const delay = 60_000 - (Date.now() % 60_000);
+
+    this._scheduler = setTimeout(() => {
+      tick();
+
+      this._scheduler = setInterval(tick, 60_000);
+      this._scheduler.unref();
+    }, delay);
+
+    this._scheduler.unref();
+  }
+
+  /**
+   * The background job id is derived from the job and the minute it is due, so when several instances
+   * tick at the same time only the first one to create the background job submits it.
+   */
+  private async triggerScheduledJob(job: JobDefinition, scheduledAt: Date) {
+    const period = Math.floor(scheduledAt.getTime() / 60_000);
+
+    const options: SimpleTriggerJobOptions = {
+      name: job.trigger.name,
+      payload: {},
+    };
+
+    const pendingJob = await prisma.backgroundJob
+      .create({
+        data: {
+          id: `scheduled-${job.id}-${period}`,
+          jobId: job.id,
+          name: job.name,
+          version: job.version,
+          payload: {},
+        },
+      })
+      .catch((err) => {
+        if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+          return null;
+        }
+
+        throw err;
+      });
+
+    // Another instance has already triggered the job for this period.
+    if (!pendingJob) {
+      return;
+    }
+
+    await this.submitJobToEndpoint({
+      jobId: pendingJob.id,
+      jobDefinitionId: pendingJob.jobId,
+      data: options,
+    });
+  }
+
   private async submitJobToEndpoint(options: {
     jobId: string;
     jobDefinitionId: string;
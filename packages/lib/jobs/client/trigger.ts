@@ -1,6 +1,6 @@
 import { createPagesRoute } from '@trigger.dev/nextjs';
 import type { IO } from '@trigger.dev/sdk';
-import { TriggerClient, eventTrigger } from '@trigger.dev/sdk';
+import { TriggerClient, cronTrigger, eventTrigger } from '@trigger.dev/sdk';
 
 import type { JobDefinition, JobRunIO, SimpleTriggerJobOptions } from './_internal/job';
 import { BaseJobProvider } from './base';
@@ -41,6 +41,28 @@ export class TriggerJobProvider extends BaseJobProvider {
       }),
       run: async (payload, io) => job.handler({ payload, io: this.convertTriggerIoToJobRunIo(io) }),
     });
+
+    if (job.trigger.cron) {
+      this._client.defineJob({
+        id: `${job.id}.scheduled`,
+        name: `${job.name} (Scheduled)`,
+        version: job.version,
+        trigger: cronTrigger({
+          cron: job.trigger.cron,
+        }),
+        run: async (_event, io) => {
+          // We need to cast to any so the empty payload can be parsed by the job schema.
+          // eslint-disable-next-line @typescript-eslint/consistent-type-assertions, @typescript-eslint/no-explicit-any
+          let payload = {} as any;
+
+          if (job.trigger.schema) {
+            payload = job.trigger.schema.parse(payload);
+          }
+
+          await job.handler({ payload, io: this.convertTriggerIoToJobRunIo(io) });
+        },
+      });
+    }
   }
 
   public async triggerJob(options: SimpleTriggerJobOptions): Promise<void> {
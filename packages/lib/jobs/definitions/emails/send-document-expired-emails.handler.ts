@@ -0,0 +1,133 @@
+import { createElement } from 'react';
+
+import { msg } from '@lingui/macro';
+
+import { mailer } from '@documenso/email/mailer';
+import { DocumentExpiredEmailTemplate } from '@documenso/email/templates/document-expired';
+import { prisma } from '@documenso/prisma';
+import { DocumentStatus, RecipientRole, SendStatus, SigningStatus } from '@documenso/prisma/client';
+
+import { getI18nInstance } from '../../../client-only/providers/i18n.server';
+import { NEXT_PUBLIC_WEBAPP_URL } from '../../../constants/app';
+import { FROM_ADDRESS, FROM_NAME } from '../../../constants/email';
+import { extractDerivedDocumentEmailSettings } from '../../../types/document-email';
+import { renderEmailWithI18N } from '../../../utils/render-email-with-i18n';
+import { teamGlobalSettingsToBranding } from '../../../utils/team-global-settings-to-branding';
+import { formatDocumentsPath } from '../../../utils/teams';
+import type { JobRunIO } from '../../client/_internal/job';
+import type { TSendDocumentExpiredEmailsJobDefinition } from './send-document-expired-emails';
+
+export const run = async ({
+  payload,
+  io,
+}: {
+  payload: TSendDocumentExpiredEmailsJobDefinition;
+  io: JobRunIO;
+}) => {
+  const { documentId } = payload;
+
+  const document = await prisma.document.findFirstOrThrow({
+    where: {
+      id: documentId,
+      status: DocumentStatus.EXPIRED,
+    },
+    include: {
+      user: true,
+      documentMeta: true,
+      recipients: true,
+      team: {
+        select: {
+          name: true,
+          url: true,
+          teamGlobalSettings: true,
+        },
+      },
+    },
+  });
+
+  const { documentMeta, team, user: documentOwner } = document;
+
+  const i18n = await getI18nInstance(documentMeta?.language);
+
+  const assetBaseUrl = NEXT_PUBLIC_WEBAPP_URL() || 'http://localhost:3000';
+
+  const branding = team?.teamGlobalSettings
+    ? teamGlobalSettingsToBranding(team.teamGlobalSettings)
+    : undefined;
+
+  const renderEmail = async (template: React.ReactElement) =>
+    Promise.all([
+      renderEmailWithI18N(template, { lang: documentMeta?.language, branding }),
+      renderEmailWithI18N(template, {
+        lang: documentMeta?.language,
+        branding,
+        plainText: true,
+      }),
+    ]);
+
+  await io.runTask('send-owner-document-expired-email', async () => {
+    const template = createElement(DocumentExpiredEmailTemplate, {
+      documentName: document.title,
+      assetBaseUrl,
+      documentLink: `${NEXT_PUBLIC_WEBAPP_URL()}${formatDocumentsPath(team?.url)}/${document.id}`,
+    });
+
+    const [html, text] = await renderEmail(template);
+
+    await mailer.sendMail({
+      to: {
+        name: documentOwner.name || '',
+        address: documentOwner.email,
+      },
+      from: {
+        name: FROM_NAME,
+        address: FROM_ADDRESS,
+      },
+      subject: i18n._(msg`Document "${document.title}" has expired`),
+      html,
+      text,
+    });
+  });
+
+  const isRecipientEmailEnabled = extractDerivedDocumentEmailSettings(
+    document.documentMeta,
+  ).recipientSigningRequest;
+
+  if (!isRecipientEmailEnabled) {
+    return;
+  }
+
+  // Only notify recipients who were asked to act on the document and never did.
+  const recipientsToNotify = document.recipients.filter(
+    (recipient) =>
+      recipient.sendStatus === SendStatus.SENT &&
+      recipient.signingStatus === SigningStatus.NOT_SIGNED &&
+      recipient.role !== RecipientRole.CC,
+  );
+
+  for (const recipient of recipientsToNotify) {
+    await io.runTask(`send-recipient-document-expired-email--${recipient.id}`, async () => {
+      const template = createElement(DocumentExpiredEmailTemplate, {
+        senderName: team?.name || documentOwner.name || documentOwner.email,
+        documentName: document.title,
+        assetBaseUrl,
+      });
+
+      const [html, text] = await renderEmail(template);
+
+      await mailer.sendMail({
+        to: {
+          name: recipient.name,
+          address: recipient.email,
+        },
+        from: {
+          name: FROM_NAME,
+          address: FROM_ADDRESS,
+        },
+        subject: i18n._(msg`Document "${document.title}" has expired`),
+        html,
+        text,
+      });
+    });
+  }
+};
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+import type { JobDefinition } from '../../client/_internal/job';
+
+const SEND_DOCUMENT_EXPIRED_EMAILS_JOB_DEFINITION_ID = 'send.document-expired.emails';
+
+const SEND_DOCUMENT_EXPIRED_EMAILS_JOB_DEFINITION_SCHEMA = z.object({
+  documentId: z.number(),
+});
+
+export type TSendDocumentExpiredEmailsJobDefinition = z.infer<
+  typeof SEND_DOCUMENT_EXPIRED_EMAILS_JOB_DEFINITION_SCHEMA
+>;
+
+export const SEND_DOCUMENT_EXPIRED_EMAILS_JOB_DEFINITION = {
+  id: SEND_DOCUMENT_EXPIRED_EMAILS_JOB_DEFINITION_ID,
+  name: 'Send Document Expired Emails',
+  version: '1.0.0',
+  trigger: {
+    name: SEND_DOCUMENT_EXPIRED_EMAILS_JOB_DEFINITION_ID,
+    schema: SEND_DOCUMENT_EXPIRED_EMAILS_JOB_DEFINITION_SCHEMA,
+  },
+  handler: async ({ payload, io }) => {
+    const handler = await import('./send-document-expired-emails.handler');
+
+    await handler.run({ payload, io });
+  },
+} as const satisfies JobDefinition<
+  typeof SEND_DOCUMENT_EXPIRED_EMAILS_JOB_DEFINITION_ID,
+  TSendDocumentExpiredEmailsJobDefinition
+>;
@@ -0,0 +1,207 @@
+import { createElement } from 'react';
+
+import { msg } from '@lingui/macro';
+
+import { mailer } from '@documenso/email/mailer';
+import { DocumentReminderEmailTemplate } from '@documenso/email/templates/document-reminder';
+import { prisma } from '@documenso/prisma';
+import {
+  DocumentStatus,
+  RecipientRole,
+  SigningStatus,
+  WebhookTriggerEvents,
+} from '@documenso/prisma/client';
+
+import { getI18nInstance } from '../../../client-only/providers/i18n.server';
+import { NEXT_PUBLIC_WEBAPP_URL } from '../../../constants/app';
+import { FROM_ADDRESS, FROM_NAME } from '../../../constants/email';
+import {
+  RECIPIENT_ROLES_DESCRIPTION,
+  RECIPIENT_ROLE_TO_EMAIL_TYPE,
+} from '../../../constants/recipient-roles';
+import { triggerWebhook } from '../../../server-only/webhooks/trigger/trigger-webhook';
+import { DOCUMENT_AUDIT_LOG_TYPE } from '../../../types/document-audit-logs';
+import {
+  extractDerivedDocumentReminderSettings,
+  getNextDocumentReminderDate,
+} from '../../../types/document-reminders';
+import {
+  ZWebhookDocumentReminderSchema,
+  mapDocumentToWebhookDocumentPayload,
+} from '../../../types/webhook-payload';
+import { createDocumentAuditLogData } from '../../../utils/document-audit-logs';
+import { renderCustomEmailTemplate } from '../../../utils/render-custom-email-template';
+import { renderEmailWithI18N } from '../../../utils/render-email-with-i18n';
+import { teamGlobalSettingsToBranding } from '../../../utils/team-global-settings-to-branding';
+import type { JobRunIO } from '../../client/_internal/job';
+import type { TSendDocumentReminderEmailJobDefinition } from './send-document-reminder-email';
+
+export const run = async ({
+  payload,
+  io,
+}: {
+  payload: TSendDocumentReminderEmailJobDefinition;
+  io: JobRunIO;
+}) => {
+  const { recipientId } = payload;
+
+  const recipient = await prisma.recipient.findFirst({
+    where: {
+      id: recipientId,
+      signingStatus: SigningStatus.NOT_SIGNED,
+      document: {
+        status: DocumentStatus.PENDING,
+        deletedAt: null,
+      },
+    },
+    include: {
+      document: {
+        include: {
+          documentMeta: true,
+          user: true,
+          team: {
+            select: {
+              name: true,
+              teamGlobalSettings: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  // The recipient has completed the document or the document is no longer pending.
+  if (!recipient?.document) {
+    return;
+  }
+
+  // CC recipients have nothing to action so they are never reminded.
+  if (recipient.role === RecipientRole.CC) {
+    return;
+  }
+
+  const emailType = RECIPIENT_ROLE_TO_EMAIL_TYPE[recipient.role];
+
+  const { document } = recipient;
+  const { documentMeta, team, user } = document;
+
+  const reminderSettings = extractDerivedDocumentReminderSettings(
+    documentMeta,
+    team?.teamGlobalSettings,
+  );
+
+  // Reminders have been turned off since this reminder was scheduled.
+  if (!reminderSettings) {
+    return;
+  }
+
+  const i18n = await getI18nInstance(documentMeta?.language);
+
+  const recipientActionVerb = i18n
+    ._(RECIPIENT_ROLES_DESCRIPTION[recipient.role].actionVerb)
+    .toLowerCase();
+
+  const customEmailTemplate = {
+    'signer.name': recipient.name,
+    'signer.email': recipient.email,
+    'document.name': document.title,
+  };
+
+  const emailSubject = documentMeta?.subject
+    ? renderCustomEmailTemplate(i18n._(msg`Reminder: ${documentMeta.subject}`), customEmailTemplate)
+    : i18n._(msg`Reminder: Please ${recipientActionVerb} this document`);
+
+  const template = createElement(DocumentReminderEmailTemplate, {
+    senderName: team?.name || user.name || user.email,
+    documentName: document.title,
+    signDocumentLink: `${NEXT_PUBLIC_WEBAPP_URL()}/sign/${recipient.token}`,
+    assetBaseUrl: NEXT_PUBLIC_WEBAPP_URL() || 'http://localhost:3000',
+    role: recipient.role,
+    customBody: documentMeta?.message
+      ? renderCustomEmailTemplate(documentMeta.message, customEmailTemplate)
+      : undefined,
+  });
+
+  await io.runTask('send-document-reminder-email', async () => {
+    const branding = team?.teamGlobalSettings
+      ? teamGlobalSettingsToBranding(team.teamGlobalSettings)
+      : undefined;
+
+    const [html, text] = await Promise.all([
+      renderEmailWithI18N(template, { lang: documentMeta?.language, branding }),
+      renderEmailWithI18N(template, {
+        lang: documentMeta?.language,
+        branding,
+        plainText: true,
+      }),
+    ]);
+
+    await mailer.sendMail({
+      to: {
+        name: recipient.name,
+        address: recipient.email,
+      },
+      from: {
+        name: FROM_NAME,
+        address: FROM_ADDRESS,
+      },
+      subject: emailSubject,
+      html,
+      text,
+    });
+  });
+
+  await io.runTask('update-recipient', async () => {
+    const remindersSent = recipient.remindersSent + 1;
+
+    await prisma.recipient.update({
+      where: {
+        id: recipient.id,
+      },
+      data: {
+        remindersSent,
+        nextReminderAt: getNextDocumentReminderDate(reminderSettings, remindersSent),
+      },
+    });
+  });
+
+  await io.runTask('store-audit-log', async () => {
+    await prisma.documentAuditLog.create({
+      data: createDocumentAuditLogData({
+        type: DOCUMENT_AUDIT_LOG_TYPE.EMAIL_SENT,
+        documentId: document.id,
+        data: {
+          emailType,
+          recipientId: recipient.id,
+          recipientName: recipient.name,
+          recipientEmail: recipient.email,
+          recipientRole: recipient.role,
+          isResending: true,
+          isReminder: true,
+        },
+      }),
+    });
+  });
+
+  await io.runTask('trigger-webhook', async () => {
+    const updatedDocument = await prisma.document.findFirstOrThrow({
+      where: {
+        id: document.id,
+      },
+      include: {
+        documentMeta: true,
+        recipients: true,
+      },
+    });
+
+    await triggerWebhook({
+      event: WebhookTriggerEvents.DOCUMENT_REMINDER_SENT,
+      data: ZWebhookDocumentReminderSchema.parse({
+        recipients: updatedDocument.recipients.filter(({ id }) => id === recipient.id),
+        document: mapDocumentToWebhookDocumentPayload(updatedDocument),
+      }),
+      userId: updatedDocument.userId,
+      teamId: updatedDocument.teamId ?? undefined,
+    });
+  });
+};
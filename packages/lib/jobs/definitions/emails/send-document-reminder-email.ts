@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+import type { JobDefinition } from '../../client/_internal/job';
+
+const SEND_DOCUMENT_REMINDER_EMAIL_JOB_DEFINITION_ID = 'send.document-reminder.email';
+
+const SEND_DOCUMENT_REMINDER_EMAIL_JOB_DEFINITION_SCHEMA = z.object({
+  recipientId: z.number(),
+});
+
+export type TSendDocumentReminderEmailJobDefinition = z.infer<
+  typeof SEND_DOCUMENT_REMINDER_EMAIL_JOB_DEFINITION_SCHEMA
+>;
+
+export const SEND_DOCUMENT_REMINDER_EMAIL_JOB_DEFINITION = {
+  id: SEND_DOCUMENT_REMINDER_EMAIL_JOB_DEFINITION_ID,
+  name: 'Send Document Reminder Email',
+  version: '1.0.0',
+  trigger: {
+    name: SEND_DOCUMENT_REMINDER_EMAIL_JOB_DEFINITION_ID,
+    schema: SEND_DOCUMENT_REMINDER_EMAIL_JOB_DEFINITION_SCHEMA,
+  },
+  handler: async ({ payload, io }) => {
+    const handler = await import('./send-document-reminder-email.handler');
+
+    await handler.run({ payload, io });
+  },
+} as const satisfies JobDefinition<
+  typeof SEND_DOCUMENT_REMINDER_EMAIL_JOB_DEFINITION_ID,
+  TSendDocumentReminderEmailJobDefinition
+>;
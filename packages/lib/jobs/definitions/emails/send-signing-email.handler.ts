@@ -21,6 +21,10 @@ import {
 } from '../../../constants/recipient-roles';
 import { DOCUMENT_AUDIT_LOG_TYPE } from '../../../types/document-audit-logs';
 import { extractDerivedDocumentEmailSettings } from '../../../types/document-email';
+import {
+  extractDerivedDocumentReminderSettings,
+  getNextDocumentReminderDate,
+} from '../../../types/document-reminders';
 import { createDocumentAuditLogData } from '../../../utils/document-audit-logs';
 import { renderCustomEmailTemplate } from '../../../utils/render-custom-email-template';
 import { renderEmailWithI18N } from '../../../utils/render-email-with-i18n';
@@ -190,6 +194,11 @@ export const run = async ({
       },
       data: {
         sendStatus: SendStatus.SENT,
+        remindersSent: 0,
+        nextReminderAt: getNextDocumentReminderDate(
+          extractDerivedDocumentReminderSettings(documentMeta, team?.teamGlobalSettings),
+          0,
+        ),
       },
     });
   });
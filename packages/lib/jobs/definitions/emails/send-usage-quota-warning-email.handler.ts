@@ -0,0 +1,19 @@
+import { sendUsageQuotaWarningEmail } from '@documenso/ee/server-only/limits/usage-quota-warnings';
+
+import type { JobRunIO } from '../../client/_internal/job';
+import type { TSendUsageQuotaWarningEmailJobDefinition } from './send-usage-quota-warning-email';
+
+export const run = async ({
+  payload,
+  io,
+}: {
+  payload: TSendUsageQuotaWarningEmailJobDefinition;
+  io: JobRunIO;
+}) => {
+  await io.runTask(
+    `send-usage-quota-warning-email--${payload.quotaId}_${payload.metric}`,
+    async () => {
+      await sendUsageQuotaWarningEmail(payload);
+    },
+  );
+};
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+
+import { UsageMetric } from '@documenso/prisma/client';
+
+import type { JobDefinition } from '../../client/_internal/job';
+
+const SEND_USAGE_QUOTA_WARNING_EMAIL_JOB_DEFINITION_ID = 'send.usage-quota-warning.email';
+
+const SEND_USAGE_QUOTA_WARNING_EMAIL_JOB_DEFINITION_SCHEMA = z.object({
+  quotaId: z.number(),
+  metric: z.nativeEnum(UsageMetric),
+  usage: z.number(),
+  limit: z.number(),
+});
+
+export type TSendUsageQuotaWarningEmailJobDefinition = z.infer<
+  typeof SEND_USAGE_QUOTA_WARNING_EMAIL_JOB_DEFINITION_SCHEMA
+>;
+
+export const SEND_USAGE_QUOTA_WARNING_EMAIL_JOB_DEFINITION = {
+  id: SEND_USAGE_QUOTA_WARNING_EMAIL_JOB_DEFINITION_ID,
+  name: 'Send Usage Quota Warning Email',
+  version: '1.0.0',
+  trigger: {
+    name: SEND_USAGE_QUOTA_WARNING_EMAIL_JOB_DEFINITION_ID,
+    schema: SEND_USAGE_QUOTA_WARNING_EMAIL_JOB_DEFINITION_SCHEMA,
+  },
+  handler: async ({ payload, io }) => {
+    const handler = await import('./send-usage-quota-warning-email.handler');
+
+    await handler.run({ payload, io });
+  },
+} as const satisfies JobDefinition<
+  typeof SEND_USAGE_QUOTA_WARNING_EMAIL_JOB_DEFINITION_ID,
+  TSendUsageQuotaWarningEmailJobDefinition
+>;
@@ -0,0 +1,15 @@
+import { sendWebhookDisabledEmail } from '../../../server-only/webhooks/send-webhook-disabled-email';
+import type { JobRunIO } from '../../client/_internal/job';
+import type { TSendWebhookDisabledEmailJobDefinition } from './send-webhook-disabled-email';
+
+export const run = async ({
+  payload,
+  io,
+}: {
+  payload: TSendWebhookDisabledEmailJobDefinition;
+  io: JobRunIO;
+}) => {
+  await io.runTask(`send-webhook-disabled-email--${payload.webhookId}`, async () => {
+    await sendWebhookDisabledEmail(payload);
+  });
+};
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+import type { JobDefinition } from '../../client/_internal/job';
+
+const SEND_WEBHOOK_DISABLED_EMAIL_JOB_DEFINITION_ID = 'send.webhook-disabled.email';
+
+const SEND_WEBHOOK_DISABLED_EMAIL_JOB_DEFINITION_SCHEMA = z.object({
+  webhookId: z.string(),
+});
+
+export type TSendWebhookDisabledEmailJobDefinition = z.infer<
+  typeof SEND_WEBHOOK_DISABLED_EMAIL_JOB_DEFINITION_SCHEMA
+>;
+
+export const SEND_WEBHOOK_DISABLED_EMAIL_JOB_DEFINITION = {
+  id: SEND_WEBHOOK_DISABLED_EMAIL_JOB_DEFINITION_ID,
+  name: 'Send Webhook Disabled Email',
+  version: '1.0.0',
+  trigger: {
+    name: SEND_WEBHOOK_DISABLED_EMAIL_JOB_DEFINITION_ID,
+    schema: SEND_WEBHOOK_DISABLED_EMAIL_JOB_DEFINITION_SCHEMA,
+  },
+  handler: async ({ payload, io }) => {
+    const handler = await import('./send-webhook-disabled-email.handler');
+
+    await handler.run({ payload, io });
+  },
+} as const satisfies JobDefinition<
+  typeof SEND_WEBHOOK_DISABLED_EMAIL_JOB_DEFINITION_ID,
+  TSendWebhookDisabledEmailJobDefinition
+>;
@@ -0,0 +1,123 @@
+import { prisma } from '@documenso/prisma';
+import { DocumentStatus, SigningStatus, WebhookTriggerEvents } from '@documenso/prisma/client';
+
+import { triggerWebhook } from '../../../server-only/webhooks/trigger/trigger-webhook';
+import { DOCUMENT_AUDIT_LOG_TYPE } from '../../../types/document-audit-logs';
+import {
+  ZWebhookDocumentSchema,
+  mapDocumentToWebhookDocumentPayload,
+} from '../../../types/webhook-payload';
+import { createDocumentAuditLogData } from '../../../utils/document-audit-logs';
+import { jobs } from '../../client';
+import type { JobRunIO } from '../../client/_internal/job';
+import type { TExpireDocumentsJobDefinition } from './expire-documents';
+
+/**
+ * The maximum number of documents to expire per run, anything left over is picked up by the next run.
+ */
+const EXPIRE_DOCUMENTS_BATCH_SIZE = 500;
+
+export const run = async ({ io }: { payload: TExpireDocumentsJobDefinition; io: JobRunIO }) => {
+  const now = new Date();
+
+  const documents = await prisma.document.findMany({
+    where: {
+      status: DocumentStatus.PENDING,
+      deletedAt: null,
+      expiresAt: {
+        lte: now,
+      },
+    },
+    select: {
+      id: true,
+      expiresAt: true,
+    },
+    orderBy: {
+      expiresAt: 'asc',
+    },
+    take: EXPIRE_DOCUMENTS_BATCH_SIZE,
+  });
+
+  io.logger.info(`Found ${documents.length} documents to expire`);
+
+  for (const { id: documentId, expiresAt } of documents) {
+    if (!expiresAt) {
+      continue;
+    }
+
+    const hasExpired = await io.runTask(`expire-document--${documentId}`, async () => {
+      return await prisma.$transaction(async (tx) => {
+        // Only expire documents that are still pending so a document completed in the meantime
+        // or claimed by an overlapping run is left alone.
+        const { count } = await tx.document.updateMany({
+          where: {
+            id: documentId,
+            status: DocumentStatus.PENDING,
+          },
+          data: {
+            status: DocumentStatus.EXPIRED,
+          },
+        });
+
+        if (count === 0) {
+          return false;
+        }
+
+        await tx.recipient.updateMany({
+          where: {
+            documentId,
+            signingStatus: SigningStatus.NOT_SIGNED,
+          },
+          data: {
+            expired: expiresAt,
+            nextReminderAt: null,
+          },
+        });
+
+        await tx.documentAuditLog.create({
+          data: createDocumentAuditLogData({
+            type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_EXPIRED,
+            documentId,
+            data: {
+              expiresAt: expiresAt.toISOString(),
+            },
+          }),
+        });
+
+        return true;
+      });
+    });
+
+    if (!hasExpired) {
+      continue;
+    }
+
+    await io.runTask(`send-document-expired-emails--${documentId}`, async () => {
+      await jobs.triggerJob({
+        name: 'send.document-expired.emails',
+        payload: {
+          documentId,
+        },
+      });
+    });
+
+    await io.runTask(`trigger-webhook--${documentId}`, async () => {
+      const document = await prisma.document.findFirstOrThrow({
+        where: {
+          id: documentId,
+        },
+        include: {
+          documentMeta: true,
+          recipients: true,
+        },
+      });
+
+      await triggerWebhook({
+        event: WebhookTriggerEvents.DOCUMENT_EXPIRED,
+        data: ZWebhookDocumentSchema.parse(mapDocumentToWebhookDocumentPayload(document)),
+        userId: document.userId,
+        teamId: document.teamId ?? undefined,
+      });
+    });
+  }
+};
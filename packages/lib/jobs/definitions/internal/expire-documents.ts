@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+import { type JobDefinition } from '../../client/_internal/job';
+
+const EXPIRE_DOCUMENTS_JOB_DEFINITION_ID = 'internal.expire-documents';
+
+const EXPIRE_DOCUMENTS_JOB_DEFINITION_SCHEMA = z.object({});
+
+export type TExpireDocumentsJobDefinition = z.infer<typeof EXPIRE_DOCUMENTS_JOB_DEFINITION_SCHEMA>;
+
+export const EXPIRE_DOCUMENTS_JOB_DEFINITION = {
+  id: EXPIRE_DOCUMENTS_JOB_DEFINITION_ID,
+  name: 'Expire Documents',
+  version: '1.0.0',
+  trigger: {
+    name: EXPIRE_DOCUMENTS_JOB_DEFINITION_ID,
+    schema: EXPIRE_DOCUMENTS_JOB_DEFINITION_SCHEMA,
+    cron: '*/15 * * * *',
+  },
+  handler: async ({ payload, io }) => {
+    const handler = await import('./expire-documents.handler');
+
+    await handler.run({ payload, io });
+  },
+} as const satisfies JobDefinition<
+  typeof EXPIRE_DOCUMENTS_JOB_DEFINITION_ID,
+  TExpireDocumentsJobDefinition
+>;
@@ -0,0 +1,57 @@
+import { prisma } from '@documenso/prisma';
+
+import { executeWebhook } from '../../../server-only/webhooks/trigger/execute-webhook';
+import type { JobRunIO } from '../../client/_internal/job';
+import type { TRetryWebhookCallJobDefinition } from './retry-webhook-call';
+
+export const run = async ({
+  payload,
+  io,
+}: {
+  payload: TRetryWebhookCallJobDefinition;
+  io: JobRunIO;
+}) => {
+  const { webhookCallId } = payload;
+
+  await io.runTask(`retry-webhook-call--${webhookCallId}`, async () => {
+    const webhookCall = await prisma.webhookCall.findFirst({
+      where: {
+        id: webhookCallId,
+      },
+      include: {
+        webhook: true,
+      },
+    });
+
+    // The call has already been retried or its webhook has been deleted.
+    if (!webhookCall?.nextRetryAt) {
+      return;
+    }
+
+    const { webhook, ...retryOf } = webhookCall;
+
+    // Claim the retry so it is only sent once.
+    const { count } = await prisma.webhookCall.updateMany({
+      where: {
+        id: webhookCallId,
+        nextRetryAt: {
+          not: null,
+        },
+      },
+      data: {
+        nextRetryAt: null,
+      },
+    });
+
+    if (count === 0 || !webhook.enabled) {
+      return;
+    }
+
+    await executeWebhook({
+      event: retryOf.event,
+      webhook,
+      data: null,
+      retryOf,
+    });
+  });
+};
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+import { type JobDefinition } from '../../client/_internal/job';
+
+const RETRY_WEBHOOK_CALL_JOB_DEFINITION_ID = 'internal.retry-webhook-call';
+
+const RETRY_WEBHOOK_CALL_JOB_DEFINITION_SCHEMA = z.object({
+  webhookCallId: z.string(),
+});
+
+export type TRetryWebhookCallJobDefinition = z.infer<
+  typeof RETRY_WEBHOOK_CALL_JOB_DEFINITION_SCHEMA
+>;
+
+export const RETRY_WEBHOOK_CALL_JOB_DEFINITION = {
+  id: RETRY_WEBHOOK_CALL_JOB_DEFINITION_ID,
+  name: 'Retry Webhook Call',
+  version: '1.0.0',
+  trigger: {
+    name: RETRY_WEBHOOK_CALL_JOB_DEFINITION_ID,
+    schema: RETRY_WEBHOOK_CALL_JOB_DEFINITION_SCHEMA,
+  },
+  handler: async ({ payload, io }) => {
+    const handler = await import('./retry-webhook-call.handler');
+
+    await handler.run({ payload, io });
+  },
+} as const satisfies JobDefinition<
+  typeof RETRY_WEBHOOK_CALL_JOB_DEFINITION_ID,
+  TRetryWebhookCallJobDefinition
+>;
@@ -0,0 +1,42 @@
+import { prisma } from '@documenso/prisma';
+
+import { jobs } from '../../client';
+import type { JobRunIO } from '../../client/_internal/job';
+import type { TRetryWebhookCallsJobDefinition } from './retry-webhook-calls';
+
+/**
+ * The maximum number of retries to queue per run, anything left over is picked up by the next run.
+ */
+const WEBHOOK_RETRIES_BATCH_SIZE = 500;
+
+export const run = async ({ io }: { payload: TRetryWebhookCallsJobDefinition; io: JobRunIO }) => {
+  // Calls of disabled webhooks are included so their pending retries are dropped by the retry job.
+  const webhookCalls = await prisma.webhookCall.findMany({
+    where: {
+      nextRetryAt: {
+        lte: new Date(),
+      },
+    },
+    select: {
+      id: true,
+    },
+    orderBy: {
+      nextRetryAt: 'asc',
+    },
+    take: WEBHOOK_RETRIES_BATCH_SIZE,
+  });
+
+  io.logger.info(`Found ${webhookCalls.length} webhook calls due a retry`);
+
+  for (const webhookCall of webhookCalls) {
+    // The retry job claims the call, so a call queued by overlapping runs is only sent once.
+    await io.runTask(`queue-webhook-call-retry--${webhookCall.id}`, async () => {
+      await jobs.triggerJob({
+        name: 'internal.retry-webhook-call',
+        payload: {
+          webhookCallId: webhookCall.id,
+        },
+      });
+    });
+  }
+};
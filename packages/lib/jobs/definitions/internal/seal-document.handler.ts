@@ -13,6 +13,7 @@ import { signPdf } from '@documenso/signing';
 
 import { sendCompletedEmail } from '../../../server-only/document/send-completed-email';
 import PostHogServerClient from '../../../server-only/feature-flags/get-post-hog-server-client';
+import { insertFormulaFieldValues } from '../../../server-only/field/insert-formula-field-values';
 import { getCertificatePdf } from '../../../server-only/htmltopdf/get-certificate-pdf';
 import { flattenAnnotations } from '../../../server-only/pdf/flatten-annotations';
 import { flattenForm } from '../../../server-only/pdf/flatten-form';
@@ -28,6 +29,7 @@ import { getFile } from '../../../universal/upload/get-file';
 import { putPdfFile } from '../../../universal/upload/put-file';
 import { fieldsContainUnsignedRequiredField } from '../../../utils/advanced-fields-helpers';
 import { createDocumentAuditLogData } from '../../../utils/document-audit-logs';
+import { isFieldVisible } from '../../../utils/field-conditions';
 import type { JobRunIO } from '../../client/_internal/job';
 import type { TSealDocumentJobDefinition } from './seal-document';
 
@@ -45,7 +47,9 @@ export const run = async ({
       id: documentId,
       recipients: {
         every: {
-          signingStatus: SigningStatus.SIGNED,
+          signingStatus: {
+            in: [SigningStatus.SIGNED, SigningStatus.SKIPPED],
+          },
         },
       },
     },
@@ -96,19 +100,38 @@ export const run = async ({
     },
   });
 
-  if (recipients.some((recipient) => recipient.signingStatus !== SigningStatus.SIGNED)) {
+  if (
+    recipients.some(
+      (recipient) =>
+        recipient.signingStatus !== SigningStatus.SIGNED &&
+        recipient.signingStatus !== SigningStatus.SKIPPED,
+    )
+  ) {
     throw new Error(`Document ${document.id} has unsigned recipients`);
   }
 
-  const fields = await prisma.field.findMany({
+  const documentFields = await prisma.field.findMany({
     where: {
       documentId: document.id,
+      // Fields of recipients skipped by the signing routing are left out of the sealed document.
+      NOT: {
+        recipient: {
+          signingStatus: SigningStatus.SKIPPED,
+        },
+      },
     },
     include: {
       signature: true,
     },
   });
 
+  // Formula fields are calculated from the final field values so signers can't tamper with them.
+  const fields = await insertFormulaFieldValues({
+    fields: documentFields,
+    dateFormat: document.documentMeta?.dateFormat,
+    timezone: document.documentMeta?.timezone,
+  });
+
   if (fieldsContainUnsignedRequiredField(fields)) {
     throw new Error(`Document ${document.id} has unsigned required fields`);
   }
@@ -151,7 +174,8 @@ export const run = async ({
     }
 
     for (const field of fields) {
-      if (field.inserted) {
+      // Fields hidden by their conditional logic are left out of the final document.
+      if (field.inserted && isFieldVisible(field, fields)) {
         await insertFieldInPDF(pdfDoc, field);
       }
     }
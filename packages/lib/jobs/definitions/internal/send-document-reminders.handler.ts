@@ -0,0 +1,74 @@
+import { prisma } from '@documenso/prisma';
+import { DocumentStatus, RecipientRole, SigningStatus } from '@documenso/prisma/client';
+
+import { jobs } from '../../client';
+import type { JobRunIO } from '../../client/_internal/job';
+import type { TSendDocumentRemindersJobDefinition } from './send-document-reminders';
+
+/**
+ * The maximum number of reminders to queue per run, anything left over is picked up by the next run.
+ */
+const DOCUMENT_REMINDERS_BATCH_SIZE = 500;
+
+export const run = async ({
+  io,
+}: {
+  payload: TSendDocumentRemindersJobDefinition;
+  io: JobRunIO;
+}) => {
+  const now = new Date();
+
+  // A reminder is only scheduled once the recipient has been asked to sign, so recipients that are
+  // waiting on someone earlier in the signing order are never picked up here.
+  const recipients = await prisma.recipient.findMany({
+    where: {
+      nextReminderAt: {
+        lte: now,
+      },
+      signingStatus: SigningStatus.NOT_SIGNED,
+      role: {
+        not: RecipientRole.CC,
+      },
+      document: {
+        status: DocumentStatus.PENDING,
+        deletedAt: null,
+      },
+    },
+    select: {
+      id: true,
+      nextReminderAt: true,
+    },
+    orderBy: {
+      nextReminderAt: 'asc',
+    },
+    take: DOCUMENT_REMINDERS_BATCH_SIZE,
+  });
+
+  io.logger.info(`Found ${recipients.length} recipients due a reminder`);
+
+  for (const recipient of recipients) {
+    await io.runTask(`queue-document-reminder--${recipient.id}`, async () => {
+      // Claim the reminder so overlapping runs only send it once.
+      const { count } = await prisma.recipient.updateMany({
+        where: {
+          id: recipient.id,
+          nextReminderAt: recipient.nextReminderAt,
+        },
+        data: {
+          nextReminderAt: null,
+        },
+      });
+
+      if (count === 0) {
+        return;
+      }
+
+      await jobs.triggerJob({
+        name: 'send.document-reminder.email',
+        payload: {
+          recipientId: recipient.id,
+        },
+      });
+    });
+  }
+};
@@ -0,0 +1,30 @@
+import { z } from 'zod';
+
+import { type JobDefinition } from '../../client/_internal/job';
+
+const SEND_DOCUMENT_REMINDERS_JOB_DEFINITION_ID = 'internal.send-document-reminders';
+
+const SEND_DOCUMENT_REMINDERS_JOB_DEFINITION_SCHEMA = z.object({});
+
+export type TSendDocumentRemindersJobDefinition = z.infer<
+  typeof SEND_DOCUMENT_REMINDERS_JOB_DEFINITION_SCHEMA
+>;
+
+export const SEND_DOCUMENT_REMINDERS_JOB_DEFINITION = {
+  id: SEND_DOCUMENT_REMINDERS_JOB_DEFINITION_ID,
+  name: 'Send Document Reminders',
+  version: '1.0.0',
+  trigger: {
+    name: SEND_DOCUMENT_REMINDERS_JOB_DEFINITION_ID,
+    schema: SEND_DOCUMENT_REMINDERS_JOB_DEFINITION_SCHEMA,
+    cron: '0 * * * *',
+  },
+  handler: async ({ payload, io }) => {
+    const handler = await import('./send-document-reminders.handler');
+
+    await handler.run({ payload, io });
+  },
+} as const satisfies JobDefinition<
+  typeof SEND_DOCUMENT_REMINDERS_JOB_DEFINITION_ID,
+  TSendDocumentRemindersJobDefinition
+>;
@@ -11,6 +11,7 @@ import type { GoogleProfile } from 'next-auth/providers/google';
 import GoogleProvider from 'next-auth/providers/google';
 import { env } from 'next-runtime-env';
 
+import { getSsoConnectionByEmail } from '@documenso/ee/server-only/sso/get-sso-connection-by-email';
 import { prisma } from '@documenso/prisma';
 import { IdentityProvider, UserSecurityAuditLogType } from '@documenso/prisma/client';
 
@@ -84,6 +85,12 @@ export const NEXT_AUTH_OPTIONS: AuthOptions = {
 
         const { email, password, backupCode, totpCode } = credentials;
 
+        const ssoConnection = await getSsoConnectionByEmail({ email });
+
+        if (ssoConnection?.forceSso) {
+          throw new Error(ErrorCode.SSO_REQUIRED);
+        }
+
         const user = await getUserByEmail({ email }).catch(() => {
           throw new Error(ErrorCode.INCORRECT_EMAIL_PASSWORD);
         });
@@ -506,7 +513,17 @@ export const NEXT_AUTH_OPTIONS: AuthOptions = {
       return session;
     },
 
-    async signIn({ user }) {
+    async signIn({ user, account }) {
+      // Teams can require everyone on their verified domains to sign in through their
+      // identity provider, SAML sign ins are completed through the `manual` provider.
+      if (user.email && account?.provider !== 'manual' && account?.provider !== 'credentials') {
+        const ssoConnection = await getSsoConnectionByEmail({ email: user.email });
+
+        if (ssoConnection?.forceSso) {
+          return `/signin?error=${ErrorCode.SSO_REQUIRED}`;
+        }
+      }
+
       // This statement appears above so we can stil allow `oidc` connections
       // while other signups are disabled.
       if (env('NEXT_PRIVATE_OIDC_ALLOW_SIGNUP') === 'true') {
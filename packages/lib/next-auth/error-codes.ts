@@ -21,4 +21,6 @@ export const ErrorCode = {
   MISSING_BACKUP_CODE: 'MISSING_BACKUP_CODE',
   UNVERIFIED_EMAIL: 'UNVERIFIED_EMAIL',
   ACCOUNT_DISABLED: 'ACCOUNT_DISABLED',
+  SSO_REQUIRED: 'SSO_REQUIRED',
+  SSO_SIGN_IN_FAILED: 'SSO_SIGN_IN_FAILED',
 } as const;
@@ -0,0 +1,170 @@
+import { getUsage } from '@documenso/ee/server-only/limits/usage';
+import { prisma } from '@documenso/prisma';
+import type { Prisma, UsageQuota } from '@documenso/prisma/client';
+
+import type { FindResultResponse } from '../../types/search-params';
+
+export type FindUsageOptions = {
+  type: 'team' | 'user';
+  query?: string;
+  page?: number;
+  perPage?: number;
+  /**
+   * The month to get the usage for, defaults to the current month.
+   */
+  period?: Date;
+};
+
+export const findUsage = async ({
+  type,
+  query,
+  page = 1,
+  perPage = 10,
+  period,
+}: FindUsageOptions) => {
+  const result =
+    type === 'team'
+      ? await findTeams({ query, page, perPage })
+      : await findUsers({ query, page, perPage });
+
+  const data = await Promise.all(
+    result.data.map(async (account) => ({
+      ...account,
+      usage: await getUsage({ userId: account.userId, teamId: account.teamId, period }),
+    })),
+  );
+
+  return {
+    data,
+    count: result.count,
+    currentPage: Math.max(page, 1),
+    perPage,
+    totalPages: Math.ceil(result.count / perPage),
+  } satisfies FindResultResponse<typeof data>;
+};
+
+type FindAccountsOptions = {
+  query?: string;
+  page: number;
+  perPage: number;
+};
+
+type FindAccountsResult = {
+  data: {
+    id: number;
+    name: string;
+    description: string;
+    userId: number;
+    teamId: number | null;
+    quota: UsageQuota | null;
+  }[];
+  count: number;
+};
+
+const findTeams = async ({
+  query,
+  page,
+  perPage,
+}: FindAccountsOptions): Promise<FindAccountsResult> => {
+  const termFilters: Prisma.TeamWhereInput | undefined = !query
+    ? undefined
+    : {
+        OR: [
+          {
+            name: {
+              contains: query,
+              mode: 'insensitive',
+            },
+          },
+          {
+            url: {
+              contains: query,
+              mode: 'insensitive',
+            },
+          },
+        ],
+      };
+
+  const [teams, count] = await Promise.all([
+    prisma.team.findMany({
+      where: termFilters,
+      skip: Math.max(page - 1, 0) * perPage,
+      take: perPage,
+      orderBy: {
+        name: 'asc',
+      },
+      include: {
+        usageQuota: true,
+      },
+    }),
+    prisma.team.count({
+      where: termFilters,
+    }),
+  ]);
+
+  return {
+    data: teams.map((team) => ({
+      id: team.id,
+      name: team.name,
+      description: team.url,
+      userId: team.ownerUserId,
+      teamId: team.id,
+      quota: team.usageQuota,
+    })),
+    count,
+  };
+};
+
+const findUsers = async ({
+  query,
+  page,
+  perPage,
+}: FindAccountsOptions): Promise<FindAccountsResult> => {
+  const termFilters: Prisma.UserWhereInput | undefined = !query
+    ? undefined
+    : {
+        OR: [
+          {
+            name: {
+              contains: query,
+              mode: 'insensitive',
+            },
+          },
+          {
+            email: {
+              contains: query,
+              mode: 'insensitive',
+            },
+          },
+        ],
+      };
+
+  const [users, count] = await Promise.all([
+    prisma.user.findMany({
+      where: termFilters,
+      skip: Math.max(page - 1, 0) * perPage,
+      take: perPage,
+      orderBy: {
+        email: 'asc',
+      },
+      include: {
+        usageQuota: true,
+      },
+    }),
+    prisma.user.count({
+      where: termFilters,
+    }),
+  ]);
+
+  return {
+    data: users.map((user) => ({
+      id: user.id,
+      name: user.name ?? user.email,
+      description: user.email,
+      userId: user.id,
+      teamId: null,
+      quota: user.usageQuota,
+    })),
+    count,
+  };
+};
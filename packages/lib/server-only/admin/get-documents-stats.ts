@@ -13,6 +13,8 @@ export const getDocumentStats = async () => {
     [ExtendedDocumentStatus.DRAFT]: 0,
     [ExtendedDocumentStatus.PENDING]: 0,
     [ExtendedDocumentStatus.COMPLETED]: 0,
+    [ExtendedDocumentStatus.EXPIRED]: 0,
+    [ExtendedDocumentStatus.VOIDED]: 0,
     [ExtendedDocumentStatus.ALL]: 0,
   };
 
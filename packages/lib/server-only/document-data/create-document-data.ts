@@ -1,19 +1,39 @@
 'use server';
 
+import { assertStorageQuota } from '@documenso/ee/server-only/limits/record-usage';
+import type { UsageOwnerOptions } from '@documenso/ee/server-only/limits/usage';
 import { prisma } from '@documenso/prisma';
 import type { DocumentDataType } from '@documenso/prisma/client';
 
 export type CreateDocumentDataOptions = {
   type: DocumentDataType;
   data: string;
+  /**
+   * The size of the file in bytes, used for metering storage usage.
+   */
+  size?: number;
+  /**
+   * The account the file is stored for, the file is rejected when it exceeds the storage quota.
+   */
+  owner?: UsageOwnerOptions;
 };
 
-export const createDocumentData = async ({ type, data }: CreateDocumentDataOptions) => {
+export const createDocumentData = async ({
+  type,
+  data,
+  size,
+  owner,
+}: CreateDocumentDataOptions) => {
+  if (owner && size !== undefined) {
+    await assertStorageQuota({ ...owner, size });
+  }
+
   return await prisma.documentData.create({
     data: {
       type,
       data,
       initialData: data,
+      size,
     },
   });
 };
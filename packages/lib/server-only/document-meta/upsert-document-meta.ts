@@ -8,10 +8,15 @@ import {
 } from '@documenso/lib/utils/document-audit-logs';
 import { prisma } from '@documenso/prisma';
 import type { DocumentDistributionMethod, DocumentSigningOrder } from '@documenso/prisma/client';
+import { DocumentStatus, Prisma, TeamPermission } from '@documenso/prisma/client';
 
 import type { SupportedLanguageCodes } from '../../constants/i18n';
 import { AppError, AppErrorCode } from '../../errors/app-error';
 import type { TDocumentEmailSettings } from '../../types/document-email';
+import type { TDocumentReminderSettings } from '../../types/document-reminders';
+import type { TDocumentSigningRouting } from '../../types/document-signing-routing';
+import { resetDocumentSigningRouting } from '../document/reset-document-signing-routing';
+import { assertTeamPermission } from '../team/assert-team-permission';
 
 export type CreateDocumentMetaOptions = {
   userId: number;
@@ -24,7 +29,12 @@ export type CreateDocumentMetaOptions = {
   dateFormat?: string;
   redirectUrl?: string;
   emailSettings?: TDocumentEmailSettings;
+  /**
+   * Pass `null` to fall back to the team's default reminder settings.
+   */
+  reminderSettings?: TDocumentReminderSettings | null;
   signingOrder?: DocumentSigningOrder;
+  signingRouting?: TDocumentSigningRouting;
   distributionMethod?: DocumentDistributionMethod;
   typedSignatureEnabled?: boolean;
   language?: SupportedLanguageCodes;
@@ -42,12 +52,18 @@ export const upsertDocumentMeta = async ({
   password,
   redirectUrl,
   signingOrder,
+  signingRouting,
   emailSettings,
+  reminderSettings,
   distributionMethod,
   typedSignatureEnabled,
   language,
   requestMetadata,
 }: CreateDocumentMetaOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_DOCUMENTS });
+  }
+
   const document = await prisma.document.findFirst({
     where: {
       id: documentId,
@@ -80,7 +96,9 @@ export const upsertDocumentMeta = async ({
 
   const { documentMeta: originalDocumentMeta } = document;
 
-  return await prisma.$transaction(async (tx) => {
+  const reminderSettingsValue = reminderSettings === null ? Prisma.DbNull : reminderSettings;
+
+  const upsertedDocumentMeta = await prisma.$transaction(async (tx) => {
     const upsertedDocumentMeta = await tx.documentMeta.upsert({
       where: {
         documentId,
@@ -94,7 +112,9 @@ export const upsertDocumentMeta = async ({
         documentId,
         redirectUrl,
         signingOrder,
+        signingRouting,
         emailSettings,
+        reminderSettings: reminderSettingsValue,
         distributionMethod,
         typedSignatureEnabled,
         language,
@@ -107,7 +127,9 @@ export const upsertDocumentMeta = async ({
         timezone,
         redirectUrl,
         signingOrder,
+        signingRouting,
         emailSettings,
+        reminderSettings: reminderSettingsValue,
         distributionMethod,
         typedSignatureEnabled,
         language,
@@ -131,4 +153,11 @@ export const upsertDocumentMeta = async ({
 
     return upsertedDocumentMeta;
   });
+
+  // Corrections can change the signing order or routing, so skips that no longer apply are undone.
+  if (document.status === DocumentStatus.PENDING && (signingOrder || signingRouting)) {
+    await resetDocumentSigningRouting({ documentId });
+  }
+
+  return upsertedDocumentMeta;
 };
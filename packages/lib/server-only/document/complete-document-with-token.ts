@@ -14,19 +14,27 @@ import {
 
 import { AppError, AppErrorCode } from '../../errors/app-error';
 import { jobs } from '../../jobs/client';
-import type { TRecipientActionAuth } from '../../types/document-auth';
+import type { TRecipientAccessAuth, TRecipientActionAuth } from '../../types/document-auth';
+import { DocumentAuth } from '../../types/document-auth';
 import {
   ZWebhookDocumentSchema,
+  ZWebhookRecipientEventSchema,
   mapDocumentToWebhookDocumentPayload,
+  mapRecipientToWebhookRecipientEventPayload,
 } from '../../types/webhook-payload';
+import { extractDocumentAuthMethods } from '../../utils/document-auth';
 import { getIsRecipientsTurnToSign } from '../recipient/get-is-recipient-turn';
 import { triggerWebhook } from '../webhooks/trigger/trigger-webhook';
+import { isRecipientAuthorized } from './is-recipient-authorized';
+import { resolveDocumentSigningRouting } from './resolve-document-signing-routing';
 import { sendPendingEmail } from './send-pending-email';
+import { validateAccessAuth } from './validate-access-auth';
 
 export type CompleteDocumentWithTokenOptions = {
   token: string;
   documentId: number;
   userId?: number;
+  accessAuth?: TRecipientAccessAuth;
   authOptions?: TRecipientActionAuth;
   requestMetadata?: RequestMetadata;
 };
@@ -55,6 +63,7 @@ const getDocument = async ({ token, documentId }: CompleteDocumentWithTokenOptio
 export const completeDocumentWithToken = async ({
   token,
   documentId,
+  accessAuth,
   requestMetadata,
 }: CompleteDocumentWithTokenOptions) => {
   const document = await getDocument({ token, documentId });
@@ -80,6 +89,17 @@ export const completeDocumentWithToken = async ({
     });
   }
 
+  if (recipient.signingStatus === SigningStatus.SKIPPED) {
+    throw new Error(`Recipient ${recipient.id} has been skipped`);
+  }
+
+  await validateAccessAuth({
+    documentAuthOptions: document.authOptions,
+    recipient,
+    accessAuth,
+    requestMetadata,
+  });
+
   if (document.documentMeta?.signingOrder === DocumentSigningOrder.SEQUENTIAL) {
     const isRecipientsTurn = await getIsRecipientsTurnToSign({ token: recipient.token });
 
@@ -90,35 +110,42 @@ export const completeDocumentWithToken = async ({
     }
   }
 
-  const fields = await prisma.field.findMany({
+  // All document fields are fetched since conditional logic can depend on other recipients' fields.
+  const documentFields = await prisma.field.findMany({
     where: {
       documentId: document.id,
-      recipientId: recipient.id,
     },
   });
 
-  if (fieldsContainUnsignedRequiredField(fields)) {
+  const fields = documentFields.filter((field) => field.recipientId === recipient.id);
+
+  if (fieldsContainUnsignedRequiredField(fields, documentFields)) {
     throw new Error(`Recipient ${recipient.id} has unsigned fields`);
   }
 
-  // Document reauth for completing documents is currently not required.
-
-  // const { derivedRecipientActionAuth } = extractDocumentAuthMethods({
-  //   documentAuth: document.authOptions,
-  //   recipientAuth: recipient.authOptions,
-  // });
+  // Document reauth for completing documents is currently not required, however recipients
+  // who must verify their identity can never complete the document until they are verified.
+  const { derivedRecipientActionAuth } = extractDocumentAuthMethods({
+    documentAuth: document.authOptions,
+    recipientAuth: recipient.authOptions,
+  });
 
-  // const isValid = await isRecipientAuthorized({
-  //   type: 'ACTION',
-  //   document: document,
-  //   recipient: recipient,
-  //   userId,
-  //   authOptions,
-  // });
+  if (derivedRecipientActionAuth === DocumentAuth.ID_VERIFICATION) {
+    const isVerified = await isRecipientAuthorized({
+      type: 'ACTION',
+      documentAuthOptions: document.authOptions,
+      recipient,
+      authOptions: {
+        type: DocumentAuth.ID_VERIFICATION,
+      },
+    });
 
-  // if (!isValid) {
-  //   throw new AppError(AppErrorCode.UNAUTHORIZED, 'Invalid authentication values');
-  // }
+    if (!isVerified) {
+      throw new AppError(AppErrorCode.UNAUTHORIZED, {
+        message: 'Recipient must verify their identity before completing the document',
+      });
+    }
+  }
 
   await prisma.$transaction(async (tx) => {
     await tx.recipient.update({
@@ -159,47 +186,56 @@ export const completeDocumentWithToken = async ({
     },
   });
 
+  // Skip the recipients the signing routing no longer requires and find whose turn it is next.
+  const signingRouting =
+    document.documentMeta?.signingOrder === DocumentSigningOrder.SEQUENTIAL
+      ? await resolveDocumentSigningRouting({ documentId: document.id })
+      : null;
+
   const pendingRecipients = await prisma.recipient.findMany({
     select: {
       id: true,
-      signingOrder: true,
     },
     where: {
       documentId: document.id,
       signingStatus: {
-        not: SigningStatus.SIGNED,
+        notIn: [SigningStatus.SIGNED, SigningStatus.SKIPPED],
       },
       role: {
         not: RecipientRole.CC,
       },
     },
-    // Composite sort so our next recipient is always the one with the lowest signing order or id
-    // if there is a tie.
-    orderBy: [{ signingOrder: { sort: 'asc', nulls: 'last' } }, { id: 'asc' }],
   });
 
   if (pendingRecipients.length > 0) {
     await sendPendingEmail({ documentId, recipientId: recipient.id });
 
-    if (document.documentMeta?.signingOrder === DocumentSigningOrder.SEQUENTIAL) {
-      const [nextRecipient] = pendingRecipients;
-
-      await prisma.$transaction(async (tx) => {
-        await tx.recipient.update({
-          where: { id: nextRecipient.id },
-          data: { sendStatus: SendStatus.SENT },
-        });
-
-        await jobs.triggerJob({
-          name: 'send.signing.requested.email',
-          payload: {
-            userId: document.userId,
-            documentId: document.id,
-            recipientId: nextRecipient.id,
-            requestMetadata,
-          },
-        });
-      });
+    if (signingRouting) {
+      // Recipients of a group that is already in progress have been notified before.
+      const nextRecipients = signingRouting.activeRecipients.filter(
+        (activeRecipient) => activeRecipient.sendStatus !== SendStatus.SENT,
+      );
+
+      await Promise.all(
+        nextRecipients.map(async (nextRecipient) => {
+          await prisma.$transaction(async (tx) => {
+            await tx.recipient.update({
+              where: { id: nextRecipient.id },
+              data: { sendStatus: SendStatus.SENT },
+            });
+
+            await jobs.triggerJob({
+              name: 'send.signing.requested.email',
+              payload: {
+                userId: document.userId,
+                documentId: document.id,
+                recipientId: nextRecipient.id,
+                requestMetadata,
+              },
+            });
+          });
+        }),
+      );
     }
   }
 
@@ -208,7 +244,11 @@ export const completeDocumentWithToken = async ({
       id: document.id,
       recipients: {
         every: {
-          OR: [{ signingStatus: SigningStatus.SIGNED }, { role: RecipientRole.CC }],
+          OR: [
+            { signingStatus: SigningStatus.SIGNED },
+            { signingStatus: SigningStatus.SKIPPED },
+            { role: RecipientRole.CC },
+          ],
         },
       },
     },
@@ -240,4 +280,13 @@ export const completeDocumentWithToken = async ({
     userId: updatedDocument.userId,
     teamId: updatedDocument.teamId ?? undefined,
   });
+
+  await triggerWebhook({
+    event: WebhookTriggerEvents.RECIPIENT_SIGNED,
+    data: ZWebhookRecipientEventSchema.parse(
+      mapRecipientToWebhookRecipientEventPayload(updatedDocument, recipient.id),
+    ),
+    userId: updatedDocument.userId,
+    teamId: updatedDocument.teamId ?? undefined,
+  });
 };
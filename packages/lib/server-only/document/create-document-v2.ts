@@ -14,7 +14,7 @@ import {
   SigningStatus,
   WebhookTriggerEvents,
 } from '@documenso/prisma/client';
-import { TeamMemberRole } from '@documenso/prisma/client';
+import { TeamMemberRole, TeamPermission } from '@documenso/prisma/client';
 import type { TCreateDocumentV2Request } from '@documenso/trpc/server/document-router/schema';
 
 import type { TDocumentAccessAuthTypes, TDocumentActionAuthTypes } from '../../types/document-auth';
@@ -27,6 +27,7 @@ import { getFile } from '../../universal/upload/get-file';
 import { putPdfFile } from '../../universal/upload/put-file';
 import { createDocumentAuthOptions, createRecipientAuthOptions } from '../../utils/document-auth';
 import { determineDocumentVisibility } from '../../utils/document-visibility';
+import { assertTeamPermission } from '../team/assert-team-permission';
 import { triggerWebhook } from '../webhooks/trigger/trigger-webhook';
 
 export type CreateDocumentOptions = {
@@ -56,6 +57,10 @@ export const createDocumentV2 = async ({
   meta,
   requestMetadata,
 }: CreateDocumentOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.SEND_DOCUMENTS });
+  }
+
   const { title, formValues } = data;
 
   const team = teamId
@@ -100,11 +105,14 @@ export const createDocumentV2 = async ({
 
       const normalizedPdf = await makeNormalizedPdf(Buffer.from(buffer));
 
-      const newDocumentData = await putPdfFile({
-        name: title.endsWith('.pdf') ? title : `${title}.pdf`,
-        type: 'application/pdf',
-        arrayBuffer: async () => Promise.resolve(normalizedPdf),
-      });
+      const newDocumentData = await putPdfFile(
+        {
+          name: title.endsWith('.pdf') ? title : `${title}.pdf`,
+          type: 'application/pdf',
+          arrayBuffer: async () => Promise.resolve(normalizedPdf),
+        },
+        { userId, teamId },
+      );
 
       // eslint-disable-next-line require-atomic-updates
       documentDataId = newDocumentData.id;
@@ -154,6 +162,8 @@ export const createDocumentV2 = async ({
             ...meta,
             signingOrder: meta?.signingOrder || undefined,
             emailSettings: meta?.emailSettings || undefined,
+            reminderSettings:
+              meta?.reminderSettings || team?.teamGlobalSettings?.reminderSettings || undefined,
             language: meta?.language || team?.teamGlobalSettings?.documentLanguage,
             typedSignatureEnabled:
               meta?.typedSignatureEnabled ?? team?.teamGlobalSettings?.typedSignatureEnabled,
@@ -8,7 +8,7 @@ import { createDocumentAuditLogData } from '@documenso/lib/utils/document-audit-
 import { prisma } from '@documenso/prisma';
 import { DocumentSource, WebhookTriggerEvents } from '@documenso/prisma/client';
 import type { Team, TeamGlobalSettings } from '@documenso/prisma/client';
-import { TeamMemberRole } from '@documenso/prisma/client';
+import { TeamMemberRole, TeamPermission } from '@documenso/prisma/client';
 
 import {
   ZWebhookDocumentSchema,
@@ -17,6 +17,7 @@ import {
 import { getFile } from '../../universal/upload/get-file';
 import { putPdfFile } from '../../universal/upload/put-file';
 import { determineDocumentVisibility } from '../../utils/document-visibility';
+import { assertTeamPermission } from '../team/assert-team-permission';
 import { triggerWebhook } from '../webhooks/trigger/trigger-webhook';
 
 export type CreateDocumentOptions = {
@@ -42,6 +43,10 @@ export const createDocument = async ({
   requestMetadata,
   timezone,
 }: CreateDocumentOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.SEND_DOCUMENTS });
+  }
+
   const user = await prisma.user.findFirstOrThrow({
     where: {
       id: userId,
@@ -101,11 +106,14 @@ export const createDocument = async ({
 
       const normalizedPdf = await makeNormalizedPdf(Buffer.from(buffer));
 
-      const newDocumentData = await putPdfFile({
-        name: title.endsWith('.pdf') ? title : `${title}.pdf`,
-        type: 'application/pdf',
-        arrayBuffer: async () => Promise.resolve(normalizedPdf),
-      });
+      const newDocumentData = await putPdfFile(
+        {
+          name: title.endsWith('.pdf') ? title : `${title}.pdf`,
+          type: 'application/pdf',
+          arrayBuffer: async () => Promise.resolve(normalizedPdf),
+        },
+        { userId, teamId },
+      );
 
       // eslint-disable-next-line require-atomic-updates
       documentDataId = newDocumentData.id;
@@ -130,6 +138,7 @@ export const createDocument = async ({
           create: {
             language: team?.teamGlobalSettings?.documentLanguage,
             typedSignatureEnabled: team?.teamGlobalSettings?.typedSignatureEnabled,
+            reminderSettings: team?.teamGlobalSettings?.reminderSettings || undefined,
             timezone: timezone,
           },
         },
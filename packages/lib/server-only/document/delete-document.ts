@@ -15,7 +15,12 @@ import type {
   TeamGlobalSettings,
   User,
 } from '@documenso/prisma/client';
-import { DocumentStatus, SendStatus, WebhookTriggerEvents } from '@documenso/prisma/client';
+import {
+  DocumentStatus,
+  SendStatus,
+  TeamPermission,
+  WebhookTriggerEvents,
+} from '@documenso/prisma/client';
 
 import { getI18nInstance } from '../../client-only/providers/i18n.server';
 import { NEXT_PUBLIC_WEBAPP_URL } from '../../constants/app';
@@ -31,8 +36,18 @@ import type { ApiRequestMetadata } from '../../universal/extract-request-metadat
 import { createDocumentAuditLogData } from '../../utils/document-audit-logs';
 import { renderEmailWithI18N } from '../../utils/render-email-with-i18n';
 import { teamGlobalSettingsToBranding } from '../../utils/team-global-settings-to-branding';
+import { assertTeamPermission } from '../team/assert-team-permission';
 import { triggerWebhook } from '../webhooks/trigger/trigger-webhook';
 
+/**
+ * Documents in these statuses are kept for their audit trail and only hidden when deleted.
+ */
+const SOFT_DELETED_DOCUMENT_STATUSES: DocumentStatus[] = [
+  DocumentStatus.COMPLETED,
+  DocumentStatus.EXPIRED,
+  DocumentStatus.VOIDED,
+];
+
 export type DeleteDocumentOptions = {
   id: number;
   userId: number;
@@ -92,6 +107,14 @@ export const deleteDocument = async ({
 
   // Handle hard or soft deleting the actual document if user has permission.
   if (isUserOwner || isUserTeamMember) {
+    if (document.teamId && isUserTeamMember) {
+      await assertTeamPermission({
+        userId,
+        teamId: document.teamId,
+        permission: TeamPermission.MANAGE_DOCUMENTS,
+      });
+    }
+
     await handleDocumentOwnerDelete({
       document,
       user,
@@ -162,8 +185,8 @@ const handleDocumentOwnerDelete = async ({
     return;
   }
 
-  // Soft delete completed documents.
-  if (document.status === DocumentStatus.COMPLETED) {
+  // Soft delete completed, expired and voided documents.
+  if (SOFT_DELETED_DOCUMENT_STATUSES.includes(document.status)) {
     return await prisma.$transaction(async (tx) => {
       await tx.documentAuditLog.create({
         data: createDocumentAuditLogData({
@@ -206,7 +229,7 @@ const handleDocumentOwnerDelete = async ({
       where: {
         id: document.id,
         status: {
-          not: DocumentStatus.COMPLETED,
+          notIn: SOFT_DELETED_DOCUMENT_STATUSES,
         },
       },
     });
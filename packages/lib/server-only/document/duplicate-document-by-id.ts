@@ -1,7 +1,8 @@
 import { prisma } from '@documenso/prisma';
-import { DocumentSource, type Prisma } from '@documenso/prisma/client';
+import { DocumentSource, type Prisma, TeamPermission } from '@documenso/prisma/client';
 
 import { AppError, AppErrorCode } from '../../errors/app-error';
+import { assertTeamPermission } from '../team/assert-team-permission';
 import { getDocumentWhereInput } from './get-document-by-id';
 
 export interface DuplicateDocumentOptions {
@@ -15,6 +16,10 @@ export const duplicateDocument = async ({
   userId,
   teamId,
 }: DuplicateDocumentOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_DOCUMENTS });
+  }
+
   const documentWhereInput = await getDocumentWhereInput({
     documentId,
     userId,
@@ -79,11 +79,17 @@ export const findDocumentAuditLogs = async ({
           ],
         },
       },
+      // The audit log data is stored as a serialized JSON string.
       {
         type: DOCUMENT_AUDIT_LOG_TYPE.EMAIL_SENT,
         data: {
-          path: ['isResending'],
-          equals: true,
+          contains: '"isResending":true',
+        },
+      },
+      {
+        type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_ACCESS_AUTH_FAILED,
+        data: {
+          contains: '"isLockedOut":true',
         },
       },
     ];
@@ -16,6 +16,7 @@ import { ExtendedDocumentStatus } from '@documenso/prisma/types/extended-documen
 import { DocumentVisibility } from '../../types/document-visibility';
 import { type FindResultResponse } from '../../types/search-params';
 import { maskRecipientTokensForDocument } from '../../utils/mask-recipient-tokens-for-document';
+import { getTeamMemberDocumentVisibilityRole } from '../../utils/teams';
 
 export type PeriodSelectorValue = '' | '7d' | '14d' | '30d';
 
@@ -75,6 +76,11 @@ export const findDocuments = async ({
           },
           select: {
             role: true,
+            customRole: {
+              select: {
+                permissions: true,
+              },
+            },
           },
         },
       },
@@ -83,7 +89,7 @@ export const findDocuments = async ({
 
   const orderByColumn = orderBy?.column ?? 'createdAt';
   const orderByDirection = orderBy?.direction ?? 'desc';
-  const teamMemberRole = team?.members[0].role ?? null;
+  const teamMemberRole = team ? getTeamMemberDocumentVisibilityRole(team.members[0]) : null;
 
   const searchFilter: Prisma.DocumentWhereInput = {
     OR: [
@@ -308,7 +314,11 @@ const findDocumentsFilter = (status: ExtendedDocumentStatus, user: User) => {
     }))
     .with(ExtendedDocumentStatus.INBOX, () => ({
       status: {
-        not: ExtendedDocumentStatus.DRAFT,
+        notIn: [
+          ExtendedDocumentStatus.DRAFT,
+          ExtendedDocumentStatus.EXPIRED,
+          ExtendedDocumentStatus.VOIDED,
+        ],
       },
       recipients: {
         some: {
@@ -363,6 +373,16 @@ const findDocumentsFilter = (status: ExtendedDocumentStatus, user: User) => {
         },
       ],
     }))
+    .with(ExtendedDocumentStatus.EXPIRED, () => ({
+      userId: user.id,
+      teamId: null,
+      status: ExtendedDocumentStatus.EXPIRED,
+    }))
+    .with(ExtendedDocumentStatus.VOIDED, () => ({
+      userId: user.id,
+      teamId: null,
+      status: ExtendedDocumentStatus.VOIDED,
+    }))
     .exhaustive();
 };
 
@@ -391,6 +411,14 @@ const findDocumentsFilter = (status: ExtendedDocumentStatus, user: User) => {
  * - Documents that have been sent to the team email that are completed
  * - Documents that have been sent by the team email that are completed
  *
+ * Status Expired:
+ * - Documents that belong to the team that have expired
+ * - Documents that have been sent by the team email that have expired
+ *
+ * Status Voided:
+ * - Documents that belong to the team that have been voided
+ * - Documents that have been sent by the team email that have been voided
+ *
  * @param status The status of the documents to find.
  * @param team The team to find the documents for.
  * @returns A filter which can be applied to the Prisma Document schema.
@@ -447,7 +475,11 @@ const findTeamDocumentsFilter = (
 
       return {
         status: {
-          not: ExtendedDocumentStatus.DRAFT,
+          notIn: [
+            ExtendedDocumentStatus.DRAFT,
+            ExtendedDocumentStatus.EXPIRED,
+            ExtendedDocumentStatus.VOIDED,
+          ],
         },
         recipients: {
           some: {
@@ -555,5 +587,49 @@ const findTeamDocumentsFilter = (
 
       return filter;
     })
+    .with(ExtendedDocumentStatus.EXPIRED, () => {
+      const filter: Prisma.DocumentWhereInput = {
+        status: ExtendedDocumentStatus.EXPIRED,
+        OR: [
+          {
+            teamId: team.id,
+            OR: visibilityFilters,
+          },
+        ],
+      };
+
+      if (teamEmail && filter.OR) {
+        filter.OR.push({
+          user: {
+            email: teamEmail,
+          },
+          OR: visibilityFilters,
+        });
+      }
+
+      return filter;
+    })
+    .with(ExtendedDocumentStatus.VOIDED, () => {
+      const filter: Prisma.DocumentWhereInput = {
+        status: ExtendedDocumentStatus.VOIDED,
+        OR: [
+          {
+            teamId: team.id,
+            OR: visibilityFilters,
+          },
+        ],
+      };
+
+      if (teamEmail && filter.OR) {
+        filter.OR.push({
+          user: {
+            email: teamEmail,
+          },
+          OR: visibilityFilters,
+        });
+      }
+
+      return filter;
+    })
     .exhaustive();
 };
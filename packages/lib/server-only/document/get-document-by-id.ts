@@ -6,6 +6,7 @@ import { TeamMemberRole } from '@documenso/prisma/client';
 
 import { AppError, AppErrorCode } from '../../errors/app-error';
 import { DocumentVisibility } from '../../types/document-visibility';
+import { getTeamMemberDocumentVisibilityRole } from '../../utils/teams';
 import { getTeamById } from '../team/get-team';
 
 export type GetDocumentByIdOptions = {
@@ -140,7 +141,7 @@ export const getDocumentWhereInput = async ({
   });
 
   const visibilityFilters = [
-    ...match(team.currentTeamMember?.role)
+    ...match(team.currentTeamMember && getTeamMemberDocumentVisibilityRole(team.currentTeamMember))
       .with(TeamMemberRole.ADMIN, () => [
         { visibility: DocumentVisibility.EVERYONE },
         { visibility: DocumentVisibility.MANAGER_AND_ABOVE },
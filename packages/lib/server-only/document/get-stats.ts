@@ -44,6 +44,8 @@ export const getStats = async ({ user, period, search, ...options }: GetStatsInp
     [ExtendedDocumentStatus.DRAFT]: 0,
     [ExtendedDocumentStatus.PENDING]: 0,
     [ExtendedDocumentStatus.COMPLETED]: 0,
+    [ExtendedDocumentStatus.EXPIRED]: 0,
+    [ExtendedDocumentStatus.VOIDED]: 0,
     [ExtendedDocumentStatus.INBOX]: 0,
     [ExtendedDocumentStatus.ALL]: 0,
   };
@@ -1,6 +1,7 @@
 import { verifyAuthenticationResponse } from '@simplewebauthn/server';
 import { match } from 'ts-pattern';
 
+import { SMSVerificationService } from '@documenso/ee/server-only/verification/sms-verification';
 import { prisma } from '@documenso/prisma';
 import type { Document, Recipient } from '@documenso/prisma/client';
 
@@ -8,14 +9,18 @@ import { verifyTwoFactorAuthenticationToken } from '../2fa/verify-2fa-token';
 import { AppError, AppErrorCode } from '../../errors/app-error';
 import type { TDocumentAuth, TDocumentAuthMethods } from '../../types/document-auth';
 import { DocumentAuth } from '../../types/document-auth';
+import { IdVerificationStatus } from '../../types/id-verification';
 import type { TAuthenticationResponseJSONSchema } from '../../types/webauthn';
+import type { RequestMetadata } from '../../universal/extract-request-metadata';
 import { getAuthenticatorOptions } from '../../utils/authenticator';
 import { extractDocumentAuthMethods } from '../../utils/document-auth';
+import { verifyRecipientAccessCode } from '../recipient/verify-recipient-access-code';
+import { verifyRecipientEmailVerificationCode } from '../recipient/verify-recipient-email-verification-code';
 
 type IsRecipientAuthorizedOptions = {
   type: 'ACCESS' | 'ACTION';
   documentAuthOptions: Document['authOptions'];
-  recipient: Pick<Recipient, 'authOptions' | 'email'>;
+  recipient: Pick<Recipient, 'id' | 'authOptions' | 'email'>;
 
   /**
    * The ID of the user who initiated the request.
@@ -29,6 +34,11 @@ type IsRecipientAuthorizedOptions = {
    * using the user ID.
    */
   authOptions?: TDocumentAuthMethods;
+
+  /**
+   * Used to record failed access code attempts in the audit log.
+   */
+  requestMetadata?: RequestMetadata;
 };
 
 const getUserByEmail = async (email: string) => {
@@ -54,6 +64,7 @@ export const isRecipientAuthorized = async ({
   recipient,
   userId,
   authOptions,
+  requestMetadata,
 }: IsRecipientAuthorizedOptions): Promise<boolean> => {
   const { derivedRecipientAccessAuth, derivedRecipientActionAuth } = extractDocumentAuthMethods({
     documentAuth: documentAuthOptions,
@@ -76,7 +87,54 @@ export const isRecipientAuthorized = async ({
   }
 
   // Authentication required does not match provided method.
-  if (!authOptions || authOptions.type !== authMethod || !userId) {
+  if (!authOptions || authOptions.type !== authMethod) {
+    return false;
+  }
+
+  // SMS codes are sent to the recipient's phone so they don't require an account.
+  if (authOptions.type === DocumentAuth.SMS_OTP) {
+    return await new SMSVerificationService()
+      .verifyCode({
+        recipientId: recipient.id,
+        code: authOptions.code,
+      })
+      .then(() => true)
+      .catch(() => false);
+  }
+
+  // Email codes are sent to the recipient's email address so they don't require an account.
+  if (authOptions.type === DocumentAuth.EMAIL_OTP) {
+    return await verifyRecipientEmailVerificationCode({
+      recipientId: recipient.id,
+      code: authOptions.code,
+    })
+      .then(() => true)
+      .catch(() => false);
+  }
+
+  // Access codes are shared with the recipient out-of-band by the sender.
+  if (authOptions.type === DocumentAuth.ACCESS_CODE) {
+    return await verifyRecipientAccessCode({
+      recipientId: recipient.id,
+      code: authOptions.code,
+      requestMetadata,
+    })
+      .then(() => true)
+      .catch(() => false);
+  }
+
+  // Identity documents are reviewed before signing so there is nothing to check at signing time.
+  if (authOptions.type === DocumentAuth.ID_VERIFICATION) {
+    const verification = await prisma.signerVerification.findUnique({
+      where: {
+        recipientId: recipient.id,
+      },
+    });
+
+    return verification?.idVerificationStatus === IdVerificationStatus.verified;
+  }
+
+  if (!userId) {
     return false;
   }
 
@@ -1,9 +1,11 @@
 import type { ApiRequestMetadata } from '@documenso/lib/universal/extract-request-metadata';
 import { prisma } from '@documenso/prisma';
+import { TeamPermission } from '@documenso/prisma/client';
 
 import { AppError, AppErrorCode } from '../../errors/app-error';
 import { DOCUMENT_AUDIT_LOG_TYPE } from '../../types/document-audit-logs';
 import { createDocumentAuditLogData } from '../../utils/document-audit-logs';
+import { assertTeamPermission } from '../team/assert-team-permission';
 
 export type MoveDocumentToTeamOptions = {
   documentId: number;
@@ -18,6 +20,8 @@ export const moveDocumentToTeam = async ({
   userId,
   requestMetadata,
 }: MoveDocumentToTeamOptions) => {
+  await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_DOCUMENTS });
+
   return await prisma.$transaction(async (tx) => {
     const document = await tx.document.findFirst({
       where: {
@@ -2,13 +2,15 @@ import { SigningStatus } from '@prisma/client';
 
 import { jobs } from '@documenso/lib/jobs/client';
 import { prisma } from '@documenso/prisma';
-import { WebhookTriggerEvents } from '@documenso/prisma/client';
+import { DocumentStatus, WebhookTriggerEvents } from '@documenso/prisma/client';
 
 import { AppError, AppErrorCode } from '../../errors/app-error';
 import { DOCUMENT_AUDIT_LOG_TYPE } from '../../types/document-audit-logs';
 import {
   ZWebhookDocumentSchema,
+  ZWebhookRecipientEventSchema,
   mapDocumentToWebhookDocumentPayload,
+  mapRecipientToWebhookRecipientEventPayload,
 } from '../../types/webhook-payload';
 import type { RequestMetadata } from '../../universal/extract-request-metadata';
 import { createDocumentAuditLogData } from '../../utils/document-audit-logs';
@@ -52,6 +54,12 @@ export async function rejectDocumentWithToken({
     });
   }
 
+  if (document.status !== DocumentStatus.PENDING) {
+    throw new AppError(AppErrorCode.INVALID_REQUEST, {
+      message: 'Document must be pending to be rejected',
+    });
+  }
+
   // Update the recipient status to rejected
   const [updatedRecipient] = await prisma.$transaction([
     prisma.recipient.update({
@@ -116,5 +124,14 @@ export async function rejectDocumentWithToken({
     teamId: document.teamId ?? undefined,
   });
 
+  await triggerWebhook({
+    event: WebhookTriggerEvents.RECIPIENT_REJECTED,
+    data: ZWebhookRecipientEventSchema.parse(
+      mapRecipientToWebhookRecipientEventPayload(updatedDocument, updatedRecipient.id),
+    ),
+    userId: document.userId,
+    teamId: document.teamId ?? undefined,
+  });
+
   return updatedRecipient;
 }
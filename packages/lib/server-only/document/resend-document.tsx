@@ -15,13 +15,25 @@ import { createDocumentAuditLogData } from '@documenso/lib/utils/document-audit-
 import { renderCustomEmailTemplate } from '@documenso/lib/utils/render-custom-email-template';
 import { prisma } from '@documenso/prisma';
 import type { Prisma } from '@documenso/prisma/client';
-import { DocumentStatus, RecipientRole, SigningStatus } from '@documenso/prisma/client';
+import {
+  DocumentStatus,
+  RecipientRole,
+  SigningStatus,
+  TeamPermission,
+  WebhookTriggerEvents,
+} from '@documenso/prisma/client';
 
 import { getI18nInstance } from '../../client-only/providers/i18n.server';
 import { NEXT_PUBLIC_WEBAPP_URL } from '../../constants/app';
 import { extractDerivedDocumentEmailSettings } from '../../types/document-email';
+import {
+  ZWebhookDocumentReminderSchema,
+  mapDocumentToWebhookDocumentPayload,
+} from '../../types/webhook-payload';
 import { renderEmailWithI18N } from '../../utils/render-email-with-i18n';
 import { teamGlobalSettingsToBranding } from '../../utils/team-global-settings-to-branding';
+import { assertTeamPermission } from '../team/assert-team-permission';
+import { triggerWebhook } from '../webhooks/trigger/trigger-webhook';
 import { getDocumentWhereInput } from './get-document-by-id';
 
 export type ResendDocumentOptions = {
@@ -39,6 +51,10 @@ export const resendDocument = async ({
   teamId,
   requestMetadata,
 }: ResendDocumentOptions): Promise<void> => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.SEND_DOCUMENTS });
+  }
+
   const user = await prisma.user.findFirstOrThrow({
     where: {
       id: userId,
@@ -92,6 +108,14 @@ export const resendDocument = async ({
     throw new Error('Can not send completed document');
   }
 
+  if (document.status === DocumentStatus.EXPIRED) {
+    throw new Error('Can not send expired document');
+  }
+
+  if (document.status === DocumentStatus.VOIDED) {
+    throw new Error('Can not send voided document');
+  }
+
   const isRecipientSigningRequestEmailEnabled = extractDerivedDocumentEmailSettings(
     document.documentMeta,
   ).recipientSigningRequest;
@@ -217,4 +241,34 @@ export const resendDocument = async ({
       );
     }),
   );
+
+  const remindedRecipientIds = document.recipients
+    .filter((recipient) => recipient.role !== RecipientRole.CC)
+    .map((recipient) => recipient.id);
+
+  if (remindedRecipientIds.length === 0) {
+    return;
+  }
+
+  const updatedDocument = await prisma.document.findFirstOrThrow({
+    where: {
+      id: document.id,
+    },
+    include: {
+      documentMeta: true,
+      recipients: true,
+    },
+  });
+
+  await triggerWebhook({
+    event: WebhookTriggerEvents.DOCUMENT_REMINDER_SENT,
+    data: ZWebhookDocumentReminderSchema.parse({
+      recipients: updatedDocument.recipients.filter((recipient) =>
+        remindedRecipientIds.includes(recipient.id),
+      ),
+      document: mapDocumentToWebhookDocumentPayload(updatedDocument),
+    }),
+    userId: updatedDocument.userId,
+    teamId: updatedDocument.teamId ?? undefined,
+  });
 };
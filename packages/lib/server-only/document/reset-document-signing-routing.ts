@@ -0,0 +1,57 @@
+import { prisma } from '@documenso/prisma';
+import { DocumentSigningOrder, SigningStatus } from '@documenso/prisma/client';
+
+import { extractDocumentSigningRouting } from '../../types/document-signing-routing';
+import { getUnskippedSigningRoutingRecipients } from '../../utils/document-signing-routing';
+
+export type ResetDocumentSigningRoutingOptions = {
+  documentId: number;
+};
+
+/**
+ * Undo the skips of a pending document that no longer apply after it has been corrected.
+ *
+ * Recipients the corrected routing still skips are left as they are, the routing is applied again
+ * when the corrected document is sent.
+ */
+export const resetDocumentSigningRouting = async ({
+  documentId,
+}: ResetDocumentSigningRoutingOptions) => {
+  const document = await prisma.document.findFirstOrThrow({
+    where: {
+      id: documentId,
+    },
+    include: {
+      documentMeta: true,
+      recipients: true,
+      fields: true,
+    },
+  });
+
+  const isSequential = document.documentMeta?.signingOrder === DocumentSigningOrder.SEQUENTIAL;
+
+  // Recipients are only skipped when signing in order.
+  const unskippedRecipients = isSequential
+    ? getUnskippedSigningRoutingRecipients({
+        recipients: document.recipients,
+        fields: document.fields,
+        routing: extractDocumentSigningRouting(document.documentMeta),
+      })
+    : document.recipients.filter((recipient) => recipient.signingStatus === SigningStatus.SKIPPED);
+
+  if (unskippedRecipients.length === 0) {
+    return;
+  }
+
+  await prisma.recipient.updateMany({
+    where: {
+      id: {
+        in: unskippedRecipients.map((recipient) => recipient.id),
+      },
+      signingStatus: SigningStatus.SKIPPED,
+    },
+    data: {
+      signingStatus: SigningStatus.NOT_SIGNED,
+    },
+  });
+};
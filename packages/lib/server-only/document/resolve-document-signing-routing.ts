@@ -0,0 +1,80 @@
+import { prisma } from '@documenso/prisma';
+import { SigningStatus } from '@documenso/prisma/client';
+
+import { DOCUMENT_AUDIT_LOG_TYPE } from '../../types/document-audit-logs';
+import { extractDocumentSigningRouting } from '../../types/document-signing-routing';
+import { createDocumentAuditLogData } from '../../utils/document-audit-logs';
+import { resolveSigningRouting } from '../../utils/document-signing-routing';
+
+export type ResolveDocumentSigningRoutingOptions = {
+  documentId: number;
+};
+
+/**
+ * Apply the signing routing of a document that is signed in order.
+ *
+ * Recipients that no longer have to complete the document are marked as skipped, and the
+ * recipients whose turn it is are returned so they can be asked to complete the document.
+ */
+export const resolveDocumentSigningRouting = async ({
+  documentId,
+}: ResolveDocumentSigningRoutingOptions) => {
+  const document = await prisma.document.findFirstOrThrow({
+    where: {
+      id: documentId,
+    },
+    include: {
+      documentMeta: true,
+      recipients: true,
+      fields: true,
+    },
+  });
+
+  const { skippedRecipients, activeRecipients, isComplete } = resolveSigningRouting({
+    recipients: document.recipients,
+    fields: document.fields,
+    routing: extractDocumentSigningRouting(document.documentMeta),
+  });
+
+  if (skippedRecipients.length > 0) {
+    await prisma.$transaction(async (tx) => {
+      for (const { recipient, reason } of skippedRecipients) {
+        // Only skip recipients that are still pending in case they are resolved at the same time.
+        const { count } = await tx.recipient.updateMany({
+          where: {
+            id: recipient.id,
+            signingStatus: SigningStatus.NOT_SIGNED,
+          },
+          data: {
+            signingStatus: SigningStatus.SKIPPED,
+            nextReminderAt: null,
+          },
+        });
+
+        if (count === 0) {
+          continue;
+        }
+
+        await tx.documentAuditLog.create({
+          data: createDocumentAuditLogData({
+            type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_RECIPIENT_SKIPPED,
+            documentId: document.id,
+            data: {
+              recipientEmail: recipient.email,
+              recipientName: recipient.name,
+              recipientId: recipient.id,
+              recipientRole: recipient.role,
+              reason,
+            },
+          }),
+        });
+      }
+    });
+  }
+
+  return {
+    skippedRecipients,
+    activeRecipients,
+    isComplete,
+  };
+};
@@ -22,6 +22,8 @@ import type { RequestMetadata } from '../../universal/extract-request-metadata';
 import { getFile } from '../../universal/upload/get-file';
 import { putPdfFile } from '../../universal/upload/put-file';
 import { fieldsContainUnsignedRequiredField } from '../../utils/advanced-fields-helpers';
+import { isFieldVisible } from '../../utils/field-conditions';
+import { insertFormulaFieldValues } from '../field/insert-formula-field-values';
 import { getCertificatePdf } from '../htmltopdf/get-certificate-pdf';
 import { flattenAnnotations } from '../pdf/flatten-annotations';
 import { flattenForm } from '../pdf/flatten-form';
@@ -48,7 +50,9 @@ export const sealDocument = async ({
       id: documentId,
       recipients: {
         every: {
-          signingStatus: SigningStatus.SIGNED,
+          signingStatus: {
+            in: [SigningStatus.SIGNED, SigningStatus.SKIPPED],
+          },
         },
       },
     },
@@ -83,19 +87,38 @@ export const sealDocument = async ({
     },
   });
 
-  if (recipients.some((recipient) => recipient.signingStatus !== SigningStatus.SIGNED)) {
+  if (
+    recipients.some(
+      (recipient) =>
+        recipient.signingStatus !== SigningStatus.SIGNED &&
+        recipient.signingStatus !== SigningStatus.SKIPPED,
+    )
+  ) {
     throw new Error(`Document ${document.id} has unsigned recipients`);
   }
 
-  const fields = await prisma.field.findMany({
+  const documentFields = await prisma.field.findMany({
     where: {
       documentId: document.id,
+      // Fields of recipients skipped by the signing routing are left out of the sealed document.
+      NOT: {
+        recipient: {
+          signingStatus: SigningStatus.SKIPPED,
+        },
+      },
     },
     include: {
       signature: true,
     },
   });
 
+  // Formula fields are calculated from the final field values so signers can't tamper with them.
+  const fields = await insertFormulaFieldValues({
+    fields: documentFields,
+    dateFormat: document.documentMeta?.dateFormat,
+    timezone: document.documentMeta?.timezone,
+  });
+
   if (fieldsContainUnsignedRequiredField(fields)) {
     throw new Error(`Document ${document.id} has unsigned required fields`);
   }
@@ -135,6 +158,11 @@ export const sealDocument = async ({
   }
 
   for (const field of fields) {
+    // Fields hidden by their conditional logic are left out of the final document.
+    if (!isFieldVisible(field, fields)) {
+      continue;
+    }
+
     await insertFieldInPDF(doc, field);
   }
 
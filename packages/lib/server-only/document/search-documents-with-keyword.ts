@@ -1,6 +1,9 @@
 import { match } from 'ts-pattern';
 
-import { formatDocumentsPath } from '@documenso/lib/utils/teams';
+import {
+  formatDocumentsPath,
+  getTeamMemberDocumentVisibilityRole,
+} from '@documenso/lib/utils/teams';
 import { prisma } from '@documenso/prisma';
 import { DocumentStatus } from '@documenso/prisma/client';
 import type { Document, Recipient, User } from '@documenso/prisma/client';
@@ -126,6 +129,11 @@ export const searchDocumentsWithKeyword = async ({
             },
             select: {
               role: true,
+              customRole: {
+                select: {
+                  permissions: true,
+                },
+              },
             },
           },
         },
@@ -147,12 +155,14 @@ export const searchDocumentsWithKeyword = async ({
         return true;
       }
 
-      const teamMemberRole = document.team?.members[0]?.role;
+      const teamMember = document.team?.members[0];
 
-      if (!teamMemberRole) {
+      if (!teamMember) {
         return false;
       }
 
+      const teamMemberRole = getTeamMemberDocumentVisibilityRole(teamMember);
+
       const canAccessDocument = match([document.visibility, teamMemberRole])
         .with([DocumentVisibility.EVERYONE, TeamMemberRole.ADMIN], () => true)
         .with([DocumentVisibility.EVERYONE, TeamMemberRole.MANAGER], () => true)
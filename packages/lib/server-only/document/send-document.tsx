@@ -1,3 +1,6 @@
+import { DateTime } from 'luxon';
+
+import { DocumentVersionService } from '@documenso/ee/server-only/document/document-version-service';
 import { DOCUMENT_AUDIT_LOG_TYPE } from '@documenso/lib/types/document-audit-logs';
 import type { ApiRequestMetadata } from '@documenso/lib/universal/extract-request-metadata';
 import { putPdfFile } from '@documenso/lib/universal/upload/put-file';
@@ -9,18 +12,26 @@ import {
   RecipientRole,
   SendStatus,
   SigningStatus,
+  TeamPermission,
   WebhookTriggerEvents,
 } from '@documenso/prisma/client';
 
 import { jobs } from '../../jobs/client';
 import { extractDerivedDocumentEmailSettings } from '../../types/document-email';
+import { extractDocumentSigningRouting } from '../../types/document-signing-routing';
 import {
   ZWebhookDocumentSchema,
   mapDocumentToWebhookDocumentPayload,
 } from '../../types/webhook-payload';
 import { getFile } from '../../universal/upload/get-file';
+import {
+  getSigningRoutingSteps,
+  isSigningRoutingRuleValid,
+} from '../../utils/document-signing-routing';
 import { insertFormValuesInPdf } from '../pdf/insert-form-values-in-pdf';
+import { assertTeamPermission } from '../team/assert-team-permission';
 import { triggerWebhook } from '../webhooks/trigger/trigger-webhook';
+import { resolveDocumentSigningRouting } from './resolve-document-signing-routing';
 
 export type SendDocumentOptions = {
   documentId: number;
@@ -30,6 +41,8 @@ export type SendDocumentOptions = {
   requestMetadata: ApiRequestMetadata;
 };
 
+const documentVersionService = new DocumentVersionService();
+
 export const sendDocument = async ({
   documentId,
   userId,
@@ -37,6 +50,10 @@ export const sendDocument = async ({
   sendEmail,
   requestMetadata,
 }: SendDocumentOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.SEND_DOCUMENTS });
+  }
+
   const document = await prisma.document.findUnique({
     where: {
       id: documentId,
@@ -62,6 +79,12 @@ export const sendDocument = async ({
       },
       documentMeta: true,
       documentData: true,
+      fields: true,
+      team: {
+        select: {
+          teamGlobalSettings: true,
+        },
+      },
     },
   });
 
@@ -77,19 +100,52 @@ export const sendDocument = async ({
     throw new Error('Can not send completed document');
   }
 
+  if (document.status === DocumentStatus.EXPIRED) {
+    throw new Error('Can not send expired document');
+  }
+
+  if (document.status === DocumentStatus.VOIDED) {
+    throw new Error('Can not send voided document');
+  }
+
+  if (document.expiresAt && document.expiresAt.getTime() <= Date.now()) {
+    throw new Error('Document expiry date must be in the future');
+  }
+
+  // Documents sent without an expiry date fall back to the default of the team they belong to.
+  const documentExpiryDays = document.team?.teamGlobalSettings?.documentExpiryDays;
+
+  const expiresAt =
+    document.expiresAt ??
+    (document.status === DocumentStatus.DRAFT && documentExpiryDays
+      ? DateTime.now().plus({ days: documentExpiryDays }).toJSDate()
+      : null);
+
   const signingOrder = document.documentMeta?.signingOrder || DocumentSigningOrder.PARALLEL;
 
   let recipientsToNotify = document.recipients;
 
+  let allRecipientsHaveNoActionToTake = document.recipients.every(
+    (recipient) =>
+      recipient.role === RecipientRole.CC ||
+      recipient.signingStatus === SigningStatus.SIGNED ||
+      recipient.signingStatus === SigningStatus.SKIPPED,
+  );
+
   if (signingOrder === DocumentSigningOrder.SEQUENTIAL) {
-    // Get the currently active recipient.
-    recipientsToNotify = document.recipients
-      .filter((r) => r.signingStatus === SigningStatus.NOT_SIGNED && r.role !== RecipientRole.CC)
-      .slice(0, 1);
-
-    // Secondary filter so we aren't resending if the current active recipient has already
-    // received the document.
-    recipientsToNotify.filter((r) => r.sendStatus !== SendStatus.SENT);
+    const signingRouting = extractDocumentSigningRouting(document.documentMeta);
+
+    const signingRoutingSteps = getSigningRoutingSteps(document.recipients, signingRouting);
+
+    const hasInvalidRoutingRule = signingRouting.rules.some(
+      (rule) => !isSigningRoutingRuleValid(rule, signingRoutingSteps, document.fields),
+    );
+
+    if (hasInvalidRoutingRule) {
+      throw new Error(
+        'Signing routing rules must depend on a field completed by an earlier recipient',
+      );
+    }
   }
 
   const { documentData } = document;
@@ -99,6 +155,13 @@ export const sendDocument = async ({
   }
 
   if (document.formValues) {
+    await documentVersionService.snapshotDocumentVersion({
+      documentId: document.id,
+      userId,
+      reason: 'Before inserting form values',
+      requestMetadata,
+    });
+
     const file = await getFile(documentData);
 
     const prefilled = await insertFormValuesInPdf({
@@ -131,6 +194,51 @@ export const sendDocument = async ({
     Object.assign(document, result);
   }
 
+  // Snapshot the content being sent, including any form values inserted above, before any
+  // recipient is notified.
+  if (document.status === DocumentStatus.DRAFT) {
+    await documentVersionService.snapshotDocumentVersion({
+      documentId: document.id,
+      userId,
+      reason: 'Document sent',
+      requestMetadata,
+    });
+  }
+
+  await prisma.$transaction(async (tx) => {
+    if (document.status === DocumentStatus.DRAFT) {
+      await tx.documentAuditLog.create({
+        data: createDocumentAuditLogData({
+          type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_SENT,
+          documentId: document.id,
+          metadata: requestMetadata,
+          data: {},
+        }),
+      });
+    }
+
+    await tx.document.update({
+      where: {
+        id: documentId,
+      },
+      data: {
+        status: DocumentStatus.PENDING,
+        expiresAt,
+      },
+    });
+  });
+
+  if (signingOrder === DocumentSigningOrder.SEQUENTIAL) {
+    // Get the recipients whose turn it is, skipping the recipients the routing no longer requires.
+    // This is only done once the document has been sent so a failed send doesn't skip anyone.
+    const { activeRecipients, isComplete } = await resolveDocumentSigningRouting({
+      documentId: document.id,
+    });
+
+    recipientsToNotify = activeRecipients;
+    allRecipientsHaveNoActionToTake = isComplete;
+  }
+
   // Commented out server side checks for minimum 1 signature per signer now since we need to
   // decide if we want to enforce this for API & templates.
   // const fields = await getFieldsForDocument({
@@ -183,11 +291,6 @@ export const sendDocument = async ({
     );
   }
 
-  const allRecipientsHaveNoActionToTake = document.recipients.every(
-    (recipient) =>
-      recipient.role === RecipientRole.CC || recipient.signingStatus === SigningStatus.SIGNED,
-  );
-
   if (allRecipientsHaveNoActionToTake) {
     await jobs.triggerJob({
       name: 'internal.seal-document',
@@ -209,30 +312,14 @@ export const sendDocument = async ({
     });
   }
 
-  const updatedDocument = await prisma.$transaction(async (tx) => {
-    if (document.status === DocumentStatus.DRAFT) {
-      await tx.documentAuditLog.create({
-        data: createDocumentAuditLogData({
-          type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_SENT,
-          documentId: document.id,
-          metadata: requestMetadata,
-          data: {},
-        }),
-      });
-    }
-
-    return await tx.document.update({
-      where: {
-        id: documentId,
-      },
-      data: {
-        status: DocumentStatus.PENDING,
-      },
-      include: {
-        documentMeta: true,
-        recipients: true,
-      },
-    });
+  const updatedDocument = await prisma.document.findFirstOrThrow({
+    where: {
+      id: documentId,
+    },
+    include: {
+      documentMeta: true,
+      recipients: true,
+    },
   });
 
   await triggerWebhook({
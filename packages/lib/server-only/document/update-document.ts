@@ -7,11 +7,12 @@ import type { CreateDocumentAuditLogDataResponse } from '@documenso/lib/utils/do
 import { createDocumentAuditLogData } from '@documenso/lib/utils/document-audit-logs';
 import { prisma } from '@documenso/prisma';
 import { DocumentVisibility } from '@documenso/prisma/client';
-import { DocumentStatus, TeamMemberRole } from '@documenso/prisma/client';
+import { DocumentStatus, TeamMemberRole, TeamPermission } from '@documenso/prisma/client';
 
 import { AppError, AppErrorCode } from '../../errors/app-error';
 import type { TDocumentAccessAuthTypes, TDocumentActionAuthTypes } from '../../types/document-auth';
 import { createDocumentAuthOptions, extractDocumentAuthMethods } from '../../utils/document-auth';
+import { assertTeamPermission } from '../team/assert-team-permission';
 
 export type UpdateDocumentOptions = {
   userId: number;
@@ -23,6 +24,7 @@ export type UpdateDocumentOptions = {
     visibility?: DocumentVisibility | null;
     globalAccessAuth?: TDocumentAccessAuthTypes | null;
     globalActionAuth?: TDocumentActionAuthTypes | null;
+    expiresAt?: Date | null;
   };
   requestMetadata: ApiRequestMetadata;
 };
@@ -34,6 +36,10 @@ export const updateDocument = async ({
   data,
   requestMetadata,
 }: UpdateDocumentOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_DOCUMENTS });
+  }
+
   const document = await prisma.document.findFirst({
     where: {
       id: documentId,
@@ -156,6 +162,9 @@ export const updateDocument = async ({
     documentGlobalActionAuth === undefined || documentGlobalActionAuth === newGlobalActionAuth;
   const isDocumentVisibilitySame =
     data.visibility === undefined || data.visibility === document.visibility;
+  const isExpiresAtSame =
+    data.expiresAt === undefined ||
+    (data.expiresAt?.getTime() ?? null) === (document.expiresAt?.getTime() ?? null);
 
   const auditLogs: CreateDocumentAuditLogDataResponse[] = [];
 
@@ -165,6 +174,32 @@ export const updateDocument = async ({
     });
   }
 
+  if (!isExpiresAtSame) {
+    if (document.status !== DocumentStatus.DRAFT && document.status !== DocumentStatus.PENDING) {
+      throw new AppError(AppErrorCode.INVALID_BODY, {
+        message: 'You cannot update the expiry date of a document that is no longer pending',
+      });
+    }
+
+    if (data.expiresAt && data.expiresAt.getTime() <= Date.now()) {
+      throw new AppError(AppErrorCode.INVALID_BODY, {
+        message: 'The expiry date must be in the future',
+      });
+    }
+
+    auditLogs.push(
+      createDocumentAuditLogData({
+        type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_EXPIRY_UPDATED,
+        documentId,
+        metadata: requestMetadata,
+        data: {
+          from: document.expiresAt?.toISOString() ?? null,
+          to: data.expiresAt?.toISOString() ?? null,
+        },
+      }),
+    );
+  }
+
   if (!isTitleSame) {
     auditLogs.push(
       createDocumentAuditLogData({
@@ -254,6 +289,7 @@ export const updateDocument = async ({
         title: data.title,
         externalId: data.externalId,
         visibility: data.visibility as DocumentVisibility,
+        expiresAt: data.expiresAt,
         authOptions,
       },
     });
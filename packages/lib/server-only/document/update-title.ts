@@ -4,6 +4,9 @@ import { DOCUMENT_AUDIT_LOG_TYPE } from '@documenso/lib/types/document-audit-log
 import type { RequestMetadata } from '@documenso/lib/universal/extract-request-metadata';
 import { createDocumentAuditLogData } from '@documenso/lib/utils/document-audit-logs';
 import { prisma } from '@documenso/prisma';
+import { TeamPermission } from '@documenso/prisma/client';
+
+import { assertTeamPermission } from '../team/assert-team-permission';
 
 export type UpdateTitleOptions = {
   userId: number;
@@ -20,6 +23,10 @@ export const updateTitle = async ({
   title,
   requestMetadata,
 }: UpdateTitleOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_DOCUMENTS });
+  }
+
   const user = await prisma.user.findFirstOrThrow({
     where: {
       id: userId,
@@ -0,0 +1,54 @@
+import type { Document, Recipient } from '@documenso/prisma/client';
+
+import { AppError, AppErrorCode } from '../../errors/app-error';
+import type { TRecipientAccessAuth } from '../../types/document-auth';
+import { DocumentAuth } from '../../types/document-auth';
+import type { RequestMetadata } from '../../universal/extract-request-metadata';
+import { extractDocumentAuthMethods } from '../../utils/document-auth';
+import { isRecipientAuthorized } from './is-recipient-authorized';
+
+export type ValidateAccessAuthOptions = {
+  documentAuthOptions: Document['authOptions'];
+  recipient: Pick<Recipient, 'id' | 'authOptions' | 'email'>;
+  accessAuth?: TRecipientAccessAuth;
+  requestMetadata?: RequestMetadata;
+};
+
+/**
+ * Throws an error if the recipient has not entered the code required to access the document.
+ *
+ * Codes are entered on the signing page, so actions taken with the recipient token verify the
+ * code again from the access auth cookie that was set once it was entered.
+ */
+export const validateAccessAuth = async ({
+  documentAuthOptions,
+  recipient,
+  accessAuth,
+  requestMetadata,
+}: ValidateAccessAuthOptions) => {
+  const { derivedRecipientAccessAuth } = extractDocumentAuthMethods({
+    documentAuth: documentAuthOptions,
+    recipientAuth: recipient.authOptions,
+  });
+
+  if (
+    derivedRecipientAccessAuth !== DocumentAuth.EMAIL_OTP &&
+    derivedRecipientAccessAuth !== DocumentAuth.ACCESS_CODE
+  ) {
+    return;
+  }
+
+  const isValid = await isRecipientAuthorized({
+    type: 'ACCESS',
+    documentAuthOptions,
+    recipient,
+    authOptions: accessAuth,
+    requestMetadata,
+  });
+
+  if (!isValid) {
+    throw new AppError(AppErrorCode.UNAUTHORIZED, {
+      message: 'Invalid access values',
+    });
+  }
+};
@@ -8,7 +8,7 @@ import { isRecipientAuthorized } from './is-recipient-authorized';
 
 export type ValidateFieldAuthOptions = {
   documentAuthOptions: Document['authOptions'];
-  recipient: Pick<Recipient, 'authOptions' | 'email'>;
+  recipient: Pick<Recipient, 'id' | 'authOptions' | 'email'>;
   field: Field;
   userId?: number;
   authOptions?: TRecipientActionAuth;
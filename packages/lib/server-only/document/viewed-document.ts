@@ -5,16 +5,18 @@ import { prisma } from '@documenso/prisma';
 import { ReadStatus, SendStatus } from '@documenso/prisma/client';
 import { WebhookTriggerEvents } from '@documenso/prisma/client';
 
-import type { TDocumentAccessAuthTypes } from '../../types/document-auth';
+import type { TRecipientAccessAuthTypes } from '../../types/document-auth';
 import {
   ZWebhookDocumentSchema,
+  ZWebhookRecipientEventSchema,
   mapDocumentToWebhookDocumentPayload,
+  mapRecipientToWebhookRecipientEventPayload,
 } from '../../types/webhook-payload';
 import { triggerWebhook } from '../webhooks/trigger/trigger-webhook';
 
 export type ViewedDocumentOptions = {
   token: string;
-  recipientAccessAuth?: TDocumentAccessAuthTypes | null;
+  recipientAccessAuth?: TRecipientAccessAuthTypes | null;
   requestMetadata?: RequestMetadata;
 };
 
@@ -88,4 +90,13 @@ export const viewedDocument = async ({
     userId: document.userId,
     teamId: document.teamId ?? undefined,
   });
+
+  await triggerWebhook({
+    event: WebhookTriggerEvents.RECIPIENT_VIEWED,
+    data: ZWebhookRecipientEventSchema.parse(
+      mapRecipientToWebhookRecipientEventPayload(document, recipient.id),
+    ),
+    userId: document.userId,
+    teamId: document.teamId ?? undefined,
+  });
 };
@@ -0,0 +1,241 @@
+import { createElement } from 'react';
+
+import { msg } from '@lingui/macro';
+import path from 'node:path';
+import { PDFDocument } from 'pdf-lib';
+
+import { mailer } from '@documenso/email/mailer';
+import DocumentCancelTemplate from '@documenso/email/templates/document-cancel';
+import { prisma } from '@documenso/prisma';
+import {
+  DocumentStatus,
+  SendStatus,
+  TeamPermission,
+  WebhookTriggerEvents,
+} from '@documenso/prisma/client';
+
+import { getI18nInstance } from '../../client-only/providers/i18n.server';
+import { NEXT_PUBLIC_WEBAPP_URL } from '../../constants/app';
+import { FROM_ADDRESS, FROM_NAME } from '../../constants/email';
+import { AppError, AppErrorCode } from '../../errors/app-error';
+import { DOCUMENT_AUDIT_LOG_TYPE } from '../../types/document-audit-logs';
+import { extractDerivedDocumentEmailSettings } from '../../types/document-email';
+import {
+  ZWebhookDocumentSchema,
+  mapDocumentToWebhookDocumentPayload,
+} from '../../types/webhook-payload';
+import type { ApiRequestMetadata } from '../../universal/extract-request-metadata';
+import { getFile } from '../../universal/upload/get-file';
+import { putPdfFile } from '../../universal/upload/put-file';
+import { createDocumentAuditLogData } from '../../utils/document-audit-logs';
+import { renderEmailWithI18N } from '../../utils/render-email-with-i18n';
+import { teamGlobalSettingsToBranding } from '../../utils/team-global-settings-to-branding';
+import { insertVoidWatermark } from '../pdf/insert-void-watermark';
+import { assertTeamPermission } from '../team/assert-team-permission';
+import { triggerWebhook } from '../webhooks/trigger/trigger-webhook';
+import { getDocumentWhereInput } from './get-document-by-id';
+
+export type VoidDocumentOptions = {
+  documentId: number;
+  userId: number;
+  teamId?: number;
+  reason: string;
+  requestMetadata: ApiRequestMetadata;
+};
+
+/**
+ * Void a pending document.
+ *
+ * Unlike deleting, voiding keeps the document and its audit trail so they can be used as evidence.
+ * The document can no longer be signed, every recipient link stops working and the stored PDF is
+ * watermarked so any download is clearly marked as void. The original PDF is kept as the
+ * document's initial data.
+ */
+export const voidDocument = async ({
+  documentId,
+  userId,
+  teamId,
+  reason,
+  requestMetadata,
+}: VoidDocumentOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.SEND_DOCUMENTS });
+  }
+
+  const user = await prisma.user.findFirstOrThrow({
+    where: {
+      id: userId,
+    },
+  });
+
+  const documentWhereInput = await getDocumentWhereInput({
+    documentId,
+    userId,
+    teamId,
+  });
+
+  const document = await prisma.document.findFirst({
+    where: documentWhereInput,
+    include: {
+      documentData: true,
+      documentMeta: true,
+      recipients: true,
+      team: {
+        select: {
+          name: true,
+          teamGlobalSettings: true,
+        },
+      },
+    },
+  });
+
+  if (!document) {
+    throw new AppError(AppErrorCode.NOT_FOUND, {
+      message: 'Document not found',
+    });
+  }
+
+  if (document.status !== DocumentStatus.PENDING) {
+    throw new AppError(AppErrorCode.INVALID_REQUEST, {
+      message: 'Only pending documents can be voided',
+    });
+  }
+
+  const { documentData } = document;
+
+  const pdf = await PDFDocument.load(await getFile(documentData));
+
+  await insertVoidWatermark(pdf);
+
+  const { name } = path.parse(document.title);
+
+  const { data: newData } = await putPdfFile({
+    name: `${name}_void.pdf`,
+    type: 'application/pdf',
+    arrayBuffer: async () => Promise.resolve(Buffer.from(await pdf.save())),
+  });
+
+  const voidedAt = new Date();
+
+  await prisma.$transaction(async (tx) => {
+    // Claim the document so a recipient completing it at the same time can't race the void.
+    const { count } = await tx.document.updateMany({
+      where: {
+        id: document.id,
+        status: DocumentStatus.PENDING,
+      },
+      data: {
+        status: DocumentStatus.VOIDED,
+        voidedAt,
+        voidReason: reason,
+      },
+    });
+
+    if (count === 0) {
+      throw new AppError(AppErrorCode.INVALID_REQUEST, {
+        message: 'Only pending documents can be voided',
+      });
+    }
+
+    await tx.documentData.update({
+      where: {
+        id: documentData.id,
+      },
+      data: {
+        data: newData,
+      },
+    });
+
+    // Expire every recipient link so none of them can be used to act on the document again.
+    await tx.recipient.updateMany({
+      where: {
+        documentId: document.id,
+      },
+      data: {
+        expired: voidedAt,
+        nextReminderAt: null,
+      },
+    });
+
+    await tx.documentAuditLog.create({
+      data: createDocumentAuditLogData({
+        type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_VOIDED,
+        documentId: document.id,
+        metadata: requestMetadata,
+        data: {
+          reason,
+        },
+      }),
+    });
+  });
+
+  const isDocumentCancelEmailEnabled = extractDerivedDocumentEmailSettings(
+    document.documentMeta,
+  ).documentDeleted;
+
+  if (isDocumentCancelEmailEnabled) {
+    const assetBaseUrl = NEXT_PUBLIC_WEBAPP_URL() || 'http://localhost:3000';
+
+    const branding = document.team?.teamGlobalSettings
+      ? teamGlobalSettingsToBranding(document.team.teamGlobalSettings)
+      : undefined;
+
+    const i18n = await getI18nInstance(document.documentMeta?.language);
+
+    const template = createElement(DocumentCancelTemplate, {
+      documentName: document.title,
+      inviterName: document.team?.name || user.name || undefined,
+      inviterEmail: user.email,
+      cancellationReason: reason,
+      assetBaseUrl,
+    });
+
+    const [html, text] = await Promise.all([
+      renderEmailWithI18N(template, { lang: document.documentMeta?.language, branding }),
+      renderEmailWithI18N(template, {
+        lang: document.documentMeta?.language,
+        branding,
+        plainText: true,
+      }),
+    ]);
+
+    await Promise.all(
+      document.recipients
+        .filter((recipient) => recipient.sendStatus === SendStatus.SENT)
+        .map(async (recipient) =>
+          mailer.sendMail({
+            to: {
+              address: recipient.email,
+              name: recipient.name,
+            },
+            from: {
+              name: FROM_NAME,
+              address: FROM_ADDRESS,
+            },
+            subject: i18n._(msg`Document Cancelled`),
+            html,
+            text,
+          }),
+        ),
+    );
+  }
+
+  const updatedDocument = await prisma.document.findFirstOrThrow({
+    where: {
+      id: document.id,
+    },
+    include: {
+      documentMeta: true,
+      recipients: true,
+    },
+  });
+
+  await triggerWebhook({
+    event: WebhookTriggerEvents.DOCUMENT_CANCELLED,
+    data: ZWebhookDocumentSchema.parse(mapDocumentToWebhookDocumentPayload(updatedDocument)),
+    userId: updatedDocument.userId,
+    teamId: updatedDocument.teamId ?? undefined,
+  });
+
+  return updatedDocument;
+};
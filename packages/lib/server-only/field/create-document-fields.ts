@@ -3,9 +3,11 @@ import type { TFieldAndMeta } from '@documenso/lib/types/field-meta';
 import type { ApiRequestMetadata } from '@documenso/lib/universal/extract-request-metadata';
 import { createDocumentAuditLogData } from '@documenso/lib/utils/document-audit-logs';
 import { prisma } from '@documenso/prisma';
+import { TeamPermission } from '@documenso/prisma/client';
 
 import { AppError, AppErrorCode } from '../../errors/app-error';
 import { canRecipientFieldsBeModified } from '../../utils/recipients';
+import { assertTeamPermission } from '../team/assert-team-permission';
 
 export interface CreateDocumentFieldsOptions {
   userId: number;
@@ -29,6 +31,10 @@ export const createDocumentFields = async ({
   fields,
   requestMetadata,
 }: CreateDocumentFieldsOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_DOCUMENTS });
+  }
+
   const document = await prisma.document.findFirst({
     where: {
       id: documentId,
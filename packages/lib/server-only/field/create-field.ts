@@ -2,6 +2,7 @@ import { match } from 'ts-pattern';
 
 import { prisma } from '@documenso/prisma';
 import type { FieldType, Team } from '@documenso/prisma/client';
+import { TeamPermission } from '@documenso/prisma/client';
 
 import {
   ZCheckboxFieldMeta,
@@ -13,6 +14,7 @@ import {
 import type { TFieldMetaSchema as FieldMeta } from '../../types/field-meta';
 import type { RequestMetadata } from '../../universal/extract-request-metadata';
 import { createDocumentAuditLogData } from '../../utils/document-audit-logs';
+import { assertTeamPermission } from '../team/assert-team-permission';
 
 export type CreateFieldOptions = {
   documentId: number;
@@ -43,6 +45,10 @@ export const createField = async ({
   fieldMeta,
   requestMetadata,
 }: CreateFieldOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_DOCUMENTS });
+  }
+
   const document = await prisma.document.findFirst({
     select: {
       id: true,
@@ -2,9 +2,11 @@ import { DOCUMENT_AUDIT_LOG_TYPE } from '@documenso/lib/types/document-audit-log
 import type { ApiRequestMetadata } from '@documenso/lib/universal/extract-request-metadata';
 import { createDocumentAuditLogData } from '@documenso/lib/utils/document-audit-logs';
 import { prisma } from '@documenso/prisma';
+import { TeamPermission } from '@documenso/prisma/client';
 
 import { AppError, AppErrorCode } from '../../errors/app-error';
 import { canRecipientFieldsBeModified } from '../../utils/recipients';
+import { assertTeamPermission } from '../team/assert-team-permission';
 
 export interface DeleteDocumentFieldOptions {
   userId: number;
@@ -19,6 +21,10 @@ export const deleteDocumentField = async ({
   fieldId,
   requestMetadata,
 }: DeleteDocumentFieldOptions): Promise<void> => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_DOCUMENTS });
+  }
+
   const field = await prisma.field.findFirst({
     where: {
       id: fieldId,
@@ -1,8 +1,10 @@
 import { prisma } from '@documenso/prisma';
 import type { Team } from '@documenso/prisma/client';
+import { TeamPermission } from '@documenso/prisma/client';
 
 import type { RequestMetadata } from '../../universal/extract-request-metadata';
 import { createDocumentAuditLogData } from '../../utils/document-audit-logs';
+import { assertTeamPermission } from '../team/assert-team-permission';
 
 export type DeleteFieldOptions = {
   fieldId: number;
@@ -19,6 +21,10 @@ export const deleteField = async ({
   documentId,
   requestMetadata,
 }: DeleteFieldOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_DOCUMENTS });
+  }
+
   const field = await prisma.field.delete({
     where: {
       id: fieldId,
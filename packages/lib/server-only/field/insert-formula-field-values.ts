@@ -0,0 +1,67 @@
+import { prisma } from '@documenso/prisma';
+import type { Field } from '@documenso/prisma/client';
+import { FieldType } from '@documenso/prisma/client';
+
+import { computeFormulaFieldValue } from '../../utils/field-formula';
+
+export type InsertFormulaFieldValuesOptions<T extends Field> = {
+  fields: T[];
+  dateFormat?: string | null;
+  timezone?: string | null;
+};
+
+/**
+ * Calculate and store the values of the formula fields of a document.
+ *
+ * Returns the provided fields with the calculated values applied.
+ */
+export const insertFormulaFieldValues = async <T extends Field>({
+  fields,
+  dateFormat,
+  timezone,
+}: InsertFormulaFieldValuesOptions<T>): Promise<T[]> => {
+  const formulaFields = fields.filter((field) => field.type === FieldType.FORMULA);
+
+  if (formulaFields.length === 0) {
+    return fields;
+  }
+
+  const values = new Map(
+    formulaFields.map((field) => [
+      field.id,
+      computeFormulaFieldValue(field, fields, { dateFormat, timezone }),
+    ]),
+  );
+
+  await prisma.$transaction(async (tx) => {
+    await Promise.all(
+      formulaFields.map(async (field) => {
+        const value = values.get(field.id) ?? null;
+
+        await tx.field.update({
+          where: {
+            id: field.id,
+          },
+          data: {
+            customText: value ?? '',
+            inserted: value !== null,
+          },
+        });
+      }),
+    );
+  });
+
+  return fields.map((field) => {
+    if (!values.has(field.id)) {
+      return field;
+    }
+
+    const value = values.get(field.id) ?? null;
+
+    return {
+      ...field,
+      customText: value ?? '',
+      inserted: value !== null,
+    };
+  });
+};
@@ -1,6 +1,8 @@
 'use server';
 
+import { validateAccessAuth } from '@documenso/lib/server-only/document/validate-access-auth';
 import { DOCUMENT_AUDIT_LOG_TYPE } from '@documenso/lib/types/document-audit-logs';
+import type { TRecipientAccessAuth } from '@documenso/lib/types/document-auth';
 import type { RequestMetadata } from '@documenso/lib/universal/extract-request-metadata';
 import { createDocumentAuditLogData } from '@documenso/lib/utils/document-audit-logs';
 import { prisma } from '@documenso/prisma';
@@ -9,12 +11,14 @@ import { DocumentStatus, RecipientRole, SigningStatus } from '@documenso/prisma/
 export type RemovedSignedFieldWithTokenOptions = {
   token: string;
   fieldId: number;
+  accessAuth?: TRecipientAccessAuth;
   requestMetadata?: RequestMetadata;
 };
 
 export const removeSignedFieldWithToken = async ({
   token,
   fieldId,
+  accessAuth,
   requestMetadata,
 }: RemovedSignedFieldWithTokenOptions) => {
   const recipient = await prisma.recipient.findFirstOrThrow({
@@ -64,6 +68,13 @@ export const removeSignedFieldWithToken = async ({
     throw new Error(`Recipient ${recipient.id} has already signed`);
   }
 
+  await validateAccessAuth({
+    documentAuthOptions: document.authOptions,
+    recipient,
+    accessAuth,
+    requestMetadata,
+  });
+
   // Unreachable code based on the above query but we need to satisfy TypeScript
   if (field.recipientId === null) {
     throw new Error(`Field ${fieldId} has no recipientId`);
@@ -2,6 +2,7 @@ import { isDeepEqual } from 'remeda';
 
 import { validateCheckboxField } from '@documenso/lib/advanced-fields-validation/validate-checkbox';
 import { validateDropdownField } from '@documenso/lib/advanced-fields-validation/validate-dropdown';
+import { validateFormulaField } from '@documenso/lib/advanced-fields-validation/validate-formula';
 import { validateNumberField } from '@documenso/lib/advanced-fields-validation/validate-number';
 import { validateRadioField } from '@documenso/lib/advanced-fields-validation/validate-radio';
 import { validateTextField } from '@documenso/lib/advanced-fields-validation/validate-text';
@@ -11,6 +12,7 @@ import {
   ZCheckboxFieldMeta,
   ZDropdownFieldMeta,
   ZFieldMetaSchema,
+  ZFormulaFieldMeta,
   ZNumberFieldMeta,
   ZRadioFieldMeta,
   ZTextFieldMeta,
@@ -22,10 +24,12 @@ import {
 } from '@documenso/lib/utils/document-audit-logs';
 import { prisma } from '@documenso/prisma';
 import type { Field } from '@documenso/prisma/client';
-import { FieldType } from '@documenso/prisma/client';
+import { DocumentStatus, FieldType, TeamPermission } from '@documenso/prisma/client';
 
 import { AppError, AppErrorCode } from '../../errors/app-error';
-import { canRecipientFieldsBeModified } from '../../utils/recipients';
+import { canRecipientBeModified, canRecipientFieldsBeModified } from '../../utils/recipients';
+import { resetDocumentSigningRouting } from '../document/reset-document-signing-routing';
+import { assertTeamPermission } from '../team/assert-team-permission';
 
 export interface SetFieldsForDocumentOptions {
   userId: number;
@@ -42,6 +46,10 @@ export const setFieldsForDocument = async ({
   fields,
   requestMetadata,
 }: SetFieldsForDocumentOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_DOCUMENTS });
+  }
+
   const document = await prisma.document.findFirst({
     where: {
       id: documentId,
@@ -91,6 +99,19 @@ export const setFieldsForDocument = async ({
     (existingField) => !fields.find((field) => field.id === existingField.id),
   );
 
+  // Removing a field of a recipient who has interacted with the document would discard their input.
+  const hasRemovedFieldBeenInteractedWith = removedFields.some(
+    (field) =>
+      field.inserted ||
+      (field.recipient && !canRecipientBeModified(field.recipient, existingFields)),
+  );
+
+  if (hasRemovedFieldBeenInteractedWith) {
+    throw new AppError(AppErrorCode.INVALID_REQUEST, {
+      message: 'Cannot remove a field where the recipient has already interacted with the document',
+    });
+  }
+
   const linkedFields = fields.map((field) => {
     const existing = existingFields.find((existingField) => existingField.id === field.id);
 
@@ -117,6 +138,13 @@ export const setFieldsForDocument = async ({
       });
     }
 
+    // New fields can only be added for recipients who still have to act on the document.
+    if (!existing && !canRecipientBeModified(recipient, existingFields)) {
+      throw new AppError(AppErrorCode.INVALID_REQUEST, {
+        message: 'Cannot add a field for a recipient who has already interacted with the document',
+      });
+    }
+
     return {
       ...field,
       _persisted: existing,
@@ -206,6 +234,21 @@ export const setFieldsForDocument = async ({
           }
         }
 
+        if (field.type === FieldType.FORMULA) {
+          if (field.fieldMeta) {
+            const formulaFieldParsedMeta = ZFormulaFieldMeta.parse(field.fieldMeta);
+            const errors = validateFormulaField(formulaFieldParsedMeta);
+
+            if (errors.length > 0) {
+              throw new Error(errors.join('. '));
+            }
+          } else {
+            throw new Error(
+              'To proceed further, please configure the formula for the Formula field',
+            );
+          }
+        }
+
         const upsertedField = await tx.field.upsert({
           where: {
             id: field._persisted?.id ?? -1,
@@ -320,6 +363,11 @@ export const setFieldsForDocument = async ({
     });
   }
 
+  // Corrections can change who the signing routing skips, so skips that no longer apply are undone.
+  if (document.status === DocumentStatus.PENDING) {
+    await resetDocumentSigningRouting({ documentId });
+  }
+
   // Filter out fields that have been removed or have been updated.
   const filteredFields = existingFields.filter((field) => {
     const isRemoved = removedFields.find((removedField) => removedField.id === field.id);
@@ -1,5 +1,6 @@
 import { validateCheckboxField } from '@documenso/lib/advanced-fields-validation/validate-checkbox';
 import { validateDropdownField } from '@documenso/lib/advanced-fields-validation/validate-dropdown';
+import { validateFormulaField } from '@documenso/lib/advanced-fields-validation/validate-formula';
 import { validateNumberField } from '@documenso/lib/advanced-fields-validation/validate-number';
 import { validateRadioField } from '@documenso/lib/advanced-fields-validation/validate-radio';
 import { validateTextField } from '@documenso/lib/advanced-fields-validation/validate-text';
@@ -8,6 +9,7 @@ import {
   ZCheckboxFieldMeta,
   ZDropdownFieldMeta,
   ZFieldMetaSchema,
+  ZFormulaFieldMeta,
   ZNumberFieldMeta,
   ZRadioFieldMeta,
   ZTextFieldMeta,
@@ -149,6 +151,17 @@ export const setFieldsForTemplate = async ({
         }
       }
 
+      if (field.type === FieldType.FORMULA) {
+        if (!field.fieldMeta) {
+          throw new Error('Formula field is missing required metadata');
+        }
+        const formulaFieldParsedMeta = ZFormulaFieldMeta.parse(field.fieldMeta);
+        const errors = validateFormulaField(formulaFieldParsedMeta);
+        if (errors.length > 0) {
+          throw new Error(errors.join('. '));
+        }
+      }
+
       // Proceed with upsert operation
       return prisma.field.upsert({
         where: {
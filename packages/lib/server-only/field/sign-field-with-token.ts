@@ -15,7 +15,7 @@ import { DocumentStatus, FieldType, RecipientRole, SigningStatus } from '@docume
 import { DEFAULT_DOCUMENT_DATE_FORMAT } from '../../constants/date-formats';
 import { DEFAULT_DOCUMENT_TIME_ZONE } from '../../constants/time-zones';
 import { DOCUMENT_AUDIT_LOG_TYPE } from '../../types/document-audit-logs';
-import type { TRecipientActionAuth } from '../../types/document-auth';
+import type { TRecipientAccessAuth, TRecipientActionAuth } from '../../types/document-auth';
 import {
   ZCheckboxFieldMeta,
   ZDropdownFieldMeta,
@@ -25,6 +25,7 @@ import {
 } from '../../types/field-meta';
 import type { RequestMetadata } from '../../universal/extract-request-metadata';
 import { createDocumentAuditLogData } from '../../utils/document-audit-logs';
+import { validateAccessAuth } from '../document/validate-access-auth';
 import { validateFieldAuth } from '../document/validate-field-auth';
 
 export type SignFieldWithTokenOptions = {
@@ -33,6 +34,7 @@ export type SignFieldWithTokenOptions = {
   value: string;
   isBase64?: boolean;
   userId?: number;
+  accessAuth?: TRecipientAccessAuth;
   authOptions?: TRecipientActionAuth;
   requestMetadata?: RequestMetadata;
 };
@@ -53,6 +55,7 @@ export const signFieldWithToken = async ({
   value,
   isBase64,
   userId,
+  accessAuth,
   authOptions,
   requestMetadata,
 }: SignFieldWithTokenOptions) => {
@@ -115,10 +118,22 @@ export const signFieldWithToken = async ({
     throw new Error(`Recipient ${recipient.id} has already signed`);
   }
 
+  if (
+    recipient.signingStatus === SigningStatus.SKIPPED ||
+    field.recipient.signingStatus === SigningStatus.SKIPPED
+  ) {
+    throw new Error(`Recipient ${recipient.id} has been skipped`);
+  }
+
   if (field.inserted) {
     throw new Error(`Field ${fieldId} has already been inserted`);
   }
 
+  // Formula fields are calculated when the document is sealed so signers can't tamper with them.
+  if (field.type === FieldType.FORMULA) {
+    throw new Error(`Field ${fieldId} is calculated automatically and cannot be signed`);
+  }
+
   // Unreachable code based on the above query but we need to satisfy TypeScript
   if (field.recipientId === null) {
     throw new Error(`Field ${fieldId} has no recipientId`);
@@ -171,6 +186,13 @@ export const signFieldWithToken = async ({
     }
   }
 
+  await validateAccessAuth({
+    documentAuthOptions: document.authOptions,
+    recipient,
+    accessAuth,
+    requestMetadata,
+  });
+
   const derivedRecipientActionAuth = await validateFieldAuth({
     documentAuthOptions: document.authOptions,
     recipient,
@@ -282,6 +304,7 @@ export const signFieldWithToken = async ({
               FieldType.RADIO,
               FieldType.CHECKBOX,
               FieldType.DROPDOWN,
+              FieldType.FORMULA,
               (type) => ({
                 type,
                 data: updatedField.customText,
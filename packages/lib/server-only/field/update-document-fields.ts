@@ -7,9 +7,11 @@ import {
 } from '@documenso/lib/utils/document-audit-logs';
 import { prisma } from '@documenso/prisma';
 import type { FieldType } from '@documenso/prisma/client';
+import { TeamPermission } from '@documenso/prisma/client';
 
 import { AppError, AppErrorCode } from '../../errors/app-error';
 import { canRecipientFieldsBeModified } from '../../utils/recipients';
+import { assertTeamPermission } from '../team/assert-team-permission';
 
 export interface UpdateDocumentFieldsOptions {
   userId: number;
@@ -35,6 +37,10 @@ export const updateDocumentFields = async ({
   fields,
   requestMetadata,
 }: UpdateDocumentFieldsOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_DOCUMENTS });
+  }
+
   const document = await prisma.document.findFirst({
     where: {
       id: documentId,
@@ -1,10 +1,12 @@
 import { type TFieldMetaSchema as FieldMeta } from '@documenso/lib/types/field-meta';
 import { prisma } from '@documenso/prisma';
 import type { FieldType, Team } from '@documenso/prisma/client';
+import { TeamPermission } from '@documenso/prisma/client';
 
 import { DOCUMENT_AUDIT_LOG_TYPE } from '../../types/document-audit-logs';
 import type { RequestMetadata } from '../../universal/extract-request-metadata';
 import { createDocumentAuditLogData, diffFieldChanges } from '../../utils/document-audit-logs';
+import { assertTeamPermission } from '../team/assert-team-permission';
 
 export type UpdateFieldOptions = {
   fieldId: number;
@@ -37,6 +39,10 @@ export const updateField = async ({
   requestMetadata,
   fieldMeta,
 }: UpdateFieldOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_DOCUMENTS });
+  }
+
   if (type === 'FREE_SIGNATURE') {
     throw new Error('Cannot update a FREE_SIGNATURE field');
   }
@@ -0,0 +1,64 @@
+import { prisma } from '@documenso/prisma';
+
+import { OAUTH_AUTHORIZATION_CODE_EXPIRY } from '../../constants/oauth';
+import { AppError, AppErrorCode } from '../../errors/app-error';
+import { alphaid } from '../../universal/id';
+import { hashString } from '../auth/hash';
+import type { GetOAuthAuthorizationRequestOptions } from './get-oauth-authorization-request';
+import { getOAuthAuthorizationRequest } from './get-oauth-authorization-request';
+
+export type CreateOAuthAuthorizationCodeOptions = GetOAuthAuthorizationRequestOptions & {
+  userId: number;
+  state?: string;
+};
+
+/**
+ * Grant the application access on behalf of the user, returning the URL to redirect the user to.
+ */
+export const createOAuthAuthorizationCode = async ({
+  userId,
+  state,
+  ...options
+}: CreateOAuthAuthorizationCodeOptions) => {
+  const { client, redirectUri, codeChallenge, scopes } =
+    await getOAuthAuthorizationRequest(options);
+
+  const teamMember = await prisma.teamMember.findUnique({
+    where: {
+      userId_teamId: {
+        userId,
+        teamId: client.team.id,
+      },
+    },
+  });
+
+  if (!teamMember) {
+    throw new AppError(AppErrorCode.UNAUTHORIZED, {
+      message: 'You must be a member of the team to authorize this application',
+    });
+  }
+
+  const code = alphaid(32);
+
+  await prisma.oAuthAuthorizationCode.create({
+    data: {
+      code: hashString(code),
+      clientId: client.id,
+      userId,
+      redirectUri,
+      scopes,
+      codeChallenge,
+      expiresAt: new Date(Date.now() + OAUTH_AUTHORIZATION_CODE_EXPIRY),
+    },
+  });
+
+  const url = new URL(redirectUri);
+
+  url.searchParams.set('code', code);
+
+  if (state) {
+    url.searchParams.set('state', state);
+  }
+
+  return url.toString();
+};
@@ -0,0 +1,46 @@
+import { prisma } from '@documenso/prisma';
+import type { ApiTokenScope } from '@documenso/prisma/client';
+import { TeamPermission } from '@documenso/prisma/client';
+
+import { OAUTH_CLIENT_ID_PREFIX, OAUTH_CLIENT_SECRET_PREFIX } from '../../constants/oauth';
+import { alphaid } from '../../universal/id';
+import { hashString } from '../auth/hash';
+import { assertTeamPermission } from '../team/assert-team-permission';
+
+export type CreateOAuthClientOptions = {
+  userId: number;
+  teamId: number;
+  name: string;
+  redirectUris: string[];
+  scopes: ApiTokenScope[];
+};
+
+export const createOAuthClient = async ({
+  userId,
+  teamId,
+  name,
+  redirectUris,
+  scopes,
+}: CreateOAuthClientOptions) => {
+  await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_API_TOKENS });
+
+  const clientSecret = `${OAUTH_CLIENT_SECRET_PREFIX}${alphaid(32)}`;
+
+  const client = await prisma.oAuthClient.create({
+    data: {
+      clientId: `${OAUTH_CLIENT_ID_PREFIX}${alphaid(16)}`,
+      clientSecret: hashString(clientSecret),
+      name,
+      redirectUris,
+      scopes,
+      teamId,
+    },
+  });
+
+  return {
+    id: client.id,
+    clientId: client.clientId,
+    // The secret is only returned once, only the hash is stored.
+    clientSecret,
+  };
+};
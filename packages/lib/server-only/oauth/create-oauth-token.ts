@@ -0,0 +1,162 @@
+import { prisma } from '@documenso/prisma';
+import type { ApiTokenScope } from '@documenso/prisma/client';
+
+import {
+  OAUTH_ACCESS_TOKEN_EXPIRY,
+  OAUTH_ACCESS_TOKEN_PREFIX,
+  OAUTH_REFRESH_TOKEN_EXPIRY,
+  OAUTH_REFRESH_TOKEN_PREFIX,
+} from '../../constants/oauth';
+import { AppError, AppErrorCode } from '../../errors/app-error';
+import { alphaid } from '../../universal/id';
+import { hashString } from '../auth/hash';
+import { formatOAuthScopes, verifyOAuthCodeChallenge } from './utils';
+
+type OAuthClientCredentials = {
+  clientId: string;
+  clientSecret: string;
+};
+
+const authenticateOAuthClient = async ({ clientId, clientSecret }: OAuthClientCredentials) => {
+  const client = await prisma.oAuthClient.findUnique({
+    where: {
+      clientId,
+    },
+  });
+
+  if (!client || client.clientSecret !== hashString(clientSecret)) {
+    throw new AppError(AppErrorCode.UNAUTHORIZED, {
+      message: 'Invalid client credentials',
+    });
+  }
+
+  return client;
+};
+
+type CreateOAuthTokenOptions = {
+  clientId: number;
+  userId: number;
+  scopes: ApiTokenScope[];
+};
+
+const createOAuthToken = async ({ clientId, userId, scopes }: CreateOAuthTokenOptions) => {
+  const accessToken = `${OAUTH_ACCESS_TOKEN_PREFIX}${alphaid(32)}`;
+  const refreshToken = `${OAUTH_REFRESH_TOKEN_PREFIX}${alphaid(32)}`;
+
+  await prisma.oAuthToken.create({
+    data: {
+      accessToken: hashString(accessToken),
+      refreshToken: hashString(refreshToken),
+      accessTokenExpiresAt: new Date(Date.now() + OAUTH_ACCESS_TOKEN_EXPIRY),
+      refreshTokenExpiresAt: new Date(Date.now() + OAUTH_REFRESH_TOKEN_EXPIRY),
+      scopes,
+      clientId,
+      userId,
+    },
+  });
+
+  return {
+    accessToken,
+    refreshToken,
+    expiresIn: Math.floor(OAUTH_ACCESS_TOKEN_EXPIRY / 1000),
+    scope: formatOAuthScopes(scopes),
+  };
+};
+
+export type ExchangeOAuthAuthorizationCodeOptions = OAuthClientCredentials & {
+  code: string;
+  redirectUri: string;
+  codeVerifier: string;
+};
+
+/**
+ * Exchange an authorization code for an access and refresh token, the code can only be used once.
+ */
+export const exchangeOAuthAuthorizationCode = async ({
+  code,
+  redirectUri,
+  codeVerifier,
+  ...credentials
+}: ExchangeOAuthAuthorizationCodeOptions) => {
+  const client = await authenticateOAuthClient(credentials);
+
+  const authorizationCode = await prisma.oAuthAuthorizationCode
+    .delete({
+      where: {
+        code: hashString(code),
+        clientId: client.id,
+      },
+    })
+    .catch(() => null);
+
+  if (!authorizationCode) {
+    throw new AppError(AppErrorCode.NOT_FOUND, {
+      message: 'Invalid authorization code',
+    });
+  }
+
+  if (authorizationCode.expiresAt < new Date()) {
+    throw new AppError(AppErrorCode.EXPIRED_CODE, {
+      message: 'The authorization code has expired',
+    });
+  }
+
+  if (authorizationCode.redirectUri !== redirectUri) {
+    throw new AppError(AppErrorCode.INVALID_REQUEST, {
+      message: 'The redirect URI does not match the authorization request',
+    });
+  }
+
+  if (!verifyOAuthCodeChallenge(codeVerifier, authorizationCode.codeChallenge)) {
+    throw new AppError(AppErrorCode.INVALID_REQUEST, {
+      message: 'Invalid code verifier',
+    });
+  }
+
+  return await createOAuthToken({
+    clientId: client.id,
+    userId: authorizationCode.userId,
+    scopes: authorizationCode.scopes,
+  });
+};
+
+export type RefreshOAuthTokenOptions = OAuthClientCredentials & {
+  refreshToken: string;
+};
+
+/**
+ * Issue a new access token, the refresh token is rotated and can only be used once.
+ */
+export const refreshOAuthToken = async ({
+  refreshToken,
+  ...credentials
+}: RefreshOAuthTokenOptions) => {
+  const client = await authenticateOAuthClient(credentials);
+
+  const token = await prisma.oAuthToken
+    .delete({
+      where: {
+        refreshToken: hashString(refreshToken),
+        clientId: client.id,
+      },
+    })
+    .catch(() => null);
+
+  if (!token) {
+    throw new AppError(AppErrorCode.NOT_FOUND, {
+      message: 'Invalid refresh token',
+    });
+  }
+
+  if (token.refreshTokenExpiresAt < new Date()) {
+    throw new AppError(AppErrorCode.EXPIRED_CODE, {
+      message: 'The refresh token has expired',
+    });
+  }
+
+  return await createOAuthToken({
+    clientId: client.id,
+    userId: token.userId,
+    scopes: token.scopes,
+  });
+};
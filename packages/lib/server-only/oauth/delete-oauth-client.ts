@@ -0,0 +1,24 @@
+import { prisma } from '@documenso/prisma';
+import { TeamPermission } from '@documenso/prisma/client';
+
+import { assertTeamPermission } from '../team/assert-team-permission';
+
+export type DeleteOAuthClientOptions = {
+  id: number;
+  userId: number;
+  teamId: number;
+};
+
+/**
+ * Delete an OAuth client, revoking every token issued to it.
+ */
+export const deleteOAuthClient = async ({ id, userId, teamId }: DeleteOAuthClientOptions) => {
+  await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_API_TOKENS });
+
+  await prisma.oAuthClient.delete({
+    where: {
+      id,
+      teamId,
+    },
+  });
+};
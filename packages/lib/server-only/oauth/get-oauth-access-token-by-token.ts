@@ -0,0 +1,43 @@
+import { prisma } from '@documenso/prisma';
+
+import { hashString } from '../auth/hash';
+
+export const getOAuthAccessTokenByToken = async ({ token }: { token: string }) => {
+  const accessToken = await prisma.oAuthToken.findUnique({
+    where: {
+      accessToken: hashString(token),
+    },
+    include: {
+      user: true,
+      client: {
+        include: {
+          team: true,
+        },
+      },
+    },
+  });
+
+  if (!accessToken) {
+    throw new Error('Invalid token');
+  }
+
+  if (accessToken.accessTokenExpiresAt < new Date()) {
+    throw new Error('Expired token');
+  }
+
+  // Access is revoked once the user leaves the team the application belongs to.
+  const teamMember = await prisma.teamMember.findUnique({
+    where: {
+      userId_teamId: {
+        userId: accessToken.userId,
+        teamId: accessToken.client.teamId,
+      },
+    },
+  });
+
+  if (!teamMember) {
+    throw new Error('Invalid token');
+  }
+
+  return accessToken;
+};
@@ -0,0 +1,91 @@
+import { prisma } from '@documenso/prisma';
+
+import { OAUTH_CODE_CHALLENGE_METHOD } from '../../constants/oauth';
+import { AppError, AppErrorCode } from '../../errors/app-error';
+import { parseOAuthScopes } from './utils';
+
+export type GetOAuthAuthorizationRequestOptions = {
+  clientId: string;
+  redirectUri: string;
+  responseType: string;
+  scope: string;
+  codeChallenge?: string;
+  codeChallengeMethod?: string;
+};
+
+/**
+ * Validate the parameters of an authorization request, returning the client and requested scopes.
+ */
+export const getOAuthAuthorizationRequest = async ({
+  clientId,
+  redirectUri,
+  responseType,
+  scope,
+  codeChallenge,
+  codeChallengeMethod,
+}: GetOAuthAuthorizationRequestOptions) => {
+  const client = await prisma.oAuthClient.findUnique({
+    where: {
+      clientId,
+    },
+    select: {
+      id: true,
+      clientId: true,
+      name: true,
+      redirectUris: true,
+      scopes: true,
+      team: {
+        select: {
+          id: true,
+          name: true,
+          url: true,
+        },
+      },
+    },
+  });
+
+  if (!client) {
+    throw new AppError(AppErrorCode.NOT_FOUND, {
+      message: 'The application could not be found',
+    });
+  }
+
+  if (!client.redirectUris.includes(redirectUri)) {
+    throw new AppError(AppErrorCode.INVALID_REQUEST, {
+      message: 'The redirect URI has not been registered for this application',
+    });
+  }
+
+  if (responseType !== 'code') {
+    throw new AppError(AppErrorCode.INVALID_REQUEST, {
+      message: 'Only the authorization code response type is supported',
+    });
+  }
+
+  if (!codeChallenge || codeChallengeMethod !== OAUTH_CODE_CHALLENGE_METHOD) {
+    throw new AppError(AppErrorCode.INVALID_REQUEST, {
+      message: `A PKCE code challenge using the ${OAUTH_CODE_CHALLENGE_METHOD} method is required`,
+    });
+  }
+
+  const scopes = parseOAuthScopes(scope);
+
+  if (scopes.length === 0) {
+    throw new AppError(AppErrorCode.INVALID_REQUEST, {
+      message: 'At least one scope must be requested',
+    });
+  }
+
+  if (scopes.some((requestedScope) => !client.scopes.includes(requestedScope))) {
+    throw new AppError(AppErrorCode.INVALID_REQUEST, {
+      message: 'The application is not allowed to request one or more of the scopes',
+    });
+  }
+
+  return {
+    client,
+    redirectUri,
+    codeChallenge,
+    scopes: [...new Set(scopes)],
+  };
+};
@@ -0,0 +1,30 @@
+import { prisma } from '@documenso/prisma';
+import { TeamPermission } from '@documenso/prisma/client';
+
+import { assertTeamPermission } from '../team/assert-team-permission';
+
+export type GetTeamOAuthClientsOptions = {
+  userId: number;
+  teamId: number;
+};
+
+export const getTeamOAuthClients = async ({ userId, teamId }: GetTeamOAuthClientsOptions) => {
+  await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_API_TOKENS });
+
+  return await prisma.oAuthClient.findMany({
+    where: {
+      teamId,
+    },
+    select: {
+      id: true,
+      clientId: true,
+      name: true,
+      redirectUris: true,
+      scopes: true,
+      createdAt: true,
+    },
+    orderBy: {
+      createdAt: 'desc',
+    },
+  });
+};
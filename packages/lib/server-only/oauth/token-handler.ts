@@ -0,0 +1,128 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { match } from 'ts-pattern';
+import { z } from 'zod';
+
+import { AppError, AppErrorCode } from '../../errors/app-error';
+import { exchangeOAuthAuthorizationCode, refreshOAuthToken } from './create-oauth-token';
+
+const ZOAuthTokenRequestSchema = z.discriminatedUnion('grant_type', [
+  z.object({
+    grant_type: z.literal('authorization_code'),
+    code: z.string().min(1),
+    redirect_uri: z.string().min(1),
+    code_verifier: z.string().min(43).max(128),
+    client_id: z.string().optional(),
+    client_secret: z.string().optional(),
+  }),
+  z.object({
+    grant_type: z.literal('refresh_token'),
+    refresh_token: z.string().min(1),
+    client_id: z.string().optional(),
+    client_secret: z.string().optional(),
+  }),
+]);
+
+/**
+ * Get the client credentials from either the `Authorization: Basic` header or the request body.
+ */
+const getClientCredentials = (
+  req: NextApiRequest,
+  body: { client_id?: string; client_secret?: string },
+) => {
+  const [scheme, value] = (req.headers.authorization ?? '').split(' ');
+
+  if (scheme?.toLowerCase() === 'basic' && value) {
+    const [clientId, clientSecret] = Buffer.from(value, 'base64').toString('utf-8').split(':');
+
+    return {
+      clientId: decodeURIComponent(clientId ?? ''),
+      clientSecret: decodeURIComponent(clientSecret ?? ''),
+    };
+  }
+
+  return {
+    clientId: body.client_id ?? '',
+    clientSecret: body.client_secret ?? '',
+  };
+};
+
+const sendOAuthError = (
+  res: NextApiResponse,
+  status: number,
+  error: string,
+  description?: string,
+) => {
+  return res.status(status).json({
+    error,
+    error_description: description,
+  });
+};
+
+/**
+ * The OAuth 2.0 token endpoint, supporting the authorization code and refresh token grants.
+ */
+export const oauthTokenHandler = async (req: NextApiRequest, res: NextApiResponse) => {
+  res.setHeader('Cache-Control', 'no-store');
+
+  if (req.method !== 'POST') {
+    return sendOAuthError(res, 405, 'invalid_request', 'Method not allowed');
+  }
+
+  const parsedBody = ZOAuthTokenRequestSchema.safeParse(req.body);
+
+  if (!parsedBody.success) {
+    const isUnsupportedGrantType = parsedBody.error.issues.some(
+      (issue) => issue.code === 'invalid_union_discriminator',
+    );
+
+    return isUnsupportedGrantType
+      ? sendOAuthError(res, 400, 'unsupported_grant_type')
+      : sendOAuthError(res, 400, 'invalid_request', parsedBody.error.message);
+  }
+
+  const body = parsedBody.data;
+
+  const credentials = getClientCredentials(req, body);
+
+  try {
+    const token =
+      body.grant_type === 'authorization_code'
+        ? await exchangeOAuthAuthorizationCode({
+            ...credentials,
+            code: body.code,
+            redirectUri: body.redirect_uri,
+            codeVerifier: body.code_verifier,
+          })
+        : await refreshOAuthToken({
+            ...credentials,
+            refreshToken: body.refresh_token,
+          });
+
+    return res.status(200).json({
+      access_token: token.accessToken,
+      token_type: 'Bearer',
+      expires_in: token.expiresIn,
+      refresh_token: token.refreshToken,
+      scope: token.scope,
+    });
+  } catch (err) {
+    const error = AppError.parseError(err);
+
+    const [status, code] = match(error.code)
+      .with(AppErrorCode.UNAUTHORIZED, () => [401, 'invalid_client'] as const)
+      .with(
+        AppErrorCode.NOT_FOUND,
+        AppErrorCode.EXPIRED_CODE,
+        () => [400, 'invalid_grant'] as const,
+      )
+      .with(AppErrorCode.INVALID_REQUEST, () => [400, 'invalid_grant'] as const)
+      .otherwise(() => [500, 'server_error'] as const);
+
+    if (status === 500) {
+      console.error(err);
+    }
+
+    return sendOAuthError(res, status, code, error.message);
+  }
+};
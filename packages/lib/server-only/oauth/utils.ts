@@ -0,0 +1,44 @@
+import crypto from 'crypto';
+
+import type { ApiTokenScope } from '@documenso/prisma/client';
+
+import { ALL_API_TOKEN_SCOPES, API_TOKEN_SCOPE_MAP } from '../../constants/api-token-scopes';
+import { AppError, AppErrorCode } from '../../errors/app-error';
+
+/**
+ * Parse a space delimited OAuth scope string, such as `documents:read templates:read`.
+ */
+export const parseOAuthScopes = (scope: string): ApiTokenScope[] => {
+  const values = scope.split(' ').filter((value) => value.length > 0);
+
+  return values.map((value) => {
+    const result = ALL_API_TOKEN_SCOPES.find((scope) => API_TOKEN_SCOPE_MAP[scope].value === value);
+
+    if (!result) {
+      throw new AppError(AppErrorCode.INVALID_REQUEST, {
+        message: `Unknown scope "${value}"`,
+      });
+    }
+
+    return result;
+  });
+};
+
+export const formatOAuthScopes = (scopes: ApiTokenScope[]) => {
+  return scopes.map((scope) => API_TOKEN_SCOPE_MAP[scope].value).join(' ');
+};
+
+/**
+ * Verify a PKCE code verifier against the `S256` code challenge provided when authorizing.
+ */
+export const verifyOAuthCodeChallenge = (codeVerifier: string, codeChallenge: string) => {
+  const expected = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+  const expectedBuffer = Buffer.from(expected);
+  const challengeBuffer = Buffer.from(codeChallenge);
+
+  return (
+    expectedBuffer.length === challengeBuffer.length &&
+    crypto.timingSafeEqual(new Uint8Array(expectedBuffer), new Uint8Array(challengeBuffer))
+  );
+};
@@ -0,0 +1,308 @@
+export type PdfDiffRect = {
+  /**
+   * Position and size as a percentage of the page dimensions, measured from the top left.
+   */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type PdfDiffTextChange = {
+  type: 'added' | 'removed';
+  text: string;
+  rect: PdfDiffRect;
+};
+
+export type PdfDiffPageStatus = 'unchanged' | 'changed' | 'added' | 'removed';
+
+export type PdfDiffPage = {
+  status: PdfDiffPageStatus;
+  fromPageNumber: number | null;
+  toPageNumber: number | null;
+  changes: PdfDiffTextChange[];
+};
+
+export type PdfDiff = {
+  pages: PdfDiffPage[];
+  addedPages: number;
+  removedPages: number;
+  changedPages: number;
+};
+
+export type DiffPdfOptions = {
+  from: Uint8Array;
+  to: Uint8Array;
+};
+
+/**
+ * The share of text runs two pages need in common to be treated as the same page.
+ */
+const PAGE_SIMILARITY_THRESHOLD = 0.5;
+
+type ExtractedTextRun = {
+  text: string;
+  rect: PdfDiffRect;
+};
+
+type ExtractedPage = {
+  text: string;
+  runs: ExtractedTextRun[];
+};
+
+type StructuredTextJson = {
+  blocks: Array<{
+    type: string;
+    lines?: Array<{
+      text: string;
+      bbox: { x: number; y: number; w: number; h: number };
+    }>;
+  }>;
+};
+
+/**
+ * Compare two PDFs page by page.
+ *
+ * Pages are aligned on their text content so inserted or removed pages do not cause every
+ * following page to be reported as changed. Within aligned pages, each line of text is treated as
+ * a text run and runs which only exist on one side are reported as added or removed.
+ *
+ * Only text is compared, changes to images or drawings on a page are not detected.
+ */
+export const diffPdf = async ({ from, to }: DiffPdfOptions): Promise<PdfDiff> => {
+  const [fromPages, toPages] = await Promise.all([extractPdfPages(from), extractPdfPages(to)]);
+
+  const pageMatches = longestCommonSubsequence(
+    fromPages.map((page) => page.text),
+    toPages.map((page) => page.text),
+  );
+
+  const pages: PdfDiffPage[] = [];
+
+  let fromIndex = 0;
+  let toIndex = 0;
+
+  // Add a sentinel so pages after the last match are handled by the same loop.
+  for (const [matchFromIndex, matchToIndex] of [
+    ...pageMatches,
+    [fromPages.length, toPages.length] as const,
+  ]) {
+    pages.push(
+      ...diffUnmatchedPages(
+        fromPages.slice(fromIndex, matchFromIndex),
+        toPages.slice(toIndex, matchToIndex),
+        fromIndex,
+        toIndex,
+      ),
+    );
+
+    if (matchFromIndex < fromPages.length && matchToIndex < toPages.length) {
+      pages.push({
+        status: 'unchanged',
+        fromPageNumber: matchFromIndex + 1,
+        toPageNumber: matchToIndex + 1,
+        changes: [],
+      });
+    }
+
+    fromIndex = matchFromIndex + 1;
+    toIndex = matchToIndex + 1;
+  }
+
+  return {
+    pages,
+    addedPages: pages.filter((page) => page.status === 'added').length,
+    removedPages: pages.filter((page) => page.status === 'removed').length,
+    changedPages: pages.filter((page) => page.status === 'changed').length,
+  };
+};
+
+const extractPdfPages = async (pdf: Uint8Array): Promise<ExtractedPage[]> => {
+  const mupdf = await import('mupdf');
+
+  const doc = mupdf.Document.openDocument(pdf, 'application/pdf');
+
+  try {
+    const pages: ExtractedPage[] = [];
+
+    for (let pageIndex = 0; pageIndex < doc.countPages(); pageIndex++) {
+      const page = doc.loadPage(pageIndex);
+
+      const [x0, y0, x1, y1] = page.getBounds();
+
+      const pageWidth = x1 - x0;
+      const pageHeight = y1 - y0;
+
+      // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+      const structuredText = JSON.parse(
+        page.toStructuredText('preserve-whitespace').asJSON(),
+      ) as StructuredTextJson;
+
+      const runs = structuredText.blocks
+        .flatMap((block) => (block.type === 'text' ? (block.lines ?? []) : []))
+        .map((line) => ({
+          text: normalizeText(line.text),
+          rect: {
+            x: ((line.bbox.x - x0) / pageWidth) * 100,
+            y: ((line.bbox.y - y0) / pageHeight) * 100,
+            width: (line.bbox.w / pageWidth) * 100,
+            height: (line.bbox.h / pageHeight) * 100,
+          },
+        }))
+        .filter((run) => run.text.length > 0);
+
+      pages.push({
+        text: runs.map((run) => run.text).join('\n'),
+        runs,
+      });
+
+      page.destroy();
+    }
+
+    return pages;
+  } finally {
+    doc.destroy();
+  }
+};
+
+/**
+ * Diff the pages which sit between two pages with identical text.
+ *
+ * Pages which share most of their text are treated as the same page with changes, the rest are
+ * reported as added or removed.
+ */
+const diffUnmatchedPages = (
+  fromPages: ExtractedPage[],
+  toPages: ExtractedPage[],
+  fromOffset: number,
+  toOffset: number,
+) => {
+  const pageMatches = longestCommonSubsequence(fromPages, toPages, isSimilarPage);
+
+  const pages: PdfDiffPage[] = [];
+
+  let fromIndex = 0;
+  let toIndex = 0;
+
+  for (const [matchFromIndex, matchToIndex] of [
+    ...pageMatches,
+    [fromPages.length, toPages.length] as const,
+  ]) {
+    for (; fromIndex < matchFromIndex; fromIndex++) {
+      pages.push({
+        status: 'removed',
+        fromPageNumber: fromOffset + fromIndex + 1,
+        toPageNumber: null,
+        changes: [],
+      });
+    }
+
+    for (; toIndex < matchToIndex; toIndex++) {
+      pages.push({
+        status: 'added',
+        fromPageNumber: null,
+        toPageNumber: toOffset + toIndex + 1,
+        changes: [],
+      });
+    }
+
+    if (matchFromIndex < fromPages.length && matchToIndex < toPages.length) {
+      const changes = diffTextRuns(fromPages[matchFromIndex].runs, toPages[matchToIndex].runs);
+
+      pages.push({
+        status: changes.length > 0 ? 'changed' : 'unchanged',
+        fromPageNumber: fromOffset + matchFromIndex + 1,
+        toPageNumber: toOffset + matchToIndex + 1,
+        changes,
+      });
+
+      fromIndex = matchFromIndex + 1;
+      toIndex = matchToIndex + 1;
+    }
+  }
+
+  return pages;
+};
+
+const isSimilarPage = (a: ExtractedPage, b: ExtractedPage) => {
+  const totalRuns = a.runs.length + b.runs.length;
+
+  if (totalRuns === 0) {
+    return true;
+  }
+
+  const sharedRuns = longestCommonSubsequence(
+    a.runs.map((run) => run.text),
+    b.runs.map((run) => run.text),
+  ).length;
+
+  return (sharedRuns * 2) / totalRuns >= PAGE_SIMILARITY_THRESHOLD;
+};
+
+const diffTextRuns = (fromRuns: ExtractedTextRun[], toRuns: ExtractedTextRun[]) => {
+  const matches = longestCommonSubsequence(
+    fromRuns.map((run) => run.text),
+    toRuns.map((run) => run.text),
+  );
+
+  const matchedFromIndexes = new Set(matches.map(([fromIndex]) => fromIndex));
+  const matchedToIndexes = new Set(matches.map(([, toIndex]) => toIndex));
+
+  const changes: PdfDiffTextChange[] = [];
+
+  fromRuns.forEach((run, index) => {
+    if (!matchedFromIndexes.has(index)) {
+      changes.push({ type: 'removed', ...run });
+    }
+  });
+
+  toRuns.forEach((run, index) => {
+    if (!matchedToIndexes.has(index)) {
+      changes.push({ type: 'added', ...run });
+    }
+  });
+
+  return changes;
+};
+
+/**
+ * Returns the index pairs of the longest common subsequence between two lists.
+ */
+const longestCommonSubsequence = <T>(
+  a: T[],
+  b: T[],
+  isEqual: (x: T, y: T) => boolean = (x, y) => x === y,
+) => {
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = isEqual(a[i], b[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const matches: Array<readonly [number, number]> = [];
+
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    if (isEqual(a[i], b[j])) {
+      matches.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return matches;
+};
+
+const normalizeText = (text: string) => text.replace(/\s+/g, ' ').trim();
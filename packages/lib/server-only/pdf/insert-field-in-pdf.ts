@@ -19,6 +19,7 @@ import {
   ZCheckboxFieldMeta,
   ZDateFieldMeta,
   ZEmailFieldMeta,
+  ZFormulaFieldMeta,
   ZInitialsFieldMeta,
   ZNameFieldMeta,
   ZNumberFieldMeta,
@@ -303,6 +304,7 @@ export const insertFieldInPDF = async (pdf: PDFDocument, field: FieldWithSignatu
         [FieldType.EMAIL]: ZEmailFieldMeta,
         [FieldType.NAME]: ZNameFieldMeta,
         [FieldType.INITIALS]: ZInitialsFieldMeta,
+        [FieldType.FORMULA]: ZFormulaFieldMeta,
       } as const;
 
       // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
@@ -0,0 +1,38 @@
+import type { PDFDocument } from 'pdf-lib';
+import { StandardFonts, degrees, radiansToDegrees, rgb } from 'pdf-lib';
+
+const VOID_WATERMARK_TEXT = 'VOID';
+
+/**
+ * Stamp a large diagonal "VOID" watermark across every page of the document.
+ */
+export const insertVoidWatermark = async (pdf: PDFDocument) => {
+  const font = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+  for (const page of pdf.getPages()) {
+    const { width, height } = page.getSize();
+
+    // Size the text so it spans most of the page diagonal.
+    const diagonal = Math.sqrt(width ** 2 + height ** 2);
+    const fontSize = (diagonal * 0.6) / font.widthOfTextAtSize(VOID_WATERMARK_TEXT, 1);
+
+    const textWidth = font.widthOfTextAtSize(VOID_WATERMARK_TEXT, fontSize);
+    const textHeight = font.heightAtSize(fontSize, { descender: false });
+
+    const angle = Math.atan2(height, width);
+
+    // Offset the origin so the rotated text is centered on the page.
+    const x = width / 2 - (textWidth / 2) * Math.cos(angle) + (textHeight / 2) * Math.sin(angle);
+    const y = height / 2 - (textWidth / 2) * Math.sin(angle) - (textHeight / 2) * Math.cos(angle);
+
+    page.drawText(VOID_WATERMARK_TEXT, {
+      x,
+      y,
+      size: fontSize,
+      font,
+      color: rgb(0.86, 0.15, 0.15),
+      opacity: 0.35,
+      rotate: degrees(radiansToDegrees(angle)),
+    });
+  }
+};
@@ -0,0 +1,47 @@
+export type RenderPdfPageOptions = {
+  pdf: Uint8Array;
+
+  /**
+   * The 1-indexed page number to render.
+   */
+  pageNumber: number;
+
+  /**
+   * The width of the rendered image in pixels, the height is scaled to match.
+   */
+  width: number;
+};
+
+/**
+ * Render a single page of a PDF to a PNG image.
+ *
+ * Returns `null` when the page does not exist.
+ */
+export const renderPdfPage = async ({ pdf, pageNumber, width }: RenderPdfPageOptions) => {
+  const mupdf = await import('mupdf');
+
+  const doc = mupdf.Document.openDocument(pdf, 'application/pdf');
+
+  try {
+    if (pageNumber < 1 || pageNumber > doc.countPages()) {
+      return null;
+    }
+
+    const page = doc.loadPage(pageNumber - 1);
+
+    const [x0, , x1] = page.getBounds();
+
+    const scale = width / (x1 - x0);
+
+    const pixmap = page.toPixmap(mupdf.Matrix.scale(scale, scale), mupdf.ColorSpace.DeviceRGB);
+
+    const png = pixmap.asPNG();
+
+    pixmap.destroy();
+    page.destroy();
+
+    return png;
+  } finally {
+    doc.destroy();
+  }
+};
@@ -0,0 +1,29 @@
+import type { ApiToken, ApiTokenScope } from '@documenso/prisma/client';
+
+import { API_TOKEN_SCOPE_MAP } from '../../constants/api-token-scopes';
+import { AppError, AppErrorCode } from '../../errors/app-error';
+
+export type AssertApiTokenScopesOptions = {
+  apiToken: Pick<ApiToken, 'scopes'>;
+  scopes: ApiTokenScope[];
+};
+
+export const getMissingApiTokenScopes = ({ apiToken, scopes }: AssertApiTokenScopesOptions) => {
+  return scopes.filter((scope) => !apiToken.scopes.includes(scope));
+};
+
+/**
+ * Throws when the API token has not been granted every one of the provided scopes.
+ */
+export const assertApiTokenScopes = (options: AssertApiTokenScopesOptions) => {
+  const missingScopes = getMissingApiTokenScopes(options);
+
+  if (missingScopes.length > 0) {
+    const scopes = missingScopes.map((scope) => API_TOKEN_SCOPE_MAP[scope].value).join(', ');
+
+    throw new AppError(AppErrorCode.UNAUTHORIZED, {
+      message: `API token is missing the required scopes: ${scopes}`,
+      statusCode: 403,
+    });
+  }
+};
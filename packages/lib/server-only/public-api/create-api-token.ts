@@ -2,13 +2,14 @@ import type { Duration } from 'luxon';
 import { DateTime } from 'luxon';
 
 import { prisma } from '@documenso/prisma';
-import { TeamMemberRole } from '@documenso/prisma/client';
+import type { ApiTokenScope } from '@documenso/prisma/client';
+import { TeamPermission } from '@documenso/prisma/client';
 
 // temporary choice for testing only
 import * as timeConstants from '../../constants/time';
-import { AppError, AppErrorCode } from '../../errors/app-error';
 import { alphaid } from '../../universal/id';
 import { hashString } from '../auth/hash';
+import { assertTeamPermission } from '../team/assert-team-permission';
 
 type TimeConstants = typeof timeConstants & {
   [key: string]: number | Duration;
@@ -19,6 +20,7 @@ type CreateApiTokenInput = {
   teamId?: number;
   tokenName: string;
   expiresIn: string | null;
+  scopes: ApiTokenScope[];
 };
 
 export const createApiToken = async ({
@@ -26,6 +28,7 @@ export const createApiToken = async ({
   teamId,
   tokenName,
   expiresIn,
+  scopes,
 }: CreateApiTokenInput) => {
   const apiToken = `api_${alphaid(16)}`;
 
@@ -34,25 +37,14 @@ export const createApiToken = async ({
   const timeConstantsRecords: TimeConstants = timeConstants;
 
   if (teamId) {
-    const member = await prisma.teamMember.findFirst({
-      where: {
-        userId,
-        teamId,
-        role: TeamMemberRole.ADMIN,
-      },
-    });
-
-    if (!member) {
-      throw new AppError(AppErrorCode.UNAUTHORIZED, {
-        message: 'You do not have permission to create a token for this team',
-      });
-    }
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_API_TOKENS });
   }
 
   const storedToken = await prisma.apiToken.create({
     data: {
       name: tokenName,
       token: hashedToken,
+      scopes,
       expires: expiresIn ? DateTime.now().plus(timeConstantsRecords[expiresIn]).toJSDate() : null,
       userId,
       teamId,
@@ -1,5 +1,7 @@
 import { prisma } from '@documenso/prisma';
-import { TeamMemberRole } from '@documenso/prisma/client';
+import { TeamPermission } from '@documenso/prisma/client';
+
+import { assertTeamPermission } from '../team/assert-team-permission';
 
 export type DeleteTokenByIdOptions = {
   id: number;
@@ -9,17 +11,7 @@ export type DeleteTokenByIdOptions = {
 
 export const deleteTokenById = async ({ id, userId, teamId }: DeleteTokenByIdOptions) => {
   if (teamId) {
-    const member = await prisma.teamMember.findFirst({
-      where: {
-        userId,
-        teamId,
-        role: TeamMemberRole.ADMIN,
-      },
-    });
-
-    if (!member) {
-      throw new Error('You do not have permission to delete this token');
-    }
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_API_TOKENS });
   }
 
   return await prisma.apiToken.delete({
@@ -1,6 +1,7 @@
-import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
 import { prisma } from '@documenso/prisma';
-import { TeamMemberRole } from '@documenso/prisma/client';
+import { TeamPermission } from '@documenso/prisma/client';
+
+import { assertTeamPermission } from '../team/assert-team-permission';
 
 export type GetUserTokensOptions = {
   userId: number;
@@ -10,18 +11,7 @@ export type GetUserTokensOptions = {
 export type GetTeamTokensResponse = Awaited<ReturnType<typeof getTeamTokens>>;
 
 export const getTeamTokens = async ({ userId, teamId }: GetUserTokensOptions) => {
-  const teamMember = await prisma.teamMember.findFirst({
-    where: {
-      userId,
-      teamId,
-    },
-  });
-
-  if (teamMember?.role !== TeamMemberRole.ADMIN) {
-    throw new AppError(AppErrorCode.UNAUTHORIZED, {
-      message: 'You do not have the required permissions to view this page.',
-    });
-  }
+  await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_API_TOKENS });
 
   return await prisma.apiToken.findMany({
     where: {
@@ -31,6 +21,7 @@ export const getTeamTokens = async ({ userId, teamId }: GetUserTokensOptions) =>
       id: true,
       name: true,
       algorithm: true,
+      scopes: true,
       createdAt: true,
       expires: true,
     },
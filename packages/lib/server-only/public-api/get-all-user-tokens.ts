@@ -14,6 +14,7 @@ export const getUserTokens = async ({ userId }: GetUserTokensOptions) => {
       id: true,
       name: true,
       algorithm: true,
+      scopes: true,
       createdAt: true,
       expires: true,
     },
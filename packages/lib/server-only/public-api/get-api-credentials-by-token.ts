@@ -0,0 +1,33 @@
+import { OAUTH_ACCESS_TOKEN_PREFIX } from '../../constants/oauth';
+import { getOAuthAccessTokenByToken } from '../oauth/get-oauth-access-token-by-token';
+import { getApiTokenByToken } from './get-api-token-by-token';
+
+/**
+ * Get the user, team and scopes of either an API token or an OAuth access token.
+ *
+ * OAuth access tokens act on behalf of the user who authorized the application, within the team
+ * the application belongs to.
+ */
+export const getApiCredentialsByToken = async ({ token }: { token: string }) => {
+  if (token.startsWith(OAUTH_ACCESS_TOKEN_PREFIX)) {
+    const accessToken = await getOAuthAccessTokenByToken({ token });
+
+    return {
+      type: 'oauth' as const,
+      user: accessToken.user,
+      team: accessToken.client.team,
+      teamId: accessToken.client.teamId,
+      scopes: accessToken.scopes,
+    };
+  }
+
+  const apiToken = await getApiTokenByToken({ token });
+
+  return {
+    type: 'apiToken' as const,
+    user: apiToken.user,
+    team: apiToken.team,
+    teamId: apiToken.teamId,
+    scopes: apiToken.scopes,
+  };
+};
@@ -1,5 +1,6 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 
+import { API_TOKEN_SCOPE_MAP } from '@documenso/lib/constants/api-token-scopes';
 import { validateApiToken } from '@documenso/lib/server-only/webhooks/zapier/validateApiToken';
 
 export const testCredentialsHandler = async (req: NextApiRequest, res: NextApiResponse) => {
@@ -10,6 +11,7 @@ export const testCredentialsHandler = async (req: NextApiRequest, res: NextApiRe
 
     return res.status(200).json({
       name: result.team?.name ?? result.user.name,
+      scopes: result.scopes.map((scope) => API_TOKEN_SCOPE_MAP[scope].value),
     });
   } catch (err) {
     return res.status(500).json({
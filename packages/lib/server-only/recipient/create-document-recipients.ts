@@ -8,9 +8,10 @@ import { createDocumentAuditLogData } from '@documenso/lib/utils/document-audit-
 import { createRecipientAuthOptions } from '@documenso/lib/utils/document-auth';
 import { prisma } from '@documenso/prisma';
 import { RecipientRole } from '@documenso/prisma/client';
-import { SendStatus, SigningStatus } from '@documenso/prisma/client';
+import { SendStatus, SigningStatus, TeamPermission } from '@documenso/prisma/client';
 
 import { AppError, AppErrorCode } from '../../errors/app-error';
+import { assertTeamPermission } from '../team/assert-team-permission';
 
 export interface CreateDocumentRecipientsOptions {
   userId: number;
@@ -34,6 +35,10 @@ export const createDocumentRecipients = async ({
   recipients: recipientsToCreate,
   requestMetadata,
 }: CreateDocumentRecipientsOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_DOCUMENTS });
+  }
+
   const document = await prisma.document.findFirst({
     where: {
       id: documentId,
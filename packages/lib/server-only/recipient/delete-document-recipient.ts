@@ -7,7 +7,7 @@ import RecipientRemovedFromDocumentTemplate from '@documenso/email/templates/rec
 import { DOCUMENT_AUDIT_LOG_TYPE } from '@documenso/lib/types/document-audit-logs';
 import type { ApiRequestMetadata } from '@documenso/lib/universal/extract-request-metadata';
 import { prisma } from '@documenso/prisma';
-import { SendStatus } from '@documenso/prisma/client';
+import { SendStatus, TeamPermission } from '@documenso/prisma/client';
 
 import { getI18nInstance } from '../../client-only/providers/i18n.server';
 import { NEXT_PUBLIC_WEBAPP_URL } from '../../constants/app';
@@ -16,6 +16,7 @@ import { AppError, AppErrorCode } from '../../errors/app-error';
 import { extractDerivedDocumentEmailSettings } from '../../types/document-email';
 import { createDocumentAuditLogData } from '../../utils/document-audit-logs';
 import { renderEmailWithI18N } from '../../utils/render-email-with-i18n';
+import { assertTeamPermission } from '../team/assert-team-permission';
 
 export interface DeleteDocumentRecipientOptions {
   userId: number;
@@ -30,6 +31,10 @@ export const deleteDocumentRecipient = async ({
   recipientId,
   requestMetadata,
 }: DeleteDocumentRecipientOptions): Promise<void> => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_DOCUMENTS });
+  }
+
   const document = await prisma.document.findFirst({
     where: {
       recipients: {
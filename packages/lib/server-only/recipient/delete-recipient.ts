@@ -1,9 +1,10 @@
 import { prisma } from '@documenso/prisma';
 import type { Team } from '@documenso/prisma/client';
-import { SendStatus } from '@documenso/prisma/client';
+import { SendStatus, TeamPermission } from '@documenso/prisma/client';
 
 import type { RequestMetadata } from '../../universal/extract-request-metadata';
 import { createDocumentAuditLogData } from '../../utils/document-audit-logs';
+import { assertTeamPermission } from '../team/assert-team-permission';
 
 export type DeleteRecipientOptions = {
   documentId: number;
@@ -20,6 +21,10 @@ export const deleteRecipient = async ({
   teamId,
   requestMetadata,
 }: DeleteRecipientOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_DOCUMENTS });
+  }
+
   const recipient = await prisma.recipient.findFirst({
     where: {
       id: recipientId,
@@ -0,0 +1,81 @@
+import { prisma } from '@documenso/prisma';
+import type { Prisma } from '@documenso/prisma/client';
+import { DocumentStatus } from '@documenso/prisma/client';
+
+import { IdVerificationStatus } from '../../types/id-verification';
+
+export type FindPendingIdVerificationsOptions = {
+  userId: number;
+  teamId?: number;
+};
+
+/**
+ * Find the recipients waiting on the sender to manually review their identity document.
+ */
+export const findPendingIdVerifications = async ({
+  userId,
+  teamId,
+}: FindPendingIdVerificationsOptions) => {
+  const documentWhereInput: Prisma.DocumentWhereInput = teamId
+    ? {
+        team: {
+          id: teamId,
+          members: {
+            some: {
+              userId,
+            },
+          },
+        },
+      }
+    : {
+        userId,
+        teamId: null,
+      };
+
+  const recipients = await prisma.recipient.findMany({
+    where: {
+      document: {
+        ...documentWhereInput,
+        status: DocumentStatus.PENDING,
+        deletedAt: null,
+      },
+      verification: {
+        idVerificationStatus: IdVerificationStatus.pending,
+      },
+    },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      document: {
+        select: {
+          id: true,
+          title: true,
+        },
+      },
+      verification: {
+        select: {
+          idVerificationType: true,
+          idVerificationSubmittedAt: true,
+        },
+      },
+    },
+    orderBy: {
+      id: 'asc',
+    },
+  });
+
+  // The document filter above excludes template recipients, this narrows the type to match.
+  return recipients.flatMap(({ verification, document, ...recipient }) =>
+    document
+      ? [
+          {
+            ...recipient,
+            document,
+            documentType: verification?.idVerificationType ?? null,
+            submittedAt: verification?.idVerificationSubmittedAt ?? null,
+          },
+        ]
+      : [],
+  );
+};
@@ -1,6 +1,12 @@
 import { prisma } from '@documenso/prisma';
 import { DocumentSigningOrder, SigningStatus } from '@documenso/prisma/client';
 
+import { extractDocumentSigningRouting } from '../../types/document-signing-routing';
+import {
+  getSigningRoutingSteps,
+  isRecipientsTurnInSigningRouting,
+} from '../../utils/document-signing-routing';
+
 export type GetIsRecipientTurnOptions = {
   token: string;
 };
@@ -16,31 +22,29 @@ export async function getIsRecipientsTurnToSign({ token }: GetIsRecipientTurnOpt
     },
     include: {
       documentMeta: true,
-      recipients: {
-        orderBy: {
-          signingOrder: 'asc',
-        },
-      },
+      recipients: true,
     },
   });
 
-  if (document.documentMeta?.signingOrder !== DocumentSigningOrder.SEQUENTIAL) {
-    return true;
-  }
+  const recipient = document.recipients.find((r) => r.token === token);
 
-  const { recipients } = document;
-
-  const currentRecipientIndex = recipients.findIndex((r) => r.token === token);
+  if (!recipient) {
+    return false;
+  }
 
-  if (currentRecipientIndex === -1) {
+  // Recipients skipped by the signing routing no longer have to complete the document.
+  if (recipient.signingStatus === SigningStatus.SKIPPED) {
     return false;
   }
 
-  for (let i = 0; i < currentRecipientIndex; i++) {
-    if (recipients[i].signingStatus !== SigningStatus.SIGNED) {
-      return false;
-    }
+  if (document.documentMeta?.signingOrder !== DocumentSigningOrder.SEQUENTIAL) {
+    return true;
   }
 
-  return true;
+  const steps = getSigningRoutingSteps(
+    document.recipients,
+    extractDocumentSigningRouting(document.documentMeta),
+  );
+
+  return isRecipientsTurnInSigningRouting(recipient.id, steps);
 }
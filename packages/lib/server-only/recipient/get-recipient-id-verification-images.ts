@@ -0,0 +1,72 @@
+import { base64 } from '@scure/base';
+
+import { prisma } from '@documenso/prisma';
+
+import { AppError, AppErrorCode } from '../../errors/app-error';
+import { getFile } from '../../universal/upload/get-file';
+import { getIdImageMimeType } from '../../utils/id-verification';
+
+export type GetRecipientIdVerificationImagesOptions = {
+  recipientId: number;
+  userId: number;
+  teamId?: number;
+};
+
+const toDataUrl = (data: Uint8Array) => {
+  return `data:${getIdImageMimeType(data) ?? 'image/jpeg'};base64,${base64.encode(data)}`;
+};
+
+/**
+ * Get the identity document images a recipient submitted so the sender can review them.
+ */
+export const getRecipientIdVerificationImages = async ({
+  recipientId,
+  userId,
+  teamId,
+}: GetRecipientIdVerificationImagesOptions) => {
+  const recipient = await prisma.recipient.findFirst({
+    where: {
+      id: recipientId,
+      document: teamId
+        ? {
+            team: {
+              id: teamId,
+              members: {
+                some: {
+                  userId,
+                },
+              },
+            },
+          }
+        : {
+            userId,
+            teamId: null,
+          },
+    },
+    include: {
+      verification: true,
+    },
+  });
+
+  const verification = recipient?.verification;
+
+  if (!verification?.idVerificationImageType || !verification.idVerificationFrontImage) {
+    throw new AppError(AppErrorCode.NOT_FOUND, {
+      message: 'No identity document found for this recipient',
+    });
+  }
+
+  const type = verification.idVerificationImageType;
+
+  const frontImage = await getFile({ type, data: verification.idVerificationFrontImage });
+
+  const backImage = verification.idVerificationBackImage
+    ? await getFile({ type, data: verification.idVerificationBackImage })
+    : null;
+
+  return {
+    documentType: verification.idVerificationType,
+    frontImage: toDataUrl(frontImage),
+    backImage: backImage ? toDataUrl(backImage) : null,
+  };
+};
@@ -0,0 +1,119 @@
+import { cookies } from 'next/headers';
+
+import { prisma } from '@documenso/prisma';
+
+import { formatSecureCookieName, useSecureCookies } from '../../constants/auth';
+import { DOCUMENSO_ENCRYPTION_KEY } from '../../constants/crypto';
+import type {
+  TDocumentAuthMethods,
+  TRecipientAccessAuth,
+  TRecipientAccessAuthTypes,
+} from '../../types/document-auth';
+import { ZRecipientAccessAuthSchema } from '../../types/document-auth';
+import { symmetricDecrypt, symmetricEncrypt } from '../../universal/crypto';
+
+/**
+ * Matches the sliding window a verified email code remains valid for.
+ */
+const RECIPIENT_ACCESS_AUTH_COOKIE_MAX_AGE = 60 * 60; // 1 hour
+
+const formatRecipientAccessAuthCookieName = (recipientId: number) =>
+  formatSecureCookieName(`recipient-access-auth.${recipientId}`);
+
+const getEncryptionKey = () => {
+  const key = DOCUMENSO_ENCRYPTION_KEY;
+
+  if (!key) {
+    throw new Error('Missing DOCUMENSO_ENCRYPTION_KEY');
+  }
+
+  return key;
+};
+
+/**
+ * Store the verified access auth of a recipient so they can keep accessing the
+ * document without re-entering their code on every page load.
+ */
+export const setRecipientAccessAuthCookie = (
+  recipientId: number,
+  accessAuth: TRecipientAccessAuth,
+) => {
+  const value = symmetricEncrypt({
+    key: getEncryptionKey(),
+    data: JSON.stringify(accessAuth),
+  });
+
+  cookies().set(formatRecipientAccessAuthCookieName(recipientId), value, {
+    httpOnly: true,
+    sameSite: useSecureCookies ? 'none' : 'lax',
+    path: '/',
+    secure: useSecureCookies,
+    maxAge: RECIPIENT_ACCESS_AUTH_COOKIE_MAX_AGE,
+  });
+};
+
+const decryptRecipientAccessAuthCookie = (value?: string): TRecipientAccessAuth | undefined => {
+  if (!value) {
+    return undefined;
+  }
+
+  try {
+    const decrypted = Buffer.from(
+      symmetricDecrypt({ key: getEncryptionKey(), data: value }),
+    ).toString('utf-8');
+
+    return ZRecipientAccessAuthSchema.parse(JSON.parse(decrypted));
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Get the access auth options a recipient previously verified, if they match the
+ * access auth currently required for the recipient.
+ */
+export const getRecipientAccessAuthOptions = (
+  recipientId: number,
+  accessAuthType: TRecipientAccessAuthTypes | null,
+): TDocumentAuthMethods | undefined => {
+  if (!accessAuthType) {
+    return undefined;
+  }
+
+  const accessAuth = decryptRecipientAccessAuthCookie(
+    cookies().get(formatRecipientAccessAuthCookieName(recipientId))?.value,
+  );
+
+  return accessAuth?.type === accessAuthType ? accessAuth : undefined;
+};
+
+export type GetRecipientAccessAuthFromCookiesOptions = {
+  token: string;
+  cookies: Partial<Record<string, string>>;
+};
+
+/**
+ * Get the access auth the recipient of a token previously verified from the cookies of an
+ * API request, where the cookies of the `next/headers` module are not available.
+ */
+export const getRecipientAccessAuthFromCookies = async ({
+  token,
+  cookies: requestCookies,
+}: GetRecipientAccessAuthFromCookiesOptions) => {
+  const recipient = await prisma.recipient.findFirst({
+    where: {
+      token,
+    },
+    select: {
+      id: true,
+    },
+  });
+
+  if (!recipient) {
+    return undefined;
+  }
+
+  return decryptRecipientAccessAuthCookie(
+    requestCookies[formatRecipientAccessAuthCookieName(recipient.id)],
+  );
+};
@@ -0,0 +1,78 @@
+import { IDVerificationService } from '@documenso/ee/server-only/verification/id-verification';
+import { prisma } from '@documenso/prisma';
+import { TeamPermission } from '@documenso/prisma/client';
+
+import { AppError, AppErrorCode } from '../../errors/app-error';
+import type { RequestMetadata } from '../../universal/extract-request-metadata';
+import { assertTeamPermission } from '../team/assert-team-permission';
+
+export type ReviewRecipientIdVerificationOptions = {
+  recipientId: number;
+  userId: number;
+  teamId?: number;
+  status: 'verified' | 'rejected';
+  reason?: string;
+  requestMetadata?: RequestMetadata;
+};
+
+/**
+ * Approve or reject the identity document a recipient submitted for manual review.
+ */
+export const reviewRecipientIdVerification = async ({
+  recipientId,
+  userId,
+  teamId,
+  status,
+  reason,
+  requestMetadata,
+}: ReviewRecipientIdVerificationOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_DOCUMENTS });
+  }
+
+  const recipient = await prisma.recipient.findFirst({
+    where: {
+      id: recipientId,
+      document: teamId
+        ? {
+            team: {
+              id: teamId,
+              members: {
+                some: {
+                  userId,
+                },
+              },
+            },
+          }
+        : {
+            userId,
+            teamId: null,
+          },
+    },
+  });
+
+  if (!recipient) {
+    throw new AppError(AppErrorCode.NOT_FOUND, {
+      message: 'Recipient not found',
+    });
+  }
+
+  const user = await prisma.user.findFirstOrThrow({
+    where: {
+      id: userId,
+    },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  });
+
+  return await new IDVerificationService().reviewVerification({
+    recipientId: recipient.id,
+    status,
+    reason,
+    user,
+    requestMetadata,
+  });
+};
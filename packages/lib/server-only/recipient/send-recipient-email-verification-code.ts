@@ -0,0 +1,193 @@
+import { createElement } from 'react';
+
+import { msg } from '@lingui/macro';
+import crypto from 'node:crypto';
+
+import { mailer } from '@documenso/email/mailer';
+import { RecipientVerificationCodeTemplate } from '@documenso/email/templates/recipient-verification-code';
+import { prisma } from '@documenso/prisma';
+import { DocumentStatus } from '@documenso/prisma/client';
+
+import { getI18nInstance } from '../../client-only/providers/i18n.server';
+import { NEXT_PUBLIC_WEBAPP_URL } from '../../constants/app';
+import {
+  MAXIMUM_VERIFICATION_CODE_ATTEMPTS,
+  VERIFICATION_CODE_EXPIRY_MINUTES,
+} from '../../constants/document-auth';
+import { AppError, AppErrorCode } from '../../errors/app-error';
+import { DOCUMENT_AUDIT_LOG_TYPE } from '../../types/document-audit-logs';
+import { DocumentAuth } from '../../types/document-auth';
+import type { RequestMetadata } from '../../universal/extract-request-metadata';
+import { createDocumentAuditLogData } from '../../utils/document-audit-logs';
+import { extractDocumentAuthMethods } from '../../utils/document-auth';
+import { renderEmailWithI18N } from '../../utils/render-email-with-i18n';
+import { teamGlobalSettingsToBranding } from '../../utils/team-global-settings-to-branding';
+import { hashString } from '../auth/hash';
+
+const EMAIL_VERIFICATION_CODE_RESEND_INTERVAL = 30 * 1000; // 30 seconds
+
+export type SendRecipientEmailVerificationCodeOptions = {
+  token: string;
+  documentId: number;
+  requestMetadata?: RequestMetadata;
+};
+
+/**
+ * Emails a one-time code to a recipient who must authenticate with an email code
+ * to access or sign the document.
+ */
+export const sendRecipientEmailVerificationCode = async ({
+  token,
+  documentId,
+  requestMetadata,
+}: SendRecipientEmailVerificationCodeOptions) => {
+  const recipient = await prisma.recipient.findFirst({
+    where: {
+      token,
+      documentId,
+    },
+    include: {
+      verification: true,
+      document: {
+        include: {
+          documentMeta: true,
+          team: {
+            include: {
+              teamGlobalSettings: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!recipient?.document) {
+    throw new AppError(AppErrorCode.NOT_FOUND, {
+      message: 'Document or recipient not found',
+    });
+  }
+
+  const { document } = recipient;
+
+  if (document.status === DocumentStatus.DRAFT) {
+    throw new AppError(AppErrorCode.INVALID_REQUEST, {
+      message: 'Document has not been sent',
+    });
+  }
+
+  const { derivedRecipientAccessAuth, derivedRecipientActionAuth } = extractDocumentAuthMethods({
+    documentAuth: document.authOptions,
+    recipientAuth: recipient.authOptions,
+  });
+
+  if (
+    derivedRecipientAccessAuth !== DocumentAuth.EMAIL_OTP &&
+    derivedRecipientActionAuth !== DocumentAuth.EMAIL_OTP
+  ) {
+    throw new AppError(AppErrorCode.INVALID_REQUEST, {
+      message: 'Recipient does not require email verification',
+    });
+  }
+
+  const sentAt = recipient.verification?.emailVerificationCodeSentAt;
+
+  if (sentAt && sentAt.getTime() + EMAIL_VERIFICATION_CODE_RESEND_INTERVAL > Date.now()) {
+    throw new AppError(AppErrorCode.TOO_MANY_REQUESTS, {
+      message: 'A verification code was sent recently',
+      userMessage: 'Please wait a moment before requesting another code.',
+    });
+  }
+
+  // Incorrect attempts carry over to resent codes until the previous code expires, otherwise
+  // requesting a new code would allow unlimited guesses.
+  const codeExpiresAt = recipient.verification?.emailVerificationCodeExpiresAt;
+  const isCodeWindowOpen = Boolean(codeExpiresAt && codeExpiresAt > new Date());
+
+  if (
+    isCodeWindowOpen &&
+    (recipient.verification?.emailVerificationAttempts ?? 0) >= MAXIMUM_VERIFICATION_CODE_ATTEMPTS
+  ) {
+    throw new AppError(AppErrorCode.TOO_MANY_REQUESTS, {
+      message: 'Too many verification attempts',
+      userMessage: 'Too many incorrect codes were entered, please try again later.',
+    });
+  }
+
+  const verificationCode = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+
+  const verificationData = {
+    emailVerificationCode: hashString(verificationCode),
+    emailVerificationCodeSentAt: new Date(),
+    emailVerificationCodeExpiresAt: new Date(
+      Date.now() + VERIFICATION_CODE_EXPIRY_MINUTES * 60 * 1000,
+    ),
+    emailVerificationAttempts: isCodeWindowOpen ? undefined : 0,
+  };
+
+  await prisma.signerVerification.upsert({
+    where: {
+      recipientId: recipient.id,
+    },
+    create: {
+      recipientId: recipient.id,
+      ...verificationData,
+    },
+    update: verificationData,
+  });
+
+  const assetBaseUrl = NEXT_PUBLIC_WEBAPP_URL() || 'http://localhost:3000';
+
+  const template = createElement(RecipientVerificationCodeTemplate, {
+    documentName: document.title,
+    verificationCode,
+    expiresInMinutes: VERIFICATION_CODE_EXPIRY_MINUTES,
+    assetBaseUrl,
+  });
+
+  const branding = document.team?.teamGlobalSettings
+    ? teamGlobalSettingsToBranding(document.team.teamGlobalSettings)
+    : undefined;
+
+  const [html, text] = await Promise.all([
+    renderEmailWithI18N(template, { lang: document.documentMeta?.language, branding }),
+    renderEmailWithI18N(template, {
+      lang: document.documentMeta?.language,
+      branding,
+      plainText: true,
+    }),
+  ]);
+
+  const i18n = await getI18nInstance(document.documentMeta?.language);
+
+  await mailer.sendMail({
+    to: {
+      address: recipient.email,
+      name: recipient.name,
+    },
+    from: {
+      name: process.env.NEXT_PRIVATE_SMTP_FROM_NAME || 'Documenso',
+      address: process.env.NEXT_PRIVATE_SMTP_FROM_ADDRESS || 'noreply@documenso.com',
+    },
+    subject: i18n._(msg`Your verification code for "${document.title}"`),
+    html,
+    text,
+  });
+
+  await prisma.documentAuditLog.create({
+    data: createDocumentAuditLogData({
+      type: DOCUMENT_AUDIT_LOG_TYPE.EMAIL_SENT,
+      documentId: document.id,
+      requestMetadata,
+      data: {
+        emailType: 'VERIFICATION_CODE',
+        recipientEmail: recipient.email,
+        recipientName: recipient.name,
+        recipientRole: recipient.role,
+        recipientId: recipient.id,
+        isResending: Boolean(sentAt),
+      },
+    }),
+  });
+
+  return { success: true };
+};
@@ -0,0 +1,61 @@
+import { SMSVerificationService } from '@documenso/ee/server-only/verification/sms-verification';
+import { prisma } from '@documenso/prisma';
+import { DocumentStatus, SigningStatus } from '@documenso/prisma/client';
+
+import { AppError, AppErrorCode } from '../../errors/app-error';
+import { DocumentAuth } from '../../types/document-auth';
+import { extractDocumentAuthMethods } from '../../utils/document-auth';
+
+export type SendSigningSmsVerificationCodeOptions = {
+  token: string;
+  documentId: number;
+};
+
+/**
+ * Texts a verification code to a recipient who must authenticate with an SMS code
+ * before signing.
+ */
+export const sendSigningSmsVerificationCode = async ({
+  token,
+  documentId,
+}: SendSigningSmsVerificationCodeOptions) => {
+  const recipient = await prisma.recipient.findFirst({
+    where: {
+      token,
+      documentId,
+    },
+    include: {
+      document: true,
+    },
+  });
+
+  if (!recipient?.document) {
+    throw new AppError(AppErrorCode.NOT_FOUND, {
+      message: 'Document or recipient not found',
+    });
+  }
+
+  if (
+    recipient.document.status !== DocumentStatus.PENDING ||
+    recipient.signingStatus !== SigningStatus.NOT_SIGNED
+  ) {
+    throw new AppError(AppErrorCode.INVALID_REQUEST, {
+      message: 'Document is not awaiting a signature from this recipient',
+    });
+  }
+
+  const { derivedRecipientActionAuth } = extractDocumentAuthMethods({
+    documentAuth: recipient.document.authOptions,
+    recipientAuth: recipient.authOptions,
+  });
+
+  if (derivedRecipientActionAuth !== DocumentAuth.SMS_OTP) {
+    throw new AppError(AppErrorCode.INVALID_REQUEST, {
+      message: 'Recipient does not require SMS verification',
+    });
+  }
+
+  return await new SMSVerificationService().sendVerificationCode({
+    recipientId: recipient.id,
+  });
+};
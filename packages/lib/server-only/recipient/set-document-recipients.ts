@@ -1,6 +1,7 @@
 import { createElement } from 'react';
 
 import { msg } from '@lingui/macro';
+import { hash } from '@node-rs/bcrypt';
 
 import { isUserEnterprise } from '@documenso/ee/server-only/util/is-document-enterprise';
 import { mailer } from '@documenso/email/mailer';
@@ -8,6 +9,7 @@ import RecipientRemovedFromDocumentTemplate from '@documenso/email/templates/rec
 import { DOCUMENT_AUDIT_LOG_TYPE } from '@documenso/lib/types/document-audit-logs';
 import type { TRecipientAccessAuthTypes } from '@documenso/lib/types/document-auth';
 import {
+  DocumentAuth,
   type TRecipientActionAuthTypes,
   ZRecipientAuthOptionsSchema,
 } from '@documenso/lib/types/document-auth';
@@ -20,17 +22,20 @@ import {
 import { createRecipientAuthOptions } from '@documenso/lib/utils/document-auth';
 import { prisma } from '@documenso/prisma';
 import type { Recipient } from '@documenso/prisma/client';
-import { RecipientRole } from '@documenso/prisma/client';
-import { SendStatus, SigningStatus } from '@documenso/prisma/client';
+import { DocumentStatus, RecipientRole } from '@documenso/prisma/client';
+import { ReadStatus, SendStatus, SigningStatus, TeamPermission } from '@documenso/prisma/client';
 
 import { getI18nInstance } from '../../client-only/providers/i18n.server';
 import { NEXT_PUBLIC_WEBAPP_URL } from '../../constants/app';
+import { SALT_ROUNDS } from '../../constants/auth';
 import { FROM_ADDRESS, FROM_NAME } from '../../constants/email';
 import { AppError, AppErrorCode } from '../../errors/app-error';
 import { extractDerivedDocumentEmailSettings } from '../../types/document-email';
 import { canRecipientBeModified } from '../../utils/recipients';
 import { renderEmailWithI18N } from '../../utils/render-email-with-i18n';
 import { teamGlobalSettingsToBranding } from '../../utils/team-global-settings-to-branding';
+import { resetDocumentSigningRouting } from '../document/reset-document-signing-routing';
+import { assertTeamPermission } from '../team/assert-team-permission';
 
 export interface SetDocumentRecipientsOptions {
   userId: number;
@@ -47,6 +52,10 @@ export const setDocumentRecipients = async ({
   recipients,
   requestMetadata,
 }: SetDocumentRecipientsOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_DOCUMENTS });
+  }
+
   const document = await prisma.document.findFirst({
     where: {
       id: documentId,
@@ -123,6 +132,14 @@ export const setDocumentRecipients = async ({
     },
   });
 
+  const existingVerifications = await prisma.signerVerification.findMany({
+    where: {
+      recipientId: {
+        in: existingRecipients.map((recipient) => recipient.id),
+      },
+    },
+  });
+
   const removedRecipients = existingRecipients.filter(
     (existingRecipient) =>
       !normalizedRecipients.find(
@@ -131,15 +148,53 @@ export const setDocumentRecipients = async ({
       ),
   );
 
+  // Removing a recipient would also remove the signatures they have already captured.
+  const hasRemovedRecipientInteracted = removedRecipients.some(
+    (recipient) => !canRecipientBeModified(recipient, document.fields),
+  );
+
+  if (hasRemovedRecipientInteracted) {
+    throw new AppError(AppErrorCode.INVALID_REQUEST, {
+      message: 'Cannot remove a recipient who has already interacted with the document',
+    });
+  }
+
   const linkedRecipients = normalizedRecipients.map((recipient) => {
     const existing = existingRecipients.find(
       (existingRecipient) =>
         existingRecipient.id === recipient.id || existingRecipient.email === recipient.email,
     );
 
+    const existingVerification = existingVerifications.find(
+      (verification) => verification.recipientId === existing?.id,
+    );
+
+    const existingPhone = existingVerification?.smsVerificationPhone ?? null;
+
+    const existingAuthOptions = ZRecipientAuthOptionsSchema.parse(existing?.authOptions);
+
+    const accessAuth = recipient.accessAuth || existingAuthOptions.accessAuth;
+    const actionAuth = recipient.actionAuth || existingAuthOptions.actionAuth;
+
+    if (
+      accessAuth === DocumentAuth.ACCESS_CODE &&
+      !recipient.accessCode &&
+      !existingVerification?.accessCodeHash
+    ) {
+      throw new AppError(AppErrorCode.INVALID_REQUEST, {
+        message: 'Recipients verified by access code require an access code',
+      });
+    }
+
+    if (actionAuth === DocumentAuth.SMS_OTP && !recipient.smsVerificationPhone && !existingPhone) {
+      throw new AppError(AppErrorCode.INVALID_REQUEST, {
+        message: 'Recipients verified by SMS require a phone number',
+      });
+    }
+
     if (
       existing &&
-      hasRecipientBeenChanged(existing, recipient) &&
+      hasRecipientBeenChanged(existing, recipient, existingPhone) &&
       !canRecipientBeModified(existing, document.fields)
     ) {
       throw new AppError(AppErrorCode.INVALID_REQUEST, {
@@ -165,6 +220,13 @@ export const setDocumentRecipients = async ({
           });
         }
 
+        const hasRoleChanged = recipient._persisted?.role !== recipient.role;
+        const hasEmailChanged = recipient._persisted?.email !== recipient.email;
+
+        // Correcting the email of a recipient on a sent document replaces their signing link, so
+        // the link sent to the previous address stops working and the new address is invited.
+        const isCorrectedRecipient = document.status !== DocumentStatus.DRAFT && hasEmailChanged;
+
         const upsertedRecipient = await tx.recipient.upsert({
           where: {
             id: recipient._persisted?.id ?? -1,
@@ -176,9 +238,26 @@ export const setDocumentRecipients = async ({
             role: recipient.role,
             signingOrder: recipient.signingOrder,
             documentId,
-            sendStatus: recipient.role === RecipientRole.CC ? SendStatus.SENT : SendStatus.NOT_SENT,
-            signingStatus:
-              recipient.role === RecipientRole.CC ? SigningStatus.SIGNED : SigningStatus.NOT_SIGNED,
+            // Keep the progress of recipients who are only renamed or reordered so signatures
+            // already captured on a pending document are preserved.
+            ...(hasRoleChanged || hasEmailChanged
+              ? {
+                  sendStatus:
+                    recipient.role === RecipientRole.CC ? SendStatus.SENT : SendStatus.NOT_SENT,
+                  signingStatus:
+                    recipient.role === RecipientRole.CC
+                      ? SigningStatus.SIGNED
+                      : SigningStatus.NOT_SIGNED,
+                }
+              : {}),
+            ...(isCorrectedRecipient
+              ? {
+                  token: nanoid(),
+                  readStatus: ReadStatus.NOT_OPENED,
+                  remindersSent: 0,
+                  nextReminderAt: null,
+                }
+              : {}),
             authOptions,
           },
           create: {
@@ -197,6 +276,42 @@ export const setDocumentRecipients = async ({
 
         const recipientId = upsertedRecipient.id;
 
+        if (recipient.accessCode) {
+          const accessCodeHash = await hash(recipient.accessCode, SALT_ROUNDS);
+
+          await tx.signerVerification.upsert({
+            where: {
+              recipientId,
+            },
+            create: {
+              recipientId,
+              accessCodeHash,
+            },
+            update: {
+              accessCodeHash,
+              accessCodeAttempts: 0,
+              accessCodeLockedUntil: null,
+            },
+          });
+        }
+
+        if (recipient.smsVerificationPhone) {
+          await tx.signerVerification.upsert({
+            where: {
+              recipientId,
+            },
+            create: {
+              recipientId,
+              smsVerificationEnabled: true,
+              smsVerificationPhone: recipient.smsVerificationPhone,
+            },
+            update: {
+              smsVerificationEnabled: true,
+              smsVerificationPhone: recipient.smsVerificationPhone,
+            },
+          });
+        }
+
         // Clear all fields if the recipient role is changed to a type that cannot have fields.
         if (
           recipient._persisted &&
@@ -331,6 +446,11 @@ export const setDocumentRecipients = async ({
     );
   }
 
+  // Corrections can change who the signing routing skips, so skips that no longer apply are undone.
+  if (document.status === DocumentStatus.PENDING) {
+    await resetDocumentSigningRouting({ documentId });
+  }
+
   // Filter out recipients that have been removed or have been updated.
   const filteredRecipients: Recipient[] = existingRecipients.filter((recipient) => {
     const isRemoved = removedRecipients.find(
@@ -359,9 +479,15 @@ type RecipientData = {
   signingOrder?: number | null;
   accessAuth?: TRecipientAccessAuthTypes | null;
   actionAuth?: TRecipientActionAuthTypes | null;
+  accessCode?: string | null;
+  smsVerificationPhone?: string | null;
 };
 
-const hasRecipientBeenChanged = (recipient: Recipient, newRecipientData: RecipientData) => {
+const hasRecipientBeenChanged = (
+  recipient: Recipient,
+  newRecipientData: RecipientData,
+  smsVerificationPhone: string | null,
+) => {
   const authOptions = ZRecipientAuthOptionsSchema.parse(recipient.authOptions);
 
   const newRecipientAccessAuth = newRecipientData.accessAuth || null;
@@ -373,6 +499,10 @@ const hasRecipientBeenChanged = (recipient: Recipient, newRecipientData: Recipie
     recipient.role !== newRecipientData.role ||
     recipient.signingOrder !== newRecipientData.signingOrder ||
     authOptions.accessAuth !== newRecipientAccessAuth ||
-    authOptions.actionAuth !== newRecipientActionAuth
+    authOptions.actionAuth !== newRecipientActionAuth ||
+    // Access codes are hashed so any provided code is treated as a change.
+    Boolean(newRecipientData.accessCode) ||
+    (newRecipientData.smsVerificationPhone !== undefined &&
+      newRecipientData.smsVerificationPhone !== smsVerificationPhone)
   );
 };
@@ -0,0 +1,75 @@
+import { IDVerificationService } from '@documenso/ee/server-only/verification/id-verification';
+import { prisma } from '@documenso/prisma';
+import { DocumentStatus, SigningStatus } from '@documenso/prisma/client';
+
+import { AppError, AppErrorCode } from '../../errors/app-error';
+import { DocumentAuth } from '../../types/document-auth';
+import type { TIdVerificationDocumentType } from '../../types/id-verification';
+import type { RequestMetadata } from '../../universal/extract-request-metadata';
+import { extractDocumentAuthMethods } from '../../utils/document-auth';
+
+export type SubmitRecipientIdVerificationOptions = {
+  token: string;
+  documentId: number;
+  documentType: TIdVerificationDocumentType;
+  frontImage: string;
+  backImage?: string;
+  requestMetadata?: RequestMetadata;
+};
+
+/**
+ * Submits the identity document of a recipient who must verify their identity
+ * before signing.
+ */
+export const submitRecipientIdVerification = async ({
+  token,
+  documentId,
+  documentType,
+  frontImage,
+  backImage,
+  requestMetadata,
+}: SubmitRecipientIdVerificationOptions) => {
+  const recipient = await prisma.recipient.findFirst({
+    where: {
+      token,
+      documentId,
+    },
+    include: {
+      document: true,
+    },
+  });
+
+  if (!recipient?.document) {
+    throw new AppError(AppErrorCode.NOT_FOUND, {
+      message: 'Document or recipient not found',
+    });
+  }
+
+  if (
+    recipient.document.status !== DocumentStatus.PENDING ||
+    recipient.signingStatus !== SigningStatus.NOT_SIGNED
+  ) {
+    throw new AppError(AppErrorCode.INVALID_REQUEST, {
+      message: 'Document is not awaiting a signature from this recipient',
+    });
+  }
+
+  const { derivedRecipientActionAuth } = extractDocumentAuthMethods({
+    documentAuth: recipient.document.authOptions,
+    recipientAuth: recipient.authOptions,
+  });
+
+  if (derivedRecipientActionAuth !== DocumentAuth.ID_VERIFICATION) {
+    throw new AppError(AppErrorCode.INVALID_REQUEST, {
+      message: 'Recipient does not require ID verification',
+    });
+  }
+
+  return await new IDVerificationService().verifyID({
+    recipientId: recipient.id,
+    idType: documentType,
+    idImageFront: frontImage,
+    idImageBack: backImage,
+    requestMetadata,
+  });
+};
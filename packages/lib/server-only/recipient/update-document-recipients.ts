@@ -14,10 +14,11 @@ import { createRecipientAuthOptions } from '@documenso/lib/utils/document-auth';
 import { prisma } from '@documenso/prisma';
 import type { Recipient } from '@documenso/prisma/client';
 import { RecipientRole } from '@documenso/prisma/client';
-import { SendStatus, SigningStatus } from '@documenso/prisma/client';
+import { SendStatus, SigningStatus, TeamPermission } from '@documenso/prisma/client';
 
 import { AppError, AppErrorCode } from '../../errors/app-error';
 import { canRecipientBeModified } from '../../utils/recipients';
+import { assertTeamPermission } from '../team/assert-team-permission';
 
 export interface UpdateDocumentRecipientsOptions {
   userId: number;
@@ -34,6 +35,10 @@ export const updateDocumentRecipients = async ({
   recipients,
   requestMetadata,
 }: UpdateDocumentRecipientsOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_DOCUMENTS });
+  }
+
   const document = await prisma.document.findFirst({
     where: {
       id: documentId,
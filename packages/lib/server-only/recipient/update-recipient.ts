@@ -1,6 +1,7 @@
 import { isUserEnterprise } from '@documenso/ee/server-only/util/is-document-enterprise';
 import { prisma } from '@documenso/prisma';
 import type { RecipientRole, Team } from '@documenso/prisma/client';
+import { TeamPermission } from '@documenso/prisma/client';
 
 import { AppError, AppErrorCode } from '../../errors/app-error';
 import { DOCUMENT_AUDIT_LOG_TYPE } from '../../types/document-audit-logs';
@@ -11,6 +12,7 @@ import {
 import type { RequestMetadata } from '../../universal/extract-request-metadata';
 import { createDocumentAuditLogData, diffRecipientChanges } from '../../utils/document-audit-logs';
 import { createRecipientAuthOptions } from '../../utils/document-auth';
+import { assertTeamPermission } from '../team/assert-team-permission';
 
 export type UpdateRecipientOptions = {
   documentId: number;
@@ -37,6 +39,10 @@ export const updateRecipient = async ({
   teamId,
   requestMetadata,
 }: UpdateRecipientOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_DOCUMENTS });
+  }
+
   const recipient = await prisma.recipient.findFirst({
     where: {
       id: recipientId,
@@ -0,0 +1,149 @@
+import { compare } from '@node-rs/bcrypt';
+
+import { prisma } from '@documenso/prisma';
+
+import { AppError, AppErrorCode } from '../../errors/app-error';
+import { DOCUMENT_AUDIT_LOG_TYPE } from '../../types/document-audit-logs';
+import { DocumentAuth } from '../../types/document-auth';
+import type { RequestMetadata } from '../../universal/extract-request-metadata';
+import { createDocumentAuditLogData } from '../../utils/document-audit-logs';
+
+const MAXIMUM_ACCESS_CODE_ATTEMPTS = 5;
+
+const ACCESS_CODE_LOCKOUT_DURATION = 15 * 60 * 1000; // 15 minutes
+
+export type VerifyRecipientAccessCodeOptions = {
+  recipientId: number;
+  code: string;
+  requestMetadata?: RequestMetadata;
+};
+
+/**
+ * Verify the access code a sender has set for a recipient.
+ *
+ * Every failed attempt is recorded in the audit log and the recipient is locked out
+ * for a period of time after too many failed attempts.
+ */
+export const verifyRecipientAccessCode = async ({
+  recipientId,
+  code,
+  requestMetadata,
+}: VerifyRecipientAccessCodeOptions) => {
+  const recipient = await prisma.recipient.findFirst({
+    where: {
+      id: recipientId,
+    },
+    include: {
+      verification: true,
+    },
+  });
+
+  if (!recipient?.documentId) {
+    throw new AppError(AppErrorCode.NOT_FOUND, {
+      message: 'Recipient not found',
+    });
+  }
+
+  const { documentId, verification } = recipient;
+
+  if (!verification?.accessCodeHash) {
+    throw new AppError(AppErrorCode.NOT_SETUP, {
+      message: 'No access code has been set for this recipient',
+    });
+  }
+
+  const { accessCodeHash } = verification;
+
+  // The attempt is counted before the code is compared so parallel guesses can't exceed the
+  // maximum number of attempts, the update fails while the recipient is locked out. Counting it
+  // locks the verification until the transaction ends, so a correct code resets the attempts
+  // before the next one is counted.
+  const isValid = await prisma.$transaction(async (tx) => {
+    const countedVerification = await tx.signerVerification
+      .update({
+        where: {
+          recipientId,
+          OR: [{ accessCodeLockedUntil: null }, { accessCodeLockedUntil: { lte: new Date() } }],
+        },
+        data: {
+          accessCodeAttempts: {
+            increment: 1,
+          },
+        },
+      })
+      .catch(() => null);
+
+    if (
+      !countedVerification ||
+      countedVerification.accessCodeAttempts > MAXIMUM_ACCESS_CODE_ATTEMPTS
+    ) {
+      throw new AppError(AppErrorCode.TOO_MANY_REQUESTS, {
+        message: 'Too many failed access code attempts',
+        userMessage: 'Too many failed attempts. Please try again later.',
+      });
+    }
+
+    const attempts = countedVerification.accessCodeAttempts;
+
+    if (await compare(code.trim(), accessCodeHash)) {
+      await tx.signerVerification.update({
+        where: {
+          recipientId,
+        },
+        data: {
+          accessCodeAttempts: 0,
+          accessCodeLockedUntil: null,
+        },
+      });
+
+      return true;
+    }
+
+    const isLockedOut = attempts >= MAXIMUM_ACCESS_CODE_ATTEMPTS;
+
+    if (isLockedOut) {
+      await tx.signerVerification.update({
+        where: {
+          recipientId,
+        },
+        data: {
+          // The attempts are reset once locked out so the recipient gets a fresh set
+          // of attempts after the lockout expires.
+          accessCodeAttempts: 0,
+          accessCodeLockedUntil: new Date(Date.now() + ACCESS_CODE_LOCKOUT_DURATION),
+        },
+      });
+    }
+
+    await tx.documentAuditLog.create({
+      data: createDocumentAuditLogData({
+        type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_ACCESS_AUTH_FAILED,
+        documentId,
+        user: {
+          name: recipient.name,
+          email: recipient.email,
+        },
+        requestMetadata,
+        data: {
+          recipientEmail: recipient.email,
+          recipientId: recipient.id,
+          recipientName: recipient.name,
+          recipientRole: recipient.role,
+          accessAuth: DocumentAuth.ACCESS_CODE,
+          attempts,
+          isLockedOut,
+        },
+      }),
+    });
+
+    return false;
+  });
+
+  if (isValid) {
+    return { success: true, verified: true };
+  }
+
+  throw new AppError(AppErrorCode.UNAUTHORIZED, {
+    message: 'Invalid access code',
+  });
+};
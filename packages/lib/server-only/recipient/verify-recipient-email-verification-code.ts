@@ -0,0 +1,95 @@
+import { prisma } from '@documenso/prisma';
+
+import {
+  MAXIMUM_VERIFICATION_CODE_ATTEMPTS,
+  VERIFICATION_CODE_SESSION_DURATION,
+} from '../../constants/document-auth';
+import { AppError, AppErrorCode } from '../../errors/app-error';
+import { hashString } from '../auth/hash';
+
+export type VerifyRecipientEmailVerificationCodeOptions = {
+  recipientId: number;
+  code: string;
+};
+
+/**
+ * Verify a one-time code emailed to a recipient.
+ *
+ * A verified code is kept alive for a sliding session so a recipient isn't emailed a new
+ * code for every page load or field they sign.
+ */
+export const verifyRecipientEmailVerificationCode = async ({
+  recipientId,
+  code,
+}: VerifyRecipientEmailVerificationCodeOptions) => {
+  const verification = await prisma.signerVerification.findUnique({
+    where: {
+      recipientId,
+    },
+  });
+
+  if (!verification?.emailVerificationCode || !verification.emailVerificationCodeExpiresAt) {
+    throw new AppError(AppErrorCode.NOT_FOUND, {
+      message: 'No verification code found',
+    });
+  }
+
+  if (verification.emailVerificationCodeExpiresAt < new Date()) {
+    throw new AppError(AppErrorCode.EXPIRED_CODE, {
+      message: 'Verification code has expired',
+    });
+  }
+
+  // The attempt is counted before the code is compared so parallel guesses can't exceed the
+  // maximum number of attempts. Counting it locks the verification until the transaction ends,
+  // so a correct code gives its attempt back before the next one is counted.
+  const isValid = await prisma.$transaction(async (tx) => {
+    const countedVerification = await tx.signerVerification
+      .update({
+        where: {
+          recipientId,
+          emailVerificationAttempts: {
+            lt: MAXIMUM_VERIFICATION_CODE_ATTEMPTS,
+          },
+        },
+        data: {
+          emailVerificationAttempts: {
+            increment: 1,
+          },
+        },
+      })
+      .catch(() => null);
+
+    if (!countedVerification) {
+      throw new AppError(AppErrorCode.TOO_MANY_REQUESTS, {
+        message: 'Too many verification attempts',
+      });
+    }
+
+    if (countedVerification.emailVerificationCode !== hashString(code)) {
+      return false;
+    }
+
+    await tx.signerVerification.update({
+      where: {
+        recipientId,
+      },
+      data: {
+        emailVerificationAttempts: {
+          decrement: 1,
+        },
+        emailVerificationCodeExpiresAt: new Date(Date.now() + VERIFICATION_CODE_SESSION_DURATION),
+      },
+    });
+
+    return true;
+  });
+
+  if (!isValid) {
+    throw new AppError(AppErrorCode.UNAUTHORIZED, {
+      message: 'Invalid verification code',
+    });
+  }
+
+  return { success: true, verified: true };
+};
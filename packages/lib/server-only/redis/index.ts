@@ -6,3 +6,7 @@ export const redis = new Redis({
   url: process.env.NEXT_PRIVATE_REDIS_URL ?? '',
   token: process.env.NEXT_PRIVATE_REDIS_TOKEN ?? '',
 });
+
+export const isRedisConfigured = () => {
+  return !!process.env.NEXT_PRIVATE_REDIS_URL && !!process.env.NEXT_PRIVATE_REDIS_TOKEN;
+};
@@ -0,0 +1,46 @@
+import { prisma } from '@documenso/prisma';
+import type { TeamPermission } from '@documenso/prisma/client';
+
+import { AppError, AppErrorCode } from '../../errors/app-error';
+import { hasTeamPermission } from '../../utils/teams';
+
+export type AssertTeamPermissionOptions = {
+  userId: number;
+  teamId: number;
+  permission: TeamPermission;
+};
+
+/**
+ * Ensure the user is a member of the team and has been granted the provided permission.
+ */
+export const assertTeamPermission = async ({
+  userId,
+  teamId,
+  permission,
+}: AssertTeamPermissionOptions) => {
+  const teamMember = await prisma.teamMember.findUnique({
+    where: {
+      userId_teamId: {
+        userId,
+        teamId,
+      },
+    },
+    include: {
+      customRole: true,
+    },
+  });
+
+  if (!teamMember) {
+    throw new AppError(AppErrorCode.NOT_FOUND, {
+      message: 'Team not found',
+    });
+  }
+
+  if (!hasTeamPermission(teamMember, permission)) {
+    throw new AppError(AppErrorCode.FORBIDDEN, {
+      message: 'You do not have the required permissions to perform this action.',
+    });
+  }
+
+  return teamMember;
+};
@@ -0,0 +1,51 @@
+import { TEAM_MEMBER_ROLE_PERMISSIONS_MAP } from '@documenso/lib/constants/teams';
+import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
+import { prisma } from '@documenso/prisma';
+import type { TeamPermission } from '@documenso/prisma/client';
+import { Prisma } from '@documenso/prisma/client';
+
+export type CreateTeamRoleOptions = {
+  userId: number;
+  teamId: number;
+  data: {
+    name: string;
+    description?: string;
+    permissions: TeamPermission[];
+  };
+};
+
+export const createTeamRole = async ({ userId, teamId, data }: CreateTeamRoleOptions) => {
+  await prisma.team.findFirstOrThrow({
+    where: {
+      id: teamId,
+      members: {
+        some: {
+          userId,
+          role: {
+            in: TEAM_MEMBER_ROLE_PERMISSIONS_MAP['MANAGE_TEAM_ROLES'],
+          },
+        },
+      },
+    },
+  });
+
+  try {
+    return await prisma.teamRole.create({
+      data: {
+        teamId,
+        name: data.name,
+        description: data.description,
+        permissions: [...new Set(data.permissions)],
+      },
+    });
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+      throw new AppError(AppErrorCode.ALREADY_EXISTS, {
+        message: 'A role with this name already exists.',
+        userMessage: 'A role with this name already exists.',
+      });
+    }
+
+    throw err;
+  }
+};
@@ -0,0 +1,32 @@
+import { TEAM_MEMBER_ROLE_PERMISSIONS_MAP } from '@documenso/lib/constants/teams';
+import { prisma } from '@documenso/prisma';
+
+export type DeleteTeamRoleOptions = {
+  userId: number;
+  teamId: number;
+  roleId: number;
+};
+
+/**
+ * Delete a custom team role.
+ *
+ * Members assigned to the role fall back to the default permissions of their base role.
+ */
+export const deleteTeamRole = async ({ userId, teamId, roleId }: DeleteTeamRoleOptions) => {
+  await prisma.teamRole.delete({
+    where: {
+      id: roleId,
+      team: {
+        id: teamId,
+        members: {
+          some: {
+            userId,
+            role: {
+              in: TEAM_MEMBER_ROLE_PERMISSIONS_MAP['MANAGE_TEAM_ROLES'],
+            },
+          },
+        },
+      },
+    },
+  });
+};
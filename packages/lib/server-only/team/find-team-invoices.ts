@@ -1,7 +1,9 @@
 import { getInvoices } from '@documenso/ee/server-only/stripe/get-invoices';
-import { TEAM_MEMBER_ROLE_PERMISSIONS_MAP } from '@documenso/lib/constants/teams';
 import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
 import { prisma } from '@documenso/prisma';
+import { TeamPermission } from '@documenso/prisma/client';
+
+import { assertTeamPermission } from './assert-team-permission';
 
 export interface FindTeamInvoicesOptions {
   userId: number;
@@ -9,17 +11,11 @@ export interface FindTeamInvoicesOptions {
 }
 
 export const findTeamInvoices = async ({ userId, teamId }: FindTeamInvoicesOptions) => {
+  await assertTeamPermission({ userId, teamId, permission: TeamPermission.VIEW_BILLING });
+
   const team = await prisma.team.findUniqueOrThrow({
     where: {
       id: teamId,
-      members: {
-        some: {
-          userId,
-          role: {
-            in: TEAM_MEMBER_ROLE_PERMISSIONS_MAP['MANAGE_TEAM'],
-          },
-        },
-      },
     },
   });
 
@@ -4,7 +4,7 @@ import type { z } from 'zod';
 import { prisma } from '@documenso/prisma';
 import type { TeamMember } from '@documenso/prisma/client';
 import { Prisma } from '@documenso/prisma/client';
-import { TeamMemberSchema, UserSchema } from '@documenso/prisma/generated/zod';
+import { TeamMemberSchema, TeamRoleSchema, UserSchema } from '@documenso/prisma/generated/zod';
 
 import type { FindResultResponse } from '../../types/search-params';
 import { ZFindResultResponse } from '../../types/search-params';
@@ -27,6 +27,10 @@ export const ZFindTeamMembersResponseSchema = ZFindResultResponse.extend({
       name: true,
       email: true,
     }),
+    customRole: TeamRoleSchema.pick({
+      id: true,
+      name: true,
+    }).nullable(),
   }).array(),
 });
 
@@ -97,6 +101,12 @@ export const findTeamMembers = async ({
             email: true,
           },
         },
+        customRole: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
       },
     }),
     prisma.teamMember.count({
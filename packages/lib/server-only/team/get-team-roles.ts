@@ -0,0 +1,34 @@
+import { prisma } from '@documenso/prisma';
+
+export type GetTeamRolesOptions = {
+  userId: number;
+  teamId: number;
+};
+
+/**
+ * Get all the custom roles for a given team.
+ */
+export const getTeamRoles = async ({ userId, teamId }: GetTeamRolesOptions) => {
+  return await prisma.teamRole.findMany({
+    where: {
+      team: {
+        id: teamId,
+        members: {
+          some: {
+            userId,
+          },
+        },
+      },
+    },
+    include: {
+      _count: {
+        select: {
+          members: true,
+        },
+      },
+    },
+    orderBy: {
+      name: 'asc',
+    },
+  });
+};
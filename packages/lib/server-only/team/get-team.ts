@@ -5,6 +5,7 @@ import type { Prisma } from '@documenso/prisma/client';
 import {
   TeamEmailSchema,
   TeamGlobalSettingsSchema,
+  TeamRoleSchema,
   TeamSchema,
 } from '@documenso/prisma/generated/zod';
 import { TeamMemberSchema } from '@documenso/prisma/generated/zod';
@@ -19,7 +20,15 @@ export const ZGetTeamByIdResponseSchema = TeamSchema.extend({
   teamGlobalSettings: TeamGlobalSettingsSchema.nullable(),
   currentTeamMember: TeamMemberSchema.pick({
     role: true,
-  }).nullable(),
+  })
+    .extend({
+      customRole: TeamRoleSchema.pick({
+        id: true,
+        name: true,
+        permissions: true,
+      }).nullable(),
+    })
+    .nullable(),
 });
 
 export type TGetTeamByIdResponse = z.infer<typeof ZGetTeamByIdResponseSchema>;
@@ -56,6 +65,13 @@ export const getTeamById = async ({
         },
         select: {
           role: true,
+          customRole: {
+            select: {
+              id: true,
+              name: true,
+              permissions: true,
+            },
+          },
         },
       },
     },
@@ -116,6 +132,13 @@ export const getTeamByUrl = async ({ userId, teamUrl }: GetTeamByUrlOptions) =>
         },
         select: {
           role: true,
+          customRole: {
+            select: {
+              id: true,
+              name: true,
+              permissions: true,
+            },
+          },
         },
       },
     },
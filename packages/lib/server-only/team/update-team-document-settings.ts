@@ -2,10 +2,11 @@ import type { z } from 'zod';
 
 import { prisma } from '@documenso/prisma';
 import type { DocumentVisibility } from '@documenso/prisma/client';
-import { TeamMemberRole } from '@documenso/prisma/client';
+import { Prisma, TeamMemberRole } from '@documenso/prisma/client';
 import { TeamGlobalSettingsSchema } from '@documenso/prisma/generated/zod';
 
 import type { SupportedLanguageCodes } from '../../constants/i18n';
+import type { TDocumentReminderSettings } from '../../types/document-reminders';
 
 export type UpdateTeamDocumentSettingsOptions = {
   userId: number;
@@ -17,6 +18,8 @@ export type UpdateTeamDocumentSettingsOptions = {
     includeSenderDetails: boolean;
     typedSignatureEnabled: boolean;
     includeSigningCertificate: boolean;
+    reminderSettings?: TDocumentReminderSettings | null;
+    documentExpiryDays?: number | null;
   };
 };
 
@@ -37,6 +40,8 @@ export const updateTeamDocumentSettings = async ({
     includeSenderDetails,
     includeSigningCertificate,
     typedSignatureEnabled,
+    reminderSettings,
+    documentExpiryDays,
   } = settings;
 
   const member = await prisma.teamMember.findFirst({
@@ -61,6 +66,8 @@ export const updateTeamDocumentSettings = async ({
       includeSenderDetails,
       typedSignatureEnabled,
       includeSigningCertificate,
+      reminderSettings: reminderSettings === null ? Prisma.DbNull : reminderSettings,
+      documentExpiryDays,
     },
     update: {
       documentVisibility,
@@ -68,6 +75,8 @@ export const updateTeamDocumentSettings = async ({
       includeSenderDetails,
       typedSignatureEnabled,
       includeSigningCertificate,
+      reminderSettings: reminderSettings === null ? Prisma.DbNull : reminderSettings,
+      documentExpiryDays,
     },
   });
 };
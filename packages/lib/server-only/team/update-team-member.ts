@@ -1,6 +1,9 @@
 import { TEAM_MEMBER_ROLE_PERMISSIONS_MAP } from '@documenso/lib/constants/teams';
 import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
-import { isTeamRoleWithinUserHierarchy } from '@documenso/lib/utils/teams';
+import {
+  getTeamMemberPermissions,
+  isTeamRoleWithinUserHierarchy,
+} from '@documenso/lib/utils/teams';
 import { prisma } from '@documenso/prisma';
 import type { TeamMemberRole } from '@documenso/prisma/client';
 
@@ -10,6 +13,12 @@ export type UpdateTeamMemberOptions = {
   teamMemberId: number;
   data: {
     role: TeamMemberRole;
+    /**
+     * The custom role to assign, or `null` to fall back to the base role's permissions.
+     *
+     * Leaving this undefined keeps the member's current custom role.
+     */
+    customRoleId?: number | null;
   };
 };
 
@@ -39,8 +48,10 @@ export const updateTeamMember = async ({
             id: true,
             userId: true,
             role: true,
+            customRole: true,
           },
         },
+        roles: true,
       },
     });
 
@@ -77,6 +88,27 @@ export const updateTeamMember = async ({
       });
     }
 
+    if (data.customRoleId) {
+      const customRole = team.roles.find((role) => role.id === data.customRoleId);
+
+      if (!customRole) {
+        throw new AppError(AppErrorCode.NOT_FOUND, { message: 'Team role does not exist' });
+      }
+
+      const currentMemberPermissions = getTeamMemberPermissions(currentTeamMember);
+
+      const isCustomRoleHigherThanCurrentPermissions = customRole.permissions.some(
+        (permission) => !currentMemberPermissions.includes(permission),
+      );
+
+      if (isCustomRoleHigherThanCurrentPermissions) {
+        throw new AppError(AppErrorCode.UNAUTHORIZED, {
+          message:
+            'Cannot assign a role with permissions the user initiating the update does not have',
+        });
+      }
+    }
+
     return await tx.teamMember.update({
       where: {
         id: teamMemberId,
@@ -87,6 +119,7 @@ export const updateTeamMember = async ({
       },
       data: {
         role: data.role,
+        customRoleId: data.customRoleId,
       },
     });
   });
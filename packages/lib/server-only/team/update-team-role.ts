@@ -0,0 +1,51 @@
+import { TEAM_MEMBER_ROLE_PERMISSIONS_MAP } from '@documenso/lib/constants/teams';
+import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
+import { prisma } from '@documenso/prisma';
+import type { TeamPermission } from '@documenso/prisma/client';
+import { Prisma } from '@documenso/prisma/client';
+
+export type UpdateTeamRoleOptions = {
+  userId: number;
+  teamId: number;
+  roleId: number;
+  data: {
+    name?: string;
+    description?: string;
+    permissions?: TeamPermission[];
+  };
+};
+
+export const updateTeamRole = async ({ userId, teamId, roleId, data }: UpdateTeamRoleOptions) => {
+  try {
+    return await prisma.teamRole.update({
+      where: {
+        id: roleId,
+        team: {
+          id: teamId,
+          members: {
+            some: {
+              userId,
+              role: {
+                in: TEAM_MEMBER_ROLE_PERMISSIONS_MAP['MANAGE_TEAM_ROLES'],
+              },
+            },
+          },
+        },
+      },
+      data: {
+        name: data.name,
+        description: data.description,
+        permissions: data.permissions ? [...new Set(data.permissions)] : undefined,
+      },
+    });
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+      throw new AppError(AppErrorCode.ALREADY_EXISTS, {
+        message: 'A role with this name already exists.',
+        userMessage: 'A role with this name already exists.',
+      });
+    }
+
+    throw err;
+  }
+};
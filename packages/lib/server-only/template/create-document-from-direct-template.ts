@@ -30,11 +30,17 @@ import { DEFAULT_DOCUMENT_TIME_ZONE } from '../../constants/time-zones';
 import { AppError, AppErrorCode } from '../../errors/app-error';
 import { DOCUMENT_AUDIT_LOG_TYPE } from '../../types/document-audit-logs';
 import type { TRecipientActionAuthTypes } from '../../types/document-auth';
-import { DocumentAccessAuth, ZRecipientAuthOptionsSchema } from '../../types/document-auth';
+import {
+  DocumentAccessAuth,
+  RecipientAccessAuth,
+  ZRecipientAuthOptionsSchema,
+} from '../../types/document-auth';
 import { ZFieldMetaSchema } from '../../types/field-meta';
 import {
+  ZWebhookDirectTemplateSubmittedSchema,
   ZWebhookDocumentSchema,
   mapDocumentToWebhookDocumentPayload,
+  mapRecipientToWebhookRecipientEventPayload,
 } from '../../types/webhook-payload';
 import type { ApiRequestMetadata } from '../../universal/extract-request-metadata';
 import type { CreateDocumentAuditLogDataResponse } from '../../utils/document-audit-logs';
@@ -151,6 +157,10 @@ export const createDocumentFromDirectTemplate = async ({
   // Ensure typesafety when we add more options.
   const isAccessAuthValid = match(derivedRecipientAccessAuth)
     .with(DocumentAccessAuth.ACCOUNT, () => user && user?.email === directRecipientEmail)
+    // Direct link recipients provide their own email, so there is no address to verify yet.
+    .with(DocumentAccessAuth.EMAIL_OTP, () => true)
+    // Access codes are only set on individual recipients, never on the template.
+    .with(RecipientAccessAuth.ACCESS_CODE, () => true)
     .with(null, () => true)
     .exhaustive();
 
@@ -174,65 +184,73 @@ export const createDocumentFromDirectTemplate = async ({
     template.templateMeta?.language ?? template.team?.teamGlobalSettings?.documentLanguage;
   const metaSigningOrder = template.templateMeta?.signingOrder || DocumentSigningOrder.PARALLEL;
 
+  // Formula fields are calculated when the document is sealed so they are never provided.
+  const directTemplateFormulaFields = directTemplateRecipient.fields.filter(
+    (field) => field.type === FieldType.FORMULA,
+  );
+
   // Associate, validate and map to a query every direct template recipient field with the provided fields.
   const createDirectRecipientFieldArgs = await Promise.all(
-    directTemplateRecipient.fields.map(async (templateField) => {
-      const signedFieldValue = signedFieldValues.find(
-        (value) => value.fieldId === templateField.id,
-      );
-
-      if (!signedFieldValue) {
-        throw new AppError(AppErrorCode.INVALID_BODY, {
-          message: 'Invalid, missing or changed fields',
-        });
-      }
+    directTemplateRecipient.fields
+      .filter((field) => field.type !== FieldType.FORMULA)
+      .map(async (templateField) => {
+        const signedFieldValue = signedFieldValues.find(
+          (value) => value.fieldId === templateField.id,
+        );
+
+        if (!signedFieldValue) {
+          throw new AppError(AppErrorCode.INVALID_BODY, {
+            message: 'Invalid, missing or changed fields',
+          });
+        }
 
-      if (templateField.type === FieldType.NAME && directRecipientName === undefined) {
-        directRecipientName === signedFieldValue.value;
-      }
+        if (templateField.type === FieldType.NAME && directRecipientName === undefined) {
+          directRecipientName === signedFieldValue.value;
+        }
 
-      const derivedRecipientActionAuth = await validateFieldAuth({
-        documentAuthOptions: template.authOptions,
-        recipient: {
-          authOptions: directTemplateRecipient.authOptions,
-          email: directRecipientEmail,
-        },
-        field: templateField,
-        userId: user?.id,
-        authOptions: signedFieldValue.authOptions,
-      });
+        const derivedRecipientActionAuth = await validateFieldAuth({
+          documentAuthOptions: template.authOptions,
+          recipient: {
+            id: directTemplateRecipient.id,
+            authOptions: directTemplateRecipient.authOptions,
+            email: directRecipientEmail,
+          },
+          field: templateField,
+          userId: user?.id,
+          authOptions: signedFieldValue.authOptions,
+        });
 
-      const { value, isBase64 } = signedFieldValue;
+        const { value, isBase64 } = signedFieldValue;
 
-      const isSignatureField =
-        templateField.type === FieldType.SIGNATURE ||
-        templateField.type === FieldType.FREE_SIGNATURE;
+        const isSignatureField =
+          templateField.type === FieldType.SIGNATURE ||
+          templateField.type === FieldType.FREE_SIGNATURE;
 
-      let customText = !isSignatureField ? value : '';
+        let customText = !isSignatureField ? value : '';
 
-      const signatureImageAsBase64 = isSignatureField && isBase64 ? value : undefined;
-      const typedSignature = isSignatureField && !isBase64 ? value : undefined;
+        const signatureImageAsBase64 = isSignatureField && isBase64 ? value : undefined;
+        const typedSignature = isSignatureField && !isBase64 ? value : undefined;
 
-      if (templateField.type === FieldType.DATE) {
-        customText = DateTime.now().setZone(metaTimezone).toFormat(metaDateFormat);
-      }
+        if (templateField.type === FieldType.DATE) {
+          customText = DateTime.now().setZone(metaTimezone).toFormat(metaDateFormat);
+        }
 
-      if (isSignatureField && !signatureImageAsBase64 && !typedSignature) {
-        throw new Error('Signature field must have a signature');
-      }
+        if (isSignatureField && !signatureImageAsBase64 && !typedSignature) {
+          throw new Error('Signature field must have a signature');
+        }
 
-      return {
-        templateField,
-        customText,
-        derivedRecipientActionAuth,
-        signature: isSignatureField
-          ? {
-              signatureImageAsBase64,
-              typedSignature,
-            }
-          : null,
-      };
-    }),
+        return {
+          templateField,
+          customText,
+          derivedRecipientActionAuth,
+          signature: isSignatureField
+            ? {
+                signatureImageAsBase64,
+                typedSignature,
+              }
+            : null,
+        };
+      }),
   );
 
   const directTemplateNonSignatureFields = createDirectRecipientFieldArgs.filter(
@@ -305,6 +323,10 @@ export const createDocumentFromDirectTemplate = async ({
             language: metaLanguage,
             signingOrder: metaSigningOrder,
             distributionMethod: template.templateMeta?.distributionMethod,
+            reminderSettings:
+              template.templateMeta?.reminderSettings ||
+              template.team?.teamGlobalSettings?.reminderSettings ||
+              undefined,
           },
         },
       },
@@ -371,18 +393,32 @@ export const createDocumentFromDirectTemplate = async ({
         signingOrder: directTemplateRecipient.signingOrder,
         fields: {
           createMany: {
-            data: directTemplateNonSignatureFields.map(({ templateField, customText }) => ({
-              documentId: document.id,
-              type: templateField.type,
-              page: templateField.page,
-              positionX: templateField.positionX,
-              positionY: templateField.positionY,
-              width: templateField.width,
-              height: templateField.height,
-              customText,
-              inserted: true,
-              fieldMeta: templateField.fieldMeta || Prisma.JsonNull,
-            })),
+            data: [
+              ...directTemplateNonSignatureFields.map(({ templateField, customText }) => ({
+                documentId: document.id,
+                type: templateField.type,
+                page: templateField.page,
+                positionX: templateField.positionX,
+                positionY: templateField.positionY,
+                width: templateField.width,
+                height: templateField.height,
+                customText,
+                inserted: true,
+                fieldMeta: templateField.fieldMeta || Prisma.JsonNull,
+              })),
+              ...directTemplateFormulaFields.map((templateField) => ({
+                documentId: document.id,
+                type: templateField.type,
+                page: templateField.page,
+                positionX: templateField.positionX,
+                positionY: templateField.positionY,
+                width: templateField.width,
+                height: templateField.height,
+                customText: '',
+                inserted: false,
+                fieldMeta: templateField.fieldMeta || Prisma.JsonNull,
+              })),
+            ],
           },
         },
       },
@@ -435,10 +471,12 @@ export const createDocumentFromDirectTemplate = async ({
     );
 
     const createdDirectRecipientFields: CreatedDirectRecipientField[] = [
-      ...createdDirectRecipient.fields.map((field) => ({
-        field,
-        derivedRecipientActionAuth: null,
-      })),
+      ...createdDirectRecipient.fields
+        .filter((field) => field.inserted)
+        .map((field) => ({
+          field,
+          derivedRecipientActionAuth: null,
+        })),
       ...createdDirectRecipientSignatureFields,
     ];
 
@@ -516,6 +554,7 @@ export const createDocumentFromDirectTemplate = async ({
                 FieldType.CHECKBOX,
                 FieldType.DROPDOWN,
                 FieldType.RADIO,
+                FieldType.FORMULA,
                 (type) => ({
                   type,
                   data: field.customText,
@@ -623,6 +662,16 @@ export const createDocumentFromDirectTemplate = async ({
       userId: template.userId,
       teamId: template.teamId ?? undefined,
     });
+
+    await triggerWebhook({
+      event: WebhookTriggerEvents.DIRECT_TEMPLATE_SUBMITTED,
+      data: ZWebhookDirectTemplateSubmittedSchema.parse({
+        template,
+        ...mapRecipientToWebhookRecipientEventPayload(createdDocument, recipientId),
+      }),
+      userId: template.userId,
+      teamId: template.teamId ?? undefined,
+    });
   } catch (err) {
     console.error('[CREATE_DOCUMENT_FROM_DIRECT_TEMPLATE]:', err);
 
@@ -93,6 +93,10 @@ export const createDocumentFromTemplateLegacy = async ({
           dateFormat: template.templateMeta?.dateFormat,
           redirectUrl: template.templateMeta?.redirectUrl,
           signingOrder: template.templateMeta?.signingOrder ?? undefined,
+          reminderSettings:
+            template.templateMeta?.reminderSettings ||
+            template.team?.teamGlobalSettings?.reminderSettings ||
+            undefined,
           language:
             template.templateMeta?.language || template.team?.teamGlobalSettings?.documentLanguage,
         },
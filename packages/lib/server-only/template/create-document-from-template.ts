@@ -9,6 +9,7 @@ import {
   RecipientRole,
   SendStatus,
   SigningStatus,
+  TeamPermission,
   WebhookTriggerEvents,
 } from '@documenso/prisma/client';
 
@@ -17,9 +18,11 @@ import { AppError, AppErrorCode } from '../../errors/app-error';
 import { DOCUMENT_AUDIT_LOG_TYPE } from '../../types/document-audit-logs';
 import { ZRecipientAuthOptionsSchema } from '../../types/document-auth';
 import type { TDocumentEmailSettings } from '../../types/document-email';
+import type { TDocumentReminderSettings } from '../../types/document-reminders';
 import { ZFieldMetaSchema } from '../../types/field-meta';
 import {
   ZWebhookDocumentSchema,
+  ZWebhookTemplateUsedSchema,
   mapDocumentToWebhookDocumentPayload,
 } from '../../types/webhook-payload';
 import type { ApiRequestMetadata } from '../../universal/extract-request-metadata';
@@ -29,6 +32,7 @@ import {
   createRecipientAuthOptions,
   extractDocumentAuthMethods,
 } from '../../utils/document-auth';
+import { assertTeamPermission } from '../team/assert-team-permission';
 import { triggerWebhook } from '../webhooks/trigger/trigger-webhook';
 
 type FinalRecipient = Pick<
@@ -68,6 +72,7 @@ export type CreateDocumentFromTemplateOptions = {
     distributionMethod?: DocumentDistributionMethod;
     typedSignatureEnabled?: boolean;
     emailSettings?: TDocumentEmailSettings;
+    reminderSettings?: TDocumentReminderSettings;
   };
   requestMetadata: ApiRequestMetadata;
 };
@@ -82,6 +87,10 @@ export const createDocumentFromTemplate = async ({
   override,
   requestMetadata,
 }: CreateDocumentFromTemplateOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.SEND_DOCUMENTS });
+  }
+
   const template = await prisma.template.findUnique({
     where: {
       id: templateId,
@@ -208,6 +217,11 @@ export const createDocumentFromTemplate = async ({
             // last `undefined` is due to JsonValue's
             emailSettings:
               override?.emailSettings || template.templateMeta?.emailSettings || undefined,
+            reminderSettings:
+              override?.reminderSettings ||
+              template.templateMeta?.reminderSettings ||
+              template.team?.teamGlobalSettings?.reminderSettings ||
+              undefined,
             signingOrder:
               override?.signingOrder ||
               template.templateMeta?.signingOrder ||
@@ -325,6 +339,16 @@ export const createDocumentFromTemplate = async ({
       teamId,
     });
 
+    await triggerWebhook({
+      event: WebhookTriggerEvents.TEMPLATE_USED,
+      data: ZWebhookTemplateUsedSchema.parse({
+        template,
+        document: mapDocumentToWebhookDocumentPayload(createdDocument),
+      }),
+      userId,
+      teamId,
+    });
+
     return document;
   });
 };
@@ -1,9 +1,15 @@
 import type { z } from 'zod';
 
+import { assertStorageQuota } from '@documenso/ee/server-only/limits/record-usage';
 import { prisma } from '@documenso/prisma';
+import { TeamPermission, WebhookTriggerEvents } from '@documenso/prisma/client';
 import { TemplateSchema } from '@documenso/prisma/generated/zod';
 import type { TCreateTemplateMutationSchema } from '@documenso/trpc/server/template-router/schema';
 
+import { ZWebhookTemplateSchema } from '../../types/webhook-payload';
+import { assertTeamPermission } from '../team/assert-team-permission';
+import { triggerWebhook } from '../webhooks/trigger/trigger-webhook';
+
 export type CreateTemplateOptions = TCreateTemplateMutationSchema & {
   userId: number;
   teamId?: number;
@@ -19,6 +25,10 @@ export const createTemplate = async ({
   teamId,
   templateDocumentDataId,
 }: CreateTemplateOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_TEMPLATES });
+  }
+
   if (teamId) {
     await prisma.team.findFirstOrThrow({
       where: {
@@ -32,7 +42,15 @@ export const createTemplate = async ({
     });
   }
 
-  return await prisma.template.create({
+  const templateDocumentData = await prisma.documentData.findFirstOrThrow({
+    where: {
+      id: templateDocumentDataId,
+    },
+  });
+
+  await assertStorageQuota({ userId, teamId, size: templateDocumentData.size ?? 0 });
+
+  const template = await prisma.template.create({
     data: {
       title,
       userId,
@@ -40,4 +58,13 @@ export const createTemplate = async ({
       teamId,
     },
   });
+
+  await triggerWebhook({
+    event: WebhookTriggerEvents.TEMPLATE_CREATED,
+    data: ZWebhookTemplateSchema.parse(template),
+    userId,
+    teamId,
+  });
+
+  return template;
 };
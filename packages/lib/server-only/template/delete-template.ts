@@ -1,6 +1,9 @@
 'use server';
 
 import { prisma } from '@documenso/prisma';
+import { TeamPermission } from '@documenso/prisma/client';
+
+import { assertTeamPermission } from '../team/assert-team-permission';
 
 export type DeleteTemplateOptions = {
   id: number;
@@ -9,6 +12,10 @@ export type DeleteTemplateOptions = {
 };
 
 export const deleteTemplate = async ({ id, userId, teamId }: DeleteTemplateOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_TEMPLATES });
+  }
+
   return await prisma.template.delete({
     where: {
       id,
@@ -2,9 +2,14 @@ import { omit } from 'remeda';
 
 import { nanoid } from '@documenso/lib/universal/id';
 import { prisma } from '@documenso/prisma';
+import { TeamPermission, WebhookTriggerEvents } from '@documenso/prisma/client';
 import type { Prisma } from '@documenso/prisma/client';
 import type { TDuplicateTemplateMutationSchema } from '@documenso/trpc/server/template-router/schema';
 
+import { ZWebhookTemplateSchema } from '../../types/webhook-payload';
+import { assertTeamPermission } from '../team/assert-team-permission';
+import { triggerWebhook } from '../webhooks/trigger/trigger-webhook';
+
 export type DuplicateTemplateOptions = TDuplicateTemplateMutationSchema & {
   userId: number;
   teamId?: number;
@@ -15,6 +20,10 @@ export const duplicateTemplate = async ({
   userId,
   teamId,
 }: DuplicateTemplateOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_TEMPLATES });
+  }
+
   const template = await prisma.template.findUnique({
     where: {
       id: templateId,
@@ -61,6 +70,7 @@ export const duplicateTemplate = async ({
       create: {
         ...omit(template.templateMeta, ['id', 'templateId']),
         emailSettings: template.templateMeta.emailSettings || undefined,
+        reminderSettings: template.templateMeta.reminderSettings || undefined,
       },
     };
   }
@@ -112,5 +122,12 @@ export const duplicateTemplate = async ({
     }),
   });
 
+  await triggerWebhook({
+    event: WebhookTriggerEvents.TEMPLATE_CREATED,
+    data: ZWebhookTemplateSchema.parse(duplicatedTemplate),
+    userId,
+    teamId,
+  });
+
   return duplicatedTemplate;
 };
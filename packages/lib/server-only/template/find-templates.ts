@@ -10,6 +10,7 @@ import {
 
 import { AppError, AppErrorCode } from '../../errors/app-error';
 import { type FindResultResponse } from '../../types/search-params';
+import { getTeamMemberDocumentVisibilityRole } from '../../utils/teams';
 
 export type FindTemplatesOptions = {
   userId: number;
@@ -38,6 +39,9 @@ export const findTemplates = async ({
         userId,
         teamId,
       },
+      include: {
+        customRole: true,
+      },
     });
 
     if (!teamMember) {
@@ -50,7 +54,7 @@ export const findTemplates = async ({
       { teamId },
       {
         OR: [
-          match(teamMember.role)
+          match(getTeamMemberDocumentVisibilityRole(teamMember))
             .with(TeamMemberRole.ADMIN, () => ({
               visibility: {
                 in: [
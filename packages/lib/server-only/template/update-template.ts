@@ -2,11 +2,13 @@
 
 import { isUserEnterprise } from '@documenso/ee/server-only/util/is-document-enterprise';
 import { prisma } from '@documenso/prisma';
+import { Prisma, TeamPermission } from '@documenso/prisma/client';
 import type { DocumentVisibility, Template, TemplateMeta } from '@documenso/prisma/client';
 
 import { AppError, AppErrorCode } from '../../errors/app-error';
 import type { TDocumentAccessAuthTypes, TDocumentActionAuthTypes } from '../../types/document-auth';
 import { createDocumentAuthOptions, extractDocumentAuthMethods } from '../../utils/document-auth';
+import { assertTeamPermission } from '../team/assert-team-permission';
 
 export type UpdateTemplateOptions = {
   userId: number;
@@ -32,6 +34,10 @@ export const updateTemplate = async ({
   meta = {},
   data = {},
 }: UpdateTemplateOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_TEMPLATES });
+  }
+
   const template = await prisma.template.findFirstOrThrow({
     where: {
       id: templateId,
@@ -92,6 +98,8 @@ export const updateTemplate = async ({
     globalActionAuth: newGlobalActionAuth,
   });
 
+  const reminderSettings = meta?.reminderSettings === null ? Prisma.DbNull : meta?.reminderSettings;
+
   return await prisma.template.update({
     where: {
       id: templateId,
@@ -112,10 +120,12 @@ export const updateTemplate = async ({
           create: {
             ...meta,
             emailSettings: meta?.emailSettings || undefined,
+            reminderSettings,
           },
           update: {
             ...meta,
             emailSettings: meta?.emailSettings || undefined,
+            reminderSettings,
           },
         },
       },
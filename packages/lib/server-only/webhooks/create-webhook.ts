@@ -1,5 +1,8 @@
 import { prisma } from '@documenso/prisma';
 import type { WebhookTriggerEvents } from '@documenso/prisma/client';
+import { TeamPermission } from '@documenso/prisma/client';
+
+import { assertTeamPermission } from '../team/assert-team-permission';
 
 export interface CreateWebhookOptions {
   webhookUrl: string;
@@ -19,16 +22,7 @@ export const createWebhook = async ({
   teamId,
 }: CreateWebhookOptions) => {
   if (teamId) {
-    await prisma.team.findFirstOrThrow({
-      where: {
-        id: teamId,
-        members: {
-          some: {
-            userId,
-          },
-        },
-      },
-    });
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_WEBHOOKS });
   }
 
   return await prisma.webhook.create({
@@ -1,4 +1,7 @@
 import { prisma } from '@documenso/prisma';
+import { TeamPermission } from '@documenso/prisma/client';
+
+import { assertTeamPermission } from '../team/assert-team-permission';
 
 export type DeleteWebhookByIdOptions = {
   id: string;
@@ -7,6 +10,10 @@ export type DeleteWebhookByIdOptions = {
 };
 
 export const deleteWebhookById = async ({ id, userId, teamId }: DeleteWebhookByIdOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_WEBHOOKS });
+  }
+
   return await prisma.webhook.delete({
     where: {
       id,
@@ -1,6 +1,9 @@
 import type { Prisma } from '@prisma/client';
 
 import { prisma } from '@documenso/prisma';
+import { TeamPermission } from '@documenso/prisma/client';
+
+import { assertTeamPermission } from '../team/assert-team-permission';
 
 export type EditWebhookOptions = {
   id: string;
@@ -10,6 +13,10 @@ export type EditWebhookOptions = {
 };
 
 export const editWebhook = async ({ id, data, userId, teamId }: EditWebhookOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_WEBHOOKS });
+  }
+
   return await prisma.webhook.update({
     where: {
       id,
@@ -31,6 +38,13 @@ export const editWebhook = async ({ id, data, userId, teamId }: EditWebhookOptio
     },
     data: {
       ...data,
+      // Give webhooks that are enabled again a clean slate after being disabled for failing.
+      ...(data.enabled
+        ? {
+            consecutiveFailures: 0,
+            disabledAt: null,
+          }
+        : {}),
     },
   });
 };
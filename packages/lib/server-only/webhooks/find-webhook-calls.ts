@@ -0,0 +1,88 @@
+import { prisma } from '@documenso/prisma';
+import type { Prisma, WebhookCallStatus, WebhookTriggerEvents } from '@documenso/prisma/client';
+import { TeamPermission } from '@documenso/prisma/client';
+
+import type { FindResultResponse } from '../../types/search-params';
+import { assertTeamPermission } from '../team/assert-team-permission';
+
+export type FindWebhookCallsOptions = {
+  webhookId: string;
+  userId: number;
+  teamId?: number;
+  event?: WebhookTriggerEvents;
+  status?: WebhookCallStatus;
+  page?: number;
+  perPage?: number;
+};
+
+/**
+ * Find the calls made for a webhook, every retry of a delivery is returned as a separate attempt.
+ */
+export const findWebhookCalls = async ({
+  webhookId,
+  userId,
+  teamId,
+  event,
+  status,
+  page = 1,
+  perPage = 10,
+}: FindWebhookCallsOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_WEBHOOKS });
+  }
+
+  const whereClause: Prisma.WebhookCallWhereInput = {
+    webhook: {
+      id: webhookId,
+      ...(teamId
+        ? {
+            team: {
+              id: teamId,
+              members: {
+                some: {
+                  userId,
+                },
+              },
+            },
+          }
+        : {
+            userId,
+            teamId: null,
+          }),
+    },
+    event,
+    status,
+  };
+
+  const [data, count] = await Promise.all([
+    prisma.webhookCall.findMany({
+      where: whereClause,
+      skip: Math.max(page - 1, 0) * perPage,
+      take: perPage,
+      orderBy: {
+        createdAt: 'desc',
+      },
+      select: {
+        id: true,
+        status: true,
+        event: true,
+        responseCode: true,
+        deliveryId: true,
+        attempt: true,
+        nextRetryAt: true,
+        createdAt: true,
+      },
+    }),
+    prisma.webhookCall.count({
+      where: whereClause,
+    }),
+  ]);
+
+  return {
+    data,
+    count,
+    currentPage: Math.max(page, 1),
+    perPage,
+    totalPages: Math.ceil(count / perPage),
+  } satisfies FindResultResponse<typeof data>;
+};
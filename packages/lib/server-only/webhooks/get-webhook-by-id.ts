@@ -1,4 +1,7 @@
 import { prisma } from '@documenso/prisma';
+import { TeamPermission } from '@documenso/prisma/client';
+
+import { assertTeamPermission } from '../team/assert-team-permission';
 
 export type GetWebhookByIdOptions = {
   id: string;
@@ -7,6 +10,10 @@ export type GetWebhookByIdOptions = {
 };
 
 export const getWebhookById = async ({ id, userId, teamId }: GetWebhookByIdOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_WEBHOOKS });
+  }
+
   return await prisma.webhook.findFirstOrThrow({
     where: {
       id,
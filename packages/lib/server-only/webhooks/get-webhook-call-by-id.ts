@@ -0,0 +1,40 @@
+import { prisma } from '@documenso/prisma';
+import { TeamPermission } from '@documenso/prisma/client';
+
+import { assertTeamPermission } from '../team/assert-team-permission';
+
+export type GetWebhookCallByIdOptions = {
+  id: string;
+  userId: number;
+  teamId?: number;
+};
+
+export const getWebhookCallById = async ({ id, userId, teamId }: GetWebhookCallByIdOptions) => {
+  if (teamId) {
+    await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_WEBHOOKS });
+  }
+
+  return await prisma.webhookCall.findFirstOrThrow({
+    where: {
+      id,
+      webhook: teamId
+        ? {
+            team: {
+              id: teamId,
+              members: {
+                some: {
+                  userId,
+                },
+              },
+            },
+          }
+        : {
+            userId,
+            teamId: null,
+          },
+    },
+    include: {
+      webhook: true,
+    },
+  });
+};
@@ -1,6 +1,11 @@
 import { prisma } from '@documenso/prisma';
+import { TeamPermission } from '@documenso/prisma/client';
+
+import { assertTeamPermission } from '../team/assert-team-permission';
 
 export const getWebhooksByTeamId = async (teamId: number, userId: number) => {
+  await assertTeamPermission({ userId, teamId, permission: TeamPermission.MANAGE_WEBHOOKS });
+
   return await prisma.webhook.findMany({
     where: {
       team: {
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+
+import { getWebhookCallById } from './get-webhook-call-by-id';
+import { executeWebhook } from './trigger/execute-webhook';
+
+const ZWebhookCallRequestBodySchema = z.object({
+  payload: z.unknown(),
+});
+
+export type ResendWebhookCallOptions = {
+  id: string;
+  userId: number;
+  teamId?: number;
+};
+
+/**
+ * Send the payload of a previous call again as a new delivery.
+ *
+ * The request is sent to the current URL of the webhook using its current secret.
+ */
+export const resendWebhookCall = async ({ id, userId, teamId }: ResendWebhookCallOptions) => {
+  const { webhook, event, requestBody } = await getWebhookCallById({ id, userId, teamId });
+
+  const { payload } = ZWebhookCallRequestBodySchema.parse(requestBody);
+
+  const webhookCall = await executeWebhook({
+    event,
+    webhook,
+    data: payload,
+  });
+
+  return {
+    id: webhookCall.id,
+    status: webhookCall.status,
+    responseCode: webhookCall.responseCode,
+  };
+};
@@ -0,0 +1,80 @@
+import { createElement } from 'react';
+
+import { msg } from '@lingui/macro';
+
+import { mailer } from '@documenso/email/mailer';
+import { WebhookDisabledEmailTemplate } from '@documenso/email/templates/webhook-disabled';
+import { prisma } from '@documenso/prisma';
+
+import { getI18nInstance } from '../../client-only/providers/i18n.server';
+import { WEBAPP_BASE_URL } from '../../constants/app';
+import { FROM_ADDRESS, FROM_NAME } from '../../constants/email';
+import { renderEmailWithI18N } from '../../utils/render-email-with-i18n';
+import { teamGlobalSettingsToBranding } from '../../utils/team-global-settings-to-branding';
+
+export type SendWebhookDisabledEmailOptions = {
+  webhookId: string;
+};
+
+/**
+ * Let the owner of a webhook know that it has been disabled after failing repeatedly.
+ *
+ * Team webhooks notify the team owner, personal webhooks notify the user who created them.
+ */
+export const sendWebhookDisabledEmail = async ({ webhookId }: SendWebhookDisabledEmailOptions) => {
+  const webhook = await prisma.webhook.findFirst({
+    where: {
+      id: webhookId,
+    },
+    include: {
+      user: true,
+      team: {
+        include: {
+          owner: true,
+          teamGlobalSettings: true,
+        },
+      },
+    },
+  });
+
+  if (!webhook) {
+    return;
+  }
+
+  const { team, user } = webhook;
+
+  const webhookSettingsUrl = team
+    ? `${WEBAPP_BASE_URL}/t/${team.url}/settings/webhooks/${webhook.id}`
+    : `${WEBAPP_BASE_URL}/settings/webhooks/${webhook.id}`;
+
+  const template = createElement(WebhookDisabledEmailTemplate, {
+    assetBaseUrl: WEBAPP_BASE_URL,
+    webhookUrl: webhook.webhookUrl,
+    webhookSettingsUrl,
+    consecutiveFailures: webhook.consecutiveFailures,
+  });
+
+  const branding = team?.teamGlobalSettings
+    ? teamGlobalSettingsToBranding(team.teamGlobalSettings)
+    : undefined;
+
+  const lang = team?.teamGlobalSettings?.documentLanguage;
+
+  const [html, text] = await Promise.all([
+    renderEmailWithI18N(template, { lang, branding }),
+    renderEmailWithI18N(template, { lang, branding, plainText: true }),
+  ]);
+
+  const i18n = await getI18nInstance(lang);
+
+  await mailer.sendMail({
+    to: team ? team.owner.email : user.email,
+    from: {
+      name: FROM_NAME,
+      address: FROM_ADDRESS,
+    },
+    subject: i18n._(msg`Your webhook has been disabled after repeated failures`),
+    html,
+    text,
+  });
+};
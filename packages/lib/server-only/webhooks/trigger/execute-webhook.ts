@@ -2,57 +2,150 @@ import { prisma } from '@documenso/prisma';
 import {
   Prisma,
   type Webhook,
+  type WebhookCall,
   WebhookCallStatus,
   type WebhookTriggerEvents,
 } from '@documenso/prisma/client';
 
+import {
+  WEBHOOK_MAXIMUM_ATTEMPTS,
+  WEBHOOK_MAXIMUM_CONSECUTIVE_FAILURES,
+  getWebhookRetryDelay,
+} from '../../../constants/webhooks';
+import { jobs } from '../../../jobs/client';
+
 export type ExecuteWebhookOptions = {
   event: WebhookTriggerEvents;
   webhook: Webhook;
   data: unknown;
+  /**
+   * The failed call to retry, its request body is sent again as part of the same delivery.
+   */
+  retryOf?: WebhookCall;
 };
 
-export const executeWebhook = async ({ event, webhook, data }: ExecuteWebhookOptions) => {
+export const executeWebhook = async ({ event, webhook, data, retryOf }: ExecuteWebhookOptions) => {
   const { webhookUrl: url, secret } = webhook;
 
-  console.log('Executing webhook', { event, url });
-
-  const payload = {
+  const payload = retryOf?.requestBody ?? {
     event,
     payload: data,
     createdAt: new Date().toISOString(),
     webhookEndpoint: url,
   };
 
-  const response = await fetch(url, {
-    method: 'POST',
-    body: JSON.stringify(payload),
-    headers: {
-      'Content-Type': 'application/json',
-      'X-Documenso-Secret': secret ?? '',
-    },
-  });
-
-  const body = await response.text();
-
+  let status: WebhookCallStatus = WebhookCallStatus.FAILED;
+  let responseCode = 0;
   let responseBody: Prisma.InputJsonValue | Prisma.JsonNullValueInput = Prisma.JsonNull;
+  let responseHeaders: Prisma.InputJsonValue | undefined;
 
   try {
-    responseBody = JSON.parse(body);
+    const response = await fetch(url, {
+      method: 'POST',
+      body: JSON.stringify(payload),
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Documenso-Secret': secret ?? '',
+      },
+    });
+
+    const body = await response.text();
+
+    try {
+      responseBody = JSON.parse(body);
+    } catch (err) {
+      responseBody = body;
+    }
+
+    status = response.ok ? WebhookCallStatus.SUCCESS : WebhookCallStatus.FAILED;
+    responseCode = response.status;
+    responseHeaders = Object.fromEntries(response.headers.entries());
   } catch (err) {
-    responseBody = body;
+    // The endpoint could not be reached, so there is no response to record.
+    responseBody = err instanceof Error ? err.message : 'Request failed';
   }
 
-  await prisma.webhookCall.create({
+  const attempt = retryOf ? retryOf.attempt + 1 : 1;
+
+  const shouldRetry = status === WebhookCallStatus.FAILED && attempt < WEBHOOK_MAXIMUM_ATTEMPTS;
+
+  const webhookCall = await prisma.webhookCall.create({
     data: {
       url,
       event,
-      status: response.ok ? WebhookCallStatus.SUCCESS : WebhookCallStatus.FAILED,
+      status,
       requestBody: payload as Prisma.InputJsonValue,
-      responseCode: response.status,
+      responseCode,
       responseBody,
-      responseHeaders: Object.fromEntries(response.headers.entries()),
+      responseHeaders,
       webhookId: webhook.id,
+      deliveryId: retryOf?.deliveryId,
+      attempt,
+      nextRetryAt: shouldRetry ? new Date(Date.now() + getWebhookRetryDelay(attempt)) : null,
+    },
+  });
+
+  if (status === WebhookCallStatus.SUCCESS) {
+    await prisma.webhook.updateMany({
+      where: {
+        id: webhook.id,
+        consecutiveFailures: {
+          gt: 0,
+        },
+      },
+      data: {
+        consecutiveFailures: 0,
+      },
+    });
+
+    return webhookCall;
+  }
+
+  // The retry is picked up by the `internal.retry-webhook-calls` job once it is due, the event only
+  // counts towards disabling the webhook once all of its attempts have failed.
+  if (webhookCall.nextRetryAt) {
+    return webhookCall;
+  }
+
+  const { consecutiveFailures } = await prisma.webhook.update({
+    where: {
+      id: webhook.id,
+    },
+    data: {
+      consecutiveFailures: {
+        increment: 1,
+      },
+    },
+  });
+
+  if (consecutiveFailures >= WEBHOOK_MAXIMUM_CONSECUTIVE_FAILURES) {
+    await disableFailingWebhook(webhook.id);
+  }
+
+  return webhookCall;
+};
+
+const disableFailingWebhook = async (webhookId: string) => {
+  // Only the call that disables the webhook sends the email.
+  const { count } = await prisma.webhook.updateMany({
+    where: {
+      id: webhookId,
+      enabled: true,
+    },
+    data: {
+      enabled: false,
+      disabledAt: new Date(),
+    },
+  });
+
+  if (count === 0) {
+    return;
+  }
+
+  await jobs.triggerJob({
+    name: 'send.webhook-disabled.email',
+    payload: {
+      webhookId,
     },
   });
 };
@@ -1,17 +1,23 @@
 import type { WebhookTriggerEvents } from '@documenso/prisma/client';
 
 import { NEXT_PRIVATE_INTERNAL_WEBAPP_URL } from '../../../constants/app';
+import type { TWebhookEventPayloads } from '../../../types/webhook-payload';
 import { sign } from '../../crypto/sign';
 import { getAllWebhooksByEventTrigger } from '../get-all-webhooks-by-event-trigger';
 
-export type TriggerWebhookOptions = {
-  event: WebhookTriggerEvents;
-  data: Record<string, unknown>;
+export type TriggerWebhookOptions<Event extends WebhookTriggerEvents> = {
+  event: Event;
+  data: TWebhookEventPayloads[Event];
   userId: number;
   teamId?: number;
 };
 
-export const triggerWebhook = async ({ event, data, userId, teamId }: TriggerWebhookOptions) => {
+export const triggerWebhook = async <Event extends WebhookTriggerEvents>({
+  event,
+  data,
+  userId,
+  teamId,
+}: TriggerWebhookOptions<Event>) => {
   try {
     const body = {
       event,
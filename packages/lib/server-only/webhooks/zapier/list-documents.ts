@@ -3,6 +3,7 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import { findDocuments } from '@documenso/lib/server-only/document/find-documents';
 import { getRecipientsForDocument } from '@documenso/lib/server-only/recipient/get-recipients-for-document';
 import type { Webhook } from '@documenso/prisma/client';
+import { ApiTokenScope } from '@documenso/prisma/client';
 
 import { getWebhooksByTeamId } from '../get-webhooks-by-team-id';
 import { getWebhooksByUserId } from '../get-webhooks-by-user-id';
@@ -11,7 +12,10 @@ import { validateApiToken } from './validateApiToken';
 export const listDocumentsHandler = async (req: NextApiRequest, res: NextApiResponse) => {
   try {
     const { authorization } = req.headers;
-    const { user, userId, teamId } = await validateApiToken({ authorization });
+    const { user, userId, teamId } = await validateApiToken({
+      authorization,
+      scopes: [ApiTokenScope.DOCUMENTS_READ, ApiTokenScope.WEBHOOKS_MANAGE],
+    });
 
     let allWebhooks: Webhook[] = [];
 
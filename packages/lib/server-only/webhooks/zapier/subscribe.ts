@@ -1,6 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 
 import { prisma } from '@documenso/prisma';
+import { ApiTokenScope } from '@documenso/prisma/client';
 
 import { validateApiToken } from './validateApiToken';
 
@@ -10,7 +11,10 @@ export const subscribeHandler = async (req: NextApiRequest, res: NextApiResponse
 
     const { webhookUrl, eventTrigger } = req.body;
 
-    const result = await validateApiToken({ authorization });
+    const result = await validateApiToken({
+      authorization,
+      scopes: [ApiTokenScope.WEBHOOKS_MANAGE],
+    });
 
     const createdWebhook = await prisma.webhook.create({
       data: {
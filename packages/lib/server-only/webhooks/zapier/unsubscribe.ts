@@ -1,6 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 
 import { prisma } from '@documenso/prisma';
+import { ApiTokenScope } from '@documenso/prisma/client';
 
 import { validateApiToken } from './validateApiToken';
 
@@ -10,7 +11,10 @@ export const unsubscribeHandler = async (req: NextApiRequest, res: NextApiRespon
 
     const { webhookId } = req.body;
 
-    const result = await validateApiToken({ authorization });
+    const result = await validateApiToken({
+      authorization,
+      scopes: [ApiTokenScope.WEBHOOKS_MANAGE],
+    });
 
     const deletedWebhook = await prisma.webhook.delete({
       where: {
@@ -1,10 +1,14 @@
+import type { ApiTokenScope } from '@documenso/prisma/client';
+
+import { assertApiTokenScopes } from '../../public-api/assert-api-token-scopes';
 import { getApiTokenByToken } from '../../public-api/get-api-token-by-token';
 
 type ValidateApiTokenOptions = {
   authorization: string | undefined;
+  scopes?: ApiTokenScope[];
 };
 
-export const validateApiToken = async ({ authorization }: ValidateApiTokenOptions) => {
+export const validateApiToken = async ({ authorization, scopes = [] }: ValidateApiTokenOptions) => {
   try {
     // Support for both "Authorization: Bearer api_xxx" and "Authorization: api_xxx"
     const [token] = (authorization || '').split('Bearer ').filter((s) => s.length > 0);
@@ -13,7 +17,11 @@ export const validateApiToken = async ({ authorization }: ValidateApiTokenOption
       throw new Error('Missing API token');
     }
 
-    return await getApiTokenByToken({ token });
+    const apiToken = await getApiTokenByToken({ token });
+
+    assertApiTokenScopes({ apiToken, scopes });
+
+    return apiToken;
   } catch (err) {
     throw new Error(`Failed to validate API token`);
   }
@@ -34,12 +34,25 @@ export const ZDocumentAuditLogTypeSchema = z.enum([
   'DOCUMENT_GLOBAL_AUTH_ACTION_UPDATED', // When the global action authentication is updated.
   'DOCUMENT_META_UPDATED', // When the document meta data is updated.
   'DOCUMENT_OPENED', // When the document is opened by a recipient.
+  'DOCUMENT_ACCESS_AUTH_FAILED', // When a recipient fails to authenticate to access the document.
   'DOCUMENT_RECIPIENT_REJECTED', // When a recipient rejects the document.
+  'DOCUMENT_RECIPIENT_SKIPPED', // When a recipient no longer has to complete the document because of the signing routing.
   'DOCUMENT_RECIPIENT_COMPLETED', // When a recipient completes all their required tasks for the document.
+  'DOCUMENT_RECIPIENT_ID_VERIFICATION_UPDATED', // When a recipient's identity document is submitted or reviewed.
   'DOCUMENT_SENT', // When the document transitions from DRAFT to PENDING.
   'DOCUMENT_TITLE_UPDATED', // When the document title is updated.
   'DOCUMENT_EXTERNAL_ID_UPDATED', // When the document external ID is updated.
+  'DOCUMENT_EXPIRY_UPDATED', // When the document expiry date is updated.
+  'DOCUMENT_EXPIRED', // When the document expires before all recipients have completed it.
+  'DOCUMENT_VOIDED', // When the document is voided by the sender before all recipients have completed it.
   'DOCUMENT_MOVED_TO_TEAM', // When the document is moved to a team.
+  'DOCUMENT_VERSION_CREATED', // When a snapshot of the document PDF is stored as a version.
+  'DOCUMENT_VERSION_RESTORED', // When a draft document is restored to a previous version.
+  'DOCUMENT_VERSION_DELETED', // When a document version is deleted.
+  'DOCUMENT_LOCKED', // When a user takes the editor lock on a document.
+  'DOCUMENT_UNLOCKED', // When the holder of the editor lock releases it.
+  'DOCUMENT_FORCE_UNLOCKED', // When an administrator releases another user's editor lock.
+  'DOCUMENT_LOCK_EXPIRED', // When an editor lock is released after it expired.
 ]);
 
 export const ZDocumentAuditLogEmailTypeSchema = z.enum([
@@ -49,6 +62,7 @@ export const ZDocumentAuditLogEmailTypeSchema = z.enum([
   'ASSISTING_REQUEST',
   'CC',
   'DOCUMENT_COMPLETED',
+  'VERIFICATION_CODE',
 ]);
 
 export const ZDocumentMetaDiffTypeSchema = z.enum([
@@ -178,6 +192,7 @@ export const ZDocumentAuditLogEventEmailSentSchema = z.object({
   data: ZBaseRecipientDataSchema.extend({
     emailType: ZDocumentAuditLogEmailTypeSchema,
     isResending: z.boolean(),
+    isReminder: z.boolean().optional(),
   }),
 });
 
@@ -277,6 +292,10 @@ export const ZDocumentAuditLogEventDocumentFieldInsertedSchema = z.object({
         type: z.literal(FieldType.NUMBER),
         data: z.string(),
       }),
+      z.object({
+        type: z.literal(FieldType.FORMULA),
+        data: z.string(),
+      }),
     ]),
     fieldSecurity: z.preprocess(
       (input) => {
@@ -365,6 +384,10 @@ export const ZDocumentAuditLogEventDocumentFieldPrefilledSchema = z.object({
         type: z.literal(FieldType.NUMBER),
         data: z.string(),
       }),
+      z.object({
+        type: z.literal(FieldType.FORMULA),
+        data: z.string(),
+      }),
     ]),
     fieldSecurity: z.preprocess(
       (input) => {
@@ -433,6 +456,18 @@ export const ZDocumentAuditLogEventDocumentOpenedSchema = z.object({
   }),
 });
 
+/**
+ * Event: Document access auth failed.
+ */
+export const ZDocumentAuditLogEventDocumentAccessAuthFailedSchema = z.object({
+  type: z.literal(DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_ACCESS_AUTH_FAILED),
+  data: ZBaseRecipientDataSchema.extend({
+    accessAuth: z.string(),
+    attempts: z.number(),
+    isLockedOut: z.boolean(),
+  }),
+});
+
 /**
  * Event: Document recipient completed the document (the recipient has fully actioned and completed their required steps for the document).
  */
@@ -443,6 +478,18 @@ export const ZDocumentAuditLogEventDocumentRecipientCompleteSchema = z.object({
   }),
 });
 
+/**
+ * Event: Document recipient identity verification updated.
+ */
+export const ZDocumentAuditLogEventDocumentRecipientIdVerificationUpdatedSchema = z.object({
+  type: z.literal(DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_RECIPIENT_ID_VERIFICATION_UPDATED),
+  data: ZBaseRecipientDataSchema.extend({
+    documentType: z.string(),
+    status: z.string(),
+    reason: z.string().optional(),
+  }),
+});
+
 /**
  * Event: Document recipient completed the document (the recipient has fully actioned and completed their required steps for the document).
  */
@@ -453,6 +500,16 @@ export const ZDocumentAuditLogEventDocumentRecipientRejectedSchema = z.object({
   }),
 });
 
+/**
+ * Event: Document recipient skipped by the signing routing of the document.
+ */
+export const ZDocumentAuditLogEventDocumentRecipientSkippedSchema = z.object({
+  type: z.literal(DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_RECIPIENT_SKIPPED),
+  data: ZBaseRecipientDataSchema.extend({
+    reason: z.enum(['GROUP_COMPLETED', 'ROUTING_RULE']),
+  }),
+});
+
 /**
  * Event: Document sent.
  */
@@ -483,6 +540,37 @@ export const ZDocumentAuditLogEventDocumentExternalIdUpdatedSchema = z.object({
   }),
 });
 
+/**
+ * Event: Document expiry date updated.
+ */
+export const ZDocumentAuditLogEventDocumentExpiryUpdatedSchema = z.object({
+  type: z.literal(DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_EXPIRY_UPDATED),
+  data: z.object({
+    from: z.string().nullish(),
+    to: z.string().nullish(),
+  }),
+});
+
+/**
+ * Event: Document expired.
+ */
+export const ZDocumentAuditLogEventDocumentExpiredSchema = z.object({
+  type: z.literal(DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_EXPIRED),
+  data: z.object({
+    expiresAt: z.string(),
+  }),
+});
+
+/**
+ * Event: Document voided.
+ */
+export const ZDocumentAuditLogEventDocumentVoidedSchema = z.object({
+  type: z.literal(DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_VOIDED),
+  data: z.object({
+    reason: z.string(),
+  }),
+});
+
 /**
  * Event: Field created.
  */
@@ -552,6 +640,74 @@ export const ZDocumentAuditLogEventDocumentMovedToTeamSchema = z.object({
   }),
 });
 
+/**
+ * Event: Document version created.
+ */
+export const ZDocumentAuditLogEventDocumentVersionCreatedSchema = z.object({
+  type: z.literal(DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_VERSION_CREATED),
+  data: z.object({
+    versionId: z.number(),
+    versionNumber: z.number(),
+    reason: z.string().nullish(),
+  }),
+});
+
+/**
+ * Event: Document restored to a previous version.
+ */
+export const ZDocumentAuditLogEventDocumentVersionRestoredSchema = z.object({
+  type: z.literal(DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_VERSION_RESTORED),
+  data: z.object({
+    versionId: z.number(),
+    versionNumber: z.number(),
+  }),
+});
+
+/**
+ * Event: Document version deleted.
+ */
+export const ZDocumentAuditLogEventDocumentVersionDeletedSchema = z.object({
+  type: z.literal(DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_VERSION_DELETED),
+  data: z.object({
+    versionId: z.number(),
+    versionNumber: z.number(),
+  }),
+});
+
+/**
+ * Event: Document locked for editing.
+ */
+export const ZDocumentAuditLogEventDocumentLockedSchema = z.object({
+  type: z.literal(DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_LOCKED),
+  data: z.object({
+    expiresAt: z.string(),
+  }),
+});
+
+/**
+ * Event: Document unlocked by the lock holder.
+ */
+export const ZDocumentAuditLogEventDocumentUnlockedSchema = z.object({
+  type: z.literal(DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_UNLOCKED),
+  data: z.object({}),
+});
+
+/**
+ * Event: Document unlocked by an administrator.
+ */
+export const ZDocumentAuditLogEventDocumentForceUnlockedSchema = z.object({
+  type: z.literal(DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_FORCE_UNLOCKED),
+  data: z.object({}),
+});
+
+/**
+ * Event: Document editor lock expired.
+ */
+export const ZDocumentAuditLogEventDocumentLockExpiredSchema = z.object({
+  type: z.literal(DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_LOCK_EXPIRED),
+  data: z.object({}),
+});
+
 export const ZDocumentAuditLogBaseSchema = z.object({
   id: z.string(),
   createdAt: z.date(),
@@ -578,11 +734,24 @@ export const ZDocumentAuditLogSchema = ZDocumentAuditLogBaseSchema.and(
     ZDocumentAuditLogEventDocumentGlobalAuthActionUpdatedSchema,
     ZDocumentAuditLogEventDocumentMetaUpdatedSchema,
     ZDocumentAuditLogEventDocumentOpenedSchema,
+    ZDocumentAuditLogEventDocumentAccessAuthFailedSchema,
     ZDocumentAuditLogEventDocumentRecipientCompleteSchema,
+    ZDocumentAuditLogEventDocumentRecipientIdVerificationUpdatedSchema,
     ZDocumentAuditLogEventDocumentRecipientRejectedSchema,
+    ZDocumentAuditLogEventDocumentRecipientSkippedSchema,
     ZDocumentAuditLogEventDocumentSentSchema,
     ZDocumentAuditLogEventDocumentTitleUpdatedSchema,
     ZDocumentAuditLogEventDocumentExternalIdUpdatedSchema,
+    ZDocumentAuditLogEventDocumentExpiryUpdatedSchema,
+    ZDocumentAuditLogEventDocumentExpiredSchema,
+    ZDocumentAuditLogEventDocumentVoidedSchema,
+    ZDocumentAuditLogEventDocumentVersionCreatedSchema,
+    ZDocumentAuditLogEventDocumentVersionRestoredSchema,
+    ZDocumentAuditLogEventDocumentVersionDeletedSchema,
+    ZDocumentAuditLogEventDocumentLockedSchema,
+    ZDocumentAuditLogEventDocumentUnlockedSchema,
+    ZDocumentAuditLogEventDocumentForceUnlockedSchema,
+    ZDocumentAuditLogEventDocumentLockExpiredSchema,
     ZDocumentAuditLogEventFieldCreatedSchema,
     ZDocumentAuditLogEventFieldRemovedSchema,
     ZDocumentAuditLogEventFieldUpdatedSchema,
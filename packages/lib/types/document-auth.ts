@@ -9,6 +9,10 @@ export const ZDocumentAuthTypesSchema = z.enum([
   'ACCOUNT',
   'PASSKEY',
   'TWO_FACTOR_AUTH',
+  'SMS_OTP',
+  'EMAIL_OTP',
+  'ACCESS_CODE',
+  'ID_VERIFICATION',
   'EXPLICIT_NONE',
 ]);
 export const DocumentAuth = ZDocumentAuthTypesSchema.Enum;
@@ -32,6 +36,26 @@ const ZDocumentAuth2FASchema = z.object({
   token: z.string().min(4).max(10),
 });
 
+const ZDocumentAuthSmsOtpSchema = z.object({
+  type: z.literal(DocumentAuth.SMS_OTP),
+  code: z.string().length(6),
+});
+
+const ZDocumentAuthEmailOtpSchema = z.object({
+  type: z.literal(DocumentAuth.EMAIL_OTP),
+  code: z.string().length(6),
+});
+
+const ZDocumentAuthAccessCodeSchema = z.object({
+  type: z.literal(DocumentAuth.ACCESS_CODE),
+  code: z.string().min(1),
+});
+
+// Identity documents are reviewed out-of-band so there is nothing to submit when signing.
+const ZDocumentAuthIdVerificationSchema = z.object({
+  type: z.literal(DocumentAuth.ID_VERIFICATION),
+});
+
 /**
  * All the document auth methods for both accessing and actioning.
  */
@@ -40,6 +64,10 @@ export const ZDocumentAuthMethodsSchema = z.discriminatedUnion('type', [
   ZDocumentAuthExplicitNoneSchema,
   ZDocumentAuthPasskeySchema,
   ZDocumentAuth2FASchema,
+  ZDocumentAuthSmsOtpSchema,
+  ZDocumentAuthEmailOtpSchema,
+  ZDocumentAuthAccessCodeSchema,
+  ZDocumentAuthIdVerificationSchema,
 ]);
 
 /**
@@ -47,9 +75,12 @@ export const ZDocumentAuthMethodsSchema = z.discriminatedUnion('type', [
  *
  * Must keep these two in sync.
  */
-export const ZDocumentAccessAuthSchema = z.discriminatedUnion('type', [ZDocumentAuthAccountSchema]);
+export const ZDocumentAccessAuthSchema = z.discriminatedUnion('type', [
+  ZDocumentAuthAccountSchema,
+  ZDocumentAuthEmailOtpSchema,
+]);
 export const ZDocumentAccessAuthTypesSchema = z
-  .enum([DocumentAuth.ACCOUNT])
+  .enum([DocumentAuth.ACCOUNT, DocumentAuth.EMAIL_OTP])
   .describe('The type of authentication required for the recipient to access the document.');
 
 /**
@@ -61,9 +92,15 @@ export const ZDocumentActionAuthSchema = z.discriminatedUnion('type', [
   ZDocumentAuthAccountSchema,
   ZDocumentAuthPasskeySchema,
   ZDocumentAuth2FASchema,
+  ZDocumentAuthEmailOtpSchema,
 ]);
 export const ZDocumentActionAuthTypesSchema = z
-  .enum([DocumentAuth.ACCOUNT, DocumentAuth.PASSKEY, DocumentAuth.TWO_FACTOR_AUTH])
+  .enum([
+    DocumentAuth.ACCOUNT,
+    DocumentAuth.PASSKEY,
+    DocumentAuth.TWO_FACTOR_AUTH,
+    DocumentAuth.EMAIL_OTP,
+  ])
   .describe(
     'The type of authentication required for the recipient to sign the document. This field is restricted to Enterprise plan users only.',
   );
@@ -75,9 +112,11 @@ export const ZDocumentActionAuthTypesSchema = z
  */
 export const ZRecipientAccessAuthSchema = z.discriminatedUnion('type', [
   ZDocumentAuthAccountSchema,
+  ZDocumentAuthEmailOtpSchema,
+  ZDocumentAuthAccessCodeSchema,
 ]);
 export const ZRecipientAccessAuthTypesSchema = z
-  .enum([DocumentAuth.ACCOUNT])
+  .enum([DocumentAuth.ACCOUNT, DocumentAuth.EMAIL_OTP, DocumentAuth.ACCESS_CODE])
   .describe('The type of authentication required for the recipient to access the document.');
 
 /**
@@ -89,6 +128,9 @@ export const ZRecipientActionAuthSchema = z.discriminatedUnion('type', [
   ZDocumentAuthAccountSchema,
   ZDocumentAuthPasskeySchema,
   ZDocumentAuth2FASchema,
+  ZDocumentAuthSmsOtpSchema,
+  ZDocumentAuthEmailOtpSchema,
+  ZDocumentAuthIdVerificationSchema,
   ZDocumentAuthExplicitNoneSchema,
 ]);
 export const ZRecipientActionAuthTypesSchema = z
@@ -96,10 +138,32 @@ export const ZRecipientActionAuthTypesSchema = z
     DocumentAuth.ACCOUNT,
     DocumentAuth.PASSKEY,
     DocumentAuth.TWO_FACTOR_AUTH,
+    DocumentAuth.SMS_OTP,
+    DocumentAuth.EMAIL_OTP,
+    DocumentAuth.ID_VERIFICATION,
     DocumentAuth.EXPLICIT_NONE,
   ])
   .describe('The type of authentication required for the recipient to sign the document.');
 
+/**
+ * The shared secret a sender communicates to a recipient out-of-band.
+ */
+export const ZRecipientAccessCodeSchema = z
+  .string()
+  .trim()
+  .min(4, { message: 'Access code must be at least 4 characters long' })
+  .max(64, { message: 'Access code must be at most 64 characters long' });
+
+/**
+ * The phone number a recipient receives their SMS verification codes on, in E.164 format.
+ */
+export const ZRecipientSmsVerificationPhoneSchema = z
+  .string()
+  .trim()
+  .regex(/^\+[1-9]\d{6,14}$/, {
+    message: 'Phone number must be in international format, e.g. +14155552671',
+  });
+
 export const DocumentAccessAuth = ZDocumentAccessAuthTypesSchema.Enum;
 export const DocumentActionAuth = ZDocumentActionAuthTypesSchema.Enum;
 export const RecipientAccessAuth = ZRecipientAccessAuthTypesSchema.Enum;
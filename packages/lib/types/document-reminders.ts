@@ -0,0 +1,97 @@
+import { DateTime } from 'luxon';
+import { z } from 'zod';
+
+import type { DocumentMeta, TeamGlobalSettings } from '@documenso/prisma/client';
+
+import { extractDerivedDocumentEmailSettings } from './document-email';
+
+export const ZDocumentReminderSettingsSchema = z
+  .object({
+    enabled: z.boolean().describe('Whether to automatically remind recipients to sign.'),
+    firstReminderAfterDays: z
+      .number()
+      .int()
+      .min(1)
+      .max(365)
+      .describe('The number of days to wait after a recipient was asked to sign before reminding.')
+      .default(3),
+    repeatEveryDays: z
+      .number()
+      .int()
+      .min(1)
+      .max(365)
+      .describe('The number of days to wait between subsequent reminders.')
+      .default(3),
+    maxReminders: z
+      .number()
+      .int()
+      .min(1)
+      .max(10)
+      .describe('The maximum number of reminders to send to each recipient.')
+      .default(3),
+  })
+  .strip();
+
+export type TDocumentReminderSettings = z.infer<typeof ZDocumentReminderSettingsSchema>;
+
+export const DEFAULT_DOCUMENT_REMINDER_SETTINGS: TDocumentReminderSettings = {
+  enabled: false,
+  firstReminderAfterDays: 3,
+  repeatEveryDays: 3,
+  maxReminders: 3,
+};
+
+/**
+ * Parse stored reminder settings, falling back to disabled reminders when there are none.
+ */
+export const parseDocumentReminderSettings = (value: unknown): TDocumentReminderSettings => {
+  const result = ZDocumentReminderSettingsSchema.safeParse(value);
+
+  return result.success ? result.data : DEFAULT_DOCUMENT_REMINDER_SETTINGS;
+};
+
+/**
+ * Resolve the reminder settings that apply to a document.
+ *
+ * Documents without their own settings fall back to the defaults of the team they belong to.
+ * Reminders are never sent for documents that do not send signing requests by email.
+ */
+export const extractDerivedDocumentReminderSettings = (
+  documentMeta?: DocumentMeta | null,
+  teamGlobalSettings?: TeamGlobalSettings | null,
+): TDocumentReminderSettings | null => {
+  if (!extractDerivedDocumentEmailSettings(documentMeta).recipientSigningRequest) {
+    return null;
+  }
+
+  const result = ZDocumentReminderSettingsSchema.safeParse(
+    documentMeta?.reminderSettings ?? teamGlobalSettings?.reminderSettings,
+  );
+
+  if (!result.success || !result.data.enabled) {
+    return null;
+  }
+
+  return result.data;
+};
+
+/**
+ * Get when the next reminder is due for a recipient, or `null` when no more reminders should be
+ * sent.
+ *
+ * @param remindersSent The number of reminders the recipient has already been sent.
+ * @param from When the recipient was last emailed.
+ */
+export const getNextDocumentReminderDate = (
+  settings: TDocumentReminderSettings | null,
+  remindersSent: number,
+  from = new Date(),
+) => {
+  if (!settings || remindersSent >= settings.maxReminders) {
+    return null;
+  }
+
+  const days = remindersSent === 0 ? settings.firstReminderAfterDays : settings.repeatEveryDays;
+
+  return DateTime.fromJSDate(from).plus({ days }).toJSDate();
+};
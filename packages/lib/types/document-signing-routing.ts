@@ -0,0 +1,84 @@
+import { z } from 'zod';
+
+import type { DocumentMeta } from '@documenso/prisma/client';
+
+export const ZSigningRoutingGroupCompletionSchema = z
+  .enum(['all', 'any'])
+  .describe(
+    'Whether every recipient of the group has to complete the document, or any one of them.',
+  );
+
+export type TSigningRoutingGroupCompletion = z.infer<typeof ZSigningRoutingGroupCompletionSchema>;
+
+export const ZSigningRoutingRuleOperatorSchema = z.enum([
+  'equals',
+  'notEquals',
+  'lessThan',
+  'lessThanOrEquals',
+  'greaterThan',
+  'greaterThanOrEquals',
+]);
+
+export type TSigningRoutingRuleOperator = z.infer<typeof ZSigningRoutingRuleOperatorSchema>;
+
+export const ZSigningRoutingGroupSchema = z.object({
+  signingOrder: z
+    .number()
+    .int()
+    .min(1)
+    .describe('The signing order shared by the recipients of the group.'),
+  completion: ZSigningRoutingGroupCompletionSchema,
+});
+
+export type TSigningRoutingGroup = z.infer<typeof ZSigningRoutingGroupSchema>;
+
+export const ZSigningRoutingRuleSchema = z.object({
+  recipientId: z.number().describe('The ID of the recipient to skip when the condition is met.'),
+  /**
+   * The label of the field the condition depends on.
+   *
+   * The field must be completed by a recipient who signs before the skipped recipient.
+   */
+  fieldLabel: z.string().trim().min(1).describe('The label of the field to compare.'),
+  operator: ZSigningRoutingRuleOperatorSchema,
+  value: z.number().describe('The number the field value is compared against.'),
+});
+
+export type TSigningRoutingRule = z.infer<typeof ZSigningRoutingRuleSchema>;
+
+/**
+ * Routing for documents that are signed in order.
+ *
+ * Recipients that share a signing order form a group that signs in parallel, the next group
+ * is only asked to sign once the group before it has completed the document.
+ */
+export const ZDocumentSigningRoutingSchema = z
+  .object({
+    groups: z
+      .array(ZSigningRoutingGroupSchema)
+      .describe('Groups that only require any one of their recipients to complete the document.')
+      .default([]),
+    rules: z
+      .array(ZSigningRoutingRuleSchema)
+      .describe('Rules to skip recipients based on the values entered by earlier recipients.')
+      .default([]),
+  })
+  .strip();
+
+export type TDocumentSigningRouting = z.infer<typeof ZDocumentSigningRoutingSchema>;
+
+export const DEFAULT_DOCUMENT_SIGNING_ROUTING: TDocumentSigningRouting = {
+  groups: [],
+  rules: [],
+};
+
+/**
+ * Parse the stored signing routing of a document, falling back to no routing when there is none.
+ */
+export const extractDocumentSigningRouting = (
+  documentMeta?: Pick<DocumentMeta, 'signingRouting'> | null,
+): TDocumentSigningRouting => {
+  const result = ZDocumentSigningRoutingSchema.safeParse(documentMeta?.signingRouting);
+
+  return result.success ? result.data : DEFAULT_DOCUMENT_SIGNING_ROUTING;
+};
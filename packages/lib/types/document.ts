@@ -30,6 +30,9 @@ export const ZDocumentSchema = DocumentSchema.pick({
   createdAt: true,
   updatedAt: true,
   completedAt: true,
+  expiresAt: true,
+  voidedAt: true,
+  voidReason: true,
   deletedAt: true,
   teamId: true,
   templateId: true,
@@ -55,6 +58,8 @@ export const ZDocumentSchema = DocumentSchema.pick({
     typedSignatureEnabled: true,
     language: true,
     emailSettings: true,
+    reminderSettings: true,
+    signingRouting: true,
   }).nullable(),
   recipients: ZRecipientLiteSchema.array(),
   fields: ZFieldSchema.array(),
@@ -79,6 +84,9 @@ export const ZDocumentLiteSchema = DocumentSchema.pick({
   createdAt: true,
   updatedAt: true,
   completedAt: true,
+  expiresAt: true,
+  voidedAt: true,
+  voidReason: true,
   deletedAt: true,
   teamId: true,
   templateId: true,
@@ -101,6 +109,9 @@ export const ZDocumentManySchema = DocumentSchema.pick({
   createdAt: true,
   updatedAt: true,
   completedAt: true,
+  expiresAt: true,
+  voidedAt: true,
+  voidReason: true,
   deletedAt: true,
   teamId: true,
   templateId: true,
@@ -2,11 +2,45 @@ import { z } from 'zod';
 
 import { FieldType } from '@documenso/prisma/client';
 
+export const ZFieldConditionOperatorSchema = z.enum([
+  'equals',
+  'notEquals',
+  'checked',
+  'notChecked',
+  'isFilled',
+  'isEmpty',
+]);
+
+export type TFieldConditionOperator = z.infer<typeof ZFieldConditionOperatorSchema>;
+
+export const ZFieldConditionSchema = z.object({
+  /**
+   * The label of the field the condition depends on.
+   *
+   * Labels are used instead of IDs since they are preserved when a template is used to create a
+   * document.
+   */
+  fieldLabel: z.string().min(1),
+  operator: ZFieldConditionOperatorSchema,
+  value: z.string().optional(),
+});
+
+export type TFieldCondition = z.infer<typeof ZFieldConditionSchema>;
+
+export const ZFieldConditionalLogicSchema = z.object({
+  action: z.enum(['show', 'hide', 'require']),
+  match: z.enum(['all', 'any']).default('all'),
+  conditions: z.array(ZFieldConditionSchema).min(1),
+});
+
+export type TFieldConditionalLogic = z.infer<typeof ZFieldConditionalLogicSchema>;
+
 export const ZBaseFieldMeta = z.object({
   label: z.string().optional(),
   placeholder: z.string().optional(),
   required: z.boolean().optional(),
   readOnly: z.boolean().optional(),
+  conditionalLogic: ZFieldConditionalLogicSchema.optional(),
 });
 
 export type TBaseFieldMeta = z.infer<typeof ZBaseFieldMeta>;
@@ -109,6 +143,31 @@ export const ZDropdownFieldMeta = ZBaseFieldMeta.extend({
 
 export type TDropdownFieldMeta = z.infer<typeof ZDropdownFieldMeta>;
 
+export const ZFormulaOperationSchema = z.enum(['sum', 'product', 'percentage', 'addDays']);
+
+export type TFormulaOperation = z.infer<typeof ZFormulaOperationSchema>;
+
+export const ZFormulaFieldMeta = ZBaseFieldMeta.extend({
+  type: z.literal('formula'),
+  operation: ZFormulaOperationSchema,
+
+  /**
+   * The labels of the number, dropdown or date fields the value is computed from.
+   */
+  operands: z.array(z.string().min(1)).min(1),
+
+  /**
+   * The percentage to apply for the `percentage` operation, or the number of days to add for
+   * the `addDays` operation.
+   */
+  amount: z.number().optional(),
+  numberFormat: z.string().optional(),
+  fontSize: z.number().min(8).max(96).optional(),
+  textAlign: ZFieldTextAlignSchema.optional(),
+});
+
+export type TFormulaFieldMeta = z.infer<typeof ZFormulaFieldMeta>;
+
 export const ZFieldMetaNotOptionalSchema = z.discriminatedUnion('type', [
   ZInitialsFieldMeta,
   ZNameFieldMeta,
@@ -119,6 +178,7 @@ export const ZFieldMetaNotOptionalSchema = z.discriminatedUnion('type', [
   ZRadioFieldMeta,
   ZCheckboxFieldMeta,
   ZDropdownFieldMeta,
+  ZFormulaFieldMeta,
 ]);
 
 export type TFieldMetaNotOptionalSchema = z.infer<typeof ZFieldMetaNotOptionalSchema>;
@@ -181,6 +241,10 @@ export const ZFieldAndMetaSchema = z.discriminatedUnion('type', [
     type: z.literal(FieldType.DROPDOWN),
     fieldMeta: ZDropdownFieldMeta.optional(),
   }),
+  z.object({
+    type: z.literal(FieldType.FORMULA),
+    fieldMeta: ZFormulaFieldMeta,
+  }),
 ]);
 
 export type TFieldAndMeta = z.infer<typeof ZFieldAndMetaSchema>;
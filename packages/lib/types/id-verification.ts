@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+/**
+ * The identity documents a recipient can verify themselves with.
+ */
+export const ZIdVerificationDocumentTypeSchema = z.enum([
+  'passport',
+  'driver_license',
+  'national_id',
+]);
+export const IdVerificationDocumentType = ZIdVerificationDocumentTypeSchema.Enum;
+
+/**
+ * The status of a recipient's identity verification.
+ *
+ * A `pending` verification is waiting on the sender to review it manually.
+ */
+export const ZIdVerificationStatusSchema = z.enum(['pending', 'verified', 'rejected']);
+export const IdVerificationStatus = ZIdVerificationStatusSchema.Enum;
+
+/**
+ * An identity document image as a base64 string or data URL.
+ */
+export const ZIdVerificationImageSchema = z.string().min(1);
+
+export type TIdVerificationDocumentType = z.infer<typeof ZIdVerificationDocumentTypeSchema>;
+export type TIdVerificationStatus = z.infer<typeof ZIdVerificationStatusSchema>;
@@ -52,6 +52,7 @@ export const ZTemplateSchema = TemplateSchema.pick({
     redirectUrl: true,
     language: true,
     emailSettings: true,
+    reminderSettings: true,
   }).nullable(),
   directLink: TemplateDirectLinkSchema.nullable(),
   user: UserSchema.pick({
@@ -11,6 +11,8 @@ import {
   RecipientRole,
   SendStatus,
   SigningStatus,
+  TemplateType,
+  type WebhookTriggerEvents,
 } from '@documenso/prisma/client';
 
 /**
@@ -69,6 +71,9 @@ export const ZWebhookDocumentSchema = z.object({
   createdAt: z.date(),
   updatedAt: z.date(),
   completedAt: z.date().nullable(),
+  expiresAt: z.date().nullable(),
+  voidedAt: z.date().nullable(),
+  voidReason: z.string().nullable(),
   deletedAt: z.date().nullable(),
   teamId: z.number().nullable(),
   templateId: z.number().nullable(),
@@ -82,8 +87,88 @@ export const ZWebhookDocumentSchema = z.object({
   Recipient: z.array(ZWebhookRecipientSchema),
 });
 
+/**
+ * Schema for template data in webhook payloads.
+ */
+export const ZWebhookTemplateSchema = z.object({
+  id: z.number(),
+  externalId: z.string().nullable(),
+  type: z.nativeEnum(TemplateType),
+  title: z.string(),
+  userId: z.number(),
+  teamId: z.number().nullable(),
+  visibility: z.nativeEnum(DocumentVisibility),
+  authOptions: z.any().nullable(),
+  templateDocumentDataId: z.string(),
+  publicTitle: z.string(),
+  publicDescription: z.string(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+/**
+ * Payload for events about a single recipient of a document.
+ */
+export const ZWebhookRecipientEventSchema = z.object({
+  recipient: ZWebhookRecipientSchema,
+  document: ZWebhookDocumentSchema,
+});
+
+/**
+ * Payload for the `DOCUMENT_REMINDER_SENT` event, `recipients` only contains the recipients
+ * that were reminded.
+ */
+export const ZWebhookDocumentReminderSchema = z.object({
+  recipients: z.array(ZWebhookRecipientSchema),
+  document: ZWebhookDocumentSchema,
+});
+
+/**
+ * Payload for the `TEMPLATE_USED` event.
+ */
+export const ZWebhookTemplateUsedSchema = z.object({
+  template: ZWebhookTemplateSchema,
+  document: ZWebhookDocumentSchema,
+});
+
+/**
+ * Payload for the `DIRECT_TEMPLATE_SUBMITTED` event, `recipient` is the person who submitted
+ * the direct template.
+ */
+export const ZWebhookDirectTemplateSubmittedSchema = z.object({
+  template: ZWebhookTemplateSchema,
+  document: ZWebhookDocumentSchema,
+  recipient: ZWebhookRecipientSchema,
+});
+
 export type TWebhookRecipient = z.infer<typeof ZWebhookRecipientSchema>;
 export type TWebhookDocument = z.infer<typeof ZWebhookDocumentSchema>;
+export type TWebhookTemplate = z.infer<typeof ZWebhookTemplateSchema>;
+export type TWebhookRecipientEvent = z.infer<typeof ZWebhookRecipientEventSchema>;
+export type TWebhookDocumentReminder = z.infer<typeof ZWebhookDocumentReminderSchema>;
+export type TWebhookTemplateUsed = z.infer<typeof ZWebhookTemplateUsedSchema>;
+export type TWebhookDirectTemplateSubmitted = z.infer<typeof ZWebhookDirectTemplateSubmittedSchema>;
+
+/**
+ * The payload sent for each webhook event.
+ */
+export type TWebhookEventPayloads = {
+  [WebhookTriggerEvents.DOCUMENT_CREATED]: TWebhookDocument;
+  [WebhookTriggerEvents.DOCUMENT_SENT]: TWebhookDocument;
+  [WebhookTriggerEvents.DOCUMENT_OPENED]: TWebhookDocument;
+  [WebhookTriggerEvents.DOCUMENT_SIGNED]: TWebhookDocument;
+  [WebhookTriggerEvents.DOCUMENT_COMPLETED]: TWebhookDocument;
+  [WebhookTriggerEvents.DOCUMENT_REJECTED]: TWebhookDocument;
+  [WebhookTriggerEvents.DOCUMENT_CANCELLED]: TWebhookDocument;
+  [WebhookTriggerEvents.DOCUMENT_EXPIRED]: TWebhookDocument;
+  [WebhookTriggerEvents.DOCUMENT_REMINDER_SENT]: TWebhookDocumentReminder;
+  [WebhookTriggerEvents.RECIPIENT_VIEWED]: TWebhookRecipientEvent;
+  [WebhookTriggerEvents.RECIPIENT_SIGNED]: TWebhookRecipientEvent;
+  [WebhookTriggerEvents.RECIPIENT_REJECTED]: TWebhookRecipientEvent;
+  [WebhookTriggerEvents.TEMPLATE_CREATED]: TWebhookTemplate;
+  [WebhookTriggerEvents.TEMPLATE_USED]: TWebhookTemplateUsed;
+  [WebhookTriggerEvents.DIRECT_TEMPLATE_SUBMITTED]: TWebhookDirectTemplateSubmitted;
+};
 
 export const mapDocumentToWebhookDocumentPayload = (
   document: Document & {
@@ -107,3 +192,22 @@ export const mapDocumentToWebhookDocumentPayload = (
     recipients,
   };
 };
+
+export const mapRecipientToWebhookRecipientEventPayload = (
+  document: Document & {
+    recipients: Recipient[];
+    documentMeta: DocumentMeta | null;
+  },
+  recipientId: number,
+): TWebhookRecipientEvent => {
+  const recipient = document.recipients.find((recipient) => recipient.id === recipientId);
+
+  if (!recipient) {
+    throw new Error('Recipient not found');
+  }
+
+  return {
+    recipient,
+    document: mapDocumentToWebhookDocumentPayload(document),
+  };
+};
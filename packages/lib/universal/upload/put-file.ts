@@ -3,6 +3,7 @@ import { env } from 'next-runtime-env';
 import { PDFDocument } from 'pdf-lib';
 import { match } from 'ts-pattern';
 
+import type { UsageOwnerOptions } from '@documenso/ee/server-only/limits/usage';
 import { getFlag } from '@documenso/lib/universal/get-feature-flag';
 import { DocumentDataType } from '@documenso/prisma/client';
 
@@ -18,8 +19,10 @@ type File = {
 /**
  * Uploads a document file to the appropriate storage location and creates
  * a document data record.
+ *
+ * When an owner is provided the upload is checked against their storage quota.
  */
-export const putPdfFile = async (file: File) => {
+export const putPdfFile = async (file: File, owner?: UsageOwnerOptions) => {
   const isEncryptedDocumentsAllowed = await getFlag('app_allow_encrypted_documents').catch(
     () => false,
   );
@@ -42,7 +45,7 @@ export const putPdfFile = async (file: File) => {
 
   const { type, data } = await putFile(file);
 
-  return await createDocumentData({ type, data });
+  return await createDocumentData({ type, data, size: arrayBuffer.byteLength, owner });
 };
 
 /**
@@ -1,6 +1,7 @@
 import { type Field, FieldType } from '@documenso/prisma/client';
 
 import { ZFieldMetaSchema } from '../types/field-meta';
+import { isFieldConditionallyRequired, isFieldVisible } from './field-conditions';
 
 // Currently it seems that the majority of fields have advanced fields for font reasons.
 // This array should only contain fields that have an optional setting in the fieldMeta.
@@ -14,8 +15,27 @@ export const ADVANCED_FIELD_TYPES_WITH_OPTIONAL_SETTING: FieldType[] = [
 
 /**
  * Whether a field is required to be inserted.
+ *
+ * @param field The field to check.
+ * @param documentFields All the fields of the document, used to evaluate conditional logic.
  */
-export const isRequiredField = (field: Field) => {
+export const isRequiredField = (field: Field, documentFields: Field[] = [field]) => {
+  // Formula fields are calculated automatically and never filled in by the recipient.
+  if (field.type === FieldType.FORMULA) {
+    return false;
+  }
+
+  // Fields hidden by their conditional logic are never required.
+  if (!isFieldVisible(field, documentFields)) {
+    return false;
+  }
+
+  const conditionallyRequired = isFieldConditionallyRequired(field, documentFields);
+
+  if (conditionallyRequired !== null) {
+    return conditionallyRequired;
+  }
+
   // All fields without the optional metadata are assumed to be required.
   if (!ADVANCED_FIELD_TYPES_WITH_OPTIONAL_SETTING.includes(field.type)) {
     return true;
@@ -41,11 +61,16 @@ export const isRequiredField = (field: Field) => {
 /**
  * Whether the provided field is required and not inserted.
  */
-export const isFieldUnsignedAndRequired = (field: Field) =>
-  isRequiredField(field) && !field.inserted;
+export const isFieldUnsignedAndRequired = (field: Field, documentFields: Field[] = [field]) =>
+  isRequiredField(field, documentFields) && !field.inserted;
 
 /**
  * Whether the provided fields contains a field that is required to be inserted.
+ *
+ * @param fields The fields to check.
+ * @param documentFields All the fields of the document, defaults to the provided fields.
  */
-export const fieldsContainUnsignedRequiredField = (fields: Field[]) =>
-  fields.some(isFieldUnsignedAndRequired);
+export const fieldsContainUnsignedRequiredField = (
+  fields: Field[],
+  documentFields: Field[] = fields,
+) => fields.some((field) => isFieldUnsignedAndRequired(field, documentFields));
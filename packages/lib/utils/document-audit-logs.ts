@@ -338,6 +338,34 @@ export const formatDocumentAuditLogAction = (
       anonymous: msg`Document opened`,
       identified: msg`${prefix} opened the document`,
     }))
+    .with({ type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_ACCESS_AUTH_FAILED }, ({ data }) => {
+      const userName = prefix || _(msg`Recipient`);
+
+      const result = data.isLockedOut
+        ? msg`${userName} was locked out after too many failed access attempts`
+        : msg`${userName} failed to access the document`;
+
+      return {
+        anonymous: result,
+        identified: result,
+      };
+    })
+    .with(
+      { type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_RECIPIENT_ID_VERIFICATION_UPDATED },
+      ({ data }) => {
+        const recipientName = data.recipientName || data.recipientEmail;
+
+        const result = match(data.status)
+          .with('verified', () => msg`${recipientName}'s identity was verified`)
+          .with('rejected', () => msg`${recipientName}'s identity document was rejected`)
+          .otherwise(() => msg`${recipientName} submitted an identity document for review`);
+
+        return {
+          anonymous: result,
+          identified: result,
+        };
+      },
+    )
     .with({ type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_TITLE_UPDATED }, () => ({
       anonymous: msg`Document title updated`,
       identified: msg`${prefix} updated the document title`,
@@ -346,6 +374,18 @@ export const formatDocumentAuditLogAction = (
       anonymous: msg`Document external ID updated`,
       identified: msg`${prefix} updated the document external ID`,
     }))
+    .with({ type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_EXPIRY_UPDATED }, () => ({
+      anonymous: msg`Document expiry date updated`,
+      identified: msg`${prefix} updated the document expiry date`,
+    }))
+    .with({ type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_EXPIRED }, () => ({
+      anonymous: msg`Document expired`,
+      identified: msg`Document expired`,
+    }))
+    .with({ type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_VOIDED }, () => ({
+      anonymous: msg`Document voided`,
+      identified: msg`${prefix} voided the document`,
+    }))
     .with({ type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_SENT }, () => ({
       anonymous: msg`Document sent`,
       identified: msg`${prefix} sent the document`,
@@ -354,6 +394,34 @@ export const formatDocumentAuditLogAction = (
       anonymous: msg`Document moved to team`,
       identified: msg`${prefix} moved the document to team`,
     }))
+    .with({ type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_VERSION_CREATED }, ({ data }) => ({
+      anonymous: msg`Document version ${data.versionNumber} created`,
+      identified: msg`${prefix} created document version ${data.versionNumber}`,
+    }))
+    .with({ type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_VERSION_RESTORED }, ({ data }) => ({
+      anonymous: msg`Document restored to version ${data.versionNumber}`,
+      identified: msg`${prefix} restored the document to version ${data.versionNumber}`,
+    }))
+    .with({ type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_VERSION_DELETED }, ({ data }) => ({
+      anonymous: msg`Document version ${data.versionNumber} deleted`,
+      identified: msg`${prefix} deleted document version ${data.versionNumber}`,
+    }))
+    .with({ type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_LOCKED }, () => ({
+      anonymous: msg`Document locked for editing`,
+      identified: msg`${prefix} locked the document for editing`,
+    }))
+    .with({ type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_UNLOCKED }, () => ({
+      anonymous: msg`Document unlocked`,
+      identified: msg`${prefix} unlocked the document`,
+    }))
+    .with({ type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_FORCE_UNLOCKED }, () => ({
+      anonymous: msg`Document force unlocked`,
+      identified: msg`${prefix} force unlocked the document`,
+    }))
+    .with({ type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_LOCK_EXPIRED }, () => ({
+      anonymous: msg`Document lock expired`,
+      identified: msg`Document lock expired`,
+    }))
     .with({ type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_RECIPIENT_COMPLETED }, ({ data }) => {
       const userName = prefix || _(msg`Recipient`);
 
@@ -379,6 +447,20 @@ export const formatDocumentAuditLogAction = (
         identified: result,
       };
     })
+    .with({ type: DOCUMENT_AUDIT_LOG_TYPE.DOCUMENT_RECIPIENT_SKIPPED }, ({ data }) => {
+      const userName = data.recipientName || data.recipientEmail;
+
+      const result = msg`${userName} was skipped by the signing order`;
+
+      return {
+        anonymous: result,
+        identified: result,
+      };
+    })
+    .with({ type: DOCUMENT_AUDIT_LOG_TYPE.EMAIL_SENT, data: { isReminder: true } }, ({ data }) => ({
+      anonymous: msg`Reminder sent to ${data.recipientEmail}`,
+      identified: msg`${prefix} sent a reminder to ${data.recipientEmail}`,
+    }))
     .with({ type: DOCUMENT_AUDIT_LOG_TYPE.EMAIL_SENT }, ({ data }) => ({
       anonymous: data.isResending ? msg`Email resent` : msg`Email sent`,
       identified: data.isResending
@@ -0,0 +1,329 @@
+import { match } from 'ts-pattern';
+
+import {
+  type Field,
+  FieldType,
+  type Recipient,
+  RecipientRole,
+  SigningStatus,
+} from '@documenso/prisma/client';
+
+import type {
+  TDocumentSigningRouting,
+  TSigningRoutingGroupCompletion,
+  TSigningRoutingRule,
+} from '../types/document-signing-routing';
+import { ZNumberFieldMeta } from '../types/field-meta';
+import { getFieldLabel } from './field-conditions';
+import { parseFormattedNumber } from './field-formula';
+
+type RoutingRecipient = Pick<Recipient, 'id' | 'role' | 'signingOrder' | 'signingStatus'>;
+
+type RoutingField = Pick<
+  Field,
+  'id' | 'type' | 'recipientId' | 'inserted' | 'customText' | 'fieldMeta'
+>;
+
+export type SigningRoutingStep<T extends RoutingRecipient> = {
+  signingOrder: number | null;
+  completion: TSigningRoutingGroupCompletion;
+  recipients: T[];
+};
+
+export type SkippedRoutingRecipient<T extends RoutingRecipient> = {
+  recipient: T;
+  reason: 'GROUP_COMPLETED' | 'ROUTING_RULE';
+};
+
+const compareSigningOrder = (a: RoutingRecipient, b: RoutingRecipient) => {
+  if (a.signingOrder === b.signingOrder) {
+    return a.id - b.id;
+  }
+
+  if (a.signingOrder === null) {
+    return 1;
+  }
+
+  if (b.signingOrder === null) {
+    return -1;
+  }
+
+  return a.signingOrder - b.signingOrder;
+};
+
+/**
+ * Group the recipients of a document into the steps they sign the document in.
+ *
+ * Recipients that share a signing order sign in parallel, recipients without a signing order
+ * each sign on their own after everyone else. CC recipients never have to act and are left out.
+ */
+export const getSigningRoutingSteps = <T extends RoutingRecipient>(
+  recipients: T[],
+  routing: TDocumentSigningRouting,
+) => {
+  const steps: SigningRoutingStep<T>[] = [];
+
+  const sortedRecipients = recipients
+    .filter((recipient) => recipient.role !== RecipientRole.CC)
+    .sort(compareSigningOrder);
+
+  for (const recipient of sortedRecipients) {
+    const previousStep = steps[steps.length - 1];
+
+    if (
+      previousStep &&
+      recipient.signingOrder !== null &&
+      previousStep.signingOrder === recipient.signingOrder
+    ) {
+      previousStep.recipients.push(recipient);
+      continue;
+    }
+
+    const group = routing.groups.find((group) => group.signingOrder === recipient.signingOrder);
+
+    steps.push({
+      signingOrder: recipient.signingOrder,
+      completion: group?.completion ?? 'all',
+      recipients: [recipient],
+    });
+  }
+
+  return steps;
+};
+
+/**
+ * Whether a step no longer requires any of its recipients to act.
+ */
+export const isSigningRoutingStepComplete = (step: SigningRoutingStep<RoutingRecipient>) => {
+  if (
+    step.completion === 'any' &&
+    step.recipients.some((recipient) => recipient.signingStatus === SigningStatus.SIGNED)
+  ) {
+    return true;
+  }
+
+  return step.recipients.every(
+    (recipient) =>
+      recipient.signingStatus === SigningStatus.SIGNED ||
+      recipient.signingStatus === SigningStatus.SKIPPED,
+  );
+};
+
+/**
+ * Get the index of the first step that still requires a recipient to act, or `-1` when every
+ * step has been completed.
+ */
+export const getActiveSigningRoutingStepIndex = (steps: SigningRoutingStep<RoutingRecipient>[]) => {
+  return steps.findIndex((step) => !isSigningRoutingStepComplete(step));
+};
+
+/**
+ * Whether it is the turn of the recipient to complete the document.
+ *
+ * It is a recipient's turn once every step before the one they belong to has been completed.
+ */
+export const isRecipientsTurnInSigningRouting = (
+  recipientId: number,
+  steps: SigningRoutingStep<RoutingRecipient>[],
+) => {
+  const stepIndex = steps.findIndex((step) =>
+    step.recipients.some((recipient) => recipient.id === recipientId),
+  );
+
+  // CC recipients are not part of any step.
+  if (stepIndex === -1) {
+    return true;
+  }
+
+  const activeStepIndex = getActiveSigningRoutingStepIndex(steps);
+
+  return activeStepIndex === -1 || stepIndex <= activeStepIndex;
+};
+
+/**
+ * Whether the field a routing rule depends on is completed by a recipient who signs before the
+ * recipient the rule skips. Rules for recipients that are no longer part of the document are
+ * ignored.
+ */
+export const isSigningRoutingRuleValid = (
+  rule: TSigningRoutingRule,
+  steps: SigningRoutingStep<RoutingRecipient>[],
+  fields: RoutingField[],
+) => {
+  const stepIndex = steps.findIndex((step) =>
+    step.recipients.some((recipient) => recipient.id === rule.recipientId),
+  );
+
+  if (stepIndex === -1) {
+    return true;
+  }
+
+  const earlierRecipientIds = steps
+    .slice(0, stepIndex)
+    .flatMap((step) => step.recipients.map((recipient) => recipient.id));
+
+  return fields.some(
+    (field) =>
+      getFieldLabel(field) === rule.fieldLabel.trim() &&
+      field.recipientId !== null &&
+      earlierRecipientIds.includes(field.recipientId),
+  );
+};
+
+const isRoutingRuleConditionMet = (rule: TSigningRoutingRule, value: number) => {
+  return match(rule.operator)
+    .with('equals', () => value === rule.value)
+    .with('notEquals', () => value !== rule.value)
+    .with('lessThan', () => value < rule.value)
+    .with('lessThanOrEquals', () => value <= rule.value)
+    .with('greaterThan', () => value > rule.value)
+    .with('greaterThanOrEquals', () => value >= rule.value)
+    .exhaustive();
+};
+
+const getRoutingFieldValue = (field: RoutingField) => {
+  if (!field.inserted || !field.customText) {
+    return null;
+  }
+
+  const meta = field.type === FieldType.NUMBER ? ZNumberFieldMeta.safeParse(field.fieldMeta) : null;
+
+  return parseFormattedNumber(field.customText, meta?.success ? meta.data.numberFormat : null);
+};
+
+/**
+ * Whether a routing rule skips its recipient.
+ *
+ * Only fields of recipients who have completed the document are used so a value can't change
+ * after the rule has been applied. Rules whose field has not been completed yet never skip.
+ */
+const isRecipientSkippedByRule = (
+  rule: TSigningRoutingRule,
+  recipients: RoutingRecipient[],
+  fields: RoutingField[],
+) => {
+  const field = fields.find(
+    (field) =>
+      getFieldLabel(field) === rule.fieldLabel.trim() &&
+      recipients.some(
+        (recipient) =>
+          recipient.id === field.recipientId && recipient.signingStatus === SigningStatus.SIGNED,
+      ),
+  );
+
+  const value = field ? getRoutingFieldValue(field) : null;
+
+  if (value === null) {
+    return false;
+  }
+
+  return isRoutingRuleConditionMet(rule, value);
+};
+
+/**
+ * Resolve which recipients no longer have to complete the document and which recipients need to
+ * act next.
+ *
+ * Recipients are skipped when another recipient of their "any one" group has completed the
+ * document, or when one of the routing rules for them is met. Skipping recipients can complete a
+ * step, so this is repeated until no more recipients are skipped.
+ */
+export const resolveSigningRouting = <T extends RoutingRecipient>({
+  recipients,
+  fields,
+  routing,
+}: {
+  recipients: T[];
+  fields: RoutingField[];
+  routing: TDocumentSigningRouting;
+}) => {
+  const skippedRecipients: SkippedRoutingRecipient<T>[] = [];
+
+  let resolvedRecipients = recipients.map((recipient) => ({ ...recipient }));
+
+  const skipRecipient = (recipient: T, reason: SkippedRoutingRecipient<T>['reason']) => {
+    skippedRecipients.push({ recipient, reason });
+
+    resolvedRecipients = resolvedRecipients.map((resolvedRecipient) =>
+      resolvedRecipient.id === recipient.id
+        ? { ...resolvedRecipient, signingStatus: SigningStatus.SKIPPED }
+        : resolvedRecipient,
+    );
+  };
+
+  let hasSkippedRecipient = true;
+
+  while (hasSkippedRecipient) {
+    hasSkippedRecipient = false;
+
+    const steps = getSigningRoutingSteps(resolvedRecipients, routing);
+
+    for (const step of steps) {
+      const isStepComplete = isSigningRoutingStepComplete(step);
+
+      for (const recipient of step.recipients) {
+        if (recipient.signingStatus !== SigningStatus.NOT_SIGNED) {
+          continue;
+        }
+
+        if (isStepComplete) {
+          skipRecipient(recipient, 'GROUP_COMPLETED');
+          hasSkippedRecipient = true;
+          continue;
+        }
+
+        const isSkippedByRule = routing.rules.some(
+          (rule) =>
+            rule.recipientId === recipient.id &&
+            isRecipientSkippedByRule(rule, resolvedRecipients, fields),
+        );
+
+        if (isSkippedByRule) {
+          skipRecipient(recipient, 'ROUTING_RULE');
+          hasSkippedRecipient = true;
+        }
+      }
+    }
+  }
+
+  const steps = getSigningRoutingSteps(resolvedRecipients, routing);
+  const activeStep = steps[getActiveSigningRoutingStepIndex(steps)];
+
+  return {
+    skippedRecipients,
+    activeRecipients: (activeStep?.recipients ?? []).filter(
+      (recipient) => recipient.signingStatus === SigningStatus.NOT_SIGNED,
+    ),
+    isComplete: !activeStep,
+  };
+};
+
+/**
+ * Get the skipped recipients the routing no longer skips, for example because the signing order
+ * or the routing rules of a pending document have been corrected.
+ */
+export const getUnskippedSigningRoutingRecipients = <T extends RoutingRecipient>({
+  recipients,
+  fields,
+  routing,
+}: {
+  recipients: T[];
+  fields: RoutingField[];
+  routing: TDocumentSigningRouting;
+}) => {
+  const { skippedRecipients } = resolveSigningRouting({
+    recipients: recipients.map((recipient) =>
+      recipient.signingStatus === SigningStatus.SKIPPED
+        ? { ...recipient, signingStatus: SigningStatus.NOT_SIGNED }
+        : recipient,
+    ),
+    fields,
+    routing,
+  });
+
+  return recipients.filter(
+    (recipient) =>
+      recipient.signingStatus === SigningStatus.SKIPPED &&
+      !skippedRecipients.some(({ recipient: skipped }) => skipped.id === recipient.id),
+  );
+};
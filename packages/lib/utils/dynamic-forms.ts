@@ -0,0 +1,15 @@
+import { WEBAPP_BASE_URL } from '../constants/app';
+
+/**
+ * Format the public path of a form.
+ *
+ * @param url The team URL, or the profile URL of the user for personal forms.
+ * @param slug The custom slug of the form.
+ */
+export const formatDynamicFormPath = (
+  url: string,
+  slug: string,
+  options: { excludeBaseUrl?: boolean } = {},
+) => {
+  return `${!options?.excludeBaseUrl ? WEBAPP_BASE_URL : ''}/f/${url}/${slug}`;
+};
@@ -0,0 +1,142 @@
+import { match } from 'ts-pattern';
+
+import { type Field, FieldType } from '@documenso/prisma/client';
+
+import type { TFieldCondition, TFieldConditionalLogic } from '../types/field-meta';
+import { ZFieldMetaSchema } from '../types/field-meta';
+import { fromCheckboxValue } from '../universal/field-checkbox';
+
+type ConditionalField = Pick<Field, 'id' | 'type' | 'inserted' | 'customText' | 'fieldMeta'>;
+
+/**
+ * Extract the conditional logic from a field, if it has any.
+ */
+export const getFieldConditionalLogic = (
+  field: Pick<Field, 'fieldMeta'>,
+): TFieldConditionalLogic | null => {
+  if (!field.fieldMeta) {
+    return null;
+  }
+
+  const parsedData = ZFieldMetaSchema.safeParse(field.fieldMeta);
+
+  if (!parsedData.success) {
+    return null;
+  }
+
+  return parsedData.data?.conditionalLogic ?? null;
+};
+
+/**
+ * The trimmed label of a field, used to reference it from other fields.
+ */
+export const getFieldLabel = (field: Pick<Field, 'fieldMeta'>) => {
+  const parsedData = ZFieldMetaSchema.safeParse(field.fieldMeta);
+
+  if (!parsedData.success) {
+    return null;
+  }
+
+  return parsedData.data?.label?.trim() || null;
+};
+
+/**
+ * The values a field currently holds, checkboxes can hold multiple values.
+ */
+const getFieldValues = (field: ConditionalField) => {
+  if (!field.inserted || !field.customText) {
+    return [];
+  }
+
+  if (field.type === FieldType.CHECKBOX) {
+    return fromCheckboxValue(field.customText);
+  }
+
+  return [field.customText];
+};
+
+const isConditionMet = (condition: TFieldCondition, values: string[]) => {
+  const isFilled = values.some((value) => value.trim() !== '');
+
+  return match(condition.operator)
+    .with('equals', () => values.includes(condition.value ?? ''))
+    .with('notEquals', () => !values.includes(condition.value ?? ''))
+    .with('checked', () => (condition.value ? values.includes(condition.value) : isFilled))
+    .with('notChecked', () => (condition.value ? !values.includes(condition.value) : !isFilled))
+    .with('isFilled', () => isFilled)
+    .with('isEmpty', () => !isFilled)
+    .exhaustive();
+};
+
+const areConditionsMet = (
+  field: ConditionalField,
+  conditionalLogic: TFieldConditionalLogic,
+  documentFields: ConditionalField[],
+  visitedFieldIds: Set<number>,
+) => {
+  const nextVisitedFieldIds = new Set(visitedFieldIds).add(field.id);
+
+  const results = conditionalLogic.conditions.map((condition) => {
+    const label = condition.fieldLabel.trim();
+
+    // Fields that are hidden or part of a circular dependency are treated as empty.
+    const values = documentFields
+      .filter(
+        (documentField) =>
+          documentField.id !== field.id &&
+          !nextVisitedFieldIds.has(documentField.id) &&
+          getFieldLabel(documentField) === label &&
+          isVisible(documentField, documentFields, nextVisitedFieldIds),
+      )
+      .flatMap(getFieldValues);
+
+    return isConditionMet(condition, values);
+  });
+
+  return conditionalLogic.match === 'any' ? results.some(Boolean) : results.every(Boolean);
+};
+
+const isVisible = (
+  field: ConditionalField,
+  documentFields: ConditionalField[],
+  visitedFieldIds: Set<number>,
+): boolean => {
+  const conditionalLogic = getFieldConditionalLogic(field);
+
+  if (!conditionalLogic || conditionalLogic.action === 'require') {
+    return true;
+  }
+
+  const conditionsMet = areConditionsMet(field, conditionalLogic, documentFields, visitedFieldIds);
+
+  return conditionalLogic.action === 'show' ? conditionsMet : !conditionsMet;
+};
+
+/**
+ * Whether a field should be displayed and inserted based on its conditional logic.
+ *
+ * @param field The field to check.
+ * @param documentFields All the fields of the document, the conditions are evaluated against these.
+ */
+export const isFieldVisible = (field: ConditionalField, documentFields: ConditionalField[]) => {
+  return isVisible(field, documentFields, new Set());
+};
+
+/**
+ * Whether a field is required by its conditional logic.
+ *
+ * Returns `null` when the field has no conditional requirement, in which case the regular
+ * required setting applies.
+ */
+export const isFieldConditionallyRequired = (
+  field: ConditionalField,
+  documentFields: ConditionalField[],
+) => {
+  const conditionalLogic = getFieldConditionalLogic(field);
+
+  if (!conditionalLogic || conditionalLogic.action !== 'require') {
+    return null;
+  }
+
+  return areConditionsMet(field, conditionalLogic, documentFields, new Set());
+};
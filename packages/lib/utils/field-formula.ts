@@ -0,0 +1,202 @@
+import { DateTime } from 'luxon';
+import { match } from 'ts-pattern';
+
+import { type Field, FieldType } from '@documenso/prisma/client';
+
+import { DEFAULT_DOCUMENT_DATE_FORMAT } from '../constants/date-formats';
+import { DEFAULT_DOCUMENT_TIME_ZONE } from '../constants/time-zones';
+import type { TFormulaFieldMeta } from '../types/field-meta';
+import { ZFormulaFieldMeta, ZNumberFieldMeta } from '../types/field-meta';
+import { getFieldLabel, isFieldVisible } from './field-conditions';
+
+type FormulaOperandField = Pick<Field, 'id' | 'type' | 'inserted' | 'customText' | 'fieldMeta'>;
+
+export type ComputeFormulaFieldValueOptions = {
+  dateFormat?: string | null;
+  timezone?: string | null;
+};
+
+/**
+ * Parse a number that was entered using one of the supported number formats.
+ */
+export const parseFormattedNumber = (value: string, numberFormat?: string | null) => {
+  // Strip everything that is not part of the number, such as currency symbols.
+  let normalizedValue = value.replace(/[^\d.,-]/g, '');
+
+  normalizedValue =
+    numberFormat === '123.456.789,00'
+      ? normalizedValue.replace(/\./g, '').replace(',', '.')
+      : normalizedValue.replace(/,/g, '');
+
+  if (normalizedValue === '') {
+    return null;
+  }
+
+  const parsedValue = Number(normalizedValue);
+
+  return Number.isFinite(parsedValue) ? parsedValue : null;
+};
+
+/**
+ * Format a calculated number using one of the supported number formats.
+ */
+export const formatFormulaNumber = (value: number, numberFormat?: string | null) => {
+  return match(numberFormat)
+    .with('123,456,789.00', () =>
+      value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+    )
+    .with('123.456.789,00', () =>
+      value.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+    )
+    .with('123456,789.00', () => value.toFixed(2))
+    .otherwise(() => String(Math.round(value * 100) / 100));
+};
+
+const getOperandFields = (
+  field: FormulaOperandField,
+  label: string,
+  documentFields: FormulaOperandField[],
+) => {
+  return documentFields.filter(
+    (documentField) =>
+      documentField.id !== field.id &&
+      getFieldLabel(documentField) === label.trim() &&
+      isFieldVisible(documentField, documentFields),
+  );
+};
+
+const getOperandNumber = (
+  field: FormulaOperandField,
+  documentFields: FormulaOperandField[],
+  visitedFieldIds: Set<number>,
+): number | null => {
+  return match(field.type)
+    .with(FieldType.NUMBER, () => {
+      if (!field.inserted) {
+        return null;
+      }
+
+      const meta = ZNumberFieldMeta.safeParse(field.fieldMeta);
+
+      return parseFormattedNumber(field.customText, meta.success ? meta.data.numberFormat : null);
+    })
+    .with(FieldType.DROPDOWN, () => {
+      return field.inserted ? parseFormattedNumber(field.customText) : null;
+    })
+    .with(FieldType.FORMULA, () => {
+      // Formulas can be chained, e.g. a total computed from a subtotal and a tax formula.
+      if (visitedFieldIds.has(field.id)) {
+        return null;
+      }
+
+      return computeFormulaNumber(field, documentFields, visitedFieldIds);
+    })
+    .otherwise(() => null);
+};
+
+const computeFormulaNumber = (
+  field: FormulaOperandField,
+  documentFields: FormulaOperandField[],
+  visitedFieldIds: Set<number>,
+): number | null => {
+  const parsedMeta = ZFormulaFieldMeta.safeParse(field.fieldMeta);
+
+  if (!parsedMeta.success) {
+    return null;
+  }
+
+  const meta = parsedMeta.data;
+
+  // Date formulas are computed by `computeFormulaDate` and never produce a number.
+  if (meta.operation === 'addDays') {
+    return null;
+  }
+
+  const nextVisitedFieldIds = new Set(visitedFieldIds).add(field.id);
+
+  const operandValues = meta.operands.map((label) =>
+    getOperandFields(field, label, documentFields)
+      .map((operandField) => getOperandNumber(operandField, documentFields, nextVisitedFieldIds))
+      .filter((value): value is number => value !== null),
+  );
+
+  const values = operandValues.flat();
+
+  if (values.length === 0) {
+    return null;
+  }
+
+  return match(meta.operation)
+    .with('sum', () => values.reduce((total, value) => total + value, 0))
+    .with('product', () => {
+      // A product can't be computed until every operand has a value.
+      if (operandValues.some((value) => value.length === 0)) {
+        return null;
+      }
+
+      return values.reduce((total, value) => total * value, 1);
+    })
+    .with(
+      'percentage',
+      () => (values.reduce((total, value) => total + value, 0) * (meta.amount ?? 0)) / 100,
+    )
+    .exhaustive();
+};
+
+const computeFormulaDate = (
+  field: FormulaOperandField,
+  meta: TFormulaFieldMeta,
+  documentFields: FormulaOperandField[],
+  options: ComputeFormulaFieldValueOptions,
+) => {
+  const dateFormat = options.dateFormat ?? DEFAULT_DOCUMENT_DATE_FORMAT;
+  const timezone = options.timezone ?? DEFAULT_DOCUMENT_TIME_ZONE;
+
+  const dateField = getOperandFields(field, meta.operands[0], documentFields).find(
+    (operandField) => operandField.type === FieldType.DATE && operandField.inserted,
+  );
+
+  if (!dateField) {
+    return null;
+  }
+
+  const date = DateTime.fromFormat(dateField.customText, dateFormat, { zone: timezone });
+
+  if (!date.isValid) {
+    return null;
+  }
+
+  return date.plus({ days: meta.amount ?? 0 }).toFormat(dateFormat);
+};
+
+/**
+ * Compute the value of a formula field from the current values of the document fields.
+ *
+ * Returns `null` when the value can't be computed yet, for example when the fields it
+ * depends on have not been filled in.
+ *
+ * @param field The formula field to compute.
+ * @param documentFields All the fields of the document.
+ * @param options The date format and timezone of the document, used for date calculations.
+ */
+export const computeFormulaFieldValue = (
+  field: FormulaOperandField,
+  documentFields: FormulaOperandField[],
+  options: ComputeFormulaFieldValueOptions = {},
+) => {
+  const parsedMeta = ZFormulaFieldMeta.safeParse(field.fieldMeta);
+
+  if (!parsedMeta.success) {
+    return null;
+  }
+
+  const meta = parsedMeta.data;
+
+  if (meta.operation === 'addDays') {
+    return computeFormulaDate(field, meta, documentFields, options);
+  }
+
+  const value = computeFormulaNumber(field, documentFields, new Set());
+
+  return value === null ? null : formatFormulaNumber(value, meta.numberFormat);
+};
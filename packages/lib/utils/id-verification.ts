@@ -0,0 +1,20 @@
+const ID_IMAGE_SIGNATURES = [
+  { mimeType: 'image/jpeg', offset: 0, bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/png', offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  // WebP files start with "RIFF", followed by the file size and "WEBP".
+  { mimeType: 'image/webp', offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] },
+];
+
+/**
+ * Detects the type of an identity document image from its file signature rather
+ * than trusting the client.
+ *
+ * Returns null when the image is not a supported type.
+ */
+export const getIdImageMimeType = (data: Uint8Array) => {
+  const signature = ID_IMAGE_SIGNATURES.find(({ offset, bytes }) =>
+    bytes.every((byte, index) => data[offset + index] === byte),
+  );
+
+  return signature?.mimeType ?? null;
+};
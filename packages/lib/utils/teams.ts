@@ -1,6 +1,18 @@
+import type { TeamRole } from '@documenso/prisma/client';
+import { TeamMemberRole, TeamPermission } from '@documenso/prisma/client';
+
 import { WEBAPP_BASE_URL } from '../constants/app';
 import type { TEAM_MEMBER_ROLE_MAP } from '../constants/teams';
-import { TEAM_MEMBER_ROLE_HIERARCHY, TEAM_MEMBER_ROLE_PERMISSIONS_MAP } from '../constants/teams';
+import {
+  TEAM_MEMBER_ROLE_DEFAULT_PERMISSIONS,
+  TEAM_MEMBER_ROLE_HIERARCHY,
+  TEAM_MEMBER_ROLE_PERMISSIONS_MAP,
+} from '../constants/teams';
+
+export type TeamMemberWithPermissions = {
+  role: TeamMemberRole;
+  customRole?: Pick<TeamRole, 'permissions'> | null;
+};
 
 export const formatTeamUrl = (teamUrl: string, baseUrl?: string) => {
   const formattedBaseUrl = (baseUrl ?? WEBAPP_BASE_URL).replace(/https?:\/\//, '');
@@ -44,3 +56,42 @@ export const isTeamRoleWithinUserHierarchy = (
 ) => {
   return TEAM_MEMBER_ROLE_HIERARCHY[currentUserRole].some((i) => i === roleToCheck);
 };
+
+/**
+ * Get the permissions of a team member.
+ *
+ * A custom role overrides the default permissions of the member's base role.
+ */
+export const getTeamMemberPermissions = (member: TeamMemberWithPermissions): TeamPermission[] => {
+  if (member.customRole) {
+    return member.customRole.permissions;
+  }
+
+  return TEAM_MEMBER_ROLE_DEFAULT_PERMISSIONS[member.role];
+};
+
+/**
+ * Determines whether a team member has been granted a given permission.
+ */
+export const hasTeamPermission = (
+  member: TeamMemberWithPermissions,
+  permission: TeamPermission,
+) => {
+  return getTeamMemberPermissions(member).includes(permission);
+};
+
+/**
+ * Get the role used to determine which document visibilities a team member can access.
+ *
+ * Members with the `VIEW_ALL_DOCUMENTS` permission can access every document, otherwise access
+ * is capped at the manager level regardless of the member's base role.
+ */
+export const getTeamMemberDocumentVisibilityRole = (
+  member: TeamMemberWithPermissions,
+): TeamMemberRole => {
+  if (hasTeamPermission(member, TeamPermission.VIEW_ALL_DOCUMENTS)) {
+    return TeamMemberRole.ADMIN;
+  }
+
+  return member.role === TeamMemberRole.ADMIN ? TeamMemberRole.MANAGER : member.role;
+};
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN     "isLocked" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "lockExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "lockedByUserId" INTEGER;
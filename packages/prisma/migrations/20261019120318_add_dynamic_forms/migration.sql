@@ -0,0 +1,103 @@
+-- CreateEnum
+CREATE TYPE "FormFieldType" AS ENUM ('TEXT', 'NUMBER', 'EMAIL', 'PHONE', 'DATE', 'CHECKBOX', 'SELECT', 'RADIO', 'FILE_UPLOAD');
+
+-- CreateTable
+CREATE TABLE "DynamicForm" (
+    "id" SERIAL NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "userId" INTEGER NOT NULL,
+    "teamId" INTEGER,
+    "templateId" INTEGER,
+    "accessControl" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "customDomain" TEXT,
+    "customSlug" TEXT,
+    "isPublished" BOOLEAN NOT NULL DEFAULT false,
+    "analyticsEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "redirectUrl" TEXT,
+
+    CONSTRAINT "DynamicForm_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FormField" (
+    "id" SERIAL NOT NULL,
+    "formId" INTEGER NOT NULL,
+    "type" "FormFieldType" NOT NULL,
+    "label" TEXT NOT NULL,
+    "placeholder" TEXT,
+    "helpText" TEXT,
+    "isRequired" BOOLEAN NOT NULL DEFAULT false,
+    "defaultValue" TEXT,
+    "validationRules" TEXT,
+    "options" TEXT,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "formValueKey" TEXT,
+
+    CONSTRAINT "FormField_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FormSubmission" (
+    "id" SERIAL NOT NULL,
+    "formId" INTEGER NOT NULL,
+    "documentId" INTEGER,
+    "submittedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "submitterEmail" TEXT NOT NULL,
+    "submitterName" TEXT,
+    "submitterIp" TEXT,
+
+    CONSTRAINT "FormSubmission_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FormFieldSubmission" (
+    "id" SERIAL NOT NULL,
+    "submissionId" INTEGER NOT NULL,
+    "fieldId" INTEGER NOT NULL,
+    "value" TEXT NOT NULL,
+
+    CONSTRAINT "FormFieldSubmission_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DynamicForm_customSlug_teamId_key" ON "DynamicForm"("customSlug", "teamId");
+
+-- CreateIndex
+CREATE INDEX "DynamicForm_userId_idx" ON "DynamicForm"("userId");
+
+-- CreateIndex
+CREATE INDEX "DynamicForm_templateId_idx" ON "DynamicForm"("templateId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FormSubmission_documentId_key" ON "FormSubmission"("documentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FormFieldSubmission_submissionId_fieldId_key" ON "FormFieldSubmission"("submissionId", "fieldId");
+
+-- AddForeignKey
+ALTER TABLE "DynamicForm" ADD CONSTRAINT "DynamicForm_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DynamicForm" ADD CONSTRAINT "DynamicForm_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DynamicForm" ADD CONSTRAINT "DynamicForm_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "Template"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FormField" ADD CONSTRAINT "FormField_formId_fkey" FOREIGN KEY ("formId") REFERENCES "DynamicForm"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FormSubmission" ADD CONSTRAINT "FormSubmission_formId_fkey" FOREIGN KEY ("formId") REFERENCES "DynamicForm"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FormSubmission" ADD CONSTRAINT "FormSubmission_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FormFieldSubmission" ADD CONSTRAINT "FormFieldSubmission_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "FormSubmission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FormFieldSubmission" ADD CONSTRAINT "FormFieldSubmission_fieldId_fkey" FOREIGN KEY ("fieldId") REFERENCES "FormField"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "SignerVerification" (
+    "id" SERIAL NOT NULL,
+    "recipientId" INTEGER NOT NULL,
+    "smsVerificationEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "smsVerificationPhone" TEXT,
+    "smsVerificationCode" TEXT,
+    "smsVerificationCodeSentAt" TIMESTAMP(3),
+    "smsVerificationCodeExpiresAt" TIMESTAMP(3),
+    "smsVerificationAttempts" INTEGER NOT NULL DEFAULT 0,
+    "idVerificationEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "idVerificationType" TEXT,
+    "idVerificationStatus" TEXT,
+    "biometricEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "biometricType" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SignerVerification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SignerVerification_recipientId_key" ON "SignerVerification"("recipientId");
+
+-- AddForeignKey
+ALTER TABLE "SignerVerification" ADD CONSTRAINT "SignerVerification_recipientId_fkey" FOREIGN KEY ("recipientId") REFERENCES "Recipient"("id") ON DELETE CASCADE ON UPDATE CASCADE;
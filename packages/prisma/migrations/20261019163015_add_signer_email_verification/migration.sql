@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "SignerVerification" ADD COLUMN     "emailVerificationAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "emailVerificationCode" TEXT,
+ADD COLUMN     "emailVerificationCodeExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "emailVerificationCodeSentAt" TIMESTAMP(3);
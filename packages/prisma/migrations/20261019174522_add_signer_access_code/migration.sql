@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "SignerVerification" ADD COLUMN     "accessCodeAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "accessCodeHash" TEXT,
+ADD COLUMN     "accessCodeLockedUntil" TIMESTAMP(3);
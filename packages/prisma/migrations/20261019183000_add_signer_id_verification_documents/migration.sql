@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "SignerVerification" ADD COLUMN     "idVerificationBackImage" TEXT,
+ADD COLUMN     "idVerificationFrontImage" TEXT,
+ADD COLUMN     "idVerificationImageType" "DocumentDataType",
+ADD COLUMN     "idVerificationProviderReference" TEXT,
+ADD COLUMN     "idVerificationRejectionReason" TEXT,
+ADD COLUMN     "idVerificationReviewedAt" TIMESTAMP(3),
+ADD COLUMN     "idVerificationSubmittedAt" TIMESTAMP(3);
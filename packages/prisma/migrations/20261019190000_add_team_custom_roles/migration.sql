@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "TeamPermission" AS ENUM ('SEND_DOCUMENTS', 'MANAGE_DOCUMENTS', 'MANAGE_TEMPLATES', 'VIEW_ALL_DOCUMENTS', 'MANAGE_WEBHOOKS', 'MANAGE_API_TOKENS', 'VIEW_BILLING');
+
+-- AlterTable
+ALTER TABLE "TeamMember" ADD COLUMN     "customRoleId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "TeamRole" (
+    "id" SERIAL NOT NULL,
+    "teamId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL DEFAULT '',
+    "permissions" "TeamPermission"[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TeamRole_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TeamRole_teamId_name_key" ON "TeamRole"("teamId", "name");
+
+-- AddForeignKey
+ALTER TABLE "TeamMember" ADD CONSTRAINT "TeamMember_customRoleId_fkey" FOREIGN KEY ("customRoleId") REFERENCES "TeamRole"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TeamRole" ADD CONSTRAINT "TeamRole_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,50 @@
+-- AlterEnum
+ALTER TYPE "IdentityProvider" ADD VALUE 'SAML';
+
+-- CreateTable
+CREATE TABLE "TeamSsoConnection" (
+    "id" TEXT NOT NULL,
+    "teamId" INTEGER NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT false,
+    "forceSso" BOOLEAN NOT NULL DEFAULT false,
+    "idpEntityId" TEXT NOT NULL,
+    "idpSsoUrl" TEXT NOT NULL,
+    "idpCertificate" TEXT NOT NULL,
+    "idpMetadataXml" TEXT,
+    "emailAttribute" TEXT NOT NULL DEFAULT 'email',
+    "nameAttribute" TEXT NOT NULL DEFAULT 'name',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TeamSsoConnection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TeamSsoDomain" (
+    "id" TEXT NOT NULL,
+    "teamId" INTEGER NOT NULL,
+    "domain" TEXT NOT NULL,
+    "verificationToken" TEXT NOT NULL,
+    "verifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TeamSsoDomain_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TeamSsoConnection_teamId_key" ON "TeamSsoConnection"("teamId");
+
+-- CreateIndex
+CREATE INDEX "TeamSsoDomain_domain_idx" ON "TeamSsoDomain"("domain");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TeamSsoDomain_teamId_domain_key" ON "TeamSsoDomain"("teamId", "domain");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TeamSsoDomain_domain_verified_key" ON "TeamSsoDomain"("domain") WHERE "verifiedAt" IS NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "TeamSsoConnection" ADD CONSTRAINT "TeamSsoConnection_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TeamSsoDomain" ADD CONSTRAINT "TeamSsoDomain_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,84 @@
+-- CreateEnum
+CREATE TYPE "UsageMetric" AS ENUM ('DOCUMENTS', 'DIRECT_TEMPLATES', 'API_CALLS', 'STORAGE');
+
+-- CreateEnum
+CREATE TYPE "UsageQuotaEnforcement" AS ENUM ('SOFT', 'HARD');
+
+-- AlterTable
+ALTER TABLE "DocumentData" ADD COLUMN "size" INTEGER;
+
+-- CreateTable
+CREATE TABLE "UsageQuota" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER,
+    "teamId" INTEGER,
+    "documents" INTEGER,
+    "recipients" INTEGER,
+    "directTemplates" INTEGER,
+    "apiCalls" INTEGER,
+    "storageMegabytes" INTEGER,
+    "enforcement" "UsageQuotaEnforcement" NOT NULL DEFAULT 'HARD',
+    "warningThreshold" INTEGER NOT NULL DEFAULT 80,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UsageQuota_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "UsageQuotaWarning" (
+    "id" SERIAL NOT NULL,
+    "quotaId" INTEGER NOT NULL,
+    "metric" "UsageMetric" NOT NULL,
+    "period" TIMESTAMP(3) NOT NULL,
+    "threshold" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UsageQuotaWarning_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "UsageRecord" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER,
+    "teamId" INTEGER,
+    "metric" "UsageMetric" NOT NULL,
+    "period" TIMESTAMP(3) NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UsageRecord_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UsageQuota_userId_key" ON "UsageQuota"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UsageQuota_teamId_key" ON "UsageQuota"("teamId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UsageQuotaWarning_quotaId_metric_period_threshold_key" ON "UsageQuotaWarning"("quotaId", "metric", "period", "threshold");
+
+-- CreateIndex
+CREATE INDEX "UsageRecord_period_idx" ON "UsageRecord"("period");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UsageRecord_userId_metric_period_key" ON "UsageRecord"("userId", "metric", "period");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UsageRecord_teamId_metric_period_key" ON "UsageRecord"("teamId", "metric", "period");
+
+-- AddForeignKey
+ALTER TABLE "UsageQuota" ADD CONSTRAINT "UsageQuota_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UsageQuota" ADD CONSTRAINT "UsageQuota_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UsageQuotaWarning" ADD CONSTRAINT "UsageQuotaWarning_quotaId_fkey" FOREIGN KEY ("quotaId") REFERENCES "UsageQuota"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UsageRecord" ADD CONSTRAINT "UsageRecord_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UsageRecord" ADD CONSTRAINT "UsageRecord_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE CASCADE ON UPDATE CASCADE;
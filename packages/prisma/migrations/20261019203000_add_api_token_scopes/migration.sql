@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "ApiTokenScope" AS ENUM ('DOCUMENTS_READ', 'DOCUMENTS_WRITE', 'TEMPLATES_READ', 'TEMPLATES_WRITE', 'RECIPIENTS_WRITE', 'WEBHOOKS_MANAGE', 'TEAM_READ', 'TEAM_WRITE');
+
+-- AlterTable
+ALTER TABLE "ApiToken" ADD COLUMN     "scopes" "ApiTokenScope"[];
+
+-- Existing tokens keep full access.
+UPDATE "ApiToken" SET "scopes" = ARRAY['DOCUMENTS_READ', 'DOCUMENTS_WRITE', 'TEMPLATES_READ', 'TEMPLATES_WRITE', 'RECIPIENTS_WRITE', 'WEBHOOKS_MANAGE', 'TEAM_READ', 'TEAM_WRITE']::"ApiTokenScope"[];
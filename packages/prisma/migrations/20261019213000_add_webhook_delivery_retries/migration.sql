@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "Webhook" ADD COLUMN     "consecutiveFailures" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "disabledAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "WebhookCall" ADD COLUMN     "attempt" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "deliveryId" TEXT,
+ADD COLUMN     "nextRetryAt" TIMESTAMP(3);
+
+-- Backfill existing calls as single attempt deliveries
+UPDATE "WebhookCall" SET "deliveryId" = "id";
+
+ALTER TABLE "WebhookCall" ALTER COLUMN "deliveryId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "WebhookCall_webhookId_deliveryId_idx" ON "WebhookCall"("webhookId", "deliveryId");
+
+-- CreateIndex
+CREATE INDEX "WebhookCall_nextRetryAt_idx" ON "WebhookCall"("nextRetryAt");
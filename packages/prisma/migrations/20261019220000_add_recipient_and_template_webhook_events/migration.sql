@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "WebhookTriggerEvents" ADD VALUE 'DOCUMENT_EXPIRED';
+ALTER TYPE "WebhookTriggerEvents" ADD VALUE 'DOCUMENT_REMINDER_SENT';
+ALTER TYPE "WebhookTriggerEvents" ADD VALUE 'RECIPIENT_VIEWED';
+ALTER TYPE "WebhookTriggerEvents" ADD VALUE 'RECIPIENT_SIGNED';
+ALTER TYPE "WebhookTriggerEvents" ADD VALUE 'RECIPIENT_REJECTED';
+ALTER TYPE "WebhookTriggerEvents" ADD VALUE 'TEMPLATE_CREATED';
+ALTER TYPE "WebhookTriggerEvents" ADD VALUE 'TEMPLATE_USED';
+ALTER TYPE "WebhookTriggerEvents" ADD VALUE 'DIRECT_TEMPLATE_SUBMITTED';
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "DocumentMeta" ADD COLUMN     "reminderSettings" JSONB;
+
+-- AlterTable
+ALTER TABLE "TemplateMeta" ADD COLUMN     "reminderSettings" JSONB;
+
+-- AlterTable
+ALTER TABLE "TeamGlobalSettings" ADD COLUMN     "reminderSettings" JSONB;
+
+-- AlterTable
+ALTER TABLE "Recipient" ADD COLUMN     "nextReminderAt" TIMESTAMP(3),
+ADD COLUMN     "remindersSent" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "Recipient_nextReminderAt_idx" ON "Recipient"("nextReminderAt");
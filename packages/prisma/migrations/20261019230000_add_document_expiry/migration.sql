@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "DocumentStatus" ADD VALUE 'EXPIRED';
+
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN     "expiresAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "TeamGlobalSettings" ADD COLUMN     "documentExpiryDays" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Document_expiresAt_idx" ON "Document"("expiresAt");
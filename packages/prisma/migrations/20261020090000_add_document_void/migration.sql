@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "DocumentStatus" ADD VALUE 'VOIDED';
+
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN     "voidReason" TEXT,
+ADD COLUMN     "voidedAt" TIMESTAMP(3);
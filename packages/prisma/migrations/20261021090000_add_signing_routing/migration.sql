@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "SigningStatus" ADD VALUE 'SKIPPED';
+
+-- AlterTable
+ALTER TABLE "DocumentMeta" ADD COLUMN     "signingRouting" JSONB;
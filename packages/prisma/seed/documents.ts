@@ -51,6 +51,18 @@ export const seedDocuments = async (documents: DocumentToSeed[]) => {
             createDocumentOptions: document.documentOptions,
           }),
         )
+        .with(DocumentStatus.EXPIRED, async () =>
+          seedExpiredDocument(document.sender, document.recipients, {
+            key: i,
+            createDocumentOptions: document.documentOptions,
+          }),
+        )
+        .with(DocumentStatus.VOIDED, async () =>
+          seedVoidedDocument(document.sender, document.recipients, {
+            key: i,
+            createDocumentOptions: document.documentOptions,
+          }),
+        )
         .exhaustive(),
     ),
   );
@@ -429,6 +441,115 @@ export const seedCompletedDocument = async (
   return document;
 };
 
+export const seedExpiredDocument = async (
+  sender: User,
+  recipients: (User | string)[],
+  options: CreateDocumentOptions = {},
+) => {
+  const { key, createDocumentOptions = {} } = options;
+
+  const documentData = await prisma.documentData.create({
+    data: {
+      type: DocumentDataType.BYTES_64,
+      data: examplePdf,
+      initialData: examplePdf,
+    },
+  });
+
+  const expiresAt = new Date();
+
+  const document = await prisma.document.create({
+    data: {
+      source: DocumentSource.DOCUMENT,
+      title: `[TEST] Document ${key} - Expired`,
+      status: DocumentStatus.EXPIRED,
+      expiresAt,
+      documentDataId: documentData.id,
+      userId: sender.id,
+      ...createDocumentOptions,
+    },
+  });
+
+  for (const recipient of recipients) {
+    const email = typeof recipient === 'string' ? recipient : recipient.email;
+    const name = typeof recipient === 'string' ? recipient : (recipient.name ?? '');
+
+    await prisma.recipient.create({
+      data: {
+        email,
+        name,
+        token: nanoid(),
+        readStatus: ReadStatus.OPENED,
+        sendStatus: SendStatus.SENT,
+        signingStatus: SigningStatus.NOT_SIGNED,
+        expired: expiresAt,
+        document: {
+          connect: {
+            id: document.id,
+          },
+        },
+      },
+    });
+  }
+
+  return document;
+};
+
+export const seedVoidedDocument = async (
+  sender: User,
+  recipients: (User | string)[],
+  options: CreateDocumentOptions = {},
+) => {
+  const { key, createDocumentOptions = {} } = options;
+
+  const documentData = await prisma.documentData.create({
+    data: {
+      type: DocumentDataType.BYTES_64,
+      data: examplePdf,
+      initialData: examplePdf,
+    },
+  });
+
+  const voidedAt = new Date();
+
+  const document = await prisma.document.create({
+    data: {
+      source: DocumentSource.DOCUMENT,
+      title: `[TEST] Document ${key} - Voided`,
+      status: DocumentStatus.VOIDED,
+      voidedAt,
+      voidReason: 'The terms of the agreement have changed.',
+      documentDataId: documentData.id,
+      userId: sender.id,
+      ...createDocumentOptions,
+    },
+  });
+
+  for (const recipient of recipients) {
+    const email = typeof recipient === 'string' ? recipient : recipient.email;
+    const name = typeof recipient === 'string' ? recipient : (recipient.name ?? '');
+
+    await prisma.recipient.create({
+      data: {
+        email,
+        name,
+        token: nanoid(),
+        readStatus: ReadStatus.OPENED,
+        sendStatus: SendStatus.SENT,
+        signingStatus: SigningStatus.NOT_SIGNED,
+        expired: voidedAt,
+        document: {
+          connect: {
+            id: document.id,
+          },
+        },
+      },
+    });
+  }
+
+  return document;
+};
+
 /**
  * Create 5 team documents:
  * - Completed document with 2 recipients.
@@ -5,6 +5,8 @@ import type {
 } from '@documenso/lib/types/document-auth';
 import type { TDocumentEmailSettings } from '@documenso/lib/types/document-email';
 import type { TDocumentFormValues } from '@documenso/lib/types/document-form-values';
+import type { TDocumentReminderSettings } from '@documenso/lib/types/document-reminders';
+import type { TDocumentSigningRouting } from '@documenso/lib/types/document-signing-routing';
 import type { TFieldMetaNotOptionalSchema } from '@documenso/lib/types/field-meta';
 
 /**
@@ -15,6 +17,8 @@ declare global {
     type DocumentFormValues = TDocumentFormValues;
     type DocumentAuthOptions = TDocumentAuthOptions;
     type DocumentEmailSettings = TDocumentEmailSettings;
+    type DocumentReminderSettings = TDocumentReminderSettings;
+    type DocumentSigningRouting = TDocumentSigningRouting;
 
     type RecipientAuthOptions = TRecipientAuthOptions;
 
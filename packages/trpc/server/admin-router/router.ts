@@ -1,3 +1,4 @@
+import { deleteUsageQuota, upsertUsageQuota } from '@documenso/ee/server-only/limits/usage-quota';
 import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
 import { findDocuments } from '@documenso/lib/server-only/admin/get-all-documents';
 import { getEntireDocument } from '@documenso/lib/server-only/admin/get-entire-document';
@@ -17,6 +18,7 @@ import { DocumentStatus } from '@documenso/prisma/client';
 import { adminProcedure, router } from '../trpc';
 import {
   ZAdminDeleteDocumentMutationSchema,
+  ZAdminDeleteUsageQuotaMutationSchema,
   ZAdminDeleteUserMutationSchema,
   ZAdminDisableUserMutationSchema,
   ZAdminEnableUserMutationSchema,
@@ -25,6 +27,7 @@ import {
   ZAdminUpdateProfileMutationSchema,
   ZAdminUpdateRecipientMutationSchema,
   ZAdminUpdateSiteSettingMutationSchema,
+  ZAdminUpsertUsageQuotaMutationSchema,
 } from './schema';
 
 export const adminRouter = router({
@@ -120,4 +123,20 @@ export const adminRouter = router({
         requestMetadata: extractNextApiRequestMetadata(ctx.req),
       });
     }),
+
+  upsertUsageQuota: adminProcedure
+    .input(ZAdminUpsertUsageQuotaMutationSchema)
+    .mutation(async ({ input }) => {
+      const { userId, teamId, data } = input;
+
+      return await upsertUsageQuota({ userId, teamId, data });
+    }),
+
+  deleteUsageQuota: adminProcedure
+    .input(ZAdminDeleteUsageQuotaMutationSchema)
+    .mutation(async ({ input }) => {
+      const { id } = input;
+
+      await deleteUsageQuota({ id });
+    }),
 });
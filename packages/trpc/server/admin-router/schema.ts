@@ -3,6 +3,7 @@ import z from 'zod';
 
 import { ZSiteSettingSchema } from '@documenso/lib/server-only/site-settings/schema';
 import { ZFindSearchParamsSchema } from '@documenso/lib/types/search-params';
+import { UsageQuotaEnforcement } from '@documenso/prisma/client';
 
 export const ZAdminFindDocumentsQuerySchema = ZFindSearchParamsSchema.extend({
   perPage: z.number().optional().default(20),
@@ -65,3 +66,37 @@ export const ZAdminDeleteDocumentMutationSchema = z.object({
 });
 
 export type TAdminDeleteDocomentMutationSchema = z.infer<typeof ZAdminDeleteDocumentMutationSchema>;
+
+export const ZUsageQuotaSchema = z.object({
+  documents: z.number().int().min(0).nullable(),
+  recipients: z.number().int().min(0).nullable(),
+  directTemplates: z.number().int().min(0).nullable(),
+  apiCalls: z.number().int().min(0).nullable(),
+  storageMegabytes: z.number().int().min(0).nullable(),
+  enforcement: z.nativeEnum(UsageQuotaEnforcement),
+  warningThreshold: z.number().int().min(1).max(100),
+});
+
+export type TUsageQuotaSchema = z.infer<typeof ZUsageQuotaSchema>;
+
+export const ZAdminUpsertUsageQuotaMutationSchema = z
+  .object({
+    userId: z.number().min(1).optional(),
+    teamId: z.number().min(1).optional(),
+    data: ZUsageQuotaSchema,
+  })
+  .refine(({ userId, teamId }) => !userId !== !teamId, {
+    message: 'Either a user or a team must be provided',
+  });
+
+export type TAdminUpsertUsageQuotaMutationSchema = z.infer<
+  typeof ZAdminUpsertUsageQuotaMutationSchema
+>;
+
+export const ZAdminDeleteUsageQuotaMutationSchema = z.object({
+  id: z.number().min(1),
+});
+
+export type TAdminDeleteUsageQuotaMutationSchema = z.infer<
+  typeof ZAdminDeleteUsageQuotaMutationSchema
+>;
@@ -29,13 +29,14 @@ export const apiTokenRouter = router({
   createToken: authenticatedProcedure
     .input(ZCreateTokenMutationSchema)
     .mutation(async ({ input, ctx }) => {
-      const { tokenName, teamId, expirationDate } = input;
+      const { tokenName, teamId, expirationDate, scopes } = input;
 
       return await createApiToken({
         userId: ctx.user.id,
         teamId,
         tokenName,
         expiresIn: expirationDate,
+        scopes,
       });
     }),
 
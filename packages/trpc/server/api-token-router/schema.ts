@@ -1,5 +1,7 @@
 import { z } from 'zod';
 
+import { ApiTokenScope } from '@documenso/prisma/client';
+
 export const ZGetApiTokenByIdQuerySchema = z.object({
   id: z.number().min(1),
 });
@@ -10,6 +12,9 @@ export const ZCreateTokenMutationSchema = z.object({
   teamId: z.number().optional(),
   tokenName: z.string().min(3, { message: 'The token name should be 3 characters or longer' }),
   expirationDate: z.string().nullable(),
+  scopes: z
+    .array(z.nativeEnum(ApiTokenScope))
+    .min(1, { message: 'At least one scope must be selected' }),
 });
 
 export type TCreateTokenMutationSchema = z.infer<typeof ZCreateTokenMutationSchema>;
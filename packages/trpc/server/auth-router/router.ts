@@ -18,7 +18,7 @@ import { compareSync } from '@documenso/lib/server-only/auth/hash';
 import { updatePasskey } from '@documenso/lib/server-only/auth/update-passkey';
 import { createUser } from '@documenso/lib/server-only/user/create-user';
 
-import { authenticatedProcedure, procedure, router } from '../trpc';
+import { authRateLimitedProcedure, authenticatedProcedure, router } from '../trpc';
 import {
   ZCreatePasskeyAuthenticationOptionsMutationSchema,
   ZCreatePasskeyMutationSchema,
@@ -32,7 +32,7 @@ import {
 const NEXT_PUBLIC_DISABLE_SIGNUP = () => env('NEXT_PUBLIC_DISABLE_SIGNUP');
 
 export const authRouter = router({
-  signup: procedure.input(ZSignUpMutationSchema).mutation(async ({ input }) => {
+  signup: authRateLimitedProcedure.input(ZSignUpMutationSchema).mutation(async ({ input }) => {
     if (NEXT_PUBLIC_DISABLE_SIGNUP() === 'true') {
       throw new AppError('SIGNUP_DISABLED', {
         message: 'Signups are disabled.',
@@ -107,7 +107,7 @@ export const authRouter = router({
     });
   }),
 
-  createPasskeySigninOptions: procedure.mutation(async ({ ctx }) => {
+  createPasskeySigninOptions: authRateLimitedProcedure.mutation(async ({ ctx }) => {
     const cookies = parse(ctx.req.headers.cookie ?? '');
 
     const sessionIdToken =
@@ -0,0 +1,132 @@
+import { DocumentLockService } from '@documenso/ee/server-only/document/document-lock-service';
+import { DOCUMENT_LOCK_DURATION_MINUTES } from '@documenso/lib/constants/document';
+import { getDocumentById } from '@documenso/lib/server-only/document/get-document-by-id';
+import { assertTeamPermission } from '@documenso/lib/server-only/team/assert-team-permission';
+import { TeamPermission } from '@documenso/prisma/client';
+
+import { adminProcedure, authenticatedProcedure, router } from '../trpc';
+import { ZDocumentLockMutationSchema, ZDocumentLockQuerySchema } from './schema';
+
+const documentLockService = new DocumentLockService();
+
+export const documentLockRouter = router({
+  /**
+   * @private
+   */
+  getDocumentLock: authenticatedProcedure
+    .input(ZDocumentLockQuerySchema)
+    .query(async ({ input, ctx }) => {
+      const { teamId } = ctx;
+      const { documentId } = input;
+
+      // Ensure the user has access to the document before exposing who holds the lock.
+      await getDocumentById({
+        documentId,
+        userId: ctx.user.id,
+        teamId,
+      });
+
+      return await documentLockService.getDocumentLock(documentId);
+    }),
+
+  /**
+   * @private
+   */
+  lockDocument: authenticatedProcedure
+    .input(ZDocumentLockMutationSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { teamId } = ctx;
+      const { documentId } = input;
+
+      await getDocumentById({
+        documentId,
+        userId: ctx.user.id,
+        teamId,
+      });
+
+      if (teamId) {
+        await assertTeamPermission({
+          userId: ctx.user.id,
+          teamId,
+          permission: TeamPermission.MANAGE_DOCUMENTS,
+        });
+      }
+
+      const { lockExpiresAt } = await documentLockService.lockDocument(
+        documentId,
+        ctx.user.id,
+        DOCUMENT_LOCK_DURATION_MINUTES,
+        ctx.metadata,
+      );
+
+      return { lockExpiresAt };
+    }),
+
+  /**
+   * @private
+   */
+  extendLock: authenticatedProcedure
+    .input(ZDocumentLockMutationSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { teamId } = ctx;
+      const { documentId } = input;
+
+      await getDocumentById({
+        documentId,
+        userId: ctx.user.id,
+        teamId,
+      });
+
+      if (teamId) {
+        await assertTeamPermission({
+          userId: ctx.user.id,
+          teamId,
+          permission: TeamPermission.MANAGE_DOCUMENTS,
+        });
+      }
+
+      const { lockExpiresAt } = await documentLockService.extendLock(
+        documentId,
+        ctx.user.id,
+        DOCUMENT_LOCK_DURATION_MINUTES,
+      );
+
+      return { lockExpiresAt };
+    }),
+
+  /**
+   * @private
+   */
+  unlockDocument: authenticatedProcedure
+    .input(ZDocumentLockMutationSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { teamId } = ctx;
+      const { documentId } = input;
+
+      await getDocumentById({
+        documentId,
+        userId: ctx.user.id,
+        teamId,
+      });
+
+      await documentLockService.unlockDocument(documentId, ctx.user.id, ctx.metadata);
+    }),
+
+  /**
+   * @private
+   */
+  forceUnlockDocument: adminProcedure
+    .input(ZDocumentLockMutationSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { documentId } = input;
+
+      await documentLockService.forceUnlockDocument(documentId, ctx.user.id, ctx.metadata);
+    }),
+
+  /**
+   * @private
+   */
+  cleanupExpiredLocks: adminProcedure.mutation(async () => {
+    return await documentLockService.cleanupExpiredLocks();
+  }),
+});
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+export const ZDocumentLockQuerySchema = z.object({
+  documentId: z.number(),
+});
+
+export type TDocumentLockQuerySchema = z.infer<typeof ZDocumentLockQuerySchema>;
+
+export const ZDocumentLockMutationSchema = z.object({
+  documentId: z.number(),
+});
+
+export type TDocumentLockMutationSchema = z.infer<typeof ZDocumentLockMutationSchema>;
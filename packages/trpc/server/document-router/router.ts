@@ -1,7 +1,9 @@
 import { TRPCError } from '@trpc/server';
 import { DateTime } from 'luxon';
 
+import { DocumentLockService } from '@documenso/ee/server-only/document/document-lock-service';
 import { getServerLimits } from '@documenso/ee/server-only/limits/server';
+import { checkUsageQuotaWarnings } from '@documenso/ee/server-only/limits/usage-quota-warnings';
 import { NEXT_PUBLIC_WEBAPP_URL } from '@documenso/lib/constants/app';
 import { DOCUMENSO_ENCRYPTION_KEY } from '@documenso/lib/constants/crypto';
 import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
@@ -22,11 +24,14 @@ import { resendDocument } from '@documenso/lib/server-only/document/resend-docum
 import { searchDocumentsWithKeyword } from '@documenso/lib/server-only/document/search-documents-with-keyword';
 import { sendDocument } from '@documenso/lib/server-only/document/send-document';
 import { updateDocument } from '@documenso/lib/server-only/document/update-document';
+import { voidDocument } from '@documenso/lib/server-only/document/void-document';
+import { getRecipientAccessAuthFromCookies } from '@documenso/lib/server-only/recipient/recipient-access-auth-cookie';
 import { symmetricEncrypt } from '@documenso/lib/universal/crypto';
 import { getPresignPostUrl } from '@documenso/lib/universal/upload/server-actions';
 import { DocumentDataType, DocumentStatus } from '@documenso/prisma/client';
 
-import { authenticatedProcedure, procedure, router } from '../trpc';
+import { documentVersionRouter } from '../document-version-router/router';
+import { authenticatedProcedure, router, signingProcedure } from '../trpc';
 import {
   ZCreateDocumentRequestSchema,
   ZCreateDocumentV2RequestSchema,
@@ -55,8 +60,11 @@ import {
   ZSuccessResponseSchema,
   ZUpdateDocumentRequestSchema,
   ZUpdateDocumentResponseSchema,
+  ZVoidDocumentMutationSchema,
 } from './schema';
 
+const documentLockService = new DocumentLockService();
+
 export const documentRouter = router({
   /**
    * @private
@@ -77,7 +85,7 @@ export const documentRouter = router({
   /**
    * @private
    */
-  getDocumentByToken: procedure
+  getDocumentByToken: signingProcedure
     .input(ZGetDocumentByTokenQuerySchema)
     .query(async ({ input, ctx }) => {
       const { token } = input;
@@ -85,6 +93,7 @@ export const documentRouter = router({
       return await getDocumentAndSenderByToken({
         token,
         userId: ctx.user?.id,
+        accessAuth: await getRecipientAccessAuthFromCookies({ token, cookies: ctx.req.cookies }),
       });
     }),
 
@@ -193,6 +202,14 @@ export const documentRouter = router({
         });
       }
 
+      // The file is uploaded to the presigned URL afterwards so its size is not known yet.
+      if (remaining.storage <= 0) {
+        throw new AppError(AppErrorCode.LIMIT_EXCEEDED, {
+          message: 'You have reached your storage limit.',
+          statusCode: 400,
+        });
+      }
+
       const fileName = title.endsWith('.pdf') ? title : `${title}.pdf`;
 
       const { url, key } = await getPresignPostUrl(fileName, 'application/pdf');
@@ -253,7 +270,7 @@ export const documentRouter = router({
         });
       }
 
-      return await createDocument({
+      const document = await createDocument({
         userId: ctx.user.id,
         teamId,
         title,
@@ -262,6 +279,10 @@ export const documentRouter = router({
         timezone,
         requestMetadata: ctx.metadata,
       });
+
+      await checkUsageQuotaWarnings({ userId: ctx.user.id, teamId });
+
+      return document;
     }),
 
   /**
@@ -284,6 +305,8 @@ export const documentRouter = router({
       const { teamId } = ctx;
       const { documentId, data, meta = {} } = input;
 
+      await documentLockService.assertDocumentNotLockedByOtherUser(documentId, ctx.user.id);
+
       const userId = ctx.user.id;
 
       if (Object.values(meta).length > 0) {
@@ -301,6 +324,7 @@ export const documentRouter = router({
           distributionMethod: meta.distributionMethod,
           signingOrder: meta.signingOrder,
           emailSettings: meta.emailSettings,
+          reminderSettings: meta.reminderSettings,
           requestMetadata: ctx.metadata,
         });
       }
@@ -332,6 +356,8 @@ export const documentRouter = router({
       const { teamId } = ctx;
       const { documentId } = input;
 
+      await documentLockService.assertDocumentNotLockedByOtherUser(documentId, ctx.user.id);
+
       const userId = ctx.user.id;
 
       await deleteDocument({
@@ -344,6 +370,39 @@ export const documentRouter = router({
       return ZGenericSuccessResponse;
     }),
 
+  /**
+   * @public
+   */
+  voidDocument: authenticatedProcedure
+    .meta({
+      openapi: {
+        method: 'POST',
+        path: '/document/void',
+        summary: 'Void document',
+        description:
+          'Void a pending document. The document and its audit log are kept, but it can no longer be signed',
+        tags: ['Document'],
+      },
+    })
+    .input(ZVoidDocumentMutationSchema)
+    .output(ZSuccessResponseSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { teamId } = ctx;
+      const { documentId, reason } = input;
+
+      await documentLockService.assertDocumentNotLockedByOtherUser(documentId, ctx.user.id);
+
+      await voidDocument({
+        documentId,
+        userId: ctx.user.id,
+        teamId,
+        reason,
+        requestMetadata: ctx.metadata,
+      });
+
+      return ZGenericSuccessResponse;
+    }),
+
   /**
    * @public
    */
@@ -363,6 +422,8 @@ export const documentRouter = router({
       const { documentId, teamId } = input;
       const userId = ctx.user.id;
 
+      await documentLockService.assertDocumentNotLockedByOtherUser(documentId, userId);
+
       return await moveDocumentToTeam({
         documentId,
         teamId,
@@ -380,6 +441,8 @@ export const documentRouter = router({
       const { teamId } = ctx;
       const { documentId, password } = input;
 
+      await documentLockService.assertDocumentNotLockedByOtherUser(documentId, ctx.user.id);
+
       const key = DOCUMENSO_ENCRYPTION_KEY;
 
       if (!key) {
@@ -409,13 +472,16 @@ export const documentRouter = router({
     .input(ZSetSigningOrderForDocumentMutationSchema)
     .mutation(async ({ input, ctx }) => {
       const { teamId } = ctx;
-      const { documentId, signingOrder } = input;
+      const { documentId, signingOrder, signingRouting } = input;
+
+      await documentLockService.assertDocumentNotLockedByOtherUser(documentId, ctx.user.id);
 
       return await upsertDocumentMeta({
         userId: ctx.user.id,
         teamId,
         documentId,
         signingOrder,
+        signingRouting,
         requestMetadata: ctx.metadata,
       });
     }),
@@ -440,7 +506,21 @@ export const documentRouter = router({
     .output(ZDistributeDocumentResponseSchema)
     .mutation(async ({ input, ctx }) => {
       const { teamId } = ctx;
-      const { documentId, meta = {} } = input;
+      const { documentId, expiresAt, meta = {} } = input;
+
+      await documentLockService.assertDocumentNotLockedByOtherUser(documentId, ctx.user.id);
+
+      if (expiresAt !== undefined) {
+        await updateDocument({
+          userId: ctx.user.id,
+          teamId,
+          documentId,
+          data: {
+            expiresAt,
+          },
+          requestMetadata: ctx.metadata,
+        });
+      }
 
       if (Object.values(meta).length > 0) {
         await upsertDocumentMeta({
@@ -454,6 +534,7 @@ export const documentRouter = router({
           redirectUrl: meta.redirectUrl,
           distributionMethod: meta.distributionMethod,
           emailSettings: meta.emailSettings,
+          reminderSettings: meta.reminderSettings,
           language: meta.language,
           requestMetadata: ctx.metadata,
         });
@@ -489,6 +570,8 @@ export const documentRouter = router({
       const { teamId } = ctx;
       const { documentId, recipients } = input;
 
+      await documentLockService.assertDocumentNotLockedByOtherUser(documentId, ctx.user.id);
+
       await resendDocument({
         userId: ctx.user.id,
         teamId,
@@ -631,4 +714,6 @@ export const documentRouter = router({
         url: `${NEXT_PUBLIC_WEBAPP_URL()}/__htmltopdf/certificate?d=${encrypted}`,
       };
     }),
+
+  versions: documentVersionRouter,
 });
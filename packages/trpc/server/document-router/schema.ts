@@ -13,6 +13,8 @@ import {
 } from '@documenso/lib/types/document-auth';
 import { ZDocumentEmailSettingsSchema } from '@documenso/lib/types/document-email';
 import { ZDocumentFormValuesSchema } from '@documenso/lib/types/document-form-values';
+import { ZDocumentReminderSettingsSchema } from '@documenso/lib/types/document-reminders';
+import { ZDocumentSigningRoutingSchema } from '@documenso/lib/types/document-signing-routing';
 import {
   ZFieldHeightSchema,
   ZFieldPageNumberSchema,
@@ -59,6 +61,12 @@ export const ZDocumentExternalIdSchema = z
   .trim()
   .describe('The external ID of the document.');
 
+export const ZDocumentExpiresAtSchema = z.coerce
+  .date()
+  .describe(
+    'When the document expires. Pending documents that are not completed by this date can no longer be signed.',
+  );
+
 export const ZDocumentVisibilitySchema = z
   .nativeEnum(DocumentVisibility)
   .describe('The visibility of the document.');
@@ -108,6 +116,11 @@ export const ZDocumentMetaTypedSignatureEnabledSchema = z
   .boolean()
   .describe('Whether to allow recipients to sign using a typed signature.');
 
+export const ZDocumentMetaReminderSettingsSchema =
+  ZDocumentReminderSettingsSchema.nullable().describe(
+    'The automatic reminder settings for recipients who have not signed yet. Use null to fall back to the team default.',
+  );
+
 export const ZFindDocumentsRequestSchema = ZFindSearchParamsSchema.extend({
   templateId: z
     .number()
@@ -213,6 +226,7 @@ export const ZCreateDocumentV2RequestSchema = z.object({
       language: ZDocumentMetaLanguageSchema.optional(),
       typedSignatureEnabled: ZDocumentMetaTypedSignatureEnabledSchema.optional(),
       emailSettings: ZDocumentEmailSettingsSchema.optional(),
+      reminderSettings: ZDocumentMetaReminderSettingsSchema.optional(),
     })
     .optional(),
 });
@@ -237,6 +251,7 @@ export const ZUpdateDocumentRequestSchema = z.object({
       visibility: ZDocumentVisibilitySchema.optional(),
       globalAccessAuth: ZDocumentAccessAuthTypesSchema.nullish(),
       globalActionAuth: ZDocumentActionAuthTypesSchema.nullish(),
+      expiresAt: ZDocumentExpiresAtSchema.nullish(),
     })
     .optional(),
   meta: z
@@ -251,6 +266,7 @@ export const ZUpdateDocumentRequestSchema = z.object({
       language: ZDocumentMetaLanguageSchema.optional(),
       typedSignatureEnabled: ZDocumentMetaTypedSignatureEnabledSchema.optional(),
       emailSettings: ZDocumentEmailSettingsSchema.optional(),
+      reminderSettings: ZDocumentMetaReminderSettingsSchema.optional(),
     })
     .optional(),
 });
@@ -279,6 +295,7 @@ export type TSetFieldsForDocumentMutationSchema = z.infer<
 
 export const ZDistributeDocumentRequestSchema = z.object({
   documentId: z.number().describe('The ID of the document to send.'),
+  expiresAt: ZDocumentExpiresAtSchema.nullish(),
   meta: z
     .object({
       subject: ZDocumentMetaSubjectSchema.optional(),
@@ -289,6 +306,7 @@ export const ZDistributeDocumentRequestSchema = z.object({
       redirectUrl: ZDocumentMetaRedirectUrlSchema.optional(),
       language: ZDocumentMetaLanguageSchema.optional(),
       emailSettings: ZDocumentEmailSettingsSchema.optional(),
+      reminderSettings: ZDocumentMetaReminderSettingsSchema.optional(),
     })
     .optional(),
 });
@@ -307,6 +325,7 @@ export type TSetPasswordForDocumentMutationSchema = z.infer<
 export const ZSetSigningOrderForDocumentMutationSchema = z.object({
   documentId: z.number(),
   signingOrder: z.nativeEnum(DocumentSigningOrder),
+  signingRouting: ZDocumentSigningRoutingSchema.optional(),
 });
 
 export type TSetSigningOrderForDocumentMutationSchema = z.infer<
@@ -327,6 +346,20 @@ export const ZDeleteDocumentMutationSchema = z.object({
 
 export type TDeleteDocumentMutationSchema = z.infer<typeof ZDeleteDocumentMutationSchema>;
 
+export const ZVoidDocumentMutationSchema = z.object({
+  documentId: z.number(),
+  reason: z
+    .string()
+    .trim()
+    .min(1)
+    .max(500)
+    .describe(
+      'Why the document is being voided. Shown to the recipients and kept in the audit log.',
+    ),
+});
+
+export type TVoidDocumentMutationSchema = z.infer<typeof ZVoidDocumentMutationSchema>;
+
 export const ZSearchDocumentsMutationSchema = z.object({
   query: z.string(),
 });
@@ -0,0 +1,144 @@
+import { DocumentLockService } from '@documenso/ee/server-only/document/document-lock-service';
+import { DocumentVersionService } from '@documenso/ee/server-only/document/document-version-service';
+
+import { authenticatedProcedure, router } from '../trpc';
+import {
+  ZCompareDocumentVersionsQuerySchema,
+  ZCreateDocumentVersionMutationSchema,
+  ZDeleteDocumentVersionMutationSchema,
+  ZFindDocumentVersionsQuerySchema,
+  ZGetDocumentVersionQuerySchema,
+  ZRenderDocumentVersionPageQuerySchema,
+  ZRestoreDocumentVersionMutationSchema,
+} from './schema';
+
+const documentLockService = new DocumentLockService();
+const documentVersionService = new DocumentVersionService();
+
+export const documentVersionRouter = router({
+  /**
+   * @private
+   */
+  findDocumentVersions: authenticatedProcedure
+    .input(ZFindDocumentVersionsQuerySchema)
+    .query(async ({ input, ctx }) => {
+      const { teamId } = ctx;
+      const { documentId } = input;
+
+      return await documentVersionService.findDocumentVersions({
+        documentId,
+        userId: ctx.user.id,
+        teamId,
+      });
+    }),
+
+  /**
+   * @private
+   */
+  getDocumentVersion: authenticatedProcedure
+    .input(ZGetDocumentVersionQuerySchema)
+    .query(async ({ input, ctx }) => {
+      const { teamId } = ctx;
+      const { documentId, versionId } = input;
+
+      return await documentVersionService.getDocumentVersion({
+        documentId,
+        versionId,
+        userId: ctx.user.id,
+        teamId,
+      });
+    }),
+
+  /**
+   * @private
+   */
+  createDocumentVersion: authenticatedProcedure
+    .input(ZCreateDocumentVersionMutationSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { teamId } = ctx;
+      const { documentId, reason } = input;
+
+      return await documentVersionService.createDocumentVersion({
+        documentId,
+        reason,
+        userId: ctx.user.id,
+        teamId,
+        requestMetadata: ctx.metadata,
+      });
+    }),
+
+  /**
+   * @private
+   */
+  restoreDocumentVersion: authenticatedProcedure
+    .input(ZRestoreDocumentVersionMutationSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { teamId } = ctx;
+      const { documentId, versionId } = input;
+
+      await documentLockService.assertDocumentNotLockedByOtherUser(documentId, ctx.user.id);
+
+      return await documentVersionService.restoreDocumentVersion({
+        documentId,
+        versionId,
+        userId: ctx.user.id,
+        teamId,
+        requestMetadata: ctx.metadata,
+      });
+    }),
+
+  /**
+   * @private
+   */
+  compareDocumentVersions: authenticatedProcedure
+    .input(ZCompareDocumentVersionsQuerySchema)
+    .query(async ({ input, ctx }) => {
+      const { teamId } = ctx;
+      const { documentId, fromVersionId, toVersionId } = input;
+
+      return await documentVersionService.compareDocumentVersions({
+        documentId,
+        fromVersionId,
+        toVersionId,
+        userId: ctx.user.id,
+        teamId,
+      });
+    }),
+
+  /**
+   * @private
+   */
+  renderDocumentVersionPage: authenticatedProcedure
+    .input(ZRenderDocumentVersionPageQuerySchema)
+    .query(async ({ input, ctx }) => {
+      const { teamId } = ctx;
+      const { documentId, versionId, pageNumber, width } = input;
+
+      return await documentVersionService.renderDocumentVersionPage({
+        documentId,
+        versionId,
+        pageNumber,
+        width,
+        userId: ctx.user.id,
+        teamId,
+      });
+    }),
+
+  /**
+   * @private
+   */
+  deleteDocumentVersion: authenticatedProcedure
+    .input(ZDeleteDocumentVersionMutationSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { teamId } = ctx;
+      const { documentId, versionId } = input;
+
+      return await documentVersionService.deleteDocumentVersion({
+        documentId,
+        versionId,
+        userId: ctx.user.id,
+        teamId,
+        requestMetadata: ctx.metadata,
+      });
+    }),
+});
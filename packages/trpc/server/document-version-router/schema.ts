@@ -0,0 +1,62 @@
+import { z } from 'zod';
+
+export const ZFindDocumentVersionsQuerySchema = z.object({
+  documentId: z.number(),
+});
+
+export type TFindDocumentVersionsQuerySchema = z.infer<typeof ZFindDocumentVersionsQuerySchema>;
+
+export const ZGetDocumentVersionQuerySchema = z.object({
+  documentId: z.number(),
+  versionId: z.number(),
+});
+
+export type TGetDocumentVersionQuerySchema = z.infer<typeof ZGetDocumentVersionQuerySchema>;
+
+export const ZCreateDocumentVersionMutationSchema = z.object({
+  documentId: z.number(),
+  reason: z.string().trim().max(255).optional(),
+});
+
+export type TCreateDocumentVersionMutationSchema = z.infer<
+  typeof ZCreateDocumentVersionMutationSchema
+>;
+
+export const ZRestoreDocumentVersionMutationSchema = z.object({
+  documentId: z.number(),
+  versionId: z.number(),
+});
+
+export type TRestoreDocumentVersionMutationSchema = z.infer<
+  typeof ZRestoreDocumentVersionMutationSchema
+>;
+
+export const ZCompareDocumentVersionsQuerySchema = z.object({
+  documentId: z.number(),
+  fromVersionId: z.number(),
+  toVersionId: z.number(),
+});
+
+export type TCompareDocumentVersionsQuerySchema = z.infer<
+  typeof ZCompareDocumentVersionsQuerySchema
+>;
+
+export const ZRenderDocumentVersionPageQuerySchema = z.object({
+  documentId: z.number(),
+  versionId: z.number(),
+  pageNumber: z.number().int().min(1),
+  width: z.number().int().min(100).max(2000),
+});
+
+export type TRenderDocumentVersionPageQuerySchema = z.infer<
+  typeof ZRenderDocumentVersionPageQuerySchema
+>;
+
+export const ZDeleteDocumentVersionMutationSchema = z.object({
+  documentId: z.number(),
+  versionId: z.number(),
+});
+
+export type TDeleteDocumentVersionMutationSchema = z.infer<
+  typeof ZDeleteDocumentVersionMutationSchema
+>;
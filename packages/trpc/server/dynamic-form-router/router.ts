@@ -0,0 +1,133 @@
+import { DynamicFormService } from '@documenso/ee/server-only/forms/dynamic-form-service';
+
+import { authenticatedProcedure, formSubmissionProcedure, router } from '../trpc';
+import {
+  ZCreateDynamicFormMutationSchema,
+  ZDeleteDynamicFormMutationSchema,
+  ZFindDynamicFormSubmissionsQuerySchema,
+  ZFindDynamicFormsQuerySchema,
+  ZSetDynamicFormPublishedMutationSchema,
+  ZSubmitDynamicFormMutationSchema,
+  ZUpdateDynamicFormMutationSchema,
+} from './schema';
+
+const dynamicFormService = new DynamicFormService();
+
+export const dynamicFormRouter = router({
+  /**
+   * @private
+   */
+  findDynamicForms: authenticatedProcedure
+    .input(ZFindDynamicFormsQuerySchema)
+    .query(async ({ input, ctx }) => {
+      const { teamId } = ctx;
+      const { templateId } = input;
+
+      return await dynamicFormService.findForms({
+        templateId,
+        userId: ctx.user.id,
+        teamId,
+      });
+    }),
+
+  /**
+   * @private
+   */
+  createDynamicForm: authenticatedProcedure
+    .input(ZCreateDynamicFormMutationSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { teamId } = ctx;
+      const { templateId, data } = input;
+
+      return await dynamicFormService.createForm({
+        templateId,
+        data,
+        userId: ctx.user.id,
+        teamId,
+      });
+    }),
+
+  /**
+   * @private
+   */
+  updateDynamicForm: authenticatedProcedure
+    .input(ZUpdateDynamicFormMutationSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { teamId } = ctx;
+      const { formId, data } = input;
+
+      return await dynamicFormService.updateForm({
+        formId,
+        data,
+        userId: ctx.user.id,
+        teamId,
+      });
+    }),
+
+  /**
+   * @private
+   */
+  setDynamicFormPublished: authenticatedProcedure
+    .input(ZSetDynamicFormPublishedMutationSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { teamId } = ctx;
+      const { formId, isPublished } = input;
+
+      return await dynamicFormService.setFormPublished({
+        formId,
+        isPublished,
+        userId: ctx.user.id,
+        teamId,
+      });
+    }),
+
+  /**
+   * @private
+   */
+  deleteDynamicForm: authenticatedProcedure
+    .input(ZDeleteDynamicFormMutationSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { teamId } = ctx;
+      const { formId } = input;
+
+      await dynamicFormService.deleteForm({
+        formId,
+        userId: ctx.user.id,
+        teamId,
+      });
+    }),
+
+  /**
+   * @private
+   */
+  findDynamicFormSubmissions: authenticatedProcedure
+    .input(ZFindDynamicFormSubmissionsQuerySchema)
+    .query(async ({ input, ctx }) => {
+      const { teamId } = ctx;
+      const { formId } = input;
+
+      return await dynamicFormService.findFormSubmissions({
+        formId,
+        userId: ctx.user.id,
+        teamId,
+      });
+    }),
+
+  /**
+   * @private
+   */
+  submitDynamicForm: formSubmissionProcedure
+    .input(ZSubmitDynamicFormMutationSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { url, slug, submitterName, submitterEmail, values } = input;
+
+      return await dynamicFormService.submitForm({
+        url,
+        slug,
+        submitterName,
+        submitterEmail,
+        values,
+        requestMetadata: ctx.metadata,
+      });
+    }),
+});
@@ -0,0 +1,104 @@
+import { z } from 'zod';
+
+import { ZUrlSchema } from '@documenso/lib/schemas/common';
+import { FormFieldType } from '@documenso/prisma/client';
+
+export const ZDynamicFormSlugSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1, { message: 'A URL is required' })
+  .max(64)
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, {
+    message: 'The URL may only contain lowercase letters, numbers and dashes',
+  });
+
+export const ZDynamicFormFieldSchema = z
+  .object({
+    id: z.number().optional(),
+    type: z.nativeEnum(FormFieldType).refine((type) => type !== FormFieldType.FILE_UPLOAD, {
+      message: 'File upload fields are not supported',
+    }),
+    label: z.string().trim().min(1, { message: 'A label is required' }).max(255),
+    placeholder: z.string().trim().max(255).nullish(),
+    helpText: z.string().trim().max(1000).nullish(),
+    isRequired: z.boolean(),
+    defaultValue: z.string().trim().max(1000).nullish(),
+    options: z.array(z.string().trim().min(1)).optional(),
+    formValueKey: z.string().trim().max(255).nullish(),
+  })
+  .refine(
+    (field) =>
+      (field.type !== FormFieldType.SELECT && field.type !== FormFieldType.RADIO) ||
+      (field.options ?? []).length > 0,
+    {
+      message: 'Select and radio fields require at least one option',
+      path: ['options'],
+    },
+  );
+
+export type TDynamicFormFieldSchema = z.infer<typeof ZDynamicFormFieldSchema>;
+
+export const ZDynamicFormDataSchema = z.object({
+  title: z.string().trim().min(1, { message: 'A title is required' }).max(255),
+  description: z.string().trim().max(2000).nullish(),
+  customSlug: ZDynamicFormSlugSchema,
+  redirectUrl: ZUrlSchema.nullish(),
+  expiresAt: z.date().nullish(),
+  fields: z.array(ZDynamicFormFieldSchema),
+});
+
+export type TDynamicFormDataSchema = z.infer<typeof ZDynamicFormDataSchema>;
+
+export const ZFindDynamicFormsQuerySchema = z.object({
+  templateId: z.number(),
+});
+
+export type TFindDynamicFormsQuerySchema = z.infer<typeof ZFindDynamicFormsQuerySchema>;
+
+export const ZCreateDynamicFormMutationSchema = z.object({
+  templateId: z.number(),
+  data: ZDynamicFormDataSchema,
+});
+
+export type TCreateDynamicFormMutationSchema = z.infer<typeof ZCreateDynamicFormMutationSchema>;
+
+export const ZUpdateDynamicFormMutationSchema = z.object({
+  formId: z.number(),
+  data: ZDynamicFormDataSchema,
+});
+
+export type TUpdateDynamicFormMutationSchema = z.infer<typeof ZUpdateDynamicFormMutationSchema>;
+
+export const ZSetDynamicFormPublishedMutationSchema = z.object({
+  formId: z.number(),
+  isPublished: z.boolean(),
+});
+
+export type TSetDynamicFormPublishedMutationSchema = z.infer<
+  typeof ZSetDynamicFormPublishedMutationSchema
+>;
+
+export const ZDeleteDynamicFormMutationSchema = z.object({
+  formId: z.number(),
+});
+
+export type TDeleteDynamicFormMutationSchema = z.infer<typeof ZDeleteDynamicFormMutationSchema>;
+
+export const ZFindDynamicFormSubmissionsQuerySchema = z.object({
+  formId: z.number(),
+});
+
+export type TFindDynamicFormSubmissionsQuerySchema = z.infer<
+  typeof ZFindDynamicFormSubmissionsQuerySchema
+>;
+
+export const ZSubmitDynamicFormMutationSchema = z.object({
+  url: z.string().min(1),
+  slug: z.string().min(1),
+  submitterName: z.string().trim().min(1, { message: 'Your name is required' }).max(255),
+  submitterEmail: z.string().trim().toLowerCase().email().max(254),
+  values: z.record(z.string(), z.string()),
+});
+
+export type TSubmitDynamicFormMutationSchema = z.infer<typeof ZSubmitDynamicFormMutationSchema>;
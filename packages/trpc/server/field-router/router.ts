@@ -1,3 +1,4 @@
+import { DocumentLockService } from '@documenso/ee/server-only/document/document-lock-service';
 import { createDocumentFields } from '@documenso/lib/server-only/field/create-document-fields';
 import { createTemplateFields } from '@documenso/lib/server-only/field/create-template-fields';
 import { deleteDocumentField } from '@documenso/lib/server-only/field/delete-document-field';
@@ -9,10 +10,11 @@ import { setFieldsForTemplate } from '@documenso/lib/server-only/field/set-field
 import { signFieldWithToken } from '@documenso/lib/server-only/field/sign-field-with-token';
 import { updateDocumentFields } from '@documenso/lib/server-only/field/update-document-fields';
 import { updateTemplateFields } from '@documenso/lib/server-only/field/update-template-fields';
+import { getRecipientAccessAuthFromCookies } from '@documenso/lib/server-only/recipient/recipient-access-auth-cookie';
 import { extractNextApiRequestMetadata } from '@documenso/lib/universal/extract-request-metadata';
 
 import { ZGenericSuccessResponse, ZSuccessResponseSchema } from '../document-router/schema';
-import { authenticatedProcedure, procedure, router } from '../trpc';
+import { authenticatedProcedure, router, signingProcedure } from '../trpc';
 import {
   ZCreateDocumentFieldRequestSchema,
   ZCreateDocumentFieldResponseSchema,
@@ -42,6 +44,8 @@ import {
   ZUpdateTemplateFieldsResponseSchema,
 } from './schema';
 
+const documentLockService = new DocumentLockService();
+
 export const fieldRouter = router({
   /**
    * @public
@@ -89,6 +93,8 @@ export const fieldRouter = router({
       const { teamId } = ctx;
       const { documentId, field } = input;
 
+      await documentLockService.assertDocumentNotLockedByOtherUser(documentId, ctx.user.id);
+
       const createdFields = await createDocumentFields({
         userId: ctx.user.id,
         teamId,
@@ -119,6 +125,8 @@ export const fieldRouter = router({
       const { teamId } = ctx;
       const { documentId, fields } = input;
 
+      await documentLockService.assertDocumentNotLockedByOtherUser(documentId, ctx.user.id);
+
       return await createDocumentFields({
         userId: ctx.user.id,
         teamId,
@@ -147,6 +155,8 @@ export const fieldRouter = router({
       const { teamId } = ctx;
       const { documentId, field } = input;
 
+      await documentLockService.assertDocumentNotLockedByOtherUser(documentId, ctx.user.id);
+
       const updatedFields = await updateDocumentFields({
         userId: ctx.user.id,
         teamId,
@@ -177,6 +187,8 @@ export const fieldRouter = router({
       const { teamId } = ctx;
       const { documentId, fields } = input;
 
+      await documentLockService.assertDocumentNotLockedByOtherUser(documentId, ctx.user.id);
+
       return await updateDocumentFields({
         userId: ctx.user.id,
         teamId,
@@ -204,6 +216,8 @@ export const fieldRouter = router({
       const { teamId } = ctx;
       const { fieldId } = input;
 
+      await documentLockService.assertFieldNotLockedByOtherUser(fieldId, ctx.user.id);
+
       await deleteDocumentField({
         userId: ctx.user.id,
         teamId,
@@ -226,6 +240,8 @@ export const fieldRouter = router({
       const { teamId } = ctx;
       const { documentId, fields } = input;
 
+      await documentLockService.assertDocumentNotLockedByOtherUser(documentId, ctx.user.id);
+
       return await setFieldsForDocument({
         documentId,
         userId: ctx.user.id,
@@ -444,7 +460,7 @@ export const fieldRouter = router({
   /**
    * @private
    */
-  signFieldWithToken: procedure
+  signFieldWithToken: signingProcedure
     .input(ZSignFieldWithTokenMutationSchema)
     .mutation(async ({ input, ctx }) => {
       const { token, fieldId, value, isBase64, authOptions } = input;
@@ -455,6 +471,7 @@ export const fieldRouter = router({
         value,
         isBase64,
         userId: ctx.user?.id,
+        accessAuth: await getRecipientAccessAuthFromCookies({ token, cookies: ctx.req.cookies }),
         authOptions,
         requestMetadata: extractNextApiRequestMetadata(ctx.req),
       });
@@ -463,7 +480,7 @@ export const fieldRouter = router({
   /**
    * @private
    */
-  removeSignedFieldWithToken: procedure
+  removeSignedFieldWithToken: signingProcedure
     .input(ZRemovedSignedFieldWithTokenMutationSchema)
     .mutation(async ({ input, ctx }) => {
       const { token, fieldId } = input;
@@ -471,6 +488,7 @@ export const fieldRouter = router({
       return await removeSignedFieldWithToken({
         token,
         fieldId,
+        accessAuth: await getRecipientAccessAuthFromCookies({ token, cookies: ctx.req.cookies }),
         requestMetadata: extractNextApiRequestMetadata(ctx.req),
       });
     }),
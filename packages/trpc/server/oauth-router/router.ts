@@ -0,0 +1,52 @@
+import { createOAuthAuthorizationCode } from '@documenso/lib/server-only/oauth/create-oauth-authorization-code';
+import { createOAuthClient } from '@documenso/lib/server-only/oauth/create-oauth-client';
+import { deleteOAuthClient } from '@documenso/lib/server-only/oauth/delete-oauth-client';
+import { getTeamOAuthClients } from '@documenso/lib/server-only/oauth/get-team-oauth-clients';
+
+import { authenticatedProcedure, router } from '../trpc';
+import {
+  ZAuthorizeOAuthClientMutationSchema,
+  ZCreateOAuthClientMutationSchema,
+  ZDeleteOAuthClientMutationSchema,
+  ZGetTeamOAuthClientsQuerySchema,
+} from './schema';
+
+export const oauthRouter = router({
+  getTeamOAuthClients: authenticatedProcedure
+    .input(ZGetTeamOAuthClientsQuerySchema)
+    .query(async ({ input, ctx }) => {
+      return await getTeamOAuthClients({
+        userId: ctx.user.id,
+        teamId: input.teamId,
+      });
+    }),
+
+  createOAuthClient: authenticatedProcedure
+    .input(ZCreateOAuthClientMutationSchema)
+    .mutation(async ({ input, ctx }) => {
+      return await createOAuthClient({
+        userId: ctx.user.id,
+        ...input,
+      });
+    }),
+
+  deleteOAuthClient: authenticatedProcedure
+    .input(ZDeleteOAuthClientMutationSchema)
+    .mutation(async ({ input, ctx }) => {
+      await deleteOAuthClient({
+        userId: ctx.user.id,
+        ...input,
+      });
+    }),
+
+  authorizeOAuthClient: authenticatedProcedure
+    .input(ZAuthorizeOAuthClientMutationSchema)
+    .mutation(async ({ input, ctx }) => {
+      const redirectUrl = await createOAuthAuthorizationCode({
+        userId: ctx.user.id,
+        ...input,
+      });
+
+      return { redirectUrl };
+    }),
+});
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+
+import { ApiTokenScope } from '@documenso/prisma/client';
+
+export const ZGetTeamOAuthClientsQuerySchema = z.object({
+  teamId: z.number(),
+});
+
+export type TGetTeamOAuthClientsQuerySchema = z.infer<typeof ZGetTeamOAuthClientsQuerySchema>;
+
+export const ZCreateOAuthClientMutationSchema = z.object({
+  teamId: z.number(),
+  name: z.string().trim().min(3, { message: 'The name should be 3 characters or longer' }),
+  redirectUris: z
+    .array(z.string().trim().url({ message: 'Please enter a valid URL' }))
+    .min(1, { message: 'At least one redirect URI is required' }),
+  scopes: z
+    .array(z.nativeEnum(ApiTokenScope))
+    .min(1, { message: 'At least one scope must be selected' }),
+});
+
+export type TCreateOAuthClientMutationSchema = z.infer<typeof ZCreateOAuthClientMutationSchema>;
+
+export const ZDeleteOAuthClientMutationSchema = z.object({
+  id: z.number(),
+  teamId: z.number(),
+});
+
+export type TDeleteOAuthClientMutationSchema = z.infer<typeof ZDeleteOAuthClientMutationSchema>;
+
+export const ZAuthorizeOAuthClientMutationSchema = z.object({
+  clientId: z.string(),
+  redirectUri: z.string(),
+  responseType: z.string(),
+  scope: z.string(),
+  state: z.string().optional(),
+  codeChallenge: z.string().optional(),
+  codeChallengeMethod: z.string().optional(),
+});
+
+export type TAuthorizeOAuthClientMutationSchema = z.infer<
+  typeof ZAuthorizeOAuthClientMutationSchema
+>;
@@ -14,7 +14,7 @@ import { updatePublicProfile } from '@documenso/lib/server-only/user/update-publ
 import { extractNextApiRequestMetadata } from '@documenso/lib/universal/extract-request-metadata';
 import { SubscriptionStatus } from '@documenso/prisma/client';
 
-import { adminProcedure, authenticatedProcedure, procedure, router } from '../trpc';
+import { adminProcedure, authRateLimitedProcedure, authenticatedProcedure, router } from '../trpc';
 import {
   ZConfirmEmailMutationSchema,
   ZFindUserSecurityAuditLogsSchema,
@@ -100,25 +100,29 @@ export const profileRouter = router({
       });
     }),
 
-  forgotPassword: procedure.input(ZForgotPasswordFormSchema).mutation(async ({ input }) => {
-    const { email } = input;
+  forgotPassword: authRateLimitedProcedure
+    .input(ZForgotPasswordFormSchema)
+    .mutation(async ({ input }) => {
+      const { email } = input;
 
-    return await forgotPassword({
-      email,
-    });
-  }),
+      return await forgotPassword({
+        email,
+      });
+    }),
 
-  resetPassword: procedure.input(ZResetPasswordFormSchema).mutation(async ({ input, ctx }) => {
-    const { password, token } = input;
+  resetPassword: authRateLimitedProcedure
+    .input(ZResetPasswordFormSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { password, token } = input;
 
-    return await resetPassword({
-      token,
-      password,
-      requestMetadata: extractNextApiRequestMetadata(ctx.req),
-    });
-  }),
+      return await resetPassword({
+        token,
+        password,
+        requestMetadata: extractNextApiRequestMetadata(ctx.req),
+      });
+    }),
 
-  sendConfirmationEmail: procedure
+  sendConfirmationEmail: authRateLimitedProcedure
     .input(ZConfirmEmailMutationSchema)
     .mutation(async ({ input }) => {
       const { email } = input;
@@ -1,18 +1,26 @@
+import { DocumentLockService } from '@documenso/ee/server-only/document/document-lock-service';
 import { completeDocumentWithToken } from '@documenso/lib/server-only/document/complete-document-with-token';
 import { rejectDocumentWithToken } from '@documenso/lib/server-only/document/reject-document-with-token';
 import { createDocumentRecipients } from '@documenso/lib/server-only/recipient/create-document-recipients';
 import { createTemplateRecipients } from '@documenso/lib/server-only/recipient/create-template-recipients';
 import { deleteDocumentRecipient } from '@documenso/lib/server-only/recipient/delete-document-recipient';
 import { deleteTemplateRecipient } from '@documenso/lib/server-only/recipient/delete-template-recipient';
+import { findPendingIdVerifications } from '@documenso/lib/server-only/recipient/find-pending-id-verifications';
 import { getRecipientById } from '@documenso/lib/server-only/recipient/get-recipient-by-id';
+import { getRecipientIdVerificationImages } from '@documenso/lib/server-only/recipient/get-recipient-id-verification-images';
+import { getRecipientAccessAuthFromCookies } from '@documenso/lib/server-only/recipient/recipient-access-auth-cookie';
+import { reviewRecipientIdVerification } from '@documenso/lib/server-only/recipient/review-recipient-id-verification';
+import { sendRecipientEmailVerificationCode } from '@documenso/lib/server-only/recipient/send-recipient-email-verification-code';
+import { sendSigningSmsVerificationCode } from '@documenso/lib/server-only/recipient/send-signing-sms-verification-code';
 import { setDocumentRecipients } from '@documenso/lib/server-only/recipient/set-document-recipients';
 import { setTemplateRecipients } from '@documenso/lib/server-only/recipient/set-template-recipients';
+import { submitRecipientIdVerification } from '@documenso/lib/server-only/recipient/submit-recipient-id-verification';
 import { updateDocumentRecipients } from '@documenso/lib/server-only/recipient/update-document-recipients';
 import { updateTemplateRecipients } from '@documenso/lib/server-only/recipient/update-template-recipients';
 import { extractNextApiRequestMetadata } from '@documenso/lib/universal/extract-request-metadata';
 
 import { ZGenericSuccessResponse, ZSuccessResponseSchema } from '../document-router/schema';
-import { authenticatedProcedure, procedure, router } from '../trpc';
+import { authenticatedProcedure, router, signingProcedure } from '../trpc';
 import {
   ZCompleteDocumentWithTokenMutationSchema,
   ZCreateDocumentRecipientRequestSchema,
@@ -25,13 +33,18 @@ import {
   ZCreateTemplateRecipientsResponseSchema,
   ZDeleteDocumentRecipientRequestSchema,
   ZDeleteTemplateRecipientRequestSchema,
+  ZGetIdVerificationImagesQuerySchema,
   ZGetRecipientRequestSchema,
   ZGetRecipientResponseSchema,
   ZRejectDocumentWithTokenMutationSchema,
+  ZReviewIdVerificationMutationSchema,
+  ZSendEmailVerificationCodeMutationSchema,
+  ZSendSigningSmsVerificationCodeMutationSchema,
   ZSetDocumentRecipientsRequestSchema,
   ZSetDocumentRecipientsResponseSchema,
   ZSetTemplateRecipientsRequestSchema,
   ZSetTemplateRecipientsResponseSchema,
+  ZSubmitIdVerificationMutationSchema,
   ZUpdateDocumentRecipientRequestSchema,
   ZUpdateDocumentRecipientResponseSchema,
   ZUpdateDocumentRecipientsRequestSchema,
@@ -42,6 +55,8 @@ import {
   ZUpdateTemplateRecipientsResponseSchema,
 } from './schema';
 
+const documentLockService = new DocumentLockService();
+
 export const recipientRouter = router({
   /**
    * @public
@@ -89,6 +104,8 @@ export const recipientRouter = router({
       const { teamId } = ctx;
       const { documentId, recipient } = input;
 
+      await documentLockService.assertDocumentNotLockedByOtherUser(documentId, ctx.user.id);
+
       const createdRecipients = await createDocumentRecipients({
         userId: ctx.user.id,
         teamId,
@@ -119,6 +136,8 @@ export const recipientRouter = router({
       const { teamId } = ctx;
       const { documentId, recipients } = input;
 
+      await documentLockService.assertDocumentNotLockedByOtherUser(documentId, ctx.user.id);
+
       return await createDocumentRecipients({
         userId: ctx.user.id,
         teamId,
@@ -147,6 +166,8 @@ export const recipientRouter = router({
       const { teamId } = ctx;
       const { documentId, recipient } = input;
 
+      await documentLockService.assertDocumentNotLockedByOtherUser(documentId, ctx.user.id);
+
       const updatedRecipients = await updateDocumentRecipients({
         userId: ctx.user.id,
         teamId,
@@ -177,6 +198,8 @@ export const recipientRouter = router({
       const { teamId } = ctx;
       const { documentId, recipients } = input;
 
+      await documentLockService.assertDocumentNotLockedByOtherUser(documentId, ctx.user.id);
+
       return await updateDocumentRecipients({
         userId: ctx.user.id,
         teamId,
@@ -204,6 +227,8 @@ export const recipientRouter = router({
       const { teamId } = ctx;
       const { recipientId } = input;
 
+      await documentLockService.assertRecipientNotLockedByOtherUser(recipientId, ctx.user.id);
+
       await deleteDocumentRecipient({
         userId: ctx.user.id,
         teamId,
@@ -224,6 +249,8 @@ export const recipientRouter = router({
       const { teamId } = ctx;
       const { documentId, recipients } = input;
 
+      await documentLockService.assertDocumentNotLockedByOtherUser(documentId, ctx.user.id);
+
       return await setDocumentRecipients({
         userId: ctx.user.id,
         teamId,
@@ -234,7 +261,10 @@ export const recipientRouter = router({
           name: recipient.name,
           role: recipient.role,
           signingOrder: recipient.signingOrder,
+          accessAuth: recipient.accessAuth,
           actionAuth: recipient.actionAuth,
+          accessCode: recipient.accessCode,
+          smsVerificationPhone: recipient.smsVerificationPhone,
         })),
         requestMetadata: ctx.metadata,
       });
@@ -434,7 +464,7 @@ export const recipientRouter = router({
   /**
    * @private
    */
-  completeDocumentWithToken: procedure
+  completeDocumentWithToken: signingProcedure
     .input(ZCompleteDocumentWithTokenMutationSchema)
     .mutation(async ({ input, ctx }) => {
       const { token, documentId, authOptions } = input;
@@ -442,6 +472,7 @@ export const recipientRouter = router({
       return await completeDocumentWithToken({
         token,
         documentId,
+        accessAuth: await getRecipientAccessAuthFromCookies({ token, cookies: ctx.req.cookies }),
         authOptions,
         userId: ctx.user?.id,
         requestMetadata: extractNextApiRequestMetadata(ctx.req),
@@ -451,7 +482,97 @@ export const recipientRouter = router({
   /**
    * @private
    */
-  rejectDocumentWithToken: procedure
+  sendSigningSmsVerificationCode: signingProcedure
+    .input(ZSendSigningSmsVerificationCodeMutationSchema)
+    .mutation(async ({ input }) => {
+      const { token, documentId } = input;
+
+      return await sendSigningSmsVerificationCode({
+        token,
+        documentId,
+      });
+    }),
+
+  /**
+   * @private
+   */
+  sendEmailVerificationCode: signingProcedure
+    .input(ZSendEmailVerificationCodeMutationSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { token, documentId } = input;
+
+      return await sendRecipientEmailVerificationCode({
+        token,
+        documentId,
+        requestMetadata: extractNextApiRequestMetadata(ctx.req),
+      });
+    }),
+
+  /**
+   * @private
+   */
+  submitIdVerification: signingProcedure
+    .input(ZSubmitIdVerificationMutationSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { token, documentId, documentType, frontImage, backImage } = input;
+
+      return await submitRecipientIdVerification({
+        token,
+        documentId,
+        documentType,
+        frontImage,
+        backImage,
+        requestMetadata: extractNextApiRequestMetadata(ctx.req),
+      });
+    }),
+
+  /**
+   * @private
+   */
+  findPendingIdVerifications: authenticatedProcedure.query(async ({ ctx }) => {
+    return await findPendingIdVerifications({
+      userId: ctx.user.id,
+      teamId: ctx.teamId,
+    });
+  }),
+
+  /**
+   * @private
+   */
+  getIdVerificationImages: authenticatedProcedure
+    .input(ZGetIdVerificationImagesQuerySchema)
+    .query(async ({ input, ctx }) => {
+      const { recipientId } = input;
+
+      return await getRecipientIdVerificationImages({
+        recipientId,
+        userId: ctx.user.id,
+        teamId: ctx.teamId,
+      });
+    }),
+
+  /**
+   * @private
+   */
+  reviewIdVerification: authenticatedProcedure
+    .input(ZReviewIdVerificationMutationSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { recipientId, status, reason } = input;
+
+      return await reviewRecipientIdVerification({
+        recipientId,
+        userId: ctx.user.id,
+        teamId: ctx.teamId,
+        status,
+        reason,
+        requestMetadata: ctx.metadata.requestMetadata,
+      });
+    }),
+
+  /**
+   * @private
+   */
+  rejectDocumentWithToken: signingProcedure
     .input(ZRejectDocumentWithTokenMutationSchema)
     .mutation(async ({ input, ctx }) => {
       const { token, documentId, reason } = input;
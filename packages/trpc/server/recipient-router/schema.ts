@@ -2,9 +2,16 @@ import { z } from 'zod';
 
 import {
   ZRecipientAccessAuthTypesSchema,
+  ZRecipientAccessCodeSchema,
   ZRecipientActionAuthSchema,
   ZRecipientActionAuthTypesSchema,
+  ZRecipientSmsVerificationPhoneSchema,
 } from '@documenso/lib/types/document-auth';
+import {
+  IdVerificationStatus,
+  ZIdVerificationDocumentTypeSchema,
+  ZIdVerificationImageSchema,
+} from '@documenso/lib/types/id-verification';
 import { ZRecipientLiteSchema, ZRecipientSchema } from '@documenso/lib/types/recipient';
 import { RecipientRole } from '@documenso/prisma/client';
 
@@ -106,7 +113,10 @@ export const ZSetDocumentRecipientsRequestSchema = z
         name: z.string(),
         role: z.nativeEnum(RecipientRole),
         signingOrder: z.number().optional(),
+        accessAuth: ZRecipientAccessAuthTypesSchema.optional().nullable(),
         actionAuth: ZRecipientActionAuthTypesSchema.optional().nullable(),
+        accessCode: ZRecipientAccessCodeSchema.optional(),
+        smsVerificationPhone: ZRecipientSmsVerificationPhoneSchema.optional(),
       }),
     ),
   })
@@ -218,6 +228,39 @@ export type TCompleteDocumentWithTokenMutationSchema = z.infer<
   typeof ZCompleteDocumentWithTokenMutationSchema
 >;
 
+export const ZSendSigningSmsVerificationCodeMutationSchema = z.object({
+  token: z.string(),
+  documentId: z.number(),
+});
+
+export const ZSendEmailVerificationCodeMutationSchema = z.object({
+  token: z.string(),
+  documentId: z.number(),
+});
+
+export const ZSubmitIdVerificationMutationSchema = z.object({
+  token: z.string(),
+  documentId: z.number(),
+  documentType: ZIdVerificationDocumentTypeSchema,
+  frontImage: ZIdVerificationImageSchema,
+  backImage: ZIdVerificationImageSchema.optional(),
+});
+
+export const ZGetIdVerificationImagesQuerySchema = z.object({
+  recipientId: z.number(),
+});
+
+export const ZReviewIdVerificationMutationSchema = z
+  .object({
+    recipientId: z.number(),
+    status: z.enum([IdVerificationStatus.verified, IdVerificationStatus.rejected]),
+    reason: z.string().trim().max(500).optional(),
+  })
+  .refine(({ status, reason }) => status !== IdVerificationStatus.rejected || !!reason, {
+    message: 'A reason is required when rejecting a verification',
+    path: ['reason'],
+  });
+
 export const ZRejectDocumentWithTokenMutationSchema = z.object({
   token: z.string(),
   documentId: z.number(),
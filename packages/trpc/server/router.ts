@@ -1,11 +1,15 @@
 import { adminRouter } from './admin-router/router';
 import { apiTokenRouter } from './api-token-router/router';
 import { authRouter } from './auth-router/router';
+import { documentLockRouter } from './document-lock-router/router';
 import { documentRouter } from './document-router/router';
+import { dynamicFormRouter } from './dynamic-form-router/router';
 import { fieldRouter } from './field-router/router';
+import { oauthRouter } from './oauth-router/router';
 import { profileRouter } from './profile-router/router';
 import { recipientRouter } from './recipient-router/router';
 import { shareLinkRouter } from './share-link-router/router';
+import { ssoRouter } from './sso-router/router';
 import { teamRouter } from './team-router/router';
 import { templateRouter } from './template-router/router';
 import { router } from './trpc';
@@ -16,11 +20,15 @@ export const appRouter = router({
   auth: authRouter,
   profile: profileRouter,
   document: documentRouter,
+  documentLock: documentLockRouter,
+  dynamicForm: dynamicFormRouter,
   field: fieldRouter,
   recipient: recipientRouter,
   admin: adminRouter,
   shareLink: shareLinkRouter,
+  sso: ssoRouter,
   apiToken: apiTokenRouter,
+  oauth: oauthRouter,
   team: teamRouter,
   template: templateRouter,
   webhook: webhookRouter,
@@ -0,0 +1,91 @@
+import { createTeamSsoDomain } from '@documenso/ee/server-only/sso/create-team-sso-domain';
+import { deleteTeamSsoDomain } from '@documenso/ee/server-only/sso/delete-team-sso-domain';
+import { getDomainVerificationRecord } from '@documenso/ee/server-only/sso/domain-verification';
+import { getSsoConnectionByEmail } from '@documenso/ee/server-only/sso/get-sso-connection-by-email';
+import { getTeamSsoConnection } from '@documenso/ee/server-only/sso/get-team-sso-connection';
+import { getSamlServiceProviderUrls } from '@documenso/ee/server-only/sso/saml';
+import { upsertTeamSsoConnection } from '@documenso/ee/server-only/sso/upsert-team-sso-connection';
+import { verifyTeamSsoDomain } from '@documenso/ee/server-only/sso/verify-team-sso-domain';
+
+import { authRateLimitedProcedure, authenticatedProcedure, router } from '../trpc';
+import {
+  ZCreateTeamSsoDomainMutationSchema,
+  ZDeleteTeamSsoDomainMutationSchema,
+  ZGetSsoSignInUrlMutationSchema,
+  ZGetTeamSsoConnectionQuerySchema,
+  ZUpsertTeamSsoConnectionMutationSchema,
+  ZVerifyTeamSsoDomainMutationSchema,
+} from './schema';
+
+export const ssoRouter = router({
+  getSsoSignInUrl: authRateLimitedProcedure
+    .input(ZGetSsoSignInUrlMutationSchema)
+    .mutation(async ({ input }) => {
+      const connection = await getSsoConnectionByEmail({ email: input.email });
+
+      if (!connection) {
+        return { url: null };
+      }
+
+      const url = new URL(getSamlServiceProviderUrls(connection.teamId).loginUrl);
+
+      if (input.callbackUrl) {
+        url.searchParams.set('callbackUrl', input.callbackUrl);
+      }
+
+      return { url: url.toString() };
+    }),
+
+  getTeamSsoConnection: authenticatedProcedure
+    .input(ZGetTeamSsoConnectionQuerySchema)
+    .query(async ({ input, ctx }) => {
+      const { domains, ...result } = await getTeamSsoConnection({
+        userId: ctx.user.id,
+        teamId: input.teamId,
+      });
+
+      return {
+        ...result,
+        domains: domains.map((domain) => ({
+          ...domain,
+          verificationRecord: getDomainVerificationRecord(domain.domain, domain.verificationToken),
+        })),
+      };
+    }),
+
+  upsertTeamSsoConnection: authenticatedProcedure
+    .input(ZUpsertTeamSsoConnectionMutationSchema)
+    .mutation(async ({ input, ctx }) => {
+      return await upsertTeamSsoConnection({
+        userId: ctx.user.id,
+        ...input,
+      });
+    }),
+
+  createTeamSsoDomain: authenticatedProcedure
+    .input(ZCreateTeamSsoDomainMutationSchema)
+    .mutation(async ({ input, ctx }) => {
+      return await createTeamSsoDomain({
+        userId: ctx.user.id,
+        ...input,
+      });
+    }),
+
+  verifyTeamSsoDomain: authenticatedProcedure
+    .input(ZVerifyTeamSsoDomainMutationSchema)
+    .mutation(async ({ input, ctx }) => {
+      return await verifyTeamSsoDomain({
+        userId: ctx.user.id,
+        ...input,
+      });
+    }),
+
+  deleteTeamSsoDomain: authenticatedProcedure
+    .input(ZDeleteTeamSsoDomainMutationSchema)
+    .mutation(async ({ input, ctx }) => {
+      await deleteTeamSsoDomain({
+        userId: ctx.user.id,
+        ...input,
+      });
+    }),
+});
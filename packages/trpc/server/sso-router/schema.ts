@@ -0,0 +1,53 @@
+import { z } from 'zod';
+
+export const ZSsoDomainSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^(?!-)[a-z0-9-]{1,63}(?<!-)(\.(?!-)[a-z0-9-]{1,63}(?<!-))+$/, {
+    message: 'Please enter a valid domain, for example example.com.',
+  });
+
+export const ZGetSsoSignInUrlMutationSchema = z.object({
+  email: z.string().email(),
+  callbackUrl: z.string().optional(),
+});
+
+export const ZGetTeamSsoConnectionQuerySchema = z.object({
+  teamId: z.number(),
+});
+
+export const ZUpsertTeamSsoConnectionMutationSchema = z.object({
+  teamId: z.number(),
+  data: z.object({
+    enabled: z.boolean(),
+    forceSso: z.boolean(),
+    emailAttribute: z.string().trim().min(1, { message: 'Please enter an attribute name.' }),
+    nameAttribute: z.string().trim().min(1, { message: 'Please enter an attribute name.' }),
+    idpMetadataXml: z.string().trim().nullish(),
+    idpEntityId: z.string().trim().optional(),
+    idpSsoUrl: z.union([z.string().trim().url(), z.literal('')]).optional(),
+    idpCertificate: z.string().trim().optional(),
+  }),
+});
+
+export const ZCreateTeamSsoDomainMutationSchema = z.object({
+  teamId: z.number(),
+  domain: ZSsoDomainSchema,
+});
+
+export const ZVerifyTeamSsoDomainMutationSchema = z.object({
+  teamId: z.number(),
+  domainId: z.string(),
+});
+
+export const ZDeleteTeamSsoDomainMutationSchema = z.object({
+  teamId: z.number(),
+  domainId: z.string(),
+});
+
+export type TGetSsoSignInUrlMutationSchema = z.infer<typeof ZGetSsoSignInUrlMutationSchema>;
+export type TUpsertTeamSsoConnectionMutationSchema = z.infer<
+  typeof ZUpsertTeamSsoConnectionMutationSchema
+>;
+export type TCreateTeamSsoDomainMutationSchema = z.infer<typeof ZCreateTeamSsoDomainMutationSchema>;
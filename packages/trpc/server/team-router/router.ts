@@ -9,6 +9,7 @@ import { createTeamBillingPortal } from '@documenso/lib/server-only/team/create-
 import { createTeamPendingCheckoutSession } from '@documenso/lib/server-only/team/create-team-checkout-session';
 import { createTeamEmailVerification } from '@documenso/lib/server-only/team/create-team-email-verification';
 import { createTeamMemberInvites } from '@documenso/lib/server-only/team/create-team-member-invites';
+import { createTeamRole } from '@documenso/lib/server-only/team/create-team-role';
 import { declineTeamInvitation } from '@documenso/lib/server-only/team/decline-team-invitation';
 import { deleteTeam } from '@documenso/lib/server-only/team/delete-team';
 import { deleteTeamEmail } from '@documenso/lib/server-only/team/delete-team-email';
@@ -16,6 +17,7 @@ import { deleteTeamEmailVerification } from '@documenso/lib/server-only/team/del
 import { deleteTeamMemberInvitations } from '@documenso/lib/server-only/team/delete-team-invitations';
 import { deleteTeamMembers } from '@documenso/lib/server-only/team/delete-team-members';
 import { deleteTeamPending } from '@documenso/lib/server-only/team/delete-team-pending';
+import { deleteTeamRole } from '@documenso/lib/server-only/team/delete-team-role';
 import { deleteTeamTransferRequest } from '@documenso/lib/server-only/team/delete-team-transfer-request';
 import { findTeamInvoices } from '@documenso/lib/server-only/team/find-team-invoices';
 import { findTeamMemberInvites } from '@documenso/lib/server-only/team/find-team-member-invites';
@@ -26,6 +28,7 @@ import { getTeamById } from '@documenso/lib/server-only/team/get-team';
 import { getTeamEmailByEmail } from '@documenso/lib/server-only/team/get-team-email-by-email';
 import { getTeamInvitations } from '@documenso/lib/server-only/team/get-team-invitations';
 import { getTeamMembers } from '@documenso/lib/server-only/team/get-team-members';
+import { getTeamRoles } from '@documenso/lib/server-only/team/get-team-roles';
 import { getTeams } from '@documenso/lib/server-only/team/get-teams';
 import { leaveTeam } from '@documenso/lib/server-only/team/leave-team';
 import { requestTeamOwnershipTransfer } from '@documenso/lib/server-only/team/request-team-ownership-transfer';
@@ -37,6 +40,7 @@ import { updateTeamDocumentSettings } from '@documenso/lib/server-only/team/upda
 import { updateTeamEmail } from '@documenso/lib/server-only/team/update-team-email';
 import { updateTeamMember } from '@documenso/lib/server-only/team/update-team-member';
 import { updateTeamPublicProfile } from '@documenso/lib/server-only/team/update-team-public-profile';
+import { updateTeamRole } from '@documenso/lib/server-only/team/update-team-role';
 
 import { authenticatedProcedure, router } from '../trpc';
 import {
@@ -46,6 +50,7 @@ import {
   ZCreateTeamMemberInvitesMutationSchema,
   ZCreateTeamMutationSchema,
   ZCreateTeamPendingCheckoutMutationSchema,
+  ZCreateTeamRoleMutationSchema,
   ZDeclineTeamInvitationMutationSchema,
   ZDeleteTeamEmailMutationSchema,
   ZDeleteTeamEmailVerificationMutationSchema,
@@ -53,6 +58,7 @@ import {
   ZDeleteTeamMembersMutationSchema,
   ZDeleteTeamMutationSchema,
   ZDeleteTeamPendingMutationSchema,
+  ZDeleteTeamRoleMutationSchema,
   ZDeleteTeamTransferRequestMutationSchema,
   ZFindTeamInvoicesQuerySchema,
   ZFindTeamMemberInvitesQuerySchema,
@@ -61,6 +67,7 @@ import {
   ZFindTeamsQuerySchema,
   ZGetTeamMembersQuerySchema,
   ZGetTeamQuerySchema,
+  ZGetTeamRolesQuerySchema,
   ZLeaveTeamMutationSchema,
   ZRequestTeamOwnerhsipTransferMutationSchema,
   ZResendTeamEmailVerificationMutationSchema,
@@ -71,6 +78,7 @@ import {
   ZUpdateTeamMemberMutationSchema,
   ZUpdateTeamMutationSchema,
   ZUpdateTeamPublicProfileMutationSchema,
+  ZUpdateTeamRoleMutationSchema,
 } from './schema';
 
 export const teamRouter = router({
@@ -335,6 +343,43 @@ export const teamRouter = router({
       });
     }),
 
+  // Internal endpoint for now.
+  getTeamRoles: authenticatedProcedure
+    .input(ZGetTeamRolesQuerySchema)
+    .query(async ({ input, ctx }) => {
+      return await getTeamRoles({ teamId: input.teamId, userId: ctx.user.id });
+    }),
+
+  // Internal endpoint for now.
+  createTeamRole: authenticatedProcedure
+    .input(ZCreateTeamRoleMutationSchema)
+    .mutation(async ({ input, ctx }) => {
+      return await createTeamRole({
+        userId: ctx.user.id,
+        ...input,
+      });
+    }),
+
+  // Internal endpoint for now.
+  updateTeamRole: authenticatedProcedure
+    .input(ZUpdateTeamRoleMutationSchema)
+    .mutation(async ({ input, ctx }) => {
+      return await updateTeamRole({
+        userId: ctx.user.id,
+        ...input,
+      });
+    }),
+
+  // Internal endpoint for now.
+  deleteTeamRole: authenticatedProcedure
+    .input(ZDeleteTeamRoleMutationSchema)
+    .mutation(async ({ input, ctx }) => {
+      return await deleteTeamRole({
+        userId: ctx.user.id,
+        ...input,
+      });
+    }),
+
   // Internal endpoint for now.
   createTeamEmailVerification: authenticatedProcedure
     // .meta({
@@ -2,8 +2,9 @@ import { z } from 'zod';
 
 import { SUPPORTED_LANGUAGE_CODES } from '@documenso/lib/constants/i18n';
 import { PROTECTED_TEAM_URLS } from '@documenso/lib/constants/teams';
+import { ZDocumentReminderSettingsSchema } from '@documenso/lib/types/document-reminders';
 import { ZFindSearchParamsSchema } from '@documenso/lib/types/search-params';
-import { DocumentVisibility, TeamMemberRole } from '@documenso/prisma/client';
+import { DocumentVisibility, TeamMemberRole, TeamPermission } from '@documenso/prisma/client';
 
 import { ZUpdatePublicProfileMutationSchema } from '../profile-router/schema';
 
@@ -82,6 +83,21 @@ export const ZCreateTeamPendingCheckoutMutationSchema = z.object({
   pendingTeamId: z.number(),
 });
 
+export const ZTeamRoleNameSchema = z
+  .string()
+  .trim()
+  .min(1, { message: 'Please enter a role name.' })
+  .max(50, { message: 'Role name must not exceed 50 characters.' });
+
+export const ZCreateTeamRoleMutationSchema = z.object({
+  teamId: z.number(),
+  data: z.object({
+    name: ZTeamRoleNameSchema,
+    description: z.string().trim().max(255).optional(),
+    permissions: z.array(z.nativeEnum(TeamPermission)),
+  }),
+});
+
 export const ZDeleteTeamEmailMutationSchema = z.object({
   teamId: z.number(),
 });
@@ -100,6 +116,11 @@ export const ZDeleteTeamMemberInvitationsMutationSchema = z.object({
   invitationIds: z.array(z.number()),
 });
 
+export const ZDeleteTeamRoleMutationSchema = z.object({
+  teamId: z.number(),
+  roleId: z.number(),
+});
+
 export const ZDeleteTeamMutationSchema = z.object({
   teamId: z.number(),
 });
@@ -136,6 +157,10 @@ export const ZGetTeamMembersQuerySchema = z.object({
   teamId: z.number(),
 });
 
+export const ZGetTeamRolesQuerySchema = z.object({
+  teamId: z.number(),
+});
+
 export const ZLeaveTeamMutationSchema = z.object({
   teamId: z.number(),
 });
@@ -160,9 +185,16 @@ export const ZUpdateTeamMemberMutationSchema = z.object({
   teamMemberId: z.number(),
   data: z.object({
     role: z.nativeEnum(TeamMemberRole),
+    customRoleId: z.number().nullish(),
   }),
 });
 
+export const ZUpdateTeamRoleMutationSchema = z.object({
+  teamId: z.number(),
+  roleId: z.number(),
+  data: ZCreateTeamRoleMutationSchema.shape.data.partial(),
+});
+
 export const ZUpdateTeamPublicProfileMutationSchema = ZUpdatePublicProfileMutationSchema.pick({
   bio: true,
   enabled: true,
@@ -206,6 +238,8 @@ export const ZUpdateTeamDocumentSettingsMutationSchema = z.object({
     includeSenderDetails: z.boolean().optional().default(false),
     typedSignatureEnabled: z.boolean().optional().default(true),
     includeSigningCertificate: z.boolean().optional().default(true),
+    reminderSettings: ZDocumentReminderSettingsSchema.nullish(),
+    documentExpiryDays: z.number().int().min(1).max(365).nullish(),
   }),
 });
 
@@ -219,8 +253,10 @@ export type TCreateTeamMemberInvitesMutationSchema = z.infer<
 export type TCreateTeamPendingCheckoutMutationSchema = z.infer<
   typeof ZCreateTeamPendingCheckoutMutationSchema
 >;
+export type TCreateTeamRoleMutationSchema = z.infer<typeof ZCreateTeamRoleMutationSchema>;
 export type TDeleteTeamEmailMutationSchema = z.infer<typeof ZDeleteTeamEmailMutationSchema>;
 export type TDeleteTeamMembersMutationSchema = z.infer<typeof ZDeleteTeamMembersMutationSchema>;
+export type TDeleteTeamRoleMutationSchema = z.infer<typeof ZDeleteTeamRoleMutationSchema>;
 export type TDeleteTeamMutationSchema = z.infer<typeof ZDeleteTeamMutationSchema>;
 export type TDeleteTeamPendingMutationSchema = z.infer<typeof ZDeleteTeamPendingMutationSchema>;
 export type TDeleteTeamTransferRequestMutationSchema = z.infer<
@@ -232,9 +268,11 @@ export type TFindTeamsQuerySchema = z.infer<typeof ZFindTeamsQuerySchema>;
 export type TFindTeamsPendingQuerySchema = z.infer<typeof ZFindTeamsPendingQuerySchema>;
 export type TGetTeamQuerySchema = z.infer<typeof ZGetTeamQuerySchema>;
 export type TGetTeamMembersQuerySchema = z.infer<typeof ZGetTeamMembersQuerySchema>;
+export type TGetTeamRolesQuerySchema = z.infer<typeof ZGetTeamRolesQuerySchema>;
 export type TLeaveTeamMutationSchema = z.infer<typeof ZLeaveTeamMutationSchema>;
 export type TUpdateTeamMutationSchema = z.infer<typeof ZUpdateTeamMutationSchema>;
 export type TUpdateTeamEmailMutationSchema = z.infer<typeof ZUpdateTeamEmailMutationSchema>;
+export type TUpdateTeamRoleMutationSchema = z.infer<typeof ZUpdateTeamRoleMutationSchema>;
 export type TRequestTeamOwnerhsipTransferMutationSchema = z.infer<
   typeof ZRequestTeamOwnerhsipTransferMutationSchema
 >;
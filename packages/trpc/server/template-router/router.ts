@@ -1,6 +1,7 @@
 import { TRPCError } from '@trpc/server';
 
 import { getServerLimits } from '@documenso/ee/server-only/limits/server';
+import { checkUsageQuotaWarnings } from '@documenso/ee/server-only/limits/usage-quota-warnings';
 import { AppError, AppErrorCode } from '@documenso/lib/errors/app-error';
 import { jobs } from '@documenso/lib/jobs/client';
 import { getDocumentWithDetailsById } from '@documenso/lib/server-only/document/get-document-with-details-by-id';
@@ -24,6 +25,7 @@ import { moveTemplateToTeam } from '@documenso/lib/server-only/template/move-tem
 import { toggleTemplateDirectLink } from '@documenso/lib/server-only/template/toggle-template-direct-link';
 import { updateTemplate } from '@documenso/lib/server-only/template/update-template';
 import type { Document } from '@documenso/prisma/client';
+import { ApiTokenScope } from '@documenso/prisma/client';
 
 import { ZGenericSuccessResponse, ZSuccessResponseSchema } from '../document-router/schema';
 import { authenticatedProcedure, maybeAuthenticatedProcedure, router } from '../trpc';
@@ -123,12 +125,16 @@ export const templateRouter = router({
       const { teamId } = ctx;
       const { title, templateDocumentDataId } = input;
 
-      return await createTemplate({
+      const template = await createTemplate({
         userId: ctx.user.id,
         teamId,
         title,
         templateDocumentDataId,
       });
+
+      await checkUsageQuotaWarnings({ userId: ctx.user.id, teamId });
+
+      return template;
     }),
 
   /**
@@ -222,6 +228,7 @@ export const templateRouter = router({
         description: 'Use the template to create a document',
         tags: ['Template'],
       },
+      apiTokenScopes: [ApiTokenScope.TEMPLATES_READ, ApiTokenScope.DOCUMENTS_WRITE],
     })
     .input(ZCreateDocumentFromTemplateRequestSchema)
     .output(ZCreateDocumentFromTemplateResponseSchema)
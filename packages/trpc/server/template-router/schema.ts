@@ -21,6 +21,7 @@ import {
   ZDocumentMetaLanguageSchema,
   ZDocumentMetaMessageSchema,
   ZDocumentMetaRedirectUrlSchema,
+  ZDocumentMetaReminderSettingsSchema,
   ZDocumentMetaSubjectSchema,
   ZDocumentMetaTimezoneSchema,
   ZDocumentMetaTypedSignatureEnabledSchema,
@@ -154,6 +155,7 @@ export const ZUpdateTemplateRequestSchema = z.object({
       dateFormat: ZDocumentMetaDateFormatSchema.optional(),
       distributionMethod: ZDocumentMetaDistributionMethodSchema.optional(),
       emailSettings: ZDocumentEmailSettingsSchema.optional(),
+      reminderSettings: ZDocumentMetaReminderSettingsSchema.optional(),
       redirectUrl: ZDocumentMetaRedirectUrlSchema.optional(),
       language: ZDocumentMetaLanguageSchema.optional(),
       typedSignatureEnabled: ZDocumentMetaTypedSignatureEnabledSchema.optional(),
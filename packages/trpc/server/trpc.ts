@@ -1,12 +1,28 @@
 import { TRPCError, initTRPC } from '@trpc/server';
 import SuperJSON from 'superjson';
+import { z } from 'zod';
 import type { AnyZodObject } from 'zod';
 
+import { meterApiCall } from '@documenso/ee/server-only/limits/record-usage';
+import {
+  authRateLimiter,
+  createTRPCRateLimiter,
+  formSubmissionRateLimiter,
+  getRateLimitIpKey,
+  getRateLimitRecipientTokenKey,
+  signingRateLimiter,
+} from '@documenso/ee/server-only/middleware/rate-limiter';
+import {
+  ALL_API_TOKEN_SCOPES,
+  API_TOKEN_SCOPE_MAP,
+} from '@documenso/lib/constants/api-token-scopes';
 import { AppError, genericErrorCodeToTrpcErrorCodeMap } from '@documenso/lib/errors/app-error';
 import { isAdmin } from '@documenso/lib/next-auth/guards/is-admin';
-import { getApiTokenByToken } from '@documenso/lib/server-only/public-api/get-api-token-by-token';
+import { getMissingApiTokenScopes } from '@documenso/lib/server-only/public-api/assert-api-token-scopes';
+import { getApiCredentialsByToken } from '@documenso/lib/server-only/public-api/get-api-credentials-by-token';
 import type { ApiRequestMetadata } from '@documenso/lib/universal/extract-request-metadata';
 import { extractNextApiRequestMetadata } from '@documenso/lib/universal/extract-request-metadata';
+import { ApiTokenScope } from '@documenso/prisma/client';
 
 import type { TrpcContext } from './context';
 
@@ -28,8 +44,65 @@ type OpenApiMeta = {
     successDescription?: string;
     errorResponses?: number[] | Record<number, string>;
   };
+  /**
+   * The scopes an API token must have been granted to access the procedure.
+   *
+   * Defaults to the scopes of the OpenAPI tag based on the request method.
+   */
+  apiTokenScopes?: ApiTokenScope[];
 } & Record<string, unknown>;
 
+const OPENAPI_TAG_API_TOKEN_SCOPES: Record<string, { read: ApiTokenScope; write: ApiTokenScope }> =
+  {
+    Document: {
+      read: ApiTokenScope.DOCUMENTS_READ,
+      write: ApiTokenScope.DOCUMENTS_WRITE,
+    },
+    'Document Fields': {
+      read: ApiTokenScope.DOCUMENTS_READ,
+      write: ApiTokenScope.DOCUMENTS_WRITE,
+    },
+    'Document Recipients': {
+      read: ApiTokenScope.DOCUMENTS_READ,
+      write: ApiTokenScope.RECIPIENTS_WRITE,
+    },
+    Template: {
+      read: ApiTokenScope.TEMPLATES_READ,
+      write: ApiTokenScope.TEMPLATES_WRITE,
+    },
+    'Template Fields': {
+      read: ApiTokenScope.TEMPLATES_READ,
+      write: ApiTokenScope.TEMPLATES_WRITE,
+    },
+    'Template Recipients': {
+      read: ApiTokenScope.TEMPLATES_READ,
+      write: ApiTokenScope.TEMPLATES_WRITE,
+    },
+    Teams: {
+      read: ApiTokenScope.TEAM_READ,
+      write: ApiTokenScope.TEAM_WRITE,
+    },
+  };
+
+/**
+ * Get the scopes required to access a procedure with an API token.
+ *
+ * Procedures which are not part of the public API require a token with every scope.
+ */
+const getRequiredApiTokenScopes = (meta?: OpenApiMeta): ApiTokenScope[] => {
+  if (meta?.apiTokenScopes) {
+    return meta.apiTokenScopes;
+  }
+
+  const scopes = (meta?.openapi?.tags ?? []).map((tag) => OPENAPI_TAG_API_TOKEN_SCOPES[tag]);
+
+  if (!meta?.openapi || scopes.length === 0 || scopes.some((scope) => !scope)) {
+    return ALL_API_TOKEN_SCOPES;
+  }
+
+  return scopes.map((scope) => (meta.openapi?.method === 'GET' ? scope.read : scope.write));
+};
+
 const t = initTRPC
   .meta<OpenApiMeta>()
   .context<TrpcContext>()
@@ -66,7 +139,7 @@ const t = initTRPC
 /**
  * Middlewares
  */
-export const authenticatedMiddleware = t.middleware(async ({ ctx, next }) => {
+export const authenticatedMiddleware = t.middleware(async ({ ctx, meta, next }) => {
   const authorizationHeader = ctx.req.headers.authorization;
 
   // Taken from `authenticatedMiddleware` in `@documenso/api/v1/middleware/authenticated.ts`.
@@ -78,7 +151,30 @@ export const authenticatedMiddleware = t.middleware(async ({ ctx, next }) => {
       throw new Error('Token was not provided for authenticated middleware');
     }
 
-    const apiToken = await getApiTokenByToken({ token });
+    const apiToken = await getApiCredentialsByToken({ token });
+
+    if (apiToken.type === 'oauth' && !meta?.openapi) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'OAuth access tokens can only be used with the public API.',
+      });
+    }
+
+    const missingScopes = getMissingApiTokenScopes({
+      apiToken,
+      scopes: getRequiredApiTokenScopes(meta),
+    });
+
+    if (missingScopes.length > 0) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: `API token is missing the required scopes: ${missingScopes
+          .map((scope) => API_TOKEN_SCOPE_MAP[scope].value)
+          .join(', ')}`,
+      });
+    }
+
+    await meterApiCall({ userId: apiToken.user.id, teamId: apiToken.teamId });
 
     return await next({
       ctx: {
@@ -88,17 +184,19 @@ export const authenticatedMiddleware = t.middleware(async ({ ctx, next }) => {
         session: null,
         metadata: {
           ...ctx.metadata,
-          auditUser: apiToken.team
-            ? {
-                id: null,
-                email: null,
-                name: apiToken.team.name,
-              }
-            : {
-                id: apiToken.user.id,
-                email: apiToken.user.email,
-                name: apiToken.user.name,
-              },
+          // OAuth access tokens act on behalf of the user rather than the team.
+          auditUser:
+            apiToken.team && apiToken.type === 'apiToken'
+              ? {
+                  id: null,
+                  email: null,
+                  name: apiToken.team.name,
+                }
+              : {
+                  id: apiToken.user.id,
+                  email: apiToken.user.email,
+                  name: apiToken.user.name,
+                },
           auth: 'api',
         } satisfies ApiRequestMetadata,
       },
@@ -189,6 +287,56 @@ export const adminMiddleware = t.middleware(async ({ ctx, next }) => {
   });
 });
 
+const authRateLimit = createTRPCRateLimiter<TrpcContext>({
+  limiter: authRateLimiter,
+  keyGenerator: ({ ctx }) => getRateLimitIpKey(ctx.req),
+});
+
+/**
+ * Limits unauthenticated auth procedures such as sign up and password resets by IP address.
+ */
+export const authRateLimitMiddleware = t.middleware(async ({ ctx, getRawInput, next }) => {
+  await authRateLimit({ ctx, getRawInput });
+
+  return await next();
+});
+
+const signingRateLimit = createTRPCRateLimiter<TrpcContext>({
+  limiter: signingRateLimiter,
+  keyGenerator: ({ ctx, input }) => {
+    const token = z.object({ token: z.string().min(1) }).safeParse(input);
+
+    return token.success
+      ? getRateLimitRecipientTokenKey(token.data.token)
+      : getRateLimitIpKey(ctx.req);
+  },
+});
+
+/**
+ * Limits procedures accessed with a recipient token by the token, falling back to the IP address.
+ */
+export const signingRateLimitMiddleware = t.middleware(async ({ ctx, getRawInput, next }) => {
+  await signingRateLimit({ ctx, getRawInput });
+
+  return await next();
+});
+
+const formSubmissionRateLimit = createTRPCRateLimiter<TrpcContext>({
+  limiter: formSubmissionRateLimiter,
+  keyGenerator: ({ ctx }) => getRateLimitIpKey(ctx.req),
+});
+
+/**
+ * Limits anonymous public form submissions, which create and send documents, by IP address.
+ */
+export const formSubmissionRateLimitMiddleware = t.middleware(
+  async ({ ctx, getRawInput, next }) => {
+    await formSubmissionRateLimit({ ctx, getRawInput });
+
+    return await next();
+  },
+);
+
 /**
  * Routers and Procedures
  */
@@ -198,3 +346,6 @@ export const authenticatedProcedure = t.procedure.use(authenticatedMiddleware);
 // While this is functionally the same as `procedure`, it's useful for indicating purpose
 export const maybeAuthenticatedProcedure = t.procedure.use(maybeAuthenticatedMiddleware);
 export const adminProcedure = t.procedure.use(adminMiddleware);
+export const authRateLimitedProcedure = t.procedure.use(authRateLimitMiddleware);
+export const signingProcedure = t.procedure.use(signingRateLimitMiddleware);
+export const formSubmissionProcedure = t.procedure.use(formSubmissionRateLimitMiddleware);
@@ -1,17 +1,23 @@
 import { createWebhook } from '@documenso/lib/server-only/webhooks/create-webhook';
 import { deleteWebhookById } from '@documenso/lib/server-only/webhooks/delete-webhook-by-id';
 import { editWebhook } from '@documenso/lib/server-only/webhooks/edit-webhook';
+import { findWebhookCalls } from '@documenso/lib/server-only/webhooks/find-webhook-calls';
 import { getWebhookById } from '@documenso/lib/server-only/webhooks/get-webhook-by-id';
+import { getWebhookCallById } from '@documenso/lib/server-only/webhooks/get-webhook-call-by-id';
 import { getWebhooksByTeamId } from '@documenso/lib/server-only/webhooks/get-webhooks-by-team-id';
 import { getWebhooksByUserId } from '@documenso/lib/server-only/webhooks/get-webhooks-by-user-id';
+import { resendWebhookCall } from '@documenso/lib/server-only/webhooks/resend-webhook-call';
 
 import { authenticatedProcedure, router } from '../trpc';
 import {
   ZCreateWebhookMutationSchema,
   ZDeleteWebhookMutationSchema,
   ZEditWebhookMutationSchema,
+  ZFindWebhookCallsQuerySchema,
   ZGetTeamWebhooksQuerySchema,
   ZGetWebhookByIdQuerySchema,
+  ZGetWebhookCallByIdQuerySchema,
+  ZResendWebhookCallMutationSchema,
 } from './schema';
 
 export const webhookRouter = router({
@@ -39,6 +45,48 @@ export const webhookRouter = router({
       });
     }),
 
+  findWebhookCalls: authenticatedProcedure
+    .input(ZFindWebhookCallsQuerySchema)
+    .query(async ({ input, ctx }) => {
+      const { id, teamId, event, status, page, perPage } = input;
+
+      return await findWebhookCalls({
+        webhookId: id,
+        userId: ctx.user.id,
+        teamId,
+        event,
+        status,
+        page,
+        perPage,
+      });
+    }),
+
+  getWebhookCallById: authenticatedProcedure
+    .input(ZGetWebhookCallByIdQuerySchema)
+    .query(async ({ input, ctx }) => {
+      const { id, teamId } = input;
+
+      const { webhook: _webhook, ...webhookCall } = await getWebhookCallById({
+        id,
+        userId: ctx.user.id,
+        teamId,
+      });
+
+      return webhookCall;
+    }),
+
+  resendWebhookCall: authenticatedProcedure
+    .input(ZResendWebhookCallMutationSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { id, teamId } = input;
+
+      return await resendWebhookCall({
+        id,
+        userId: ctx.user.id,
+        teamId,
+      });
+    }),
+
   createWebhook: authenticatedProcedure
     .input(ZCreateWebhookMutationSchema)
     .mutation(async ({ input, ctx }) => {
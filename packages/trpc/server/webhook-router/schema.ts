@@ -1,6 +1,7 @@
 import { z } from 'zod';
 
-import { WebhookTriggerEvents } from '@documenso/prisma/client';
+import { ZFindSearchParamsSchema } from '@documenso/lib/types/search-params';
+import { WebhookCallStatus, WebhookTriggerEvents } from '@documenso/prisma/client';
 
 export const ZGetTeamWebhooksQuerySchema = z.object({
   teamId: z.number(),
@@ -39,3 +40,26 @@ export const ZDeleteWebhookMutationSchema = z.object({
 });
 
 export type TDeleteWebhookMutationSchema = z.infer<typeof ZDeleteWebhookMutationSchema>;
+
+export const ZFindWebhookCallsQuerySchema = ZFindSearchParamsSchema.omit({ query: true }).extend({
+  id: z.string(),
+  teamId: z.number().optional(),
+  event: z.nativeEnum(WebhookTriggerEvents).optional(),
+  status: z.nativeEnum(WebhookCallStatus).optional(),
+});
+
+export type TFindWebhookCallsQuerySchema = z.infer<typeof ZFindWebhookCallsQuerySchema>;
+
+export const ZGetWebhookCallByIdQuerySchema = z.object({
+  id: z.string(),
+  teamId: z.number().optional(),
+});
+
+export type TGetWebhookCallByIdQuerySchema = z.infer<typeof ZGetWebhookCallByIdQuerySchema>;
+
+export const ZResendWebhookCallMutationSchema = z.object({
+  id: z.string(),
+  teamId: z.number().optional(),
+});
+
+export type TResendWebhookCallMutationSchema = z.infer<typeof ZResendWebhookCallMutationSchema>;
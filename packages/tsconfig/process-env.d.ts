@@ -67,6 +67,21 @@ declare namespace NodeJS {
     NEXT_PRIVATE_SMTP_FROM_NAME?: string;
     NEXT_PRIVATE_SMTP_FROM_ADDRESS?: string;
 
+    NEXT_PRIVATE_SMS_PROVIDER?: 'local' | 'twilio' | 'vonage' | 'http';
+    NEXT_PRIVATE_SMS_LOCAL_FILE_PATH?: string;
+    NEXT_PRIVATE_SMS_TWILIO_ACCOUNT_SID?: string;
+    NEXT_PRIVATE_SMS_TWILIO_AUTH_TOKEN?: string;
+    NEXT_PRIVATE_SMS_TWILIO_FROM_NUMBER?: string;
+    NEXT_PRIVATE_SMS_VONAGE_API_KEY?: string;
+    NEXT_PRIVATE_SMS_VONAGE_API_SECRET?: string;
+    NEXT_PRIVATE_SMS_VONAGE_FROM?: string;
+    NEXT_PRIVATE_SMS_HTTP_URL?: string;
+    NEXT_PRIVATE_SMS_HTTP_API_KEY?: string;
+
+    NEXT_PRIVATE_ID_VERIFICATION_PROVIDER?: 'local' | 'http';
+    NEXT_PRIVATE_ID_VERIFICATION_HTTP_URL?: string;
+    NEXT_PRIVATE_ID_VERIFICATION_HTTP_API_KEY?: string;
+
     NEXT_PUBLIC_DISABLE_SIGNUP?: string;
 
     //
@@ -74,6 +89,8 @@ declare namespace NodeJS {
 
     NEXT_PRIVATE_JOBS_PROVIDER?: 'trigger' | 'inngest' | 'local';
 
+    NEXT_PRIVATE_TRUSTED_PROXY_COUNT?: string;
+
     /**
      * Trigger.dev environment variables
      */
@@ -73,6 +73,12 @@ export const DocumentGlobalAuthAccessTooltip = () => (
             <strong>Require account</strong> - The recipient must be signed in to view the document
           </Trans>
         </li>
+        <li>
+          <Trans>
+            <strong>Require email code</strong> - The recipient must enter a code sent to their
+            email address to view the document
+          </Trans>
+        </li>
         <li>
           <Trans>
             <strong>No restrictions</strong> - The document can be accessed directly by the URL sent
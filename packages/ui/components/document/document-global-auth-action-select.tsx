@@ -91,6 +91,12 @@ export const DocumentGlobalAuthActionTooltip = () => (
             their settings
           </Trans>
         </li>
+        <li>
+          <Trans>
+            <strong>Require email code</strong> - The recipient must enter a code sent to their
+            email address
+          </Trans>
+        </li>
         <li>
           <Trans>
             <strong>No restrictions</strong> - No authentication required
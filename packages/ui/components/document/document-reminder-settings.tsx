@@ -0,0 +1,114 @@
+import { Trans } from '@lingui/macro';
+import { InfoIcon } from 'lucide-react';
+
+import type { TDocumentReminderSettings } from '@documenso/lib/types/document-reminders';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@documenso/ui/primitives/tooltip';
+
+import { cn } from '../../lib/utils';
+import { Checkbox } from '../../primitives/checkbox';
+import { Input } from '../../primitives/input';
+import { Label } from '../../primitives/label';
+
+type Value = TDocumentReminderSettings;
+
+type NumericSetting = Exclude<keyof Value, 'enabled'>;
+
+const NUMERIC_SETTING_LIMITS: Record<NumericSetting, { min: number; max: number }> = {
+  firstReminderAfterDays: { min: 1, max: 365 },
+  repeatEveryDays: { min: 1, max: 365 },
+  maxReminders: { min: 1, max: 10 },
+};
+
+type DocumentReminderSettingsProps = {
+  value: Value;
+  onChange: (value: Value) => void;
+  disabled?: boolean;
+  className?: string;
+};
+
+export const DocumentReminderSettings = ({
+  value,
+  onChange,
+  disabled,
+  className,
+}: DocumentReminderSettingsProps) => {
+  const onNumericBlur = (key: NumericSetting) => {
+    const { min, max } = NUMERIC_SETTING_LIMITS[key];
+
+    const clamped = Math.min(max, Math.max(min, Math.floor(value[key]) || min));
+
+    if (clamped !== value[key]) {
+      onChange({ ...value, [key]: clamped });
+    }
+  };
+
+  const renderNumericInput = (key: NumericSetting, label: React.ReactNode) => (
+    <div>
+      <Label htmlFor={`reminder-${key}`} className="text-muted-foreground text-xs">
+        {label}
+      </Label>
+
+      <Input
+        id={`reminder-${key}`}
+        type="number"
+        className="bg-background mt-1"
+        min={NUMERIC_SETTING_LIMITS[key].min}
+        max={NUMERIC_SETTING_LIMITS[key].max}
+        disabled={disabled}
+        value={value[key]}
+        onChange={(e) => onChange({ ...value, [key]: Number(e.target.value) })}
+        onBlur={() => onNumericBlur(key)}
+      />
+    </div>
+  );
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="flex flex-row items-center">
+        <Checkbox
+          id="reminder-enabled"
+          className="h-5 w-5"
+          disabled={disabled}
+          checked={value.enabled}
+          onCheckedChange={(checked) => onChange({ ...value, enabled: Boolean(checked) })}
+        />
+
+        <label
+          className="text-muted-foreground ml-2 flex flex-row items-center text-sm"
+          htmlFor="reminder-enabled"
+        >
+          <Trans>Automatically remind recipients who have not signed</Trans>
+
+          <Tooltip>
+            <TooltipTrigger>
+              <InfoIcon className="mx-2 h-4 w-4" />
+            </TooltipTrigger>
+
+            <TooltipContent className="text-foreground max-w-md space-y-2 p-4">
+              <h2>
+                <strong>
+                  <Trans>Signing reminders</Trans>
+                </strong>
+              </h2>
+
+              <p>
+                <Trans>
+                  A reminder email is sent to each recipient who has not completed the document once
+                  it is their turn. Reminders stop as soon as the recipient completes the document.
+                </Trans>
+              </p>
+            </TooltipContent>
+          </Tooltip>
+        </label>
+      </div>
+
+      {value.enabled && (
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+          {renderNumericInput('firstReminderAfterDays', <Trans>First reminder after (days)</Trans>)}
+          {renderNumericInput('repeatEveryDays', <Trans>Repeat every (days)</Trans>)}
+          {renderNumericInput('maxReminders', <Trans>Maximum reminders</Trans>)}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+'use client';
+
+import React from 'react';
+
+import { Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+import type { SelectProps } from '@radix-ui/react-select';
+import { InfoIcon } from 'lucide-react';
+
+import { DOCUMENT_AUTH_TYPES } from '@documenso/lib/constants/document-auth';
+import { RecipientAccessAuth } from '@documenso/lib/types/document-auth';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@documenso/ui/primitives/select';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@documenso/ui/primitives/tooltip';
+
+export type RecipientAccessAuthSelectProps = SelectProps;
+
+export const RecipientAccessAuthSelect = (props: RecipientAccessAuthSelectProps) => {
+  const { _ } = useLingui();
+
+  return (
+    <Select {...props}>
+      <SelectTrigger className="bg-background text-muted-foreground">
+        <SelectValue placeholder={_(msg`Inherit access method`)} />
+
+        <Tooltip>
+          <TooltipTrigger className="-mr-1 ml-auto">
+            <InfoIcon className="mx-2 h-4 w-4" />
+          </TooltipTrigger>
+
+          <TooltipContent className="text-foreground max-w-md p-4">
+            <h2>
+              <strong>
+                <Trans>Recipient access authentication</Trans>
+              </strong>
+            </h2>
+
+            <p>
+              <Trans>The authentication required for the recipient to view the document</Trans>
+            </p>
+
+            <p className="mt-2">
+              <Trans>This will override any global settings.</Trans>
+            </p>
+
+            <ul className="ml-3.5 list-outside list-disc space-y-0.5 py-2">
+              <li>
+                <Trans>
+                  <strong>Inherit access method</strong> - Use the global access authentication
+                  method configured in the "General Settings" step
+                </Trans>
+              </li>
+              <li>
+                <Trans>
+                  <strong>Require account</strong> - The recipient must be signed in to view the
+                  document
+                </Trans>
+              </li>
+              <li>
+                <Trans>
+                  <strong>Require email code</strong> - The recipient must enter a code sent to
+                  their email address
+                </Trans>
+              </li>
+              <li>
+                <Trans>
+                  <strong>Require access code</strong> - The recipient must enter an access code you
+                  share with them
+                </Trans>
+              </li>
+            </ul>
+          </TooltipContent>
+        </Tooltip>
+      </SelectTrigger>
+
+      <SelectContent position="popper">
+        {/* Note: -1 is remapped in the Zod schema to the required value. */}
+        <SelectItem value="-1">
+          <Trans>Inherit access method</Trans>
+        </SelectItem>
+
+        {Object.values(RecipientAccessAuth).map((authType) => (
+          <SelectItem key={authType} value={authType}>
+            {DOCUMENT_AUTH_TYPES[authType].value}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
@@ -71,6 +71,24 @@ export const RecipientActionAuthSelect = (props: RecipientActionAuthSelectProps)
                   via their settings
                 </Trans>
               </li>
+              <li>
+                <Trans>
+                  <strong>Require SMS code</strong> - The recipient must enter a code texted to
+                  their phone number
+                </Trans>
+              </li>
+              <li>
+                <Trans>
+                  <strong>Require email code</strong> - The recipient must enter a code sent to
+                  their email address
+                </Trans>
+              </li>
+              <li>
+                <Trans>
+                  <strong>Require ID verification</strong> - The recipient must upload an identity
+                  document and be verified before signing
+                </Trans>
+              </li>
               <li>
                 <Trans>
                   <strong>None</strong> - No authentication required
@@ -8,6 +8,7 @@ import { Trans, msg } from '@lingui/macro';
 import { useLingui } from '@lingui/react';
 import { Prisma } from '@prisma/client';
 import {
+  Calculator,
   CalendarDays,
   Check,
   CheckSquare,
@@ -356,7 +357,10 @@ export const AddFieldsFormPartial = ({
 
       // Only open fields with significant amount of settings (instead of just a font setting) to
       // reduce friction when adding fields.
-      if (ADVANCED_FIELD_TYPES_WITH_OPTIONAL_SETTING.includes(selectedField)) {
+      if (
+        ADVANCED_FIELD_TYPES_WITH_OPTIONAL_SETTING.includes(selectedField) ||
+        selectedField === FieldType.FORMULA
+      ) {
         setCurrentField(field);
         setShowAdvancedSettings(true);
       }
@@ -1084,6 +1088,31 @@ export const AddFieldsFormPartial = ({
                         </CardContent>
                       </Card>
                     </button>
+                    <button
+                      type="button"
+                      className="group h-full w-full"
+                      onClick={() => setSelectedField(FieldType.FORMULA)}
+                      onMouseDown={() => setSelectedField(FieldType.FORMULA)}
+                      data-selected={selectedField === FieldType.FORMULA ? true : undefined}
+                    >
+                      <Card
+                        className={cn(
+                          'flex h-full w-full cursor-pointer items-center justify-center group-disabled:opacity-50',
+                          // selectedSignerStyles.borderClass,
+                        )}
+                      >
+                        <CardContent className="p-4">
+                          <p
+                            className={cn(
+                              'text-muted-foreground group-data-[selected]:text-foreground flex items-center justify-center gap-x-1.5 text-sm font-normal',
+                            )}
+                          >
+                            <Calculator className="h-4 w-4" />
+                            <Trans>Formula</Trans>
+                          </p>
+                        </CardContent>
+                      </Card>
+                    </button>
                   </fieldset>
                 </div>
               </Form>
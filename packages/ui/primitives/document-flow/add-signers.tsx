@@ -14,12 +14,23 @@ import { useFieldArray, useForm } from 'react-hook-form';
 import { prop, sortBy } from 'remeda';
 
 import { useLimits } from '@documenso/ee/server-only/limits/provider/client';
-import { ZRecipientAuthOptionsSchema } from '@documenso/lib/types/document-auth';
+import { SIGNING_ROUTING_RULE_OPERATOR_LABELS } from '@documenso/lib/constants/signing-routing';
+import {
+  RecipientAccessAuth,
+  RecipientActionAuth,
+  ZRecipientAuthOptionsSchema,
+} from '@documenso/lib/types/document-auth';
+import {
+  DEFAULT_DOCUMENT_SIGNING_ROUTING,
+  type TDocumentSigningRouting,
+  ZSigningRoutingRuleOperatorSchema,
+} from '@documenso/lib/types/document-signing-routing';
 import { nanoid } from '@documenso/lib/universal/id';
 import { canRecipientBeModified as utilCanRecipientBeModified } from '@documenso/lib/utils/recipients';
 import type { Field, Recipient } from '@documenso/prisma/client';
 import { DocumentSigningOrder, RecipientRole, SendStatus } from '@documenso/prisma/client';
 import { AnimateGenericFadeInOut } from '@documenso/ui/components/animate/animate-generic-fade-in-out';
+import { RecipientAccessAuthSelect } from '@documenso/ui/components/recipient/recipient-access-auth-select';
 import { RecipientActionAuthSelect } from '@documenso/ui/components/recipient/recipient-action-auth-select';
 import { RecipientRoleSelect } from '@documenso/ui/components/recipient/recipient-role-select';
 import { cn } from '@documenso/ui/lib/utils';
@@ -29,6 +40,7 @@ import { Checkbox } from '../checkbox';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '../form/form';
 import { FormErrorMessage } from '../form/form-error-message';
 import { Input } from '../input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../select';
 import { useStep } from '../stepper';
 import { useToast } from '../use-toast';
 import type { TAddSignersFormSchema } from './add-signers.types';
@@ -44,11 +56,19 @@ import { ShowFieldItem } from './show-field-item';
 import { SigningOrderConfirmation } from './signing-order-confirmation';
 import type { DocumentFlowStep } from './types';
 
+const isInFirstSigningStep = (signingOrders: number[], index: number) =>
+  signingOrders[index] === signingOrders[0];
+
+const isSigningGroupStart = (signingOrders: number[], index: number) =>
+  signingOrders[index] !== signingOrders[index - 1] &&
+  signingOrders[index] === signingOrders[index + 1];
+
 export type AddSignersFormProps = {
   documentFlow: DocumentFlowStep;
   recipients: Recipient[];
   fields: Field[];
   signingOrder?: DocumentSigningOrder | null;
+  signingRouting?: TDocumentSigningRouting;
   isDocumentEnterprise: boolean;
   onSubmit: (_data: TAddSignersFormSchema) => void;
   isDocumentPdfLoaded: boolean;
@@ -59,6 +79,7 @@ export const AddSignersFormPartial = ({
   recipients,
   fields,
   signingOrder,
+  signingRouting = DEFAULT_DOCUMENT_SIGNING_ROUTING,
   isDocumentEnterprise,
   onSubmit,
   isDocumentPdfLoaded,
@@ -82,10 +103,13 @@ export const AddSignersFormPartial = ({
       email: '',
       role: RecipientRole.SIGNER,
       signingOrder: 1,
+      accessAuth: undefined,
       actionAuth: undefined,
     },
   ];
 
+  const recipientsById = new Map(recipients.map((recipient) => [recipient.id, recipient]));
+
   const form = useForm<TAddSignersFormSchema>({
     resolver: zodResolver(ZAddSignersFormSchema),
     defaultValues: {
@@ -99,12 +123,39 @@ export const AddSignersFormPartial = ({
                 email: recipient.email,
                 role: recipient.role,
                 signingOrder: recipient.signingOrder ?? index + 1,
+                accessAuth:
+                  ZRecipientAuthOptionsSchema.parse(recipient.authOptions)?.accessAuth ?? undefined,
                 actionAuth:
                   ZRecipientAuthOptionsSchema.parse(recipient.authOptions)?.actionAuth ?? undefined,
               })),
               [prop('signingOrder'), 'asc'],
               [prop('nativeId'), 'asc'],
-            )
+            ).map((signer, index, sortedSigners) => {
+              const recipient = recipientsById.get(signer.nativeId);
+              const previousRecipient =
+                index > 0 ? recipientsById.get(sortedSigners[index - 1].nativeId) : undefined;
+
+              const signInParallelWithPrevious =
+                recipient?.signingOrder != null &&
+                previousRecipient?.signingOrder === recipient.signingOrder;
+
+              const group = signingRouting.groups.find(
+                (group) => group.signingOrder === recipient?.signingOrder,
+              );
+
+              const rule = signingRouting.rules.find(
+                (rule) => rule.recipientId === signer.nativeId,
+              );
+
+              return {
+                ...signer,
+                signInParallelWithPrevious,
+                signingGroupCompletion: !signInParallelWithPrevious ? group?.completion : undefined,
+                skipRule: rule
+                  ? { fieldLabel: rule.fieldLabel, operator: rule.operator, value: rule.value }
+                  : undefined,
+              };
+            })
           : defaultRecipients,
       signingOrder: signingOrder || DocumentSigningOrder.PARALLEL,
     },
@@ -118,9 +169,11 @@ export const AddSignersFormPartial = ({
       return recipientAuthOptions?.accessAuth || recipientAuthOptions?.actionAuth;
     });
 
-    const formHasActionAuth = form.getValues('signers').find((signer) => signer.actionAuth);
+    const formHasAuthOptions = form
+      .getValues('signers')
+      .find((signer) => signer.accessAuth || signer.actionAuth);
 
-    return recipientHasAuthOptions !== undefined || formHasActionAuth !== undefined;
+    return recipientHasAuthOptions !== undefined || formHasAuthOptions !== undefined;
   }, [recipients, form]);
 
   const [showAdvancedSettings, setShowAdvancedSettings] = useState(alwaysShowAdvancedSettings);
@@ -146,8 +199,6 @@ export const AddSignersFormPartial = ({
       .map((signer, index) => ({ ...signer, signingOrder: index + 1 }));
   };
 
-  const onFormSubmit = form.handleSubmit(onSubmit);
-
   const {
     append: appendSigner,
     fields: signers,
@@ -180,12 +231,58 @@ export const AddSignersFormPartial = ({
     return utilCanRecipientBeModified(recipient, fields);
   };
 
+  /**
+   * Get the signing order of each signer, signers that sign in parallel with the signer before
+   * them share their signing order. Signers that can no longer be modified keep their order.
+   */
+  const getSignerSigningOrders = (signers: typeof watchedSigners) => {
+    const signingOrders: number[] = [];
+
+    signers.forEach((signer, index) => {
+      const previousSigningOrder = signingOrders[index - 1] ?? 0;
+
+      if (!canRecipientBeModified(signer.nativeId) && signer.signingOrder) {
+        signingOrders.push(signer.signingOrder);
+      } else if (index > 0 && signer.signInParallelWithPrevious) {
+        signingOrders.push(previousSigningOrder);
+      } else {
+        signingOrders.push(previousSigningOrder + 1);
+      }
+    });
+
+    return signingOrders;
+  };
+
+  const signerSigningOrders = getSignerSigningOrders(watchedSigners);
+
+  const onFormSubmit = form.handleSubmit((data) => {
+    if (data.signingOrder !== DocumentSigningOrder.SEQUENTIAL) {
+      return onSubmit(data);
+    }
+
+    const signingOrders = getSignerSigningOrders(data.signers);
+
+    return onSubmit({
+      ...data,
+      signers: data.signers.map((signer, index) => ({
+        ...signer,
+        signingOrder: signingOrders[index],
+        signingGroupCompletion: isSigningGroupStart(signingOrders, index)
+          ? signer.signingGroupCompletion
+          : undefined,
+        // Recipients of the first step can't be skipped since nobody has signed before them.
+        skipRule: !isInFirstSigningStep(signingOrders, index) ? signer.skipRule : undefined,
+      })),
+    });
+  });
+
   const onAddSigner = () => {
     appendSigner({
       formId: nanoid(12),
       name: '',
       email: '',
       role: RecipientRole.SIGNER,
+      accessAuth: undefined,
       actionAuth: undefined,
       signingOrder: signers.length > 0 ? (signers[signers.length - 1]?.signingOrder ?? 0) + 1 : 1,
     });
@@ -220,6 +317,7 @@ export const AddSignersFormPartial = ({
         name: user?.name ?? '',
         email: user?.email ?? '',
         role: RecipientRole.SIGNER,
+        accessAuth: undefined,
         actionAuth: undefined,
         signingOrder: signers.length > 0 ? (signers[signers.length - 1]?.signingOrder ?? 0) + 1 : 1,
       });
@@ -652,6 +750,300 @@ export const AddSignersFormPartial = ({
                                   <Trash className="h-4 w-4" />
                                 </button>
                               </div>
+
+                              {showAdvancedSettings && (
+                                <FormField
+                                  control={form.control}
+                                  name={`signers.${index}.accessAuth`}
+                                  render={({ field }) => (
+                                    <FormItem
+                                      className={cn('col-span-10', {
+                                        'col-span-12': isSigningOrderSequential,
+                                      })}
+                                    >
+                                      <FormControl>
+                                        <RecipientAccessAuthSelect
+                                          {...field}
+                                          onValueChange={field.onChange}
+                                          disabled={
+                                            snapshot.isDragging ||
+                                            isSubmitting ||
+                                            !canRecipientBeModified(signer.nativeId)
+                                          }
+                                        />
+                                      </FormControl>
+
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                              )}
+
+                              {showAdvancedSettings &&
+                                watchedSigners[index]?.accessAuth ===
+                                  RecipientAccessAuth.ACCESS_CODE && (
+                                  <FormField
+                                    control={form.control}
+                                    name={`signers.${index}.accessCode`}
+                                    render={({ field }) => (
+                                      <FormItem
+                                        className={cn('col-span-10', {
+                                          'col-span-12': isSigningOrderSequential,
+                                        })}
+                                      >
+                                        <FormControl>
+                                          <Input
+                                            type="password"
+                                            autoComplete="new-password"
+                                            placeholder={
+                                              signer.nativeId
+                                                ? _(msg`New access code (leave empty to keep)`)
+                                                : _(msg`Access code to share with the recipient`)
+                                            }
+                                            {...field}
+                                            value={field.value ?? ''}
+                                            disabled={
+                                              snapshot.isDragging ||
+                                              isSubmitting ||
+                                              !canRecipientBeModified(signer.nativeId)
+                                            }
+                                          />
+                                        </FormControl>
+
+                                        <FormMessage />
+                                      </FormItem>
+                                    )}
+                                  />
+                                )}
+
+                              {showAdvancedSettings &&
+                                isDocumentEnterprise &&
+                                watchedSigners[index]?.actionAuth ===
+                                  RecipientActionAuth.SMS_OTP && (
+                                  <FormField
+                                    control={form.control}
+                                    name={`signers.${index}.smsVerificationPhone`}
+                                    render={({ field }) => (
+                                      <FormItem
+                                        className={cn('col-span-10', {
+                                          'col-span-12': isSigningOrderSequential,
+                                        })}
+                                      >
+                                        <FormControl>
+                                          <Input
+                                            type="tel"
+                                            placeholder={_(
+                                              msg`Phone number for SMS codes, e.g. +14155552671`,
+                                            )}
+                                            {...field}
+                                            value={field.value ?? ''}
+                                            disabled={
+                                              snapshot.isDragging ||
+                                              isSubmitting ||
+                                              !canRecipientBeModified(signer.nativeId)
+                                            }
+                                          />
+                                        </FormControl>
+
+                                        <FormMessage />
+                                      </FormItem>
+                                    )}
+                                  />
+                                )}
+
+                              {isSigningOrderSequential &&
+                                watchedSigners[index]?.role !== RecipientRole.CC && (
+                                  <div className="col-span-12 flex flex-col gap-y-2">
+                                    {index > 0 && (
+                                      <FormField
+                                        control={form.control}
+                                        name={`signers.${index}.signInParallelWithPrevious`}
+                                        render={({ field }) => (
+                                          <FormItem className="flex flex-row items-center space-x-2 space-y-0">
+                                            <FormControl>
+                                              <Checkbox
+                                                id={`signInParallelWithPrevious-${signer.id}`}
+                                                checked={field.value ?? false}
+                                                onCheckedChange={(checked) =>
+                                                  field.onChange(Boolean(checked))
+                                                }
+                                                disabled={
+                                                  snapshot.isDragging ||
+                                                  isSubmitting ||
+                                                  !canRecipientBeModified(signer.nativeId)
+                                                }
+                                              />
+                                            </FormControl>
+
+                                            <FormLabel
+                                              htmlFor={`signInParallelWithPrevious-${signer.id}`}
+                                              className="text-muted-foreground text-sm"
+                                            >
+                                              <Trans>
+                                                Sign at the same time as the previous recipient
+                                              </Trans>
+                                            </FormLabel>
+                                          </FormItem>
+                                        )}
+                                      />
+                                    )}
+
+                                    {isSigningGroupStart(signerSigningOrders, index) && (
+                                      <FormField
+                                        control={form.control}
+                                        name={`signers.${index}.signingGroupCompletion`}
+                                        render={({ field }) => (
+                                          <FormItem className="flex flex-row items-center space-x-2 space-y-0">
+                                            <FormControl>
+                                              <Checkbox
+                                                id={`signingGroupCompletion-${signer.id}`}
+                                                checked={field.value === 'any'}
+                                                onCheckedChange={(checked) =>
+                                                  field.onChange(checked ? 'any' : undefined)
+                                                }
+                                                disabled={
+                                                  snapshot.isDragging ||
+                                                  isSubmitting ||
+                                                  !canRecipientBeModified(signer.nativeId)
+                                                }
+                                              />
+                                            </FormControl>
+
+                                            <FormLabel
+                                              htmlFor={`signingGroupCompletion-${signer.id}`}
+                                              className="text-muted-foreground text-sm"
+                                            >
+                                              <Trans>
+                                                Only one recipient of this group needs to sign
+                                              </Trans>
+                                            </FormLabel>
+                                          </FormItem>
+                                        )}
+                                      />
+                                    )}
+
+                                    {!isInFirstSigningStep(signerSigningOrders, index) && (
+                                      <div className="flex flex-row items-center space-x-2">
+                                        <Checkbox
+                                          id={`skipRule-${signer.id}`}
+                                          checked={Boolean(watchedSigners[index]?.skipRule)}
+                                          onCheckedChange={(checked) =>
+                                            setValue(
+                                              `signers.${index}.skipRule`,
+                                              checked
+                                                ? { fieldLabel: '', operator: 'lessThan', value: 0 }
+                                                : undefined,
+                                            )
+                                          }
+                                          disabled={
+                                            snapshot.isDragging ||
+                                            isSubmitting ||
+                                            !canRecipientBeModified(signer.nativeId)
+                                          }
+                                        />
+
+                                        <label
+                                          htmlFor={`skipRule-${signer.id}`}
+                                          className="text-muted-foreground text-sm"
+                                        >
+                                          <Trans>
+                                            Skip this recipient when a field value matches
+                                          </Trans>
+                                        </label>
+                                      </div>
+                                    )}
+
+                                    {!isInFirstSigningStep(signerSigningOrders, index) &&
+                                      watchedSigners[index]?.skipRule && (
+                                        <div className="grid grid-cols-12 gap-2">
+                                          <FormField
+                                            control={form.control}
+                                            name={`signers.${index}.skipRule.fieldLabel`}
+                                            render={({ field }) => (
+                                              <FormItem className="col-span-5">
+                                                <FormControl>
+                                                  <Input
+                                                    placeholder={_(msg`Field label`)}
+                                                    {...field}
+                                                    disabled={
+                                                      snapshot.isDragging ||
+                                                      isSubmitting ||
+                                                      !canRecipientBeModified(signer.nativeId)
+                                                    }
+                                                  />
+                                                </FormControl>
+
+                                                <FormMessage />
+                                              </FormItem>
+                                            )}
+                                          />
+
+                                          <FormField
+                                            control={form.control}
+                                            name={`signers.${index}.skipRule.operator`}
+                                            render={({ field }) => (
+                                              <FormItem className="col-span-4">
+                                                <Select
+                                                  value={field.value}
+                                                  onValueChange={field.onChange}
+                                                  disabled={
+                                                    snapshot.isDragging ||
+                                                    isSubmitting ||
+                                                    !canRecipientBeModified(signer.nativeId)
+                                                  }
+                                                >
+                                                  <FormControl>
+                                                    <SelectTrigger className="bg-background">
+                                                      <SelectValue />
+                                                    </SelectTrigger>
+                                                  </FormControl>
+
+                                                  <SelectContent>
+                                                    {ZSigningRoutingRuleOperatorSchema.options.map(
+                                                      (operator) => (
+                                                        <SelectItem key={operator} value={operator}>
+                                                          {_(
+                                                            SIGNING_ROUTING_RULE_OPERATOR_LABELS[
+                                                              operator
+                                                            ],
+                                                          )}
+                                                        </SelectItem>
+                                                      ),
+                                                    )}
+                                                  </SelectContent>
+                                                </Select>
+
+                                                <FormMessage />
+                                              </FormItem>
+                                            )}
+                                          />
+
+                                          <FormField
+                                            control={form.control}
+                                            name={`signers.${index}.skipRule.value`}
+                                            render={({ field }) => (
+                                              <FormItem className="col-span-3">
+                                                <FormControl>
+                                                  <Input
+                                                    type="number"
+                                                    placeholder={_(msg`Value`)}
+                                                    {...field}
+                                                    disabled={
+                                                      snapshot.isDragging ||
+                                                      isSubmitting ||
+                                                      !canRecipientBeModified(signer.nativeId)
+                                                    }
+                                                  />
+                                                </FormControl>
+
+                                                <FormMessage />
+                                              </FormItem>
+                                            )}
+                                          />
+                                        </div>
+                                      )}
+                                  </div>
+                                )}
                             </motion.fieldset>
                           </div>
                         )}
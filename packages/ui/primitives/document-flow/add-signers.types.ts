@@ -1,11 +1,31 @@
 import { msg } from '@lingui/macro';
 import { z } from 'zod';
 
-import { ZRecipientActionAuthTypesSchema } from '@documenso/lib/types/document-auth';
+import {
+  ZRecipientAccessAuthTypesSchema,
+  ZRecipientAccessCodeSchema,
+  ZRecipientActionAuthTypesSchema,
+  ZRecipientSmsVerificationPhoneSchema,
+} from '@documenso/lib/types/document-auth';
+import {
+  ZSigningRoutingGroupCompletionSchema,
+  ZSigningRoutingRuleOperatorSchema,
+} from '@documenso/lib/types/document-signing-routing';
 
 import { ZMapNegativeOneToUndefinedSchema } from './add-settings.types';
 import { DocumentSigningOrder, RecipientRole } from '.prisma/client';
 
+export const ZAddSignersFormSkipRuleSchema = z.object({
+  fieldLabel: z
+    .string()
+    .trim()
+    .min(1, { message: msg`Enter the label of the field to compare`.id }),
+  operator: ZSigningRoutingRuleOperatorSchema,
+  value: z.coerce.number(),
+});
+
+export type TAddSignersFormSkipRuleSchema = z.infer<typeof ZAddSignersFormSkipRuleSchema>;
+
 export const ZAddSignersFormSchema = z
   .object({
     signers: z.array(
@@ -19,9 +39,23 @@ export const ZAddSignersFormSchema = z
         name: z.string(),
         role: z.nativeEnum(RecipientRole),
         signingOrder: z.number().optional(),
+        // Sign at the same step as the signer before them when signing in order.
+        signInParallelWithPrevious: z.boolean().optional(),
+        // Only set on the first signer of a step that several signers sign in parallel.
+        signingGroupCompletion: ZSigningRoutingGroupCompletionSchema.optional(),
+        skipRule: ZAddSignersFormSkipRuleSchema.optional(),
+        accessAuth: ZMapNegativeOneToUndefinedSchema.pipe(
+          ZRecipientAccessAuthTypesSchema.optional(),
+        ),
         actionAuth: ZMapNegativeOneToUndefinedSchema.pipe(
           ZRecipientActionAuthTypesSchema.optional(),
         ),
+        // Left empty to keep the access code already set for the recipient.
+        accessCode: z.union([z.literal(''), ZRecipientAccessCodeSchema]).optional(),
+        // Left empty to keep the phone number already stored for the recipient.
+        smsVerificationPhone: z
+          .union([z.literal(''), ZRecipientSmsVerificationPhoneSchema])
+          .optional(),
       }),
     ),
     signingOrder: z.nativeEnum(DocumentSigningOrder),
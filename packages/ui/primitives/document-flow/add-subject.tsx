@@ -4,11 +4,13 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { Trans, msg } from '@lingui/macro';
 import { useLingui } from '@lingui/react';
 import { AnimatePresence, motion } from 'framer-motion';
+import { DateTime } from 'luxon';
 import { useForm } from 'react-hook-form';
 
 import { RECIPIENT_ROLES_DESCRIPTION } from '@documenso/lib/constants/recipient-roles';
 import type { TDocument } from '@documenso/lib/types/document';
 import { ZDocumentEmailSettingsSchema } from '@documenso/lib/types/document-email';
+import { parseDocumentReminderSettings } from '@documenso/lib/types/document-reminders';
 import { formatSigningLink } from '@documenso/lib/utils/recipients';
 import type { Field, Recipient } from '@documenso/prisma/client';
 import {
@@ -21,6 +23,7 @@ import { Tabs, TabsList, TabsTrigger } from '@documenso/ui/primitives/tabs';
 
 import { CopyTextButton } from '../../components/common/copy-text-button';
 import { DocumentEmailCheckboxes } from '../../components/document/document-email-checkboxes';
+import { DocumentReminderSettings } from '../../components/document/document-reminder-settings';
 import { AvatarWithText } from '../avatar';
 import { FormErrorMessage } from '../form/form-error-message';
 import { Input } from '../input';
@@ -66,12 +69,16 @@ export const AddSubjectFormPartial = ({
     formState: { errors, isSubmitting },
   } = useForm<TAddSubjectFormSchema>({
     defaultValues: {
+      expiresAt: document.expiresAt
+        ? DateTime.fromJSDate(document.expiresAt).toFormat('yyyy-MM-dd')
+        : '',
       meta: {
         subject: document.documentMeta?.subject ?? '',
         message: document.documentMeta?.message ?? '',
         distributionMethod:
           document.documentMeta?.distributionMethod || DocumentDistributionMethod.EMAIL,
         emailSettings: ZDocumentEmailSettingsSchema.parse(document?.documentMeta?.emailSettings),
+        reminderSettings: parseDocumentReminderSettings(document.documentMeta?.reminderSettings),
       },
     },
     resolver: zodResolver(ZAddSubjectFormSchema),
@@ -84,16 +91,21 @@ export const AddSubjectFormPartial = ({
         ? msg`Resend`
         : msg`Send`,
       [DocumentStatus.COMPLETED]: msg`Update`,
+      [DocumentStatus.EXPIRED]: msg`Update`,
+      [DocumentStatus.VOIDED]: msg`Update`,
     },
     [DocumentDistributionMethod.NONE]: {
       [DocumentStatus.DRAFT]: msg`Generate Links`,
       [DocumentStatus.PENDING]: msg`View Document`,
       [DocumentStatus.COMPLETED]: msg`View Document`,
+      [DocumentStatus.EXPIRED]: msg`View Document`,
+      [DocumentStatus.VOIDED]: msg`View Document`,
     },
   };
 
   const distributionMethod = watch('meta.distributionMethod');
   const emailSettings = watch('meta.emailSettings');
+  const reminderSettings = watch('meta.reminderSettings');
 
   const onFormSubmit = handleSubmit(onSubmit);
   const { currentStep, totalSteps, previousStep } = useStep();
@@ -184,6 +196,12 @@ export const AddSubjectFormPartial = ({
                   value={emailSettings}
                   onChange={(value) => setValue('meta.emailSettings', value)}
                 />
+
+                <DocumentReminderSettings
+                  value={reminderSettings}
+                  disabled={isSubmitting}
+                  onChange={(value) => setValue('meta.reminderSettings', value)}
+                />
               </motion.div>
             )}
 
@@ -263,6 +281,32 @@ export const AddSubjectFormPartial = ({
               </motion.div>
             )}
           </AnimatePresence>
+
+          <div className="mt-4 rounded-lg border p-4">
+            <Label htmlFor="expiresAt">
+              <Trans>
+                Expiry date <span className="text-muted-foreground">(Optional)</span>
+              </Trans>
+            </Label>
+
+            <Input
+              id="expiresAt"
+              type="date"
+              className="bg-background mt-2"
+              min={DateTime.now().toFormat('yyyy-MM-dd')}
+              disabled={isSubmitting}
+              {...register('expiresAt')}
+            />
+
+            <p className="text-muted-foreground mt-2 text-xs">
+              <Trans>
+                Recipients can no longer sign the document after this date. When left empty, your
+                team's default expiry is used.
+              </Trans>
+            </p>
+
+            <FormErrorMessage className="mt-2" error={errors.expiresAt} />
+          </div>
         </div>
       </DocumentFlowFormContainerContent>
 
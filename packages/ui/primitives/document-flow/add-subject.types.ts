@@ -1,10 +1,20 @@
+import { DateTime } from 'luxon';
 import { z } from 'zod';
 
 import { ZDocumentEmailSettingsSchema } from '@documenso/lib/types/document-email';
+import { ZDocumentReminderSettingsSchema } from '@documenso/lib/types/document-reminders';
 
 import { DocumentDistributionMethod } from '.prisma/client';
 
 export const ZAddSubjectFormSchema = z.object({
+  /**
+   * The date the document expires on in the `yyyy-MM-dd` format, or an empty string for none.
+   */
+  expiresAt: z
+    .string()
+    .refine((value) => !value || DateTime.fromISO(value).endOf('day') > DateTime.now(), {
+      message: 'The expiry date must be in the future',
+    }),
   meta: z.object({
     subject: z.string(),
     message: z.string(),
@@ -13,6 +23,7 @@ export const ZAddSubjectFormSchema = z.object({
       .optional()
       .default(DocumentDistributionMethod.EMAIL),
     emailSettings: ZDocumentEmailSettingsSchema,
+    reminderSettings: ZDocumentReminderSettingsSchema,
   }),
 });
 
@@ -1,5 +1,6 @@
 import { Trans } from '@lingui/macro';
 import {
+  Calculator,
   CalendarDays,
   CheckSquare,
   ChevronDown,
@@ -10,6 +11,7 @@ import {
   Type,
   User,
 } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react/dist/lucide-react';
 
 import type { TFieldMetaSchema as FieldMetaType } from '@documenso/lib/types/field-meta';
 import { FieldType } from '@documenso/prisma/client';
@@ -23,7 +25,7 @@ type FieldIconProps = {
   fontCaveatClassName?: string;
 };
 
-const fieldIcons = {
+const fieldIcons: Record<string, { icon: LucideIcon; label: string }> = {
   [FieldType.INITIALS]: { icon: Contact, label: 'Initials' },
   [FieldType.EMAIL]: { icon: Mail, label: 'Email' },
   [FieldType.NAME]: { icon: User, label: 'Name' },
@@ -33,6 +35,7 @@ const fieldIcons = {
   [FieldType.RADIO]: { icon: Disc, label: 'Radio' },
   [FieldType.CHECKBOX]: { icon: CheckSquare, label: 'Checkbox' },
   [FieldType.DROPDOWN]: { icon: ChevronDown, label: 'Select' },
+  [FieldType.FORMULA]: { icon: Calculator, label: 'Formula' },
 };
 
 export const FieldIcon = ({
@@ -56,8 +59,11 @@ export const FieldIcon = ({
     const Icon = fieldIcons[type]?.icon;
     let label;
 
-    if (fieldMeta && (type === 'TEXT' || type === 'NUMBER')) {
-      if (type === 'TEXT' && 'text' in fieldMeta && fieldMeta.text && !fieldMeta.label) {
+    if (
+      fieldMeta &&
+      (fieldMeta.type === 'text' || fieldMeta.type === 'number' || fieldMeta.type === 'formula')
+    ) {
+      if (fieldMeta.type === 'text' && fieldMeta.text && !fieldMeta.label) {
         label =
           fieldMeta.text.length > 20 ? fieldMeta.text.substring(0, 20) + '...' : fieldMeta.text;
       } else if (fieldMeta.label) {
@@ -1,6 +1,6 @@
 'use client';
 
-import { forwardRef, useEffect, useState } from 'react';
+import { forwardRef, useEffect, useMemo, useState } from 'react';
 
 import type { MessageDescriptor } from '@lingui/core';
 import { msg } from '@lingui/macro';
@@ -13,7 +13,9 @@ import {
   type TDateFieldMeta as DateFieldMeta,
   type TDropdownFieldMeta as DropdownFieldMeta,
   type TEmailFieldMeta as EmailFieldMeta,
+  type TFieldConditionalLogic as FieldConditionalLogic,
   type TFieldMetaSchema as FieldMeta,
+  type TFormulaFieldMeta as FormulaFieldMeta,
   type TInitialsFieldMeta as InitialsFieldMeta,
   type TNameFieldMeta as NameFieldMeta,
   type TNumberFieldMeta as NumberFieldMeta,
@@ -33,9 +35,11 @@ import {
 } from './document-flow-root';
 import { FieldItem } from './field-item';
 import { CheckboxFieldAdvancedSettings } from './field-items-advanced-settings/checkbox-field';
+import { FieldConditionalLogicSettings } from './field-items-advanced-settings/conditional-logic';
 import { DateFieldAdvancedSettings } from './field-items-advanced-settings/date-field';
 import { DropdownFieldAdvancedSettings } from './field-items-advanced-settings/dropdown-field';
 import { EmailFieldAdvancedSettings } from './field-items-advanced-settings/email-field';
+import { FormulaFieldAdvancedSettings } from './field-items-advanced-settings/formula-field';
 import { InitialsFieldAdvancedSettings } from './field-items-advanced-settings/initials-field';
 import { NameFieldAdvancedSettings } from './field-items-advanced-settings/name-field';
 import { NumberFieldAdvancedSettings } from './field-items-advanced-settings/number-field';
@@ -63,7 +67,8 @@ export type FieldMetaKeys =
   | keyof InitialsFieldMeta
   | keyof NameFieldMeta
   | keyof EmailFieldMeta
-  | keyof DateFieldMeta;
+  | keyof DateFieldMeta
+  | keyof FormulaFieldMeta;
 
 const getDefaultState = (fieldType: FieldType): FieldMeta => {
   switch (fieldType) {
@@ -141,6 +146,16 @@ const getDefaultState = (fieldType: FieldType): FieldMeta => {
         required: false,
         readOnly: false,
       };
+    case FieldType.FORMULA:
+      return {
+        type: 'formula',
+        label: '',
+        operation: 'sum',
+        operands: [],
+        numberFormat: '',
+        fontSize: 14,
+        textAlign: 'left',
+      };
     default:
       throw new Error(`Unsupported field type: ${fieldType}`);
   }
@@ -158,6 +173,16 @@ export const FieldAdvancedSettings = forwardRef<HTMLDivElement, FieldAdvancedSet
 
     const fieldMeta = field?.fieldMeta;
 
+    // Conditions and formulas reference other fields by their label.
+    const availableLabels = useMemo(() => {
+      const labels = fields
+        .filter((otherField) => otherField.formId !== field.formId)
+        .map((otherField) => otherField.fieldMeta?.label?.trim())
+        .filter((label): label is string => Boolean(label));
+
+      return Array.from(new Set(labels));
+    }, [field.formId, fields]);
+
     const localStorageKey = `field_${field.formId}_${field.type}`;
 
     const defaultState: FieldMeta = getDefaultState(field.type);
@@ -183,14 +208,24 @@ export const FieldAdvancedSettings = forwardRef<HTMLDivElement, FieldAdvancedSet
       key: FieldMetaKeys,
       value:
         | string
+        | string[]
         | { checked: boolean; value: string }[]
         | { value: string }[]
         | boolean
-        | number,
+        | number
+        | FieldConditionalLogic
+        | undefined,
     ) => {
       setFieldState((prevState: FieldMeta) => {
         if (
-          ['characterLimit', 'minValue', 'maxValue', 'validationLength', 'fontSize'].includes(key)
+          [
+            'characterLimit',
+            'minValue',
+            'maxValue',
+            'validationLength',
+            'fontSize',
+            'amount',
+          ].includes(key)
         ) {
           const parsedValue = Number(value);
 
@@ -304,7 +339,22 @@ export const FieldAdvancedSettings = forwardRef<HTMLDivElement, FieldAdvancedSet
                 handleErrors={setErrors}
               />
             ))
+            .with(FieldType.FORMULA, () => (
+              <FormulaFieldAdvancedSettings
+                fieldState={fieldState}
+                availableLabels={availableLabels}
+                handleFieldChange={handleFieldChange}
+                handleErrors={setErrors}
+              />
+            ))
             .otherwise(() => null)}
+
+          <FieldConditionalLogicSettings
+            availableLabels={availableLabels}
+            fieldState={fieldState}
+            handleConditionalLogicChange={(value) => handleFieldChange('conditionalLogic', value)}
+          />
+
           {errors.length > 0 && (
             <div className="mt-4">
               <ul>
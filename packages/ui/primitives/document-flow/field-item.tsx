@@ -95,6 +95,7 @@ export const FieldItem = ({
     'EMAIL',
     'DATE',
     'NAME',
+    'FORMULA',
   ].includes(field.type);
 
   const calculateCoords = useCallback(() => {
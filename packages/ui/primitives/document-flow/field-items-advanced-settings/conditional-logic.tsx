@@ -0,0 +1,254 @@
+'use client';
+
+import type { MessageDescriptor } from '@lingui/core';
+import { Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+import { Trash } from 'lucide-react';
+
+import type {
+  TBaseFieldMeta as BaseFieldMeta,
+  TFieldCondition as FieldCondition,
+  TFieldConditionOperator as FieldConditionOperator,
+  TFieldConditionalLogic as FieldConditionalLogic,
+} from '@documenso/lib/types/field-meta';
+import {
+  ZFieldConditionOperatorSchema,
+  ZFieldConditionalLogicSchema,
+} from '@documenso/lib/types/field-meta';
+import { Button } from '@documenso/ui/primitives/button';
+import { Input } from '@documenso/ui/primitives/input';
+import { Label } from '@documenso/ui/primitives/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@documenso/ui/primitives/select';
+import { Switch } from '@documenso/ui/primitives/switch';
+
+const CONDITION_ACTIONS: Record<FieldConditionalLogic['action'], MessageDescriptor> = {
+  show: msg`Show this field`,
+  hide: msg`Hide this field`,
+  require: msg`Require this field`,
+};
+
+const CONDITION_OPERATORS: Record<FieldConditionOperator, MessageDescriptor> = {
+  equals: msg`is`,
+  notEquals: msg`is not`,
+  checked: msg`is checked`,
+  notChecked: msg`is not checked`,
+  isFilled: msg`is filled`,
+  isEmpty: msg`is empty`,
+};
+
+const OPERATORS_WITHOUT_VALUE: FieldConditionOperator[] = ['isFilled', 'isEmpty'];
+
+type FieldConditionalLogicSettingsProps = {
+  availableLabels: string[];
+  fieldState: BaseFieldMeta;
+  handleConditionalLogicChange: (value: FieldConditionalLogic | undefined) => void;
+};
+
+export const FieldConditionalLogicSettings = ({
+  availableLabels,
+  fieldState,
+  handleConditionalLogicChange,
+}: FieldConditionalLogicSettingsProps) => {
+  const { _ } = useLingui();
+
+  const conditionalLogic = fieldState.conditionalLogic;
+
+  const createCondition = (): FieldCondition => ({
+    fieldLabel: availableLabels[0],
+    operator: 'equals',
+    value: '',
+  });
+
+  const onToggle = (enabled: boolean) => {
+    handleConditionalLogicChange(
+      enabled
+        ? {
+            action: 'show',
+            match: 'all',
+            conditions: [createCondition()],
+          }
+        : undefined,
+    );
+  };
+
+  const updateConditionalLogic = (value: Partial<FieldConditionalLogic>) => {
+    if (!conditionalLogic) {
+      return;
+    }
+
+    handleConditionalLogicChange({
+      ...conditionalLogic,
+      ...value,
+    });
+  };
+
+  const updateCondition = (index: number, value: Partial<FieldCondition>) => {
+    if (!conditionalLogic) {
+      return;
+    }
+
+    updateConditionalLogic({
+      conditions: conditionalLogic.conditions.map((condition, conditionIndex) =>
+        conditionIndex === index ? { ...condition, ...value } : condition,
+      ),
+    });
+  };
+
+  const removeCondition = (index: number) => {
+    if (!conditionalLogic || conditionalLogic.conditions.length === 1) {
+      return;
+    }
+
+    updateConditionalLogic({
+      conditions: conditionalLogic.conditions.filter(
+        (_condition, conditionIndex) => conditionIndex !== index,
+      ),
+    });
+  };
+
+  return (
+    <div className="mt-4 flex flex-col gap-4 border-t pt-4">
+      <div className="flex flex-row items-center gap-2">
+        <Switch
+          className="bg-background"
+          checked={Boolean(conditionalLogic)}
+          disabled={!conditionalLogic && availableLabels.length === 0}
+          onCheckedChange={onToggle}
+        />
+        <Label>
+          <Trans>Conditional logic</Trans>
+        </Label>
+      </div>
+
+      {!conditionalLogic && availableLabels.length === 0 && (
+        <p className="text-muted-foreground text-xs">
+          <Trans>Give other fields a label to use them in conditions.</Trans>
+        </p>
+      )}
+
+      {conditionalLogic && (
+        <>
+          <div className="flex flex-row gap-2">
+            <Select
+              value={conditionalLogic.action}
+              onValueChange={(value) =>
+                updateConditionalLogic({
+                  action: ZFieldConditionalLogicSchema.shape.action.parse(value),
+                })
+              }
+            >
+              <SelectTrigger className="bg-background">
+                <SelectValue />
+              </SelectTrigger>
+
+              <SelectContent position="popper">
+                {Object.entries(CONDITION_ACTIONS).map(([action, label]) => (
+                  <SelectItem key={action} value={action}>
+                    {_(label)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={conditionalLogic.match}
+              onValueChange={(value) =>
+                updateConditionalLogic({
+                  match: ZFieldConditionalLogicSchema.shape.match.parse(value),
+                })
+              }
+            >
+              <SelectTrigger className="bg-background">
+                <SelectValue />
+              </SelectTrigger>
+
+              <SelectContent position="popper">
+                <SelectItem value="all">{_(msg`When all conditions match`)}</SelectItem>
+                <SelectItem value="any">{_(msg`When any condition matches`)}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {conditionalLogic.conditions.map((condition, index) => (
+            <div key={index} className="flex flex-row items-center gap-2">
+              <Select
+                value={condition.fieldLabel}
+                onValueChange={(value) => updateCondition(index, { fieldLabel: value })}
+              >
+                <SelectTrigger className="bg-background">
+                  <SelectValue placeholder={_(msg`Field`)} />
+                </SelectTrigger>
+
+                <SelectContent position="popper">
+                  {/* Keep labels that no longer exist selectable so the condition is not lost. */}
+                  {Array.from(new Set([...availableLabels, condition.fieldLabel])).map((label) => (
+                    <SelectItem key={label} value={label}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select
+                value={condition.operator}
+                onValueChange={(value) =>
+                  updateCondition(index, { operator: ZFieldConditionOperatorSchema.parse(value) })
+                }
+              >
+                <SelectTrigger className="bg-background">
+                  <SelectValue />
+                </SelectTrigger>
+
+                <SelectContent position="popper">
+                  {Object.entries(CONDITION_OPERATORS).map(([operator, label]) => (
+                    <SelectItem key={operator} value={operator}>
+                      {_(label)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {!OPERATORS_WITHOUT_VALUE.includes(condition.operator) && (
+                <Input
+                  className="bg-background"
+                  placeholder={_(msg`Value`)}
+                  value={condition.value ?? ''}
+                  onChange={(e) => updateCondition(index, { value: e.target.value })}
+                />
+              )}
+
+              <button
+                type="button"
+                className="col-span-1 mt-auto inline-flex h-10 w-10 items-center text-slate-500 hover:opacity-80 disabled:cursor-not-allowed disabled:opacity-50"
+                disabled={conditionalLogic.conditions.length === 1}
+                onClick={() => removeCondition(index)}
+              >
+                <Trash className="h-5 w-5" />
+              </button>
+            </div>
+          ))}
+
+          <Button
+            type="button"
+            className="bg-foreground/10 hover:bg-foreground/5 border-foreground/10 border"
+            variant="outline"
+            disabled={availableLabels.length === 0}
+            onClick={() =>
+              updateConditionalLogic({
+                conditions: [...conditionalLogic.conditions, createCondition()],
+              })
+            }
+          >
+            <Trans>Add condition</Trans>
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,226 @@
+'use client';
+
+import { useEffect } from 'react';
+
+import type { MessageDescriptor } from '@lingui/core';
+import { Trans, msg } from '@lingui/macro';
+import { useLingui } from '@lingui/react';
+
+import { validateFormulaField } from '@documenso/lib/advanced-fields-validation/validate-formula';
+import {
+  type TFormulaFieldMeta as FormulaFieldMeta,
+  type TFormulaOperation as FormulaOperation,
+  ZFormulaOperationSchema,
+} from '@documenso/lib/types/field-meta';
+import { Checkbox } from '@documenso/ui/primitives/checkbox';
+import { Input } from '@documenso/ui/primitives/input';
+import { Label } from '@documenso/ui/primitives/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@documenso/ui/primitives/select';
+
+import { numberFormatValues } from './constants';
+
+const FORMULA_OPERATIONS: Record<FormulaOperation, MessageDescriptor> = {
+  sum: msg`Sum`,
+  product: msg`Product`,
+  percentage: msg`Percentage of sum`,
+  addDays: msg`Date plus days`,
+};
+
+type FormulaFieldAdvancedSettingsProps = {
+  fieldState: FormulaFieldMeta;
+  availableLabels: string[];
+  handleFieldChange: (key: keyof FormulaFieldMeta, value: string | string[]) => void;
+  handleErrors: (errors: string[]) => void;
+};
+
+export const FormulaFieldAdvancedSettings = ({
+  fieldState,
+  availableLabels,
+  handleFieldChange,
+  handleErrors,
+}: FormulaFieldAdvancedSettingsProps) => {
+  const { _ } = useLingui();
+
+  const operands = fieldState.operands ?? [];
+  const isDateOperation = fieldState.operation === 'addDays';
+
+  const onOperationChange = (value: string) => {
+    const operation = ZFormulaOperationSchema.parse(value);
+
+    handleFieldChange('operation', operation);
+
+    // Date formulas are based on a single date field.
+    if (operation === 'addDays' && operands.length > 1) {
+      handleFieldChange('operands', operands.slice(0, 1));
+    }
+  };
+
+  const onOperandToggle = (label: string, checked: boolean) => {
+    handleFieldChange(
+      'operands',
+      checked ? [...operands, label] : operands.filter((operand) => operand !== label),
+    );
+  };
+
+  useEffect(() => {
+    handleErrors(validateFormulaField(fieldState));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [fieldState]);
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div>
+        <Label>
+          <Trans>Label</Trans>
+        </Label>
+        <Input
+          id="label"
+          className="bg-background mt-2"
+          placeholder={_(msg`Field label`)}
+          value={fieldState.label}
+          onChange={(e) => handleFieldChange('label', e.target.value)}
+        />
+      </div>
+
+      <div>
+        <Label>
+          <Trans>Calculation</Trans>
+        </Label>
+        <Select value={fieldState.operation} onValueChange={onOperationChange}>
+          <SelectTrigger className="bg-background mt-2 w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent position="popper">
+            {Object.entries(FORMULA_OPERATIONS).map(([operation, label]) => (
+              <SelectItem key={operation} value={operation}>
+                {_(label)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div>
+        <Label>{isDateOperation ? <Trans>Date field</Trans> : <Trans>Fields</Trans>}</Label>
+
+        {availableLabels.length === 0 && (
+          <p className="text-muted-foreground mt-2 text-xs">
+            <Trans>Give number, select or date fields a label to use them in a formula.</Trans>
+          </p>
+        )}
+
+        {availableLabels.length > 0 && isDateOperation && (
+          <Select
+            value={operands[0]}
+            onValueChange={(value) => handleFieldChange('operands', [value])}
+          >
+            <SelectTrigger className="bg-background mt-2 w-full">
+              <SelectValue placeholder={_(msg`Select a field`)} />
+            </SelectTrigger>
+            <SelectContent position="popper">
+              {availableLabels.map((label) => (
+                <SelectItem key={label} value={label}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {availableLabels.length > 0 && !isDateOperation && (
+          <div className="mt-2 flex flex-col gap-2">
+            {availableLabels.map((label) => (
+              <div key={label} className="flex flex-row items-center gap-2">
+                <Checkbox
+                  className="data-[state=checked]:bg-primary border-foreground/30 h-5 w-5"
+                  checked={operands.includes(label)}
+                  onCheckedChange={(checked) => onOperandToggle(label, checked === true)}
+                />
+                <Label>{label}</Label>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {(fieldState.operation === 'percentage' || isDateOperation) && (
+        <div>
+          <Label>{isDateOperation ? <Trans>Days</Trans> : <Trans>Percentage</Trans>}</Label>
+          <Input
+            id="amount"
+            type="number"
+            className="bg-background mt-2"
+            value={fieldState.amount ?? ''}
+            onChange={(e) => handleFieldChange('amount', e.target.value)}
+          />
+        </div>
+      )}
+
+      {!isDateOperation && (
+        <div>
+          <Label>
+            <Trans>Number format</Trans>
+          </Label>
+          <Select
+            value={fieldState.numberFormat}
+            onValueChange={(val) => handleFieldChange('numberFormat', val)}
+          >
+            <SelectTrigger className="text-muted-foreground bg-background mt-2 w-full">
+              <SelectValue placeholder={_(msg`Field format`)} />
+            </SelectTrigger>
+            <SelectContent position="popper">
+              {numberFormatValues.map((item, index) => (
+                <SelectItem key={index} value={item.value}>
+                  {item.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div>
+        <Label>
+          <Trans>Font Size</Trans>
+        </Label>
+        <Input
+          id="fontSize"
+          type="number"
+          className="bg-background mt-2"
+          placeholder={_(msg`Field font size`)}
+          value={fieldState.fontSize}
+          onChange={(e) => handleFieldChange('fontSize', e.target.value)}
+          min={8}
+          max={96}
+        />
+      </div>
+
+      <div>
+        <Label>
+          <Trans>Text Align</Trans>
+        </Label>
+
+        <Select
+          value={fieldState.textAlign}
+          onValueChange={(value) => handleFieldChange('textAlign', value)}
+        >
+          <SelectTrigger className="bg-background mt-2">
+            <SelectValue placeholder="Select text align" />
+          </SelectTrigger>
+
+          <SelectContent>
+            <SelectItem value="left">Left</SelectItem>
+            <SelectItem value="center">Center</SelectItem>
+            <SelectItem value="right">Right</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
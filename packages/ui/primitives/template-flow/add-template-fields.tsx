@@ -7,6 +7,7 @@ import { Caveat } from 'next/font/google';
 import { Trans, msg } from '@lingui/macro';
 import { useLingui } from '@lingui/react';
 import {
+  Calculator,
   CalendarDays,
   CheckSquare,
   ChevronDown,
@@ -959,6 +960,31 @@ export const AddTemplateFieldsFormPartial = ({
                         </CardContent>
                       </Card>
                     </button>
+                    <button
+                      type="button"
+                      className="group h-full w-full"
+                      onClick={() => setSelectedField(FieldType.FORMULA)}
+                      onMouseDown={() => setSelectedField(FieldType.FORMULA)}
+                      data-selected={selectedField === FieldType.FORMULA ? true : undefined}
+                    >
+                      <Card
+                        className={cn(
+                          'flex h-full w-full cursor-pointer items-center justify-center group-disabled:opacity-50',
+                          // selectedSignerStyles.borderClass,
+                        )}
+                      >
+                        <CardContent className="p-4">
+                          <p
+                            className={cn(
+                              'text-muted-foreground group-data-[selected]:text-foreground flex items-center justify-center gap-x-1.5 text-sm font-normal',
+                            )}
+                          >
+                            <Calculator className="h-4 w-4" />
+                            <Trans>Formula</Trans>
+                          </p>
+                        </CardContent>
+                      </Card>
+                    </button>
                   </fieldset>
                 </div>
               </Form>
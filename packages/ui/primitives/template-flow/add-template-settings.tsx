@@ -14,6 +14,7 @@ import { DOCUMENT_DISTRIBUTION_METHODS } from '@documenso/lib/constants/document
 import { SUPPORTED_LANGUAGES } from '@documenso/lib/constants/i18n';
 import { DEFAULT_DOCUMENT_TIME_ZONE, TIME_ZONES } from '@documenso/lib/constants/time-zones';
 import { ZDocumentEmailSettingsSchema } from '@documenso/lib/types/document-email';
+import { parseDocumentReminderSettings } from '@documenso/lib/types/document-reminders';
 import type { TTemplate } from '@documenso/lib/types/template';
 import { extractDocumentAuthMethods } from '@documenso/lib/utils/document-auth';
 import { DocumentVisibility, TeamMemberRole } from '@documenso/prisma/client';
@@ -48,6 +49,7 @@ import {
 } from '@documenso/ui/primitives/form/form';
 
 import { DocumentEmailCheckboxes } from '../../components/document/document-email-checkboxes';
+import { DocumentReminderSettings } from '../../components/document/document-reminder-settings';
 import { Combobox } from '../combobox';
 import {
   DocumentFlowFormContainerActions,
@@ -113,6 +115,7 @@ export const AddTemplateSettingsFormPartial = ({
         redirectUrl: template.templateMeta?.redirectUrl ?? '',
         language: template.templateMeta?.language ?? 'en',
         emailSettings: ZDocumentEmailSettingsSchema.parse(template?.templateMeta?.emailSettings),
+        reminderSettings: parseDocumentReminderSettings(template?.templateMeta?.reminderSettings),
       },
     },
   });
@@ -121,6 +124,7 @@ export const AddTemplateSettingsFormPartial = ({
 
   const distributionMethod = form.watch('meta.distributionMethod');
   const emailSettings = form.watch('meta.emailSettings');
+  const reminderSettings = form.watch('meta.reminderSettings');
 
   const canUpdateVisibility = match(currentTeamMemberRole)
     .with(TeamMemberRole.ADMIN, () => true)
@@ -401,6 +405,11 @@ export const AddTemplateSettingsFormPartial = ({
                         value={emailSettings}
                         onChange={(value) => form.setValue('meta.emailSettings', value)}
                       />
+
+                      <DocumentReminderSettings
+                        value={reminderSettings}
+                        onChange={(value) => form.setValue('meta.reminderSettings', value)}
+                      />
                     </div>
                   </AccordionContent>
                 </AccordionItem>
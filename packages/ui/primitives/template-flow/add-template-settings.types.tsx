@@ -8,6 +8,7 @@ import {
   ZDocumentActionAuthTypesSchema,
 } from '@documenso/lib/types/document-auth';
 import { ZDocumentEmailSettingsSchema } from '@documenso/lib/types/document-email';
+import { ZDocumentReminderSettingsSchema } from '@documenso/lib/types/document-reminders';
 import { isValidRedirectUrl } from '@documenso/lib/utils/is-valid-redirect-url';
 import { DocumentVisibility } from '@documenso/prisma/client';
 import {
@@ -49,6 +50,7 @@ export const ZAddTemplateSettingsFormSchema = z.object({
       .optional()
       .default('en'),
     emailSettings: ZDocumentEmailSettingsSchema,
+    reminderSettings: ZDocumentReminderSettingsSchema,
   }),
 });
 